@@ -1,15 +1,26 @@
 import { Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
-import { ThrottlerModule } from '@nestjs/throttler';
+import { APP_GUARD } from '@nestjs/core';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { ThrottlerGuard, ThrottlerModule } from '@nestjs/throttler';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { DatabaseModule } from './database/database.module';
+import { RedisModule } from './redis/redis.module';
 import { AuthModule } from './auth/auth.module';
 import { UsersModule } from './users/users.module';
+import { UserGroupsModule } from './user-groups/user-groups.module';
 import { WhatsAppModule } from './whatsapp/whatsapp.module';
 import { MessagesModule } from './messages/messages.module';
 import { ContactsModule } from './contacts/contacts.module';
 import { GroupsModule } from './groups/groups.module';
+import { CampaignsModule } from './campaigns/campaigns.module';
+import { TemplatesModule } from './templates/templates.module';
+import { WebhooksModule } from './webhooks/webhooks.module';
+import { RealtimeModule } from './realtime/realtime.module';
+import { ConversationsModule } from './conversations/conversations.module';
+import { BusinessHoursModule } from './business-hours/business-hours.module';
+import { AutoRepliesModule } from './auto-replies/auto-replies.module';
+import { ConsentModule } from './consent/consent.module';
 import configuration from './config/configuration';
 
 @Module({
@@ -18,21 +29,34 @@ import configuration from './config/configuration';
       isGlobal: true,
       load: [configuration],
     }),
-    ThrottlerModule.forRoot([
-      {
-        ttl: 60000,
-        limit: 100,
-      },
-    ]),
+    ThrottlerModule.forRootAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => [
+        {
+          ttl: (configService.get<number>('throttle.ttl') || 60) * 1000,
+          limit: configService.get<number>('throttle.limit') || 100,
+        },
+      ],
+    }),
     DatabaseModule,
+    RedisModule,
     AuthModule,
     UsersModule,
+    UserGroupsModule,
     WhatsAppModule,
     MessagesModule,
     ContactsModule,
     GroupsModule,
+    CampaignsModule,
+    TemplatesModule,
+    WebhooksModule,
+    RealtimeModule,
+    ConversationsModule,
+    BusinessHoursModule,
+    AutoRepliesModule,
+    ConsentModule,
   ],
   controllers: [AppController],
-  providers: [AppService],
+  providers: [AppService, { provide: APP_GUARD, useClass: ThrottlerGuard }],
 })
 export class AppModule {}
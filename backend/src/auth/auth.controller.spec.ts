@@ -1,6 +1,9 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
+import { EmailVerificationService } from './services/email-verification.service';
+import { PasswordResetService } from './services/password-reset.service';
+import { TwoFactorService } from './services/two-factor.service';
 
 describe('AuthController', () => {
   let controller: AuthController;
@@ -17,6 +20,27 @@ describe('AuthController', () => {
             logout: jest.fn(),
           },
         },
+        {
+          provide: TwoFactorService,
+          useValue: {
+            startEnrollment: jest.fn(),
+            confirmEnrollment: jest.fn(),
+          },
+        },
+        {
+          provide: PasswordResetService,
+          useValue: {
+            request: jest.fn(),
+            reset: jest.fn(),
+          },
+        },
+        {
+          provide: EmailVerificationService,
+          useValue: {
+            send: jest.fn(),
+            verify: jest.fn(),
+          },
+        },
       ],
     }).compile();
 
@@ -1,7 +1,12 @@
 import {
   Controller,
+  Get,
   Post,
+  Delete,
   Body,
+  Param,
+  Headers,
+  Ip,
   UseGuards,
   Request,
   HttpCode,
@@ -12,19 +17,44 @@ import {
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
+  ApiParam,
 } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
 import { AuthService } from './auth.service';
 import { LoginDto } from './dto/login.dto';
 import { RefreshTokenDto } from './dto/refresh-token.dto';
 import { AuthResponseDto } from './dto/auth-response.dto';
 import { RegisterDto } from './dto/register.dto';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { VerifyEmailDto } from './dto/verify-email.dto';
+import { SessionResponseDto } from './dto/session-response.dto';
+import { TwoFactorChallengeDto } from './dto/two-factor-challenge.dto';
+import { TwoFactorCodeDto } from './dto/two-factor-code.dto';
+import {
+  BackupCodesResponseDto,
+  TwoFactorChallengeResponseDto,
+  TwoFactorEnrollmentResponseDto,
+} from './dto/two-factor-response.dto';
+import { VerifyTwoFactorDto } from './dto/verify-two-factor.dto';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { AuthenticatedUser } from './guards/permission.guard';
+import { EmailVerificationService } from './services/email-verification.service';
+import { PasswordResetService } from './services/password-reset.service';
+import { TwoFactorService } from './services/two-factor.service';
+
+// Stricter than the global limit for endpoints that take guessable secrets
+const CREDENTIALS_THROTTLE = { default: { limit: 10, ttl: 60000 } };
 
 @ApiTags('Authentication')
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly passwordResetService: PasswordResetService,
+    private readonly emailVerificationService: EmailVerificationService,
+  ) {}
 
   @Post('register')
   @HttpCode(HttpStatus.CREATED)
@@ -42,29 +72,104 @@ export class AuthController {
     status: 401,
     description: 'User already exists or invalid tenant/user group',
   })
-  async register(@Body() registerDto: RegisterDto): Promise<AuthResponseDto> {
-    return this.authService.register(registerDto);
+  async register(
+    @Body() registerDto: RegisterDto,
+    @Headers('user-agent') userAgent: string | undefined,
+    @Ip() ipAddress: string,
+  ): Promise<AuthResponseDto> {
+    return this.authService.register(registerDto, { userAgent, ipAddress });
   }
 
   @Post('login')
+  @Throttle(CREDENTIALS_THROTTLE)
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'User login' })
+  @ApiOperation({
+    summary: 'User login',
+    description:
+      'Users with two-factor authentication, or whose group requires it, get a challenge token for the 2fa endpoints instead of tokens',
+  })
   @ApiResponse({
     status: 200,
-    description: 'Login successful',
+    description: 'Login successful, or a two-factor challenge',
     type: AuthResponseDto,
   })
   @ApiResponse({
     status: 401,
     description: 'Invalid credentials',
   })
-  async login(@Body() loginDto: LoginDto): Promise<AuthResponseDto> {
-    return this.authService.login(loginDto);
+  @ApiResponse({
+    status: 429,
+    description: 'Too many failed logins, the email or IP address is locked',
+  })
+  async login(
+    @Body() loginDto: LoginDto,
+    @Headers('user-agent') userAgent: string | undefined,
+    @Ip() ipAddress: string,
+  ): Promise<AuthResponseDto | TwoFactorChallengeResponseDto> {
+    return this.authService.login(loginDto, { userAgent, ipAddress });
+  }
+
+  @Post('2fa/verify')
+  @Throttle(CREDENTIALS_THROTTLE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Complete a login with a two-factor code',
+    description:
+      'When the login required setup, the code confirms the enrollment and the response has the backup codes',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Login successful',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid code for the enrollment',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid code or expired challenge',
+  })
+  async verifyTwoFactor(
+    @Body() verifyDto: VerifyTwoFactorDto,
+    @Headers('user-agent') userAgent: string | undefined,
+    @Ip() ipAddress: string,
+  ): Promise<AuthResponseDto> {
+    return this.authService.verifyTwoFactor(verifyDto, {
+      userAgent,
+      ipAddress,
+    });
+  }
+
+  @Post('2fa/setup')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Enroll in two-factor authentication during login',
+    description:
+      'For challenges with setupRequired, returns the QR code to scan before verifying',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Enrollment started',
+    type: TwoFactorEnrollmentResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid or expired challenge',
+  })
+  async setupTwoFactor(
+    @Body() challengeDto: TwoFactorChallengeDto,
+  ): Promise<TwoFactorEnrollmentResponseDto> {
+    return this.authService.setupTwoFactor(challengeDto);
   }
 
   @Post('refresh')
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Refresh access token' })
+  @ApiOperation({
+    summary: 'Refresh access token',
+    description:
+      'Refresh tokens are single use, the response has a new one. Using one twice logs out its session',
+  })
   @ApiResponse({
     status: 200,
     description: 'Token refreshed successfully',
@@ -76,15 +181,114 @@ export class AuthController {
   })
   async refreshToken(
     @Body() refreshTokenDto: RefreshTokenDto,
+    @Headers('user-agent') userAgent: string | undefined,
+    @Ip() ipAddress: string,
   ): Promise<AuthResponseDto> {
-    return this.authService.refreshToken(refreshTokenDto);
+    return this.authService.refreshToken(refreshTokenDto, {
+      userAgent,
+      ipAddress,
+    });
+  }
+
+  @Post('forgot-password')
+  @Throttle(CREDENTIALS_THROTTLE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Request a password reset link',
+    description:
+      'The response is the same whether or not the email belongs to an account. Each address gets a limited number of emails per hour',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Reset link sent if the account exists',
+  })
+  async forgotPassword(
+    @Body() forgotPasswordDto: ForgotPasswordDto,
+  ): Promise<{ message: string }> {
+    await this.passwordResetService.request(forgotPasswordDto.email);
+    return {
+      message: 'If the email belongs to an account, a reset link was sent',
+    };
+  }
+
+  @Post('reset-password')
+  @Throttle(CREDENTIALS_THROTTLE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Set a new password with a reset token',
+    description: 'The token works once, and every session is logged out',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Password reset',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid or expired token, or invalid password',
+  })
+  async resetPassword(
+    @Body() resetPasswordDto: ResetPasswordDto,
+  ): Promise<{ message: string }> {
+    await this.passwordResetService.reset(
+      resetPasswordDto.token,
+      resetPasswordDto.password,
+    );
+    return { message: 'Password reset' };
+  }
+
+  @Post('verify-email')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Verify an email address with a token' })
+  @ApiResponse({
+    status: 200,
+    description: 'Email verified',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid or expired token',
+  })
+  async verifyEmail(
+    @Body() verifyEmailDto: VerifyEmailDto,
+  ): Promise<{ message: string }> {
+    await this.emailVerificationService.verify(verifyEmailDto.token);
+    return { message: 'Email verified' };
+  }
+
+  @Post('verify-email/resend')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Send the verification email again',
+    description: 'Links of earlier emails stop working',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Verification email sent',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Email is already verified',
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many verification emails',
+  })
+  async resendVerificationEmail(
+    @Request() req: Request & { user: AuthenticatedUser },
+  ): Promise<{ message: string }> {
+    await this.emailVerificationService.send(req.user.id);
+    return { message: 'Verification email sent' };
   }
 
   @Post('logout')
   @UseGuards(JwtAuthGuard)
   @HttpCode(HttpStatus.OK)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'User logout' })
+  @ApiOperation({
+    summary: 'User logout',
+    description: 'Revokes the session of the access token',
+  })
   @ApiResponse({
     status: 200,
     description: 'Logout successful',
@@ -96,7 +300,186 @@ export class AuthController {
   async logout(
     @Request() req: Request & { user: AuthenticatedUser },
   ): Promise<{ message: string }> {
-    await this.authService.logout(req.user.id);
+    await this.authService.logout(req.user.sessionId);
     return { message: 'Logout successful' };
   }
+
+  @Post('logout-all')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Log out all sessions',
+    description:
+      'Revokes every refresh token of the user, including the current session',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'All sessions logged out',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  async logoutAll(
+    @Request() req: Request & { user: AuthenticatedUser },
+  ): Promise<{ message: string }> {
+    await this.authService.logoutAll(req.user.id);
+    return { message: 'All sessions logged out' };
+  }
+
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'List my sessions',
+    description:
+      'Every device the user is logged in on, last used first. The session of the request is marked as current',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Sessions retrieved successfully',
+    type: [SessionResponseDto],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  async findSessions(
+    @Request() req: Request & { user: AuthenticatedUser },
+  ): Promise<SessionResponseDto[]> {
+    return this.authService.findSessions(req.user.id, req.user.sessionId);
+  }
+
+  @Delete('sessions/:id')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Log out one of my sessions',
+    description:
+      'Its refresh and access tokens stop working, e.g. for a lost device',
+  })
+  @ApiParam({ name: 'id', description: 'Session ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Session logged out',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Session not found',
+  })
+  async revokeSession(
+    @Param('id') id: string,
+    @Request() req: Request & { user: AuthenticatedUser },
+  ): Promise<{ message: string }> {
+    await this.authService.revokeSession(req.user.id, id);
+    return { message: 'Session logged out' };
+  }
+
+  @Post('2fa/enroll')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Start enrolling in two-factor authentication',
+    description:
+      'Returns the QR code to scan, 2FA is enabled once a code is confirmed',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Enrollment started',
+    type: TwoFactorEnrollmentResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Two-factor authentication is already enabled',
+  })
+  async enrollTwoFactor(
+    @Request() req: Request & { user: AuthenticatedUser },
+  ): Promise<TwoFactorEnrollmentResponseDto> {
+    return this.twoFactorService.startEnrollment(req.user.id);
+  }
+
+  @Post('2fa/enroll/confirm')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Enable two-factor authentication with a code' })
+  @ApiResponse({
+    status: 200,
+    description: 'Two-factor authentication enabled',
+    type: BackupCodesResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid code or no enrollment started',
+  })
+  async confirmTwoFactor(
+    @Body() codeDto: TwoFactorCodeDto,
+    @Request() req: Request & { user: AuthenticatedUser },
+  ): Promise<BackupCodesResponseDto> {
+    const backupCodes = await this.twoFactorService.confirmEnrollment(
+      req.user.id,
+      codeDto.code,
+    );
+    return { backupCodes };
+  }
+
+  @Post('2fa/disable')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Disable two-factor authentication' })
+  @ApiResponse({
+    status: 200,
+    description: 'Two-factor authentication disabled',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid code or two-factor authentication is not enabled',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'The user group requires two-factor authentication',
+  })
+  async disableTwoFactor(
+    @Body() codeDto: TwoFactorCodeDto,
+    @Request() req: Request & { user: AuthenticatedUser },
+  ): Promise<{ message: string }> {
+    await this.twoFactorService.disable(req.user.id, codeDto.code);
+    return { message: 'Two-factor authentication disabled' };
+  }
+
+  @Post('2fa/backup-codes')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Replace the backup codes',
+    description: 'The previous backup codes stop working',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Backup codes replaced',
+    type: BackupCodesResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid code or two-factor authentication is not enabled',
+  })
+  async regenerateBackupCodes(
+    @Body() codeDto: TwoFactorCodeDto,
+    @Request() req: Request & { user: AuthenticatedUser },
+  ): Promise<BackupCodesResponseDto> {
+    const backupCodes = await this.twoFactorService.regenerateBackupCodes(
+      req.user.id,
+      codeDto.code,
+    );
+    return { backupCodes };
+  }
 }
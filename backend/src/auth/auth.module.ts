@@ -14,8 +14,34 @@ import {
   UserGroupEntity,
   UserGroupSchema,
 } from '../database/schemas/user-group.schema';
+import {
+  RefreshToken,
+  RefreshTokenSchema,
+} from '../database/schemas/refresh-token.schema';
+import { Session, SessionSchema } from '../database/schemas/session.schema';
+import {
+  UserToken,
+  UserTokenSchema,
+} from '../database/schemas/user-token.schema';
+import {
+  LoginThrottle,
+  LoginThrottleSchema,
+} from '../database/schemas/login-throttle.schema';
+import {
+  SecurityEvent,
+  SecurityEventSchema,
+} from '../database/schemas/security-event.schema';
+import { MailModule } from '../mail/mail.module';
+import { AccessTokenService } from './services/access-token.service';
+import { RefreshTokenService } from './services/refresh-token.service';
+import { SessionService } from './services/session.service';
+import { TwoFactorService } from './services/two-factor.service';
 import { TenantIdService } from './services/tenant-id.service';
 import { UserGroupIdService } from './services/user-group-id.service';
+import { UserTokenService } from './services/user-token.service';
+import { EmailVerificationService } from './services/email-verification.service';
+import { PasswordResetService } from './services/password-reset.service';
+import { LoginThrottleService } from './services/login-throttle.service';
 
 @Module({
   imports: [
@@ -34,7 +60,13 @@ import { UserGroupIdService } from './services/user-group-id.service';
       { name: User.name, schema: UserSchema },
       { name: Tenant.name, schema: TenantSchema },
       { name: UserGroupEntity.name, schema: UserGroupSchema },
+      { name: RefreshToken.name, schema: RefreshTokenSchema },
+      { name: Session.name, schema: SessionSchema },
+      { name: UserToken.name, schema: UserTokenSchema },
+      { name: LoginThrottle.name, schema: LoginThrottleSchema },
+      { name: SecurityEvent.name, schema: SecurityEventSchema },
     ]),
+    MailModule,
   ],
   controllers: [AuthController],
   providers: [
@@ -44,7 +76,23 @@ import { UserGroupIdService } from './services/user-group-id.service';
     PermissionGuard,
     TenantIdService,
     UserGroupIdService,
+    RefreshTokenService,
+    AccessTokenService,
+    SessionService,
+    TwoFactorService,
+    UserTokenService,
+    EmailVerificationService,
+    PasswordResetService,
+    LoginThrottleService,
+  ],
+  exports: [
+    AuthService,
+    AccessTokenService,
+    RefreshTokenService,
+    JwtAuthGuard,
+    PermissionGuard,
+    EmailVerificationService,
+    LoginThrottleService,
   ],
-  exports: [AuthService, JwtAuthGuard, PermissionGuard],
 })
 export class AuthModule {}
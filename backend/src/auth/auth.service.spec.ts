@@ -2,15 +2,27 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import { getModelToken } from '@nestjs/mongoose';
-import { UnauthorizedException } from '@nestjs/common';
+import {
+    BadRequestException,
+    HttpException,
+    HttpStatus,
+    NotFoundException,
+    UnauthorizedException,
+} from '@nestjs/common';
 import { Types } from 'mongoose';
 import { AuthService } from './auth.service';
 import { User } from '../database/schemas/user.schema';
 import { Tenant } from '../database/schemas/tenant.schema';
 import { UserGroupEntity } from '../database/schemas/user-group.schema';
+import { AuthResponseDto } from './dto/auth-response.dto';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
 import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { RefreshTokenService } from './services/refresh-token.service';
+import { EmailVerificationService } from './services/email-verification.service';
+import { LoginThrottleService } from './services/login-throttle.service';
+import { SessionService } from './services/session.service';
+import { TwoFactorService } from './services/two-factor.service';
 import { TenantIdService } from './services/tenant-id.service';
 import { UserGroupIdService } from './services/user-group-id.service';
 
@@ -24,6 +36,11 @@ describe('AuthService', () => {
     let MockUserModel: any;
     let mockTenantIdService: jest.Mocked<TenantIdService>;
     let mockUserGroupIdService: jest.Mocked<UserGroupIdService>;
+    let mockRefreshTokenService: any;
+    let mockSessionService: any;
+    let mockTwoFactorService: any;
+    let mockEmailVerificationService: any;
+    let mockLoginThrottleService: any;
 
     beforeEach(async () => {
         // Create fresh mocks for each test
@@ -67,6 +84,40 @@ describe('AuthService', () => {
             get: jest.fn(),
         };
 
+        mockRefreshTokenService = {
+            issue: jest.fn().mockResolvedValue({
+                token: 'mock-refresh-token',
+                familyId: 'family-1',
+            }),
+            consume: jest.fn(),
+            revokeFamily: jest.fn(),
+            revokeAllForUser: jest.fn(),
+        };
+
+        mockSessionService = {
+            start: jest.fn().mockResolvedValue('family-1'),
+            touch: jest.fn(),
+            findActive: jest.fn(),
+            findActiveById: jest.fn(),
+        };
+
+        mockTwoFactorService = {
+            getRequirement: jest.fn().mockResolvedValue('none'),
+            startEnrollment: jest.fn(),
+            confirmEnrollment: jest.fn(),
+            verify: jest.fn(),
+        };
+
+        mockEmailVerificationService = {
+            sendQuietly: jest.fn(),
+        };
+
+        mockLoginThrottleService = {
+            assertAllowed: jest.fn(),
+            recordFailure: jest.fn(),
+            recordSuccess: jest.fn(),
+        };
+
         const mockTenantIdService = {
             generateTenantId: jest.fn().mockResolvedValue('507f1f77bcf86cd799439011'),
             getTenantById: jest.fn().mockResolvedValue({
@@ -124,6 +175,26 @@ describe('AuthService', () => {
                     provide: UserGroupIdService,
                     useValue: mockUserGroupIdService,
                 },
+                {
+                    provide: RefreshTokenService,
+                    useValue: mockRefreshTokenService,
+                },
+                {
+                    provide: SessionService,
+                    useValue: mockSessionService,
+                },
+                {
+                    provide: TwoFactorService,
+                    useValue: mockTwoFactorService,
+                },
+                {
+                    provide: EmailVerificationService,
+                    useValue: mockEmailVerificationService,
+                },
+                {
+                    provide: LoginThrottleService,
+                    useValue: mockLoginThrottleService,
+                },
                 {
                     provide: getModelToken(User.name),
                     useValue: MockUserModel,
@@ -406,17 +477,35 @@ describe('AuthService', () => {
             mockUserModel.exec.mockResolvedValueOnce(mockUser);
             mockTenantModel.exec.mockResolvedValueOnce(mockTenant);
             mockUserGroupModel.exec.mockResolvedValueOnce(mockUserGroup);
-            mockJwtService.signAsync
-                .mockResolvedValueOnce(mockTokens.accessToken)
-                .mockResolvedValueOnce(mockTokens.refreshToken);
+            mockJwtService.signAsync.mockResolvedValueOnce(mockTokens.accessToken);
             mockConfigService.get.mockReturnValue(3600);
 
-            const result = await service.login(loginDto);
+            const result = (await service.login(loginDto, {
+                userAgent: 'Mozilla/5.0',
+                ipAddress: '203.0.113.42',
+            })) as AuthResponseDto;
 
             expect(result.accessToken).toBe(mockTokens.accessToken);
             expect(result.refreshToken).toBe(mockTokens.refreshToken);
             expect(result.expiresIn).toBe(3600);
             expect(result.user.email).toBe(loginDto.email);
+            expect(mockSessionService.start).toHaveBeenCalledWith(
+                expect.objectContaining({ id: mockUser._id.toString() }),
+                { userAgent: 'Mozilla/5.0', ipAddress: '203.0.113.42' },
+                expect.any(Number),
+            );
+            expect(mockRefreshTokenService.issue).toHaveBeenCalledWith(
+                expect.objectContaining({ id: mockUser._id.toString() }),
+                expect.any(Number),
+                'family-1',
+            );
+            expect(mockLoginThrottleService.assertAllowed).toHaveBeenCalledWith(
+                loginDto.email,
+                '203.0.113.42',
+            );
+            expect(mockLoginThrottleService.recordSuccess).toHaveBeenCalledWith(
+                loginDto.email,
+            );
         });
 
         it('should throw UnauthorizedException for invalid credentials', async () => {
@@ -431,6 +520,40 @@ describe('AuthService', () => {
                 UnauthorizedException,
             );
         });
+
+        it('should record a failure for an unknown email like for a wrong password', async () => {
+            mockUserModel.exec.mockResolvedValue(null);
+
+            await expect(
+                service.login(
+                    { email: 'nobody@example.com', password: 'password' },
+                    { ipAddress: '203.0.113.42' },
+                ),
+            ).rejects.toThrow('Invalid credentials');
+            expect(mockLoginThrottleService.recordFailure).toHaveBeenCalledWith(
+                'nobody@example.com',
+                '203.0.113.42',
+            );
+            expect(mockLoginThrottleService.recordSuccess).not.toHaveBeenCalled();
+        });
+
+        it('should refuse a locked email before checking the password', async () => {
+            mockLoginThrottleService.assertAllowed.mockRejectedValueOnce(
+                new HttpException(
+                    'Too many failed login attempts, try again later',
+                    HttpStatus.TOO_MANY_REQUESTS,
+                ),
+            );
+
+            await expect(
+                service.login({
+                    email: 'test@example.com',
+                    password: 'testPassword123',
+                }),
+            ).rejects.toThrow('Too many failed login attempts, try again later');
+            expect(mockUserModel.findOne).not.toHaveBeenCalled();
+            expect(mockLoginThrottleService.recordFailure).not.toHaveBeenCalled();
+        });
     });
 
     describe('register', () => {
@@ -482,9 +605,7 @@ describe('AuthService', () => {
             mockUserModel.exec.mockResolvedValueOnce(null);
 
             // Mock token generation
-            mockJwtService.signAsync
-                .mockResolvedValueOnce(mockTokens.accessToken)
-                .mockResolvedValueOnce(mockTokens.refreshToken);
+            mockJwtService.signAsync.mockResolvedValueOnce(mockTokens.accessToken);
 
             mockConfigService.get.mockReturnValue('1h');
 
@@ -512,6 +633,9 @@ describe('AuthService', () => {
             expect(result.user.email).toBe(registerDto.email);
             expect(result.user.firstName).toBe(registerDto.firstName);
             expect(result.user.lastName).toBe(registerDto.lastName);
+            expect(mockEmailVerificationService.sendQuietly).toHaveBeenCalledWith(
+                mockSavedUser._id.toString(),
+            );
         });
 
         it('should throw UnauthorizedException for existing user', async () => {
@@ -587,45 +711,57 @@ describe('AuthService', () => {
     });
 
     describe('refreshToken', () => {
-        it('should refresh token successfully', async () => {
+        const mockUser = {
+            _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+            email: 'test@example.com',
+            firstName: 'John',
+            lastName: 'Doe',
+            tenantId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+            userGroupId: new Types.ObjectId('507f1f77bcf86cd799439013'),
+            isActive: true,
+            isDeleted: false,
+        };
+
+        it('should replace the refresh token with one of the same family', async () => {
             const refreshTokenDto: RefreshTokenDto = {
                 refreshToken: 'valid-refresh-token',
             };
 
-            const mockPayload = {
-                sub: '507f1f77bcf86cd799439011',
-                email: 'test@example.com',
-                tenantId: '507f1f77bcf86cd799439012',
-                userGroupId: '507f1f77bcf86cd799439013',
-            };
-
-            const mockUser = {
-                _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
-                email: 'test@example.com',
-                firstName: 'John',
-                lastName: 'Doe',
-                tenantId: new Types.ObjectId('507f1f77bcf86cd799439012'),
-                userGroupId: new Types.ObjectId('507f1f77bcf86cd799439013'),
-                isActive: true,
-                isDeleted: false,
-            };
-
-            const mockTokens = {
-                accessToken: 'new-access-token',
-                refreshToken: 'new-refresh-token',
-            };
-
-            mockJwtService.verifyAsync.mockResolvedValue(mockPayload);
+            mockRefreshTokenService.consume.mockResolvedValue({
+                userId: mockUser._id,
+                familyId: 'family-1',
+            });
+            mockRefreshTokenService.issue.mockResolvedValue({
+                token: 'new-refresh-token',
+                familyId: 'family-1',
+            });
             mockUserModel.exec.mockResolvedValue(mockUser);
-            mockJwtService.signAsync
-                .mockResolvedValueOnce(mockTokens.accessToken)
-                .mockResolvedValueOnce(mockTokens.refreshToken);
+            mockJwtService.signAsync.mockResolvedValueOnce('new-access-token');
             mockConfigService.get.mockReturnValue('1h');
 
-            const result = await service.refreshToken(refreshTokenDto);
+            const result = await service.refreshToken(refreshTokenDto, {
+                ipAddress: '203.0.113.42',
+            });
 
-            expect(result.accessToken).toBe(mockTokens.accessToken);
-            expect(result.refreshToken).toBe(mockTokens.refreshToken);
+            expect(mockRefreshTokenService.consume).toHaveBeenCalledWith(
+                'valid-refresh-token',
+            );
+            expect(mockSessionService.touch).toHaveBeenCalledWith(
+                'family-1',
+                { ipAddress: '203.0.113.42' },
+                3600,
+            );
+            expect(mockRefreshTokenService.issue).toHaveBeenCalledWith(
+                expect.objectContaining({ id: mockUser._id.toString() }),
+                3600,
+                'family-1',
+            );
+            expect(mockJwtService.signAsync).toHaveBeenCalledWith(
+                expect.objectContaining({ sid: 'family-1' }),
+                expect.any(Object),
+            );
+            expect(result.accessToken).toBe('new-access-token');
+            expect(result.refreshToken).toBe('new-refresh-token');
             expect(result.expiresIn).toBe(3600);
         });
 
@@ -634,11 +770,14 @@ describe('AuthService', () => {
                 refreshToken: 'invalid-refresh-token',
             };
 
-            mockJwtService.verifyAsync.mockRejectedValue(new Error('Invalid token'));
+            mockRefreshTokenService.consume.mockRejectedValue(
+                new UnauthorizedException('Invalid refresh token'),
+            );
 
             await expect(service.refreshToken(refreshTokenDto)).rejects.toThrow(
                 UnauthorizedException,
             );
+            expect(mockRefreshTokenService.issue).not.toHaveBeenCalled();
         });
 
         it('should throw UnauthorizedException for non-existent user', async () => {
@@ -646,35 +785,348 @@ describe('AuthService', () => {
                 refreshToken: 'valid-refresh-token',
             };
 
-            const mockPayload = {
-                sub: '507f1f77bcf86cd799439011',
-                email: 'test@example.com',
-                tenantId: '507f1f77bcf86cd799439012',
-                userGroupId: '507f1f77bcf86cd799439013',
-            };
-
-            mockJwtService.verifyAsync.mockResolvedValue(mockPayload);
+            mockRefreshTokenService.consume.mockResolvedValue({
+                userId: mockUser._id,
+                familyId: 'family-1',
+            });
             mockUserModel.exec.mockResolvedValue(null);
 
             await expect(service.refreshToken(refreshTokenDto)).rejects.toThrow(
                 UnauthorizedException,
             );
+            expect(mockRefreshTokenService.issue).not.toHaveBeenCalled();
         });
     });
 
     describe('logout', () => {
-        it('should logout user successfully', async () => {
-            const userId = '507f1f77bcf86cd799439011';
+        it('should revoke the current session', async () => {
+            await service.logout('family-1');
 
-            mockUserModel.exec.mockResolvedValue({ modifiedCount: 1 });
+            expect(mockRefreshTokenService.revokeFamily).toHaveBeenCalledWith(
+                'family-1',
+                'logout',
+            );
+        });
+
+        it('should do nothing for access tokens without a session', async () => {
+            await service.logout(undefined);
 
-            await service.logout(userId);
+            expect(mockRefreshTokenService.revokeFamily).not.toHaveBeenCalled();
+        });
+    });
 
-            expect(mockUserModel.updateOne).toHaveBeenCalledWith(
-                { _id: new Types.ObjectId(userId) },
+    describe('logoutAll', () => {
+        it('should revoke every session of the user', async () => {
+            await service.logoutAll('507f1f77bcf86cd799439011');
+
+            expect(mockRefreshTokenService.revokeAllForUser).toHaveBeenCalledWith(
+                '507f1f77bcf86cd799439011',
+                'logout_all',
+            );
+        });
+    });
+
+    describe('findSessions', () => {
+        it('should list the sessions and mark the current one', async () => {
+            const createdAt = new Date('2024-01-15T10:30:00.000Z');
+            mockSessionService.findActive.mockResolvedValue([
+                {
+                    _id: new Types.ObjectId('507f1f77bcf86cd799439014'),
+                    familyId: 'family-1',
+                    userAgent: 'Mozilla/5.0',
+                    ipAddress: '203.0.113.42',
+                    createdAt,
+                    lastUsedAt: createdAt,
+                    expiresAt: createdAt,
+                },
+                {
+                    _id: new Types.ObjectId('507f1f77bcf86cd799439015'),
+                    familyId: 'family-2',
+                    createdAt,
+                    lastUsedAt: createdAt,
+                    expiresAt: createdAt,
+                },
+            ]);
+
+            const result = await service.findSessions(
+                '507f1f77bcf86cd799439011',
+                'family-1',
+            );
+
+            expect(mockSessionService.findActive).toHaveBeenCalledWith(
+                '507f1f77bcf86cd799439011',
+            );
+            expect(result).toEqual([
+                {
+                    id: '507f1f77bcf86cd799439014',
+                    userAgent: 'Mozilla/5.0',
+                    ipAddress: '203.0.113.42',
+                    createdAt,
+                    lastUsedAt: createdAt,
+                    expiresAt: createdAt,
+                    current: true,
+                },
                 expect.objectContaining({
-                    lastLoginAt: expect.any(Date),
+                    id: '507f1f77bcf86cd799439015',
+                    current: false,
+                }),
+            ]);
+        });
+    });
+
+    describe('revokeSession', () => {
+        it('should revoke the tokens of a session of the user', async () => {
+            mockSessionService.findActiveById.mockResolvedValue({
+                familyId: 'family-2',
+            });
+
+            await service.revokeSession(
+                '507f1f77bcf86cd799439011',
+                '507f1f77bcf86cd799439015',
+            );
+
+            expect(mockSessionService.findActiveById).toHaveBeenCalledWith(
+                '507f1f77bcf86cd799439015',
+                '507f1f77bcf86cd799439011',
+            );
+            expect(mockRefreshTokenService.revokeFamily).toHaveBeenCalledWith(
+                'family-2',
+                'revoked',
+            );
+        });
+
+        it('should throw NotFoundException for a session of another user', async () => {
+            mockSessionService.findActiveById.mockResolvedValue(null);
+
+            await expect(
+                service.revokeSession(
+                    '507f1f77bcf86cd799439011',
+                    '507f1f77bcf86cd799439015',
+                ),
+            ).rejects.toThrow(NotFoundException);
+            expect(mockRefreshTokenService.revokeFamily).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('two-factor login', () => {
+        const mockUser = {
+            _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+            email: 'test@example.com',
+            firstName: 'John',
+            lastName: 'Doe',
+            tenantId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+            userGroupId: new Types.ObjectId('507f1f77bcf86cd799439013'),
+            isActive: true,
+            isDeleted: false,
+        };
+
+        const givenValidCredentials = async () => {
+            mockUserModel.exec.mockResolvedValueOnce({
+                ...mockUser,
+                password: await service.hashPassword('testPassword123'),
+            });
+            mockTenantModel.exec.mockResolvedValueOnce({ _id: mockUser.tenantId });
+            mockUserGroupModel.exec.mockResolvedValueOnce({
+                _id: mockUser.userGroupId,
+            });
+        };
+
+        const givenChallenge = (setup: boolean) =>
+            mockJwtService.verifyAsync.mockResolvedValue({
+                sub: mockUser._id.toString(),
+                purpose: 'two_factor',
+                setup,
+            });
+
+        beforeEach(() => {
+            mockConfigService.get.mockImplementation((key: string) =>
+                key === 'jwt.secret' ? 'test-secret' : undefined,
+            );
+        });
+
+        it('should return a challenge instead of tokens when 2FA is enabled', async () => {
+            await givenValidCredentials();
+            mockTwoFactorService.getRequirement.mockResolvedValue('verify');
+            mockJwtService.signAsync.mockResolvedValueOnce('challenge-token');
+
+            const result = await service.login({
+                email: mockUser.email,
+                password: 'testPassword123',
+            });
+
+            expect(result).toEqual({
+                twoFactorRequired: true,
+                setupRequired: false,
+                challengeToken: 'challenge-token',
+                expiresIn: 300,
+            });
+            expect(mockJwtService.signAsync).toHaveBeenCalledWith(
+                {
+                    sub: mockUser._id.toString(),
+                    purpose: 'two_factor',
+                    setup: false,
+                },
+                { secret: 'test-secret', expiresIn: 300 },
+            );
+            expect(mockSessionService.start).not.toHaveBeenCalled();
+            expect(mockRefreshTokenService.issue).not.toHaveBeenCalled();
+            // Failed logins keep counting until the code checks out too
+            expect(mockLoginThrottleService.recordSuccess).not.toHaveBeenCalled();
+        });
+
+        it('should require setup when the group requires 2FA', async () => {
+            await givenValidCredentials();
+            mockTwoFactorService.getRequirement.mockResolvedValue('setup');
+            mockJwtService.signAsync.mockResolvedValueOnce('challenge-token');
+
+            const result = await service.login({
+                email: mockUser.email,
+                password: 'testPassword123',
+            });
+
+            expect(result).toMatchObject({ setupRequired: true });
+        });
+
+        it('should issue tokens for a valid code', async () => {
+            givenChallenge(false);
+            mockTwoFactorService.verify.mockResolvedValue(true);
+            mockUserModel.exec.mockResolvedValue(mockUser);
+            mockJwtService.signAsync.mockResolvedValueOnce('access-token');
+
+            const result = await service.verifyTwoFactor(
+                { challengeToken: 'challenge-token', code: '123456' },
+                { ipAddress: '203.0.113.42' },
+            );
+
+            expect(mockJwtService.verifyAsync).toHaveBeenCalledWith(
+                'challenge-token',
+                { secret: 'test-secret' },
+            );
+            expect(mockTwoFactorService.verify).toHaveBeenCalledWith(
+                mockUser._id.toString(),
+                '123456',
+            );
+            expect(mockSessionService.start).toHaveBeenCalledWith(
+                expect.objectContaining({ id: mockUser._id.toString() }),
+                { ipAddress: '203.0.113.42' },
+                expect.any(Number),
+            );
+            expect(result.accessToken).toBe('access-token');
+            expect(result.refreshToken).toBe('mock-refresh-token');
+            expect(result.backupCodes).toBeUndefined();
+            expect(mockLoginThrottleService.recordSuccess).toHaveBeenCalledWith(
+                mockUser.email,
+            );
+        });
+
+        it('should reject an invalid code', async () => {
+            givenChallenge(false);
+            mockTwoFactorService.verify.mockResolvedValue(false);
+            mockUserModel.exec.mockResolvedValue(mockUser);
+
+            await expect(
+                service.verifyTwoFactor(
+                    { challengeToken: 'challenge-token', code: '000000' },
+                    { ipAddress: '203.0.113.42' },
+                ),
+            ).rejects.toThrow('Invalid two-factor code');
+            expect(mockRefreshTokenService.issue).not.toHaveBeenCalled();
+            expect(mockLoginThrottleService.recordFailure).toHaveBeenCalledWith(
+                mockUser.email,
+                '203.0.113.42',
+            );
+        });
+
+        it('should refuse codes while the email is locked', async () => {
+            givenChallenge(false);
+            mockUserModel.exec.mockResolvedValue(mockUser);
+            mockLoginThrottleService.assertAllowed.mockRejectedValueOnce(
+                new HttpException(
+                    'Too many failed login attempts, try again later',
+                    HttpStatus.TOO_MANY_REQUESTS,
+                ),
+            );
+
+            await expect(
+                service.verifyTwoFactor({
+                    challengeToken: 'challenge-token',
+                    code: '123456',
                 }),
+            ).rejects.toThrow(HttpException);
+            expect(mockTwoFactorService.verify).not.toHaveBeenCalled();
+        });
+
+        it('should confirm the enrollment of a setup challenge', async () => {
+            givenChallenge(true);
+            mockTwoFactorService.confirmEnrollment.mockResolvedValue([
+                '3f9a1-0c2de',
+            ]);
+            mockUserModel.exec.mockResolvedValue(mockUser);
+            mockJwtService.signAsync.mockResolvedValueOnce('access-token');
+
+            const result = await service.verifyTwoFactor({
+                challengeToken: 'challenge-token',
+                code: '123456',
+            });
+
+            expect(mockTwoFactorService.confirmEnrollment).toHaveBeenCalledWith(
+                mockUser._id.toString(),
+                '123456',
+            );
+            expect(mockTwoFactorService.verify).not.toHaveBeenCalled();
+            expect(result.backupCodes).toEqual(['3f9a1-0c2de']);
+        });
+
+        it('should count a wrong code confirming an enrollment as a failure', async () => {
+            givenChallenge(true);
+            mockUserModel.exec.mockResolvedValue(mockUser);
+            mockTwoFactorService.confirmEnrollment.mockRejectedValue(
+                new BadRequestException('Invalid two-factor code'),
+            );
+
+            await expect(
+                service.verifyTwoFactor(
+                    { challengeToken: 'challenge-token', code: '000000' },
+                    { ipAddress: '203.0.113.42' },
+                ),
+            ).rejects.toThrow(BadRequestException);
+            expect(mockLoginThrottleService.recordFailure).toHaveBeenCalledWith(
+                mockUser.email,
+                '203.0.113.42',
+            );
+            expect(mockLoginThrottleService.recordSuccess).not.toHaveBeenCalled();
+        });
+
+        it('should reject expired challenges and access tokens', async () => {
+            mockJwtService.verifyAsync.mockRejectedValueOnce(
+                new Error('jwt expired'),
+            );
+            await expect(
+                service.verifyTwoFactor({
+                    challengeToken: 'expired',
+                    code: '123456',
+                }),
+            ).rejects.toThrow(UnauthorizedException);
+
+            mockJwtService.verifyAsync.mockResolvedValueOnce({
+                sub: mockUser._id.toString(),
+                email: mockUser.email,
+            });
+            await expect(
+                service.setupTwoFactor({ challengeToken: 'access-token' }),
+            ).rejects.toThrow('Invalid or expired two-factor challenge');
+        });
+
+        it('should only start an enrollment for setup challenges', async () => {
+            givenChallenge(false);
+            await expect(
+                service.setupTwoFactor({ challengeToken: 'challenge-token' }),
+            ).rejects.toThrow(BadRequestException);
+
+            givenChallenge(true);
+            await service.setupTwoFactor({ challengeToken: 'challenge-token' });
+            expect(mockTwoFactorService.startEnrollment).toHaveBeenCalledWith(
+                mockUser._id.toString(),
             );
         });
     });
@@ -1,4 +1,9 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import {
+    BadRequestException,
+    Injectable,
+    NotFoundException,
+    UnauthorizedException,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
 import { InjectModel } from '@nestjs/mongoose';
@@ -15,7 +20,19 @@ import { AuthResponseDto } from './dto/auth-response.dto';
 import { LoginDto } from './dto/login.dto';
 import { RefreshTokenDto } from './dto/refresh-token.dto';
 import { RegisterDto } from './dto/register.dto';
+import { SessionResponseDto } from './dto/session-response.dto';
+import { TwoFactorChallengeDto } from './dto/two-factor-challenge.dto';
+import {
+    TwoFactorChallengeResponseDto,
+    TwoFactorEnrollmentResponseDto,
+} from './dto/two-factor-response.dto';
+import { VerifyTwoFactorDto } from './dto/verify-two-factor.dto';
+import { EmailVerificationService } from './services/email-verification.service';
+import { LoginThrottleService } from './services/login-throttle.service';
+import { RefreshTokenService } from './services/refresh-token.service';
+import { SessionMetadata, SessionService } from './services/session.service';
 import { TenantIdService } from './services/tenant-id.service';
+import { TwoFactorService } from './services/two-factor.service';
 import { UserGroupIdService } from './services/user-group-id.service';
 import { JwtPayload } from './strategies/jwt.strategy';
 
@@ -28,6 +45,17 @@ interface AuthenticatedUser {
     userGroupId: string;
 }
 
+// Signed like access tokens, the purpose keeps the JWT strategy from taking it
+interface TwoFactorChallengePayload {
+    sub: string;
+    purpose: 'two_factor';
+    setup: boolean;
+}
+
+// Compared against for unknown emails, so they take as long as wrong passwords
+const DUMMY_PASSWORD_HASH =
+    '$2b$12$rgq8jJKvoRVzYfugqBN54.qOYjfDpHKMdJi/gheAzfr1TawfLfdny';
+
 @Injectable()
 export class AuthService {
     constructor(
@@ -35,6 +63,11 @@ export class AuthService {
         private configService: ConfigService,
         private tenantIdService: TenantIdService,
         private userGroupIdService: UserGroupIdService,
+        private refreshTokenService: RefreshTokenService,
+        private sessionService: SessionService,
+        private twoFactorService: TwoFactorService,
+        private emailVerificationService: EmailVerificationService,
+        private loginThrottleService: LoginThrottleService,
         @InjectModel(User.name) private userModel: Model<User>,
         @InjectModel(Tenant.name) private tenantModel: Model<TenantDocument>,
         @InjectModel(UserGroupEntity.name)
@@ -61,6 +94,7 @@ export class AuthService {
             .exec();
 
         if (!user) {
+            await bcrypt.compare(password, DUMMY_PASSWORD_HASH);
             return null;
         }
 
@@ -97,7 +131,10 @@ export class AuthService {
         };
     }
 
-    async register(registerDto: RegisterDto): Promise<AuthResponseDto> {
+    async register(
+        registerDto: RegisterDto,
+        metadata: SessionMetadata = {},
+    ): Promise<AuthResponseDto> {
         // Check if user already exists
         const existingUser = await this.userModel
             .findOne({ email: registerDto.email, isDeleted: false })
@@ -156,6 +193,7 @@ export class AuthService {
         });
 
         const savedUser = await newUser.save();
+        await this.emailVerificationService.sendQuietly(savedUser._id.toString());
 
         // Create authenticated user object
         const authenticatedUser: AuthenticatedUser = {
@@ -168,7 +206,10 @@ export class AuthService {
         };
 
         // Generate tokens
-        const tokens = await this.generateTokens(authenticatedUser);
+        const tokens = await this.generateTokens(
+            authenticatedUser,
+            await this.startSession(authenticatedUser, metadata),
+        );
         const expiresIn = this.convertTimeToSeconds(
             this.configService.get<string>('jwt.expiresIn') || '1h',
         );
@@ -188,14 +229,38 @@ export class AuthService {
         };
     }
 
-    async login(loginDto: LoginDto): Promise<AuthResponseDto> {
+    async login(
+        loginDto: LoginDto,
+        metadata: SessionMetadata = {},
+    ): Promise<AuthResponseDto | TwoFactorChallengeResponseDto> {
+        // Locked emails are refused before the password is checked, known or not
+        await this.loginThrottleService.assertAllowed(
+            loginDto.email,
+            metadata.ipAddress,
+        );
+
         const user = await this.validateUser(loginDto.email, loginDto.password);
 
         if (!user) {
+            await this.loginThrottleService.recordFailure(
+                loginDto.email,
+                metadata.ipAddress,
+            );
             throw new UnauthorizedException('Invalid credentials');
         }
 
-        const tokens = await this.generateTokens(user);
+        // The tokens are issued by verifyTwoFactor once the code checks out
+        const twoFactor = await this.twoFactorService.getRequirement(user.id);
+        if (twoFactor !== 'none') {
+            return this.createTwoFactorChallenge(user.id, twoFactor === 'setup');
+        }
+
+        await this.loginThrottleService.recordSuccess(user.email);
+
+        const tokens = await this.generateTokens(
+            user,
+            await this.startSession(user, metadata),
+        );
         const expiresIn = this.convertTimeToSeconds(
             this.configService.get<string>('jwt.expiresIn') || '1h',
         );
@@ -215,20 +280,117 @@ export class AuthService {
         };
     }
 
+    /** Enrollment for a login of a user whose group requires 2FA. */
+    async setupTwoFactor(
+        challengeDto: TwoFactorChallengeDto,
+    ): Promise<TwoFactorEnrollmentResponseDto> {
+        const challenge = await this.verifyTwoFactorChallenge(
+            challengeDto.challengeToken,
+        );
+
+        if (!challenge.setup) {
+            throw new BadRequestException(
+                'Two-factor authentication is already enabled',
+            );
+        }
+
+        return this.twoFactorService.startEnrollment(challenge.sub);
+    }
+
+    /**
+     * Second step of a login with 2FA. A login that had to enroll confirms
+     * the enrollment with the code and gets the backup codes.
+     */
+    async verifyTwoFactor(
+        verifyDto: VerifyTwoFactorDto,
+        metadata: SessionMetadata = {},
+    ): Promise<AuthResponseDto> {
+        const challenge = await this.verifyTwoFactorChallenge(
+            verifyDto.challengeToken,
+        );
+
+        const user = await this.userModel
+            .findOne({ _id: challenge.sub, isActive: true, isDeleted: false })
+            .exec();
+
+        if (!user) {
+            throw new UnauthorizedException('User not found');
+        }
+
+        // Codes are guessed like passwords, so they count towards the lockout
+        await this.loginThrottleService.assertAllowed(
+            user.email,
+            metadata.ipAddress,
+        );
+
+        let backupCodes: string[] | undefined;
+        if (challenge.setup) {
+            try {
+                backupCodes = await this.twoFactorService.confirmEnrollment(
+                    challenge.sub,
+                    verifyDto.code,
+                );
+            } catch (error) {
+                // A wrong code confirming an enrollment is a guess as well
+                if (error instanceof BadRequestException) {
+                    await this.loginThrottleService.recordFailure(
+                        user.email,
+                        metadata.ipAddress,
+                    );
+                }
+                throw error;
+            }
+        } else if (
+            !(await this.twoFactorService.verify(challenge.sub, verifyDto.code))
+        ) {
+            await this.loginThrottleService.recordFailure(
+                user.email,
+                metadata.ipAddress,
+            );
+            throw new UnauthorizedException('Invalid two-factor code');
+        }
+
+        await this.loginThrottleService.recordSuccess(user.email);
+
+        const authenticatedUser: AuthenticatedUser = {
+            id: user._id.toString(),
+            email: user.email,
+            firstName: user.firstName,
+            lastName: user.lastName,
+            tenantId: user.tenantId.toString(),
+            userGroupId: user.userGroupId.toString(),
+        };
+
+        const tokens = await this.generateTokens(
+            authenticatedUser,
+            await this.startSession(authenticatedUser, metadata),
+        );
+        const expiresIn = this.convertTimeToSeconds(
+            this.configService.get<string>('jwt.expiresIn') || '1h',
+        );
+
+        return {
+            accessToken: tokens.accessToken,
+            refreshToken: tokens.refreshToken,
+            expiresIn,
+            user: { ...authenticatedUser },
+            backupCodes,
+        };
+    }
+
     async refreshToken(
         refreshTokenDto: RefreshTokenDto,
+        metadata: SessionMetadata = {},
     ): Promise<AuthResponseDto> {
         try {
-            const payload = await this.jwtService.verifyAsync<JwtPayload>(
+            // Single use: the token is replaced by a new one of the same family
+            const consumed = await this.refreshTokenService.consume(
                 refreshTokenDto.refreshToken,
-                {
-                    secret: this.configService.get<string>('jwt.secret'),
-                },
             );
 
             const user = await this.userModel
                 .findOne({
-                    _id: new Types.ObjectId(payload.sub),
+                    _id: consumed.userId,
                     isActive: true,
                     isDeleted: false,
                 })
@@ -247,7 +409,16 @@ export class AuthService {
                 userGroupId: user.userGroupId.toString(),
             };
 
-            const tokens = await this.generateTokens(authenticatedUser);
+            await this.sessionService.touch(
+                consumed.familyId,
+                metadata,
+                this.refreshTokenTtl(),
+            );
+
+            const tokens = await this.generateTokens(
+                authenticatedUser,
+                consumed.familyId,
+            );
             const expiresIn = this.convertTimeToSeconds(
                 this.configService.get<string>('jwt.expiresIn') || '1h',
             );
@@ -270,38 +441,137 @@ export class AuthService {
         }
     }
 
-    async logout(userId: string): Promise<void> {
-        await this.userModel
-            .updateOne(
-                { _id: new Types.ObjectId(userId) },
-                { lastLoginAt: new Date() },
-            )
-            .exec();
+    /**
+     * Revokes the session of the access token. Its refresh token stops working
+     * and the JWT strategy rejects access tokens of the session.
+     */
+    async logout(sessionId: string | undefined): Promise<void> {
+        // Access tokens issued before sessions existed have no session to revoke
+        if (sessionId) {
+            await this.refreshTokenService.revokeFamily(sessionId, 'logout');
+        }
+    }
+
+    async logoutAll(userId: string): Promise<void> {
+        await this.refreshTokenService.revokeAllForUser(userId, 'logout_all');
+    }
+
+    /** Sessions the user is logged in with, marking the one of the request. */
+    async findSessions(
+        userId: string,
+        currentSessionId?: string,
+    ): Promise<SessionResponseDto[]> {
+        const sessions = await this.sessionService.findActive(userId);
+
+        return sessions.map((session: any) => ({
+            id: session._id.toString(),
+            userAgent: session.userAgent,
+            ipAddress: session.ipAddress,
+            createdAt: session.createdAt,
+            lastUsedAt: session.lastUsedAt,
+            expiresAt: session.expiresAt,
+            current: session.familyId === currentSessionId,
+        }));
+    }
+
+    /** Logs out one session of the user, e.g. on a lost device. */
+    async revokeSession(userId: string, sessionId: string): Promise<void> {
+        const session = await this.sessionService.findActiveById(
+            sessionId,
+            userId,
+        );
+
+        if (!session) {
+            throw new NotFoundException('Session not found');
+        }
+
+        await this.refreshTokenService.revokeFamily(session.familyId, 'revoked');
+    }
+
+    private async createTwoFactorChallenge(
+        userId: string,
+        setup: boolean,
+    ): Promise<TwoFactorChallengeResponseDto> {
+        const expiresIn = this.convertTimeToSeconds(
+            this.configService.get<string>('twoFactor.challengeExpiresIn') ||
+                '5m',
+        );
+        const payload: TwoFactorChallengePayload = {
+            sub: userId,
+            purpose: 'two_factor',
+            setup,
+        };
+
+        const challengeToken = await this.jwtService.signAsync(payload, {
+            secret: this.configService.get<string>('jwt.secret'),
+            expiresIn,
+        });
+
+        return {
+            twoFactorRequired: true,
+            setupRequired: setup,
+            challengeToken,
+            expiresIn,
+        };
     }
 
-    private async generateTokens(user: AuthenticatedUser) {
+    private async verifyTwoFactorChallenge(
+        challengeToken: string,
+    ): Promise<TwoFactorChallengePayload> {
+        try {
+            const payload =
+                await this.jwtService.verifyAsync<TwoFactorChallengePayload>(
+                    challengeToken,
+                    { secret: this.configService.get<string>('jwt.secret') },
+                );
+            if (payload.purpose === 'two_factor') {
+                return payload;
+            }
+        } catch {
+            // Reported below like a token of another purpose
+        }
+
+        throw new UnauthorizedException('Invalid or expired two-factor challenge');
+    }
+
+    private startSession(
+        user: AuthenticatedUser,
+        metadata: SessionMetadata,
+    ): Promise<string> {
+        return this.sessionService.start(user, metadata, this.refreshTokenTtl());
+    }
+
+    private refreshTokenTtl(): number {
+        return this.convertTimeToSeconds(
+            this.configService.get<string>('jwt.refreshExpiresIn') || '7d',
+        );
+    }
+
+    // The family ID is the session the tokens belong to
+    private async generateTokens(user: AuthenticatedUser, familyId: string) {
+        const refreshToken = await this.refreshTokenService.issue(
+            user,
+            this.refreshTokenTtl(),
+            familyId,
+        );
+
         const payload: JwtPayload = {
             sub: user.id,
             email: user.email,
             tenantId: user.tenantId,
             userGroupId: user.userGroupId,
+            sid: refreshToken.familyId,
             iat: Math.floor(Date.now() / 1000),
         };
 
-        const [accessToken, refreshToken] = await Promise.all([
-            this.jwtService.signAsync(payload, {
-                secret: this.configService.get<string>('jwt.secret'),
-                expiresIn: this.configService.get<string>('jwt.expiresIn'),
-            }),
-            this.jwtService.signAsync(payload, {
-                secret: this.configService.get<string>('jwt.secret'),
-                expiresIn: this.configService.get<string>('jwt.refreshExpiresIn'),
-            }),
-        ]);
+        const accessToken = await this.jwtService.signAsync(payload, {
+            secret: this.configService.get<string>('jwt.secret'),
+            expiresIn: this.configService.get<string>('jwt.expiresIn'),
+        });
 
         return {
             accessToken,
-            refreshToken,
+            refreshToken: refreshToken.token,
         };
     }
 
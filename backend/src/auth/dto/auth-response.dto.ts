@@ -38,4 +38,12 @@ export class AuthResponseDto {
     tenantId: string;
     userGroupId: string;
   };
+
+  @ApiProperty({
+    description:
+      'Backup codes, only after a login that enrolled in two-factor authentication',
+    example: ['3f9a1-0c2de', '7b41e-92a0f'],
+    required: false,
+  })
+  backupCodes?: string[];
 }
@@ -0,0 +1,48 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SessionResponseDto {
+  @ApiProperty({
+    description: 'Session ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'User agent of the browser or app that logged in',
+    example:
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36',
+    required: false,
+  })
+  userAgent?: string;
+
+  @ApiProperty({
+    description: 'IP address of the latest login or refresh',
+    example: '203.0.113.42',
+    required: false,
+  })
+  ipAddress?: string;
+
+  @ApiProperty({
+    description: 'When the user logged in',
+    example: '2024-01-15T10:30:00.000Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'When the session was last refreshed',
+    example: '2024-01-15T11:30:00.000Z',
+  })
+  lastUsedAt: Date;
+
+  @ApiProperty({
+    description: 'When the session ends unless it is refreshed',
+    example: '2024-01-22T11:30:00.000Z',
+  })
+  expiresAt: Date;
+
+  @ApiProperty({
+    description: 'Whether this is the session of the request',
+    example: true,
+  })
+  current: boolean;
+}
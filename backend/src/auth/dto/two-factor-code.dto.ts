@@ -0,0 +1,13 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TwoFactorCodeDto {
+  @ApiProperty({
+    description: 'Code of the authenticator app, or one of the backup codes',
+    example: '123456',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  code: string;
+}
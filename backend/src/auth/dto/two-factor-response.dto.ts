@@ -0,0 +1,58 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TwoFactorChallengeResponseDto {
+  @ApiProperty({
+    description: 'Always true, the login continues with a two-factor code',
+    example: true,
+  })
+  twoFactorRequired: true;
+
+  @ApiProperty({
+    description:
+      'Whether the user group requires 2FA and the user has to enroll first',
+    example: false,
+  })
+  setupRequired: boolean;
+
+  @ApiProperty({
+    description: 'Token for the two-factor endpoints, it is no access token',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  challengeToken: string;
+
+  @ApiProperty({
+    description: 'Challenge token expiration time in seconds',
+    example: 300,
+  })
+  expiresIn: number;
+}
+
+export class TwoFactorEnrollmentResponseDto {
+  @ApiProperty({
+    description: 'Base32 secret, for apps that cannot scan the QR code',
+    example: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP',
+  })
+  secret: string;
+
+  @ApiProperty({
+    description: 'otpauth URI encoded in the QR code',
+    example:
+      'otpauth://totp/WhatsApp%20Multi-Tenant%3Auser%40example.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=WhatsApp+Multi-Tenant&algorithm=SHA1&digits=6&period=30',
+  })
+  otpauthUrl: string;
+
+  @ApiProperty({
+    description: 'QR code to scan with an authenticator app, as a data URL',
+    example: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAA...',
+  })
+  qrCode: string;
+}
+
+export class BackupCodesResponseDto {
+  @ApiProperty({
+    description:
+      'Single-use codes for when the authenticator app is not at hand, shown only once',
+    example: ['3f9a1-0c2de', '7b41e-92a0f'],
+  })
+  backupCodes: string[];
+}
@@ -0,0 +1,12 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class VerifyEmailDto {
+  @ApiProperty({
+    description: 'Token from the verification link',
+    example: 'k3J9c2Vy...',
+  })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
@@ -0,0 +1,22 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class VerifyTwoFactorDto {
+  @ApiProperty({
+    description: 'Challenge token returned by the login',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  @IsString()
+  @IsNotEmpty()
+  challengeToken: string;
+
+  @ApiProperty({
+    description:
+      'Code of the authenticator app, or one of the backup codes. When the login requires setup, the first code of the app',
+    example: '123456',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  code: string;
+}
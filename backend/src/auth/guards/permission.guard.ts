@@ -8,6 +8,7 @@ import { Reflector } from '@nestjs/core';
 import {
   UserGroup,
   GROUP_PERMISSIONS,
+  hasGroupPermission,
 } from '../../common/enums/user-group.enum';
 
 export interface PermissionMetadata {
@@ -18,6 +19,7 @@ export interface AuthenticatedUser {
   id: string;
   email: string;
   tenantId: string;
+  sessionId?: string; // Not set for access tokens issued before sessions
   userGroup: {
     groupType: UserGroup;
     customPermissions?: Partial<(typeof GROUP_PERMISSIONS)[UserGroup]>;
@@ -45,16 +47,7 @@ export class PermissionGuard implements CanActivate {
     const user = request.user;
     if (!user) throw new ForbiddenException('User not authenticated');
 
-    const { userGroup } = user;
-    const groupType = userGroup.groupType;
-    const customPermissions = userGroup.customPermissions;
-
-    // Check custom permissions first, then fall back to default group permissions
-    const hasPermission =
-      customPermissions?.[requiredPermission.permission] ??
-      GROUP_PERMISSIONS[groupType][requiredPermission.permission];
-
-    if (!hasPermission) {
+    if (!hasGroupPermission(user.userGroup, requiredPermission.permission)) {
       throw new ForbiddenException(
         `Insufficient permissions. Required: ${requiredPermission.permission}`,
       );
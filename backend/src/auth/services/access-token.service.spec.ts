@@ -0,0 +1,118 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { Tenant } from '../../database/schemas/tenant.schema';
+import { UserGroupEntity } from '../../database/schemas/user-group.schema';
+import { User } from '../../database/schemas/user.schema';
+import type { JwtPayload } from '../strategies/jwt.strategy';
+import { AccessTokenService } from './access-token.service';
+import { RefreshTokenService } from './refresh-token.service';
+
+describe('AccessTokenService', () => {
+  let service: AccessTokenService;
+
+  const userId = new Types.ObjectId('507f1f77bcf86cd799439011');
+  const tenantId = new Types.ObjectId('507f1f77bcf86cd799439012');
+  const userGroupId = new Types.ObjectId('507f1f77bcf86cd799439013');
+
+  const payload: JwtPayload = {
+    sub: userId.toString(),
+    email: 'jane@example.com',
+    tenantId: tenantId.toString(),
+    userGroupId: userGroupId.toString(),
+    sid: 'family-1',
+    iat: 1700000000,
+  };
+
+  const execResult = (value: unknown) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const mockUserModel = { findOne: jest.fn() };
+  const mockTenantModel = { findOne: jest.fn() };
+  const mockUserGroupModel = { findOne: jest.fn() };
+  const mockRefreshTokenService = { isFamilyRevoked: jest.fn() };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockRefreshTokenService.isFamilyRevoked.mockResolvedValue(false);
+    mockUserModel.findOne.mockReturnValue(
+      execResult({
+        _id: userId,
+        email: payload.email,
+        firstName: 'Jane',
+        lastName: 'Doe',
+        tenantId,
+        userGroupId,
+      }),
+    );
+    mockTenantModel.findOne.mockReturnValue(
+      execResult({ _id: tenantId, name: 'Acme' }),
+    );
+    mockUserGroupModel.findOne.mockReturnValue(
+      execResult({ _id: userGroupId, name: 'Admins', groupType: 'Admin' }),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccessTokenService,
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        { provide: getModelToken(Tenant.name), useValue: mockTenantModel },
+        {
+          provide: getModelToken(UserGroupEntity.name),
+          useValue: mockUserGroupModel,
+        },
+        { provide: RefreshTokenService, useValue: mockRefreshTokenService },
+      ],
+    }).compile();
+
+    service = module.get<AccessTokenService>(AccessTokenService);
+  });
+
+  it('should return the user of a valid access token', async () => {
+    const user = await service.validate(payload);
+
+    expect(user).toMatchObject({
+      id: userId.toString(),
+      tenantId: tenantId.toString(),
+      sessionId: 'family-1',
+      userGroup: { groupType: 'Admin' },
+    });
+    expect(mockRefreshTokenService.isFamilyRevoked).toHaveBeenCalledWith(
+      'family-1',
+    );
+  });
+
+  it('should refuse tokens with a purpose, like 2FA challenges', async () => {
+    await expect(
+      service.validate({ ...payload, purpose: 'two_factor' }),
+    ).rejects.toThrow('Not an access token');
+    expect(mockUserModel.findOne).not.toHaveBeenCalled();
+  });
+
+  it('should refuse tokens of a logged out session', async () => {
+    mockRefreshTokenService.isFamilyRevoked.mockResolvedValue(true);
+
+    await expect(service.validate(payload)).rejects.toThrow(
+      'Session has been logged out',
+    );
+  });
+
+  it('should refuse tokens of inactive users, tenants and groups', async () => {
+    mockUserGroupModel.findOne.mockReturnValue(execResult(null));
+    await expect(service.validate(payload)).rejects.toThrow(
+      UnauthorizedException,
+    );
+
+    mockTenantModel.findOne.mockReturnValue(execResult(null));
+    await expect(service.validate(payload)).rejects.toThrow(
+      'Tenant not found or inactive',
+    );
+
+    mockUserModel.findOne.mockReturnValue(execResult(null));
+    await expect(service.validate(payload)).rejects.toThrow(
+      'Invalid token or user not found',
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { User, UserDocument } from '../../database/schemas/user.schema';
+import { Tenant, TenantDocument } from '../../database/schemas/tenant.schema';
+import {
+  UserGroupEntity,
+  UserGroupDocument,
+} from '../../database/schemas/user-group.schema';
+import type { JwtPayload } from '../strategies/jwt.strategy';
+import { RefreshTokenService } from './refresh-token.service';
+
+/**
+ * Checks a verified access token against the database: its session must not
+ * be logged out, and the user, tenant and user group must still be active.
+ * Used for HTTP requests and for realtime sockets alike.
+ */
+@Injectable()
+export class AccessTokenService {
+  constructor(
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectModel(Tenant.name) private tenantModel: Model<TenantDocument>,
+    @InjectModel(UserGroupEntity.name)
+    private userGroupModel: Model<UserGroupDocument>,
+    private refreshTokenService: RefreshTokenService,
+  ) {}
+
+  async validate(payload: JwtPayload) {
+    const { sub: userId, email, tenantId, userGroupId, sid } = payload;
+
+    // 2FA challenges are signed with the same secret
+    if (payload.purpose) {
+      throw new UnauthorizedException('Not an access token');
+    }
+
+    if (sid && (await this.refreshTokenService.isFamilyRevoked(sid))) {
+      throw new UnauthorizedException('Session has been logged out');
+    }
+
+    // Check if user exists and is active
+    const user = await this.userModel
+      .findOne({
+        _id: new Types.ObjectId(userId),
+        email,
+        tenantId: new Types.ObjectId(tenantId),
+        userGroupId: new Types.ObjectId(userGroupId),
+        isActive: true,
+        isDeleted: false,
+      })
+      .exec();
+
+    if (!user) {
+      throw new UnauthorizedException('Invalid token or user not found');
+    }
+
+    // Check if tenant is active
+    const tenant = await this.tenantModel
+      .findOne({
+        _id: new Types.ObjectId(tenantId),
+        isActive: true,
+        isDeleted: false,
+      })
+      .exec();
+
+    if (!tenant) {
+      throw new UnauthorizedException('Tenant not found or inactive');
+    }
+
+    // Check if user group is active
+    const userGroup = await this.userGroupModel
+      .findOne({
+        _id: new Types.ObjectId(userGroupId),
+        tenantId: new Types.ObjectId(tenantId),
+        isActive: true,
+        isDeleted: false,
+      })
+      .exec();
+
+    if (!userGroup) {
+      throw new UnauthorizedException('User group not found or inactive');
+    }
+
+    return {
+      id: user._id.toString(),
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      tenantId: user.tenantId.toString(),
+      userGroupId: user.userGroupId.toString(),
+      sessionId: sid,
+      tenant: {
+        id: tenant._id.toString(),
+        name: tenant.name,
+      },
+      userGroup: {
+        id: userGroup._id.toString(),
+        name: userGroup.name,
+        groupType: userGroup.groupType,
+        customPermissions: userGroup.customPermissions,
+      },
+    };
+  }
+}
@@ -0,0 +1,157 @@
+import { BadRequestException, HttpException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { User } from '../../database/schemas/user.schema';
+import { MAILER } from '../../mail/mailer.interface';
+import { EmailVerificationService } from './email-verification.service';
+import { UserTokenService } from './user-token.service';
+
+describe('EmailVerificationService', () => {
+  let service: EmailVerificationService;
+
+  const userId = new Types.ObjectId('507f1f77bcf86cd799439011');
+  const user = {
+    _id: userId,
+    email: 'jane@example.com',
+    firstName: 'Jane',
+    isEmailVerified: false,
+  };
+
+  const mockUserModel = {
+    findOne: jest.fn(),
+    updateOne: jest.fn(),
+  };
+  const mockUserTokenService = {
+    issue: jest.fn(),
+    consume: jest.fn(),
+  };
+  const mockMailer = {
+    driver: 'console',
+    send: jest.fn(),
+  };
+
+  const execResult = (value: any) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockUserModel.findOne.mockReturnValue(execResult(user));
+    mockUserModel.updateOne.mockReturnValue(execResult({ matchedCount: 1 }));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EmailVerificationService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) =>
+              key === 'app.frontendUrl' ? 'http://app.test' : undefined,
+            ),
+          },
+        },
+        { provide: UserTokenService, useValue: mockUserTokenService },
+        { provide: MAILER, useValue: mockMailer },
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+      ],
+    }).compile();
+
+    service = module.get<EmailVerificationService>(EmailVerificationService);
+  });
+
+  describe('send', () => {
+    it('should email a verification link', async () => {
+      mockUserTokenService.issue.mockResolvedValue('verify-token');
+
+      await service.send(userId.toString());
+
+      expect(mockUserTokenService.issue).toHaveBeenCalledWith(
+        { id: userId.toString(), email: user.email },
+        'email_verification',
+        86400000,
+      );
+      expect(mockMailer.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: user.email,
+          text: expect.stringContaining(
+            'http://app.test/verify-email?token=verify-token',
+          ),
+        }),
+      );
+    });
+
+    it('should refuse when the email is already verified', async () => {
+      mockUserModel.findOne.mockReturnValue(
+        execResult({ ...user, isEmailVerified: true }),
+      );
+
+      await expect(service.send(userId.toString())).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockUserTokenService.issue).not.toHaveBeenCalled();
+    });
+
+    it('should refuse with 429 when the rate limit is reached', async () => {
+      mockUserTokenService.issue.mockResolvedValue(null);
+
+      const error = await service
+        .send(userId.toString())
+        .catch((e: HttpException) => e);
+
+      expect((error as HttpException).getStatus()).toBe(429);
+      expect(mockMailer.send).not.toHaveBeenCalled();
+    });
+
+    it('should only log failures when sending quietly', async () => {
+      mockUserTokenService.issue.mockResolvedValue('verify-token');
+      mockMailer.send.mockRejectedValue(new Error('SMTP unavailable'));
+
+      await expect(
+        service.sendQuietly(userId.toString()),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('verify', () => {
+    it('should mark the address the token was sent to as verified', async () => {
+      mockUserTokenService.consume.mockResolvedValue({
+        userId,
+        email: user.email,
+      });
+
+      await service.verify('verify-token');
+
+      expect(mockUserTokenService.consume).toHaveBeenCalledWith(
+        'verify-token',
+        'email_verification',
+      );
+      expect(mockUserModel.updateOne).toHaveBeenCalledWith(
+        { _id: userId, email: user.email, isDeleted: false },
+        { isEmailVerified: true },
+      );
+    });
+
+    it('should reject an invalid or used token', async () => {
+      mockUserTokenService.consume.mockResolvedValue(null);
+
+      await expect(service.verify('used')).rejects.toThrow(
+        'Invalid or expired verification token',
+      );
+      expect(mockUserModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should reject a token sent to a previous email address', async () => {
+      mockUserTokenService.consume.mockResolvedValue({
+        userId,
+        email: 'old@example.com',
+      });
+      mockUserModel.updateOne.mockReturnValue(execResult({ matchedCount: 0 }));
+
+      await expect(service.verify('verify-token')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+});
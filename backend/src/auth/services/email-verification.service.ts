@@ -0,0 +1,104 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { User } from '../../database/schemas/user.schema';
+import { MAILER } from '../../mail/mailer.interface';
+import type { Mailer } from '../../mail/mailer.interface';
+import { UserTokenService } from './user-token.service';
+
+@Injectable()
+export class EmailVerificationService {
+  private readonly logger = new Logger(EmailVerificationService.name);
+
+  constructor(
+    private configService: ConfigService,
+    private userTokenService: UserTokenService,
+    @Inject(MAILER) private mailer: Mailer,
+    @InjectModel(User.name) private userModel: Model<User>,
+  ) {}
+
+  /** Emails a link that verifies the current address of the user. */
+  async send(userId: string): Promise<void> {
+    const user = await this.userModel
+      .findOne({ _id: new Types.ObjectId(userId), isDeleted: false })
+      .exec();
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    if (user.isEmailVerified) {
+      throw new BadRequestException('Email is already verified');
+    }
+
+    const token = await this.userTokenService.issue(
+      { id: userId, email: user.email },
+      'email_verification',
+      this.configService.get<number>('accountEmails.emailVerificationTtlMs') ||
+        86400000,
+    );
+    if (!token) {
+      throw new HttpException(
+        'Too many verification emails, try again later',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    const link = `${this.configService.get<string>('app.frontendUrl')}/verify-email?token=${token}`;
+    await this.mailer.send({
+      to: user.email,
+      subject: 'Verify your email address',
+      text: [
+        `Hi ${user.firstName},`,
+        '',
+        'Open this link to verify your email address:',
+        link,
+        '',
+        "If you didn't create an account, you can ignore this email.",
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Like send, for when the email is a side effect of creating or updating a
+   * user. A failure is logged instead of failing the request.
+   */
+  async sendQuietly(userId: string): Promise<void> {
+    try {
+      await this.send(userId);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to send verification email to user ${userId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  async verify(token: string): Promise<void> {
+    const record = await this.userTokenService.consume(
+      token,
+      'email_verification',
+    );
+
+    // The address must not have changed since the email was sent
+    const result = record
+      ? await this.userModel
+          .updateOne(
+            { _id: record.userId, email: record.email, isDeleted: false },
+            { isEmailVerified: true },
+          )
+          .exec()
+      : null;
+
+    if (!result?.matchedCount) {
+      throw new BadRequestException('Invalid or expired verification token');
+    }
+  }
+}
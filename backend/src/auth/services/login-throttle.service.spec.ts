@@ -0,0 +1,303 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { LoginThrottle } from '../../database/schemas/login-throttle.schema';
+import { SecurityEvent } from '../../database/schemas/security-event.schema';
+import { User } from '../../database/schemas/user.schema';
+import { LoginThrottleService } from './login-throttle.service';
+
+describe('LoginThrottleService', () => {
+  let service: LoginThrottleService;
+
+  const NOW = new Date('2026-01-15T12:00:00Z').getTime();
+  const userId = new Types.ObjectId('507f1f77bcf86cd799439011');
+  const tenantId = new Types.ObjectId('507f1f77bcf86cd799439012');
+
+  const config: Record<string, number> = {
+    'loginProtection.maxAccountFailures': 5,
+    'loginProtection.maxIpFailures': 20,
+    'loginProtection.delayBaseMs': 1000,
+    'loginProtection.delayMaxMs': 30000,
+    'loginProtection.lockoutMs': 900000,
+    'loginProtection.lockoutMaxMs': 86400000,
+    'loginProtection.failureWindowMs': 86400000,
+  };
+
+  const mockLoginThrottleModel = {
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    deleteOne: jest.fn(),
+  };
+  const savedEvents: any[] = [];
+  const MockSecurityEventModel = jest.fn().mockImplementation((doc) => ({
+    save: jest.fn().mockImplementation(() => {
+      savedEvents.push(doc);
+      return Promise.resolve(doc);
+    }),
+  }));
+  const mockUserModel = {
+    findOne: jest.fn(),
+  };
+
+  const execResult = (value: any) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  // findOne answers by key, so the account and IP records can differ
+  const givenRecords = (records: Record<string, any>) =>
+    mockLoginThrottleModel.findOne.mockImplementation(
+      ({ key }: { key: string }) => execResult(records[key] ?? null),
+    );
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    savedEvents.length = 0;
+    givenRecords({});
+    mockLoginThrottleModel.deleteOne.mockReturnValue(
+      execResult({ deletedCount: 1 }),
+    );
+    mockUserModel.findOne.mockReturnValue(
+      execResult({ _id: userId, tenantId }),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginThrottleService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+        {
+          provide: getModelToken(LoginThrottle.name),
+          useValue: mockLoginThrottleModel,
+        },
+        {
+          provide: getModelToken(SecurityEvent.name),
+          useValue: MockSecurityEventModel,
+        },
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+      ],
+    }).compile();
+
+    service = module.get<LoginThrottleService>(LoginThrottleService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('assertAllowed', () => {
+    it('should allow an email and IP address without failures', async () => {
+      await expect(
+        service.assertAllowed('Jane@Example.com', '203.0.113.42'),
+      ).resolves.toBeUndefined();
+      expect(mockLoginThrottleModel.findOne).toHaveBeenCalledWith({
+        key: 'email:jane@example.com',
+      });
+      expect(mockLoginThrottleModel.findOne).toHaveBeenCalledWith({
+        key: 'ip:203.0.113.42',
+      });
+    });
+
+    it('should make the next attempt wait twice as long after each failure', async () => {
+      givenRecords({
+        'email:jane@example.com': {
+          failures: 3,
+          lastFailureAt: new Date(NOW - 3000),
+        },
+      });
+
+      const error = (await service
+        .assertAllowed('jane@example.com')
+        .catch((e: unknown) => e)) as HttpException;
+
+      expect(error.getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS);
+      expect(error.getResponse()).toMatchObject({ retryAfter: 1 });
+
+      givenRecords({
+        'email:jane@example.com': {
+          failures: 3,
+          lastFailureAt: new Date(NOW - 4000),
+        },
+      });
+      await expect(
+        service.assertAllowed('jane@example.com'),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should refuse a locked email with the same message as any other', async () => {
+      givenRecords({
+        'email:nobody@example.com': {
+          failures: 0,
+          lockedUntil: new Date(NOW + 600000),
+        },
+      });
+
+      const error = (await service
+        .assertAllowed('nobody@example.com')
+        .catch((e: unknown) => e)) as HttpException;
+
+      expect(error.getResponse()).toEqual({
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        message: 'Too many failed login attempts, try again later',
+        retryAfter: 600,
+      });
+    });
+
+    it('should refuse every email from a blocked IP address', async () => {
+      givenRecords({
+        'ip:203.0.113.42': { failures: 0, lockedUntil: new Date(NOW + 1000) },
+      });
+
+      await expect(
+        service.assertAllowed('jane@example.com', '203.0.113.42'),
+      ).rejects.toThrow(HttpException);
+    });
+
+    it('should allow logins again once a lockout ran out', async () => {
+      givenRecords({
+        'email:jane@example.com': {
+          failures: 0,
+          lockedUntil: new Date(NOW - 1),
+        },
+      });
+
+      await expect(
+        service.assertAllowed('jane@example.com'),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('recordFailure', () => {
+    it('should count the failure for the email and the IP address', async () => {
+      mockLoginThrottleModel.findOneAndUpdate.mockReturnValue(
+        execResult({ _id: 'record', failures: 1, lockouts: 0 }),
+      );
+
+      await service.recordFailure('Jane@Example.com', '203.0.113.42');
+
+      expect(mockLoginThrottleModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { key: 'email:jane@example.com' },
+        {
+          $inc: { failures: 1 },
+          lastFailureAt: new Date(NOW),
+          $max: { expiresAt: new Date(NOW + 86400000) },
+        },
+        { upsert: true, new: true, setDefaultsOnInsert: true },
+      );
+      expect(mockLoginThrottleModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { key: 'ip:203.0.113.42' },
+        expect.anything(),
+        expect.anything(),
+      );
+      expect(savedEvents).toHaveLength(0);
+    });
+
+    it('should lock the email at the limit, longer after each lockout', async () => {
+      const lockedUntil = new Date(NOW + 1800000);
+      mockLoginThrottleModel.findOneAndUpdate
+        .mockReturnValueOnce(
+          execResult({ _id: 'record', failures: 5, lockouts: 1 }),
+        )
+        .mockReturnValueOnce(execResult({ _id: 'record', lockedUntil }));
+
+      await service.recordFailure(' Jane@Example.com');
+
+      expect(mockUserModel.findOne).toHaveBeenCalledWith({
+        email: { $regex: '^jane@example\\.com$', $options: 'i' },
+        isDeleted: false,
+      });
+      expect(mockLoginThrottleModel.findOneAndUpdate).toHaveBeenLastCalledWith(
+        { _id: 'record', failures: 5 },
+        {
+          failures: 0,
+          lockedUntil,
+          $inc: { lockouts: 1 },
+          expiresAt: new Date(lockedUntil.getTime() + 86400000),
+        },
+        { new: true },
+      );
+      expect(savedEvents).toEqual([
+        {
+          type: 'account_locked',
+          email: 'jane@example.com',
+          ipAddress: undefined,
+          userId,
+          tenantId,
+          lockedUntil,
+        },
+      ]);
+    });
+
+    it('should not audit a lockout another failure already made', async () => {
+      mockLoginThrottleModel.findOneAndUpdate
+        .mockReturnValueOnce(
+          execResult({ _id: 'record', failures: 6, lockouts: 0 }),
+        )
+        .mockReturnValueOnce(execResult(null));
+
+      await service.recordFailure('jane@example.com');
+
+      expect(savedEvents).toHaveLength(0);
+    });
+
+    it('should block the IP address at its limit', async () => {
+      const lockedUntil = new Date(NOW + 900000);
+      mockLoginThrottleModel.findOneAndUpdate
+        .mockReturnValueOnce(
+          execResult({ _id: 'account', failures: 1, lockouts: 0 }),
+        )
+        .mockReturnValueOnce(
+          execResult({ _id: 'ip', failures: 20, lockouts: 0 }),
+        )
+        .mockReturnValueOnce(execResult({ _id: 'ip', lockedUntil }));
+
+      await service.recordFailure('jane@example.com', '203.0.113.42');
+
+      expect(savedEvents).toEqual([
+        { type: 'ip_blocked', ipAddress: '203.0.113.42', lockedUntil },
+      ]);
+    });
+  });
+
+  describe('recordSuccess', () => {
+    it('should forget the failures of the email', async () => {
+      await service.recordSuccess('Jane@Example.com');
+
+      expect(mockLoginThrottleModel.deleteOne).toHaveBeenCalledWith({
+        key: 'email:jane@example.com',
+      });
+    });
+  });
+
+  describe('unlock', () => {
+    it('should lift the lockout and audit who did it', async () => {
+      const actorId = '507f1f77bcf86cd799439014';
+
+      await service.unlock(
+        {
+          id: userId.toString(),
+          email: 'jane@example.com',
+          tenantId: tenantId.toString(),
+        },
+        actorId,
+      );
+
+      expect(mockLoginThrottleModel.deleteOne).toHaveBeenCalledWith({
+        key: 'email:jane@example.com',
+      });
+      expect(savedEvents).toEqual([
+        {
+          type: 'account_unlocked',
+          email: 'jane@example.com',
+          userId,
+          tenantId,
+          actorId: new Types.ObjectId(actorId),
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { escapeRegExp } from '../../common/utils/regexp.util';
+import {
+  LoginThrottle,
+  LoginThrottleDocument,
+} from '../../database/schemas/login-throttle.schema';
+import {
+  SecurityEvent,
+  SecurityEventType,
+} from '../../database/schemas/security-event.schema';
+import { User } from '../../database/schemas/user.schema';
+
+/**
+ * Slows down and locks out password guessing. Failed logins are counted per
+ * email address, with a growing wait between attempts and a lockout at the
+ * limit, and per IP address across emails, which blocks the address at its
+ * limit. Whether or not an email address has an account, it is treated the
+ * same.
+ */
+@Injectable()
+export class LoginThrottleService {
+  private readonly logger = new Logger(LoginThrottleService.name);
+
+  constructor(
+    private configService: ConfigService,
+    @InjectModel(LoginThrottle.name)
+    private loginThrottleModel: Model<LoginThrottle>,
+    @InjectModel(SecurityEvent.name)
+    private securityEventModel: Model<SecurityEvent>,
+    @InjectModel(User.name) private userModel: Model<User>,
+  ) {}
+
+  /** Throws while the email or IP address is locked or has to wait. */
+  async assertAllowed(email: string, ipAddress?: string): Promise<void> {
+    const now = Date.now();
+    const [account, ip] = await Promise.all([
+      this.loginThrottleModel.findOne({ key: emailKey(email) }).exec(),
+      ipAddress
+        ? this.loginThrottleModel.findOne({ key: ipKey(ipAddress) }).exec()
+        : null,
+    ]);
+
+    const waitUntil = Math.max(
+      account?.lockedUntil?.getTime() ?? 0,
+      account?.lastFailureAt && account.failures > 0
+        ? account.lastFailureAt.getTime() + this.delayMs(account.failures)
+        : 0,
+      ip?.lockedUntil?.getTime() ?? 0,
+    );
+
+    if (waitUntil > now) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message: 'Too many failed login attempts, try again later',
+          retryAfter: Math.ceil((waitUntil - now) / 1000),
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  /** Counts a failed login, locking the email or IP address at its limit. */
+  async recordFailure(rawEmail: string, ipAddress?: string): Promise<void> {
+    // The throttle key, the audit entry and the user agree on one spelling
+    const email = normalizeEmail(rawEmail);
+    const lockedAccount = await this.countFailure(
+      emailKey(email),
+      this.configService.get<number>('loginProtection.maxAccountFailures') || 5,
+    );
+    if (lockedAccount) {
+      const user = await this.userModel
+        .findOne({
+          email: { $regex: `^${escapeRegExp(email)}$`, $options: 'i' },
+          isDeleted: false,
+        })
+        .exec();
+      await this.recordEvent('account_locked', {
+        email,
+        ipAddress,
+        userId: user?._id,
+        tenantId: user?.tenantId,
+        lockedUntil: lockedAccount.lockedUntil,
+      });
+      this.logger.warn(
+        `Locked logins of ${email} until ${lockedAccount.lockedUntil?.toISOString()}`,
+      );
+    }
+
+    if (!ipAddress) {
+      return;
+    }
+
+    const lockedIp = await this.countFailure(
+      ipKey(ipAddress),
+      this.configService.get<number>('loginProtection.maxIpFailures') || 20,
+    );
+    if (lockedIp) {
+      await this.recordEvent('ip_blocked', {
+        ipAddress,
+        lockedUntil: lockedIp.lockedUntil,
+      });
+      this.logger.warn(
+        `Blocked logins from ${ipAddress} until ${lockedIp.lockedUntil?.toISOString()}`,
+      );
+    }
+  }
+
+  /** A completed login forgets the failures of the email address. */
+  async recordSuccess(email: string): Promise<void> {
+    await this.loginThrottleModel.deleteOne({ key: emailKey(email) }).exec();
+  }
+
+  /** Lifts a lockout of the email address of a user. */
+  async unlock(
+    user: { id: string; email: string; tenantId: string },
+    actorId?: string,
+  ): Promise<void> {
+    await this.recordSuccess(user.email);
+    await this.recordEvent('account_unlocked', {
+      email: user.email,
+      userId: new Types.ObjectId(user.id),
+      tenantId: new Types.ObjectId(user.tenantId),
+      actorId: actorId ? new Types.ObjectId(actorId) : undefined,
+    });
+  }
+
+  /** Returns the record when this failure locked it. */
+  private async countFailure(
+    key: string,
+    maxFailures: number,
+  ): Promise<LoginThrottleDocument | null> {
+    const now = Date.now();
+    const failureWindowMs =
+      this.configService.get<number>('loginProtection.failureWindowMs') ||
+      86400000;
+
+    const record = await this.loginThrottleModel
+      .findOneAndUpdate(
+        { key },
+        {
+          $inc: { failures: 1 },
+          lastFailureAt: new Date(now),
+          $max: { expiresAt: new Date(now + failureWindowMs) },
+        },
+        { upsert: true, new: true, setDefaultsOnInsert: true },
+      )
+      .exec();
+
+    if (record.failures < maxFailures) {
+      return null;
+    }
+
+    const lockoutMs = Math.min(
+      (this.configService.get<number>('loginProtection.lockoutMs') || 900000) *
+        2 ** record.lockouts,
+      this.configService.get<number>('loginProtection.lockoutMaxMs') ||
+        86400000,
+    );
+    const lockedUntil = new Date(now + lockoutMs);
+
+    // Conditional, so of concurrent failures only the one at the limit locks
+    return this.loginThrottleModel
+      .findOneAndUpdate(
+        { _id: record._id, failures: record.failures },
+        {
+          failures: 0,
+          lockedUntil,
+          $inc: { lockouts: 1 },
+          expiresAt: new Date(lockedUntil.getTime() + failureWindowMs),
+        },
+        { new: true },
+      )
+      .exec();
+  }
+
+  // Waiting time after the latest failure, none before the first
+  private delayMs(failures: number): number {
+    const baseMs =
+      this.configService.get<number>('loginProtection.delayBaseMs') ?? 1000;
+    const maxMs =
+      this.configService.get<number>('loginProtection.delayMaxMs') ?? 30000;
+    return Math.min(baseMs * 2 ** (failures - 1), maxMs);
+  }
+
+  private async recordEvent(
+    type: SecurityEventType,
+    details: Omit<SecurityEvent, 'type'>,
+  ): Promise<void> {
+    await new this.securityEventModel({ type, ...details }).save();
+  }
+}
+
+// Addresses differing in case are the same mailbox for an attacker too
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function emailKey(email: string): string {
+  return `email:${normalizeEmail(email)}`;
+}
+
+function ipKey(ipAddress: string): string {
+  return `ip:${ipAddress}`;
+}
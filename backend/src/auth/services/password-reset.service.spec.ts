@@ -0,0 +1,176 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { User } from '../../database/schemas/user.schema';
+import { MAILER } from '../../mail/mailer.interface';
+import { AuthService } from '../auth.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { PasswordResetService } from './password-reset.service';
+import { RefreshTokenService } from './refresh-token.service';
+import { UserTokenService } from './user-token.service';
+
+describe('PasswordResetService', () => {
+  let service: PasswordResetService;
+
+  const userId = new Types.ObjectId('507f1f77bcf86cd799439011');
+  const user = { _id: userId, email: 'jane@example.com', firstName: 'Jane' };
+
+  const mockUserModel = {
+    findOne: jest.fn(),
+    updateOne: jest.fn(),
+  };
+  const mockUserTokenService = {
+    issue: jest.fn(),
+    consume: jest.fn(),
+  };
+  const mockRefreshTokenService = {
+    revokeAllForUser: jest.fn(),
+  };
+  const mockLoginThrottleService = {
+    recordSuccess: jest.fn(),
+  };
+  const mockMailer = {
+    driver: 'console',
+    send: jest.fn(),
+  };
+
+  const execResult = (value: any) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockUserModel.findOne.mockReturnValue(execResult(user));
+    mockUserModel.updateOne.mockReturnValue(execResult({ matchedCount: 1 }));
+    mockMailer.send.mockResolvedValue(undefined);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PasswordResetService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) =>
+              key === 'app.frontendUrl' ? 'http://app.test' : undefined,
+            ),
+          },
+        },
+        {
+          provide: AuthService,
+          useValue: { hashPassword: jest.fn().mockResolvedValue('hashed') },
+        },
+        { provide: UserTokenService, useValue: mockUserTokenService },
+        { provide: RefreshTokenService, useValue: mockRefreshTokenService },
+        { provide: LoginThrottleService, useValue: mockLoginThrottleService },
+        { provide: MAILER, useValue: mockMailer },
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+      ],
+    }).compile();
+
+    service = module.get<PasswordResetService>(PasswordResetService);
+  });
+
+  describe('request', () => {
+    // The token is issued and mailed after request() returns
+    const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+    it('should email a reset link', async () => {
+      mockUserTokenService.issue.mockResolvedValue('reset-token');
+
+      await service.request(user.email);
+      await settle();
+
+      expect(mockUserTokenService.issue).toHaveBeenCalledWith(
+        { id: userId.toString(), email: user.email },
+        'password_reset',
+        3600000,
+      );
+      expect(mockMailer.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: user.email,
+          text: expect.stringContaining(
+            'http://app.test/reset-password?token=reset-token',
+          ),
+        }),
+      );
+    });
+
+    it('should answer before the token is issued', async () => {
+      mockUserTokenService.issue.mockReturnValue(new Promise(() => {}));
+
+      await expect(service.request(user.email)).resolves.toBeUndefined();
+      expect(mockMailer.send).not.toHaveBeenCalled();
+    });
+
+    it('should silently do nothing for an unknown email', async () => {
+      mockUserModel.findOne.mockReturnValue(execResult(null));
+
+      await expect(
+        service.request('nobody@example.com'),
+      ).resolves.toBeUndefined();
+      expect(mockUserTokenService.issue).not.toHaveBeenCalled();
+      expect(mockMailer.send).not.toHaveBeenCalled();
+    });
+
+    it('should silently do nothing when the rate limit is reached', async () => {
+      mockUserTokenService.issue.mockResolvedValue(null);
+
+      await expect(service.request(user.email)).resolves.toBeUndefined();
+      await settle();
+      expect(mockUserTokenService.issue).toHaveBeenCalled();
+      expect(mockMailer.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reset', () => {
+    it('should set the password and log out every session', async () => {
+      mockUserTokenService.consume.mockResolvedValue({
+        userId,
+        email: user.email,
+      });
+
+      await service.reset('reset-token', 'NewPass123!');
+
+      expect(mockUserTokenService.consume).toHaveBeenCalledWith(
+        'reset-token',
+        'password_reset',
+      );
+      expect(mockUserModel.updateOne).toHaveBeenCalledWith(
+        { _id: userId, email: user.email, isActive: true, isDeleted: false },
+        { password: 'hashed', isEmailVerified: true },
+      );
+      expect(mockRefreshTokenService.revokeAllForUser).toHaveBeenCalledWith(
+        userId.toString(),
+        'password_reset',
+      );
+      expect(mockLoginThrottleService.recordSuccess).toHaveBeenCalledWith(
+        user.email,
+      );
+    });
+
+    it('should reject an invalid or used token', async () => {
+      mockUserTokenService.consume.mockResolvedValue(null);
+
+      await expect(service.reset('used', 'NewPass123!')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockUserModel.updateOne).not.toHaveBeenCalled();
+      expect(mockRefreshTokenService.revokeAllForUser).not.toHaveBeenCalled();
+    });
+
+    it('should reject a token sent to a previous email address', async () => {
+      mockUserTokenService.consume.mockResolvedValue({
+        userId,
+        email: 'old@example.com',
+      });
+      mockUserModel.updateOne.mockReturnValue(execResult({ matchedCount: 0 }));
+
+      await expect(service.reset('reset-token', 'NewPass123!')).rejects.toThrow(
+        'Invalid or expired reset token',
+      );
+      expect(mockRefreshTokenService.revokeAllForUser).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { HydratedDocument, Model } from 'mongoose';
+import { User } from '../../database/schemas/user.schema';
+import { MAILER } from '../../mail/mailer.interface';
+import type { Mailer } from '../../mail/mailer.interface';
+import { AuthService } from '../auth.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { RefreshTokenService } from './refresh-token.service';
+import { UserTokenService } from './user-token.service';
+
+@Injectable()
+export class PasswordResetService {
+  private readonly logger = new Logger(PasswordResetService.name);
+
+  constructor(
+    private configService: ConfigService,
+    private authService: AuthService,
+    private userTokenService: UserTokenService,
+    private refreshTokenService: RefreshTokenService,
+    private loginThrottleService: LoginThrottleService,
+    @Inject(MAILER) private mailer: Mailer,
+    @InjectModel(User.name) private userModel: Model<User>,
+  ) {}
+
+  /**
+   * Emails a reset link if the address belongs to an active user. Callers
+   * can't tell whether it did, so addresses with accounts can't be probed.
+   */
+  async request(email: string): Promise<void> {
+    // The account a login with the address would use
+    const user = await this.userModel
+      .findOne({ email, isActive: true, isDeleted: false })
+      .exec();
+
+    if (!user) {
+      return;
+    }
+
+    // Not awaited: the token work would make accounts answer slower
+    this.sendResetLink(user).catch((error: Error) => {
+      this.logger.error(
+        `Failed to send password reset email to user ${user._id.toString()}: ${error.message}`,
+        error.stack,
+      );
+    });
+  }
+
+  /**
+   * Sets a new password and logs out every session, which may belong to
+   * whoever made the reset necessary. Failed logins guessing the old
+   * password no longer count against the account.
+   */
+  async reset(token: string, password: string): Promise<void> {
+    const record = await this.userTokenService.consume(token, 'password_reset');
+
+    // Receiving the email also proves the address is the user's
+    const result = record
+      ? await this.userModel
+          .updateOne(
+            {
+              _id: record.userId,
+              email: record.email,
+              isActive: true,
+              isDeleted: false,
+            },
+            {
+              password: await this.authService.hashPassword(password),
+              isEmailVerified: true,
+            },
+          )
+          .exec()
+      : null;
+
+    if (!record || !result?.matchedCount) {
+      throw new BadRequestException('Invalid or expired reset token');
+    }
+
+    await this.refreshTokenService.revokeAllForUser(
+      record.userId.toString(),
+      'password_reset',
+    );
+    await this.loginThrottleService.recordSuccess(record.email);
+    this.logger.log(`Password reset for user ${record.userId.toString()}`);
+  }
+
+  // Issues the token and mails the link; rate limited users get nothing
+  private async sendResetLink(user: HydratedDocument<User>): Promise<void> {
+    const userId = user._id.toString();
+    const token = await this.userTokenService.issue(
+      { id: userId, email: user.email },
+      'password_reset',
+      this.configService.get<number>('accountEmails.passwordResetTtlMs') ||
+        3600000,
+    );
+    if (!token) {
+      this.logger.warn(`Password reset rate limit reached for user ${userId}`);
+      return;
+    }
+
+    const link = `${this.configService.get<string>('app.frontendUrl')}/reset-password?token=${token}`;
+    await this.mailer.send({
+      to: user.email,
+      subject: 'Reset your password',
+      text: [
+        `Hi ${user.firstName},`,
+        '',
+        'Open this link to choose a new password:',
+        link,
+        '',
+        "If you didn't ask for a password reset, you can ignore this email.",
+      ].join('\n'),
+    });
+  }
+}
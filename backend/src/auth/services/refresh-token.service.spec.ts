@@ -0,0 +1,195 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { createHash } from 'crypto';
+import { Types } from 'mongoose';
+import { RefreshToken } from '../../database/schemas/refresh-token.schema';
+import { RefreshTokenService } from './refresh-token.service';
+import { SessionService } from './session.service';
+
+describe('RefreshTokenService', () => {
+  let service: RefreshTokenService;
+
+  const user = {
+    id: '507f1f77bcf86cd799439011',
+    tenantId: '507f1f77bcf86cd799439012',
+  };
+
+  const savedTokens: any[] = [];
+  const MockRefreshTokenModel = jest.fn().mockImplementation((doc) => ({
+    save: jest.fn().mockImplementation(() => {
+      savedTokens.push(doc);
+      return Promise.resolve(doc);
+    }),
+  })) as any;
+
+  const mockSessionService = {
+    markRevoked: jest.fn(),
+  };
+
+  const execResult = (value: any) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const sha256 = (value: string) =>
+    createHash('sha256').update(value).digest('hex');
+
+  beforeEach(async () => {
+    savedTokens.length = 0;
+    MockRefreshTokenModel.findOneAndUpdate = jest
+      .fn()
+      .mockReturnValue(execResult(null));
+    MockRefreshTokenModel.findOne = jest.fn().mockReturnValue(execResult(null));
+    MockRefreshTokenModel.updateMany = jest
+      .fn()
+      .mockReturnValue(execResult({ modifiedCount: 1 }));
+    MockRefreshTokenModel.exists = jest.fn().mockReturnValue(execResult(null));
+    mockSessionService.markRevoked.mockReset();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RefreshTokenService,
+        {
+          provide: getModelToken(RefreshToken.name),
+          useValue: MockRefreshTokenModel,
+        },
+        { provide: SessionService, useValue: mockSessionService },
+      ],
+    }).compile();
+
+    service = module.get<RefreshTokenService>(RefreshTokenService);
+  });
+
+  describe('issue', () => {
+    it('should store only the hash of a token', async () => {
+      const before = Date.now();
+
+      const issued = await service.issue(user, 3600, 'family-1');
+
+      expect(issued.token).toHaveLength(64);
+      expect(savedTokens[0]).toMatchObject({
+        tokenHash: sha256(issued.token),
+        familyId: 'family-1',
+        userId: new Types.ObjectId(user.id),
+        tenantId: new Types.ObjectId(user.tenantId),
+      });
+      expect(JSON.stringify(savedTokens[0])).not.toContain(issued.token);
+      expect(savedTokens[0].expiresAt.getTime()).toBeGreaterThanOrEqual(
+        before + 3600 * 1000,
+      );
+    });
+
+    it('should issue a different token on every refresh', async () => {
+      const first = await service.issue(user, 3600, 'family-1');
+      const second = await service.issue(user, 3600, 'family-1');
+
+      expect(second.familyId).toBe('family-1');
+      expect(second.token).not.toBe(first.token);
+    });
+  });
+
+  describe('consume', () => {
+    it('should mark an unused token as used', async () => {
+      const record = { familyId: 'family-1', userId: new Types.ObjectId() };
+      MockRefreshTokenModel.findOneAndUpdate.mockReturnValue(
+        execResult(record),
+      );
+
+      await expect(service.consume('token')).resolves.toBe(record);
+      expect(MockRefreshTokenModel.findOneAndUpdate).toHaveBeenCalledWith(
+        {
+          tokenHash: sha256('token'),
+          usedAt: null,
+          revokedAt: null,
+          expiresAt: { $gt: expect.any(Date) },
+        },
+        { usedAt: expect.any(Date) },
+      );
+    });
+
+    it('should revoke the family when a used token comes back', async () => {
+      MockRefreshTokenModel.findOne.mockReturnValue(
+        execResult({
+          familyId: 'family-1',
+          userId: new Types.ObjectId(user.id),
+          usedAt: new Date(),
+        }),
+      );
+
+      await expect(service.consume('stolen')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(MockRefreshTokenModel.updateMany).toHaveBeenCalledWith(
+        { familyId: 'family-1', revokedAt: null },
+        { revokedAt: expect.any(Date), revokedReason: 'reuse' },
+      );
+      expect(mockSessionService.markRevoked).toHaveBeenCalledWith(
+        { familyId: 'family-1' },
+        'reuse',
+      );
+    });
+
+    it('should reject unknown and revoked tokens without revoking more', async () => {
+      await expect(service.consume('unknown')).rejects.toThrow(
+        'Invalid refresh token',
+      );
+
+      MockRefreshTokenModel.findOne.mockReturnValue(
+        execResult({
+          familyId: 'family-1',
+          userId: new Types.ObjectId(user.id),
+          usedAt: new Date(),
+          revokedAt: new Date(),
+        }),
+      );
+      await expect(service.consume('revoked')).rejects.toThrow(
+        UnauthorizedException,
+      );
+
+      expect(MockRefreshTokenModel.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revocation', () => {
+    it('should revoke every session of a user', async () => {
+      await service.revokeAllForUser(user.id, 'logout_all');
+
+      expect(MockRefreshTokenModel.updateMany).toHaveBeenCalledWith(
+        { userId: new Types.ObjectId(user.id), revokedAt: null },
+        { revokedAt: expect.any(Date), revokedReason: 'logout_all' },
+      );
+      expect(mockSessionService.markRevoked).toHaveBeenCalledWith(
+        { userId: user.id },
+        'logout_all',
+      );
+    });
+
+    it('should tell listeners about revoked sessions', async () => {
+      const listener = jest.fn();
+      const failingListener = jest.fn(() => {
+        throw new Error('socket server down');
+      });
+      service.onRevoked(failingListener);
+      service.onRevoked(listener);
+
+      await service.revokeFamily('family-1', 'logout');
+      await service.revokeAllForUser(user.id, 'logout_all');
+
+      expect(listener).toHaveBeenNthCalledWith(1, { familyId: 'family-1' });
+      expect(listener).toHaveBeenNthCalledWith(2, { userId: user.id });
+    });
+
+    it('should tell whether a family was revoked', async () => {
+      await expect(service.isFamilyRevoked('family-1')).resolves.toBe(false);
+
+      MockRefreshTokenModel.exists.mockReturnValue(
+        execResult({ _id: new Types.ObjectId() }),
+      );
+      await expect(service.isFamilyRevoked('family-1')).resolves.toBe(true);
+      expect(MockRefreshTokenModel.exists).toHaveBeenCalledWith({
+        familyId: 'family-1',
+        revokedAt: { $ne: null },
+      });
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { createHash, randomBytes } from 'crypto';
+import { Model, Types } from 'mongoose';
+import {
+  RefreshToken,
+  RefreshTokenDocument,
+  RefreshTokenRevokeReason,
+} from '../../database/schemas/refresh-token.schema';
+import { SessionService } from './session.service';
+
+export interface IssuedRefreshToken {
+  token: string;
+  familyId: string;
+}
+
+/** Sessions that were just logged out: one session or all of a user's. */
+export type RevokedSessions = { familyId: string } | { userId: string };
+
+@Injectable()
+export class RefreshTokenService {
+  private readonly logger = new Logger(RefreshTokenService.name);
+  private readonly revocationListeners: ((revoked: RevokedSessions) => void)[] =
+    [];
+
+  constructor(
+    @InjectModel(RefreshToken.name)
+    private refreshTokenModel: Model<RefreshToken>,
+    private sessionService: SessionService,
+  ) {}
+
+  /** Adds a listener told about logged out sessions, e.g. to close sockets. */
+  onRevoked(listener: (revoked: RevokedSessions) => void): void {
+    this.revocationListeners.push(listener);
+  }
+
+  /**
+   * Creates a refresh token of the family of a session. The token is
+   * returned once; only its hash is stored.
+   */
+  async issue(
+    user: { id: string; tenantId: string },
+    ttlSeconds: number,
+    familyId: string,
+  ): Promise<IssuedRefreshToken> {
+    const token = randomBytes(48).toString('base64url');
+
+    await new this.refreshTokenModel({
+      tokenHash: hashToken(token),
+      familyId,
+      userId: new Types.ObjectId(user.id),
+      tenantId: new Types.ObjectId(user.tenantId),
+      expiresAt: new Date(Date.now() + ttlSeconds * 1000),
+    }).save();
+
+    return { token, familyId };
+  }
+
+  /**
+   * Marks a refresh token as used and returns it, so a new token of the same
+   * family can be issued. A token that was already used means it leaked, so
+   * its whole family is revoked.
+   */
+  async consume(token: string): Promise<RefreshTokenDocument> {
+    const tokenHash = hashToken(token);
+    const now = new Date();
+
+    const consumed = await this.refreshTokenModel
+      .findOneAndUpdate(
+        {
+          tokenHash,
+          usedAt: null,
+          revokedAt: null,
+          expiresAt: { $gt: now },
+        },
+        { usedAt: now },
+      )
+      .exec();
+
+    if (consumed) {
+      return consumed;
+    }
+
+    const existing = await this.refreshTokenModel.findOne({ tokenHash }).exec();
+    if (existing?.usedAt && !existing.revokedAt) {
+      await this.revokeFamily(existing.familyId, 'reuse');
+      this.logger.warn(
+        `Refresh token reused, revoked session ${existing.familyId} of user ${existing.userId.toString()}`,
+      );
+    }
+
+    throw new UnauthorizedException('Invalid refresh token');
+  }
+
+  async revokeFamily(
+    familyId: string,
+    reason: RefreshTokenRevokeReason,
+  ): Promise<void> {
+    await this.refreshTokenModel
+      .updateMany(
+        { familyId, revokedAt: null },
+        { revokedAt: new Date(), revokedReason: reason },
+      )
+      .exec();
+    await this.sessionService.markRevoked({ familyId }, reason);
+    this.notifyRevoked({ familyId });
+  }
+
+  async revokeAllForUser(
+    userId: string,
+    reason: RefreshTokenRevokeReason,
+  ): Promise<void> {
+    await this.refreshTokenModel
+      .updateMany(
+        { userId: new Types.ObjectId(userId), revokedAt: null },
+        { revokedAt: new Date(), revokedReason: reason },
+      )
+      .exec();
+    await this.sessionService.markRevoked({ userId }, reason);
+    this.notifyRevoked({ userId });
+  }
+
+  /** Whether the session of an access token was logged out. */
+  async isFamilyRevoked(familyId: string): Promise<boolean> {
+    const revoked = await this.refreshTokenModel
+      .exists({ familyId, revokedAt: { $ne: null } })
+      .exec();
+    return !!revoked;
+  }
+
+  // Listener failures are logged only, the sessions are revoked already
+  private notifyRevoked(revoked: RevokedSessions): void {
+    for (const listener of this.revocationListeners) {
+      try {
+        listener(revoked);
+      } catch (error) {
+        this.logger.warn(
+          `Session revocation listener failed: ${(error as Error).message}`,
+        );
+      }
+    }
+  }
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,136 @@
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { Session } from '../../database/schemas/session.schema';
+import { SessionService } from './session.service';
+
+describe('SessionService', () => {
+  let service: SessionService;
+
+  const user = {
+    id: '507f1f77bcf86cd799439011',
+    tenantId: '507f1f77bcf86cd799439012',
+  };
+
+  const savedSessions: any[] = [];
+  const MockSessionModel = jest.fn().mockImplementation((doc) => ({
+    save: jest.fn().mockImplementation(() => {
+      savedSessions.push(doc);
+      return Promise.resolve(doc);
+    }),
+  })) as any;
+
+  const execResult = (value: any) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  beforeEach(async () => {
+    savedSessions.length = 0;
+    MockSessionModel.updateOne = jest.fn().mockReturnValue(execResult(null));
+    MockSessionModel.updateMany = jest.fn().mockReturnValue(execResult(null));
+    MockSessionModel.findOne = jest.fn().mockReturnValue(execResult(null));
+    MockSessionModel.find = jest.fn().mockReturnValue({
+      sort: jest.fn().mockReturnValue(execResult([])),
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionService,
+        { provide: getModelToken(Session.name), useValue: MockSessionModel },
+      ],
+    }).compile();
+
+    service = module.get<SessionService>(SessionService);
+  });
+
+  describe('start', () => {
+    it('should record the device of a login in a new family', async () => {
+      const familyId = await service.start(
+        user,
+        { userAgent: 'Mozilla/5.0', ipAddress: '203.0.113.42' },
+        3600,
+      );
+
+      expect(savedSessions[0]).toMatchObject({
+        familyId,
+        userId: new Types.ObjectId(user.id),
+        tenantId: new Types.ObjectId(user.tenantId),
+        userAgent: 'Mozilla/5.0',
+        ipAddress: '203.0.113.42',
+      });
+      expect(
+        savedSessions[0].expiresAt.getTime() -
+          savedSessions[0].lastUsedAt.getTime(),
+      ).toBe(3600 * 1000);
+      await expect(service.start(user, {}, 3600)).resolves.not.toBe(familyId);
+    });
+
+    it('should cut overly long user agents', async () => {
+      await service.start(user, { userAgent: 'x'.repeat(2000) }, 3600);
+
+      expect(savedSessions[0].userAgent).toHaveLength(512);
+      expect(savedSessions[0]).not.toHaveProperty('ipAddress');
+    });
+
+    it('should record IPv4 clients without the IPv6 mapping', async () => {
+      await service.start(user, { ipAddress: '::ffff:203.0.113.42' }, 3600);
+      await service.start(user, { ipAddress: '2001:db8::1' }, 3600);
+
+      expect(savedSessions[0].ipAddress).toBe('203.0.113.42');
+      expect(savedSessions[1].ipAddress).toBe('2001:db8::1');
+    });
+  });
+
+  describe('touch', () => {
+    it('should extend the session and keep metadata that is unknown', async () => {
+      await service.touch('family-1', { ipAddress: '198.51.100.7' }, 3600);
+
+      expect(MockSessionModel.updateOne).toHaveBeenCalledWith(
+        { familyId: 'family-1' },
+        {
+          ipAddress: '198.51.100.7',
+          lastUsedAt: expect.any(Date),
+          expiresAt: expect.any(Date),
+        },
+      );
+    });
+  });
+
+  describe('findActiveById', () => {
+    it('should only find sessions of the user', async () => {
+      await service.findActiveById('507f1f77bcf86cd799439015', user.id);
+
+      expect(MockSessionModel.findOne).toHaveBeenCalledWith({
+        _id: new Types.ObjectId('507f1f77bcf86cd799439015'),
+        userId: new Types.ObjectId(user.id),
+        revokedAt: null,
+        expiresAt: { $gt: expect.any(Date) },
+      });
+    });
+
+    it('should not look up invalid IDs', async () => {
+      await expect(
+        service.findActiveById('not-an-id', user.id),
+      ).resolves.toBeNull();
+      expect(MockSessionModel.findOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('markRevoked', () => {
+    it('should revoke one session or every session of a user', async () => {
+      await service.markRevoked({ familyId: 'family-1' }, 'logout');
+      await service.markRevoked({ userId: user.id }, 'logout_all');
+
+      expect(MockSessionModel.updateMany).toHaveBeenNthCalledWith(
+        1,
+        { familyId: 'family-1', revokedAt: null },
+        { revokedAt: expect.any(Date), revokedReason: 'logout' },
+      );
+      expect(MockSessionModel.updateMany).toHaveBeenNthCalledWith(
+        2,
+        { userId: new Types.ObjectId(user.id), revokedAt: null },
+        { revokedAt: expect.any(Date), revokedReason: 'logout_all' },
+      );
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { randomUUID } from 'crypto';
+import { Model, Types } from 'mongoose';
+import { RefreshTokenRevokeReason } from '../../database/schemas/refresh-token.schema';
+import {
+  Session,
+  SessionDocument,
+} from '../../database/schemas/session.schema';
+
+/** Where a login or refresh came from. */
+export interface SessionMetadata {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+// Browsers send a few hundred characters at most, anything longer is junk
+const MAX_USER_AGENT_LENGTH = 512;
+
+@Injectable()
+export class SessionService {
+  constructor(
+    @InjectModel(Session.name) private sessionModel: Model<Session>,
+  ) {}
+
+  /** Records a login, returning the family ID of its refresh tokens. */
+  async start(
+    user: { id: string; tenantId: string },
+    metadata: SessionMetadata,
+    ttlSeconds: number,
+  ): Promise<string> {
+    const now = new Date();
+    const familyId = randomUUID();
+
+    await new this.sessionModel({
+      familyId,
+      userId: new Types.ObjectId(user.id),
+      tenantId: new Types.ObjectId(user.tenantId),
+      ...toMetadata(metadata),
+      lastUsedAt: now,
+      expiresAt: new Date(now.getTime() + ttlSeconds * 1000),
+    }).save();
+
+    return familyId;
+  }
+
+  /** Records a refresh of the session, which extends it. */
+  async touch(
+    familyId: string,
+    metadata: SessionMetadata,
+    ttlSeconds: number,
+  ): Promise<void> {
+    const now = new Date();
+
+    await this.sessionModel
+      .updateOne(
+        { familyId },
+        {
+          ...toMetadata(metadata),
+          lastUsedAt: now,
+          expiresAt: new Date(now.getTime() + ttlSeconds * 1000),
+        },
+      )
+      .exec();
+  }
+
+  /** Sessions of a user that can still be refreshed, last used first. */
+  async findActive(userId: string): Promise<SessionDocument[]> {
+    return this.sessionModel
+      .find({
+        userId: new Types.ObjectId(userId),
+        revokedAt: null,
+        expiresAt: { $gt: new Date() },
+      })
+      .sort({ lastUsedAt: -1 })
+      .exec();
+  }
+
+  async findActiveById(
+    sessionId: string,
+    userId: string,
+  ): Promise<SessionDocument | null> {
+    if (!Types.ObjectId.isValid(sessionId)) {
+      return null;
+    }
+
+    return this.sessionModel
+      .findOne({
+        _id: new Types.ObjectId(sessionId),
+        userId: new Types.ObjectId(userId),
+        revokedAt: null,
+        expiresAt: { $gt: new Date() },
+      })
+      .exec();
+  }
+
+  /** Only records the revocation, the refresh tokens are revoked separately. */
+  async markRevoked(
+    filter: { familyId: string } | { userId: string },
+    reason: RefreshTokenRevokeReason,
+  ): Promise<void> {
+    await this.sessionModel
+      .updateMany(
+        {
+          ...('familyId' in filter
+            ? { familyId: filter.familyId }
+            : { userId: new Types.ObjectId(filter.userId) }),
+          revokedAt: null,
+        },
+        { revokedAt: new Date(), revokedReason: reason },
+      )
+      .exec();
+  }
+}
+
+// Unknown values are left out, so a refresh without them keeps the old ones
+function toMetadata(metadata: SessionMetadata): SessionMetadata {
+  return {
+    ...(metadata.userAgent && {
+      userAgent: metadata.userAgent.slice(0, MAX_USER_AGENT_LENGTH),
+    }),
+    ...(metadata.ipAddress && {
+      // IPv4 clients of a dual-stack server show as IPv4-mapped IPv6
+      ipAddress: metadata.ipAddress.replace(
+        /^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i,
+        '',
+      ),
+    }),
+  };
+}
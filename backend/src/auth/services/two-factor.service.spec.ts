@@ -0,0 +1,224 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { createHash } from 'crypto';
+import { Types } from 'mongoose';
+import { UserGroupEntity } from '../../database/schemas/user-group.schema';
+import { User } from '../../database/schemas/user.schema';
+import { generateTotp, totpStep } from '../utils/totp.util';
+import { TwoFactorService } from './two-factor.service';
+
+describe('TwoFactorService', () => {
+  let service: TwoFactorService;
+
+  const userId = '507f1f77bcf86cd799439011';
+  const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  const mockUserModel = {
+    findOne: jest.fn(),
+    updateOne: jest.fn(),
+  };
+  const mockUserGroupModel = {
+    exists: jest.fn(),
+  };
+  const mockConfigService = {
+    get: jest.fn().mockReturnValue('Acme Inc'),
+  };
+
+  const execResult = (value: any) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const givenUser = (twoFactor: object) =>
+    mockUserModel.findOne.mockReturnValue(
+      execResult({
+        _id: new Types.ObjectId(userId),
+        email: 'user@example.com',
+        userGroupId: new Types.ObjectId('507f1f77bcf86cd799439013'),
+        twoFactor,
+      }),
+    );
+
+  const givenGroupRequires = (required: boolean) =>
+    mockUserGroupModel.exists.mockReturnValue(
+      execResult(required ? { _id: new Types.ObjectId() } : null),
+    );
+
+  const sha256 = (value: string) =>
+    createHash('sha256').update(value).digest('hex');
+
+  beforeEach(async () => {
+    mockUserModel.findOne.mockReset();
+    mockUserModel.updateOne.mockReset();
+    mockUserModel.updateOne.mockReturnValue(execResult({ modifiedCount: 1 }));
+    givenGroupRequires(false);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TwoFactorService,
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        {
+          provide: getModelToken(UserGroupEntity.name),
+          useValue: mockUserGroupModel,
+        },
+      ],
+    }).compile();
+
+    service = module.get<TwoFactorService>(TwoFactorService);
+  });
+
+  describe('getRequirement', () => {
+    it('should tell whether a login needs a code, a setup or nothing', async () => {
+      givenUser({ enabled: true, secret });
+      await expect(service.getRequirement(userId)).resolves.toBe('verify');
+
+      givenUser({ enabled: false });
+      await expect(service.getRequirement(userId)).resolves.toBe('none');
+
+      givenGroupRequires(true);
+      await expect(service.getRequirement(userId)).resolves.toBe('setup');
+    });
+  });
+
+  describe('enrollment', () => {
+    it('should store a pending secret and return its QR code', async () => {
+      givenUser({ enabled: false });
+
+      const result = await service.startEnrollment(userId);
+
+      expect(mockUserModel.updateOne).toHaveBeenCalledWith(
+        { _id: new Types.ObjectId(userId) },
+        { 'twoFactor.pendingSecret': result.secret },
+      );
+      expect(result.otpauthUrl).toContain(
+        'otpauth://totp/Acme%20Inc%3Auser%40example.com',
+      );
+      expect(result.qrCode).toMatch(/^data:image\/png;base64,/);
+    });
+
+    it('should not enroll twice', async () => {
+      givenUser({ enabled: true, secret });
+
+      await expect(service.startEnrollment(userId)).rejects.toThrow(
+        'Two-factor authentication is already enabled',
+      );
+    });
+
+    it('should enable 2FA with a code of the pending secret', async () => {
+      givenUser({ enabled: false, pendingSecret: secret });
+      const code = generateTotp(secret, totpStep());
+
+      const backupCodes = await service.confirmEnrollment(userId, code);
+
+      expect(backupCodes).toHaveLength(10);
+      expect(backupCodes[0]).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+      expect(mockUserModel.updateOne).toHaveBeenCalledWith(
+        { _id: new Types.ObjectId(userId) },
+        {
+          twoFactor: {
+            enabled: true,
+            secret,
+            backupCodes: backupCodes.map((backupCode) =>
+              sha256(backupCode.replace('-', '')),
+            ),
+            lastUsedStep: expect.any(Number),
+            enabledAt: expect.any(Date),
+          },
+        },
+      );
+    });
+
+    it('should reject a wrong code or a missing enrollment', async () => {
+      givenUser({ enabled: false, pendingSecret: secret });
+      await expect(service.confirmEnrollment(userId, '000000')).rejects.toThrow(
+        'Invalid two-factor code',
+      );
+
+      givenUser({ enabled: false });
+      await expect(service.confirmEnrollment(userId, '000000')).rejects.toThrow(
+        'Start two-factor enrollment first',
+      );
+      expect(mockUserModel.updateOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verify', () => {
+    it('should accept a code of the authenticator once', async () => {
+      givenUser({ enabled: true, secret });
+      const step = totpStep();
+
+      await expect(
+        service.verify(userId, generateTotp(secret, step)),
+      ).resolves.toBe(true);
+      expect(mockUserModel.updateOne).toHaveBeenCalledWith(
+        {
+          _id: new Types.ObjectId(userId),
+          $or: [
+            { 'twoFactor.lastUsedStep': null },
+            { 'twoFactor.lastUsedStep': { $lt: step } },
+          ],
+        },
+        { 'twoFactor.lastUsedStep': step },
+      );
+
+      mockUserModel.updateOne.mockReturnValue(execResult({ modifiedCount: 0 }));
+      await expect(
+        service.verify(userId, generateTotp(secret, step)),
+      ).resolves.toBe(false);
+    });
+
+    it('should use up a backup code however it is typed', async () => {
+      givenUser({ enabled: true, secret });
+
+      await expect(service.verify(userId, ' 3F9A1-0C2DE ')).resolves.toBe(true);
+      expect(mockUserModel.updateOne).toHaveBeenCalledWith(
+        {
+          _id: new Types.ObjectId(userId),
+          'twoFactor.backupCodes': sha256('3f9a10c2de'),
+        },
+        { $pull: { 'twoFactor.backupCodes': sha256('3f9a10c2de') } },
+      );
+    });
+
+    it('should reject codes of users without 2FA', async () => {
+      givenUser({ enabled: false });
+
+      await expect(service.verify(userId, '123456')).resolves.toBe(false);
+      expect(mockUserModel.updateOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('disable', () => {
+    it('should keep 2FA when the group requires it', async () => {
+      givenUser({ enabled: true, secret });
+      givenGroupRequires(true);
+
+      await expect(service.disable(userId, '123456')).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(mockUserModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should disable 2FA with a valid code', async () => {
+      givenUser({ enabled: true, secret });
+
+      await service.disable(userId, generateTotp(secret, totpStep()));
+
+      expect(mockUserModel.updateOne).toHaveBeenLastCalledWith(
+        { _id: new Types.ObjectId(userId) },
+        { twoFactor: { enabled: false, backupCodes: [] } },
+      );
+    });
+
+    it('should require a valid code', async () => {
+      givenUser({ enabled: true, secret });
+      mockUserModel.updateOne.mockReturnValue(execResult({ modifiedCount: 0 }));
+
+      await expect(service.disable(userId, 'wrong-code')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+});
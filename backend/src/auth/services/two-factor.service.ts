@@ -0,0 +1,249 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { createHash, randomBytes } from 'crypto';
+import { Model, Types } from 'mongoose';
+import * as QRCode from 'qrcode';
+import {
+  UserGroupDocument,
+  UserGroupEntity,
+} from '../../database/schemas/user-group.schema';
+import { User, UserDocument } from '../../database/schemas/user.schema';
+import { TwoFactorEnrollmentResponseDto } from '../dto/two-factor-response.dto';
+import { generateTotpSecret, totpUri, verifyTotp } from '../utils/totp.util';
+
+/** What a login needs before tokens are issued. */
+export type TwoFactorRequirement = 'none' | 'verify' | 'setup';
+
+const BACKUP_CODE_COUNT = 10;
+
+@Injectable()
+export class TwoFactorService {
+  private readonly logger = new Logger(TwoFactorService.name);
+
+  constructor(
+    private configService: ConfigService,
+    @InjectModel(User.name) private userModel: Model<User>,
+    @InjectModel(UserGroupEntity.name)
+    private userGroupModel: Model<UserGroupDocument>,
+  ) {}
+
+  /**
+   * Users with 2FA verify a code, users of a group that requires 2FA but
+   * without it have to enroll first.
+   */
+  async getRequirement(userId: string): Promise<TwoFactorRequirement> {
+    const user = await this.findUser(userId);
+    if (user.twoFactor?.enabled) {
+      return 'verify';
+    }
+    return (await this.isRequired(user)) ? 'setup' : 'none';
+  }
+
+  /** Generates a secret to scan, 2FA is enabled once a code is confirmed. */
+  async startEnrollment(
+    userId: string,
+  ): Promise<TwoFactorEnrollmentResponseDto> {
+    const user = await this.findUser(userId);
+    if (user.twoFactor?.enabled) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await this.userModel
+      .updateOne({ _id: user._id }, { 'twoFactor.pendingSecret': secret })
+      .exec();
+
+    const otpauthUrl = totpUri(
+      this.configService.get<string>('twoFactor.issuer') ||
+        'WhatsApp Multi-Tenant',
+      user.email,
+      secret,
+    );
+
+    return {
+      secret,
+      otpauthUrl,
+      qrCode: await QRCode.toDataURL(otpauthUrl),
+    };
+  }
+
+  /** Enables 2FA with the pending secret, returning the backup codes. */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const user = await this.findUser(userId);
+    const pendingSecret = user.twoFactor?.pendingSecret;
+    if (user.twoFactor?.enabled || !pendingSecret) {
+      throw new BadRequestException('Start two-factor enrollment first');
+    }
+
+    const step = verifyTotp(pendingSecret, normalizeCode(code));
+    if (step === null) {
+      throw new BadRequestException('Invalid two-factor code');
+    }
+
+    const backupCodes = generateBackupCodes();
+    await this.userModel
+      .updateOne(
+        { _id: user._id },
+        {
+          twoFactor: {
+            enabled: true,
+            secret: pendingSecret,
+            backupCodes: backupCodes.map(hashBackupCode),
+            lastUsedStep: step,
+            enabledAt: new Date(),
+          },
+        },
+      )
+      .exec();
+
+    this.logger.log(`Two-factor authentication enabled for user ${userId}`);
+    return backupCodes;
+  }
+
+  async disable(userId: string, code: string): Promise<void> {
+    const user = await this.findEnabledUser(userId);
+    if (await this.isRequired(user)) {
+      throw new ForbiddenException(
+        'Your user group requires two-factor authentication',
+      );
+    }
+    await this.assertCode(user, code);
+
+    await this.userModel
+      .updateOne(
+        { _id: user._id },
+        { twoFactor: { enabled: false, backupCodes: [] } },
+      )
+      .exec();
+
+    this.logger.log(`Two-factor authentication disabled for user ${userId}`);
+  }
+
+  /** Replaces the backup codes, the old ones stop working. */
+  async regenerateBackupCodes(userId: string, code: string): Promise<string[]> {
+    const user = await this.findEnabledUser(userId);
+    await this.assertCode(user, code);
+
+    const backupCodes = generateBackupCodes();
+    await this.userModel
+      .updateOne(
+        { _id: user._id },
+        { 'twoFactor.backupCodes': backupCodes.map(hashBackupCode) },
+      )
+      .exec();
+
+    return backupCodes;
+  }
+
+  /**
+   * Checks an authenticator code or a backup code. Each is accepted once, so
+   * an intercepted code can't be replayed.
+   */
+  async verify(userId: string, code: string): Promise<boolean> {
+    const user = await this.findUser(userId);
+    const secret = user.twoFactor?.secret;
+    if (!user.twoFactor?.enabled || !secret) {
+      return false;
+    }
+
+    const normalized = normalizeCode(code);
+
+    if (/^\d{6}$/.test(normalized)) {
+      const step = verifyTotp(secret, normalized);
+      if (step === null) {
+        return false;
+      }
+
+      // Conditional, so two requests with the same code can't both pass
+      const result = await this.userModel
+        .updateOne(
+          {
+            _id: user._id,
+            $or: [
+              { 'twoFactor.lastUsedStep': null },
+              { 'twoFactor.lastUsedStep': { $lt: step } },
+            ],
+          },
+          { 'twoFactor.lastUsedStep': step },
+        )
+        .exec();
+      return result.modifiedCount === 1;
+    }
+
+    const hash = hashBackupCode(normalized);
+    const result = await this.userModel
+      .updateOne(
+        { _id: user._id, 'twoFactor.backupCodes': hash },
+        { $pull: { 'twoFactor.backupCodes': hash } },
+      )
+      .exec();
+    if (result.modifiedCount === 1) {
+      this.logger.log(`Backup code used by user ${userId}`);
+      return true;
+    }
+    return false;
+  }
+
+  private async assertCode(user: UserDocument, code: string): Promise<void> {
+    if (!(await this.verify(user._id.toString(), code))) {
+      throw new BadRequestException('Invalid two-factor code');
+    }
+  }
+
+  private async isRequired(user: UserDocument): Promise<boolean> {
+    const group = await this.userGroupModel
+      .exists({ _id: user.userGroupId, requireTwoFactor: true })
+      .exec();
+    return !!group;
+  }
+
+  private async findEnabledUser(userId: string): Promise<UserDocument> {
+    const user = await this.findUser(userId);
+    if (!user.twoFactor?.enabled) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+    return user;
+  }
+
+  private async findUser(userId: string): Promise<UserDocument> {
+    const user = await this.userModel
+      .findOne({
+        _id: new Types.ObjectId(userId),
+        isActive: true,
+        isDeleted: false,
+      })
+      .exec();
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return user;
+  }
+}
+
+// Spaces and dashes are ignored, apps and printouts group the digits
+function normalizeCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toLowerCase();
+}
+
+// 10 hex characters, shown as two groups of five
+function generateBackupCodes(): string[] {
+  return Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const code = randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+function hashBackupCode(code: string): string {
+  return createHash('sha256').update(normalizeCode(code)).digest('hex');
+}
@@ -0,0 +1,117 @@
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { createHash } from 'crypto';
+import { Types } from 'mongoose';
+import { UserToken } from '../../database/schemas/user-token.schema';
+import { UserTokenService } from './user-token.service';
+
+describe('UserTokenService', () => {
+  let service: UserTokenService;
+
+  const user = { id: '507f1f77bcf86cd799439011', email: 'jane@example.com' };
+
+  const savedTokens: any[] = [];
+  const MockUserTokenModel = jest.fn().mockImplementation((doc) => ({
+    save: jest.fn().mockImplementation(() => {
+      savedTokens.push(doc);
+      return Promise.resolve(doc);
+    }),
+  })) as any;
+
+  const mockConfigService = {
+    get: jest.fn((key: string) =>
+      key === 'accountEmails.rateLimit' ? 3 : 3600000,
+    ),
+  };
+
+  const execResult = (value: any) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const sha256 = (value: string) =>
+    createHash('sha256').update(value).digest('hex');
+
+  beforeEach(async () => {
+    savedTokens.length = 0;
+    MockUserTokenModel.countDocuments = jest
+      .fn()
+      .mockReturnValue(execResult(0));
+    MockUserTokenModel.updateMany = jest
+      .fn()
+      .mockReturnValue(execResult({ modifiedCount: 0 }));
+    MockUserTokenModel.findOneAndUpdate = jest
+      .fn()
+      .mockReturnValue(execResult(null));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UserTokenService,
+        { provide: ConfigService, useValue: mockConfigService },
+        {
+          provide: getModelToken(UserToken.name),
+          useValue: MockUserTokenModel,
+        },
+      ],
+    }).compile();
+
+    service = module.get<UserTokenService>(UserTokenService);
+  });
+
+  describe('issue', () => {
+    it('should store only the hash and void earlier tokens', async () => {
+      const token = await service.issue(user, 'password_reset', 600000);
+
+      expect(token).toEqual(expect.any(String));
+      expect(savedTokens[0]).toMatchObject({
+        tokenHash: sha256(token),
+        purpose: 'password_reset',
+        userId: new Types.ObjectId(user.id),
+        email: user.email,
+      });
+      expect(JSON.stringify(savedTokens[0])).not.toContain(token);
+      expect(MockUserTokenModel.updateMany).toHaveBeenCalledWith(
+        {
+          userId: new Types.ObjectId(user.id),
+          purpose: 'password_reset',
+          usedAt: null,
+        },
+        { usedAt: expect.any(Date) },
+      );
+    });
+
+    it('should not issue more tokens than the rate limit allows', async () => {
+      MockUserTokenModel.countDocuments.mockReturnValue(execResult(3));
+
+      await expect(
+        service.issue(user, 'email_verification', 600000),
+      ).resolves.toBeNull();
+      expect(MockUserTokenModel.countDocuments).toHaveBeenCalledWith({
+        email: user.email,
+        purpose: 'email_verification',
+        createdAt: { $gt: expect.any(Date) },
+      });
+      expect(savedTokens).toHaveLength(0);
+    });
+  });
+
+  describe('consume', () => {
+    it('should only accept an unused, unexpired token of the purpose', async () => {
+      const record = { userId: new Types.ObjectId(user.id) };
+      MockUserTokenModel.findOneAndUpdate.mockReturnValue(execResult(record));
+
+      await expect(service.consume('token', 'password_reset')).resolves.toBe(
+        record,
+      );
+      expect(MockUserTokenModel.findOneAndUpdate).toHaveBeenCalledWith(
+        {
+          tokenHash: sha256('token'),
+          purpose: 'password_reset',
+          usedAt: null,
+          expiresAt: { $gt: expect.any(Date) },
+        },
+        { usedAt: expect.any(Date) },
+      );
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { createHash, randomBytes } from 'crypto';
+import { Model, Types } from 'mongoose';
+import {
+  UserToken,
+  UserTokenDocument,
+  UserTokenPurpose,
+} from '../../database/schemas/user-token.schema';
+
+@Injectable()
+export class UserTokenService {
+  constructor(
+    private configService: ConfigService,
+    @InjectModel(UserToken.name) private userTokenModel: Model<UserToken>,
+  ) {}
+
+  /**
+   * Creates a token for the current email address of a user, voiding the
+   * unused ones of the same purpose. Returns null when the address already got
+   * too many within the rate window.
+   */
+  async issue(
+    user: { id: string; email: string },
+    purpose: UserTokenPurpose,
+    ttlMs: number,
+  ): Promise<string | null> {
+    const now = new Date();
+    const rateWindowMs =
+      this.configService.get<number>('accountEmails.rateWindowMs') || 3600000;
+    const rateLimit =
+      this.configService.get<number>('accountEmails.rateLimit') || 3;
+
+    const recent = await this.userTokenModel
+      .countDocuments({
+        email: user.email,
+        purpose,
+        createdAt: { $gt: new Date(now.getTime() - rateWindowMs) },
+      })
+      .exec();
+    if (recent >= rateLimit) {
+      return null;
+    }
+
+    const userId = new Types.ObjectId(user.id);
+    await this.userTokenModel
+      .updateMany({ userId, purpose, usedAt: null }, { usedAt: now })
+      .exec();
+
+    const token = randomBytes(32).toString('base64url');
+    await new this.userTokenModel({
+      tokenHash: hashToken(token),
+      purpose,
+      userId,
+      email: user.email,
+      expiresAt: new Date(now.getTime() + ttlMs),
+    }).save();
+
+    return token;
+  }
+
+  /** Marks a token as used and returns it, or null if it can't be used. */
+  async consume(
+    token: string,
+    purpose: UserTokenPurpose,
+  ): Promise<UserTokenDocument | null> {
+    const now = new Date();
+
+    return this.userTokenModel
+      .findOneAndUpdate(
+        {
+          tokenHash: hashToken(token),
+          purpose,
+          usedAt: null,
+          expiresAt: { $gt: now },
+        },
+        { usedAt: now },
+      )
+      .exec();
+  }
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
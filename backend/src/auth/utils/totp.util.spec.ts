@@ -0,0 +1,55 @@
+import {
+  generateTotp,
+  generateTotpSecret,
+  totpStep,
+  totpUri,
+  verifyTotp,
+} from './totp.util';
+
+// The SHA-1 secret of the RFC 6238 test vectors, "12345678901234567890"
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('totp.util', () => {
+  it('should match the RFC 6238 test vectors', () => {
+    expect(generateTotp(RFC_SECRET, totpStep(59 * 1000))).toBe('287082');
+    expect(generateTotp(RFC_SECRET, totpStep(1111111109 * 1000))).toBe(
+      '081804',
+    );
+    expect(generateTotp(RFC_SECRET, totpStep(2000000000 * 1000))).toBe(
+      '279037',
+    );
+  });
+
+  it('should accept codes of the previous and next step only', () => {
+    const time = 1111111109 * 1000;
+    const step = totpStep(time);
+
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step), time)).toBe(
+      step,
+    );
+    expect(
+      verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), time),
+    ).toBe(step - 1);
+    expect(
+      verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), time),
+    ).toBe(step + 1);
+    expect(
+      verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), time),
+    ).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '12345', time)).toBeNull();
+  });
+
+  it('should generate base32 secrets of 160 bits', () => {
+    const secret = generateTotpSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(generateTotpSecret()).not.toBe(secret);
+    expect(generateTotp(secret, 1)).toMatch(/^\d{6}$/);
+  });
+
+  it('should build the URI of the enrollment QR code', () => {
+    expect(totpUri('Acme Inc', 'user@example.com', RFC_SECRET)).toBe(
+      `otpauth://totp/Acme%20Inc%3Auser%40example.com?secret=${RFC_SECRET}&issuer=Acme+Inc&algorithm=SHA1&digits=6&period=30`,
+    );
+  });
+});
@@ -0,0 +1,149 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Put,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { RequirePermission } from '../auth/decorators/permission.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionGuard } from '../auth/guards/permission.guard';
+import { AutoRepliesService } from './auto-replies.service';
+import { AutoReplyRuleResponseDto } from './dto/auto-reply-rule-response.dto';
+import { CreateAutoReplyRuleDto } from './dto/create-auto-reply-rule.dto';
+import { UpdateAutoReplyRuleDto } from './dto/update-auto-reply-rule.dto';
+
+@ApiTags('Auto-Replies')
+@Controller('auto-replies')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+@ApiBearerAuth()
+export class AutoRepliesController {
+  constructor(private readonly autoRepliesService: AutoRepliesService) {}
+
+  @Post()
+  @RequirePermission('canManageAutoReplies')
+  @ApiOperation({
+    summary: 'Create an auto-reply rule',
+    description:
+      'Messages received in one-to-one chats run the first active rule, by priority, whose conditions all match',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Auto-reply rule created successfully',
+    type: AutoReplyRuleResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - validation error, invalid pattern or assignee',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Template or webhook not found',
+  })
+  async create(
+    @Body() createAutoReplyRuleDto: CreateAutoReplyRuleDto,
+    @Request() req: any,
+  ): Promise<AutoReplyRuleResponseDto> {
+    return this.autoRepliesService.createRule(
+      createAutoReplyRuleDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+  }
+
+  @Get()
+  @RequirePermission('canManageAutoReplies')
+  @ApiOperation({
+    summary: 'List auto-reply rules in the order they are tried',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Auto-reply rules retrieved successfully',
+    type: [AutoReplyRuleResponseDto],
+  })
+  async findAll(@Request() req: any): Promise<AutoReplyRuleResponseDto[]> {
+    return this.autoRepliesService.findAllRules(req.user.tenantId);
+  }
+
+  @Get(':id')
+  @RequirePermission('canManageAutoReplies')
+  @ApiOperation({ summary: 'Get an auto-reply rule' })
+  @ApiParam({ name: 'id', description: 'Auto-reply rule ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Auto-reply rule retrieved successfully',
+    type: AutoReplyRuleResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Auto-reply rule not found',
+  })
+  async findOne(
+    @Param('id') id: string,
+    @Request() req: any,
+  ): Promise<AutoReplyRuleResponseDto> {
+    return this.autoRepliesService.findRuleById(id, req.user.tenantId);
+  }
+
+  @Put(':id')
+  @RequirePermission('canManageAutoReplies')
+  @ApiOperation({ summary: 'Update an auto-reply rule' })
+  @ApiParam({ name: 'id', description: 'Auto-reply rule ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Auto-reply rule updated successfully',
+    type: AutoReplyRuleResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - validation error, invalid pattern or assignee',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Auto-reply rule, template or webhook not found',
+  })
+  async update(
+    @Param('id') id: string,
+    @Body() updateAutoReplyRuleDto: UpdateAutoReplyRuleDto,
+    @Request() req: any,
+  ): Promise<AutoReplyRuleResponseDto> {
+    return this.autoRepliesService.updateRule(
+      id,
+      updateAutoReplyRuleDto,
+      req.user.tenantId,
+    );
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermission('canManageAutoReplies')
+  @ApiOperation({ summary: 'Delete an auto-reply rule' })
+  @ApiParam({ name: 'id', description: 'Auto-reply rule ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Auto-reply rule deleted successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Auto-reply rule not found',
+  })
+  async remove(
+    @Param('id') id: string,
+    @Request() req: any,
+  ): Promise<{ message: string }> {
+    return this.autoRepliesService.deleteRule(id, req.user.tenantId);
+  }
+}
@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { AutoRepliesController } from './auto-replies.controller';
+import { AutoRepliesService } from './auto-replies.service';
+import {
+  AutoReplyRule,
+  AutoReplyRuleSchema,
+} from '../database/schemas/auto-reply-rule.schema';
+import { Contact, ContactSchema } from '../database/schemas/contact.schema';
+import { BusinessHoursModule } from '../business-hours/business-hours.module';
+import { ConversationsModule } from '../conversations/conversations.module';
+import { TemplatesModule } from '../templates/templates.module';
+import { UsersModule } from '../users/users.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+import { WhatsAppModule } from '../whatsapp/whatsapp.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: AutoReplyRule.name, schema: AutoReplyRuleSchema },
+      { name: Contact.name, schema: ContactSchema },
+    ]),
+    WhatsAppModule,
+    ConversationsModule,
+    BusinessHoursModule,
+    TemplatesModule,
+    UsersModule,
+    WebhooksModule,
+  ],
+  controllers: [AutoRepliesController],
+  providers: [AutoRepliesService],
+})
+export class AutoRepliesModule {}
@@ -0,0 +1,487 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { AutoRepliesService } from './auto-replies.service';
+import { BusinessHoursService } from '../business-hours/business-hours.service';
+import { ConversationsService } from '../conversations/conversations.service';
+import { AutoReplyRule } from '../database/schemas/auto-reply-rule.schema';
+import { Contact } from '../database/schemas/contact.schema';
+import { ConversationDocument } from '../database/schemas/conversation.schema';
+import { MessageDocument } from '../database/schemas/message.schema';
+import { REDIS_CLIENT } from '../redis/redis.constants';
+import { TemplatesService } from '../templates/templates.service';
+import { UsersService } from '../users/users.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { InboundMessageService } from '../whatsapp/inbound-message.service';
+import { WhatsAppService } from '../whatsapp/whatsapp.service';
+
+describe('AutoRepliesService', () => {
+  let service: AutoRepliesService;
+
+  const tenantId = new Types.ObjectId('507f1f77bcf86cd799439012');
+  const deviceId = new Types.ObjectId('507f1f77bcf86cd799439011');
+  const userId = new Types.ObjectId('507f1f77bcf86cd799439013');
+  const agentId = new Types.ObjectId('507f1f77bcf86cd799439040');
+  const contactId = new Types.ObjectId('507f1f77bcf86cd799439030');
+  const webhookId = new Types.ObjectId('507f1f77bcf86cd799439050');
+
+  const execResult = (value: unknown) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+  const sortedResult = (value: unknown) => ({
+    sort: jest.fn().mockReturnValue(execResult(value)),
+  });
+
+  const MockAutoReplyRuleModel = Object.assign(
+    jest.fn().mockImplementation((data) => ({
+      ...data,
+      save: jest.fn().mockResolvedValue({
+        _id: new Types.ObjectId(),
+        triggerCount: 0,
+        ...data,
+      }),
+    })),
+    { find: jest.fn(), findOne: jest.fn(), updateOne: jest.fn() },
+  );
+  const mockContactModel = { updateOne: jest.fn() };
+  const mockRedis = { set: jest.fn() };
+  const mockInboundMessageService = { addHandler: jest.fn() };
+  const mockWhatsAppService = { sendMessage: jest.fn() };
+  const mockConversationsService = {
+    assignForAutoReply: jest.fn(),
+    isFirstInboundMessage: jest.fn(),
+  };
+  const mockBusinessHoursService = { isOpen: jest.fn() };
+  const mockTemplatesService = { findTemplateById: jest.fn() };
+  const mockUsersService = { findAgents: jest.fn() };
+  const mockWebhooksService = {
+    publish: jest.fn(),
+    findWebhookById: jest.fn(),
+  };
+
+  const rule = (overrides: object = {}) => ({
+    _id: new Types.ObjectId(),
+    name: 'Pricing',
+    conditions: {
+      keywords: [],
+      firstMessage: false,
+      outsideBusinessHours: false,
+      deviceIds: [],
+    },
+    actions: [{ type: 'reply', text: 'Our prices are online' }],
+    priority: 0,
+    cooldownMinutes: 60,
+    isActive: true,
+    createdBy: userId,
+    tenantId,
+    ...overrides,
+  });
+
+  const conversation = (overrides: object = {}) =>
+    ({
+      _id: new Types.ObjectId(),
+      tenantId,
+      deviceId,
+      remoteJid: '1234567890@s.whatsapp.net',
+      phoneNumber: '+1234567890',
+      isGroup: false,
+      contactId,
+      ...overrides,
+    }) as unknown as ConversationDocument;
+
+  const message = (overrides: object = {}) =>
+    ({
+      _id: new Types.ObjectId(),
+      tenantId,
+      deviceId,
+      direction: 'inbound',
+      messageType: 'text',
+      content: 'What is the price?',
+      sentAt: new Date('2024-01-15T20:00:00.000Z'),
+      ...overrides,
+    }) as unknown as MessageDocument;
+
+  const withRules = (...rules: object[]) =>
+    MockAutoReplyRuleModel.find.mockReturnValue(sortedResult(rules));
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    MockAutoReplyRuleModel.updateOne.mockReturnValue(execResult({}));
+    mockContactModel.updateOne.mockReturnValue(execResult({}));
+    mockRedis.set.mockResolvedValue('OK');
+    mockWhatsAppService.sendMessage.mockResolvedValue({});
+    mockConversationsService.assignForAutoReply.mockResolvedValue(true);
+    mockConversationsService.isFirstInboundMessage.mockResolvedValue(true);
+    mockBusinessHoursService.isOpen.mockResolvedValue(true);
+    mockUsersService.findAgents.mockResolvedValue([{ id: agentId.toString() }]);
+    mockWebhooksService.publish.mockResolvedValue(0);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AutoRepliesService,
+        {
+          provide: getModelToken(AutoReplyRule.name),
+          useValue: MockAutoReplyRuleModel,
+        },
+        { provide: getModelToken(Contact.name), useValue: mockContactModel },
+        { provide: REDIS_CLIENT, useValue: mockRedis },
+        {
+          provide: InboundMessageService,
+          useValue: mockInboundMessageService,
+        },
+        { provide: WhatsAppService, useValue: mockWhatsAppService },
+        { provide: ConversationsService, useValue: mockConversationsService },
+        { provide: BusinessHoursService, useValue: mockBusinessHoursService },
+        { provide: TemplatesService, useValue: mockTemplatesService },
+        { provide: UsersService, useValue: mockUsersService },
+        { provide: WebhooksService, useValue: mockWebhooksService },
+      ],
+    }).compile();
+
+    service = module.get<AutoRepliesService>(AutoRepliesService);
+  });
+
+  it('should handle inbound messages once the module is initialised', () => {
+    service.onModuleInit();
+
+    expect(mockInboundMessageService.addHandler).toHaveBeenCalledWith(service);
+  });
+
+  describe('createRule', () => {
+    it('should store only the fields each action uses', async () => {
+      const result = await service.createRule(
+        {
+          name: 'Pricing',
+          conditions: { keywords: ['price'] },
+          actions: [
+            { type: 'reply', text: 'Our prices are online', tags: ['x'] },
+            { type: 'assign', assigneeId: agentId.toString() },
+          ],
+        },
+        tenantId.toString(),
+        userId.toString(),
+      );
+
+      expect(MockAutoReplyRuleModel).toHaveBeenCalledWith(
+        expect.objectContaining({
+          conditions: {
+            keywords: ['price'],
+            pattern: undefined,
+            firstMessage: false,
+            outsideBusinessHours: false,
+            deviceIds: [],
+          },
+          actions: [
+            { type: 'reply', text: 'Our prices are online' },
+            { type: 'assign', assigneeId: agentId },
+          ],
+          cooldownMinutes: 60,
+          createdBy: userId,
+        }),
+      );
+      expect(result.actions[1].assigneeId).toBe(agentId.toString());
+    });
+
+    it('should reject invalid patterns', async () => {
+      await expect(
+        service.createRule(
+          {
+            name: 'Orders',
+            conditions: { pattern: '(order' },
+            actions: [{ type: 'reply', text: 'Thanks' }],
+          },
+          tenantId.toString(),
+          userId.toString(),
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject patterns that can backtrack catastrophically', async () => {
+      await expect(
+        service.createRule(
+          {
+            name: 'Orders',
+            conditions: { pattern: '^(a+)+$' },
+            actions: [{ type: 'reply', text: 'Thanks' }],
+          },
+          tenantId.toString(),
+          userId.toString(),
+        ),
+      ).rejects.toThrow('Pattern could take too long to match');
+    });
+
+    it('should reject assignees who cannot be assigned conversations', async () => {
+      await expect(
+        service.createRule(
+          {
+            name: 'Billing',
+            actions: [
+              { type: 'assign', assigneeId: new Types.ObjectId().toString() },
+            ],
+          },
+          tenantId.toString(),
+          userId.toString(),
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(MockAutoReplyRuleModel).not.toHaveBeenCalled();
+    });
+
+    it('should check that referenced webhooks exist', async () => {
+      mockWebhooksService.findWebhookById.mockRejectedValue(
+        new NotFoundException('Webhook not found'),
+      );
+
+      await expect(
+        service.createRule(
+          {
+            name: 'Notify CRM',
+            actions: [{ type: 'webhook', webhookId: webhookId.toString() }],
+          },
+          tenantId.toString(),
+          userId.toString(),
+        ),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('handleInboundMessage', () => {
+    it('should reply to keyword matches and publish the trigger', async () => {
+      const pricing = rule({
+        conditions: { ...rule().conditions, keywords: ['price'] },
+      });
+      withRules(pricing);
+      const inbound = message();
+      const chat = conversation();
+
+      await service.handleInboundMessage(inbound, chat);
+
+      expect(mockRedis.set).toHaveBeenCalledWith(
+        `auto-reply:cooldown:${pricing._id.toString()}:1234567890@s.whatsapp.net`,
+        inbound._id.toString(),
+        'PX',
+        60 * 60_000,
+        'NX',
+      );
+      expect(mockWhatsAppService.sendMessage).toHaveBeenCalledWith(
+        {
+          deviceId: deviceId.toString(),
+          phoneNumber: '+1234567890',
+          messageType: 'text',
+          content: 'Our prices are online',
+          transactional: true,
+        },
+        tenantId.toString(),
+        userId.toString(),
+        undefined,
+        { autoReplyRuleId: pricing._id.toString() },
+      );
+      expect(MockAutoReplyRuleModel.updateOne).toHaveBeenCalledWith(
+        { _id: pricing._id },
+        { $inc: { triggerCount: 1 }, lastTriggeredAt: expect.any(Date) },
+      );
+      expect(mockWebhooksService.publish).toHaveBeenCalledWith(
+        tenantId,
+        'auto_reply.triggered',
+        expect.objectContaining({
+          ruleId: pricing._id.toString(),
+          conversationId: chat._id.toString(),
+          messageId: inbound._id.toString(),
+          actions: ['reply'],
+        }),
+        [],
+      );
+    });
+
+    it('should only match keywords as whole words', async () => {
+      withRules(
+        rule({ conditions: { ...rule().conditions, keywords: ['hi'] } }),
+      );
+
+      await service.handleInboundMessage(
+        message({ content: 'This is it' }),
+        conversation(),
+      );
+      expect(mockWhatsAppService.sendMessage).not.toHaveBeenCalled();
+
+      await service.handleInboundMessage(
+        message({ content: 'Hi, anyone there?' }),
+        conversation(),
+      );
+      expect(mockWhatsAppService.sendMessage).toHaveBeenCalled();
+    });
+
+    it('should match patterns against media captions', async () => {
+      withRules(
+        rule({
+          conditions: { ...rule().conditions, pattern: '^order\\s+#?\\d+' },
+        }),
+      );
+
+      await service.handleInboundMessage(
+        message({ messageType: 'image', content: '', caption: 'Order #1001' }),
+        conversation(),
+      );
+
+      expect(mockWhatsAppService.sendMessage).toHaveBeenCalled();
+    });
+
+    it('should skip unsafe stored patterns and match only the start of long texts', async () => {
+      withRules(
+        rule({ conditions: { ...rule().conditions, pattern: '^(a+)+$' } }),
+        rule({ conditions: { ...rule().conditions, pattern: 'order' } }),
+      );
+
+      await service.handleInboundMessage(
+        message({ content: `${'a'.repeat(1000)} order` }),
+        conversation(),
+      );
+
+      expect(mockWhatsAppService.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should run only the first matching rule by priority', async () => {
+      const otherDevice = rule({
+        conditions: { ...rule().conditions, deviceIds: [new Types.ObjectId()] },
+      });
+      const first = rule({ actions: [{ type: 'tag', tags: ['lead'] }] });
+      const catchAll = rule();
+      withRules(otherDevice, first, catchAll);
+
+      await service.handleInboundMessage(message(), conversation());
+
+      expect(mockContactModel.updateOne).toHaveBeenCalledWith(
+        { _id: contactId },
+        { $addToSet: { tags: { $each: ['lead'] } } },
+      );
+      expect(mockWhatsAppService.sendMessage).not.toHaveBeenCalled();
+      expect(mockRedis.set).toHaveBeenCalledTimes(1);
+    });
+
+    it('should do nothing while the rule is cooling down for the contact', async () => {
+      withRules(rule(), rule({ actions: [{ type: 'tag', tags: ['lead'] }] }));
+      mockRedis.set.mockResolvedValue(null);
+
+      await service.handleInboundMessage(message(), conversation());
+
+      expect(mockWhatsAppService.sendMessage).not.toHaveBeenCalled();
+      expect(mockContactModel.updateOne).not.toHaveBeenCalled();
+      expect(mockWebhooksService.publish).not.toHaveBeenCalled();
+    });
+
+    it('should only match the first message of a conversation', async () => {
+      withRules(
+        rule({ conditions: { ...rule().conditions, firstMessage: true } }),
+      );
+      mockConversationsService.isFirstInboundMessage.mockResolvedValue(false);
+      const chat = conversation();
+
+      await service.handleInboundMessage(message(), chat);
+
+      expect(
+        mockConversationsService.isFirstInboundMessage,
+      ).toHaveBeenCalledWith(chat);
+      expect(mockWhatsAppService.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should match outside the business hours of the device', async () => {
+      withRules(
+        rule({
+          conditions: { ...rule().conditions, outsideBusinessHours: true },
+        }),
+      );
+      const inbound = message();
+
+      await service.handleInboundMessage(inbound, conversation());
+      expect(mockBusinessHoursService.isOpen).toHaveBeenCalledWith(
+        tenantId,
+        deviceId,
+        inbound.sentAt,
+      );
+      expect(mockWhatsAppService.sendMessage).not.toHaveBeenCalled();
+
+      mockBusinessHoursService.isOpen.mockResolvedValue(false);
+      await service.handleInboundMessage(message(), conversation());
+      expect(mockWhatsAppService.sendMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reply with templates, assign and notify the chosen webhook', async () => {
+      const templateId = new Types.ObjectId();
+      const combined = rule({
+        actions: [
+          { type: 'reply', templateId },
+          { type: 'assign', assigneeId: agentId },
+          { type: 'webhook', webhookId },
+        ],
+      });
+      withRules(combined);
+      const chat = conversation();
+
+      await service.handleInboundMessage(message(), chat);
+
+      expect(mockWhatsAppService.sendMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ templateId: templateId.toString() }),
+        tenantId.toString(),
+        userId.toString(),
+        undefined,
+        { autoReplyRuleId: combined._id.toString() },
+      );
+      expect(mockConversationsService.assignForAutoReply).toHaveBeenCalledWith(
+        chat,
+        agentId,
+        combined._id,
+      );
+      expect(mockWebhooksService.publish).toHaveBeenCalledWith(
+        tenantId,
+        'auto_reply.triggered',
+        expect.objectContaining({ actions: ['reply', 'assign', 'webhook'] }),
+        [webhookId],
+      );
+    });
+
+    it('should run the remaining actions when one fails', async () => {
+      withRules(
+        rule({
+          actions: [
+            { type: 'reply', text: 'Thanks' },
+            { type: 'tag', tags: ['lead'] },
+          ],
+        }),
+      );
+      mockWhatsAppService.sendMessage.mockRejectedValue(
+        new BadRequestException('Device is not connected'),
+      );
+
+      await service.handleInboundMessage(message(), conversation());
+
+      expect(mockContactModel.updateOne).toHaveBeenCalled();
+      expect(mockWebhooksService.publish).toHaveBeenCalled();
+    });
+
+    it('should not assign to users who lost the permission', async () => {
+      withRules(
+        rule({
+          actions: [{ type: 'assign', assigneeId: new Types.ObjectId() }],
+        }),
+      );
+
+      await service.handleInboundMessage(message(), conversation());
+
+      expect(
+        mockConversationsService.assignForAutoReply,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should ignore group chats', async () => {
+      withRules(rule());
+
+      await service.handleInboundMessage(
+        message(),
+        conversation({ isGroup: true }),
+      );
+
+      expect(MockAutoReplyRuleModel.find).not.toHaveBeenCalled();
+      expect(mockWhatsAppService.sendMessage).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,506 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import Redis from 'ioredis';
+import { Model, Types } from 'mongoose';
+import { BusinessHoursService } from '../business-hours/business-hours.service';
+import { escapeRegExp, findPatternHazard } from '../common/utils/regexp.util';
+import { ConversationsService } from '../conversations/conversations.service';
+import {
+  AutoReplyAction,
+  AutoReplyConditions,
+  AutoReplyRule,
+  AutoReplyRuleDocument,
+} from '../database/schemas/auto-reply-rule.schema';
+import { Contact } from '../database/schemas/contact.schema';
+import { ConversationDocument } from '../database/schemas/conversation.schema';
+import { MessageDocument } from '../database/schemas/message.schema';
+import { REDIS_CLIENT } from '../redis/redis.constants';
+import { TemplatesService } from '../templates/templates.service';
+import { UsersService } from '../users/users.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { MessageType, SendMessageDto } from '../whatsapp/dto/send-message.dto';
+import { InboundMessageService } from '../whatsapp/inbound-message.service';
+import { InboundMessageHandler } from '../whatsapp/interfaces/inbound-message-handler.interface';
+import { jidToPhoneNumber } from '../whatsapp/utils/jid.util';
+import { WhatsAppService } from '../whatsapp/whatsapp.service';
+import { AutoReplyRuleResponseDto } from './dto/auto-reply-rule-response.dto';
+import {
+  AutoReplyActionDto,
+  AutoReplyConditionsDto,
+  CreateAutoReplyRuleDto,
+} from './dto/create-auto-reply-rule.dto';
+import { UpdateAutoReplyRuleDto } from './dto/update-auto-reply-rule.dto';
+
+const COOLDOWN_KEY_PREFIX = 'auto-reply:cooldown';
+// Only the start of long messages is matched, bounding the cost of patterns
+const MAX_MATCHED_TEXT_LENGTH = 1000;
+
+// Facts about a message that need a lookup, loaded once per message
+interface MatchFacts {
+  isFirstMessage: () => Promise<boolean>;
+  isOutsideBusinessHours: () => Promise<boolean>;
+}
+
+@Injectable()
+export class AutoRepliesService implements InboundMessageHandler, OnModuleInit {
+  private readonly logger = new Logger(AutoRepliesService.name);
+
+  constructor(
+    @InjectModel(AutoReplyRule.name)
+    private autoReplyRuleModel: Model<AutoReplyRule>,
+    @InjectModel(Contact.name) private contactModel: Model<Contact>,
+    @Inject(REDIS_CLIENT) private readonly redis: Redis,
+    private inboundMessageService: InboundMessageService,
+    private whatsAppService: WhatsAppService,
+    private conversationsService: ConversationsService,
+    private businessHoursService: BusinessHoursService,
+    private templatesService: TemplatesService,
+    private usersService: UsersService,
+    private webhooksService: WebhooksService,
+  ) {}
+
+  onModuleInit(): void {
+    this.inboundMessageService.addHandler(this);
+  }
+
+  async createRule(
+    createAutoReplyRuleDto: CreateAutoReplyRuleDto,
+    tenantId: string,
+    createdBy: string,
+  ): Promise<AutoReplyRuleResponseDto> {
+    await this.validateRule(createAutoReplyRuleDto, tenantId);
+
+    const newRule = new this.autoReplyRuleModel({
+      name: createAutoReplyRuleDto.name,
+      conditions: toConditions(createAutoReplyRuleDto.conditions),
+      actions: toActions(createAutoReplyRuleDto.actions),
+      priority: createAutoReplyRuleDto.priority ?? 0,
+      cooldownMinutes: createAutoReplyRuleDto.cooldownMinutes ?? 60,
+      isActive: createAutoReplyRuleDto.isActive ?? true,
+      createdBy: new Types.ObjectId(createdBy),
+      tenantId: new Types.ObjectId(tenantId),
+      isDeleted: false,
+    });
+
+    return this.mapToAutoReplyRuleResponse(await newRule.save());
+  }
+
+  async findAllRules(tenantId: string): Promise<AutoReplyRuleResponseDto[]> {
+    const rules = await this.autoReplyRuleModel
+      .find({ tenantId: new Types.ObjectId(tenantId), isDeleted: false })
+      .sort({ priority: 1, createdAt: 1 })
+      .exec();
+
+    return rules.map((rule) => this.mapToAutoReplyRuleResponse(rule));
+  }
+
+  async findRuleById(
+    id: string,
+    tenantId: string,
+  ): Promise<AutoReplyRuleResponseDto> {
+    return this.mapToAutoReplyRuleResponse(await this.findRule(id, tenantId));
+  }
+
+  async updateRule(
+    id: string,
+    updateAutoReplyRuleDto: UpdateAutoReplyRuleDto,
+    tenantId: string,
+  ): Promise<AutoReplyRuleResponseDto> {
+    const rule = await this.findRule(id, tenantId);
+    await this.validateRule(updateAutoReplyRuleDto, tenantId);
+
+    const updatedRule = await this.autoReplyRuleModel
+      .findByIdAndUpdate(
+        rule._id,
+        {
+          ...updateAutoReplyRuleDto,
+          ...(updateAutoReplyRuleDto.conditions && {
+            conditions: toConditions(updateAutoReplyRuleDto.conditions),
+          }),
+          ...(updateAutoReplyRuleDto.actions && {
+            actions: toActions(updateAutoReplyRuleDto.actions),
+          }),
+        },
+        { new: true },
+      )
+      .exec();
+
+    return this.mapToAutoReplyRuleResponse(updatedRule);
+  }
+
+  async deleteRule(id: string, tenantId: string): Promise<{ message: string }> {
+    const rule = await this.findRule(id, tenantId);
+    await this.autoReplyRuleModel
+      .updateOne({ _id: rule._id }, { isDeleted: true, isActive: false })
+      .exec();
+
+    return { message: 'Auto-reply rule deleted successfully' };
+  }
+
+  /**
+   * Runs the first active rule, by priority, that matches a message received
+   * in a one-to-one chat. While that rule is cooling down for the contact
+   * the message gets no automatic response, lower rules are not tried.
+   */
+  async handleInboundMessage(
+    message: MessageDocument,
+    conversation: ConversationDocument | null,
+  ): Promise<void> {
+    if (!conversation || conversation.isGroup) {
+      return;
+    }
+
+    const rules = await this.autoReplyRuleModel
+      .find({ tenantId: message.tenantId, isActive: true, isDeleted: false })
+      .sort({ priority: 1, createdAt: 1 })
+      .exec();
+    if (!rules.length) {
+      return;
+    }
+
+    const facts: MatchFacts = {
+      isFirstMessage: once(() =>
+        this.conversationsService.isFirstInboundMessage(conversation),
+      ),
+      isOutsideBusinessHours: once(
+        async () =>
+          !(await this.businessHoursService.isOpen(
+            message.tenantId,
+            message.deviceId,
+            message.sentAt,
+          )),
+      ),
+    };
+
+    for (const rule of rules) {
+      if (await this.matches(rule.conditions, message, facts)) {
+        await this.trigger(rule, message, conversation);
+        return;
+      }
+    }
+  }
+
+  private async matches(
+    conditions: AutoReplyConditions,
+    message: MessageDocument,
+    facts: MatchFacts,
+  ): Promise<boolean> {
+    const text = (
+      (message.messageType === 'text' ? message.content : message.caption) || ''
+    ).slice(0, MAX_MATCHED_TEXT_LENGTH);
+
+    if (
+      conditions.deviceIds?.length &&
+      !conditions.deviceIds.some((deviceId) =>
+        deviceId.equals(message.deviceId),
+      )
+    ) {
+      return false;
+    }
+    if (
+      conditions.keywords?.length &&
+      !conditions.keywords.some((keyword) => keywordPattern(keyword).test(text))
+    ) {
+      return false;
+    }
+    if (
+      conditions.pattern &&
+      // Rules saved before patterns were checked may still hold unsafe ones
+      (findPatternHazard(conditions.pattern) !== null ||
+        !new RegExp(conditions.pattern, 'i').test(text))
+    ) {
+      return false;
+    }
+    if (conditions.firstMessage && !(await facts.isFirstMessage())) {
+      return false;
+    }
+    if (
+      conditions.outsideBusinessHours &&
+      !(await facts.isOutsideBusinessHours())
+    ) {
+      return false;
+    }
+
+    return true;
+  }
+
+  private async trigger(
+    rule: AutoReplyRuleDocument,
+    message: MessageDocument,
+    conversation: ConversationDocument,
+  ): Promise<void> {
+    // Claimed before running so concurrent messages trigger the rule once
+    const cooldown = await this.redis.set(
+      `${COOLDOWN_KEY_PREFIX}:${rule._id.toString()}:${conversation.remoteJid}`,
+      message._id.toString(),
+      'PX',
+      rule.cooldownMinutes * 60_000,
+      'NX',
+    );
+    if (!cooldown) {
+      this.logger.debug(
+        `Auto-reply rule ${rule._id.toString()} is cooling down for ${conversation.remoteJid}`,
+      );
+      return;
+    }
+
+    for (const action of rule.actions) {
+      try {
+        await this.runAction(action, rule, conversation);
+      } catch (error) {
+        this.logger.warn(
+          `Auto-reply rule ${rule._id.toString()} failed to ${action.type} for message ${message._id.toString()}: ${error.message}`,
+        );
+      }
+    }
+
+    await this.autoReplyRuleModel
+      .updateOne(
+        { _id: rule._id },
+        { $inc: { triggerCount: 1 }, lastTriggeredAt: new Date() },
+      )
+      .exec();
+
+    await this.webhooksService.publish(
+      message.tenantId,
+      'auto_reply.triggered',
+      {
+        ruleId: rule._id.toString(),
+        ruleName: rule.name,
+        conversationId: conversation._id.toString(),
+        messageId: message._id.toString(),
+        deviceId: message.deviceId.toString(),
+        remoteJid: conversation.remoteJid,
+        actions: rule.actions.map((action) => action.type),
+      },
+      rule.actions
+        .filter((action) => action.type === 'webhook')
+        .map((action) => action.webhookId),
+    );
+  }
+
+  private async runAction(
+    action: AutoReplyAction,
+    rule: AutoReplyRuleDocument,
+    conversation: ConversationDocument,
+  ): Promise<void> {
+    switch (action.type) {
+      case 'reply':
+        await this.whatsAppService.sendMessage(
+          {
+            deviceId: conversation.deviceId.toString(),
+            phoneNumber:
+              conversation.phoneNumber ||
+              jidToPhoneNumber(conversation.remoteJid),
+            ...(action.templateId
+              ? { templateId: action.templateId.toString() }
+              : { messageType: MessageType.TEXT, content: action.text }),
+            transactional: true, // Answers the contact
+          } as SendMessageDto,
+          rule.tenantId.toString(),
+          rule.createdBy.toString(),
+          undefined,
+          { autoReplyRuleId: rule._id.toString() },
+        );
+        return;
+
+      case 'tag':
+        if (!conversation.contactId) {
+          this.logger.debug(
+            `Not tagging ${conversation.remoteJid}, it is not saved as a contact`,
+          );
+          return;
+        }
+        await this.contactModel
+          .updateOne(
+            { _id: conversation.contactId },
+            { $addToSet: { tags: { $each: action.tags } } },
+          )
+          .exec();
+        return;
+
+      case 'assign': {
+        // The user may have lost the permission since the rule was saved
+        const agents = await this.usersService.findAgents(
+          rule.tenantId.toString(),
+        );
+        if (!agents.some((agent) => action.assigneeId.equals(agent.id))) {
+          throw new Error('User cannot be assigned conversations');
+        }
+        await this.conversationsService.assignForAutoReply(
+          conversation,
+          action.assigneeId,
+          rule._id,
+        );
+        return;
+      }
+
+      case 'webhook':
+        // Delivered with the auto_reply.triggered event once all actions ran
+        return;
+    }
+  }
+
+  // Rejects references the rule could never use
+  private async validateRule(
+    ruleDto: CreateAutoReplyRuleDto | UpdateAutoReplyRuleDto,
+    tenantId: string,
+  ): Promise<void> {
+    const pattern = ruleDto.conditions?.pattern;
+    if (pattern) {
+      try {
+        new RegExp(pattern, 'i');
+      } catch {
+        throw new BadRequestException(`Invalid pattern: ${pattern}`);
+      }
+      const hazard = findPatternHazard(pattern);
+      if (hazard) {
+        throw new BadRequestException(
+          `Pattern could take too long to match: ${hazard}`,
+        );
+      }
+    }
+
+    const actions = ruleDto.actions ?? [];
+    for (const action of actions) {
+      if (action.type === 'reply' && action.templateId) {
+        await this.templatesService.findTemplateById(
+          action.templateId,
+          tenantId,
+        );
+      }
+      if (action.type === 'webhook') {
+        await this.webhooksService.findWebhookById(action.webhookId, tenantId);
+      }
+    }
+
+    const assigneeIds = actions
+      .filter((action) => action.type === 'assign')
+      .map((action) => action.assigneeId);
+    if (assigneeIds.length) {
+      const agents = await this.usersService.findAgents(tenantId);
+      const invalid = assigneeIds.filter(
+        (assigneeId) => !agents.some((agent) => agent.id === assigneeId),
+      );
+      if (invalid.length) {
+        throw new BadRequestException(
+          `Users cannot be assigned conversations: ${invalid.join(', ')}`,
+        );
+      }
+    }
+  }
+
+  private async findRule(
+    id: string,
+    tenantId: string,
+  ): Promise<AutoReplyRuleDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Auto-reply rule not found');
+    }
+
+    const rule = await this.autoReplyRuleModel
+      .findOne({
+        _id: new Types.ObjectId(id),
+        tenantId: new Types.ObjectId(tenantId),
+        isDeleted: false,
+      })
+      .exec();
+
+    if (!rule) {
+      throw new NotFoundException('Auto-reply rule not found');
+    }
+
+    return rule;
+  }
+
+  private mapToAutoReplyRuleResponse(
+    rule: AutoReplyRuleDocument,
+  ): AutoReplyRuleResponseDto {
+    return {
+      id: rule._id.toString(),
+      name: rule.name,
+      conditions: {
+        keywords: rule.conditions.keywords,
+        pattern: rule.conditions.pattern,
+        firstMessage: rule.conditions.firstMessage,
+        outsideBusinessHours: rule.conditions.outsideBusinessHours,
+        deviceIds: rule.conditions.deviceIds.map((deviceId) =>
+          deviceId.toString(),
+        ),
+      },
+      actions: rule.actions.map((action) => ({
+        type: action.type,
+        text: action.text,
+        templateId: action.templateId?.toString(),
+        tags: action.tags,
+        assigneeId: action.assigneeId?.toString(),
+        webhookId: action.webhookId?.toString(),
+      })),
+      priority: rule.priority,
+      cooldownMinutes: rule.cooldownMinutes,
+      isActive: rule.isActive,
+      triggerCount: rule.triggerCount,
+      lastTriggeredAt: rule.lastTriggeredAt,
+      createdAt: (rule as any).createdAt,
+      updatedAt: (rule as any).updatedAt,
+    };
+  }
+}
+
+function toConditions(
+  conditions: AutoReplyConditionsDto = {},
+): AutoReplyConditions {
+  return {
+    keywords: conditions.keywords ?? [],
+    pattern: conditions.pattern || undefined,
+    firstMessage: conditions.firstMessage ?? false,
+    outsideBusinessHours: conditions.outsideBusinessHours ?? false,
+    deviceIds: (conditions.deviceIds ?? []).map(
+      (deviceId) => new Types.ObjectId(deviceId),
+    ),
+  };
+}
+
+// Keeps only the fields the action type uses
+function toActions(actions: AutoReplyActionDto[]): AutoReplyAction[] {
+  return actions.map((action) => {
+    switch (action.type) {
+      case 'reply':
+        return action.templateId
+          ? { type: 'reply', templateId: new Types.ObjectId(action.templateId) }
+          : { type: 'reply', text: action.text };
+      case 'tag':
+        return { type: 'tag', tags: action.tags };
+      case 'assign':
+        return {
+          type: 'assign',
+          assigneeId: new Types.ObjectId(action.assigneeId),
+        };
+      case 'webhook':
+        return {
+          type: 'webhook',
+          webhookId: new Types.ObjectId(action.webhookId),
+        };
+    }
+  });
+}
+
+// Whole words only, so "hi" does not match "this"
+function keywordPattern(keyword: string): RegExp {
+  return new RegExp(
+    `(?<![\\p{L}\\p{N}])${escapeRegExp(keyword.trim())}(?![\\p{L}\\p{N}])`,
+    'iu',
+  );
+}
+
+function once<T>(load: () => Promise<T>): () => Promise<T> {
+  let result: Promise<T> | undefined;
+  return () => (result ??= load());
+}
@@ -0,0 +1,102 @@
+import { ApiProperty } from '@nestjs/swagger';
+import type { AutoReplyActionType } from '../../database/schemas/auto-reply-rule.schema';
+
+export class AutoReplyConditionsResponseDto {
+  @ApiProperty({ example: ['price', 'pricing'] })
+  keywords: string[];
+
+  @ApiProperty({ example: '^order\\s+#?\\d+', required: false })
+  pattern?: string;
+
+  @ApiProperty({ example: false })
+  firstMessage: boolean;
+
+  @ApiProperty({ example: false })
+  outsideBusinessHours: boolean;
+
+  @ApiProperty({ example: ['507f1f77bcf86cd799439012'] })
+  deviceIds: string[];
+}
+
+export class AutoReplyActionResponseDto {
+  @ApiProperty({
+    enum: ['reply', 'tag', 'assign', 'webhook'],
+    example: 'reply',
+  })
+  type: AutoReplyActionType;
+
+  @ApiProperty({ example: 'Thanks for your message!', required: false })
+  text?: string;
+
+  @ApiProperty({ example: '507f1f77bcf86cd799439016', required: false })
+  templateId?: string;
+
+  @ApiProperty({ example: ['lead'], required: false })
+  tags?: string[];
+
+  @ApiProperty({ example: '507f1f77bcf86cd799439011', required: false })
+  assigneeId?: string;
+
+  @ApiProperty({ example: '507f1f77bcf86cd799439017', required: false })
+  webhookId?: string;
+}
+
+export class AutoReplyRuleResponseDto {
+  @ApiProperty({
+    description: 'Auto-reply rule ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  id: string;
+
+  @ApiProperty({ description: 'Rule name', example: 'Pricing questions' })
+  name: string;
+
+  @ApiProperty({
+    description: 'Conditions that must all match',
+    type: AutoReplyConditionsResponseDto,
+  })
+  conditions: AutoReplyConditionsResponseDto;
+
+  @ApiProperty({
+    description: 'Actions run in order when the rule matches',
+    type: [AutoReplyActionResponseDto],
+  })
+  actions: AutoReplyActionResponseDto[];
+
+  @ApiProperty({
+    description: 'Rules with lower numbers are tried first',
+    example: 0,
+  })
+  priority: number;
+
+  @ApiProperty({
+    description: 'Minutes before the rule runs again for the same contact',
+    example: 60,
+  })
+  cooldownMinutes: number;
+
+  @ApiProperty({ description: 'Whether the rule is applied', example: true })
+  isActive: boolean;
+
+  @ApiProperty({ description: 'How often the rule ran', example: 12 })
+  triggerCount: number;
+
+  @ApiProperty({
+    description: 'When the rule last ran',
+    example: '2023-01-01T00:00:00.000Z',
+    required: false,
+  })
+  lastTriggeredAt?: Date;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2023-01-01T00:00:00.000Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Last update timestamp',
+    example: '2023-01-01T00:00:00.000Z',
+  })
+  updatedAt: Date;
+}
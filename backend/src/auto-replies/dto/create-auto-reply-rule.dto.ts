@@ -0,0 +1,204 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsMongoId,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import type { AutoReplyActionType } from '../../database/schemas/auto-reply-rule.schema';
+
+export class AutoReplyConditionsDto {
+  @ApiProperty({
+    description:
+      'Match messages containing any of these words, case-insensitive',
+    example: ['price', 'pricing'],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray({ message: 'Keywords must be an array' })
+  @IsString({ each: true, message: 'Each keyword must be a string' })
+  @IsNotEmpty({ each: true, message: 'Keywords cannot be empty' })
+  keywords?: string[];
+
+  @ApiProperty({
+    description:
+      'Match messages against this regular expression, case-insensitive',
+    example: '^order\\s+#?\\d+',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'Pattern must be a string' })
+  @MaxLength(200, { message: 'Pattern must not exceed 200 characters' })
+  pattern?: string;
+
+  @ApiProperty({
+    description: 'Only match the first message a contact sends on a device',
+    example: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'firstMessage must be a boolean' })
+  firstMessage?: boolean;
+
+  @ApiProperty({
+    description: 'Only match messages received outside the business hours',
+    example: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'outsideBusinessHours must be a boolean' })
+  outsideBusinessHours?: boolean;
+
+  @ApiProperty({
+    description: 'Only match messages received on these devices',
+    example: ['507f1f77bcf86cd799439012'],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray({ message: 'Device IDs must be an array' })
+  @IsMongoId({ each: true, message: 'Each device ID must be a valid ID' })
+  deviceIds?: string[];
+}
+
+export class AutoReplyActionDto {
+  @ApiProperty({
+    description: 'What the action does',
+    enum: ['reply', 'tag', 'assign', 'webhook'],
+    example: 'reply',
+  })
+  @IsEnum(['reply', 'tag', 'assign', 'webhook'], {
+    message: 'Action type must be reply, tag, assign or webhook',
+  })
+  type: AutoReplyActionType;
+
+  @ApiProperty({
+    description: 'Reply text (for reply actions without a template)',
+    example: 'Thanks for your message! Our prices are at https://example.com',
+    required: false,
+  })
+  @ValidateIf((action) => action.type === 'reply' && !action.templateId)
+  @IsString({ message: 'Text must be a string' })
+  @IsNotEmpty({ message: 'Text or template ID is required for replies' })
+  @MaxLength(4096, { message: 'Text must not exceed 4096 characters' })
+  text?: string;
+
+  @ApiProperty({
+    description:
+      'Template to reply with, filled from the fields of the contact (for reply actions)',
+    example: '507f1f77bcf86cd799439016',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId({ message: 'Template ID must be a valid ID' })
+  templateId?: string;
+
+  @ApiProperty({
+    description: 'Tags added to the contact (for tag actions)',
+    example: ['lead'],
+    required: false,
+  })
+  @ValidateIf((action) => action.type === 'tag')
+  @IsArray({ message: 'Tags must be an array' })
+  @ArrayNotEmpty({ message: 'At least one tag is required' })
+  @IsString({ each: true, message: 'Each tag must be a string' })
+  tags?: string[];
+
+  @ApiProperty({
+    description: 'User the conversation is assigned to (for assign actions)',
+    example: '507f1f77bcf86cd799439011',
+    required: false,
+  })
+  @ValidateIf((action) => action.type === 'assign')
+  @IsMongoId({ message: 'Assignee ID must be a valid ID' })
+  assigneeId?: string;
+
+  @ApiProperty({
+    description:
+      'Webhook the auto_reply.triggered event is delivered to (for webhook actions)',
+    example: '507f1f77bcf86cd799439017',
+    required: false,
+  })
+  @ValidateIf((action) => action.type === 'webhook')
+  @IsMongoId({ message: 'Webhook ID must be a valid ID' })
+  webhookId?: string;
+}
+
+export class CreateAutoReplyRuleDto {
+  @ApiProperty({
+    description: 'Rule name',
+    example: 'Pricing questions',
+  })
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name is required' })
+  @MaxLength(100, { message: 'Name must not exceed 100 characters' })
+  name: string;
+
+  @ApiProperty({
+    description:
+      'Conditions that must all match. Without conditions the rule matches every message',
+    type: AutoReplyConditionsDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AutoReplyConditionsDto)
+  conditions?: AutoReplyConditionsDto;
+
+  @ApiProperty({
+    description: 'Actions run in order when the rule matches',
+    type: [AutoReplyActionDto],
+  })
+  @IsArray({ message: 'Actions must be an array' })
+  @ArrayNotEmpty({ message: 'At least one action is required' })
+  @ArrayMaxSize(10, { message: 'A rule can have at most 10 actions' })
+  @ValidateNested({ each: true })
+  @Type(() => AutoReplyActionDto)
+  actions: AutoReplyActionDto[];
+
+  @ApiProperty({
+    description: 'Rules with lower numbers are tried first',
+    example: 0,
+    default: 0,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'Priority must be a number' })
+  priority?: number;
+
+  @ApiProperty({
+    description:
+      'Minutes before the rule runs again for the same contact, so bots replying to each other do not loop',
+    example: 60,
+    default: 60,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Cooldown must be an integer' })
+  @Min(1, { message: 'Cooldown must be at least 1 minute' })
+  @Max(10080, { message: 'Cooldown cannot exceed one week' })
+  cooldownMinutes?: number;
+
+  @ApiProperty({
+    description: 'Whether the rule is applied',
+    example: true,
+    default: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'isActive must be a boolean' })
+  isActive?: boolean;
+}
@@ -0,0 +1,87 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import {
+  AutoReplyActionDto,
+  AutoReplyConditionsDto,
+} from './create-auto-reply-rule.dto';
+
+export class UpdateAutoReplyRuleDto {
+  @ApiProperty({
+    description: 'Rule name',
+    example: 'Pricing questions',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name cannot be empty' })
+  @MaxLength(100, { message: 'Name must not exceed 100 characters' })
+  name?: string;
+
+  @ApiProperty({
+    description: 'Conditions that must all match, replaces the current ones',
+    type: AutoReplyConditionsDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AutoReplyConditionsDto)
+  conditions?: AutoReplyConditionsDto;
+
+  @ApiProperty({
+    description: 'Actions run in order, replaces the current ones',
+    type: [AutoReplyActionDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray({ message: 'Actions must be an array' })
+  @ArrayNotEmpty({ message: 'At least one action is required' })
+  @ArrayMaxSize(10, { message: 'A rule can have at most 10 actions' })
+  @ValidateNested({ each: true })
+  @Type(() => AutoReplyActionDto)
+  actions?: AutoReplyActionDto[];
+
+  @ApiProperty({
+    description: 'Rules with lower numbers are tried first',
+    example: 0,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'Priority must be a number' })
+  priority?: number;
+
+  @ApiProperty({
+    description: 'Minutes before the rule runs again for the same contact',
+    example: 60,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Cooldown must be an integer' })
+  @Min(1, { message: 'Cooldown must be at least 1 minute' })
+  @Max(10080, { message: 'Cooldown cannot exceed one week' })
+  cooldownMinutes?: number;
+
+  @ApiProperty({
+    description: 'Whether the rule is applied',
+    example: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'isActive must be a boolean' })
+  isActive?: boolean;
+}
@@ -0,0 +1,168 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Put,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { RequirePermission } from '../auth/decorators/permission.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionGuard } from '../auth/guards/permission.guard';
+import { BusinessHoursService } from './business-hours.service';
+import {
+  BusinessHoursPreviewResponseDto,
+  BusinessHoursSettingsResponseDto,
+  DeviceBusinessHoursResponseDto,
+} from './dto/business-hours-settings-response.dto';
+import { PreviewBusinessHoursDto } from './dto/preview-business-hours.dto';
+import { UpdateBusinessHoursSettingsDto } from './dto/update-business-hours-settings.dto';
+import { UpdateDeviceBusinessHoursDto } from './dto/update-device-business-hours.dto';
+
+@ApiTags('Business Hours')
+@Controller('business-hours')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+@ApiBearerAuth()
+export class BusinessHoursController {
+  constructor(private readonly businessHoursService: BusinessHoursService) {}
+
+  @Get()
+  @RequirePermission('canViewLogs')
+  @ApiOperation({
+    summary: 'Get the business hours, holidays and automatic messages',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Settings retrieved successfully',
+    type: BusinessHoursSettingsResponseDto,
+  })
+  async getSettings(
+    @Request() req: any,
+  ): Promise<BusinessHoursSettingsResponseDto> {
+    return this.businessHoursService.getSettings(req.user.tenantId);
+  }
+
+  @Put()
+  @RequirePermission('canManageSettings')
+  @ApiOperation({
+    summary: 'Update the business hours, holidays and automatic messages',
+    description: 'Settings that are not given keep their current value',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Settings updated successfully',
+    type: BusinessHoursSettingsResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Bad request - validation error, invalid time zone or business hours',
+  })
+  async updateSettings(
+    @Body() updateSettingsDto: UpdateBusinessHoursSettingsDto,
+    @Request() req: any,
+  ): Promise<BusinessHoursSettingsResponseDto> {
+    return this.businessHoursService.updateSettings(
+      updateSettingsDto,
+      req.user.tenantId,
+    );
+  }
+
+  @Get('devices/:deviceId')
+  @RequirePermission('canViewLogs')
+  @ApiOperation({
+    summary: 'Get the business hours settings of a device',
+  })
+  @ApiParam({ name: 'deviceId', description: 'Device ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Device settings retrieved successfully',
+    type: DeviceBusinessHoursResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Device not found',
+  })
+  async getDeviceSettings(
+    @Param('deviceId') deviceId: string,
+    @Request() req: any,
+  ): Promise<DeviceBusinessHoursResponseDto> {
+    return this.businessHoursService.getDeviceSettings(
+      deviceId,
+      req.user.tenantId,
+    );
+  }
+
+  @Put('devices/:deviceId')
+  @RequirePermission('canManageSettings')
+  @ApiOperation({
+    summary: 'Replace the business hours settings of a device',
+    description:
+      'Settings that are not given are inherited from the tenant, send an empty body to inherit all',
+  })
+  @ApiParam({ name: 'deviceId', description: 'Device ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Device settings updated successfully',
+    type: DeviceBusinessHoursResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Bad request - validation error, invalid time zone or business hours',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Device not found',
+  })
+  async updateDeviceSettings(
+    @Param('deviceId') deviceId: string,
+    @Body() updateDeviceDto: UpdateDeviceBusinessHoursDto,
+    @Request() req: any,
+  ): Promise<DeviceBusinessHoursResponseDto> {
+    return this.businessHoursService.updateDeviceSettings(
+      deviceId,
+      updateDeviceDto,
+      req.user.tenantId,
+    );
+  }
+
+  @Post('preview')
+  @RequirePermission('canViewLogs')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Preview the automatic message for a message received at a time',
+    description:
+      'Dry run, nothing is sent. The away message cooldown is not taken into account',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Preview generated successfully',
+    type: BusinessHoursPreviewResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - invalid time',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Device not found',
+  })
+  async preview(
+    @Body() previewDto: PreviewBusinessHoursDto,
+    @Request() req: any,
+  ): Promise<BusinessHoursPreviewResponseDto> {
+    return this.businessHoursService.preview(previewDto, req.user.tenantId);
+  }
+}
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { BusinessHoursController } from './business-hours.controller';
+import { BusinessHoursService } from './business-hours.service';
+import { Tenant, TenantSchema } from '../database/schemas/tenant.schema';
+import {
+  WhatsAppSession,
+  WhatsAppSessionSchema,
+} from '../database/schemas/whatsapp-session.schema';
+import { ConversationsModule } from '../conversations/conversations.module';
+import { WhatsAppModule } from '../whatsapp/whatsapp.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Tenant.name, schema: TenantSchema },
+      { name: WhatsAppSession.name, schema: WhatsAppSessionSchema },
+    ]),
+    WhatsAppModule,
+    ConversationsModule,
+  ],
+  controllers: [BusinessHoursController],
+  providers: [BusinessHoursService],
+  exports: [BusinessHoursService],
+})
+export class BusinessHoursModule {}
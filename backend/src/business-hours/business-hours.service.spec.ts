@@ -0,0 +1,433 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { BusinessHoursService } from './business-hours.service';
+import { ConversationsService } from '../conversations/conversations.service';
+import { ConversationDocument } from '../database/schemas/conversation.schema';
+import { MessageDocument } from '../database/schemas/message.schema';
+import { Tenant, TenantSettings } from '../database/schemas/tenant.schema';
+import { WhatsAppSession } from '../database/schemas/whatsapp-session.schema';
+import { REDIS_CLIENT } from '../redis/redis.constants';
+import { InboundMessageService } from '../whatsapp/inbound-message.service';
+import { WhatsAppService } from '../whatsapp/whatsapp.service';
+
+describe('BusinessHoursService', () => {
+  let service: BusinessHoursService;
+
+  const tenantId = new Types.ObjectId('507f1f77bcf86cd799439012');
+  const deviceId = new Types.ObjectId('507f1f77bcf86cd799439011');
+  const userId = new Types.ObjectId('507f1f77bcf86cd799439013');
+
+  const execResult = (value: unknown) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+  const selectResult = (value: unknown) => ({
+    select: jest.fn().mockReturnValue(execResult(value)),
+  });
+
+  const mockTenantModel = { findById: jest.fn(), findByIdAndUpdate: jest.fn() };
+  const mockWhatsappSessionModel = {
+    findOne: jest.fn(),
+    findById: jest.fn(),
+    findByIdAndUpdate: jest.fn(),
+  };
+  const mockRedis = { set: jest.fn() };
+  const mockInboundMessageService = { addHandler: jest.fn() };
+  const mockWhatsAppService = { sendMessage: jest.fn() };
+  const mockConversationsService = { isFirstInboundMessage: jest.fn() };
+
+  // Weekdays 09:00-17:00 in Berlin
+  const tenantSettings = (overrides: Partial<TenantSettings> = {}) => ({
+    timeZone: 'Europe/Berlin',
+    businessHours: [1, 2, 3, 4, 5].map((day) => ({
+      day,
+      open: '09:00',
+      close: '17:00',
+    })),
+    holidays: [{ date: '2024-12-25', name: 'Christmas', recurring: true }],
+    awayMessage: { enabled: true, text: 'We are closed' },
+    greetingMessage: { enabled: true, text: 'Welcome!' },
+    ...overrides,
+  });
+
+  const device = (overrides: object = {}) => ({
+    _id: deviceId,
+    tenantId,
+    createdBy: userId,
+    ...overrides,
+  });
+
+  const withSettings = (settings: object, deviceOverrides: object = {}) => {
+    mockTenantModel.findById.mockReturnValue(selectResult({ settings }));
+    mockWhatsappSessionModel.findOne.mockReturnValue(
+      execResult(device(deviceOverrides)),
+    );
+    mockWhatsappSessionModel.findById.mockReturnValue(
+      selectResult(device(deviceOverrides)),
+    );
+  };
+
+  const conversation = (overrides: object = {}) =>
+    ({
+      _id: new Types.ObjectId(),
+      tenantId,
+      deviceId,
+      remoteJid: '1234567890@s.whatsapp.net',
+      phoneNumber: '+1234567890',
+      isGroup: false,
+      ...overrides,
+    }) as unknown as ConversationDocument;
+
+  const message = (sentAt: string) =>
+    ({
+      _id: new Types.ObjectId(),
+      tenantId,
+      deviceId,
+      direction: 'inbound',
+      messageType: 'text',
+      content: 'Hello',
+      sentAt: new Date(sentAt),
+    }) as unknown as MessageDocument;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    withSettings(tenantSettings());
+    mockRedis.set.mockResolvedValue('OK');
+    mockWhatsAppService.sendMessage.mockResolvedValue({});
+    mockConversationsService.isFirstInboundMessage.mockResolvedValue(false);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BusinessHoursService,
+        { provide: getModelToken(Tenant.name), useValue: mockTenantModel },
+        {
+          provide: getModelToken(WhatsAppSession.name),
+          useValue: mockWhatsappSessionModel,
+        },
+        { provide: REDIS_CLIENT, useValue: mockRedis },
+        {
+          provide: InboundMessageService,
+          useValue: mockInboundMessageService,
+        },
+        { provide: WhatsAppService, useValue: mockWhatsAppService },
+        { provide: ConversationsService, useValue: mockConversationsService },
+      ],
+    }).compile();
+
+    service = module.get<BusinessHoursService>(BusinessHoursService);
+  });
+
+  it('should handle inbound messages once the module is initialised', () => {
+    service.onModuleInit();
+
+    expect(mockInboundMessageService.addHandler).toHaveBeenCalledWith(service);
+  });
+
+  describe('getSettings', () => {
+    it('should fill in defaults for tenants without settings', async () => {
+      withSettings(undefined);
+
+      await expect(service.getSettings(tenantId.toString())).resolves.toEqual({
+        timeZone: 'UTC',
+        businessHours: [],
+        holidays: [],
+        awayMessage: undefined,
+        greetingMessage: undefined,
+      });
+    });
+
+    it('should throw NotFoundException for unknown tenants', async () => {
+      mockTenantModel.findById.mockReturnValue(selectResult(null));
+
+      await expect(service.getSettings(tenantId.toString())).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('updateSettings', () => {
+    it('should only replace the settings given', async () => {
+      mockTenantModel.findByIdAndUpdate.mockReturnValue(
+        selectResult({ settings: tenantSettings({ timeZone: 'Asia/Tokyo' }) }),
+      );
+
+      const result = await service.updateSettings(
+        { timeZone: 'Asia/Tokyo', holidays: [] },
+        tenantId.toString(),
+      );
+
+      expect(mockTenantModel.findByIdAndUpdate).toHaveBeenCalledWith(
+        tenantId.toString(),
+        {
+          $set: { 'settings.timeZone': 'Asia/Tokyo', 'settings.holidays': [] },
+        },
+        { new: true },
+      );
+      expect(result.timeZone).toBe('Asia/Tokyo');
+    });
+
+    it('should reject unknown time zones', async () => {
+      await expect(
+        service.updateSettings(
+          { timeZone: 'Mars/Olympus_Mons' },
+          tenantId.toString(),
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockTenantModel.findByIdAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should reject intervals that close before they open', async () => {
+      await expect(
+        service.updateSettings(
+          { businessHours: [{ day: 1, open: '18:00', close: '09:00' }] },
+          tenantId.toString(),
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('device settings', () => {
+    it('should apply the device settings over those of the tenant', async () => {
+      withSettings(tenantSettings(), {
+        settings: {
+          timeZone: 'America/New_York',
+          awayMessage: { enabled: false, text: 'Closed' },
+        },
+      });
+
+      const result = await service.getDeviceSettings(
+        deviceId.toString(),
+        tenantId.toString(),
+      );
+
+      expect(result.overrides).toEqual({
+        timeZone: 'America/New_York',
+        businessHours: undefined,
+        awayMessage: {
+          enabled: false,
+          text: 'Closed',
+          cooldownMinutes: undefined,
+        },
+        greetingMessage: undefined,
+      });
+      expect(result.effective).toEqual(
+        expect.objectContaining({
+          timeZone: 'America/New_York',
+          awayMessage: expect.objectContaining({ enabled: false }),
+          greetingMessage: expect.objectContaining({ text: 'Welcome!' }),
+        }),
+      );
+      expect(result.effective.businessHours).toHaveLength(5);
+    });
+
+    it('should replace all settings of the device', async () => {
+      const businessHours = [{ day: 6, open: '10:00', close: '14:00' }];
+      mockWhatsappSessionModel.findByIdAndUpdate.mockReturnValue(
+        execResult(device({ settings: { businessHours } })),
+      );
+
+      const result = await service.updateDeviceSettings(
+        deviceId.toString(),
+        { businessHours },
+        tenantId.toString(),
+      );
+
+      expect(mockWhatsappSessionModel.findByIdAndUpdate).toHaveBeenCalledWith(
+        deviceId,
+        { settings: { businessHours } },
+        { new: true },
+      );
+      expect(result.effective.businessHours).toEqual(businessHours);
+    });
+
+    it('should throw NotFoundException for devices of other tenants', async () => {
+      mockWhatsappSessionModel.findOne.mockReturnValue(execResult(null));
+
+      await expect(
+        service.getDeviceSettings(deviceId.toString(), tenantId.toString()),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('preview', () => {
+    const preview = (at?: string, firstMessage?: boolean) =>
+      service.preview(
+        { deviceId: deviceId.toString(), at, firstMessage },
+        tenantId.toString(),
+      );
+
+    it('should show the away message outside business hours', async () => {
+      const result = await preview('2024-01-15T18:30');
+
+      expect(result).toEqual({
+        deviceId: deviceId.toString(),
+        at: new Date('2024-01-15T17:30:00.000Z'),
+        localTime: '2024-01-15T18:30',
+        timeZone: 'Europe/Berlin',
+        isOpen: false,
+        holiday: undefined,
+        message: { type: 'away', text: 'We are closed' },
+      });
+      expect(mockWhatsAppService.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should be closed on holidays', async () => {
+      const result = await preview('2025-12-25T10:00:00+01:00');
+
+      expect(result.isOpen).toBe(false);
+      expect(result.holiday).toEqual(
+        expect.objectContaining({ name: 'Christmas' }),
+      );
+      expect(result.message?.type).toBe('away');
+    });
+
+    it('should greet first messages within business hours', async () => {
+      await expect(preview('2024-01-15T10:00', true)).resolves.toEqual(
+        expect.objectContaining({
+          isOpen: true,
+          message: { type: 'greeting', text: 'Welcome!' },
+        }),
+      );
+      await expect(preview('2024-01-15T10:00')).resolves.toEqual(
+        expect.objectContaining({ isOpen: true, message: null }),
+      );
+    });
+
+    it('should treat devices without business hours as open', async () => {
+      withSettings(tenantSettings({ businessHours: [] }));
+
+      const result = await preview('2024-01-13T03:00');
+
+      expect(result.isOpen).toBe(true);
+    });
+
+    it('should reject invalid times', async () => {
+      await expect(preview('tomorrow')).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('isOpen', () => {
+    it('should use the settings of the device', async () => {
+      withSettings(tenantSettings(), {
+        settings: {
+          businessHours: [{ day: 6, open: '10:00', close: '14:00' }],
+        },
+      });
+
+      // Saturday 11:00 in Berlin
+      await expect(
+        service.isOpen(tenantId, deviceId, new Date('2024-01-13T10:00:00Z')),
+      ).resolves.toBe(true);
+      // Monday 11:00 in Berlin
+      await expect(
+        service.isOpen(tenantId, deviceId, new Date('2024-01-15T10:00:00Z')),
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('handleInboundMessage', () => {
+    // Monday 21:00 in Berlin
+    const afterHours = '2024-01-15T20:00:00.000Z';
+    // Monday 10:00 in Berlin
+    const duringHours = '2024-01-15T09:00:00.000Z';
+
+    it('should send the away message outside business hours', async () => {
+      const inbound = message(afterHours);
+
+      await service.handleInboundMessage(inbound, conversation());
+
+      expect(mockRedis.set).toHaveBeenCalledWith(
+        `away-message:cooldown:${deviceId.toString()}:1234567890@s.whatsapp.net`,
+        inbound._id.toString(),
+        'PX',
+        60 * 60_000,
+        'NX',
+      );
+      expect(mockWhatsAppService.sendMessage).toHaveBeenCalledWith(
+        {
+          deviceId: deviceId.toString(),
+          phoneNumber: '+1234567890',
+          messageType: 'text',
+          content: 'We are closed',
+          transactional: true,
+        },
+        tenantId.toString(),
+        userId.toString(),
+        undefined,
+        { automaticMessage: 'away' },
+      );
+    });
+
+    it('should not repeat the away message during the cooldown', async () => {
+      mockRedis.set.mockResolvedValue(null);
+
+      await service.handleInboundMessage(message(afterHours), conversation());
+
+      expect(mockWhatsAppService.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should use the cooldown of the away message', async () => {
+      withSettings(
+        tenantSettings({
+          awayMessage: {
+            enabled: true,
+            text: 'We are closed',
+            cooldownMinutes: 720,
+          },
+        }),
+      );
+
+      await service.handleInboundMessage(message(afterHours), conversation());
+
+      expect(mockRedis.set).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.any(String),
+        'PX',
+        720 * 60_000,
+        'NX',
+      );
+    });
+
+    it('should greet contacts writing for the first time', async () => {
+      mockConversationsService.isFirstInboundMessage.mockResolvedValue(true);
+
+      await service.handleInboundMessage(message(duringHours), conversation());
+
+      expect(mockRedis.set).not.toHaveBeenCalled();
+      expect(mockWhatsAppService.sendMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ content: 'Welcome!' }),
+        tenantId.toString(),
+        userId.toString(),
+        undefined,
+        { automaticMessage: 'greeting' },
+      );
+    });
+
+    it('should send nothing for later messages within business hours', async () => {
+      await service.handleInboundMessage(message(duringHours), conversation());
+
+      expect(mockWhatsAppService.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should send nothing when the away message is disabled', async () => {
+      withSettings(tenantSettings(), {
+        settings: { awayMessage: { enabled: false, text: 'We are closed' } },
+      });
+
+      await service.handleInboundMessage(message(afterHours), conversation());
+
+      expect(mockWhatsAppService.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should ignore group chats', async () => {
+      await service.handleInboundMessage(
+        message(afterHours),
+        conversation({ isGroup: true }),
+      );
+
+      expect(mockTenantModel.findById).not.toHaveBeenCalled();
+      expect(mockWhatsAppService.sendMessage).not.toHaveBeenCalled();
+    });
+  });
+});
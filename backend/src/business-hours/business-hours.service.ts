@@ -0,0 +1,448 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import Redis from 'ioredis';
+import { Model, Types } from 'mongoose';
+import {
+  BusinessHoursInterval,
+  findHoliday,
+  Holiday,
+  isWithinBusinessHours,
+  toLocalDateTime,
+} from '../common/utils/business-hours.util';
+import {
+  DEFAULT_TIME_ZONE,
+  isValidTimeZone,
+  parseDateTimeInZone,
+} from '../common/utils/time-zone.util';
+import { ConversationsService } from '../conversations/conversations.service';
+import { ConversationDocument } from '../database/schemas/conversation.schema';
+import { MessageDocument } from '../database/schemas/message.schema';
+import {
+  AutomaticMessage,
+  BusinessHoursSettings,
+  Tenant,
+  TenantSettings,
+} from '../database/schemas/tenant.schema';
+import {
+  WhatsAppSession,
+  WhatsAppSessionDocument,
+} from '../database/schemas/whatsapp-session.schema';
+import { REDIS_CLIENT } from '../redis/redis.constants';
+import { MessageType } from '../whatsapp/dto/send-message.dto';
+import { InboundMessageService } from '../whatsapp/inbound-message.service';
+import { InboundMessageHandler } from '../whatsapp/interfaces/inbound-message-handler.interface';
+import { jidToPhoneNumber } from '../whatsapp/utils/jid.util';
+import { WhatsAppService } from '../whatsapp/whatsapp.service';
+import {
+  AutomaticMessagePreviewDto,
+  BusinessHoursPreviewResponseDto,
+  BusinessHoursSettingsResponseDto,
+  DeviceBusinessHoursResponseDto,
+} from './dto/business-hours-settings-response.dto';
+import { PreviewBusinessHoursDto } from './dto/preview-business-hours.dto';
+import { UpdateBusinessHoursSettingsDto } from './dto/update-business-hours-settings.dto';
+import { UpdateDeviceBusinessHoursDto } from './dto/update-device-business-hours.dto';
+
+const AWAY_COOLDOWN_KEY_PREFIX = 'away-message:cooldown';
+const DEFAULT_AWAY_COOLDOWN_MINUTES = 60;
+
+/** Business hours settings of a device, completed with those of the tenant. */
+export interface ResolvedBusinessHours {
+  timeZone: string;
+  businessHours: BusinessHoursInterval[];
+  holidays: Holiday[];
+  awayMessage?: AutomaticMessage;
+  greetingMessage?: AutomaticMessage;
+}
+
+@Injectable()
+export class BusinessHoursService
+  implements InboundMessageHandler, OnModuleInit
+{
+  private readonly logger = new Logger(BusinessHoursService.name);
+
+  constructor(
+    @InjectModel(Tenant.name) private tenantModel: Model<Tenant>,
+    @InjectModel(WhatsAppSession.name)
+    private whatsappSessionModel: Model<WhatsAppSession>,
+    @Inject(REDIS_CLIENT) private readonly redis: Redis,
+    private inboundMessageService: InboundMessageService,
+    private whatsAppService: WhatsAppService,
+    private conversationsService: ConversationsService,
+  ) {}
+
+  onModuleInit(): void {
+    this.inboundMessageService.addHandler(this);
+  }
+
+  async getSettings(
+    tenantId: string,
+  ): Promise<BusinessHoursSettingsResponseDto> {
+    const settings = await this.findTenantSettings(tenantId);
+    return this.mapToSettingsResponse(resolveSettings(settings));
+  }
+
+  /** Replaces the settings given, the others are kept. */
+  async updateSettings(
+    updateSettingsDto: UpdateBusinessHoursSettingsDto,
+    tenantId: string,
+  ): Promise<BusinessHoursSettingsResponseDto> {
+    validateSettings(updateSettingsDto);
+
+    const update = Object.fromEntries(
+      Object.entries(updateSettingsDto)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => [`settings.${key}`, value]),
+    );
+    const tenant = await this.tenantModel
+      .findByIdAndUpdate(tenantId, { $set: update }, { new: true })
+      .select('settings')
+      .exec();
+
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    return this.mapToSettingsResponse(resolveSettings(tenant.settings));
+  }
+
+  async getDeviceSettings(
+    deviceId: string,
+    tenantId: string,
+  ): Promise<DeviceBusinessHoursResponseDto> {
+    const [device, tenantSettings] = await Promise.all([
+      this.findDevice(deviceId, tenantId),
+      this.findTenantSettings(tenantId),
+    ]);
+
+    return this.mapToDeviceResponse(device, tenantSettings);
+  }
+
+  /** Replaces the settings of the device, those not given are inherited. */
+  async updateDeviceSettings(
+    deviceId: string,
+    updateDeviceDto: UpdateDeviceBusinessHoursDto,
+    tenantId: string,
+  ): Promise<DeviceBusinessHoursResponseDto> {
+    validateSettings(updateDeviceDto);
+    const [device, tenantSettings] = await Promise.all([
+      this.findDevice(deviceId, tenantId),
+      this.findTenantSettings(tenantId),
+    ]);
+
+    const updatedDevice = await this.whatsappSessionModel
+      .findByIdAndUpdate(
+        device._id,
+        { settings: { ...updateDeviceDto } },
+        { new: true },
+      )
+      .exec();
+
+    return this.mapToDeviceResponse(updatedDevice, tenantSettings);
+  }
+
+  /**
+   * Dry run of an inbound message: whether the device is open at the given
+   * time and which automatic message would be sent. Cooldowns are ignored.
+   */
+  async preview(
+    previewDto: PreviewBusinessHoursDto,
+    tenantId: string,
+  ): Promise<BusinessHoursPreviewResponseDto> {
+    const [device, tenantSettings] = await Promise.all([
+      this.findDevice(previewDto.deviceId, tenantId),
+      this.findTenantSettings(tenantId),
+    ]);
+    const settings = resolveSettings(tenantSettings, device.settings);
+
+    const at = previewDto.at
+      ? parseDateTimeInZone(previewDto.at, settings.timeZone)
+      : new Date();
+    if (!at) {
+      throw new BadRequestException('Time must be a valid ISO 8601 date');
+    }
+
+    const { isOpen, holiday } = checkHours(at, settings);
+    const message = await pickMessage(isOpen, settings, () =>
+      Promise.resolve(previewDto.firstMessage ?? false),
+    );
+
+    return {
+      deviceId: device._id.toString(),
+      at,
+      localTime: toLocalDateTime(at, settings.timeZone),
+      timeZone: settings.timeZone,
+      isOpen,
+      holiday: holiday && {
+        date: holiday.date,
+        name: holiday.name,
+        recurring: holiday.recurring,
+      },
+      message,
+    };
+  }
+
+  /** Whether the device is within business hours at the given time. */
+  async isOpen(
+    tenantId: Types.ObjectId,
+    deviceId: Types.ObjectId,
+    at: Date,
+  ): Promise<boolean> {
+    const { settings } = await this.loadSettings(tenantId, deviceId);
+    return checkHours(at, settings).isOpen;
+  }
+
+  /**
+   * Sends the away message for messages received in one-to-one chats outside
+   * business hours, once per cooldown and contact, and the greeting message
+   * for the first message of a contact within them.
+   */
+  async handleInboundMessage(
+    message: MessageDocument,
+    conversation: ConversationDocument | null,
+  ): Promise<void> {
+    if (!conversation || conversation.isGroup) {
+      return;
+    }
+
+    const { settings, device } = await this.loadSettings(
+      message.tenantId,
+      message.deviceId,
+    );
+    if (!device) {
+      return;
+    }
+
+    const { isOpen } = checkHours(message.sentAt, settings);
+    const automaticMessage = await pickMessage(isOpen, settings, () =>
+      this.conversationsService.isFirstInboundMessage(conversation),
+    );
+    if (!automaticMessage) {
+      return;
+    }
+
+    if (automaticMessage.type === 'away') {
+      const cooldownMinutes =
+        settings.awayMessage.cooldownMinutes ?? DEFAULT_AWAY_COOLDOWN_MINUTES;
+      const cooldown = await this.redis.set(
+        `${AWAY_COOLDOWN_KEY_PREFIX}:${device._id.toString()}:${conversation.remoteJid}`,
+        message._id.toString(),
+        'PX',
+        cooldownMinutes * 60_000,
+        'NX',
+      );
+      if (!cooldown) {
+        this.logger.debug(
+          `Away message is cooling down for ${conversation.remoteJid}`,
+        );
+        return;
+      }
+    }
+
+    // Sent on behalf of the user who linked the device
+    await this.whatsAppService.sendMessage(
+      {
+        deviceId: device._id.toString(),
+        phoneNumber:
+          conversation.phoneNumber || jidToPhoneNumber(conversation.remoteJid),
+        messageType: MessageType.TEXT,
+        content: automaticMessage.text,
+        transactional: true, // Answers the contact
+      },
+      message.tenantId.toString(),
+      device.createdBy.toString(),
+      undefined,
+      { automaticMessage: automaticMessage.type },
+    );
+  }
+
+  private async loadSettings(
+    tenantId: Types.ObjectId,
+    deviceId: Types.ObjectId,
+  ): Promise<{
+    settings: ResolvedBusinessHours;
+    device: WhatsAppSessionDocument | null;
+  }> {
+    const [tenant, device] = await Promise.all([
+      this.tenantModel.findById(tenantId).select('settings').exec(),
+      this.whatsappSessionModel
+        .findById(deviceId)
+        .select('settings createdBy')
+        .exec(),
+    ]);
+
+    return {
+      settings: resolveSettings(tenant?.settings, device?.settings),
+      device,
+    };
+  }
+
+  private async findTenantSettings(tenantId: string): Promise<TenantSettings> {
+    const tenant = await this.tenantModel
+      .findById(tenantId)
+      .select('settings')
+      .exec();
+
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    return tenant.settings;
+  }
+
+  private async findDevice(
+    deviceId: string,
+    tenantId: string,
+  ): Promise<WhatsAppSessionDocument> {
+    if (!Types.ObjectId.isValid(deviceId)) {
+      throw new NotFoundException('Device not found');
+    }
+
+    const device = await this.whatsappSessionModel
+      .findOne({
+        _id: new Types.ObjectId(deviceId),
+        tenantId: new Types.ObjectId(tenantId),
+        isDeleted: false,
+      })
+      .exec();
+
+    if (!device) {
+      throw new NotFoundException('Device not found');
+    }
+
+    return device;
+  }
+
+  private mapToSettingsResponse(
+    settings: ResolvedBusinessHours,
+  ): BusinessHoursSettingsResponseDto {
+    return {
+      timeZone: settings.timeZone,
+      businessHours: settings.businessHours.map(({ day, open, close }) => ({
+        day,
+        open,
+        close,
+      })),
+      holidays: settings.holidays.map(({ date, name, recurring }) => ({
+        date,
+        name,
+        recurring,
+      })),
+      awayMessage: mapAutomaticMessage(settings.awayMessage),
+      greetingMessage: mapAutomaticMessage(settings.greetingMessage),
+    };
+  }
+
+  private mapToDeviceResponse(
+    device: WhatsAppSessionDocument,
+    tenantSettings: TenantSettings,
+  ): DeviceBusinessHoursResponseDto {
+    const overrides = device.settings ?? {};
+
+    return {
+      deviceId: device._id.toString(),
+      overrides: {
+        timeZone: overrides.timeZone,
+        businessHours: overrides.businessHours?.map(({ day, open, close }) => ({
+          day,
+          open,
+          close,
+        })),
+        awayMessage: mapAutomaticMessage(overrides.awayMessage),
+        greetingMessage: mapAutomaticMessage(overrides.greetingMessage),
+      },
+      effective: this.mapToSettingsResponse(
+        resolveSettings(tenantSettings, overrides),
+      ),
+    };
+  }
+}
+
+// Settings of the device take precedence, holidays apply to all devices
+function resolveSettings(
+  tenantSettings: TenantSettings = {},
+  deviceSettings: BusinessHoursSettings = {},
+): ResolvedBusinessHours {
+  const timeZone = deviceSettings.timeZone ?? tenantSettings.timeZone;
+
+  return {
+    timeZone:
+      timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE,
+    businessHours:
+      deviceSettings.businessHours ?? tenantSettings.businessHours ?? [],
+    holidays: tenantSettings.holidays ?? [],
+    awayMessage: deviceSettings.awayMessage ?? tenantSettings.awayMessage,
+    greetingMessage:
+      deviceSettings.greetingMessage ?? tenantSettings.greetingMessage,
+  };
+}
+
+// Without business hours only holidays are closed
+function checkHours(
+  at: Date,
+  settings: ResolvedBusinessHours,
+): { isOpen: boolean; holiday?: Holiday } {
+  const holiday = findHoliday(at, settings.holidays, settings.timeZone);
+  if (holiday) {
+    return { isOpen: false, holiday };
+  }
+
+  return {
+    isOpen:
+      !settings.businessHours.length ||
+      isWithinBusinessHours(at, settings.businessHours, settings.timeZone),
+  };
+}
+
+async function pickMessage(
+  isOpen: boolean,
+  settings: ResolvedBusinessHours,
+  isFirstMessage: () => Promise<boolean>,
+): Promise<AutomaticMessagePreviewDto | null> {
+  if (!isOpen) {
+    return settings.awayMessage?.enabled
+      ? { type: 'away', text: settings.awayMessage.text }
+      : null;
+  }
+  if (settings.greetingMessage?.enabled && (await isFirstMessage())) {
+    return { type: 'greeting', text: settings.greetingMessage.text };
+  }
+
+  return null;
+}
+
+function validateSettings(
+  settingsDto: UpdateBusinessHoursSettingsDto | UpdateDeviceBusinessHoursDto,
+): void {
+  if (settingsDto.timeZone && !isValidTimeZone(settingsDto.timeZone)) {
+    throw new BadRequestException(`Invalid time zone: ${settingsDto.timeZone}`);
+  }
+
+  const reversed = settingsDto.businessHours?.find(
+    (interval) => interval.open >= interval.close,
+  );
+  if (reversed) {
+    throw new BadRequestException(
+      `Business hours must open before they close: day ${reversed.day} ${reversed.open}-${reversed.close}`,
+    );
+  }
+}
+
+function mapAutomaticMessage(
+  message: AutomaticMessage | undefined,
+): AutomaticMessage | undefined {
+  return (
+    message && {
+      enabled: message.enabled,
+      text: message.text,
+      cooldownMinutes: message.cooldownMinutes,
+    }
+  );
+}
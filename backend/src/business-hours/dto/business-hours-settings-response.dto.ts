@@ -0,0 +1,89 @@
+import { ApiProperty } from '@nestjs/swagger';
+import type { AutomaticMessageType } from '../../database/schemas/message.schema';
+import {
+  AutomaticMessageDto,
+  BusinessHoursIntervalDto,
+  HolidayDto,
+} from './update-business-hours-settings.dto';
+import { UpdateDeviceBusinessHoursDto } from './update-device-business-hours.dto';
+
+export class BusinessHoursSettingsResponseDto {
+  @ApiProperty({ example: 'Europe/Berlin' })
+  timeZone: string;
+
+  @ApiProperty({
+    description: 'Opening intervals, empty means always open',
+    type: [BusinessHoursIntervalDto],
+  })
+  businessHours: BusinessHoursIntervalDto[];
+
+  @ApiProperty({ type: [HolidayDto] })
+  holidays: HolidayDto[];
+
+  @ApiProperty({ type: AutomaticMessageDto, required: false })
+  awayMessage?: AutomaticMessageDto;
+
+  @ApiProperty({ type: AutomaticMessageDto, required: false })
+  greetingMessage?: AutomaticMessageDto;
+}
+
+export class DeviceBusinessHoursResponseDto {
+  @ApiProperty({ example: '507f1f77bcf86cd799439011' })
+  deviceId: string;
+
+  @ApiProperty({
+    description: 'Settings of the device, the others come from the tenant',
+    type: UpdateDeviceBusinessHoursDto,
+  })
+  overrides: UpdateDeviceBusinessHoursDto;
+
+  @ApiProperty({
+    description: 'Settings applied to messages received on the device',
+    type: BusinessHoursSettingsResponseDto,
+  })
+  effective: BusinessHoursSettingsResponseDto;
+}
+
+export class AutomaticMessagePreviewDto {
+  @ApiProperty({ enum: ['away', 'greeting'], example: 'away' })
+  type: AutomaticMessageType;
+
+  @ApiProperty({
+    example: 'Thanks for your message! We are back tomorrow at 9:00.',
+  })
+  text: string;
+}
+
+export class BusinessHoursPreviewResponseDto {
+  @ApiProperty({ example: '507f1f77bcf86cd799439011' })
+  deviceId: string;
+
+  @ApiProperty({ example: '2024-12-24T17:30:00.000Z' })
+  at: Date;
+
+  @ApiProperty({
+    description: 'Wall clock time in the time zone of the device',
+    example: '2024-12-24T18:30',
+  })
+  localTime: string;
+
+  @ApiProperty({ example: 'Europe/Berlin' })
+  timeZone: string;
+
+  @ApiProperty({ example: false })
+  isOpen: boolean;
+
+  @ApiProperty({
+    description: 'Holiday the business is closed for',
+    type: HolidayDto,
+    required: false,
+  })
+  holiday?: HolidayDto;
+
+  @ApiProperty({
+    description: 'Message that would be sent, null when none',
+    type: AutomaticMessagePreviewDto,
+    nullable: true,
+  })
+  message: AutomaticMessagePreviewDto | null;
+}
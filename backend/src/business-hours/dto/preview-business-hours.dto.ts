@@ -0,0 +1,38 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+
+export class PreviewBusinessHoursDto {
+  @ApiProperty({
+    description: 'Device receiving the message',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @IsMongoId({ message: 'Device ID must be a valid ID' })
+  deviceId: string;
+
+  @ApiProperty({
+    description:
+      'When the message arrives, now by default. Times without an offset are in the time zone of the device',
+    example: '2024-12-24T18:30',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'Time must be a string' })
+  @IsNotEmpty({ message: 'Time cannot be empty' })
+  at?: string;
+
+  @ApiProperty({
+    description: 'Whether it is the first message of the contact',
+    example: false,
+    default: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'firstMessage must be a boolean' })
+  firstMessage?: boolean;
+}
@@ -0,0 +1,155 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import {
+  DATE_PATTERN,
+  TIME_OF_DAY_PATTERN,
+} from '../../common/utils/business-hours.util';
+
+export class BusinessHoursIntervalDto {
+  @ApiProperty({
+    description: 'Weekday, 0 (Sunday) to 6 (Saturday)',
+    example: 1,
+  })
+  @IsInt({ message: 'Day must be an integer' })
+  @Min(0, { message: 'Day must be between 0 and 6' })
+  @Max(6, { message: 'Day must be between 0 and 6' })
+  day: number;
+
+  @ApiProperty({ description: 'Opening time (HH:mm)', example: '09:00' })
+  @Matches(TIME_OF_DAY_PATTERN, { message: 'Open must be a time as HH:mm' })
+  open: string;
+
+  @ApiProperty({
+    description: 'Closing time (HH:mm, 24:00 for midnight)',
+    example: '17:00',
+  })
+  @Matches(TIME_OF_DAY_PATTERN, { message: 'Close must be a time as HH:mm' })
+  close: string;
+}
+
+export class HolidayDto {
+  @ApiProperty({ description: 'Date (YYYY-MM-DD)', example: '2024-12-25' })
+  @Matches(DATE_PATTERN, { message: 'Date must be a date as YYYY-MM-DD' })
+  date: string;
+
+  @ApiProperty({
+    description: 'Holiday name',
+    example: 'Christmas Day',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'Name must be a string' })
+  @MaxLength(100, { message: 'Name must not exceed 100 characters' })
+  name?: string;
+
+  @ApiProperty({
+    description: 'Repeat every year on the same month and day',
+    example: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'recurring must be a boolean' })
+  recurring?: boolean;
+}
+
+export class AutomaticMessageDto {
+  @ApiProperty({ description: 'Whether the message is sent', example: true })
+  @IsBoolean({ message: 'enabled must be a boolean' })
+  enabled: boolean;
+
+  @ApiProperty({
+    description: 'Message text',
+    example: 'Thanks for your message! We are back tomorrow at 9:00.',
+  })
+  @ValidateIf((message) => message.enabled)
+  @IsString({ message: 'Text must be a string' })
+  @IsNotEmpty({ message: 'Text is required for enabled messages' })
+  @MaxLength(4096, { message: 'Text must not exceed 4096 characters' })
+  text: string;
+
+  @ApiProperty({
+    description:
+      'Minutes before the away message is sent to the same contact again (away messages only)',
+    example: 60,
+    default: 60,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Cooldown must be an integer' })
+  @Min(1, { message: 'Cooldown must be at least 1 minute' })
+  @Max(10080, { message: 'Cooldown cannot exceed 7 days' })
+  cooldownMinutes?: number;
+}
+
+export class UpdateBusinessHoursSettingsDto {
+  @ApiProperty({
+    description:
+      'IANA time zone of the business hours and holidays, also used for scheduled messages',
+    example: 'Europe/Berlin',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'Time zone must be a string' })
+  timeZone?: string;
+
+  @ApiProperty({
+    description:
+      'Opening intervals, several per weekday allowed. Empty means always open',
+    type: [BusinessHoursIntervalDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray({ message: 'Business hours must be an array' })
+  @ArrayMaxSize(50, { message: 'At most 50 business hours intervals allowed' })
+  @ValidateNested({ each: true })
+  @Type(() => BusinessHoursIntervalDto)
+  businessHours?: BusinessHoursIntervalDto[];
+
+  @ApiProperty({
+    description: 'Days the business is closed',
+    type: [HolidayDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray({ message: 'Holidays must be an array' })
+  @ArrayMaxSize(100, { message: 'At most 100 holidays allowed' })
+  @ValidateNested({ each: true })
+  @Type(() => HolidayDto)
+  holidays?: HolidayDto[];
+
+  @ApiProperty({
+    description: 'Sent to contacts writing outside business hours',
+    type: AutomaticMessageDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AutomaticMessageDto)
+  awayMessage?: AutomaticMessageDto;
+
+  @ApiProperty({
+    description:
+      'Sent for the first message of a contact during business hours',
+    type: AutomaticMessageDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AutomaticMessageDto)
+  greetingMessage?: AutomaticMessageDto;
+}
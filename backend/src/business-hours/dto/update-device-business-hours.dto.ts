@@ -0,0 +1,57 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import {
+  AutomaticMessageDto,
+  BusinessHoursIntervalDto,
+} from './update-business-hours-settings.dto';
+
+export class UpdateDeviceBusinessHoursDto {
+  @ApiProperty({
+    description: 'IANA time zone of the device, instead of the tenant one',
+    example: 'America/New_York',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'Time zone must be a string' })
+  timeZone?: string;
+
+  @ApiProperty({
+    description:
+      'Opening intervals of the device, instead of the tenant ones. Empty means always open',
+    type: [BusinessHoursIntervalDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray({ message: 'Business hours must be an array' })
+  @ArrayMaxSize(50, { message: 'At most 50 business hours intervals allowed' })
+  @ValidateNested({ each: true })
+  @Type(() => BusinessHoursIntervalDto)
+  businessHours?: BusinessHoursIntervalDto[];
+
+  @ApiProperty({
+    description: 'Away message of the device, instead of the tenant one',
+    type: AutomaticMessageDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AutomaticMessageDto)
+  awayMessage?: AutomaticMessageDto;
+
+  @ApiProperty({
+    description: 'Greeting message of the device, instead of the tenant one',
+    type: AutomaticMessageDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AutomaticMessageDto)
+  greetingMessage?: AutomaticMessageDto;
+}
@@ -0,0 +1,194 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { CampaignDispatcher } from './campaign-dispatcher.service';
+import {
+  Campaign,
+  CampaignDocument,
+} from '../database/schemas/campaign.schema';
+import { CampaignRecipient } from '../database/schemas/campaign-recipient.schema';
+import { WhatsAppSession } from '../database/schemas/whatsapp-session.schema';
+import { WhatsAppService } from '../whatsapp/whatsapp.service';
+
+describe('CampaignDispatcher', () => {
+  let dispatcher: CampaignDispatcher;
+
+  const firstDevice = new Types.ObjectId('507f1f77bcf86cd799439011');
+  const secondDevice = new Types.ObjectId('507f1f77bcf86cd799439014');
+
+  const campaign = {
+    _id: new Types.ObjectId('507f1f77bcf86cd799439020'),
+    status: 'running',
+    message: { messageType: 'text', content: 'Hello' },
+    deviceIds: [firstDevice, secondDevice],
+    messagesPerMinute: 60,
+    dispatchedCount: 0,
+    tenantId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+    createdBy: new Types.ObjectId('507f1f77bcf86cd799439013'),
+  };
+
+  const recipient = (phoneNumber: string) => ({
+    _id: new Types.ObjectId(),
+    phoneNumber,
+  });
+
+  const execResult = (value: unknown) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const mockCampaignModel = {
+    find: jest.fn(),
+    updateOne: jest.fn(),
+  };
+  const mockRecipientModel = {
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+    updateMany: jest.fn(),
+    countDocuments: jest.fn(),
+  };
+  const mockSessionModel = { find: jest.fn() };
+  const mockWhatsAppService = { sendMessage: jest.fn() };
+
+  const mockDevices = (devices: Types.ObjectId[]) =>
+    mockSessionModel.find.mockReturnValue({
+      select: jest
+        .fn()
+        .mockReturnValue(execResult(devices.map((_id) => ({ _id })))),
+    });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockCampaignModel.updateOne.mockReturnValue(
+      execResult({ modifiedCount: 1 }),
+    );
+    mockRecipientModel.updateOne.mockReturnValue(execResult({}));
+    mockWhatsAppService.sendMessage.mockResolvedValue({
+      id: '507f1f77bcf86cd799439015',
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CampaignDispatcher,
+        { provide: getModelToken(Campaign.name), useValue: mockCampaignModel },
+        {
+          provide: getModelToken(CampaignRecipient.name),
+          useValue: mockRecipientModel,
+        },
+        {
+          provide: getModelToken(WhatsAppSession.name),
+          useValue: mockSessionModel,
+        },
+        { provide: WhatsAppService, useValue: mockWhatsAppService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue(5000) },
+        },
+      ],
+    }).compile();
+
+    dispatcher = module.get<CampaignDispatcher>(CampaignDispatcher);
+  });
+
+  it('should send to as many recipients as the pace allows', async () => {
+    mockDevices([firstDevice, secondDevice]);
+    // Last run was 5s ago at 60 messages per minute
+    const nextDispatchAt = new Date(Date.now() - 5000);
+    mockRecipientModel.findOneAndUpdate.mockImplementation(() =>
+      execResult(recipient('+1234567890')),
+    );
+
+    const handled = await dispatcher.dispatchCampaign({
+      ...campaign,
+      nextDispatchAt,
+    } as unknown as CampaignDocument);
+
+    expect(handled).toBeGreaterThanOrEqual(5);
+    expect(handled).toBeLessThanOrEqual(6);
+    expect(mockWhatsAppService.sendMessage).toHaveBeenCalledTimes(handled);
+    expect(mockCampaignModel.updateOne).toHaveBeenCalledWith(
+      { _id: campaign._id, status: 'running' },
+      expect.objectContaining({ $inc: { dispatchedCount: handled } }),
+    );
+  });
+
+  it('should spread recipients across connected devices', async () => {
+    mockDevices([firstDevice, secondDevice]);
+    mockRecipientModel.findOneAndUpdate
+      .mockReturnValueOnce(execResult(recipient('+1111111111')))
+      .mockReturnValueOnce(execResult(recipient('+2222222222')))
+      .mockReturnValue(execResult(null));
+    mockRecipientModel.countDocuments.mockReturnValue(execResult(0));
+
+    await dispatcher.dispatchCampaign({
+      ...campaign,
+      nextDispatchAt: new Date(Date.now() - 5000),
+    } as unknown as CampaignDocument);
+
+    expect(mockWhatsAppService.sendMessage).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({
+        deviceId: firstDevice.toString(),
+        phoneNumber: '+1111111111',
+        content: 'Hello',
+        broadcast: true,
+      }),
+      campaign.tenantId.toString(),
+      campaign.createdBy.toString(),
+      campaign._id.toString(),
+    );
+    expect(mockWhatsAppService.sendMessage).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ deviceId: secondDevice.toString() }),
+      expect.anything(),
+      expect.anything(),
+      expect.anything(),
+    );
+  });
+
+  it('should complete the campaign once every recipient is handled', async () => {
+    mockDevices([firstDevice]);
+    mockRecipientModel.findOneAndUpdate.mockReturnValue(execResult(null));
+    mockRecipientModel.countDocuments.mockReturnValue(execResult(0));
+
+    await dispatcher.dispatchCampaign(campaign as unknown as CampaignDocument);
+
+    expect(mockCampaignModel.updateOne).toHaveBeenCalledWith(
+      { _id: campaign._id, status: 'running' },
+      expect.objectContaining({ status: 'completed' }),
+    );
+  });
+
+  it('should mark recipients as failed when the send is rejected', async () => {
+    mockDevices([firstDevice]);
+    const failing = recipient('+1234567890');
+    mockRecipientModel.findOneAndUpdate
+      .mockReturnValueOnce(execResult(failing))
+      .mockReturnValue(execResult(null));
+    mockRecipientModel.countDocuments.mockReturnValue(execResult(0));
+    mockWhatsAppService.sendMessage.mockRejectedValue(
+      new Error('Device is not connected'),
+    );
+
+    await dispatcher.dispatchCampaign(campaign as unknown as CampaignDocument);
+
+    expect(mockRecipientModel.updateOne).toHaveBeenCalledWith(
+      { _id: failing._id },
+      expect.objectContaining({
+        status: 'failed',
+        errorMessage: 'Device is not connected',
+      }),
+    );
+  });
+
+  it('should wait while no campaign device is connected', async () => {
+    mockDevices([]);
+
+    const handled = await dispatcher.dispatchCampaign(
+      campaign as unknown as CampaignDocument,
+    );
+
+    expect(handled).toBe(0);
+    expect(mockRecipientModel.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,238 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  Campaign,
+  CampaignDocument,
+} from '../database/schemas/campaign.schema';
+import {
+  CampaignRecipient,
+  CampaignRecipientDocument,
+} from '../database/schemas/campaign-recipient.schema';
+import { WhatsAppSession } from '../database/schemas/whatsapp-session.schema';
+import { SendMessageDto } from '../whatsapp/dto/send-message.dto';
+import { WhatsAppService } from '../whatsapp/whatsapp.service';
+
+// Claims older than this were interrupted by a restart and are retried
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+/**
+ * Fans running campaigns out to their recipients. Each recipient becomes a
+ * regular outbound message, spread across the connected campaign devices
+ * and paced by the campaign's messages per minute.
+ */
+@Injectable()
+export class CampaignDispatcher
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(CampaignDispatcher.name);
+  private readonly pollIntervalMs: number;
+  private timer?: NodeJS.Timeout;
+  private dispatching = false;
+
+  constructor(
+    @InjectModel(Campaign.name) private campaignModel: Model<Campaign>,
+    @InjectModel(CampaignRecipient.name)
+    private recipientModel: Model<CampaignRecipient>,
+    @InjectModel(WhatsAppSession.name)
+    private whatsappSessionModel: Model<WhatsAppSession>,
+    private whatsAppService: WhatsAppService,
+    private configService: ConfigService,
+  ) {
+    this.pollIntervalMs =
+      this.configService.get<number>('campaigns.pollIntervalMs') || 5000;
+  }
+
+  onApplicationBootstrap(): void {
+    this.releaseStaleClaims().catch((error: Error) => {
+      this.logger.error(
+        `Failed to release campaign recipients: ${error.message}`,
+        error.stack,
+      );
+    });
+    this.timer = setInterval(
+      () => void this.dispatchRunningCampaigns(),
+      this.pollIntervalMs,
+    );
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.timer);
+  }
+
+  async releaseStaleClaims(): Promise<number> {
+    const result = await this.recipientModel
+      .updateMany(
+        {
+          status: 'processing',
+          claimedAt: { $lt: new Date(Date.now() - STALE_CLAIM_MS) },
+        },
+        { status: 'pending' },
+      )
+      .exec();
+    return result.modifiedCount;
+  }
+
+  async dispatchRunningCampaigns(): Promise<void> {
+    // Skip the tick while the previous run is still dispatching
+    if (this.dispatching) {
+      return;
+    }
+    this.dispatching = true;
+
+    try {
+      const campaigns = await this.campaignModel
+        .find({ status: 'running', isDeleted: false })
+        .exec();
+      for (const campaign of campaigns) {
+        await this.dispatchCampaign(campaign);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to dispatch campaigns: ${(error as Error).message}`,
+      );
+    } finally {
+      this.dispatching = false;
+    }
+  }
+
+  /**
+   * Sends to as many recipients as the throttle allows since the last run.
+   * Returns the number of recipients handled.
+   */
+  async dispatchCampaign(campaign: CampaignDocument): Promise<number> {
+    const devices = await this.whatsappSessionModel
+      .find({
+        _id: { $in: campaign.deviceIds },
+        status: 'connected',
+        isActive: true,
+        isDeleted: false,
+      })
+      .select('_id')
+      .exec();
+
+    // Wait for a device to come back instead of failing recipients
+    if (!devices.length) {
+      this.logger.debug(
+        `No connected device for campaign ${campaign._id.toString()}`,
+      );
+      return 0;
+    }
+
+    const now = Date.now();
+    const interval = 60_000 / campaign.messagesPerMinute;
+    // Don't let a long pause turn into a burst
+    let nextDispatchAt = Math.max(
+      campaign.nextDispatchAt?.getTime() ?? now,
+      now - this.pollIntervalMs,
+    );
+    let handled = 0;
+
+    while (nextDispatchAt <= now) {
+      const recipient = await this.recipientModel
+        .findOneAndUpdate(
+          { campaignId: campaign._id, status: 'pending' },
+          { status: 'processing', claimedAt: new Date() },
+          { sort: { _id: 1 }, new: true },
+        )
+        .exec();
+
+      if (!recipient) {
+        await this.completeIfDone(campaign);
+        break;
+      }
+
+      const device =
+        devices[(campaign.dispatchedCount + handled) % devices.length];
+      await this.dispatchRecipient(campaign, recipient, device._id);
+
+      nextDispatchAt += interval;
+      handled++;
+    }
+
+    await this.campaignModel
+      .updateOne(
+        { _id: campaign._id, status: 'running' },
+        {
+          nextDispatchAt: new Date(nextDispatchAt),
+          $inc: { dispatchedCount: handled },
+        },
+      )
+      .exec();
+
+    return handled;
+  }
+
+  private async dispatchRecipient(
+    campaign: CampaignDocument,
+    recipient: CampaignRecipientDocument,
+    deviceId: Types.ObjectId,
+  ): Promise<void> {
+    try {
+      const message = await this.whatsAppService.sendMessage(
+        {
+          ...campaign.message,
+          variables: recipient.variables
+            ? { ...campaign.message.variables, ...recipient.variables }
+            : campaign.message.variables,
+          deviceId: deviceId.toString(),
+          phoneNumber: recipient.phoneNumber,
+          broadcast: true,
+        } as SendMessageDto,
+        campaign.tenantId.toString(),
+        campaign.createdBy.toString(),
+        campaign._id.toString(),
+      );
+
+      await this.recipientModel
+        .updateOne(
+          { _id: recipient._id },
+          {
+            status: 'queued',
+            deviceId,
+            messageId: new Types.ObjectId(message.id),
+          },
+        )
+        .exec();
+    } catch (error) {
+      await this.recipientModel
+        .updateOne(
+          { _id: recipient._id },
+          {
+            status: 'failed',
+            deviceId,
+            errorMessage: (error as Error).message,
+          },
+        )
+        .exec();
+    }
+  }
+
+  private async completeIfDone(campaign: CampaignDocument): Promise<void> {
+    const remaining = await this.recipientModel
+      .countDocuments({
+        campaignId: campaign._id,
+        status: { $in: ['pending', 'processing'] },
+      })
+      .exec();
+    if (remaining) {
+      return;
+    }
+
+    const result = await this.campaignModel
+      .updateOne(
+        { _id: campaign._id, status: 'running' },
+        { status: 'completed', completedAt: new Date() },
+      )
+      .exec();
+    if (result.modifiedCount) {
+      this.logger.log(`Campaign ${campaign._id.toString()} completed`);
+    }
+  }
+}
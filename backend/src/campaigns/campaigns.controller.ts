@@ -0,0 +1,179 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { RequirePermission } from '../auth/decorators/permission.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionGuard } from '../auth/guards/permission.guard';
+import { CampaignsService } from './campaigns.service';
+import { CampaignResponseDto } from './dto/campaign-response.dto';
+import { CreateCampaignDto } from './dto/create-campaign.dto';
+import { QueryCampaignRecipientsDto } from './dto/query-campaign-recipients.dto';
+
+@ApiTags('Campaigns')
+@Controller('campaigns')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+@ApiBearerAuth()
+export class CampaignsController {
+  constructor(private readonly campaignsService: CampaignsService) {}
+
+  @Post()
+  @RequirePermission('canSendMessages')
+  @ApiOperation({
+    summary: 'Create a broadcast campaign',
+    description:
+      'Resolves the audience from contacts, tags and groups and starts sending right away',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Campaign created successfully',
+    type: CampaignResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - empty audience, invalid device or message',
+  })
+  async create(
+    @Body() createCampaignDto: CreateCampaignDto,
+    @Request() req: any,
+  ): Promise<CampaignResponseDto> {
+    return this.campaignsService.createCampaign(
+      createCampaignDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+  }
+
+  @Get()
+  @RequirePermission('canViewLogs')
+  @ApiOperation({ summary: 'List campaigns' })
+  @ApiResponse({
+    status: 200,
+    description: 'Campaigns retrieved successfully',
+    type: [CampaignResponseDto],
+  })
+  async findAll(@Request() req: any): Promise<CampaignResponseDto[]> {
+    return this.campaignsService.findAllCampaigns(req.user.tenantId);
+  }
+
+  @Get(':id')
+  @RequirePermission('canViewLogs')
+  @ApiOperation({ summary: 'Get a campaign with its progress' })
+  @ApiParam({ name: 'id', description: 'Campaign ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Campaign retrieved successfully',
+    type: CampaignResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Campaign not found',
+  })
+  async findOne(
+    @Param('id') id: string,
+    @Request() req: any,
+  ): Promise<CampaignResponseDto> {
+    return this.campaignsService.findCampaignById(id, req.user.tenantId);
+  }
+
+  @Get(':id/recipients')
+  @RequirePermission('canViewLogs')
+  @ApiOperation({ summary: 'List campaign recipients and their status' })
+  @ApiParam({ name: 'id', description: 'Campaign ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Recipients retrieved successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Campaign not found',
+  })
+  async findRecipients(
+    @Param('id') id: string,
+    @Query() query: QueryCampaignRecipientsDto,
+    @Request() req: any,
+  ) {
+    return this.campaignsService.findRecipients(id, query, req.user.tenantId);
+  }
+
+  @Post(':id/pause')
+  @RequirePermission('canSendMessages')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Pause a running campaign' })
+  @ApiParam({ name: 'id', description: 'Campaign ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Campaign paused successfully',
+    type: CampaignResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - campaign is not running',
+  })
+  async pause(
+    @Param('id') id: string,
+    @Request() req: any,
+  ): Promise<CampaignResponseDto> {
+    return this.campaignsService.pauseCampaign(id, req.user.tenantId);
+  }
+
+  @Post(':id/resume')
+  @RequirePermission('canSendMessages')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Resume a paused campaign' })
+  @ApiParam({ name: 'id', description: 'Campaign ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Campaign resumed successfully',
+    type: CampaignResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - campaign is not paused',
+  })
+  async resume(
+    @Param('id') id: string,
+    @Request() req: any,
+  ): Promise<CampaignResponseDto> {
+    return this.campaignsService.resumeCampaign(id, req.user.tenantId);
+  }
+
+  @Post(':id/cancel')
+  @RequirePermission('canSendMessages')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Cancel a campaign',
+    description: 'Recipients that have not been sent to yet are skipped',
+  })
+  @ApiParam({ name: 'id', description: 'Campaign ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Campaign cancelled successfully',
+    type: CampaignResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - campaign already finished',
+  })
+  async cancel(
+    @Param('id') id: string,
+    @Request() req: any,
+  ): Promise<CampaignResponseDto> {
+    return this.campaignsService.cancelCampaign(id, req.user.tenantId);
+  }
+}
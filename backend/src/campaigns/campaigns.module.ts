@@ -0,0 +1,41 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { CampaignsController } from './campaigns.controller';
+import { CampaignsService } from './campaigns.service';
+import { CampaignDispatcher } from './campaign-dispatcher.service';
+import { Campaign, CampaignSchema } from '../database/schemas/campaign.schema';
+import {
+  CampaignRecipient,
+  CampaignRecipientSchema,
+} from '../database/schemas/campaign-recipient.schema';
+import { Contact, ContactSchema } from '../database/schemas/contact.schema';
+import {
+  ChatGroup,
+  ChatGroupSchema,
+} from '../database/schemas/chat-group.schema';
+import { Message, MessageSchema } from '../database/schemas/message.schema';
+import {
+  WhatsAppSession,
+  WhatsAppSessionSchema,
+} from '../database/schemas/whatsapp-session.schema';
+import { TemplatesModule } from '../templates/templates.module';
+import { WhatsAppModule } from '../whatsapp/whatsapp.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Campaign.name, schema: CampaignSchema },
+      { name: CampaignRecipient.name, schema: CampaignRecipientSchema },
+      { name: Contact.name, schema: ContactSchema },
+      { name: ChatGroup.name, schema: ChatGroupSchema },
+      { name: Message.name, schema: MessageSchema },
+      { name: WhatsAppSession.name, schema: WhatsAppSessionSchema },
+    ]),
+    WhatsAppModule,
+    TemplatesModule,
+  ],
+  controllers: [CampaignsController],
+  providers: [CampaignsService, CampaignDispatcher],
+  exports: [CampaignsService],
+})
+export class CampaignsModule {}
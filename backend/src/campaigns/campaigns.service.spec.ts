@@ -0,0 +1,345 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { CampaignsService } from './campaigns.service';
+import { CreateCampaignDto } from './dto/create-campaign.dto';
+import { Campaign } from '../database/schemas/campaign.schema';
+import { CampaignRecipient } from '../database/schemas/campaign-recipient.schema';
+import { ChatGroup } from '../database/schemas/chat-group.schema';
+import { Contact } from '../database/schemas/contact.schema';
+import { Message } from '../database/schemas/message.schema';
+import { WhatsAppSession } from '../database/schemas/whatsapp-session.schema';
+import { MessageType } from '../whatsapp/dto/send-message.dto';
+import { MediaService } from '../whatsapp/media.service';
+import { TemplatesService } from '../templates/templates.service';
+
+describe('CampaignsService', () => {
+  let service: CampaignsService;
+
+  const tenantId = '507f1f77bcf86cd799439012';
+  const userId = '507f1f77bcf86cd799439013';
+  const deviceId = '507f1f77bcf86cd799439011';
+  const campaignId = '507f1f77bcf86cd799439020';
+
+  const campaign = {
+    _id: new Types.ObjectId(campaignId),
+    name: 'Spring sale',
+    status: 'running',
+    message: { messageType: 'text', content: 'Hello' },
+    audience: { contactIds: [], tags: ['vip'], groupIds: [] },
+    deviceIds: [new Types.ObjectId(deviceId)],
+    messagesPerMinute: 30,
+    totalRecipients: 2,
+    tenantId: new Types.ObjectId(tenantId),
+    createdBy: new Types.ObjectId(userId),
+  };
+
+  const execResult = (value: unknown) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const MockCampaignModel = jest.fn().mockImplementation((data: object) => ({
+    save: jest
+      .fn()
+      .mockResolvedValue({ ...data, _id: new Types.ObjectId(campaignId) }),
+  })) as any;
+
+  const mockRecipientModel = {
+    insertMany: jest.fn(),
+    updateMany: jest.fn(),
+    aggregate: jest.fn(),
+  };
+  const mockMessageModel = {
+    updateMany: jest.fn(),
+    aggregate: jest.fn(),
+  };
+  const mockContactModel = { find: jest.fn() };
+  const mockChatGroupModel = { find: jest.fn() };
+  const mockSessionModel = { countDocuments: jest.fn() };
+
+  const mockTemplatesService = {
+    getTemplateVersion: jest.fn(),
+    getContactVariables: jest.fn(),
+    renderVersion: jest.fn(),
+    renderOrThrow: jest.fn(),
+  };
+
+  const createDto: CreateCampaignDto = {
+    name: 'Spring sale',
+    message: { messageType: MessageType.TEXT, content: 'Hello' },
+    audience: {
+      tags: ['vip'],
+      groupIds: ['507f1f77bcf86cd799439030'],
+    },
+    deviceIds: [deviceId],
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    MockCampaignModel.findOne = jest.fn();
+    MockCampaignModel.findOneAndUpdate = jest.fn();
+    mockRecipientModel.aggregate.mockReturnValue(execResult([]));
+    mockMessageModel.aggregate.mockReturnValue(execResult([]));
+    mockRecipientModel.updateMany.mockReturnValue(execResult({}));
+    mockMessageModel.updateMany.mockReturnValue(execResult({}));
+    mockSessionModel.countDocuments.mockReturnValue(execResult(1));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CampaignsService,
+        { provide: getModelToken(Campaign.name), useValue: MockCampaignModel },
+        {
+          provide: getModelToken(CampaignRecipient.name),
+          useValue: mockRecipientModel,
+        },
+        { provide: getModelToken(Contact.name), useValue: mockContactModel },
+        {
+          provide: getModelToken(ChatGroup.name),
+          useValue: mockChatGroupModel,
+        },
+        { provide: getModelToken(Message.name), useValue: mockMessageModel },
+        {
+          provide: getModelToken(WhatsAppSession.name),
+          useValue: mockSessionModel,
+        },
+        {
+          provide: MediaService,
+          useValue: {
+            getOutboundMedia: jest.fn().mockResolvedValue(undefined),
+          },
+        },
+        { provide: TemplatesService, useValue: mockTemplatesService },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<CampaignsService>(CampaignsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('createCampaign', () => {
+    it('should send once to contacts reached through tags and groups', async () => {
+      const contactId = new Types.ObjectId();
+      mockContactModel.find.mockReturnValue(
+        execResult([
+          {
+            _id: contactId,
+            phoneNumber: '+1 234 567 890',
+            firstName: 'John',
+            lastName: 'Doe',
+          },
+        ]),
+      );
+      mockChatGroupModel.find.mockReturnValue(
+        execResult([
+          {
+            participants: [
+              '1234567890@s.whatsapp.net',
+              '1987654321@s.whatsapp.net',
+            ],
+          },
+        ]),
+      );
+
+      const result = await service.createCampaign(createDto, tenantId, userId);
+
+      expect(result.status).toBe('running');
+      expect(result.messagesPerMinute).toBe(30);
+      expect(result.stats.total).toBe(2);
+      expect(mockRecipientModel.insertMany).toHaveBeenCalledWith([
+        expect.objectContaining({
+          phoneNumber: '+1 234 567 890',
+          name: 'John Doe',
+          contactId,
+          status: 'pending',
+        }),
+        expect.objectContaining({
+          phoneNumber: '+1987654321',
+          status: 'pending',
+        }),
+      ]);
+    });
+
+    it('should reject an audience without recipients', async () => {
+      mockContactModel.find.mockReturnValue(execResult([]));
+      mockChatGroupModel.find.mockReturnValue(execResult([]));
+
+      await expect(
+        service.createCampaign(createDto, tenantId, userId),
+      ).rejects.toThrow(BadRequestException);
+      expect(MockCampaignModel).not.toHaveBeenCalled();
+    });
+
+    it('should reject devices of other tenants', async () => {
+      mockSessionModel.countDocuments.mockReturnValue(execResult(0));
+
+      await expect(
+        service.createCampaign(createDto, tenantId, userId),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should reject media messages without media', async () => {
+      await expect(
+        service.createCampaign(
+          {
+            ...createDto,
+            message: { messageType: MessageType.IMAGE, content: '' },
+          },
+          tenantId,
+          userId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('createCampaign with a template', () => {
+    const templateId = '507f1f77bcf86cd799439040';
+    const version = {
+      version: 3,
+      messageType: 'text',
+      content: 'Hi {{firstName}}, use code {{code}}',
+      variables: ['firstName', 'code'],
+      createdAt: new Date(),
+    };
+
+    beforeEach(() => {
+      mockContactModel.find.mockReturnValue(
+        execResult([
+          {
+            _id: new Types.ObjectId(),
+            phoneNumber: '+1234567890',
+            firstName: 'John',
+            lastName: 'Doe',
+          },
+        ]),
+      );
+      mockChatGroupModel.find.mockReturnValue(
+        execResult([{ participants: ['1987654321@s.whatsapp.net'] }]),
+      );
+      mockTemplatesService.getTemplateVersion.mockResolvedValue(version);
+      mockTemplatesService.getContactVariables.mockResolvedValue(
+        new Map([['1234567890', { firstName: 'John' }]]),
+      );
+    });
+
+    const templateDto = (): CreateCampaignDto => ({
+      ...createDto,
+      message: {
+        templateId,
+        variables: { code: 'SPRING' },
+      } as unknown as CreateCampaignDto['message'],
+    });
+
+    it('should pin the template version and store recipient variables', async () => {
+      mockTemplatesService.renderVersion.mockReturnValue({ missing: [] });
+      mockTemplatesService.renderOrThrow.mockReturnValue({
+        templateId,
+        version: 3,
+        messageType: 'text',
+        content: 'Hi John, use code SPRING',
+      });
+
+      await service.createCampaign(
+        {
+          ...templateDto(),
+          recipientVariables: { '+1 987 654 321': { firstName: 'Jane' } },
+        },
+        tenantId,
+        userId,
+      );
+
+      expect(MockCampaignModel).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: expect.objectContaining({ templateId, templateVersion: 3 }),
+        }),
+      );
+      expect(mockTemplatesService.renderVersion).toHaveBeenCalledWith(version, {
+        firstName: 'Jane',
+        code: 'SPRING',
+      });
+      expect(mockRecipientModel.insertMany).toHaveBeenCalledWith(
+        expect.arrayContaining([
+          expect.objectContaining({
+            phoneNumber: '+1987654321',
+            variables: { firstName: 'Jane' },
+          }),
+        ]),
+      );
+    });
+
+    it('should reject the campaign when a recipient lacks variables', async () => {
+      mockTemplatesService.renderVersion
+        .mockReturnValueOnce({ missing: [] })
+        .mockReturnValueOnce({ missing: ['firstName'] });
+
+      await expect(
+        service.createCampaign(templateDto(), tenantId, userId),
+      ).rejects.toThrow(
+        'Missing template variables for 1 recipient(s): +1987654321 (firstName)',
+      );
+      expect(MockCampaignModel).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pauseCampaign', () => {
+    it('should pause a running campaign', async () => {
+      MockCampaignModel.findOne.mockReturnValue(execResult(campaign));
+      MockCampaignModel.findOneAndUpdate.mockReturnValue(
+        execResult({ ...campaign, status: 'paused' }),
+      );
+
+      const result = await service.pauseCampaign(campaignId, tenantId);
+
+      expect(result.status).toBe('paused');
+      expect(MockCampaignModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: campaign._id, status: { $in: ['running'] } },
+        expect.objectContaining({ status: 'paused' }),
+        { new: true },
+      );
+    });
+
+    it('should reject campaigns that are not running', async () => {
+      MockCampaignModel.findOne.mockReturnValue(
+        execResult({ ...campaign, status: 'completed' }),
+      );
+      MockCampaignModel.findOneAndUpdate.mockReturnValue(execResult(null));
+
+      await expect(service.pauseCampaign(campaignId, tenantId)).rejects.toThrow(
+        'Campaign cannot be changed while completed',
+      );
+    });
+  });
+
+  describe('cancelCampaign', () => {
+    it('should skip pending recipients and withdraw queued messages', async () => {
+      MockCampaignModel.findOne.mockReturnValue(execResult(campaign));
+      MockCampaignModel.findOneAndUpdate.mockReturnValue(
+        execResult({ ...campaign, status: 'cancelled' }),
+      );
+
+      await service.cancelCampaign(campaignId, tenantId);
+
+      expect(mockRecipientModel.updateMany).toHaveBeenCalledWith(
+        { campaignId: campaign._id, status: 'pending' },
+        { status: 'cancelled' },
+      );
+      expect(mockMessageModel.updateMany).toHaveBeenCalledWith(
+        { campaignId: campaign._id, status: 'pending' },
+        { status: 'cancelled' },
+      );
+    });
+  });
+
+  it('should throw NotFoundException for campaigns of other tenants', async () => {
+    MockCampaignModel.findOne.mockReturnValue(execResult(null));
+
+    await expect(
+      service.findCampaignById(campaignId, tenantId),
+    ).rejects.toThrow(NotFoundException);
+  });
+});
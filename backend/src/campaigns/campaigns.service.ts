@@ -0,0 +1,558 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  Campaign,
+  CampaignDocument,
+  CampaignStatus,
+} from '../database/schemas/campaign.schema';
+import { CampaignRecipient } from '../database/schemas/campaign-recipient.schema';
+import {
+  ChatGroup,
+  ChatGroupDocument,
+} from '../database/schemas/chat-group.schema';
+import { Contact, ContactDocument } from '../database/schemas/contact.schema';
+import { Message } from '../database/schemas/message.schema';
+import { MessageTemplateVersion } from '../database/schemas/message-template.schema';
+import { WhatsAppSession } from '../database/schemas/whatsapp-session.schema';
+import {
+  RenderedTemplate,
+  TemplatesService,
+} from '../templates/templates.service';
+import { TemplateVariables } from '../templates/utils/placeholder.util';
+import { buildOutboundMessage } from '../whatsapp/mappers/outbound-message.mapper';
+import { MediaService } from '../whatsapp/media.service';
+import { jidToPhoneNumber } from '../whatsapp/utils/jid.util';
+import { CampaignRecipientResponseDto } from './dto/campaign-recipient-response.dto';
+import {
+  CampaignResponseDto,
+  CampaignStatsDto,
+} from './dto/campaign-response.dto';
+import {
+  CampaignAudienceDto,
+  CampaignMessageDto,
+  CreateCampaignDto,
+} from './dto/create-campaign.dto';
+import { QueryCampaignRecipientsDto } from './dto/query-campaign-recipients.dto';
+
+interface StatusCount {
+  _id: string;
+  count: number;
+}
+
+function toCountMap(counts: StatusCount[]): Record<string, number> {
+  return Object.fromEntries(counts.map(({ _id, count }) => [_id, count]));
+}
+
+interface ResolvedRecipient {
+  phoneNumber: string;
+  name?: string;
+  contactId?: Types.ObjectId;
+  variables?: TemplateVariables;
+}
+
+// Recipients listed in the error when template variables are missing
+const MAX_REPORTED_RECIPIENTS = 5;
+
+function toDigits(phoneNumber: string): string {
+  return phoneNumber.replace(/\D/g, '');
+}
+
+@Injectable()
+export class CampaignsService {
+  private readonly logger = new Logger(CampaignsService.name);
+  private readonly defaultMessagesPerMinute: number;
+
+  constructor(
+    @InjectModel(Campaign.name) private campaignModel: Model<Campaign>,
+    @InjectModel(CampaignRecipient.name)
+    private recipientModel: Model<CampaignRecipient>,
+    @InjectModel(Contact.name) private contactModel: Model<Contact>,
+    @InjectModel(ChatGroup.name) private chatGroupModel: Model<ChatGroup>,
+    @InjectModel(Message.name) private messageModel: Model<Message>,
+    @InjectModel(WhatsAppSession.name)
+    private whatsappSessionModel: Model<WhatsAppSession>,
+    private mediaService: MediaService,
+    private templatesService: TemplatesService,
+    private configService: ConfigService,
+  ) {
+    this.defaultMessagesPerMinute =
+      this.configService.get<number>('campaigns.defaultMessagesPerMinute') ||
+      30;
+  }
+
+  async createCampaign(
+    createCampaignDto: CreateCampaignDto,
+    tenantId: string,
+    userId: string,
+  ): Promise<CampaignResponseDto> {
+    const { audience, deviceIds } = createCampaignDto;
+
+    const uniqueDeviceIds = [...new Set(deviceIds)];
+    const devices = await this.whatsappSessionModel
+      .countDocuments({
+        _id: { $in: uniqueDeviceIds.map((id) => new Types.ObjectId(id)) },
+        tenantId: new Types.ObjectId(tenantId),
+        isDeleted: false,
+      })
+      .exec();
+    if (devices !== uniqueDeviceIds.length) {
+      throw new NotFoundException('Device not found');
+    }
+
+    const recipients = await this.resolveRecipients(audience, tenantId);
+    if (!recipients.length) {
+      throw new BadRequestException('Campaign audience has no recipients');
+    }
+
+    const recipientVariables = new Map(
+      Object.entries(createCampaignDto.recipientVariables || {}).map(
+        ([phoneNumber, variables]) => [toDigits(phoneNumber), variables],
+      ),
+    );
+    for (const recipient of recipients) {
+      recipient.variables = recipientVariables.get(
+        toDigits(recipient.phoneNumber),
+      );
+    }
+
+    let message: CampaignMessageDto = { ...createCampaignDto.message };
+    let sample: CampaignMessageDto = message;
+    if (message.templateId) {
+      const version = await this.templatesService.getTemplateVersion(
+        message.templateId,
+        tenantId,
+        message.templateVersion,
+      );
+      // Pin the version so later template edits don't change this campaign
+      message = { ...message, templateVersion: version.version };
+      sample = {
+        ...message,
+        ...(await this.renderForRecipients(
+          message,
+          version,
+          recipients,
+          tenantId,
+        )),
+      } as CampaignMessageDto;
+    }
+
+    // Validate the message once instead of failing for every recipient
+    buildOutboundMessage(
+      { ...sample, deviceId: deviceIds[0], phoneNumber: '' },
+      await this.mediaService.getOutboundMedia(sample.mediaId, tenantId),
+    );
+
+    const campaign = await new this.campaignModel({
+      name: createCampaignDto.name,
+      description: createCampaignDto.description,
+      message,
+      audience: {
+        contactIds: (audience.contactIds || []).map(
+          (id) => new Types.ObjectId(id),
+        ),
+        tags: audience.tags || [],
+        groupIds: (audience.groupIds || []).map((id) => new Types.ObjectId(id)),
+      },
+      deviceIds: uniqueDeviceIds.map((id) => new Types.ObjectId(id)),
+      messagesPerMinute:
+        createCampaignDto.messagesPerMinute || this.defaultMessagesPerMinute,
+      status: 'running',
+      totalRecipients: recipients.length,
+      startedAt: new Date(),
+      nextDispatchAt: new Date(),
+      tenantId: new Types.ObjectId(tenantId),
+      createdBy: new Types.ObjectId(userId),
+      isDeleted: false,
+    }).save();
+
+    await this.recipientModel.insertMany(
+      recipients.map((recipient) => ({
+        ...recipient,
+        campaignId: campaign._id,
+        tenantId: campaign.tenantId,
+        status: 'pending',
+      })),
+    );
+
+    this.logger.log(
+      `Campaign ${campaign._id.toString()} started for ${recipients.length} recipient(s)`,
+    );
+
+    return this.mapToCampaignResponse(campaign);
+  }
+
+  async findAllCampaigns(tenantId: string): Promise<CampaignResponseDto[]> {
+    const campaigns = await this.campaignModel
+      .find({ tenantId: new Types.ObjectId(tenantId), isDeleted: false })
+      .sort({ createdAt: -1 })
+      .exec();
+
+    return Promise.all(
+      campaigns.map((campaign) => this.mapToCampaignResponse(campaign)),
+    );
+  }
+
+  async findCampaignById(
+    id: string,
+    tenantId: string,
+  ): Promise<CampaignResponseDto> {
+    return this.mapToCampaignResponse(await this.findCampaign(id, tenantId));
+  }
+
+  async findRecipients(
+    id: string,
+    query: QueryCampaignRecipientsDto,
+    tenantId: string,
+  ): Promise<{
+    recipients: CampaignRecipientResponseDto[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const campaign = await this.findCampaign(id, tenantId);
+    const { page = 1, limit = 50, status } = query;
+    const filter = {
+      campaignId: campaign._id,
+      ...(status && { status }),
+    };
+
+    const [recipients, total] = await Promise.all([
+      this.recipientModel
+        .find(filter)
+        .sort({ _id: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.recipientModel.countDocuments(filter).exec(),
+    ]);
+
+    // Delivery progress lives on the messages
+    const messageIds = recipients
+      .map((recipient) => recipient.messageId)
+      .filter((messageId) => !!messageId);
+    const messages = messageIds.length
+      ? await this.messageModel.find({ _id: { $in: messageIds } }).exec()
+      : [];
+    const messagesById = new Map(
+      messages.map((message) => [message._id.toString(), message]),
+    );
+
+    return {
+      recipients: recipients.map((recipient) => {
+        const message = recipient.messageId
+          ? messagesById.get(recipient.messageId.toString())
+          : undefined;
+        return {
+          id: recipient._id.toString(),
+          phoneNumber: recipient.phoneNumber,
+          name: recipient.name,
+          contactId: recipient.contactId?.toString(),
+          status: this.toRecipientStatus(recipient.status, message?.status),
+          deviceId: recipient.deviceId?.toString(),
+          messageId: recipient.messageId?.toString(),
+          errorMessage: message?.errorMessage || recipient.errorMessage,
+          sentAt: message?.status === 'pending' ? undefined : message?.sentAt,
+          deliveredAt: message?.deliveredAt,
+          readAt: message?.readAt,
+        };
+      }),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async pauseCampaign(
+    id: string,
+    tenantId: string,
+  ): Promise<CampaignResponseDto> {
+    return this.transition(id, tenantId, ['running'], {
+      status: 'paused',
+      pausedAt: new Date(),
+    });
+  }
+
+  async resumeCampaign(
+    id: string,
+    tenantId: string,
+  ): Promise<CampaignResponseDto> {
+    return this.transition(id, tenantId, ['paused'], {
+      status: 'running',
+      pausedAt: null,
+      nextDispatchAt: new Date(),
+    });
+  }
+
+  /**
+   * Stops the campaign. Recipients not sent to yet are skipped and queued
+   * messages that haven't been sent are withdrawn from the outbound queue.
+   */
+  async cancelCampaign(
+    id: string,
+    tenantId: string,
+  ): Promise<CampaignResponseDto> {
+    const campaign = await this.transition(
+      id,
+      tenantId,
+      ['running', 'paused'],
+      { status: 'cancelled', completedAt: new Date() },
+    );
+    const campaignId = new Types.ObjectId(campaign.id);
+
+    await Promise.all([
+      this.recipientModel
+        .updateMany({ campaignId, status: 'pending' }, { status: 'cancelled' })
+        .exec(),
+      this.messageModel
+        .updateMany({ campaignId, status: 'pending' }, { status: 'cancelled' })
+        .exec(),
+    ]);
+
+    this.logger.log(`Campaign ${id} cancelled`);
+    return this.findCampaignById(id, tenantId);
+  }
+
+  private async transition(
+    id: string,
+    tenantId: string,
+    from: CampaignStatus[],
+    update: Partial<Campaign>,
+  ): Promise<CampaignResponseDto> {
+    const campaign = await this.findCampaign(id, tenantId);
+
+    const updated = await this.campaignModel
+      .findOneAndUpdate(
+        { _id: campaign._id, status: { $in: from } },
+        { ...update, updatedAt: new Date() },
+        { new: true },
+      )
+      .exec();
+
+    if (!updated) {
+      throw new BadRequestException(
+        `Campaign cannot be changed while ${campaign.status}`,
+      );
+    }
+
+    return this.mapToCampaignResponse(updated);
+  }
+
+  private async findCampaign(
+    id: string,
+    tenantId: string,
+  ): Promise<CampaignDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Campaign not found');
+    }
+
+    const campaign = await this.campaignModel
+      .findOne({
+        _id: new Types.ObjectId(id),
+        tenantId: new Types.ObjectId(tenantId),
+        isDeleted: false,
+      })
+      .exec();
+
+    if (!campaign) {
+      throw new NotFoundException('Campaign not found');
+    }
+
+    return campaign;
+  }
+
+  /**
+   * Renders the template for every recipient up front, so a missing variable
+   * rejects the campaign instead of failing recipients one by one. Returns
+   * the rendering for the first recipient.
+   */
+  private async renderForRecipients(
+    message: CampaignMessageDto,
+    version: MessageTemplateVersion,
+    recipients: ResolvedRecipient[],
+    tenantId: string,
+  ): Promise<RenderedTemplate> {
+    const contactVariables = await this.templatesService.getContactVariables(
+      recipients.map((recipient) => recipient.phoneNumber),
+      tenantId,
+    );
+
+    const incomplete: string[] = [];
+    const rendered = recipients.map((recipient) => {
+      const variables = {
+        ...contactVariables.get(toDigits(recipient.phoneNumber)),
+        ...message.variables,
+        ...recipient.variables,
+      };
+      const { missing } = this.templatesService.renderVersion(
+        version,
+        variables,
+      );
+      if (missing.length) {
+        incomplete.push(`${recipient.phoneNumber} (${missing.join(', ')})`);
+      }
+      return variables;
+    });
+
+    if (incomplete.length) {
+      const more = incomplete.length - MAX_REPORTED_RECIPIENTS;
+      throw new BadRequestException(
+        `Missing template variables for ${incomplete.length} recipient(s): ` +
+          incomplete.slice(0, MAX_REPORTED_RECIPIENTS).join('; ') +
+          (more > 0 ? ` and ${more} more` : ''),
+      );
+    }
+
+    return this.templatesService.renderOrThrow(
+      message.templateId,
+      version,
+      rendered[0],
+    );
+  }
+
+  /**
+   * Collects the recipients of an audience. A phone number reached through
+   * several sources (e.g. a tagged contact who is also a group participant)
+   * is only sent to once.
+   */
+  private async resolveRecipients(
+    audience: CampaignAudienceDto,
+    tenantId: string,
+  ): Promise<ResolvedRecipient[]> {
+    const tenant = new Types.ObjectId(tenantId);
+    const contactFilters = [
+      ...(audience.contactIds?.length
+        ? [
+            {
+              _id: {
+                $in: audience.contactIds.map((id) => new Types.ObjectId(id)),
+              },
+            },
+          ]
+        : []),
+      ...(audience.tags?.length ? [{ tags: { $in: audience.tags } }] : []),
+    ];
+
+    const [contacts, groups]: [ContactDocument[], ChatGroupDocument[]] =
+      await Promise.all([
+        contactFilters.length
+          ? this.contactModel
+              .find({
+                tenantId: tenant,
+                isDeleted: false,
+                isGroup: { $ne: true },
+                $or: contactFilters,
+              })
+              .exec()
+          : Promise.resolve([]),
+        audience.groupIds?.length
+          ? this.chatGroupModel
+              .find({
+                _id: {
+                  $in: audience.groupIds.map((id) => new Types.ObjectId(id)),
+                },
+                tenantId: tenant,
+                isDeleted: false,
+              })
+              .exec()
+          : Promise.resolve([]),
+      ]);
+
+    const recipients = new Map<string, ResolvedRecipient>();
+    const add = (phoneNumber: string, details: Partial<ResolvedRecipient>) => {
+      const key = toDigits(phoneNumber);
+      if (key && !recipients.has(key)) {
+        recipients.set(key, { phoneNumber, ...details });
+      }
+    };
+
+    for (const contact of contacts) {
+      add(contact.phoneNumber, {
+        name:
+          [contact.firstName, contact.lastName].filter(Boolean).join(' ') ||
+          contact.name,
+        contactId: contact._id,
+      });
+    }
+    for (const group of groups) {
+      for (const participant of group.participants || []) {
+        add(
+          participant.includes('@')
+            ? jidToPhoneNumber(participant)
+            : participant,
+          {},
+        );
+      }
+    }
+
+    return [...recipients.values()];
+  }
+
+  private async getStats(
+    campaign: CampaignDocument,
+  ): Promise<CampaignStatsDto> {
+    const pipeline = [
+      { $match: { campaignId: campaign._id } },
+      { $group: { _id: '$status', count: { $sum: 1 } } },
+    ];
+    const [recipientCounts, messageCounts] = await Promise.all([
+      this.recipientModel.aggregate<StatusCount>(pipeline).exec(),
+      this.messageModel.aggregate<StatusCount>(pipeline).exec(),
+    ]);
+    const recipients = toCountMap(recipientCounts);
+    const messages = toCountMap(messageCounts);
+
+    // Messages are counted by their current status, e.g. read ones only as read
+    return {
+      total: campaign.totalRecipients,
+      pending: (recipients.pending || 0) + (recipients.processing || 0),
+      queued: messages.pending || 0,
+      sent: messages.sent || 0,
+      delivered: messages.delivered || 0,
+      read: messages.read || 0,
+      failed: (recipients.failed || 0) + (messages.failed || 0),
+      cancelled: (recipients.cancelled || 0) + (messages.cancelled || 0),
+    };
+  }
+
+  private toRecipientStatus(
+    recipientStatus: string,
+    messageStatus?: string,
+  ): string {
+    if (!messageStatus) {
+      return recipientStatus === 'processing' ? 'pending' : recipientStatus;
+    }
+    return messageStatus === 'pending' ? 'queued' : messageStatus;
+  }
+
+  private async mapToCampaignResponse(
+    campaign: CampaignDocument,
+  ): Promise<CampaignResponseDto> {
+    return {
+      id: campaign._id.toString(),
+      name: campaign.name,
+      description: campaign.description,
+      status: campaign.status,
+      message: campaign.message,
+      audience: {
+        contactIds: campaign.audience.contactIds.map((id) => id.toString()),
+        tags: campaign.audience.tags,
+        groupIds: campaign.audience.groupIds.map((id) => id.toString()),
+      },
+      deviceIds: campaign.deviceIds.map((id) => id.toString()),
+      messagesPerMinute: campaign.messagesPerMinute,
+      stats: await this.getStats(campaign),
+      startedAt: campaign.startedAt,
+      completedAt: campaign.completedAt,
+      tenantId: campaign.tenantId.toString(),
+      createdBy: campaign.createdBy.toString(),
+      createdAt: (campaign as any).createdAt,
+    };
+  }
+}
@@ -0,0 +1,87 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CampaignRecipientResponseDto {
+  @ApiProperty({
+    description: 'Recipient ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Recipient phone number',
+    example: '+1234567890',
+  })
+  phoneNumber: string;
+
+  @ApiProperty({
+    description: 'Recipient name',
+    example: 'John Doe',
+    required: false,
+  })
+  name?: string;
+
+  @ApiProperty({
+    description: 'Contact ID, if the recipient is a saved contact',
+    example: '507f1f77bcf86cd799439012',
+    required: false,
+  })
+  contactId?: string;
+
+  @ApiProperty({
+    description:
+      'Progress of the recipient: the message status once queued, otherwise the dispatch status',
+    example: 'delivered',
+    enum: [
+      'pending',
+      'queued',
+      'sent',
+      'delivered',
+      'read',
+      'failed',
+      'cancelled',
+    ],
+  })
+  status: string;
+
+  @ApiProperty({
+    description: 'Device the message was sent from',
+    example: '507f1f77bcf86cd799439013',
+    required: false,
+  })
+  deviceId?: string;
+
+  @ApiProperty({
+    description: 'Message ID',
+    example: '507f1f77bcf86cd799439014',
+    required: false,
+  })
+  messageId?: string;
+
+  @ApiProperty({
+    description: 'Error message (if failed)',
+    example: 'Device is not connected',
+    required: false,
+  })
+  errorMessage?: string;
+
+  @ApiProperty({
+    description: 'Sent timestamp',
+    example: '2024-01-15T10:30:00.000Z',
+    required: false,
+  })
+  sentAt?: Date;
+
+  @ApiProperty({
+    description: 'Delivered timestamp',
+    example: '2024-01-15T10:31:00.000Z',
+    required: false,
+  })
+  deliveredAt?: Date;
+
+  @ApiProperty({
+    description: 'Read timestamp',
+    example: '2024-01-15T10:32:00.000Z',
+    required: false,
+  })
+  readAt?: Date;
+}
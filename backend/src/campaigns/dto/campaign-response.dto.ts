@@ -0,0 +1,114 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CampaignStatsDto {
+  @ApiProperty({ description: 'Recipients in the audience', example: 120 })
+  total: number;
+
+  @ApiProperty({ description: 'Recipients not sent to yet', example: 40 })
+  pending: number;
+
+  @ApiProperty({
+    description: 'Messages waiting in the outbound queue',
+    example: 5,
+  })
+  queued: number;
+
+  @ApiProperty({ description: 'Messages sent', example: 30 })
+  sent: number;
+
+  @ApiProperty({ description: 'Messages delivered', example: 25 })
+  delivered: number;
+
+  @ApiProperty({ description: 'Messages read', example: 15 })
+  read: number;
+
+  @ApiProperty({
+    description: 'Recipients whose message failed or could not be queued',
+    example: 5,
+  })
+  failed: number;
+
+  @ApiProperty({ description: 'Recipients skipped by cancelling', example: 0 })
+  cancelled: number;
+}
+
+export class CampaignResponseDto {
+  @ApiProperty({
+    description: 'Campaign ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  id: string;
+
+  @ApiProperty({ description: 'Campaign name', example: 'Spring sale' })
+  name: string;
+
+  @ApiProperty({
+    description: 'Campaign description',
+    example: 'Announces the spring sale to VIP customers',
+    required: false,
+  })
+  description?: string;
+
+  @ApiProperty({
+    description: 'Campaign status',
+    example: 'running',
+    enum: ['running', 'paused', 'completed', 'cancelled'],
+  })
+  status: string;
+
+  @ApiProperty({
+    description: 'Message sent to every recipient',
+    example: { messageType: 'text', content: 'Our spring sale starts today!' },
+  })
+  message: Record<string, any>;
+
+  @ApiProperty({
+    description: 'Audience the recipients were resolved from',
+    example: { contactIds: [], tags: ['vip'], groupIds: [] },
+  })
+  audience: { contactIds: string[]; tags: string[]; groupIds: string[] };
+
+  @ApiProperty({
+    description: 'Devices the campaign sends from',
+    example: ['507f1f77bcf86cd799439012'],
+  })
+  deviceIds: string[];
+
+  @ApiProperty({ description: 'Messages per minute', example: 30 })
+  messagesPerMinute: number;
+
+  @ApiProperty({ description: 'Progress of the campaign' })
+  stats: CampaignStatsDto;
+
+  @ApiProperty({
+    description: 'Start timestamp',
+    example: '2024-01-15T10:30:00.000Z',
+    required: false,
+  })
+  startedAt?: Date;
+
+  @ApiProperty({
+    description: 'Completion timestamp',
+    example: '2024-01-15T12:30:00.000Z',
+    required: false,
+  })
+  completedAt?: Date;
+
+  @ApiProperty({
+    description: 'Tenant ID',
+    example: '507f1f77bcf86cd799439013',
+  })
+  tenantId: string;
+
+  @ApiProperty({
+    description: 'User who created the campaign',
+    example: '507f1f77bcf86cd799439014',
+  })
+  createdBy: string;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2024-01-15T10:30:00.000Z',
+  })
+  createdAt: Date;
+}
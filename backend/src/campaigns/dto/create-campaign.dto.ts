@@ -0,0 +1,129 @@
+import { ApiProperty, PickType } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsInt,
+  IsMongoId,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { SendMessageDto } from '../../whatsapp/dto/send-message.dto';
+
+export class CampaignMessageDto extends PickType(SendMessageDto, [
+  'messageType',
+  'content',
+  'caption',
+  'mediaId',
+  'fileName',
+  'mimetype',
+  'location',
+  'contact',
+  'templateId',
+  'templateVersion',
+  'variables',
+] as const) {}
+
+export class CampaignAudienceDto {
+  @ApiProperty({
+    description: 'Contact IDs to send to',
+    example: ['507f1f77bcf86cd799439011'],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray({ message: 'Contact IDs must be an array' })
+  @IsMongoId({ each: true, message: 'Each contact ID must be a valid ID' })
+  contactIds?: string[];
+
+  @ApiProperty({
+    description: 'Send to all contacts with any of these tags',
+    example: ['vip', 'newsletter'],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray({ message: 'Tags must be an array' })
+  @IsString({ each: true, message: 'Each tag must be a string' })
+  tags?: string[];
+
+  @ApiProperty({
+    description: 'Chat group IDs whose participants are sent to',
+    example: ['507f1f77bcf86cd799439013'],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray({ message: 'Group IDs must be an array' })
+  @IsMongoId({ each: true, message: 'Each group ID must be a valid ID' })
+  groupIds?: string[];
+}
+
+export class CreateCampaignDto {
+  @ApiProperty({
+    description: 'Campaign name',
+    example: 'Spring sale',
+  })
+  @IsString({ message: 'Campaign name must be a string' })
+  @IsNotEmpty({ message: 'Campaign name is required' })
+  @MaxLength(100, { message: 'Campaign name must not exceed 100 characters' })
+  name: string;
+
+  @ApiProperty({
+    description: 'Campaign description',
+    example: 'Announces the spring sale to VIP customers',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'Description must be a string' })
+  description?: string;
+
+  @ApiProperty({
+    description: 'Message sent to every recipient',
+    type: CampaignMessageDto,
+  })
+  @ValidateNested()
+  @Type(() => CampaignMessageDto)
+  message: CampaignMessageDto;
+
+  @ApiProperty({
+    description: 'Recipients of the campaign. Duplicates are sent to once',
+    type: CampaignAudienceDto,
+  })
+  @ValidateNested()
+  @Type(() => CampaignAudienceDto)
+  audience: CampaignAudienceDto;
+
+  @ApiProperty({
+    description:
+      'Template variables per recipient, keyed by phone number. They take precedence over contact fields and message variables',
+    example: { '+1234567890': { orderNumber: 'A-1001' } },
+    required: false,
+  })
+  @IsOptional()
+  @IsObject({ message: 'Recipient variables must be an object' })
+  recipientVariables?: Record<string, Record<string, string>>;
+
+  @ApiProperty({
+    description: 'Devices to send from. Recipients are spread across them',
+    example: ['507f1f77bcf86cd799439012'],
+  })
+  @IsArray({ message: 'Device IDs must be an array' })
+  @ArrayNotEmpty({ message: 'At least one device is required' })
+  @IsMongoId({ each: true, message: 'Each device ID must be a valid ID' })
+  deviceIds: string[];
+
+  @ApiProperty({
+    description: 'Maximum messages per minute across all devices',
+    example: 30,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Messages per minute must be an integer' })
+  @Min(1, { message: 'Messages per minute must be at least 1' })
+  @Max(600, { message: 'Messages per minute cannot exceed 600' })
+  messagesPerMinute?: number;
+}
@@ -0,0 +1,41 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsEnum, IsNumber, IsOptional, Max, Min } from 'class-validator';
+
+export class QueryCampaignRecipientsDto {
+  @ApiProperty({
+    description: 'Page number for pagination',
+    example: 1,
+    default: 1,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'Page must be a number' })
+  @Min(1, { message: 'Page must be at least 1' })
+  page?: number = 1;
+
+  @ApiProperty({
+    description: 'Number of items per page',
+    example: 50,
+    default: 50,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'Limit must be a number' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(200, { message: 'Limit cannot exceed 200' })
+  limit?: number = 50;
+
+  @ApiProperty({
+    description: 'Filter by dispatch status',
+    enum: ['pending', 'queued', 'failed', 'cancelled'],
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(['pending', 'queued', 'failed', 'cancelled'], {
+    message: 'Invalid recipient status',
+  })
+  status?: 'pending' | 'queued' | 'failed' | 'cancelled';
+}
@@ -11,6 +11,11 @@ export interface GroupPermissions {
   canLinkDevices: boolean;
   canSendMessages: boolean;
   canViewLogs: boolean;
+  canManageWebhooks: boolean;
+  canClaimConversations: boolean;
+  canManageRouting: boolean;
+  canManageAutoReplies: boolean;
+  canManageSettings: boolean;
 }
 
 export const GROUP_PERMISSIONS: Record<UserGroup, GroupPermissions> = {
@@ -21,6 +26,11 @@ export const GROUP_PERMISSIONS: Record<UserGroup, GroupPermissions> = {
     canLinkDevices: true,
     canSendMessages: true,
     canViewLogs: true,
+    canManageWebhooks: true,
+    canClaimConversations: true,
+    canManageRouting: true,
+    canManageAutoReplies: true,
+    canManageSettings: true,
   },
   [UserGroup.EDITOR]: {
     canCreateUsers: false,
@@ -29,6 +39,11 @@ export const GROUP_PERMISSIONS: Record<UserGroup, GroupPermissions> = {
     canLinkDevices: true,
     canSendMessages: true,
     canViewLogs: true,
+    canManageWebhooks: false,
+    canClaimConversations: true,
+    canManageRouting: false,
+    canManageAutoReplies: false,
+    canManageSettings: false,
   },
   [UserGroup.VIEWER]: {
     canCreateUsers: false,
@@ -37,5 +52,28 @@ export const GROUP_PERMISSIONS: Record<UserGroup, GroupPermissions> = {
     canLinkDevices: false,
     canSendMessages: false,
     canViewLogs: true,
+    canManageWebhooks: false,
+    canClaimConversations: false,
+    canManageRouting: false,
+    canManageAutoReplies: false,
+    canManageSettings: false,
   },
 };
+
+/**
+ * Resolves a permission for a user group, custom permissions take precedence
+ * over the defaults of the group type.
+ */
+export function hasGroupPermission(
+  userGroup: {
+    groupType: UserGroup;
+    customPermissions?: Partial<GroupPermissions>;
+  },
+  permission: keyof GroupPermissions,
+): boolean {
+  return (
+    userGroup.customPermissions?.[permission] ??
+    GROUP_PERMISSIONS[userGroup.groupType]?.[permission] ??
+    false
+  );
+}
@@ -0,0 +1,90 @@
+import {
+  BusinessHoursInterval,
+  findHoliday,
+  isWithinBusinessHours,
+  toLocalDateTime,
+} from './business-hours.util';
+
+describe('business-hours.util', () => {
+  describe('isWithinBusinessHours', () => {
+    const weekdays: BusinessHoursInterval[] = [1, 2, 3, 4, 5].map((day) => ({
+      day,
+      open: '09:00',
+      close: '17:00',
+    }));
+
+    it('should read the time in the given time zone', () => {
+      // Monday 08:30 UTC is 09:30 in Berlin
+      const date = new Date('2024-01-15T08:30:00Z');
+
+      expect(isWithinBusinessHours(date, weekdays, 'Europe/Berlin')).toBe(true);
+      expect(isWithinBusinessHours(date, weekdays, 'UTC')).toBe(false);
+    });
+
+    it('should end intervals at their closing time', () => {
+      expect(
+        isWithinBusinessHours(
+          new Date('2024-01-15T16:59:00Z'),
+          weekdays,
+          'UTC',
+        ),
+      ).toBe(true);
+      expect(
+        isWithinBusinessHours(
+          new Date('2024-01-15T17:00:00Z'),
+          weekdays,
+          'UTC',
+        ),
+      ).toBe(false);
+    });
+
+    it('should use the local weekday', () => {
+      // Friday 23:30 in New York is already Saturday in UTC
+      const date = new Date('2024-01-20T04:30:00Z');
+      const lateFriday = [{ day: 5, open: '20:00', close: '24:00' }];
+
+      expect(isWithinBusinessHours(date, lateFriday, 'America/New_York')).toBe(
+        true,
+      );
+      expect(isWithinBusinessHours(date, lateFriday, 'UTC')).toBe(false);
+    });
+
+    it('should be closed without intervals', () => {
+      expect(isWithinBusinessHours(new Date(), [], 'UTC')).toBe(false);
+    });
+  });
+
+  describe('findHoliday', () => {
+    const holidays = [
+      { date: '2024-12-25', name: 'Christmas', recurring: true },
+      { date: '2024-05-09', name: 'Ascension' },
+    ];
+
+    it('should match the local date', () => {
+      // 23:30 UTC on the 24th is already the 25th in Berlin
+      const date = new Date('2024-12-24T23:30:00Z');
+
+      expect(findHoliday(date, holidays, 'Europe/Berlin')?.name).toBe(
+        'Christmas',
+      );
+      expect(findHoliday(date, holidays, 'UTC')).toBeUndefined();
+    });
+
+    it('should repeat recurring holidays every year', () => {
+      expect(
+        findHoliday(new Date('2025-12-25T12:00:00Z'), holidays, 'UTC')?.name,
+      ).toBe('Christmas');
+      expect(
+        findHoliday(new Date('2025-05-09T12:00:00Z'), holidays, 'UTC'),
+      ).toBeUndefined();
+    });
+  });
+
+  describe('toLocalDateTime', () => {
+    it('should format the wall clock time in the time zone', () => {
+      expect(
+        toLocalDateTime(new Date('2024-07-01T10:15:00Z'), 'Europe/Berlin'),
+      ).toBe('2024-07-01T12:15');
+    });
+  });
+});
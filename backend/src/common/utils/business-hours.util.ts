@@ -0,0 +1,72 @@
+import { getTimeZoneOffset } from './time-zone.util';
+
+/** Opening hours on one weekday, in local time of the business. */
+export interface BusinessHoursInterval {
+  day: number; // 0 (Sunday) to 6 (Saturday)
+  open: string; // HH:mm
+  close: string; // HH:mm, 24:00 for midnight
+}
+
+/** A day the business is closed, in local time of the business. */
+export interface Holiday {
+  date: string; // YYYY-MM-DD
+  name?: string;
+  recurring?: boolean; // Every year on the same month and day
+}
+
+// HH:mm from 00:00 to 24:00
+export const TIME_OF_DAY_PATTERN = /^(?:(?:[01]\d|2[0-3]):[0-5]\d|24:00)$/;
+
+export const DATE_PATTERN = /^\d{4}-(?:0[1-9]|1[0-2])-(?:0[1-9]|[12]\d|3[01])$/;
+
+/**
+ * Whether the instant falls into one of the opening intervals, read in the
+ * given time zone. Intervals end at their closing time.
+ */
+export function isWithinBusinessHours(
+  date: Date,
+  intervals: BusinessHoursInterval[],
+  timeZone: string,
+): boolean {
+  const local = new Date(date.getTime() + getTimeZoneOffset(date, timeZone));
+  const day = local.getUTCDay();
+  const minutes = local.getUTCHours() * 60 + local.getUTCMinutes();
+
+  return intervals.some(
+    (interval) =>
+      interval.day === day &&
+      toMinutes(interval.open) <= minutes &&
+      minutes < toMinutes(interval.close),
+  );
+}
+
+/** Holiday falling on the local date of the instant, if any. */
+export function findHoliday(
+  date: Date,
+  holidays: Holiday[],
+  timeZone: string,
+): Holiday | undefined {
+  const localDate = toLocalDate(date, timeZone);
+
+  return holidays.find((holiday) =>
+    holiday.recurring
+      ? holiday.date.slice(5) === localDate.slice(5)
+      : holiday.date === localDate,
+  );
+}
+
+/** YYYY-MM-DDTHH:mm wall clock time of the instant in the time zone. */
+export function toLocalDateTime(date: Date, timeZone: string): string {
+  return new Date(date.getTime() + getTimeZoneOffset(date, timeZone))
+    .toISOString()
+    .slice(0, 16);
+}
+
+function toLocalDate(date: Date, timeZone: string): string {
+  return toLocalDateTime(date, timeZone).slice(0, 10);
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
@@ -0,0 +1,13 @@
+/**
+ * Origins allowed to call the API and open the realtime socket. Read on
+ * every call so `FRONTEND_URL` from `.env` is picked up once loaded.
+ */
+export function getCorsOrigins(): string[] {
+  return [
+    'http://localhost:5173',
+    'http://localhost:3000',
+    'http://127.0.0.1:5173',
+    'http://127.0.0.1:3000',
+    process.env.FRONTEND_URL,
+  ].filter(Boolean);
+}
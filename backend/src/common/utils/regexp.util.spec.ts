@@ -0,0 +1,50 @@
+import { escapeRegExp, findPatternHazard } from './regexp.util';
+
+describe('regexp.util', () => {
+  describe('escapeRegExp', () => {
+    it('should match the value literally', () => {
+      expect(new RegExp(escapeRegExp('a.b*(c)')).test('a.b*(c)')).toBe(true);
+      expect(new RegExp(escapeRegExp('a.b')).test('axb')).toBe(false);
+    });
+  });
+
+  describe('findPatternHazard', () => {
+    it.each([
+      '^order\\s*#?\\d+$',
+      '(refund|return) policy',
+      '\\b(hi|hello)\\b',
+      '^[a-z0-9 ]{2,20}$',
+      '(ab)+',
+      '(\\d{3})?-\\d{4}',
+      'price of .* please',
+      '\\p{L}+ \\u{1F600}',
+      'a{2}b{3}c{4}',
+      '[(+*]+',
+    ])('should allow %s', (pattern) => {
+      expect(findPatternHazard(pattern)).toBeNull();
+    });
+
+    it.each([
+      ['(a+)+$', 'repeated groups must not contain repetitions'],
+      ['(?:\\w*)*x', 'repeated groups must not contain repetitions'],
+      ['((ab)*c)+', 'repeated groups must not contain repetitions'],
+      ['(a+){10}', 'repeated groups must not contain repetitions'],
+      ['(a|aa)+$', 'repeated groups must not contain alternatives'],
+      ['(x(a|b)y)*', 'repeated groups must not contain alternatives'],
+      ['(a)\\1', 'backreferences are not allowed'],
+      ['(?<x>a)\\k<x>', 'backreferences are not allowed'],
+      ['(?=a)a', 'lookarounds are not allowed'],
+      ['(?<!a)b', 'lookarounds are not allowed'],
+      ['\\d+\\d+\\d+x', 'at most 2 variable repetitions are allowed'],
+      ['a{1,9}b*c+', 'at most 2 variable repetitions are allowed'],
+    ])('should refuse %s', (pattern, hazard) => {
+      expect(findPatternHazard(pattern)).toContain(hazard);
+    });
+
+    it('should refuse catastrophic patterns quickly', () => {
+      const hazard = findPatternHazard('^(([a-z])+.)+[A-Z]([a-z])+$');
+
+      expect(hazard).not.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,101 @@
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Each variable repetition multiplies the ways a failing match is retried
+const MAX_VARIABLE_REPETITIONS = 2;
+
+interface GroupFacts {
+  repeats: boolean;
+  alternates: boolean;
+}
+
+/**
+ * Returns why a user-supplied pattern could backtrack for a long time on
+ * some input, or null if it can't. JavaScript regular expressions backtrack,
+ * so `(a+)+$` takes exponential time on a long run of `a`s. This is
+ * deliberately strict: repeated groups may not contain repetitions or
+ * alternatives, lookarounds and backreferences are refused, and only a few
+ * variable repetitions are allowed, which keeps matching at most quadratic.
+ */
+export function findPatternHazard(pattern: string): string | null {
+  const groups: GroupFacts[] = [{ repeats: false, alternates: false }];
+  // Set while the previous token is a group, which a quantifier applies to
+  let closedGroup: GroupFacts | null = null;
+  let variableRepetitions = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const group = groups[groups.length - 1];
+
+    if (char === '\\') {
+      const next = pattern[i + 1];
+      if (/[1-9k]/.test(next ?? '')) {
+        return 'backreferences are not allowed';
+      }
+      i++;
+      // \p{...} and \u{...}
+      if (pattern[i + 1] === '{' && /[pPu]/.test(next ?? '')) {
+        i = Math.max(pattern.indexOf('}', i), i);
+      }
+      closedGroup = null;
+    } else if (char === '[') {
+      // Character classes always match a single character
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') {
+          i++;
+        }
+      }
+      closedGroup = null;
+    } else if (char === '(') {
+      if (/^\(\?<?[=!]/.test(pattern.slice(i))) {
+        return 'lookarounds are not allowed';
+      }
+      groups.push({ repeats: false, alternates: false });
+      closedGroup = null;
+    } else if (char === ')') {
+      if (groups.length === 1) {
+        return null; // Unbalanced, the pattern doesn't compile anyway
+      }
+      closedGroup = groups.pop();
+      const parent = groups[groups.length - 1];
+      parent.repeats ||= closedGroup.repeats;
+      parent.alternates ||= closedGroup.alternates;
+    } else if (char === '|') {
+      group.alternates = true;
+      closedGroup = null;
+    } else if ('*+?{'.includes(char)) {
+      let variable = char !== '?';
+      if (char === '{') {
+        const bounds = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(i));
+        if (!bounds) {
+          closedGroup = null;
+          continue; // A literal brace
+        }
+        variable = bounds[2] !== undefined && bounds[3] !== bounds[1];
+        i += bounds[0].length - 1;
+      }
+      if (pattern[i + 1] === '?') {
+        i++; // Lazy quantifiers backtrack just the same
+      }
+
+      if (closedGroup?.repeats && char !== '?') {
+        return 'repeated groups must not contain repetitions';
+      }
+      if (closedGroup?.alternates && variable) {
+        return 'repeated groups must not contain alternatives, use a character class';
+      }
+      if (variable) {
+        group.repeats = true;
+        if (++variableRepetitions > MAX_VARIABLE_REPETITIONS) {
+          return `at most ${MAX_VARIABLE_REPETITIONS} variable repetitions are allowed`;
+        }
+      }
+      closedGroup = null;
+    } else {
+      closedGroup = null;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,64 @@
+import {
+  getTimeZoneOffset,
+  isValidTimeZone,
+  parseDateTimeInZone,
+} from './time-zone.util';
+
+describe('time-zone.util', () => {
+  describe('isValidTimeZone', () => {
+    it('should accept IANA time zones', () => {
+      expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+      expect(isValidTimeZone('UTC')).toBe(true);
+    });
+
+    it('should reject unknown time zones', () => {
+      expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    });
+  });
+
+  describe('getTimeZoneOffset', () => {
+    it('should return the offset including daylight saving time', () => {
+      const hour = 60 * 60 * 1000;
+      expect(
+        getTimeZoneOffset(new Date('2024-01-15T12:00:00Z'), 'Europe/Berlin'),
+      ).toBe(hour);
+      expect(
+        getTimeZoneOffset(new Date('2024-07-15T12:00:00Z'), 'Europe/Berlin'),
+      ).toBe(2 * hour);
+      expect(
+        getTimeZoneOffset(new Date('2024-07-15T12:00:00Z'), 'Asia/Kolkata'),
+      ).toBe(5.5 * hour);
+    });
+  });
+
+  describe('parseDateTimeInZone', () => {
+    it('should read local times in the given time zone', () => {
+      expect(
+        parseDateTimeInZone('2024-01-20T09:00:00', 'Europe/Berlin'),
+      ).toEqual(new Date('2024-01-20T08:00:00.000Z'));
+      expect(
+        parseDateTimeInZone('2024-07-20T09:00', 'America/New_York'),
+      ).toEqual(new Date('2024-07-20T13:00:00.000Z'));
+    });
+
+    it('should handle times right after a daylight saving change', () => {
+      // Clocks in Berlin moved from 02:00 to 03:00 on 2024-03-31
+      expect(
+        parseDateTimeInZone('2024-03-31T03:30:00', 'Europe/Berlin'),
+      ).toEqual(new Date('2024-03-31T01:30:00.000Z'));
+    });
+
+    it('should keep explicit offsets', () => {
+      expect(
+        parseDateTimeInZone('2024-01-20T09:00:00+05:30', 'Europe/Berlin'),
+      ).toEqual(new Date('2024-01-20T03:30:00.000Z'));
+      expect(
+        parseDateTimeInZone('2024-01-20T09:00:00Z', 'Europe/Berlin'),
+      ).toEqual(new Date('2024-01-20T09:00:00.000Z'));
+    });
+
+    it('should return null for invalid values', () => {
+      expect(parseDateTimeInZone('next tuesday', 'UTC')).toBeNull();
+    });
+  });
+});
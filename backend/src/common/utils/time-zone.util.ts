@@ -0,0 +1,80 @@
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+// ISO 8601 date-times that carry their own offset, e.g. `...Z` or `...+02:00`
+const OFFSET_PATTERN = /(?:Z|[+-]\d{2}(?::?\d{2})?)$/i;
+
+const LOCAL_DATE_TIME_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?)?$/;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of the time zone from UTC at the given instant, in milliseconds
+ * (positive east of Greenwich).
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const value = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  const wallClock = Date.UTC(
+    value('year'),
+    value('month') - 1,
+    value('day'),
+    value('hour'),
+    value('minute'),
+    value('second'),
+  );
+  return wallClock - (date.getTime() - date.getMilliseconds());
+}
+
+/**
+ * Converts a date-time in the given time zone to an instant. Values with an
+ * explicit offset are absolute and ignore the time zone. Returns `null` for
+ * values that can't be parsed.
+ */
+export function parseDateTimeInZone(
+  value: string,
+  timeZone: string,
+): Date | null {
+  if (OFFSET_PATTERN.test(value)) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const match = LOCAL_DATE_TIME_PATTERN.exec(value);
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hour, minute, second, millis] = match;
+  const wallClock = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour || 0),
+    Number(minute || 0),
+    Number(second || 0),
+    Number((millis || '0').padEnd(3, '0')),
+  );
+
+  // The offset at the wall clock time is off by the DST shift around
+  // transitions, so correct it once with the offset at the first guess
+  const guess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  return new Date(wallClock - getTimeZoneOffset(new Date(guess), timeZone));
+}
@@ -0,0 +1,22 @@
+import { parseTrustProxy } from './trust-proxy.util';
+
+describe('trust-proxy.util', () => {
+  describe('parseTrustProxy', () => {
+    it('should trust no proxy when unset or false', () => {
+      expect(parseTrustProxy(undefined)).toBe(false);
+      expect(parseTrustProxy('')).toBe(false);
+      expect(parseTrustProxy('false')).toBe(false);
+    });
+
+    it('should read true and numbers of hops', () => {
+      expect(parseTrustProxy('true')).toBe(true);
+      expect(parseTrustProxy('1')).toBe(1);
+    });
+
+    it('should pass addresses and subnets on as they are', () => {
+      expect(parseTrustProxy(' loopback, 10.0.0.0/8 ')).toBe(
+        'loopback, 10.0.0.0/8',
+      );
+    });
+  });
+});
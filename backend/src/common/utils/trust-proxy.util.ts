@@ -0,0 +1,22 @@
+/**
+ * Reads `TRUST_PROXY` as Express' `trust proxy` setting, which decides
+ * whether the client IP is taken from `X-Forwarded-For`: `true`, a number of
+ * proxy hops, or comma-separated addresses, subnets and names like
+ * `loopback` and `uniquelocal`. Unset or `false` trusts no proxy, so the IP
+ * is the one of the connection.
+ */
+export function parseTrustProxy(
+  value: string | undefined,
+): boolean | number | string {
+  const setting = value?.trim();
+  if (!setting || setting === 'false') {
+    return false;
+  }
+  if (setting === 'true') {
+    return true;
+  }
+  if (/^\d+$/.test(setting)) {
+    return parseInt(setting, 10);
+  }
+  return setting;
+}
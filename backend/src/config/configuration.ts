@@ -2,7 +2,12 @@ export default () => ({
     port: parseInt(process.env.PORT || '3000', 10),
     apiPrefix: process.env.API_PREFIX || 'api/v1',
     app: {
+        env: process.env.NODE_ENV || 'development',
         url: process.env.APP_URL || 'http://localhost:3000',
+        // Links in emails point to the frontend
+        frontendUrl: process.env.FRONTEND_URL || 'http://localhost:5173',
+        // Proxies whose X-Forwarded-For is believed, see parseTrustProxy
+        trustProxy: process.env.TRUST_PROXY,
     },
 
     database: {
@@ -29,10 +34,69 @@ export default () => ({
         refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
     },
 
+    twoFactor: {
+        // Shown next to the account in authenticator apps
+        issuer: process.env.TWO_FACTOR_ISSUER || 'WhatsApp Multi-Tenant',
+        challengeExpiresIn: process.env.TWO_FACTOR_CHALLENGE_EXPIRES_IN || '5m',
+    },
+
+    loginProtection: {
+        // Consecutive failed logins of an email address before it is locked
+        maxAccountFailures: parseInt(process.env.LOGIN_MAX_ACCOUNT_FAILURES || '5', 10),
+        // Failed logins from an IP address, across emails, before it is blocked
+        maxIpFailures: parseInt(process.env.LOGIN_MAX_IP_FAILURES || '20', 10),
+        delayBaseMs: parseInt(process.env.LOGIN_DELAY_BASE_MS || '1000', 10), // doubled after every failure
+        delayMaxMs: parseInt(process.env.LOGIN_DELAY_MAX_MS || '30000', 10),
+        lockoutMs: parseInt(process.env.LOGIN_LOCKOUT_MS || '900000', 10), // doubled on every further lockout
+        lockoutMaxMs: parseInt(process.env.LOGIN_LOCKOUT_MAX_MS || '86400000', 10),
+        failureWindowMs: parseInt(process.env.LOGIN_FAILURE_WINDOW_MS || '86400000', 10),
+    },
+
+    accountEmails: {
+        passwordResetTtlMs: parseInt(process.env.PASSWORD_RESET_TTL_MS || '3600000', 10),
+        emailVerificationTtlMs: parseInt(process.env.EMAIL_VERIFICATION_TTL_MS || '86400000', 10),
+        // Emails of each kind an address may get per rate window
+        rateLimit: parseInt(process.env.ACCOUNT_EMAIL_RATE_LIMIT || '3', 10),
+        rateWindowMs: parseInt(process.env.ACCOUNT_EMAIL_RATE_WINDOW_MS || '3600000', 10),
+    },
+
+    mail: {
+        driver: process.env.MAIL_DRIVER || 'console',
+        from: process.env.MAIL_FROM || 'WhatsApp Multi-Tenant <no-reply@localhost>',
+        filePath: process.env.MAIL_FILE_PATH || './mail',
+        smtp: {
+            host: process.env.SMTP_HOST || 'localhost',
+            port: parseInt(process.env.SMTP_PORT || '587', 10),
+            secure: process.env.SMTP_SECURE === 'true',
+            user: process.env.SMTP_USER || '',
+            password: process.env.SMTP_PASSWORD || '',
+        },
+    },
+
     whatsapp: {
         apiUrl: process.env.WAHA_API_URL || 'http://localhost:3001',
         apiKey: process.env.WAHA_API_KEY || 'your-waha-api-key',
-        useBaileys: process.env.USE_BAILEYS === 'true' || false,
+        useBaileys: process.env.USE_BAILEYS === 'true', // WAHA unless set to true
+        webhookHmacKey: process.env.WAHA_WEBHOOK_HMAC_KEY,
+        requestTimeoutMs: parseInt(process.env.WAHA_REQUEST_TIMEOUT_MS || '30000', 10),
+        authState: {
+            driver: process.env.WHATSAPP_AUTH_STORE || 'mongo',
+            encryptionKey: process.env.WHATSAPP_AUTH_ENCRYPTION_KEY, // Required, no default
+        },
+        outboundQueue: {
+            pollIntervalMs: parseInt(process.env.OUTBOUND_QUEUE_POLL_INTERVAL_MS || '1000', 10),
+            batchSize: parseInt(process.env.OUTBOUND_QUEUE_BATCH_SIZE || '20', 10),
+            maxAttempts: parseInt(process.env.OUTBOUND_QUEUE_MAX_ATTEMPTS || '5', 10),
+            backoffBaseMs: parseInt(process.env.OUTBOUND_QUEUE_BACKOFF_BASE_MS || '5000', 10),
+            backoffMaxMs: parseInt(process.env.OUTBOUND_QUEUE_BACKOFF_MAX_MS || '900000', 10),
+            visibilityTimeoutMs: parseInt(process.env.OUTBOUND_QUEUE_VISIBILITY_TIMEOUT_MS || '120000', 10),
+            // Messages each device may send per rate window
+            rateLimit: parseInt(process.env.OUTBOUND_RATE_LIMIT || '20', 10),
+            rateWindowMs: parseInt(process.env.OUTBOUND_RATE_WINDOW_MS || '60000', 10),
+        },
+        scheduler: {
+            pollIntervalMs: parseInt(process.env.SCHEDULER_POLL_INTERVAL_MS || '15000', 10),
+        },
         baileysConfig: {
             printQRInTerminal: process.env.BAILEYS_PRINT_QR === 'true' || false,
             auth: {
@@ -41,6 +105,30 @@ export default () => ({
         },
     },
 
+    media: {
+        storageDriver: process.env.MEDIA_STORAGE_DRIVER || 'local',
+        storagePath: process.env.MEDIA_STORAGE_PATH || './media',
+        maxFileSize: parseInt(process.env.MEDIA_MAX_FILE_SIZE || '16777216', 10),
+        allowedMimeTypes: (
+            process.env.MEDIA_ALLOWED_MIME_TYPES ||
+            'image/jpeg,image/png,image/webp,video/mp4,video/3gpp,audio/mpeg,audio/ogg,audio/mp4,audio/aac,application/pdf,application/msword,application/vnd.openxmlformats-officedocument.wordprocessingml.document,application/vnd.ms-excel,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,text/plain,text/csv'
+        ).split(','),
+    },
+
+    campaigns: {
+        pollIntervalMs: parseInt(process.env.CAMPAIGN_POLL_INTERVAL_MS || '5000', 10),
+        defaultMessagesPerMinute: parseInt(process.env.CAMPAIGN_MESSAGES_PER_MINUTE || '30', 10),
+    },
+
+    webhooks: {
+        pollIntervalMs: parseInt(process.env.WEBHOOK_POLL_INTERVAL_MS || '2000', 10),
+        batchSize: parseInt(process.env.WEBHOOK_BATCH_SIZE || '20', 10),
+        maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8', 10),
+        backoffBaseMs: parseInt(process.env.WEBHOOK_BACKOFF_BASE_MS || '10000', 10),
+        backoffMaxMs: parseInt(process.env.WEBHOOK_BACKOFF_MAX_MS || '3600000', 10),
+        timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10),
+    },
+
     throttle: {
         ttl: parseInt(process.env.THROTTLE_TTL || '60', 10),
         limit: parseInt(process.env.THROTTLE_LIMIT || '100', 10),
@@ -0,0 +1,112 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Put,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { RequirePermission } from '../auth/decorators/permission.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionGuard } from '../auth/guards/permission.guard';
+import { ConsentService } from './consent.service';
+import {
+  ConsentChangeResponseDto,
+  ConsentSettingsResponseDto,
+} from './dto/consent-response.dto';
+import { QueryConsentChangesDto } from './dto/query-consent-changes.dto';
+import { UpdateConsentSettingsDto } from './dto/update-consent-settings.dto';
+import { UpdateConsentDto } from './dto/update-consent.dto';
+
+@ApiTags('Consent')
+@Controller('consent')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+@ApiBearerAuth()
+export class ConsentController {
+  constructor(private readonly consentService: ConsentService) {}
+
+  @Put()
+  @RequirePermission('canSendMessages')
+  @ApiOperation({
+    summary: 'Opt a phone number in or out',
+    description:
+      'Recorded in the audit trail with the user, also for numbers that are not saved as contacts',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Consent updated successfully',
+    type: ConsentChangeResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - validation error',
+  })
+  async updateConsent(
+    @Body() updateConsentDto: UpdateConsentDto,
+    @Request() req: any,
+  ): Promise<ConsentChangeResponseDto> {
+    return this.consentService.updateConsent(
+      updateConsentDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+  }
+
+  @Get('changes')
+  @RequirePermission('canViewLogs')
+  @ApiOperation({ summary: 'List the consent changes, newest first' })
+  @ApiResponse({
+    status: 200,
+    description: 'Consent changes retrieved successfully',
+  })
+  async findChanges(
+    @Query() query: QueryConsentChangesDto,
+    @Request() req: any,
+  ) {
+    return this.consentService.findChanges(query, req.user.tenantId);
+  }
+
+  @Get('settings')
+  @RequirePermission('canViewLogs')
+  @ApiOperation({ summary: 'Get the opt-out and opt-in keywords' })
+  @ApiResponse({
+    status: 200,
+    description: 'Settings retrieved successfully',
+    type: ConsentSettingsResponseDto,
+  })
+  async getSettings(@Request() req: any): Promise<ConsentSettingsResponseDto> {
+    return this.consentService.getSettings(req.user.tenantId);
+  }
+
+  @Put('settings')
+  @RequirePermission('canManageSettings')
+  @ApiOperation({
+    summary: 'Update the opt-out and opt-in keywords',
+    description: 'A list that is not given keeps its current keywords',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Settings updated successfully',
+    type: ConsentSettingsResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - validation error or keyword in both lists',
+  })
+  async updateSettings(
+    @Body() updateSettingsDto: UpdateConsentSettingsDto,
+    @Request() req: any,
+  ): Promise<ConsentSettingsResponseDto> {
+    return this.consentService.updateSettings(
+      updateSettingsDto,
+      req.user.tenantId,
+    );
+  }
+}
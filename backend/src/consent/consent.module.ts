@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ConsentController } from './consent.controller';
+import { ConsentService } from './consent.service';
+import {
+  ConsentChange,
+  ConsentChangeSchema,
+} from '../database/schemas/consent-change.schema';
+import { Contact, ContactSchema } from '../database/schemas/contact.schema';
+import { Tenant, TenantSchema } from '../database/schemas/tenant.schema';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: ConsentChange.name, schema: ConsentChangeSchema },
+      { name: Contact.name, schema: ContactSchema },
+      { name: Tenant.name, schema: TenantSchema },
+    ]),
+    WebhooksModule,
+  ],
+  controllers: [ConsentController],
+  providers: [ConsentService],
+  exports: [ConsentService],
+})
+export class ConsentModule {}
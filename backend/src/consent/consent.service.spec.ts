@@ -0,0 +1,298 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { ConsentChange } from '../database/schemas/consent-change.schema';
+import { Contact } from '../database/schemas/contact.schema';
+import { MessageDocument } from '../database/schemas/message.schema';
+import { Tenant } from '../database/schemas/tenant.schema';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { ConsentService, OPTED_OUT_ERROR_CODE } from './consent.service';
+
+describe('ConsentService', () => {
+  let service: ConsentService;
+
+  const tenantId = new Types.ObjectId('507f1f77bcf86cd799439012');
+  const userId = '507f1f77bcf86cd799439013';
+  const createdAt = new Date('2024-01-15T10:30:00.000Z');
+
+  const savedChanges: any[] = [];
+  const MockConsentChangeModel = jest.fn().mockImplementation((doc) => ({
+    save: jest.fn().mockImplementation(() => {
+      const change = { _id: new Types.ObjectId(), ...doc, createdAt };
+      savedChanges.push(change);
+      return Promise.resolve(change);
+    }),
+  })) as any;
+
+  const mockContactModel = {
+    updateMany: jest.fn(),
+  };
+  const mockTenantModel = {
+    findById: jest.fn(),
+    findByIdAndUpdate: jest.fn(),
+  };
+  const mockWebhooksService = {
+    publish: jest.fn(),
+  };
+
+  const execResult = (value: any) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const givenSettings = (settings: object) =>
+    mockTenantModel.findById.mockReturnValue({
+      select: jest.fn().mockReturnValue(execResult({ settings })),
+    });
+
+  const givenLatestChange = (change: object | null) =>
+    MockConsentChangeModel.findOne.mockReturnValue({
+      sort: jest.fn().mockReturnValue(execResult(change)),
+    });
+
+  const message = (content: string) =>
+    ({
+      _id: new Types.ObjectId('507f1f77bcf86cd799439014'),
+      tenantId,
+      phoneNumber: '+1234567890',
+      content,
+    }) as unknown as MessageDocument;
+
+  beforeEach(async () => {
+    savedChanges.length = 0;
+    MockConsentChangeModel.mockClear();
+    MockConsentChangeModel.findOne = jest.fn();
+    MockConsentChangeModel.find = jest.fn();
+    MockConsentChangeModel.countDocuments = jest.fn();
+    givenLatestChange(null);
+    givenSettings({});
+    mockTenantModel.findByIdAndUpdate.mockReset();
+    mockTenantModel.findByIdAndUpdate.mockReturnValue(execResult(null));
+    mockContactModel.updateMany.mockReset();
+    mockContactModel.updateMany.mockReturnValue(execResult(null));
+    mockWebhooksService.publish.mockReset();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ConsentService,
+        {
+          provide: getModelToken(ConsentChange.name),
+          useValue: MockConsentChangeModel,
+        },
+        { provide: getModelToken(Contact.name), useValue: mockContactModel },
+        { provide: getModelToken(Tenant.name), useValue: mockTenantModel },
+        { provide: WebhooksService, useValue: mockWebhooksService },
+      ],
+    }).compile();
+
+    service = module.get<ConsentService>(ConsentService);
+  });
+
+  describe('settings', () => {
+    it('should fall back to the default keywords', async () => {
+      await expect(service.getSettings(tenantId.toString())).resolves.toEqual({
+        optOutKeywords: ['STOP', 'UNSUBSCRIBE'],
+        optInKeywords: ['START'],
+      });
+    });
+
+    it('should normalize the keywords and keep the list not given', async () => {
+      const result = await service.updateSettings(
+        { optOutKeywords: ['stop', ' Stop! ', 'opt out', 'BAJA'] },
+        tenantId.toString(),
+      );
+
+      expect(result).toEqual({
+        optOutKeywords: ['STOP', 'OPT OUT', 'BAJA'],
+        optInKeywords: ['START'],
+      });
+      expect(mockTenantModel.findByIdAndUpdate).toHaveBeenCalledWith(
+        tenantId.toString(),
+        { $set: { 'settings.consent': result } },
+      );
+    });
+
+    it('should reject keywords in both lists', async () => {
+      await expect(
+        service.updateSettings(
+          { optInKeywords: ['start', 'stop'] },
+          tenantId.toString(),
+        ),
+      ).rejects.toThrow('Keywords cannot both opt out and opt in: STOP');
+      expect(mockTenantModel.findByIdAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should reject keywords without letters or digits', async () => {
+      await expect(
+        service.updateSettings({ optOutKeywords: ['!!'] }, tenantId.toString()),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('updateConsent', () => {
+    it('should record the change, update the contacts and notify', async () => {
+      const result = await service.updateConsent(
+        { phoneNumber: '1 (234) 567-890', status: 'opted_out', note: 'Call' },
+        tenantId.toString(),
+        userId,
+      );
+
+      expect(savedChanges[0]).toMatchObject({
+        phoneNumber: '+1234567890',
+        status: 'opted_out',
+        source: 'user',
+        changedBy: new Types.ObjectId(userId),
+        note: 'Call',
+        tenantId,
+      });
+      expect(mockContactModel.updateMany).toHaveBeenCalledWith(
+        {
+          tenantId,
+          phoneNumber: { $in: ['1234567890', '+1234567890'] },
+          isDeleted: false,
+        },
+        {
+          consent: {
+            status: 'opted_out',
+            source: 'user',
+            changedAt: createdAt,
+          },
+        },
+      );
+      expect(mockWebhooksService.publish).toHaveBeenCalledWith(
+        tenantId,
+        'contact.consent_changed',
+        result,
+      );
+      expect(result).toMatchObject({
+        phoneNumber: '+1234567890',
+        status: 'opted_out',
+        changedBy: userId,
+      });
+    });
+
+    it('should reject phone numbers without digits', async () => {
+      await expect(
+        service.updateConsent(
+          { phoneNumber: 'abc', status: 'opted_in' },
+          tenantId.toString(),
+          userId,
+        ),
+      ).rejects.toThrow('Phone number must contain digits');
+    });
+  });
+
+  describe('findChanges', () => {
+    it('should page through the changes of a phone number', async () => {
+      const sort = jest.fn().mockReturnThis();
+      const skip = jest.fn().mockReturnThis();
+      const limit = jest.fn().mockReturnValue(execResult([]));
+      MockConsentChangeModel.find.mockReturnValue({ sort, skip, limit });
+      MockConsentChangeModel.countDocuments.mockReturnValue(execResult(0));
+
+      const result = await service.findChanges(
+        { page: 2, limit: 10, phoneNumber: '1234567890' },
+        tenantId.toString(),
+      );
+
+      expect(MockConsentChangeModel.find).toHaveBeenCalledWith({
+        tenantId,
+        phoneNumber: '+1234567890',
+      });
+      expect(sort).toHaveBeenCalledWith({ createdAt: -1 });
+      expect(skip).toHaveBeenCalledWith(10);
+      expect(result).toEqual({ changes: [], total: 0, page: 2, limit: 10 });
+    });
+  });
+
+  describe('assertCanMessage', () => {
+    it('should refuse numbers that opted out with the error code', async () => {
+      givenLatestChange({ status: 'opted_out', source: 'keyword', createdAt });
+
+      const error = await service
+        .assertCanMessage(tenantId, '1234567890')
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(ForbiddenException);
+      expect((error as ForbiddenException).getResponse()).toMatchObject({
+        statusCode: 403,
+        code: OPTED_OUT_ERROR_CODE,
+      });
+      expect(MockConsentChangeModel.findOne).toHaveBeenCalledWith({
+        tenantId,
+        phoneNumber: '+1234567890',
+      });
+    });
+
+    it('should allow numbers without a change or that opted back in', async () => {
+      await expect(
+        service.assertCanMessage(tenantId, '+1234567890'),
+      ).resolves.toBeUndefined();
+
+      givenLatestChange({ status: 'opted_in', source: 'keyword', createdAt });
+      await expect(
+        service.assertCanMessage(tenantId, '+1234567890'),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('applyKeyword', () => {
+    it('should opt out on a keyword regardless of case and punctuation', async () => {
+      await expect(service.applyKeyword(message(' Stop! '))).resolves.toBe(
+        true,
+      );
+
+      expect(savedChanges[0]).toMatchObject({
+        phoneNumber: '+1234567890',
+        status: 'opted_out',
+        source: 'keyword',
+        keyword: 'STOP',
+        messageId: new Types.ObjectId('507f1f77bcf86cd799439014'),
+      });
+      expect(mockWebhooksService.publish).toHaveBeenCalledWith(
+        tenantId,
+        'contact.consent_changed',
+        expect.objectContaining({ status: 'opted_out', keyword: 'STOP' }),
+      );
+    });
+
+    it('should opt back in on an opt-in keyword', async () => {
+      givenLatestChange({ status: 'opted_out', source: 'keyword', createdAt });
+
+      await expect(service.applyKeyword(message('start'))).resolves.toBe(true);
+
+      expect(savedChanges[0]).toMatchObject({ status: 'opted_in' });
+    });
+
+    it('should use the keywords of the tenant', async () => {
+      givenSettings({
+        consent: { optOutKeywords: ['BAJA'], optInKeywords: ['ALTA'] },
+      });
+
+      await expect(service.applyKeyword(message('STOP'))).resolves.toBe(false);
+      await expect(service.applyKeyword(message('baja'))).resolves.toBe(true);
+
+      expect(savedChanges).toHaveLength(1);
+    });
+
+    it('should not record a change when the status is the same', async () => {
+      givenLatestChange({ status: 'opted_out', source: 'user', createdAt });
+
+      await expect(service.applyKeyword(message('UNSUBSCRIBE'))).resolves.toBe(
+        true,
+      );
+
+      expect(MockConsentChangeModel).not.toHaveBeenCalled();
+      expect(mockWebhooksService.publish).not.toHaveBeenCalled();
+    });
+
+    it('should ignore keywords within longer messages', async () => {
+      await expect(
+        service.applyKeyword(message('Please stop by the office')),
+      ).resolves.toBe(false);
+      await expect(service.applyKeyword(message(''))).resolves.toBe(false);
+
+      expect(MockConsentChangeModel).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,360 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  ConsentChange,
+  ConsentChangeDocument,
+  ConsentSource,
+  ConsentStatus,
+} from '../database/schemas/consent-change.schema';
+import { Contact, ContactConsent } from '../database/schemas/contact.schema';
+import { MessageDocument } from '../database/schemas/message.schema';
+import {
+  ConsentKeywords,
+  Tenant,
+  TenantSettings,
+} from '../database/schemas/tenant.schema';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import {
+  jidToPhoneNumber,
+  phoneNumberVariants,
+  toJid,
+} from '../whatsapp/utils/jid.util';
+import {
+  ConsentChangeResponseDto,
+  ConsentSettingsResponseDto,
+} from './dto/consent-response.dto';
+import { QueryConsentChangesDto } from './dto/query-consent-changes.dto';
+import { UpdateConsentSettingsDto } from './dto/update-consent-settings.dto';
+import { UpdateConsentDto } from './dto/update-consent.dto';
+
+/** Error code of the 403 returned for sends to opted-out numbers. */
+export const OPTED_OUT_ERROR_CODE = 'CONTACT_OPTED_OUT';
+
+export const DEFAULT_CONSENT_KEYWORDS: ConsentKeywords = {
+  optOutKeywords: ['STOP', 'UNSUBSCRIBE'],
+  optInKeywords: ['START'],
+};
+
+interface ConsentChangeInput {
+  status: ConsentStatus;
+  source: ConsentSource;
+  keyword?: string;
+  messageId?: Types.ObjectId;
+  changedBy?: string;
+  note?: string;
+}
+
+@Injectable()
+export class ConsentService {
+  private readonly logger = new Logger(ConsentService.name);
+
+  constructor(
+    @InjectModel(ConsentChange.name)
+    private consentChangeModel: Model<ConsentChange>,
+    @InjectModel(Contact.name) private contactModel: Model<Contact>,
+    @InjectModel(Tenant.name) private tenantModel: Model<Tenant>,
+    private webhooksService: WebhooksService,
+  ) {}
+
+  async getSettings(tenantId: string): Promise<ConsentSettingsResponseDto> {
+    const settings = await this.findTenantSettings(tenantId);
+    return resolveKeywords(settings);
+  }
+
+  /** Replaces the keyword lists given, the other one is kept. */
+  async updateSettings(
+    updateSettingsDto: UpdateConsentSettingsDto,
+    tenantId: string,
+  ): Promise<ConsentSettingsResponseDto> {
+    const current = resolveKeywords(await this.findTenantSettings(tenantId));
+    const keywords: ConsentKeywords = {
+      optOutKeywords: normalizeKeywords(
+        updateSettingsDto.optOutKeywords ?? current.optOutKeywords,
+      ),
+      optInKeywords: normalizeKeywords(
+        updateSettingsDto.optInKeywords ?? current.optInKeywords,
+      ),
+    };
+
+    const overlap = keywords.optOutKeywords.filter((keyword) =>
+      keywords.optInKeywords.includes(keyword),
+    );
+    if (overlap.length) {
+      throw new BadRequestException(
+        `Keywords cannot both opt out and opt in: ${overlap.join(', ')}`,
+      );
+    }
+
+    await this.tenantModel
+      .findByIdAndUpdate(tenantId, { $set: { 'settings.consent': keywords } })
+      .exec();
+
+    return keywords;
+  }
+
+  /** Records a consent change made by a user, e.g. after a phone call. */
+  async updateConsent(
+    updateConsentDto: UpdateConsentDto,
+    tenantId: string,
+    userId: string,
+  ): Promise<ConsentChangeResponseDto> {
+    const phoneNumber = normalizePhoneNumber(updateConsentDto.phoneNumber);
+    if (!phoneNumber) {
+      throw new BadRequestException('Phone number must contain digits');
+    }
+
+    const change = await this.recordChange(tenantId, phoneNumber, {
+      status: updateConsentDto.status,
+      source: 'user',
+      changedBy: userId,
+      note: updateConsentDto.note,
+    });
+
+    return this.mapToChangeResponse(change);
+  }
+
+  /** Audit trail of consent changes, newest first. */
+  async findChanges(
+    query: QueryConsentChangesDto,
+    tenantId: string,
+  ): Promise<{
+    changes: ConsentChangeResponseDto[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const { page = 1, limit = 20, phoneNumber, source } = query;
+    const filter = {
+      tenantId: new Types.ObjectId(tenantId),
+      ...(phoneNumber && { phoneNumber: normalizePhoneNumber(phoneNumber) }),
+      ...(source && { source }),
+    };
+
+    const [changes, total] = await Promise.all([
+      this.consentChangeModel
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.consentChangeModel.countDocuments(filter).exec(),
+    ]);
+
+    return {
+      changes: changes.map((change) => this.mapToChangeResponse(change)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Current consent of a phone number, taken from its latest change so
+   * numbers that are not saved as contacts are covered too.
+   */
+  async getConsent(
+    tenantId: string | Types.ObjectId,
+    phoneNumber: string,
+  ): Promise<ContactConsent> {
+    const latest = await this.consentChangeModel
+      .findOne({
+        tenantId: new Types.ObjectId(tenantId),
+        phoneNumber: normalizePhoneNumber(phoneNumber),
+      })
+      .sort({ createdAt: -1 })
+      .exec();
+
+    return latest ? toContactConsent(latest) : { status: 'unknown' };
+  }
+
+  /** Refuses to message a phone number that opted out. */
+  async assertCanMessage(
+    tenantId: string | Types.ObjectId,
+    phoneNumber: string,
+  ): Promise<void> {
+    const consent = await this.getConsent(tenantId, phoneNumber);
+    if (consent.status === 'opted_out') {
+      throw new ForbiddenException({
+        statusCode: 403,
+        error: 'Forbidden',
+        code: OPTED_OUT_ERROR_CODE,
+        message: `${normalizePhoneNumber(phoneNumber)} opted out of non-transactional messages`,
+      });
+    }
+  }
+
+  /**
+   * Flips the consent of the sender when an inbound message is one of the
+   * keywords of the tenant. Returns whether the message was a keyword, even
+   * if the consent already had that status.
+   */
+  async applyKeyword(message: MessageDocument): Promise<boolean> {
+    const text = normalizeKeyword(message.content ?? '');
+    if (!text) {
+      return false;
+    }
+
+    const keywords = resolveKeywords(
+      await this.findTenantSettings(message.tenantId.toString()),
+    );
+    const status = keywordStatus(text, keywords);
+    if (!status) {
+      return false;
+    }
+
+    const phoneNumber = normalizePhoneNumber(message.phoneNumber);
+    const current = await this.getConsent(message.tenantId, phoneNumber);
+    if (current.status === status) {
+      this.logger.debug(
+        `Ignoring ${text} from ${phoneNumber}, consent is already ${status}`,
+      );
+      return true;
+    }
+
+    await this.recordChange(message.tenantId, phoneNumber, {
+      status,
+      source: 'keyword',
+      keyword: text,
+      messageId: message._id,
+    });
+
+    return true;
+  }
+
+  /**
+   * Stores a change in the audit trail, copies it onto the contacts with
+   * the phone number and notifies the tenant.
+   */
+  private async recordChange(
+    tenantId: string | Types.ObjectId,
+    phoneNumber: string,
+    input: ConsentChangeInput,
+  ): Promise<ConsentChangeDocument> {
+    const tenantObjectId = new Types.ObjectId(tenantId);
+    const change = await new this.consentChangeModel({
+      phoneNumber,
+      status: input.status,
+      source: input.source,
+      keyword: input.keyword,
+      messageId: input.messageId,
+      changedBy: input.changedBy
+        ? new Types.ObjectId(input.changedBy)
+        : undefined,
+      note: input.note,
+      tenantId: tenantObjectId,
+    }).save();
+
+    await this.contactModel
+      .updateMany(
+        {
+          tenantId: tenantObjectId,
+          phoneNumber: { $in: phoneNumberVariants(toJid(phoneNumber)) },
+          isDeleted: false,
+        },
+        { consent: toContactConsent(change) },
+      )
+      .exec();
+
+    await this.webhooksService.publish(
+      tenantObjectId,
+      'contact.consent_changed',
+      this.mapToChangeResponse(change),
+    );
+
+    this.logger.log(
+      `Consent of ${phoneNumber} changed to ${input.status} by ${input.source} for tenant ${tenantObjectId.toString()}`,
+    );
+
+    return change;
+  }
+
+  private async findTenantSettings(tenantId: string): Promise<TenantSettings> {
+    const tenant = await this.tenantModel
+      .findById(tenantId)
+      .select('settings')
+      .exec();
+
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    return tenant.settings;
+  }
+
+  private mapToChangeResponse(change: any): ConsentChangeResponseDto {
+    return {
+      id: change._id.toString(),
+      phoneNumber: change.phoneNumber,
+      status: change.status,
+      source: change.source,
+      keyword: change.keyword,
+      messageId: change.messageId?.toString(),
+      changedBy: change.changedBy?.toString(),
+      note: change.note,
+      tenantId: change.tenantId.toString(),
+      createdAt: change.createdAt,
+    };
+  }
+}
+
+/** Phone numbers are kept as `+digits`, however they were entered. */
+export function normalizePhoneNumber(phoneNumber: string): string {
+  return jidToPhoneNumber(toJid(phoneNumber));
+}
+
+function resolveKeywords(settings?: TenantSettings): ConsentKeywords {
+  return {
+    optOutKeywords:
+      settings?.consent?.optOutKeywords ??
+      DEFAULT_CONSENT_KEYWORDS.optOutKeywords,
+    optInKeywords:
+      settings?.consent?.optInKeywords ??
+      DEFAULT_CONSENT_KEYWORDS.optInKeywords,
+  };
+}
+
+// Case and punctuation are ignored, so "Stop!" matches STOP
+function normalizeKeyword(text: string): string {
+  return text
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .toUpperCase();
+}
+
+function keywordStatus(
+  text: string,
+  keywords: ConsentKeywords,
+): ConsentStatus | undefined {
+  if (keywords.optOutKeywords.includes(text)) {
+    return 'opted_out';
+  }
+  if (keywords.optInKeywords.includes(text)) {
+    return 'opted_in';
+  }
+  return undefined;
+}
+
+function normalizeKeywords(keywords: string[]): string[] {
+  const normalized = keywords.map(normalizeKeyword);
+  if (normalized.some((keyword) => !keyword)) {
+    throw new BadRequestException(
+      'Keywords must contain at least one letter or digit',
+    );
+  }
+  return [...new Set(normalized)];
+}
+
+function toContactConsent(change: ConsentChangeDocument): ContactConsent {
+  return {
+    status: change.status,
+    source: change.source,
+    changedAt: (change as any).createdAt,
+  };
+}
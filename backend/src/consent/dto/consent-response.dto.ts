@@ -0,0 +1,86 @@
+import { ApiProperty } from '@nestjs/swagger';
+import type {
+  ConsentSource,
+  ConsentStatus,
+} from '../../database/schemas/consent-change.schema';
+
+export class ConsentSettingsResponseDto {
+  @ApiProperty({
+    description: 'Messages that opt the sender out',
+    example: ['STOP', 'UNSUBSCRIBE'],
+  })
+  optOutKeywords: string[];
+
+  @ApiProperty({
+    description: 'Messages that opt the sender back in',
+    example: ['START'],
+  })
+  optInKeywords: string[];
+}
+
+export class ConsentChangeResponseDto {
+  @ApiProperty({
+    description: 'Consent change ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Phone number',
+    example: '+1234567890',
+  })
+  phoneNumber: string;
+
+  @ApiProperty({
+    description: 'Consent status after the change',
+    enum: ['opted_in', 'opted_out'],
+    example: 'opted_out',
+  })
+  status: ConsentStatus;
+
+  @ApiProperty({
+    description: 'Whether a keyword from the contact or a user made the change',
+    enum: ['keyword', 'user'],
+    example: 'keyword',
+  })
+  source: ConsentSource;
+
+  @ApiProperty({
+    description: 'Keyword the contact sent',
+    example: 'STOP',
+    required: false,
+  })
+  keyword?: string;
+
+  @ApiProperty({
+    description: 'Message carrying the keyword',
+    example: '507f1f77bcf86cd799439012',
+    required: false,
+  })
+  messageId?: string;
+
+  @ApiProperty({
+    description: 'User who made the change',
+    example: '507f1f77bcf86cd799439013',
+    required: false,
+  })
+  changedBy?: string;
+
+  @ApiProperty({
+    description: 'Note of the user',
+    required: false,
+  })
+  note?: string;
+
+  @ApiProperty({
+    description: 'Tenant ID',
+    example: '507f1f77bcf86cd799439014',
+  })
+  tenantId: string;
+
+  @ApiProperty({
+    description: 'When the consent changed',
+    example: '2024-01-15T10:30:00.000Z',
+  })
+  createdAt: Date;
+}
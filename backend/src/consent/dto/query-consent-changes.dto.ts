@@ -0,0 +1,56 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import type { ConsentSource } from '../../database/schemas/consent-change.schema';
+
+export class QueryConsentChangesDto {
+  @ApiProperty({
+    description: 'Page number for pagination',
+    example: 1,
+    default: 1,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'Page must be a number' })
+  @Min(1, { message: 'Page must be at least 1' })
+  page?: number = 1;
+
+  @ApiProperty({
+    description: 'Number of items per page',
+    example: 20,
+    default: 20,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'Limit must be a number' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit cannot exceed 100' })
+  limit?: number = 20;
+
+  @ApiProperty({
+    description: 'Filter by phone number',
+    example: '+1234567890',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'Phone number must be a string' })
+  phoneNumber?: string;
+
+  @ApiProperty({
+    description: 'Filter by source',
+    enum: ['keyword', 'user'],
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['keyword', 'user'], { message: 'Invalid consent source' })
+  source?: ConsentSource;
+}
@@ -0,0 +1,45 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class UpdateConsentSettingsDto {
+  @ApiProperty({
+    description:
+      'Messages that opt the sender out, matched case-insensitively against the whole message',
+    example: ['STOP', 'UNSUBSCRIBE'],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray({ message: 'Opt-out keywords must be an array' })
+  @ArrayMaxSize(20, { message: 'At most 20 opt-out keywords are allowed' })
+  @IsString({ each: true, message: 'Each keyword must be a string' })
+  @IsNotEmpty({ each: true, message: 'Keywords cannot be empty' })
+  @MaxLength(50, {
+    each: true,
+    message: 'Keywords cannot exceed 50 characters',
+  })
+  optOutKeywords?: string[];
+
+  @ApiProperty({
+    description:
+      'Messages that opt the sender back in, matched case-insensitively against the whole message',
+    example: ['START'],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray({ message: 'Opt-in keywords must be an array' })
+  @ArrayMaxSize(20, { message: 'At most 20 opt-in keywords are allowed' })
+  @IsString({ each: true, message: 'Each keyword must be a string' })
+  @IsNotEmpty({ each: true, message: 'Keywords cannot be empty' })
+  @MaxLength(50, {
+    each: true,
+    message: 'Keywords cannot exceed 50 characters',
+  })
+  optInKeywords?: string[];
+}
@@ -0,0 +1,37 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import type { ConsentStatus } from '../../database/schemas/consent-change.schema';
+
+export class UpdateConsentDto {
+  @ApiProperty({
+    description: 'Phone number, with or without a leading +',
+    example: '+1234567890',
+  })
+  @IsString({ message: 'Phone number must be a string' })
+  @IsNotEmpty({ message: 'Phone number is required' })
+  phoneNumber: string;
+
+  @ApiProperty({
+    description: 'New consent status',
+    enum: ['opted_in', 'opted_out'],
+    example: 'opted_out',
+  })
+  @IsIn(['opted_in', 'opted_out'], { message: 'Invalid consent status' })
+  status: ConsentStatus;
+
+  @ApiProperty({
+    description: 'Why the consent changed, kept in the audit trail',
+    example: 'Asked by phone to stop receiving offers',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'Note must be a string' })
+  @MaxLength(500, { message: 'Note cannot exceed 500 characters' })
+  note?: string;
+}
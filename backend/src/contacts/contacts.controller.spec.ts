@@ -49,6 +49,7 @@ describe('ContactsController', () => {
     messagesSent: 0,
     messagesReceived: 0,
     lastMessageAt: undefined,
+    consent: { status: 'unknown' },
     tenantId: '507f1f77bcf86cd799439012',
     createdBy: '507f1f77bcf86cd799439011',
     createdAt: new Date(),
@@ -4,6 +4,7 @@ import { ContactsController } from './contacts.controller';
 import { ContactsService } from './contacts.service';
 import { Contact, ContactSchema } from '../database/schemas/contact.schema';
 import { Message, MessageSchema } from '../database/schemas/message.schema';
+import { ConsentModule } from '../consent/consent.module';
 
 @Module({
   imports: [
@@ -11,6 +12,7 @@ import { Message, MessageSchema } from '../database/schemas/message.schema';
       { name: Contact.name, schema: ContactSchema },
       { name: Message.name, schema: MessageSchema },
     ]),
+    ConsentModule,
   ],
   controllers: [ContactsController],
   providers: [ContactsService],
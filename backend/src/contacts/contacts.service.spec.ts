@@ -6,6 +6,7 @@ import { ContactsService } from './contacts.service';
 import { Contact } from '../database/schemas/contact.schema';
 import { Message } from '../database/schemas/message.schema';
 import { CreateContactDto } from './dto/create-contact.dto';
+import { ConsentService } from '../consent/consent.service';
 
 describe('ContactsService', () => {
   let service: ContactsService;
@@ -34,7 +35,13 @@ describe('ContactsService', () => {
     limit: jest.fn().mockReturnThis(),
   };
 
+  const mockConsentService = {
+    getConsent: jest.fn(),
+  };
+
   beforeEach(async () => {
+    mockConsentService.getConsent.mockResolvedValue({ status: 'unknown' });
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         ContactsService,
@@ -46,6 +53,10 @@ describe('ContactsService', () => {
           provide: getModelToken(Message.name),
           useValue: mockMessageModel,
         },
+        {
+          provide: ConsentService,
+          useValue: mockConsentService,
+        },
       ],
     }).compile();
 
@@ -106,6 +117,44 @@ describe('ContactsService', () => {
       expect(result.lastName).toBe('Doe');
     });
 
+    it('should take the consent of a number that opted out before it was saved', async () => {
+      const consent = {
+        status: 'opted_out',
+        source: 'keyword',
+        changedAt: new Date('2024-01-15T10:30:00.000Z'),
+      };
+      mockConsentService.getConsent.mockResolvedValue(consent);
+      MockContactModel.findOne = jest.fn().mockReturnThis();
+      MockContactModel.populate = jest.fn().mockReturnThis();
+      MockContactModel.exec = jest
+        .fn()
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({
+          _id: new Types.ObjectId(),
+          phoneNumber: '+1234567890',
+          firstName: 'John',
+          lastName: 'Doe',
+          consent,
+          tenantId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+          createdBy: { _id: new Types.ObjectId('507f1f77bcf86cd799439013') },
+        });
+
+      const result = await service.createContact(
+        { phoneNumber: '+1234567890', firstName: 'John', lastName: 'Doe' },
+        '507f1f77bcf86cd799439012',
+        '507f1f77bcf86cd799439013',
+      );
+
+      expect(mockConsentService.getConsent).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439012',
+        '+1234567890',
+      );
+      expect(MockContactModel).toHaveBeenCalledWith(
+        expect.objectContaining({ consent }),
+      );
+      expect(result.consent).toEqual(consent);
+    });
+
     it('should throw BadRequestException for duplicate contact', async () => {
       const createContactDto: CreateContactDto = {
         phoneNumber: '+1234567890',
@@ -7,6 +7,7 @@ import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import { Contact } from '../database/schemas/contact.schema';
 import { Message } from '../database/schemas/message.schema';
+import { ConsentService } from '../consent/consent.service';
 import { CreateContactDto } from './dto/create-contact.dto';
 import { ContactResponseDto } from './dto/contact-response.dto';
 
@@ -15,6 +16,7 @@ export class ContactsService {
   constructor(
     @InjectModel(Contact.name) private contactModel: Model<Contact>,
     @InjectModel(Message.name) private messageModel: Model<Message>,
+    private consentService: ConsentService,
   ) {}
 
   async createContact(
@@ -37,13 +39,17 @@ export class ContactsService {
       );
     }
 
-    // Create new contact
+    // Create new contact, the number may have opted out before it was saved
     const newContact = new this.contactModel({
       ...createContactDto,
       tenantId: new Types.ObjectId(tenantId),
       createdBy: new Types.ObjectId(userId),
       messagesSent: 0,
       messagesReceived: 0,
+      consent: await this.consentService.getConsent(
+        tenantId,
+        createContactDto.phoneNumber,
+      ),
       isDeleted: false,
     });
 
@@ -126,8 +132,22 @@ export class ContactsService {
       }
     }
 
+    const update = { ...updateContactDto };
+    if (
+      updateContactDto.phoneNumber &&
+      updateContactDto.phoneNumber !== contact.phoneNumber
+    ) {
+      // Consent belongs to the phone number
+      Object.assign(update, {
+        consent: await this.consentService.getConsent(
+          tenantId,
+          updateContactDto.phoneNumber,
+        ),
+      });
+    }
+
     const updatedContact = await this.contactModel
-      .findByIdAndUpdate(contactId, updateContactDto, {
+      .findByIdAndUpdate(contactId, update, {
         new: true,
         runValidators: true,
       })
@@ -203,9 +223,11 @@ export class ContactsService {
 
     const totalMessages = messages.length;
     const sentMessages = messages.filter(
-      (msg) => msg.status !== 'failed',
+      (msg) => msg.direction !== 'inbound' && msg.status !== 'failed',
+    ).length;
+    const receivedMessages = messages.filter(
+      (msg) => msg.direction === 'inbound',
     ).length;
-    const receivedMessages = 0; // Incoming messages would be tracked separately
     const lastMessageAt =
       messages.length > 0 ? messages[0].timestamp : undefined;
 
@@ -215,7 +237,8 @@ export class ContactsService {
       messageType: msg.type,
       status: msg.status,
       sentAt: msg.timestamp,
-      direction: 'sent' as const,
+      direction:
+        msg.direction === 'inbound' ? ('received' as const) : ('sent' as const),
     }));
 
     return {
@@ -242,6 +265,7 @@ export class ContactsService {
       messagesSent: contact.messagesSent,
       messagesReceived: contact.messagesReceived,
       lastMessageAt: contact.lastMessageAt,
+      consent: contact.consent ?? { status: 'unknown' },
       tenantId: contact.tenantId.toString(),
       createdBy: contact.createdBy._id.toString(),
       createdAt: contact.createdAt,
@@ -1,4 +1,31 @@
 import { ApiProperty } from '@nestjs/swagger';
+import type {
+  ConsentSource,
+  ConsentStatus,
+} from '../../database/schemas/consent-change.schema';
+
+export class ContactConsentDto {
+  @ApiProperty({
+    description: 'Consent to receive non-transactional messages',
+    enum: ['unknown', 'opted_in', 'opted_out'],
+    example: 'opted_in',
+  })
+  status: ConsentStatus | 'unknown';
+
+  @ApiProperty({
+    description: 'Whether a keyword from the contact or a user made the change',
+    enum: ['keyword', 'user'],
+    required: false,
+  })
+  source?: ConsentSource;
+
+  @ApiProperty({
+    description: 'When the consent last changed',
+    example: '2024-01-15T10:30:00.000Z',
+    required: false,
+  })
+  changedAt?: Date;
+}
 
 export class ContactResponseDto {
   @ApiProperty({
@@ -84,6 +111,12 @@ export class ContactResponseDto {
   })
   lastMessageAt?: Date;
 
+  @ApiProperty({
+    description: 'Consent of the phone number',
+    type: ContactConsentDto,
+  })
+  consent: ContactConsentDto;
+
   @ApiProperty({
     description: 'Tenant ID',
     example: '507f1f77bcf86cd799439012',
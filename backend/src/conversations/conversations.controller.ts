@@ -0,0 +1,222 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Put,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { RequirePermission } from '../auth/decorators/permission.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionGuard } from '../auth/guards/permission.guard';
+import { ConversationsService } from './conversations.service';
+import { AssignConversationDto } from './dto/assign-conversation.dto';
+import { ConversationAssignmentResponseDto } from './dto/conversation-assignment-response.dto';
+import { ConversationResponseDto } from './dto/conversation-response.dto';
+import { QueryConversationMessagesDto } from './dto/query-conversation-messages.dto';
+import { QueryConversationsDto } from './dto/query-conversations.dto';
+import { UpdateConversationDto } from './dto/update-conversation.dto';
+
+@ApiTags('Conversations')
+@Controller('conversations')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+@ApiBearerAuth()
+export class ConversationsController {
+  constructor(private readonly conversationsService: ConversationsService) {}
+
+  @Get()
+  @RequirePermission('canViewLogs')
+  @ApiOperation({
+    summary: 'List conversations',
+    description: 'Most recently active conversations first',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Conversations retrieved successfully',
+  })
+  async findAll(@Query() query: QueryConversationsDto, @Request() req: any) {
+    return this.conversationsService.findAll(query, req.user.tenantId);
+  }
+
+  @Get(':id')
+  @RequirePermission('canViewLogs')
+  @ApiOperation({ summary: 'Get a conversation' })
+  @ApiParam({ name: 'id', description: 'Conversation ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Conversation retrieved successfully',
+    type: ConversationResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Conversation not found',
+  })
+  async findOne(
+    @Param('id') id: string,
+    @Request() req: any,
+  ): Promise<ConversationResponseDto> {
+    return this.conversationsService.findById(id, req.user.tenantId);
+  }
+
+  @Get(':id/messages')
+  @RequirePermission('canViewLogs')
+  @ApiOperation({
+    summary: 'Get the message timeline of a conversation',
+    description:
+      'Inbound and outbound messages, newest first. Pass nextCursor as cursor to load older messages.',
+  })
+  @ApiParam({ name: 'id', description: 'Conversation ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Messages retrieved successfully',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid cursor',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Conversation not found',
+  })
+  async findMessages(
+    @Param('id') id: string,
+    @Query() query: QueryConversationMessagesDto,
+    @Request() req: any,
+  ) {
+    return this.conversationsService.findMessages(id, query, req.user.tenantId);
+  }
+
+  @Patch(':id')
+  @RequirePermission('canSendMessages')
+  @ApiOperation({ summary: 'Change the status of a conversation' })
+  @ApiParam({ name: 'id', description: 'Conversation ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Conversation updated successfully',
+    type: ConversationResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Conversation not found',
+  })
+  async update(
+    @Param('id') id: string,
+    @Body() updateConversationDto: UpdateConversationDto,
+    @Request() req: any,
+  ): Promise<ConversationResponseDto> {
+    return this.conversationsService.updateStatus(
+      id,
+      updateConversationDto,
+      req.user.tenantId,
+    );
+  }
+
+  @Post(':id/read')
+  @RequirePermission('canSendMessages')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Mark a conversation as read' })
+  @ApiParam({ name: 'id', description: 'Conversation ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Conversation marked as read',
+    type: ConversationResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Conversation not found',
+  })
+  async markAsRead(
+    @Param('id') id: string,
+    @Request() req: any,
+  ): Promise<ConversationResponseDto> {
+    return this.conversationsService.markAsRead(id, req.user.tenantId);
+  }
+
+  @Post(':id/claim')
+  @RequirePermission('canClaimConversations')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Assign an unassigned conversation to yourself' })
+  @ApiParam({ name: 'id', description: 'Conversation ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Conversation claimed successfully',
+    type: ConversationResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - conversation is already assigned',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Conversation not found',
+  })
+  async claim(
+    @Param('id') id: string,
+    @Request() req: any,
+  ): Promise<ConversationResponseDto> {
+    return this.conversationsService.claim(id, req.user.tenantId, req.user.id);
+  }
+
+  @Put(':id/assignee')
+  @RequirePermission('canClaimConversations')
+  @ApiOperation({ summary: 'Assign a conversation to a user or unassign it' })
+  @ApiParam({ name: 'id', description: 'Conversation ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Conversation assigned successfully',
+    type: ConversationResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - user cannot be assigned conversations',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Conversation not found',
+  })
+  async assign(
+    @Param('id') id: string,
+    @Body() assignConversationDto: AssignConversationDto,
+    @Request() req: any,
+  ): Promise<ConversationResponseDto> {
+    return this.conversationsService.assign(
+      id,
+      assignConversationDto.assigneeId ?? null,
+      req.user.tenantId,
+      req.user.id,
+    );
+  }
+
+  @Get(':id/assignments')
+  @RequirePermission('canViewLogs')
+  @ApiOperation({ summary: 'Get the assignment history of a conversation' })
+  @ApiParam({ name: 'id', description: 'Conversation ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Assignments retrieved successfully',
+    type: [ConversationAssignmentResponseDto],
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Conversation not found',
+  })
+  async findAssignments(
+    @Param('id') id: string,
+    @Request() req: any,
+  ): Promise<ConversationAssignmentResponseDto[]> {
+    return this.conversationsService.findAssignments(id, req.user.tenantId);
+  }
+}
@@ -0,0 +1,48 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ConversationsController } from './conversations.controller';
+import { ConversationsService } from './conversations.service';
+import { RoutingRulesController } from './routing-rules.controller';
+import { RoutingRulesService } from './routing-rules.service';
+import {
+  Conversation,
+  ConversationSchema,
+} from '../database/schemas/conversation.schema';
+import { Message, MessageSchema } from '../database/schemas/message.schema';
+import { Contact, ContactSchema } from '../database/schemas/contact.schema';
+import {
+  ChatGroup,
+  ChatGroupSchema,
+} from '../database/schemas/chat-group.schema';
+import {
+  ConversationAssignment,
+  ConversationAssignmentSchema,
+} from '../database/schemas/conversation-assignment.schema';
+import {
+  RoutingRule,
+  RoutingRuleSchema,
+} from '../database/schemas/routing-rule.schema';
+import { UsersModule } from '../users/users.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Conversation.name, schema: ConversationSchema },
+      { name: Message.name, schema: MessageSchema },
+      { name: Contact.name, schema: ContactSchema },
+      { name: ChatGroup.name, schema: ChatGroupSchema },
+      {
+        name: ConversationAssignment.name,
+        schema: ConversationAssignmentSchema,
+      },
+      { name: RoutingRule.name, schema: RoutingRuleSchema },
+    ]),
+    UsersModule,
+    WebhooksModule,
+  ],
+  controllers: [ConversationsController, RoutingRulesController],
+  providers: [ConversationsService, RoutingRulesService],
+  exports: [ConversationsService],
+})
+export class ConversationsModule {}
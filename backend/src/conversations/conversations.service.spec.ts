@@ -0,0 +1,723 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { ConversationsService } from './conversations.service';
+import { ChatGroup } from '../database/schemas/chat-group.schema';
+import { Contact } from '../database/schemas/contact.schema';
+import { ConversationAssignment } from '../database/schemas/conversation-assignment.schema';
+import {
+  Conversation,
+  ConversationDocument,
+} from '../database/schemas/conversation.schema';
+import { Message, MessageDocument } from '../database/schemas/message.schema';
+import { UsersService } from '../users/users.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { RoutingRulesService } from './routing-rules.service';
+
+describe('ConversationsService', () => {
+  let service: ConversationsService;
+
+  const tenantId = new Types.ObjectId('507f1f77bcf86cd799439012');
+  const deviceId = new Types.ObjectId('507f1f77bcf86cd799439011');
+  const conversationId = new Types.ObjectId('507f1f77bcf86cd799439020');
+  const contactId = new Types.ObjectId('507f1f77bcf86cd799439030');
+  const agentId = new Types.ObjectId('507f1f77bcf86cd799439040');
+  const otherAgentId = new Types.ObjectId('507f1f77bcf86cd799439041');
+
+  const execResult = (value: unknown) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const queryResult = (value: unknown) => {
+    const query = {
+      sort: jest.fn(),
+      skip: jest.fn(),
+      limit: jest.fn(),
+      exec: jest.fn().mockResolvedValue(value),
+    };
+    query.sort.mockReturnValue(query);
+    query.skip.mockReturnValue(query);
+    query.limit.mockReturnValue(query);
+    return query;
+  };
+
+  const mockConversationModel = {
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+    findOne: jest.fn(),
+    find: jest.fn(),
+    countDocuments: jest.fn(),
+  };
+  const mockMessageModel = {
+    updateOne: jest.fn(),
+    find: jest.fn(),
+    countDocuments: jest.fn(),
+  };
+  const mockContactModel = { findOne: jest.fn(), find: jest.fn() };
+  const mockChatGroupModel = { findOne: jest.fn(), find: jest.fn() };
+  const MockAssignmentModel = Object.assign(
+    jest.fn().mockImplementation((data) => ({
+      ...data,
+      _id: new Types.ObjectId(),
+      save: jest.fn().mockImplementation(function () {
+        return Promise.resolve(this);
+      }),
+    })),
+    { find: jest.fn() },
+  );
+  const mockRoutingRulesService = { pickAgent: jest.fn() };
+  const mockUsersService = { findAgents: jest.fn() };
+  const mockWebhooksService = { publish: jest.fn() };
+
+  const conversation = (overrides: object = {}) => ({
+    _id: conversationId,
+    tenantId,
+    deviceId,
+    remoteJid: '1234567890@s.whatsapp.net',
+    isGroup: false,
+    phoneNumber: '+1234567890',
+    status: 'open',
+    unreadCount: 1,
+    save: jest.fn().mockResolvedValue(undefined),
+    ...overrides,
+  });
+
+  const message = (overrides: object = {}) =>
+    ({
+      _id: new Types.ObjectId(),
+      tenantId,
+      deviceId,
+      direction: 'inbound',
+      phoneNumber: '+1234567890',
+      remoteJid: '1234567890@s.whatsapp.net',
+      pushName: 'John',
+      messageType: 'text',
+      content: 'Hello',
+      status: 'delivered',
+      sentAt: new Date('2024-01-15T10:30:00.000Z'),
+      ...overrides,
+    }) as unknown as MessageDocument;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockConversationModel.findOneAndUpdate.mockReturnValue(
+      execResult(conversation()),
+    );
+    mockConversationModel.updateOne.mockReturnValue(execResult({}));
+    mockMessageModel.updateOne.mockReturnValue(execResult({}));
+    mockContactModel.findOne.mockReturnValue(execResult(null));
+    mockChatGroupModel.findOne.mockReturnValue(execResult(null));
+    mockMessageModel.find.mockReturnValue(execResult([]));
+    mockContactModel.find.mockReturnValue(execResult([]));
+    mockChatGroupModel.find.mockReturnValue(execResult([]));
+    mockRoutingRulesService.pickAgent.mockResolvedValue(null);
+    mockUsersService.findAgents.mockResolvedValue([
+      { id: agentId.toString() },
+      { id: otherAgentId.toString() },
+    ]);
+    mockWebhooksService.publish.mockResolvedValue(undefined);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ConversationsService,
+        {
+          provide: getModelToken(Conversation.name),
+          useValue: mockConversationModel,
+        },
+        { provide: getModelToken(Message.name), useValue: mockMessageModel },
+        { provide: getModelToken(Contact.name), useValue: mockContactModel },
+        {
+          provide: getModelToken(ChatGroup.name),
+          useValue: mockChatGroupModel,
+        },
+        {
+          provide: getModelToken(ConversationAssignment.name),
+          useValue: MockAssignmentModel,
+        },
+        { provide: RoutingRulesService, useValue: mockRoutingRulesService },
+        { provide: UsersService, useValue: mockUsersService },
+        { provide: WebhooksService, useValue: mockWebhooksService },
+      ],
+    }).compile();
+
+    service = module.get<ConversationsService>(ConversationsService);
+  });
+
+  describe('recordMessage', () => {
+    it('should count inbound messages as unread and reopen the conversation', async () => {
+      const inbound = message();
+
+      await service.recordMessage(inbound);
+
+      expect(mockConversationModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { tenantId, deviceId, remoteJid: '1234567890@s.whatsapp.net' },
+        expect.objectContaining({
+          $inc: { unreadCount: 1 },
+          $set: { status: 'open', pushName: 'John' },
+        }),
+        { upsert: true, new: true },
+      );
+      expect(mockConversationModel.updateOne).toHaveBeenCalledWith(
+        expect.objectContaining({ _id: conversationId }),
+        { lastMessageId: inbound._id, lastMessageAt: inbound.sentAt },
+      );
+      expect(mockMessageModel.updateOne).toHaveBeenCalledWith(
+        { _id: inbound._id },
+        { conversationId },
+      );
+      expect(inbound.conversationId).toBe(conversationId);
+    });
+
+    it('should link the conversation to the matching contact', async () => {
+      mockContactModel.findOne.mockReturnValue(execResult({ _id: contactId }));
+
+      await service.recordMessage(message());
+
+      expect(mockContactModel.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tenantId,
+          phoneNumber: { $in: ['1234567890', '+1234567890'] },
+        }),
+      );
+      expect(mockConversationModel.updateOne).toHaveBeenCalledWith(
+        { _id: conversationId },
+        { contactId },
+      );
+    });
+
+    it('should thread sends by phone number and mark the conversation as read', async () => {
+      await service.recordMessage(
+        message({
+          direction: 'outbound',
+          remoteJid: undefined,
+          status: 'pending',
+        }),
+      );
+
+      expect(mockConversationModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { tenantId, deviceId, remoteJid: '1234567890@s.whatsapp.net' },
+        expect.objectContaining({ $set: { unreadCount: 0 } }),
+        { upsert: true, new: true },
+      );
+    });
+
+    it('should leave the unread count alone for campaign sends', async () => {
+      await service.recordMessage(
+        message({
+          direction: 'outbound',
+          remoteJid: undefined,
+          campaignId: new Types.ObjectId(),
+        }),
+      );
+
+      const [, update] = mockConversationModel.findOneAndUpdate.mock.calls[0];
+      expect(update.$set).toBeUndefined();
+      expect(update.$inc).toBeUndefined();
+    });
+
+    it('should leave the unread count alone for auto-replies', async () => {
+      await service.recordMessage(
+        message({
+          direction: 'outbound',
+          remoteJid: undefined,
+          autoReplyRuleId: new Types.ObjectId(),
+        }),
+      );
+
+      const [, update] = mockConversationModel.findOneAndUpdate.mock.calls[0];
+      expect(update.$set).toBeUndefined();
+    });
+
+    it('should leave the unread count alone for away messages', async () => {
+      await service.recordMessage(
+        message({
+          direction: 'outbound',
+          remoteJid: undefined,
+          automaticMessage: 'away',
+        }),
+      );
+
+      const [, update] = mockConversationModel.findOneAndUpdate.mock.calls[0];
+      expect(update.$set).toBeUndefined();
+    });
+
+    it('should link group conversations to the chat group', async () => {
+      const chatGroupId = new Types.ObjectId();
+      mockConversationModel.findOneAndUpdate.mockReturnValue(
+        execResult(
+          conversation({
+            remoteJid: '120363025123456789@g.us',
+            isGroup: true,
+            phoneNumber: undefined,
+          }),
+        ),
+      );
+      mockChatGroupModel.findOne.mockReturnValue(
+        execResult({ _id: chatGroupId }),
+      );
+
+      await service.recordMessage(
+        message({
+          remoteJid: '120363025123456789@g.us',
+          senderJid: '1987654321@s.whatsapp.net',
+        }),
+      );
+
+      const [, update] = mockConversationModel.findOneAndUpdate.mock.calls[0];
+      expect(update.$setOnInsert).toEqual({ isGroup: true });
+      expect(update.$set).toEqual({ status: 'open' });
+      expect(mockChatGroupModel.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({
+          groupId: {
+            $in: ['120363025123456789@g.us', '120363025123456789'],
+          },
+        }),
+      );
+      expect(mockConversationModel.updateOne).toHaveBeenCalledWith(
+        { _id: conversationId },
+        { chatGroupId },
+      );
+      expect(mockContactModel.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should not make scheduled messages the last message', async () => {
+      await service.recordMessage(
+        message({ direction: 'outbound', status: 'scheduled' }),
+      );
+
+      expect(mockConversationModel.updateOne).not.toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ lastMessageId: expect.anything() }),
+      );
+      expect(mockMessageModel.updateOne).toHaveBeenCalled();
+    });
+
+    it('should retry the upsert when a concurrent message created the conversation', async () => {
+      mockConversationModel.findOneAndUpdate
+        .mockReturnValueOnce({
+          exec: jest.fn().mockRejectedValue({ code: 11000 }),
+        })
+        .mockReturnValueOnce(execResult(conversation()));
+
+      const result = await service.recordMessage(message());
+
+      expect(result._id).toBe(conversationId);
+      expect(mockConversationModel.findOneAndUpdate).toHaveBeenLastCalledWith(
+        expect.anything(),
+        expect.anything(),
+        { new: true },
+      );
+    });
+
+    it('should route unassigned conversations on inbound messages', async () => {
+      const routingRuleId = new Types.ObjectId();
+      mockConversationModel.updateOne.mockReturnValue(
+        execResult({ modifiedCount: 1 }),
+      );
+      mockRoutingRulesService.pickAgent.mockResolvedValue({
+        agentId,
+        routingRuleId,
+      });
+
+      const result = await service.recordMessage(message());
+
+      expect(mockConversationModel.updateOne).toHaveBeenCalledWith(
+        { _id: conversationId, assigneeId: null },
+        { assigneeId: agentId },
+      );
+      expect(MockAssignmentModel).toHaveBeenCalledWith(
+        expect.objectContaining({
+          conversationId,
+          assigneeId: agentId,
+          previousAssigneeId: null,
+          source: 'routing',
+          routingRuleId,
+        }),
+      );
+      expect(mockWebhooksService.publish).toHaveBeenCalledWith(
+        tenantId,
+        'conversation.assigned',
+        expect.objectContaining({
+          conversationId: conversationId.toString(),
+          assigneeId: agentId.toString(),
+          source: 'routing',
+        }),
+      );
+      expect(result.assigneeId).toBe(agentId);
+    });
+
+    it('should not route outbound messages or assigned conversations', async () => {
+      await service.recordMessage(message({ direction: 'outbound' }));
+
+      mockConversationModel.findOneAndUpdate.mockReturnValue(
+        execResult(conversation({ assigneeId: agentId })),
+      );
+      await service.recordMessage(message());
+
+      expect(mockRoutingRulesService.pickAgent).not.toHaveBeenCalled();
+    });
+
+    it('should still file the message when routing fails', async () => {
+      mockRoutingRulesService.pickAgent.mockRejectedValue(
+        new Error('connection lost'),
+      );
+
+      const result = await service.recordMessage(message());
+
+      expect(result._id).toBe(conversationId);
+      expect(MockAssignmentModel).not.toHaveBeenCalled();
+    });
+
+    it('should not throw when threading fails', async () => {
+      mockConversationModel.findOneAndUpdate.mockReturnValue({
+        exec: jest.fn().mockRejectedValue(new Error('connection lost')),
+      });
+
+      await expect(service.recordMessage(message())).resolves.toBeNull();
+      expect(mockMessageModel.updateOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findAll', () => {
+    it('should filter conversations and resolve titles and last messages', async () => {
+      const lastMessage = message({ conversationId });
+      mockConversationModel.find.mockReturnValue(
+        queryResult([
+          conversation({ contactId, lastMessageId: lastMessage._id }),
+        ]),
+      );
+      mockConversationModel.countDocuments.mockReturnValue(execResult(1));
+      mockMessageModel.find.mockReturnValue(execResult([lastMessage]));
+      mockContactModel.find.mockReturnValue(
+        execResult([{ _id: contactId, firstName: 'John', lastName: 'Doe' }]),
+      );
+
+      const result = await service.findAll(
+        { status: 'open', unread: true, search: '+1234', page: 1, limit: 20 },
+        tenantId.toString(),
+      );
+
+      expect(mockConversationModel.find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tenantId,
+          status: 'open',
+          unreadCount: { $gt: 0 },
+          $or: expect.arrayContaining([
+            { phoneNumber: { $regex: '\\+1234', $options: 'i' } },
+          ]),
+        }),
+      );
+      expect(result.total).toBe(1);
+      expect(result.conversations[0]).toMatchObject({
+        id: conversationId.toString(),
+        title: 'John Doe',
+        contactId: contactId.toString(),
+        unreadCount: 1,
+        lastMessage: {
+          id: lastMessage._id.toString(),
+          direction: 'inbound',
+          conversationId: conversationId.toString(),
+        },
+      });
+    });
+  });
+
+  describe('findMessages', () => {
+    beforeEach(() => {
+      mockConversationModel.findOne.mockReturnValue(execResult(conversation()));
+    });
+
+    it('should return a cursor when older messages remain', async () => {
+      const messages = [
+        message({ sentAt: new Date('2024-01-15T10:32:00.000Z') }),
+        message({
+          direction: 'outbound',
+          sentAt: new Date('2024-01-15T10:31:00.000Z'),
+        }),
+        message({ sentAt: new Date('2024-01-15T10:30:00.000Z') }),
+      ];
+      const query = queryResult(messages);
+      mockMessageModel.find.mockReturnValue(query);
+
+      const firstPage = await service.findMessages(
+        conversationId.toString(),
+        { limit: 2 },
+        tenantId.toString(),
+      );
+
+      expect(query.limit).toHaveBeenCalledWith(3);
+      expect(firstPage.messages).toHaveLength(2);
+      expect(firstPage.messages[1].direction).toBe('outbound');
+      expect(firstPage.nextCursor).toEqual(expect.any(String));
+
+      mockMessageModel.find.mockReturnValue(queryResult([]));
+      await service.findMessages(
+        conversationId.toString(),
+        { limit: 2, cursor: firstPage.nextCursor },
+        tenantId.toString(),
+      );
+
+      expect(mockMessageModel.find).toHaveBeenLastCalledWith({
+        conversationId,
+        isDeleted: false,
+        $or: [
+          { sentAt: { $lt: messages[1].sentAt } },
+          { sentAt: messages[1].sentAt, _id: { $lt: messages[1]._id } },
+        ],
+      });
+    });
+
+    it('should not return a cursor on the last page', async () => {
+      mockMessageModel.find.mockReturnValue(queryResult([message()]));
+
+      const result = await service.findMessages(
+        conversationId.toString(),
+        { limit: 2 },
+        tenantId.toString(),
+      );
+
+      expect(result.nextCursor).toBeNull();
+    });
+
+    it('should reject malformed cursors', async () => {
+      await expect(
+        service.findMessages(
+          conversationId.toString(),
+          { cursor: 'not-a-cursor' },
+          tenantId.toString(),
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('markAsRead', () => {
+    it('should reset the unread count', async () => {
+      const existing = conversation({ unreadCount: 3 });
+      mockConversationModel.findOne.mockReturnValue(execResult(existing));
+
+      const result = await service.markAsRead(
+        conversationId.toString(),
+        tenantId.toString(),
+      );
+
+      expect(existing.unreadCount).toBe(0);
+      expect(existing.save).toHaveBeenCalled();
+      expect(result.unreadCount).toBe(0);
+    });
+
+    it('should throw when the conversation belongs to another tenant', async () => {
+      mockConversationModel.findOne.mockReturnValue(execResult(null));
+
+      await expect(
+        service.markAsRead(conversationId.toString(), tenantId.toString()),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('claim', () => {
+    beforeEach(() => {
+      mockConversationModel.updateOne.mockReturnValue(
+        execResult({ modifiedCount: 1 }),
+      );
+    });
+
+    it('should assign an unassigned conversation to the current user', async () => {
+      const existing = conversation();
+      mockConversationModel.findOne.mockReturnValue(execResult(existing));
+
+      const result = await service.claim(
+        conversationId.toString(),
+        tenantId.toString(),
+        agentId.toString(),
+      );
+
+      expect(MockAssignmentModel).toHaveBeenCalledWith(
+        expect.objectContaining({
+          assigneeId: agentId,
+          source: 'claim',
+          assignedBy: agentId,
+        }),
+      );
+      expect(result.assigneeId).toBe(agentId.toString());
+    });
+
+    it('should refuse conversations assigned to someone else', async () => {
+      mockConversationModel.findOne.mockReturnValue(
+        execResult(conversation({ assigneeId: otherAgentId })),
+      );
+
+      await expect(
+        service.claim(
+          conversationId.toString(),
+          tenantId.toString(),
+          agentId.toString(),
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockConversationModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should throw when the conversation was assigned in the meantime', async () => {
+      mockConversationModel.findOne.mockReturnValue(execResult(conversation()));
+      mockConversationModel.updateOne.mockReturnValue(
+        execResult({ modifiedCount: 0 }),
+      );
+
+      await expect(
+        service.claim(
+          conversationId.toString(),
+          tenantId.toString(),
+          agentId.toString(),
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(MockAssignmentModel).not.toHaveBeenCalled();
+      expect(mockWebhooksService.publish).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assign', () => {
+    beforeEach(() => {
+      mockConversationModel.updateOne.mockReturnValue(
+        execResult({ modifiedCount: 1 }),
+      );
+    });
+
+    it('should reassign the conversation and keep the previous assignee', async () => {
+      mockConversationModel.findOne.mockReturnValue(
+        execResult(conversation({ assigneeId: agentId })),
+      );
+
+      await service.assign(
+        conversationId.toString(),
+        otherAgentId.toString(),
+        tenantId.toString(),
+        agentId.toString(),
+      );
+
+      expect(mockConversationModel.updateOne).toHaveBeenCalledWith(
+        { _id: conversationId, assigneeId: agentId },
+        { assigneeId: otherAgentId },
+      );
+      expect(MockAssignmentModel).toHaveBeenCalledWith(
+        expect.objectContaining({
+          assigneeId: otherAgentId,
+          previousAssigneeId: agentId,
+          source: 'manual',
+          assignedBy: agentId,
+        }),
+      );
+    });
+
+    it('should unassign the conversation', async () => {
+      mockConversationModel.findOne.mockReturnValue(
+        execResult(conversation({ assigneeId: agentId })),
+      );
+
+      const result = await service.assign(
+        conversationId.toString(),
+        null,
+        tenantId.toString(),
+        agentId.toString(),
+      );
+
+      expect(mockUsersService.findAgents).not.toHaveBeenCalled();
+      expect(MockAssignmentModel).toHaveBeenCalledWith(
+        expect.objectContaining({ assigneeId: null }),
+      );
+      expect(result.assigneeId).toBeUndefined();
+    });
+
+    it('should reject users who cannot be assigned conversations', async () => {
+      mockConversationModel.findOne.mockReturnValue(execResult(conversation()));
+
+      await expect(
+        service.assign(
+          conversationId.toString(),
+          new Types.ObjectId().toString(),
+          tenantId.toString(),
+          agentId.toString(),
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockConversationModel.updateOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assignForAutoReply', () => {
+    it('should record the rule that assigned the conversation', async () => {
+      const autoReplyRuleId = new Types.ObjectId();
+      mockConversationModel.updateOne.mockReturnValue(
+        execResult({ modifiedCount: 1 }),
+      );
+
+      await expect(
+        service.assignForAutoReply(
+          conversation() as unknown as ConversationDocument,
+          agentId,
+          autoReplyRuleId,
+        ),
+      ).resolves.toBe(true);
+
+      expect(MockAssignmentModel).toHaveBeenCalledWith(
+        expect.objectContaining({
+          assigneeId: agentId,
+          source: 'auto_reply',
+          autoReplyRuleId,
+        }),
+      );
+    });
+  });
+
+  describe('isFirstInboundMessage', () => {
+    it('should count at most two inbound messages', async () => {
+      const chat = conversation() as unknown as ConversationDocument;
+      mockMessageModel.countDocuments.mockReturnValue(execResult(1));
+
+      await expect(service.isFirstInboundMessage(chat)).resolves.toBe(true);
+      expect(mockMessageModel.countDocuments).toHaveBeenCalledWith(
+        { conversationId: chat._id, direction: 'inbound' },
+        { limit: 2 },
+      );
+
+      mockMessageModel.countDocuments.mockReturnValue(execResult(2));
+      await expect(service.isFirstInboundMessage(chat)).resolves.toBe(false);
+    });
+  });
+
+  describe('findAssignments', () => {
+    it('should return the assignment history, newest first', async () => {
+      const assignment = {
+        _id: new Types.ObjectId(),
+        conversationId,
+        assigneeId: agentId,
+        previousAssigneeId: null,
+        source: 'claim',
+        assignedBy: agentId,
+        createdAt: new Date('2024-01-15T10:30:00.000Z'),
+      };
+      const query = queryResult([assignment]);
+      mockConversationModel.findOne.mockReturnValue(execResult(conversation()));
+      MockAssignmentModel.find.mockReturnValue(query);
+
+      const result = await service.findAssignments(
+        conversationId.toString(),
+        tenantId.toString(),
+      );
+
+      expect(MockAssignmentModel.find).toHaveBeenCalledWith({
+        conversationId,
+      });
+      expect(query.sort).toHaveBeenCalledWith({ createdAt: -1 });
+      expect(result).toEqual([
+        {
+          id: assignment._id.toString(),
+          assigneeId: agentId.toString(),
+          previousAssigneeId: undefined,
+          source: 'claim',
+          assignedBy: agentId.toString(),
+          routingRuleId: undefined,
+          createdAt: assignment.createdAt,
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,636 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, Types } from 'mongoose';
+import { ChatGroup } from '../database/schemas/chat-group.schema';
+import { Contact } from '../database/schemas/contact.schema';
+import {
+  AssignmentSource,
+  ConversationAssignment,
+  ConversationAssignmentDocument,
+} from '../database/schemas/conversation-assignment.schema';
+import {
+  Conversation,
+  ConversationDocument,
+} from '../database/schemas/conversation.schema';
+import { Message, MessageDocument } from '../database/schemas/message.schema';
+import { escapeRegExp } from '../common/utils/regexp.util';
+import { UsersService } from '../users/users.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { MessageResponseDto } from '../whatsapp/dto/message-response.dto';
+import { mapMessageResponse } from '../whatsapp/mappers/message-response.mapper';
+import {
+  isGroupJid,
+  jidToPhoneNumber,
+  jidToUser,
+  phoneNumberVariants,
+  toJid,
+} from '../whatsapp/utils/jid.util';
+import { ConversationAssignmentResponseDto } from './dto/conversation-assignment-response.dto';
+import { ConversationResponseDto } from './dto/conversation-response.dto';
+import { QueryConversationMessagesDto } from './dto/query-conversation-messages.dto';
+import { QueryConversationsDto } from './dto/query-conversations.dto';
+import { UpdateConversationDto } from './dto/update-conversation.dto';
+import { RoutingRulesService } from './routing-rules.service';
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+interface TimelineCursor {
+  sentAt: Date;
+  id: Types.ObjectId;
+}
+
+interface AssigneeChange {
+  assigneeId: Types.ObjectId | null;
+  source: AssignmentSource;
+  assignedBy?: Types.ObjectId;
+  routingRuleId?: Types.ObjectId;
+  autoReplyRuleId?: Types.ObjectId;
+}
+
+@Injectable()
+export class ConversationsService {
+  private readonly logger = new Logger(ConversationsService.name);
+
+  constructor(
+    @InjectModel(Conversation.name)
+    private conversationModel: Model<Conversation>,
+    @InjectModel(Message.name) private messageModel: Model<Message>,
+    @InjectModel(Contact.name) private contactModel: Model<Contact>,
+    @InjectModel(ChatGroup.name) private chatGroupModel: Model<ChatGroup>,
+    @InjectModel(ConversationAssignment.name)
+    private assignmentModel: Model<ConversationAssignment>,
+    private routingRulesService: RoutingRulesService,
+    private usersService: UsersService,
+    private webhooksService: WebhooksService,
+  ) {}
+
+  /**
+   * Files a stored message under the conversation with its counterpart,
+   * starting the conversation on first contact. Inbound messages count as
+   * unread and reopen the conversation, a reply marks it as read.
+   * Unassigned conversations are routed when a message comes in.
+   * Failures are logged only, the message itself is already stored.
+   */
+  async recordMessage(
+    message: MessageDocument,
+  ): Promise<ConversationDocument | null> {
+    try {
+      const conversation = await this.upsertConversation(message);
+      await this.linkCounterpart(conversation, message);
+
+      // Scheduled messages join the timeline but only count once sent
+      if (message.status !== 'scheduled') {
+        await this.conversationModel
+          .updateOne(
+            {
+              _id: conversation._id,
+              $or: [
+                { lastMessageAt: null },
+                { lastMessageAt: { $lte: message.sentAt } },
+              ],
+            },
+            { lastMessageId: message._id, lastMessageAt: message.sentAt },
+          )
+          .exec();
+      }
+
+      await this.messageModel
+        .updateOne({ _id: message._id }, { conversationId: conversation._id })
+        .exec();
+      message.conversationId = conversation._id;
+
+      if (message.direction === 'inbound' && !conversation.assigneeId) {
+        await this.routeConversation(conversation);
+      }
+
+      return conversation;
+    } catch (error) {
+      this.logger.warn(
+        `Failed to file message ${message._id.toString()} under a conversation: ${error.message}`,
+      );
+      return null;
+    }
+  }
+
+  async findAll(
+    query: QueryConversationsDto,
+    tenantId: string,
+  ): Promise<{
+    conversations: ConversationResponseDto[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const {
+      page = 1,
+      limit = 20,
+      status,
+      deviceId,
+      assigneeId,
+      unread,
+      search,
+    } = query;
+
+    const filter: FilterQuery<Conversation> = {
+      tenantId: new Types.ObjectId(tenantId),
+      lastMessageAt: { $ne: null },
+      ...(status && { status }),
+      ...(deviceId && { deviceId: new Types.ObjectId(deviceId) }),
+      ...(assigneeId && { assigneeId: new Types.ObjectId(assigneeId) }),
+      ...(unread && { unreadCount: { $gt: 0 } }),
+    };
+
+    if (search) {
+      const pattern = { $regex: escapeRegExp(search), $options: 'i' };
+      filter.$or = [
+        { phoneNumber: pattern },
+        { remoteJid: pattern },
+        { pushName: pattern },
+      ];
+    }
+
+    const [conversations, total] = await Promise.all([
+      this.conversationModel
+        .find(filter)
+        .sort({ lastMessageAt: -1, _id: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.conversationModel.countDocuments(filter).exec(),
+    ]);
+
+    return {
+      conversations: await this.mapToConversationResponses(conversations),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async findById(
+    id: string,
+    tenantId: string,
+  ): Promise<ConversationResponseDto> {
+    const conversation = await this.findConversation(id, tenantId);
+    const [response] = await this.mapToConversationResponses([conversation]);
+    return response;
+  }
+
+  /**
+   * Inbound and outbound messages of the conversation, newest first. Pass
+   * the returned `nextCursor` to page further back.
+   */
+  async findMessages(
+    id: string,
+    query: QueryConversationMessagesDto,
+    tenantId: string,
+  ): Promise<{ messages: MessageResponseDto[]; nextCursor: string | null }> {
+    const conversation = await this.findConversation(id, tenantId);
+    const { limit = 50, cursor } = query;
+
+    const filter: FilterQuery<Message> = {
+      conversationId: conversation._id,
+      isDeleted: false,
+    };
+
+    if (cursor) {
+      const { sentAt, id: messageId } = this.decodeCursor(cursor);
+      filter.$or = [
+        { sentAt: { $lt: sentAt } },
+        { sentAt, _id: { $lt: messageId } },
+      ];
+    }
+
+    const messages = await this.messageModel
+      .find(filter)
+      .sort({ sentAt: -1, _id: -1 })
+      .limit(limit + 1)
+      .exec();
+
+    const page = messages.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      messages: page.map((message) => mapMessageResponse(message)),
+      nextCursor:
+        messages.length > limit
+          ? this.encodeCursor({
+              sentAt: last.sentAt,
+              id: last._id,
+            })
+          : null,
+    };
+  }
+
+  async updateStatus(
+    id: string,
+    updateConversationDto: UpdateConversationDto,
+    tenantId: string,
+  ): Promise<ConversationResponseDto> {
+    const conversation = await this.findConversation(id, tenantId);
+    conversation.status = updateConversationDto.status;
+    await conversation.save();
+
+    return this.findById(id, tenantId);
+  }
+
+  async markAsRead(
+    id: string,
+    tenantId: string,
+  ): Promise<ConversationResponseDto> {
+    const conversation = await this.findConversation(id, tenantId);
+    conversation.unreadCount = 0;
+    await conversation.save();
+
+    return this.findById(id, tenantId);
+  }
+
+  /** Assigns an unassigned conversation to the current user. */
+  async claim(
+    id: string,
+    tenantId: string,
+    userId: string,
+  ): Promise<ConversationResponseDto> {
+    const conversation = await this.findConversation(id, tenantId);
+
+    if (conversation.assigneeId && !conversation.assigneeId.equals(userId)) {
+      throw new BadRequestException('Conversation is already assigned');
+    }
+
+    await this.changeAssigneeOrThrow(conversation, {
+      assigneeId: new Types.ObjectId(userId),
+      source: 'claim',
+      assignedBy: new Types.ObjectId(userId),
+    });
+
+    return this.findById(id, tenantId);
+  }
+
+  async assign(
+    id: string,
+    assigneeId: string | null,
+    tenantId: string,
+    userId: string,
+  ): Promise<ConversationResponseDto> {
+    const conversation = await this.findConversation(id, tenantId);
+
+    if (assigneeId) {
+      const agents = await this.usersService.findAgents(tenantId);
+      if (!agents.some((agent) => agent.id === assigneeId)) {
+        throw new BadRequestException('User cannot be assigned conversations');
+      }
+    }
+
+    await this.changeAssigneeOrThrow(conversation, {
+      assigneeId: assigneeId ? new Types.ObjectId(assigneeId) : null,
+      source: 'manual',
+      assignedBy: new Types.ObjectId(userId),
+    });
+
+    return this.findById(id, tenantId);
+  }
+
+  async findAssignments(
+    id: string,
+    tenantId: string,
+  ): Promise<ConversationAssignmentResponseDto[]> {
+    const conversation = await this.findConversation(id, tenantId);
+
+    const assignments = await this.assignmentModel
+      .find({ conversationId: conversation._id })
+      .sort({ createdAt: -1 })
+      .exec();
+
+    return assignments.map((assignment) =>
+      this.mapToAssignmentResponse(assignment),
+    );
+  }
+
+  /**
+   * Assigns the conversation for an auto-reply rule. Returns false when the
+   * assignee changed concurrently, the assignment is then left alone.
+   */
+  async assignForAutoReply(
+    conversation: ConversationDocument,
+    assigneeId: Types.ObjectId,
+    autoReplyRuleId: Types.ObjectId,
+  ): Promise<boolean> {
+    return this.changeAssignee(conversation, {
+      assigneeId,
+      source: 'auto_reply',
+      autoReplyRuleId,
+    });
+  }
+
+  /** Whether the contact has sent only one message in the conversation. */
+  async isFirstInboundMessage(
+    conversation: ConversationDocument,
+  ): Promise<boolean> {
+    const inboundCount = await this.messageModel
+      .countDocuments(
+        { conversationId: conversation._id, direction: 'inbound' },
+        { limit: 2 },
+      )
+      .exec();
+    return inboundCount === 1;
+  }
+
+  private async routeConversation(
+    conversation: ConversationDocument,
+  ): Promise<void> {
+    try {
+      const decision = await this.routingRulesService.pickAgent(conversation);
+      if (!decision) {
+        return;
+      }
+
+      await this.changeAssignee(conversation, {
+        assigneeId: decision.agentId,
+        source: 'routing',
+        routingRuleId: decision.routingRuleId,
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Failed to route conversation ${conversation._id.toString()}: ${error.message}`,
+      );
+    }
+  }
+
+  private async changeAssigneeOrThrow(
+    conversation: ConversationDocument,
+    change: AssigneeChange,
+  ): Promise<void> {
+    if (!(await this.changeAssignee(conversation, change))) {
+      throw new BadRequestException(
+        'Conversation was reassigned in the meantime, please try again',
+      );
+    }
+  }
+
+  /**
+   * Moves the conversation to a new assignee and records the change. Only
+   * applies when the assignee is still the one the conversation was loaded
+   * with, so concurrent claims and routing can't overwrite each other.
+   */
+  private async changeAssignee(
+    conversation: ConversationDocument,
+    change: AssigneeChange,
+  ): Promise<boolean> {
+    const previousAssigneeId = conversation.assigneeId ?? null;
+    if (String(previousAssigneeId) === String(change.assigneeId)) {
+      return true;
+    }
+
+    const result = await this.conversationModel
+      .updateOne(
+        { _id: conversation._id, assigneeId: previousAssigneeId },
+        { assigneeId: change.assigneeId },
+      )
+      .exec();
+    if (!result.modifiedCount) {
+      return false;
+    }
+    conversation.assigneeId = change.assigneeId;
+
+    const assignment = await new this.assignmentModel({
+      conversationId: conversation._id,
+      assigneeId: change.assigneeId,
+      previousAssigneeId,
+      source: change.source,
+      assignedBy: change.assignedBy,
+      routingRuleId: change.routingRuleId,
+      autoReplyRuleId: change.autoReplyRuleId,
+      tenantId: conversation.tenantId,
+    }).save();
+
+    await this.webhooksService.publish(
+      conversation.tenantId,
+      'conversation.assigned',
+      {
+        conversationId: conversation._id.toString(),
+        deviceId: conversation.deviceId.toString(),
+        remoteJid: conversation.remoteJid,
+        ...this.mapToAssignmentResponse(assignment),
+      },
+    );
+
+    return true;
+  }
+
+  private async findConversation(
+    id: string,
+    tenantId: string,
+  ): Promise<ConversationDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Conversation not found');
+    }
+
+    const conversation = await this.conversationModel
+      .findOne({
+        _id: new Types.ObjectId(id),
+        tenantId: new Types.ObjectId(tenantId),
+      })
+      .exec();
+
+    if (!conversation) {
+      throw new NotFoundException('Conversation not found');
+    }
+
+    return conversation;
+  }
+
+  private async upsertConversation(
+    message: MessageDocument,
+  ): Promise<ConversationDocument> {
+    // Inbound messages carry the chat JID, sends only know the number
+    const remoteJid = message.remoteJid || toJid(message.phoneNumber);
+    const isGroup = isGroupJid(remoteJid);
+    const isInbound = message.direction === 'inbound';
+
+    const filter = {
+      tenantId: message.tenantId,
+      deviceId: message.deviceId,
+      remoteJid,
+    };
+    const update = {
+      $setOnInsert: {
+        isGroup,
+        ...(!isGroup && { phoneNumber: jidToPhoneNumber(remoteJid) }),
+      },
+      ...(isInbound
+        ? {
+            $inc: { unreadCount: 1 },
+            $set: {
+              status: 'open',
+              ...(!isGroup &&
+                message.pushName && { pushName: message.pushName }),
+            },
+          }
+        : // Campaign sends and automatic replies go out unattended, they don't mean anyone read the chat
+          !message.campaignId &&
+          !message.autoReplyRuleId &&
+          !message.automaticMessage && { $set: { unreadCount: 0 } }),
+    };
+
+    try {
+      return await this.conversationModel
+        .findOneAndUpdate(filter, update, { upsert: true, new: true })
+        .exec();
+    } catch (error) {
+      // A concurrent message created the conversation first
+      if (error.code !== DUPLICATE_KEY_ERROR) {
+        throw error;
+      }
+      return this.conversationModel
+        .findOneAndUpdate(filter, update, { new: true })
+        .exec();
+    }
+  }
+
+  /** Links the conversation to the matching contact or group, once. */
+  private async linkCounterpart(
+    conversation: ConversationDocument,
+    message: MessageDocument,
+  ): Promise<void> {
+    if (conversation.isGroup && !conversation.chatGroupId) {
+      const chatGroupId =
+        message.groupId ||
+        (
+          await this.chatGroupModel
+            .findOne({
+              tenantId: conversation.tenantId,
+              groupId: {
+                $in: [
+                  conversation.remoteJid,
+                  jidToUser(conversation.remoteJid),
+                ],
+              },
+              isDeleted: false,
+            })
+            .exec()
+        )?._id;
+
+      if (chatGroupId) {
+        conversation.chatGroupId = chatGroupId;
+        await this.conversationModel
+          .updateOne({ _id: conversation._id }, { chatGroupId })
+          .exec();
+      }
+    }
+
+    if (!conversation.isGroup && !conversation.contactId) {
+      const contact = await this.contactModel
+        .findOne({
+          tenantId: conversation.tenantId,
+          phoneNumber: { $in: phoneNumberVariants(conversation.remoteJid) },
+          isDeleted: false,
+        })
+        .exec();
+
+      if (contact) {
+        conversation.contactId = contact._id;
+        await this.conversationModel
+          .updateOne({ _id: conversation._id }, { contactId: contact._id })
+          .exec();
+      }
+    }
+  }
+
+  private encodeCursor(cursor: TimelineCursor): string {
+    return Buffer.from(
+      `${cursor.sentAt.getTime()}:${cursor.id.toString()}`,
+    ).toString('base64url');
+  }
+
+  private decodeCursor(cursor: string): TimelineCursor {
+    const [time, id] = Buffer.from(cursor, 'base64url').toString().split(':');
+    const sentAt = new Date(Number(time));
+
+    if (!time || isNaN(sentAt.getTime()) || !Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    return { sentAt, id: new Types.ObjectId(id) };
+  }
+
+  private mapToAssignmentResponse(
+    assignment: ConversationAssignmentDocument,
+  ): ConversationAssignmentResponseDto {
+    return {
+      id: assignment._id.toString(),
+      assigneeId: assignment.assigneeId?.toString(),
+      previousAssigneeId: assignment.previousAssigneeId?.toString(),
+      source: assignment.source,
+      assignedBy: assignment.assignedBy?.toString(),
+      routingRuleId: assignment.routingRuleId?.toString(),
+      autoReplyRuleId: assignment.autoReplyRuleId?.toString(),
+      createdAt: (assignment as any).createdAt,
+    };
+  }
+
+  // Batch-loads last messages, contacts and groups for a page of conversations
+  private async mapToConversationResponses(
+    conversations: ConversationDocument[],
+  ): Promise<ConversationResponseDto[]> {
+    const idsOf = (field: 'lastMessageId' | 'contactId' | 'chatGroupId') =>
+      conversations
+        .map((conversation) => conversation[field])
+        .filter((id) => !!id);
+
+    const [messages, contacts, groups] = await Promise.all([
+      this.messageModel.find({ _id: { $in: idsOf('lastMessageId') } }).exec(),
+      this.contactModel.find({ _id: { $in: idsOf('contactId') } }).exec(),
+      this.chatGroupModel.find({ _id: { $in: idsOf('chatGroupId') } }).exec(),
+    ]);
+
+    const messagesById = new Map(
+      messages.map((message) => [message._id.toString(), message]),
+    );
+    const contactsById = new Map(
+      contacts.map((contact) => [contact._id.toString(), contact]),
+    );
+    const groupsById = new Map(
+      groups.map((group) => [group._id.toString(), group]),
+    );
+
+    return conversations.map((conversation) => {
+      const lastMessage = messagesById.get(
+        conversation.lastMessageId?.toString(),
+      );
+      const contact = contactsById.get(conversation.contactId?.toString());
+      const group = groupsById.get(conversation.chatGroupId?.toString());
+      const contactName =
+        contact &&
+        (contact.name ||
+          [contact.firstName, contact.lastName].filter(Boolean).join(' '));
+
+      return {
+        id: conversation._id.toString(),
+        deviceId: conversation.deviceId.toString(),
+        remoteJid: conversation.remoteJid,
+        isGroup: conversation.isGroup,
+        phoneNumber: conversation.phoneNumber,
+        title:
+          contactName ||
+          group?.name ||
+          conversation.pushName ||
+          conversation.phoneNumber ||
+          conversation.remoteJid,
+        contactId: conversation.contactId?.toString(),
+        chatGroupId: conversation.chatGroupId?.toString(),
+        status: conversation.status,
+        unreadCount: conversation.unreadCount,
+        assigneeId: conversation.assigneeId?.toString(),
+        lastMessage: lastMessage ? mapMessageResponse(lastMessage) : undefined,
+        lastMessageAt: conversation.lastMessageAt,
+        createdAt: (conversation as any).createdAt,
+        updatedAt: (conversation as any).updatedAt,
+      };
+    });
+  }
+}
@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsMongoId, IsOptional } from 'class-validator';
+
+export class AssignConversationDto {
+  @ApiProperty({
+    description: 'User to assign the conversation to. Omit or null to unassign',
+    example: '507f1f77bcf86cd799439011',
+    required: false,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsMongoId({ message: 'Assignee ID must be a valid ID' })
+  assigneeId?: string | null;
+}
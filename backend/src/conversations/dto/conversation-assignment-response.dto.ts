@@ -0,0 +1,60 @@
+import { ApiProperty } from '@nestjs/swagger';
+import type { AssignmentSource } from '../../database/schemas/conversation-assignment.schema';
+
+export class ConversationAssignmentResponseDto {
+  @ApiProperty({
+    description: 'Assignment ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  id: string;
+
+  @ApiProperty({
+    description:
+      'User the conversation was assigned to, not set when unassigned',
+    example: '507f1f77bcf86cd799439012',
+    required: false,
+  })
+  assigneeId?: string;
+
+  @ApiProperty({
+    description: 'User the conversation was assigned to before',
+    example: '507f1f77bcf86cd799439013',
+    required: false,
+  })
+  previousAssigneeId?: string;
+
+  @ApiProperty({
+    description: 'How the assignment was made',
+    enum: ['claim', 'manual', 'routing', 'auto_reply'],
+    example: 'routing',
+  })
+  source: AssignmentSource;
+
+  @ApiProperty({
+    description:
+      'User who made the assignment, not set for automatic assignments',
+    example: '507f1f77bcf86cd799439014',
+    required: false,
+  })
+  assignedBy?: string;
+
+  @ApiProperty({
+    description: 'Routing rule that picked the assignee',
+    example: '507f1f77bcf86cd799439015',
+    required: false,
+  })
+  routingRuleId?: string;
+
+  @ApiProperty({
+    description: 'Auto-reply rule that assigned the conversation',
+    example: '507f1f77bcf86cd799439016',
+    required: false,
+  })
+  autoReplyRuleId?: string;
+
+  @ApiProperty({
+    description: 'When the assignment was made',
+    example: '2023-01-01T00:00:00.000Z',
+  })
+  createdAt: Date;
+}
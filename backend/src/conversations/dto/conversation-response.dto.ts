@@ -0,0 +1,103 @@
+import { ApiProperty } from '@nestjs/swagger';
+import type { ConversationStatus } from '../../database/schemas/conversation.schema';
+import { MessageResponseDto } from '../../whatsapp/dto/message-response.dto';
+
+export class ConversationResponseDto {
+  @ApiProperty({
+    description: 'Conversation ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Device the conversation runs on',
+    example: '507f1f77bcf86cd799439012',
+  })
+  deviceId: string;
+
+  @ApiProperty({
+    description: 'Counterpart chat JID',
+    example: '1234567890@s.whatsapp.net',
+  })
+  remoteJid: string;
+
+  @ApiProperty({
+    description: 'Whether the counterpart is a group',
+    example: false,
+  })
+  isGroup: boolean;
+
+  @ApiProperty({
+    description: 'Counterpart phone number, not set for groups',
+    example: '+1234567890',
+    required: false,
+  })
+  phoneNumber?: string;
+
+  @ApiProperty({
+    description:
+      'Display name, taken from the contact, the group or the WhatsApp push name',
+    example: 'John Doe',
+  })
+  title: string;
+
+  @ApiProperty({
+    description: 'Matching contact ID',
+    example: '507f1f77bcf86cd799439013',
+    required: false,
+  })
+  contactId?: string;
+
+  @ApiProperty({
+    description: 'Matching group ID',
+    example: '507f1f77bcf86cd799439014',
+    required: false,
+  })
+  chatGroupId?: string;
+
+  @ApiProperty({
+    description: 'Conversation status',
+    enum: ['open', 'pending', 'closed'],
+    example: 'open',
+  })
+  status: ConversationStatus;
+
+  @ApiProperty({
+    description: 'Inbound messages since the last reply or read',
+    example: 2,
+  })
+  unreadCount: number;
+
+  @ApiProperty({
+    description: 'User the conversation is assigned to',
+    example: '507f1f77bcf86cd799439015',
+    required: false,
+  })
+  assigneeId?: string;
+
+  @ApiProperty({
+    description: 'Most recent message, inbound or outbound',
+    type: MessageResponseDto,
+    required: false,
+  })
+  lastMessage?: MessageResponseDto;
+
+  @ApiProperty({
+    description: 'When the most recent message was sent',
+    example: '2023-01-01T00:00:00.000Z',
+    required: false,
+  })
+  lastMessageAt?: Date;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2023-01-01T00:00:00.000Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Last update timestamp',
+    example: '2023-01-01T00:00:00.000Z',
+  })
+  updatedAt: Date;
+}
@@ -0,0 +1,93 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsMongoId,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import type { RoutingStrategy } from '../../database/schemas/routing-rule.schema';
+
+export class CreateRoutingRuleDto {
+  @ApiProperty({
+    description: 'Rule name',
+    example: 'VIP support',
+  })
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name is required' })
+  @MaxLength(100, { message: 'Name must not exceed 100 characters' })
+  name: string;
+
+  @ApiProperty({
+    description: 'How an agent is picked from the pool',
+    enum: ['round_robin', 'least_busy'],
+    example: 'round_robin',
+  })
+  @IsEnum(['round_robin', 'least_busy'], {
+    message: 'Strategy must be round_robin or least_busy',
+  })
+  strategy: RoutingStrategy;
+
+  @ApiProperty({
+    description: 'Agents that conversations are routed to',
+    example: ['507f1f77bcf86cd799439011'],
+    type: [String],
+  })
+  @IsArray({ message: 'Agent IDs must be an array' })
+  @ArrayNotEmpty({ message: 'At least one agent is required' })
+  @ArrayUnique({ message: 'Agent IDs must be unique' })
+  @IsMongoId({ each: true, message: 'Agent ID must be a valid ID' })
+  agentIds: string[];
+
+  @ApiProperty({
+    description:
+      'Only route conversations whose contact has one of these tags. Empty matches every conversation',
+    example: ['vip'],
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray({ message: 'Tags must be an array' })
+  @IsString({ each: true, message: 'Tag must be a string' })
+  tags?: string[];
+
+  @ApiProperty({
+    description:
+      'Only route conversations on these devices. Empty matches every device',
+    example: ['507f1f77bcf86cd799439012'],
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray({ message: 'Device IDs must be an array' })
+  @IsMongoId({ each: true, message: 'Device ID must be a valid ID' })
+  deviceIds?: string[];
+
+  @ApiProperty({
+    description: 'Rules with lower numbers are tried first',
+    example: 0,
+    default: 0,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'Priority must be a number' })
+  priority?: number;
+
+  @ApiProperty({
+    description: 'Whether the rule is applied',
+    example: true,
+    default: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'isActive must be a boolean' })
+  isActive?: boolean;
+}
@@ -0,0 +1,26 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsNumber, IsOptional, IsString, Max, Min } from 'class-validator';
+
+export class QueryConversationMessagesDto {
+  @ApiProperty({
+    description: 'Cursor returned as nextCursor by the previous page',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'Cursor must be a string' })
+  cursor?: string;
+
+  @ApiProperty({
+    description: 'Number of messages per page',
+    example: 50,
+    default: 50,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'Limit must be a number' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit cannot exceed 100' })
+  limit?: number = 50;
+}
@@ -0,0 +1,88 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsEnum,
+  IsMongoId,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import type { ConversationStatus } from '../../database/schemas/conversation.schema';
+
+export class QueryConversationsDto {
+  @ApiProperty({
+    description: 'Page number for pagination',
+    example: 1,
+    default: 1,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'Page must be a number' })
+  @Min(1, { message: 'Page must be at least 1' })
+  page?: number = 1;
+
+  @ApiProperty({
+    description: 'Number of items per page',
+    example: 20,
+    default: 20,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'Limit must be a number' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit cannot exceed 100' })
+  limit?: number = 20;
+
+  @ApiProperty({
+    description: 'Filter by status',
+    enum: ['open', 'pending', 'closed'],
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(['open', 'pending', 'closed'], {
+    message: 'Invalid conversation status',
+  })
+  status?: ConversationStatus;
+
+  @ApiProperty({
+    description: 'Filter by device',
+    example: '507f1f77bcf86cd799439011',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId({ message: 'Device ID must be a valid ID' })
+  deviceId?: string;
+
+  @ApiProperty({
+    description: 'Filter by assignee',
+    example: '507f1f77bcf86cd799439012',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId({ message: 'Assignee ID must be a valid ID' })
+  assigneeId?: string;
+
+  @ApiProperty({
+    description: 'Only conversations with unread messages',
+    example: true,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Boolean)
+  @IsBoolean({ message: 'Unread must be a boolean' })
+  unread?: boolean;
+
+  @ApiProperty({
+    description: 'Search by phone number, JID or push name',
+    example: '+1234',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'Search must be a string' })
+  search?: string;
+}
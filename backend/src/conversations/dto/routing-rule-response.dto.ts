@@ -0,0 +1,59 @@
+import { ApiProperty } from '@nestjs/swagger';
+import type { RoutingStrategy } from '../../database/schemas/routing-rule.schema';
+
+export class RoutingRuleResponseDto {
+  @ApiProperty({
+    description: 'Routing rule ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  id: string;
+
+  @ApiProperty({ description: 'Rule name', example: 'VIP support' })
+  name: string;
+
+  @ApiProperty({
+    description: 'How an agent is picked from the pool',
+    enum: ['round_robin', 'least_busy'],
+    example: 'round_robin',
+  })
+  strategy: RoutingStrategy;
+
+  @ApiProperty({
+    description: 'Agents that conversations are routed to',
+    example: ['507f1f77bcf86cd799439012'],
+  })
+  agentIds: string[];
+
+  @ApiProperty({
+    description: 'Contact tags the rule is limited to',
+    example: ['vip'],
+  })
+  tags: string[];
+
+  @ApiProperty({
+    description: 'Devices the rule is limited to',
+    example: [],
+  })
+  deviceIds: string[];
+
+  @ApiProperty({
+    description: 'Rules with lower numbers are tried first',
+    example: 0,
+  })
+  priority: number;
+
+  @ApiProperty({ description: 'Whether the rule is applied', example: true })
+  isActive: boolean;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2023-01-01T00:00:00.000Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Last update timestamp',
+    example: '2023-01-01T00:00:00.000Z',
+  })
+  updatedAt: Date;
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum } from 'class-validator';
+import type { ConversationStatus } from '../../database/schemas/conversation.schema';
+
+export class UpdateConversationDto {
+  @ApiProperty({
+    description: 'New conversation status',
+    enum: ['open', 'pending', 'closed'],
+    example: 'closed',
+  })
+  @IsEnum(['open', 'pending', 'closed'], {
+    message: 'Invalid conversation status',
+  })
+  status: ConversationStatus;
+}
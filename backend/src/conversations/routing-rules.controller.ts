@@ -0,0 +1,142 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Put,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { RequirePermission } from '../auth/decorators/permission.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionGuard } from '../auth/guards/permission.guard';
+import { CreateRoutingRuleDto } from './dto/create-routing-rule.dto';
+import { RoutingRuleResponseDto } from './dto/routing-rule-response.dto';
+import { UpdateRoutingRuleDto } from './dto/update-routing-rule.dto';
+import { RoutingRulesService } from './routing-rules.service';
+
+@ApiTags('Conversations')
+@Controller('routing-rules')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+@ApiBearerAuth()
+export class RoutingRulesController {
+  constructor(private readonly routingRulesService: RoutingRulesService) {}
+
+  @Post()
+  @RequirePermission('canManageRouting')
+  @ApiOperation({
+    summary: 'Create a conversation routing rule',
+    description:
+      'Unassigned conversations are routed by the first active rule, by priority, that matches their device and contact tags and has an available agent',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Routing rule created successfully',
+    type: RoutingRuleResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - validation error or invalid agents',
+  })
+  async create(
+    @Body() createRoutingRuleDto: CreateRoutingRuleDto,
+    @Request() req: any,
+  ): Promise<RoutingRuleResponseDto> {
+    return this.routingRulesService.createRule(
+      createRoutingRuleDto,
+      req.user.tenantId,
+    );
+  }
+
+  @Get()
+  @RequirePermission('canManageRouting')
+  @ApiOperation({ summary: 'List routing rules in the order they are tried' })
+  @ApiResponse({
+    status: 200,
+    description: 'Routing rules retrieved successfully',
+    type: [RoutingRuleResponseDto],
+  })
+  async findAll(@Request() req: any): Promise<RoutingRuleResponseDto[]> {
+    return this.routingRulesService.findAllRules(req.user.tenantId);
+  }
+
+  @Get(':id')
+  @RequirePermission('canManageRouting')
+  @ApiOperation({ summary: 'Get a routing rule' })
+  @ApiParam({ name: 'id', description: 'Routing rule ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Routing rule retrieved successfully',
+    type: RoutingRuleResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Routing rule not found',
+  })
+  async findOne(
+    @Param('id') id: string,
+    @Request() req: any,
+  ): Promise<RoutingRuleResponseDto> {
+    return this.routingRulesService.findRuleById(id, req.user.tenantId);
+  }
+
+  @Put(':id')
+  @RequirePermission('canManageRouting')
+  @ApiOperation({ summary: 'Update a routing rule' })
+  @ApiParam({ name: 'id', description: 'Routing rule ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Routing rule updated successfully',
+    type: RoutingRuleResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - validation error or invalid agents',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Routing rule not found',
+  })
+  async update(
+    @Param('id') id: string,
+    @Body() updateRoutingRuleDto: UpdateRoutingRuleDto,
+    @Request() req: any,
+  ): Promise<RoutingRuleResponseDto> {
+    return this.routingRulesService.updateRule(
+      id,
+      updateRoutingRuleDto,
+      req.user.tenantId,
+    );
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermission('canManageRouting')
+  @ApiOperation({ summary: 'Delete a routing rule' })
+  @ApiParam({ name: 'id', description: 'Routing rule ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Routing rule deleted successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Routing rule not found',
+  })
+  async remove(
+    @Param('id') id: string,
+    @Request() req: any,
+  ): Promise<{ message: string }> {
+    return this.routingRulesService.deleteRule(id, req.user.tenantId);
+  }
+}
@@ -0,0 +1,247 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { RoutingRulesService } from './routing-rules.service';
+import { Contact } from '../database/schemas/contact.schema';
+import {
+  Conversation,
+  ConversationDocument,
+} from '../database/schemas/conversation.schema';
+import { RoutingRule } from '../database/schemas/routing-rule.schema';
+import { UsersService } from '../users/users.service';
+
+describe('RoutingRulesService', () => {
+  let service: RoutingRulesService;
+
+  const tenantId = new Types.ObjectId('507f1f77bcf86cd799439012');
+  const deviceId = new Types.ObjectId('507f1f77bcf86cd799439011');
+  const contactId = new Types.ObjectId('507f1f77bcf86cd799439030');
+  const agentIds = [
+    new Types.ObjectId('507f1f77bcf86cd799439041'),
+    new Types.ObjectId('507f1f77bcf86cd799439042'),
+    new Types.ObjectId('507f1f77bcf86cd799439043'),
+  ];
+
+  const execResult = (value: unknown) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+  const sortedResult = (value: unknown) => ({
+    sort: jest.fn().mockReturnValue(execResult(value)),
+  });
+
+  const MockRoutingRuleModel = Object.assign(
+    jest.fn().mockImplementation((data) => ({
+      ...data,
+      save: jest.fn().mockResolvedValue({ _id: new Types.ObjectId(), ...data }),
+    })),
+    { find: jest.fn(), findOne: jest.fn(), updateOne: jest.fn() },
+  );
+  const mockConversationModel = { aggregate: jest.fn() };
+  const mockContactModel = { findById: jest.fn() };
+  const mockUsersService = { findAgents: jest.fn() };
+
+  const rule = (overrides: object = {}) => ({
+    _id: new Types.ObjectId(),
+    name: 'Support',
+    strategy: 'round_robin',
+    agentIds,
+    tags: [],
+    deviceIds: [],
+    priority: 0,
+    isActive: true,
+    tenantId,
+    ...overrides,
+  });
+
+  const conversation = (overrides: object = {}) =>
+    ({
+      _id: new Types.ObjectId(),
+      tenantId,
+      deviceId,
+      remoteJid: '1234567890@s.whatsapp.net',
+      ...overrides,
+    }) as unknown as ConversationDocument;
+
+  const agents = (ids: Types.ObjectId[]) =>
+    ids.map((id) => ({ id: id.toString() }));
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    MockRoutingRuleModel.updateOne.mockReturnValue(execResult({}));
+    mockUsersService.findAgents.mockResolvedValue(agents(agentIds));
+    mockContactModel.findById.mockReturnValue(execResult(null));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RoutingRulesService,
+        {
+          provide: getModelToken(RoutingRule.name),
+          useValue: MockRoutingRuleModel,
+        },
+        {
+          provide: getModelToken(Conversation.name),
+          useValue: mockConversationModel,
+        },
+        { provide: getModelToken(Contact.name), useValue: mockContactModel },
+        { provide: UsersService, useValue: mockUsersService },
+      ],
+    }).compile();
+
+    service = module.get<RoutingRulesService>(RoutingRulesService);
+  });
+
+  describe('createRule', () => {
+    it('should create a rule for agents of the tenant', async () => {
+      const result = await service.createRule(
+        {
+          name: 'Sales',
+          strategy: 'least_busy',
+          agentIds: [agentIds[0].toString()],
+          tags: ['sales'],
+        },
+        tenantId.toString(),
+      );
+
+      expect(mockUsersService.findAgents).toHaveBeenCalledWith(
+        tenantId.toString(),
+      );
+      expect(MockRoutingRuleModel).toHaveBeenCalledWith(
+        expect.objectContaining({
+          agentIds: [agentIds[0]],
+          tags: ['sales'],
+          deviceIds: [],
+          priority: 0,
+          isActive: true,
+          tenantId,
+        }),
+      );
+      expect(result.agentIds).toEqual([agentIds[0].toString()]);
+    });
+
+    it('should reject users who cannot be assigned conversations', async () => {
+      const viewerId = new Types.ObjectId().toString();
+
+      await expect(
+        service.createRule(
+          { name: 'Sales', strategy: 'round_robin', agentIds: [viewerId] },
+          tenantId.toString(),
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(MockRoutingRuleModel).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findRuleById', () => {
+    it('should throw for unknown rules', async () => {
+      MockRoutingRuleModel.findOne.mockReturnValue(execResult(null));
+
+      await expect(
+        service.findRuleById(
+          new Types.ObjectId().toString(),
+          tenantId.toString(),
+        ),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('pickAgent', () => {
+    it('should return null without active rules', async () => {
+      MockRoutingRuleModel.find.mockReturnValue(sortedResult([]));
+
+      await expect(service.pickAgent(conversation())).resolves.toBeNull();
+      expect(mockUsersService.findAgents).not.toHaveBeenCalled();
+    });
+
+    it('should rotate through available agents in rule order', async () => {
+      const roundRobin = rule({ lastAssignedAgentId: agentIds[0] });
+      MockRoutingRuleModel.find.mockReturnValue(sortedResult([roundRobin]));
+      // The second agent is away, so the rotation skips them
+      mockUsersService.findAgents.mockResolvedValue(
+        agents([agentIds[0], agentIds[2]]),
+      );
+
+      const decision = await service.pickAgent(conversation());
+
+      expect(mockUsersService.findAgents).toHaveBeenCalledWith(
+        tenantId.toString(),
+        true,
+      );
+      expect(decision).toEqual({
+        agentId: agentIds[2],
+        routingRuleId: roundRobin._id,
+      });
+      expect(MockRoutingRuleModel.updateOne).toHaveBeenCalledWith(
+        { _id: roundRobin._id },
+        { lastAssignedAgentId: agentIds[2] },
+      );
+    });
+
+    it('should wrap around to the first agent', async () => {
+      MockRoutingRuleModel.find.mockReturnValue(
+        sortedResult([rule({ lastAssignedAgentId: agentIds[2] })]),
+      );
+
+      const decision = await service.pickAgent(conversation());
+
+      expect(decision.agentId).toBe(agentIds[0]);
+    });
+
+    it('should pick the agent with the fewest open conversations', async () => {
+      MockRoutingRuleModel.find.mockReturnValue(
+        sortedResult([rule({ strategy: 'least_busy' })]),
+      );
+      mockConversationModel.aggregate.mockReturnValue(
+        execResult([
+          { _id: agentIds[0], count: 4 },
+          { _id: agentIds[2], count: 1 },
+        ]),
+      );
+
+      const decision = await service.pickAgent(conversation());
+
+      // The second agent has no open conversations at all
+      expect(decision.agentId).toBe(agentIds[1]);
+      expect(MockRoutingRuleModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should skip rules for other devices and contact tags', async () => {
+      const vipRule = rule({ tags: ['vip'], agentIds: [agentIds[0]] });
+      const otherDeviceRule = rule({
+        deviceIds: [new Types.ObjectId()],
+        agentIds: [agentIds[1]],
+      });
+      const salesRule = rule({
+        tags: ['sales'],
+        deviceIds: [deviceId],
+        agentIds: [agentIds[2]],
+      });
+      MockRoutingRuleModel.find.mockReturnValue(
+        sortedResult([vipRule, otherDeviceRule, salesRule]),
+      );
+      mockContactModel.findById.mockReturnValue(
+        execResult({ _id: contactId, tags: ['sales', 'newsletter'] }),
+      );
+
+      const decision = await service.pickAgent(conversation({ contactId }));
+
+      expect(mockContactModel.findById).toHaveBeenCalledWith(contactId);
+      expect(decision).toEqual({
+        agentId: agentIds[2],
+        routingRuleId: salesRule._id,
+      });
+    });
+
+    it('should fall through when no agent of a rule is available', async () => {
+      const fallback = rule({ agentIds: [agentIds[1]] });
+      MockRoutingRuleModel.find.mockReturnValue(
+        sortedResult([rule({ agentIds: [agentIds[0]] }), fallback]),
+      );
+      mockUsersService.findAgents.mockResolvedValue(agents([agentIds[1]]));
+
+      const decision = await service.pickAgent(conversation());
+
+      expect(decision.routingRuleId).toBe(fallback._id);
+    });
+  });
+});
@@ -0,0 +1,288 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Contact } from '../database/schemas/contact.schema';
+import {
+  Conversation,
+  ConversationDocument,
+} from '../database/schemas/conversation.schema';
+import {
+  RoutingRule,
+  RoutingRuleDocument,
+} from '../database/schemas/routing-rule.schema';
+import { UsersService } from '../users/users.service';
+import { CreateRoutingRuleDto } from './dto/create-routing-rule.dto';
+import { RoutingRuleResponseDto } from './dto/routing-rule-response.dto';
+import { UpdateRoutingRuleDto } from './dto/update-routing-rule.dto';
+
+/** Agent picked for a conversation and the rule that picked them. */
+export interface RoutingDecision {
+  agentId: Types.ObjectId;
+  routingRuleId: Types.ObjectId;
+}
+
+@Injectable()
+export class RoutingRulesService {
+  constructor(
+    @InjectModel(RoutingRule.name)
+    private routingRuleModel: Model<RoutingRule>,
+    @InjectModel(Conversation.name)
+    private conversationModel: Model<Conversation>,
+    @InjectModel(Contact.name) private contactModel: Model<Contact>,
+    private usersService: UsersService,
+  ) {}
+
+  async createRule(
+    createRoutingRuleDto: CreateRoutingRuleDto,
+    tenantId: string,
+  ): Promise<RoutingRuleResponseDto> {
+    await this.validateAgents(createRoutingRuleDto.agentIds, tenantId);
+
+    const newRule = new this.routingRuleModel({
+      name: createRoutingRuleDto.name,
+      strategy: createRoutingRuleDto.strategy,
+      agentIds: toObjectIds(createRoutingRuleDto.agentIds),
+      tags: createRoutingRuleDto.tags ?? [],
+      deviceIds: toObjectIds(createRoutingRuleDto.deviceIds ?? []),
+      priority: createRoutingRuleDto.priority ?? 0,
+      isActive: createRoutingRuleDto.isActive ?? true,
+      tenantId: new Types.ObjectId(tenantId),
+      isDeleted: false,
+    });
+
+    return this.mapToRoutingRuleResponse(await newRule.save());
+  }
+
+  async findAllRules(tenantId: string): Promise<RoutingRuleResponseDto[]> {
+    const rules = await this.routingRuleModel
+      .find({ tenantId: new Types.ObjectId(tenantId), isDeleted: false })
+      .sort({ priority: 1, createdAt: 1 })
+      .exec();
+
+    return rules.map((rule) => this.mapToRoutingRuleResponse(rule));
+  }
+
+  async findRuleById(
+    id: string,
+    tenantId: string,
+  ): Promise<RoutingRuleResponseDto> {
+    return this.mapToRoutingRuleResponse(await this.findRule(id, tenantId));
+  }
+
+  async updateRule(
+    id: string,
+    updateRoutingRuleDto: UpdateRoutingRuleDto,
+    tenantId: string,
+  ): Promise<RoutingRuleResponseDto> {
+    const rule = await this.findRule(id, tenantId);
+    if (updateRoutingRuleDto.agentIds) {
+      await this.validateAgents(updateRoutingRuleDto.agentIds, tenantId);
+    }
+
+    const updatedRule = await this.routingRuleModel
+      .findByIdAndUpdate(
+        rule._id,
+        {
+          ...updateRoutingRuleDto,
+          ...(updateRoutingRuleDto.agentIds && {
+            agentIds: toObjectIds(updateRoutingRuleDto.agentIds),
+          }),
+          ...(updateRoutingRuleDto.deviceIds && {
+            deviceIds: toObjectIds(updateRoutingRuleDto.deviceIds),
+          }),
+        },
+        { new: true },
+      )
+      .exec();
+
+    return this.mapToRoutingRuleResponse(updatedRule);
+  }
+
+  async deleteRule(id: string, tenantId: string): Promise<{ message: string }> {
+    const rule = await this.findRule(id, tenantId);
+    await this.routingRuleModel
+      .updateOne({ _id: rule._id }, { isDeleted: true, isActive: false })
+      .exec();
+
+    return { message: 'Routing rule deleted successfully' };
+  }
+
+  /**
+   * Picks an agent for the conversation from the first active rule that
+   * matches its device and contact tags and has an available agent.
+   * Returns null when no rule applies.
+   */
+  async pickAgent(
+    conversation: ConversationDocument,
+  ): Promise<RoutingDecision | null> {
+    const rules = await this.routingRuleModel
+      .find({
+        tenantId: conversation.tenantId,
+        isActive: true,
+        isDeleted: false,
+      })
+      .sort({ priority: 1, createdAt: 1 })
+      .exec();
+    if (!rules.length) {
+      return null;
+    }
+
+    const [agents, contact] = await Promise.all([
+      this.usersService.findAgents(conversation.tenantId.toString(), true),
+      conversation.contactId
+        ? this.contactModel.findById(conversation.contactId).exec()
+        : Promise.resolve(null),
+    ]);
+    const availableAgentIds = new Set(agents.map((agent) => agent.id));
+    const contactTags = contact?.tags ?? [];
+
+    for (const rule of rules) {
+      if (
+        rule.deviceIds.length &&
+        !rule.deviceIds.some((deviceId) =>
+          deviceId.equals(conversation.deviceId),
+        )
+      ) {
+        continue;
+      }
+      if (
+        rule.tags.length &&
+        !rule.tags.some((tag) => contactTags.includes(tag))
+      ) {
+        continue;
+      }
+
+      const pool = rule.agentIds.filter((agentId) =>
+        availableAgentIds.has(agentId.toString()),
+      );
+      if (!pool.length) {
+        continue;
+      }
+
+      const agentId =
+        rule.strategy === 'least_busy'
+          ? await this.pickLeastBusy(pool, conversation.tenantId)
+          : await this.pickNextInRotation(rule, pool);
+
+      return { agentId, routingRuleId: rule._id };
+    }
+
+    return null;
+  }
+
+  // Next agent after the last one this rule assigned, in the rule's order
+  private async pickNextInRotation(
+    rule: RoutingRuleDocument,
+    pool: Types.ObjectId[],
+  ): Promise<Types.ObjectId> {
+    const lastIndex = rule.lastAssignedAgentId
+      ? rule.agentIds.findIndex((agentId) =>
+          agentId.equals(rule.lastAssignedAgentId),
+        )
+      : -1;
+    const agentId =
+      pool.find(
+        (candidate) =>
+          rule.agentIds.findIndex((agentId) => agentId.equals(candidate)) >
+          lastIndex,
+      ) ?? pool[0];
+
+    await this.routingRuleModel
+      .updateOne({ _id: rule._id }, { lastAssignedAgentId: agentId })
+      .exec();
+
+    return agentId;
+  }
+
+  // Agent with the fewest open or pending conversations, ties go to pool order
+  private async pickLeastBusy(
+    pool: Types.ObjectId[],
+    tenantId: Types.ObjectId,
+  ): Promise<Types.ObjectId> {
+    const workloads = await this.conversationModel
+      .aggregate<{ _id: Types.ObjectId; count: number }>([
+        {
+          $match: {
+            tenantId,
+            assigneeId: { $in: pool },
+            status: { $in: ['open', 'pending'] },
+          },
+        },
+        { $group: { _id: '$assigneeId', count: { $sum: 1 } } },
+      ])
+      .exec();
+    const workloadByAgent = new Map(
+      workloads.map((workload) => [workload._id.toString(), workload.count]),
+    );
+
+    return pool.reduce((best, candidate) =>
+      (workloadByAgent.get(candidate.toString()) ?? 0) <
+      (workloadByAgent.get(best.toString()) ?? 0)
+        ? candidate
+        : best,
+    );
+  }
+
+  private async validateAgents(
+    agentIds: string[],
+    tenantId: string,
+  ): Promise<void> {
+    const agents = await this.usersService.findAgents(tenantId);
+    const agentIdSet = new Set(agents.map((agent) => agent.id));
+    const invalid = agentIds.filter((agentId) => !agentIdSet.has(agentId));
+
+    if (invalid.length) {
+      throw new BadRequestException(
+        `Users cannot be assigned conversations: ${invalid.join(', ')}`,
+      );
+    }
+  }
+
+  private async findRule(
+    id: string,
+    tenantId: string,
+  ): Promise<RoutingRuleDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Routing rule not found');
+    }
+
+    const rule = await this.routingRuleModel
+      .findOne({
+        _id: new Types.ObjectId(id),
+        tenantId: new Types.ObjectId(tenantId),
+        isDeleted: false,
+      })
+      .exec();
+
+    if (!rule) {
+      throw new NotFoundException('Routing rule not found');
+    }
+
+    return rule;
+  }
+
+  private mapToRoutingRuleResponse(
+    rule: RoutingRuleDocument,
+  ): RoutingRuleResponseDto {
+    return {
+      id: rule._id.toString(),
+      name: rule.name,
+      strategy: rule.strategy,
+      agentIds: rule.agentIds.map((agentId) => agentId.toString()),
+      tags: rule.tags,
+      deviceIds: rule.deviceIds.map((deviceId) => deviceId.toString()),
+      priority: rule.priority,
+      isActive: rule.isActive,
+      createdAt: (rule as any).createdAt,
+      updatedAt: (rule as any).updatedAt,
+    };
+  }
+}
+
+function toObjectIds(ids: string[]): Types.ObjectId[] {
+  return ids.map((id) => new Types.ObjectId(id));
+}
@@ -0,0 +1,25 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type AuthStateEntryDocument = AuthStateEntry & Document;
+
+/**
+ * One Baileys auth-state entry (creds or a signal key) of a WhatsApp session.
+ * Values are encrypted with the tenant key before they are stored.
+ */
+@Schema({ timestamps: true })
+export class AuthStateEntry {
+  @Prop({ required: true, index: true })
+  sessionId: string;
+
+  @Prop({ required: true })
+  key: string;
+
+  @Prop({ required: true })
+  value: string;
+}
+
+export const AuthStateEntrySchema =
+  SchemaFactory.createForClass(AuthStateEntry);
+
+AuthStateEntrySchema.index({ sessionId: 1, key: 1 }, { unique: true });
@@ -0,0 +1,94 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type AutoReplyRuleDocument = AutoReplyRule & Document;
+
+export type AutoReplyActionType = 'reply' | 'tag' | 'assign' | 'webhook';
+
+/**
+ * All conditions that are set must match. A rule without conditions
+ * matches every message.
+ */
+export interface AutoReplyConditions {
+  keywords: string[]; // Any of these words, case-insensitive
+  pattern?: string; // Regular expression, case-insensitive
+  firstMessage: boolean; // Only the first message of a conversation
+  outsideBusinessHours: boolean;
+  deviceIds: Types.ObjectId[]; // Empty matches every device
+}
+
+export interface AutoReplyAction {
+  type: AutoReplyActionType;
+  text?: string; // reply
+  templateId?: Types.ObjectId; // reply, instead of text
+  tags?: string[]; // tag
+  assigneeId?: Types.ObjectId; // assign
+  webhookId?: Types.ObjectId; // webhook
+}
+
+@Schema({ timestamps: true })
+export class AutoReplyRule {
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({
+    type: {
+      _id: false,
+      keywords: { type: [String], default: [] },
+      pattern: { type: String },
+      firstMessage: { type: Boolean, default: false },
+      outsideBusinessHours: { type: Boolean, default: false },
+      deviceIds: { type: [Types.ObjectId], default: [] },
+    },
+    default: {},
+  })
+  conditions: AutoReplyConditions;
+
+  @Prop({
+    type: [
+      {
+        _id: false,
+        type: {
+          type: String,
+          enum: ['reply', 'tag', 'assign', 'webhook'],
+          required: true,
+        },
+        text: { type: String },
+        templateId: { type: Types.ObjectId, ref: 'MessageTemplate' },
+        tags: { type: [String], default: undefined },
+        assigneeId: { type: Types.ObjectId, ref: 'User' },
+        webhookId: { type: Types.ObjectId, ref: 'WebhookSubscription' },
+      },
+    ],
+    required: true,
+  })
+  actions: AutoReplyAction[]; // Run in order
+
+  @Prop({ default: 0 })
+  priority: number; // Lower numbers are tried first
+
+  @Prop({ default: 60 })
+  cooldownMinutes: number; // Per contact, before the rule runs for them again
+
+  @Prop({ default: true })
+  isActive: boolean;
+
+  @Prop({ default: 0 })
+  triggerCount: number;
+
+  @Prop({ type: Date })
+  lastTriggeredAt?: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  createdBy: Types.ObjectId; // Replies are sent on behalf of this user
+
+  @Prop({ type: Types.ObjectId, ref: 'Tenant', required: true })
+  tenantId: Types.ObjectId;
+
+  @Prop({ default: false })
+  isDeleted: boolean;
+}
+
+export const AutoReplyRuleSchema = SchemaFactory.createForClass(AutoReplyRule);
+
+AutoReplyRuleSchema.index({ tenantId: 1, isActive: 1, priority: 1 });
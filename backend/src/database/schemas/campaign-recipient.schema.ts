@@ -0,0 +1,56 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type CampaignRecipientDocument = CampaignRecipient & Document;
+
+export type CampaignRecipientStatus =
+  'pending' | 'processing' | 'queued' | 'failed' | 'cancelled';
+
+@Schema({ timestamps: true })
+export class CampaignRecipient {
+  @Prop({ type: Types.ObjectId, ref: 'Campaign', required: true })
+  campaignId: Types.ObjectId;
+
+  @Prop({ required: true })
+  phoneNumber: string;
+
+  @Prop()
+  name?: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Contact', required: false })
+  contactId?: Types.ObjectId;
+
+  @Prop({ type: Object })
+  variables?: Record<string, string>; // Template variables for this recipient
+
+  @Prop({
+    type: String,
+    enum: ['pending', 'processing', 'queued', 'failed', 'cancelled'],
+    default: 'pending',
+  })
+  status: CampaignRecipientStatus; // Delivery progress is tracked on the message
+
+  @Prop({ type: Types.ObjectId, ref: 'WhatsAppSession', required: false })
+  deviceId?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Message', required: false })
+  messageId?: Types.ObjectId;
+
+  @Prop()
+  errorMessage?: string; // Why the message could not be queued
+
+  @Prop({ type: Date })
+  claimedAt?: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'Tenant', required: true })
+  tenantId: Types.ObjectId;
+}
+
+export const CampaignRecipientSchema =
+  SchemaFactory.createForClass(CampaignRecipient);
+
+CampaignRecipientSchema.index({ campaignId: 1, status: 1 });
+CampaignRecipientSchema.index(
+  { campaignId: 1, phoneNumber: 1 },
+  { unique: true },
+);
@@ -0,0 +1,80 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type CampaignDocument = Campaign & Document;
+
+export type CampaignStatus = 'running' | 'paused' | 'completed' | 'cancelled';
+
+export interface CampaignAudience {
+  contactIds: Types.ObjectId[];
+  tags: string[];
+  groupIds: Types.ObjectId[];
+}
+
+@Schema({ timestamps: true })
+export class Campaign {
+  @Prop({ required: true })
+  name: string;
+
+  @Prop()
+  description?: string;
+
+  @Prop({ type: Object, required: true })
+  message: Record<string, any>; // Send request fields used for every recipient
+
+  @Prop({
+    type: {
+      _id: false,
+      contactIds: { type: [Types.ObjectId], default: [] },
+      tags: { type: [String], default: [] },
+      groupIds: { type: [Types.ObjectId], default: [] },
+    },
+    required: true,
+  })
+  audience: CampaignAudience;
+
+  @Prop({ type: [Types.ObjectId], ref: 'WhatsAppSession', required: true })
+  deviceIds: Types.ObjectId[]; // Recipients are spread across these devices
+
+  @Prop({ required: true })
+  messagesPerMinute: number; // Campaign-wide throttle
+
+  @Prop({
+    type: String,
+    enum: ['running', 'paused', 'completed', 'cancelled'],
+    default: 'running',
+    index: true,
+  })
+  status: CampaignStatus;
+
+  @Prop({ default: 0 })
+  totalRecipients: number;
+
+  @Prop({ default: 0 })
+  dispatchedCount: number; // Used to rotate through the devices
+
+  @Prop({ type: Date })
+  nextDispatchAt?: Date; // Earliest time the next recipient may be sent to
+
+  @Prop({ type: Date })
+  startedAt?: Date;
+
+  @Prop({ type: Date })
+  pausedAt?: Date | null;
+
+  @Prop({ type: Date })
+  completedAt?: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'Tenant', required: true, index: true })
+  tenantId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  createdBy: Types.ObjectId;
+
+  @Prop({ default: false })
+  isDeleted: boolean;
+}
+
+export const CampaignSchema = SchemaFactory.createForClass(Campaign);
+
+CampaignSchema.index({ tenantId: 1, createdAt: -1 });
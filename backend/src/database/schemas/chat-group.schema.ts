@@ -32,6 +32,12 @@ export class ChatGroup {
   @Prop()
   profilePictureUrl: string;
 
+  @Prop({ default: 0 })
+  messagesReceived: number;
+
+  @Prop()
+  lastMessageAt: Date;
+
   @Prop({ type: Object })
   metadata: Record<string, any>; // Additional group metadata
 
@@ -0,0 +1,40 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type ConsentChangeDocument = ConsentChange & Document;
+
+export type ConsentStatus = 'opted_in' | 'opted_out';
+
+export type ConsentSource = 'keyword' | 'user';
+
+@Schema({ timestamps: true })
+export class ConsentChange {
+  @Prop({ required: true })
+  phoneNumber: string; // +digits, whether or not it is saved as a contact
+
+  @Prop({ type: String, enum: ['opted_in', 'opted_out'], required: true })
+  status: ConsentStatus;
+
+  @Prop({ type: String, enum: ['keyword', 'user'], required: true })
+  source: ConsentSource;
+
+  @Prop()
+  keyword?: string; // Keyword the contact sent
+
+  @Prop({ type: Types.ObjectId, ref: 'Message', required: false })
+  messageId?: Types.ObjectId; // Message carrying the keyword
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: false })
+  changedBy?: Types.ObjectId; // Not set for keywords
+
+  @Prop()
+  note?: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Tenant', required: true })
+  tenantId: Types.ObjectId;
+}
+
+export const ConsentChangeSchema = SchemaFactory.createForClass(ConsentChange);
+
+ConsentChangeSchema.index({ tenantId: 1, phoneNumber: 1, createdAt: -1 });
+ConsentChangeSchema.index({ tenantId: 1, createdAt: -1 });
@@ -1,8 +1,16 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import type { ConsentSource, ConsentStatus } from './consent-change.schema';
 
 export type ContactDocument = Contact & Document;
 
+/** Latest consent change of the phone number, copied from the audit trail. */
+export interface ContactConsent {
+  status: ConsentStatus | 'unknown';
+  source?: ConsentSource;
+  changedAt?: Date;
+}
+
 @Schema({ timestamps: true })
 export class Contact {
   @Prop({ required: true, index: true })
@@ -59,6 +67,21 @@ export class Contact {
   @Prop({ type: Object })
   metadata: Record<string, any>; // Additional contact metadata
 
+  @Prop({
+    type: {
+      _id: false,
+      status: {
+        type: String,
+        enum: ['unknown', 'opted_in', 'opted_out'],
+        default: 'unknown',
+      },
+      source: { type: String, enum: ['keyword', 'user'] },
+      changedAt: { type: Date },
+    },
+    default: {},
+  })
+  consent: ContactConsent;
+
   @Prop({ type: Types.ObjectId, ref: 'Tenant', required: true, index: true })
   tenantId: Types.ObjectId;
 
@@ -0,0 +1,43 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type ConversationAssignmentDocument = ConversationAssignment & Document;
+
+export type AssignmentSource = 'claim' | 'manual' | 'routing' | 'auto_reply';
+
+@Schema({ timestamps: true })
+export class ConversationAssignment {
+  @Prop({ type: Types.ObjectId, ref: 'Conversation', required: true })
+  conversationId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', default: null })
+  assigneeId?: Types.ObjectId; // Not set when the conversation was unassigned
+
+  @Prop({ type: Types.ObjectId, ref: 'User', default: null })
+  previousAssigneeId?: Types.ObjectId;
+
+  @Prop({
+    type: String,
+    enum: ['claim', 'manual', 'routing', 'auto_reply'],
+    required: true,
+  })
+  source: AssignmentSource;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: false })
+  assignedBy?: Types.ObjectId; // Not set for automatic assignments
+
+  @Prop({ type: Types.ObjectId, ref: 'RoutingRule', required: false })
+  routingRuleId?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'AutoReplyRule', required: false })
+  autoReplyRuleId?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Tenant', required: true })
+  tenantId: Types.ObjectId;
+}
+
+export const ConversationAssignmentSchema = SchemaFactory.createForClass(
+  ConversationAssignment,
+);
+
+ConversationAssignmentSchema.index({ conversationId: 1, createdAt: -1 });
@@ -0,0 +1,61 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type ConversationDocument = Conversation & Document;
+
+export type ConversationStatus = 'open' | 'pending' | 'closed';
+
+@Schema({ timestamps: true })
+export class Conversation {
+  @Prop({ type: Types.ObjectId, ref: 'WhatsAppSession', required: true })
+  deviceId: Types.ObjectId;
+
+  @Prop({ required: true })
+  remoteJid: string; // Counterpart chat JID (contact or group)
+
+  @Prop({ default: false })
+  isGroup: boolean;
+
+  @Prop()
+  phoneNumber?: string; // Counterpart phone number, not set for groups
+
+  @Prop()
+  pushName?: string; // Last display name the counterpart sent
+
+  @Prop({ type: Types.ObjectId, ref: 'Contact', required: false })
+  contactId?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'ChatGroup', required: false })
+  chatGroupId?: Types.ObjectId;
+
+  @Prop({
+    type: String,
+    enum: ['open', 'pending', 'closed'],
+    default: 'open',
+  })
+  status: ConversationStatus;
+
+  @Prop({ default: 0 })
+  unreadCount: number; // Inbound messages since the last reply or read
+
+  @Prop({ type: Types.ObjectId, ref: 'User', default: null })
+  assigneeId?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Message', required: false })
+  lastMessageId?: Types.ObjectId;
+
+  @Prop({ type: Date })
+  lastMessageAt?: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'Tenant', required: true })
+  tenantId: Types.ObjectId;
+}
+
+export const ConversationSchema = SchemaFactory.createForClass(Conversation);
+
+ConversationSchema.index(
+  { tenantId: 1, deviceId: 1, remoteJid: 1 },
+  { unique: true },
+);
+ConversationSchema.index({ tenantId: 1, status: 1, lastMessageAt: -1 });
+ConversationSchema.index({ tenantId: 1, assigneeId: 1, lastMessageAt: -1 });
@@ -0,0 +1,35 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type LoginThrottleDocument = LoginThrottle & Document;
+
+/**
+ * Failed logins of an email address or an IP address. Email addresses are
+ * counted whether or not they belong to an account, so a lockout doesn't
+ * reveal which ones do.
+ */
+@Schema({ timestamps: true })
+export class LoginThrottle {
+  @Prop({ required: true, unique: true })
+  key: string; // 'email:<address>' or 'ip:<address>'
+
+  @Prop({ default: 0 })
+  failures: number; // Since the last lockout
+
+  @Prop()
+  lastFailureAt?: Date;
+
+  @Prop()
+  lockedUntil?: Date;
+
+  @Prop({ default: 0 })
+  lockouts: number; // Each lockout lasts twice as long as the one before
+
+  @Prop({ required: true })
+  expiresAt: Date;
+}
+
+export const LoginThrottleSchema = SchemaFactory.createForClass(LoginThrottle);
+
+// Counts are forgotten a while after the last failure or lockout
+LoginThrottleSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,52 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type MediaFileDocument = MediaFile & Document;
+
+@Schema({ timestamps: true })
+export class MediaFile {
+  @Prop({ type: Types.ObjectId, ref: 'Tenant', required: true, index: true })
+  tenantId: Types.ObjectId;
+
+  @Prop({
+    type: String,
+    enum: ['upload', 'inbound'],
+    default: 'upload',
+  })
+  source: 'upload' | 'inbound';
+
+  @Prop({ required: true })
+  fileName: string;
+
+  @Prop({ required: true })
+  mimetype: string;
+
+  @Prop({ required: true })
+  size: number; // Bytes
+
+  @Prop({ required: true })
+  checksum: string; // SHA-256 hex digest
+
+  @Prop({ required: true })
+  storageDriver: string; // e.g. 'local'
+
+  @Prop({ required: true })
+  storageKey: string; // Location inside the storage driver
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: false })
+  uploadedBy?: Types.ObjectId; // Not set for inbound media
+
+  @Prop({ type: Types.ObjectId, ref: 'WhatsAppSession', required: false })
+  deviceId?: Types.ObjectId; // Device that received inbound media
+
+  @Prop({ type: Types.ObjectId, ref: 'Message', required: false })
+  messageId?: Types.ObjectId; // Inbound message the media belongs to
+
+  @Prop({ default: false })
+  isDeleted: boolean;
+}
+
+export const MediaFileSchema = SchemaFactory.createForClass(MediaFile);
+
+MediaFileSchema.index({ tenantId: 1, createdAt: -1 });
+MediaFileSchema.index({ tenantId: 1, checksum: 1 });
@@ -0,0 +1,95 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type MessageTemplateDocument = MessageTemplate & Document;
+
+export type TemplateMessageType =
+  'text' | 'image' | 'video' | 'audio' | 'document';
+
+// Snapshot of a previous revision, so pinned sends keep rendering it
+export interface MessageTemplateVersion {
+  version: number;
+  messageType: TemplateMessageType;
+  content?: string;
+  caption?: string;
+  mediaId?: Types.ObjectId;
+  fileName?: string;
+  mimetype?: string;
+  variables: string[];
+  updatedBy?: Types.ObjectId;
+  createdAt: Date;
+}
+
+@Schema({ timestamps: true })
+export class MessageTemplate {
+  @Prop({ required: true })
+  name: string;
+
+  @Prop()
+  description?: string;
+
+  @Prop({
+    type: String,
+    enum: ['text', 'image', 'video', 'audio', 'document'],
+    required: true,
+  })
+  messageType: TemplateMessageType;
+
+  @Prop()
+  content?: string; // Text body, may contain {{placeholders}}
+
+  @Prop()
+  caption?: string; // Media caption, may contain {{placeholders}}
+
+  @Prop({ type: Types.ObjectId, ref: 'MediaFile' })
+  mediaId?: Types.ObjectId;
+
+  @Prop()
+  fileName?: string;
+
+  @Prop()
+  mimetype?: string;
+
+  @Prop({ type: [String], default: [] })
+  variables: string[]; // Placeholders used by content and caption
+
+  @Prop({ default: 1 })
+  version: number;
+
+  @Prop({
+    type: [
+      {
+        _id: false,
+        version: { type: Number, required: true },
+        messageType: { type: String, required: true },
+        content: String,
+        caption: String,
+        mediaId: { type: Types.ObjectId, ref: 'MediaFile' },
+        fileName: String,
+        mimetype: String,
+        variables: { type: [String], default: [] },
+        updatedBy: { type: Types.ObjectId, ref: 'User' },
+        createdAt: { type: Date, required: true },
+      },
+    ],
+    default: [],
+  })
+  versions: MessageTemplateVersion[]; // Previous revisions, oldest first
+
+  @Prop({ type: Types.ObjectId, ref: 'Tenant', required: true, index: true })
+  tenantId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  createdBy: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  updatedBy?: Types.ObjectId;
+
+  @Prop({ default: false })
+  isDeleted: boolean;
+}
+
+export const MessageTemplateSchema =
+  SchemaFactory.createForClass(MessageTemplate);
+
+MessageTemplateSchema.index({ tenantId: 1, name: 1 });
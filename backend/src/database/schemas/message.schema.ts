@@ -3,6 +3,14 @@ import { Document, Types } from 'mongoose';
 
 export type MessageDocument = Message & Document;
 
+export type AutomaticMessageType = 'away' | 'greeting';
+
+export interface MessageReceipt {
+  participantJid: string;
+  deliveredAt?: Date;
+  readAt?: Date;
+}
+
 @Schema({ timestamps: true })
 export class Message {
   @Prop({
@@ -14,14 +22,40 @@ export class Message {
   deviceId: Types.ObjectId;
 
   @Prop({ required: true })
-  phoneNumber: string; // Recipient phone number
+  phoneNumber: string; // Recipient phone number (sender for inbound messages)
 
   @Prop({
     type: String,
-    enum: ['text', 'image', 'video', 'audio', 'document', 'location'],
+    enum: ['inbound', 'outbound'],
+    default: 'outbound',
+    index: true,
+  })
+  direction: 'inbound' | 'outbound';
+
+  @Prop()
+  remoteJid?: string; // Chat JID (contact or group)
+
+  @Prop()
+  senderJid?: string; // Author JID (group participant for group messages)
+
+  @Prop()
+  pushName?: string; // Sender display name for inbound messages
+
+  @Prop({
+    type: String,
+    enum: [
+      'text',
+      'image',
+      'video',
+      'audio',
+      'document',
+      'location',
+      'contact',
+    ],
     default: 'text',
   })
-  messageType: 'text' | 'image' | 'video' | 'audio' | 'document' | 'location';
+  messageType:
+    'text' | 'image' | 'video' | 'audio' | 'document' | 'location' | 'contact';
 
   @Prop({ type: String, required: true })
   content: string;
@@ -42,18 +76,57 @@ export class Message {
   })
   replyToMessageId?: Types.ObjectId;
 
+  @Prop()
+  quotedWhatsappMessageId?: string; // WhatsApp ID of the quoted message
+
   @Prop({ type: [String], default: [] })
   mentionedPhoneNumbers: string[];
 
   @Prop({ default: false })
   broadcast: boolean;
 
+  @Prop({ type: Types.ObjectId, ref: 'Campaign', required: false })
+  campaignId?: Types.ObjectId; // Set for messages sent by a campaign
+
+  @Prop({ type: Types.ObjectId, ref: 'AutoReplyRule', required: false })
+  autoReplyRuleId?: Types.ObjectId; // Set for automatic replies
+
+  @Prop({ type: String, enum: ['away', 'greeting'], required: false })
+  automaticMessage?: AutomaticMessageType; // Set for away and greeting messages
+
+  @Prop({ type: Types.ObjectId, ref: 'MessageTemplate', required: false })
+  templateId?: Types.ObjectId; // Template the content was rendered from
+
+  @Prop({ required: false })
+  templateVersion?: number;
+
   @Prop({
     type: String,
-    enum: ['sent', 'delivered', 'read', 'failed', 'pending'],
+    enum: [
+      'scheduled',
+      'pending',
+      'sent',
+      'delivered',
+      'read',
+      'failed',
+      'cancelled',
+    ],
     default: 'pending',
   })
-  status: 'sent' | 'delivered' | 'read' | 'failed' | 'pending';
+  status:
+    | 'scheduled'
+    | 'pending'
+    | 'sent'
+    | 'delivered'
+    | 'read'
+    | 'failed'
+    | 'cancelled';
+
+  @Prop({ type: Date })
+  scheduledAt?: Date; // When a scheduled message is handed to the outbound queue
+
+  @Prop()
+  scheduledTimeZone?: string; // Time zone the schedule was entered in
 
   @Prop()
   whatsappMessageId?: string; // WhatsApp message ID
@@ -61,15 +134,27 @@ export class Message {
   @Prop()
   errorMessage?: string; // Error message if failed
 
+  @Prop({ default: 0 })
+  attempts: number; // Send attempts made by the outbound queue
+
+  @Prop({ type: Date })
+  nextAttemptAt?: Date | null; // When a failed send is retried
+
+  @Prop({ type: Types.ObjectId, ref: 'Conversation', required: false })
+  conversationId?: Types.ObjectId;
+
+  @Prop({ type: Object })
+  request?: Record<string, any>; // Send request replayed by the outbound queue
+
   @Prop({ type: Types.ObjectId, ref: 'Tenant', required: true, index: true })
   tenantId: Types.ObjectId;
 
   @Prop({
     type: Types.ObjectId,
     ref: 'User',
-    required: true,
+    required: false,
   })
-  sentBy: Types.ObjectId;
+  sentBy?: Types.ObjectId; // Not set for inbound messages
 
   @Prop({ type: Date, default: Date.now })
   sentAt: Date;
@@ -80,6 +165,19 @@ export class Message {
   @Prop()
   readAt?: Date;
 
+  @Prop({
+    type: [
+      {
+        _id: false,
+        participantJid: { type: String, required: true },
+        deliveredAt: Date,
+        readAt: Date,
+      },
+    ],
+    default: [],
+  })
+  receipts: MessageReceipt[]; // Per-participant receipts for group messages
+
   @Prop({ default: false })
   isDeleted: boolean;
 
@@ -121,3 +219,14 @@ MessageSchema.index({ tenantId: 1, createdAt: -1 });
 MessageSchema.index({ deviceId: 1, createdAt: -1 });
 MessageSchema.index({ sentBy: 1, createdAt: -1 });
 MessageSchema.index({ phoneNumber: 1, createdAt: -1 });
+// Unique so concurrent events for the same WhatsApp message store it once
+MessageSchema.index(
+  { deviceId: 1, whatsappMessageId: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { whatsappMessageId: { $type: 'string' } },
+  },
+);
+MessageSchema.index({ status: 1, scheduledAt: 1 });
+MessageSchema.index({ campaignId: 1, status: 1 });
+MessageSchema.index({ conversationId: 1, sentAt: -1, _id: -1 });
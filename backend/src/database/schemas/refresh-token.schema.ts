@@ -0,0 +1,47 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type RefreshTokenDocument = RefreshToken & Document;
+
+// 'revoked' is a session ended from the sessions list
+export type RefreshTokenRevokeReason =
+  'logout' | 'logout_all' | 'reuse' | 'revoked' | 'password_reset';
+
+/**
+ * One refresh token of a login. Each refresh replaces the token with a new
+ * one of the same family, so a family is one login session.
+ */
+@Schema({ timestamps: true })
+export class RefreshToken {
+  @Prop({ required: true, unique: true })
+  tokenHash: string; // SHA-256, the token itself is never stored
+
+  @Prop({ required: true, index: true })
+  familyId: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
+  userId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Tenant', required: true })
+  tenantId: Types.ObjectId;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  @Prop()
+  usedAt?: Date; // Set once exchanged, using it again revokes the family
+
+  @Prop()
+  revokedAt?: Date;
+
+  @Prop({
+    type: String,
+    enum: ['logout', 'logout_all', 'reuse', 'revoked', 'password_reset'],
+  })
+  revokedReason?: RefreshTokenRevokeReason;
+}
+
+export const RefreshTokenSchema = SchemaFactory.createForClass(RefreshToken);
+
+// Expired tokens can't be exchanged anyway
+RefreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,50 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type RoutingRuleDocument = RoutingRule & Document;
+
+export type RoutingStrategy = 'round_robin' | 'least_busy';
+
+@Schema({ timestamps: true })
+export class RoutingRule {
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({
+    type: String,
+    enum: ['round_robin', 'least_busy'],
+    default: 'round_robin',
+  })
+  strategy: RoutingStrategy; // How an agent is picked from the pool
+
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'User' }], default: [] })
+  agentIds: Types.ObjectId[];
+
+  @Prop({ type: [String], default: [] })
+  tags: string[]; // Only conversations with a contact carrying one of these tags
+
+  @Prop({
+    type: [{ type: Types.ObjectId, ref: 'WhatsAppSession' }],
+    default: [],
+  })
+  deviceIds: Types.ObjectId[]; // Only conversations on these devices
+
+  @Prop({ default: 0 })
+  priority: number; // Lower numbers are tried first
+
+  @Prop({ default: true })
+  isActive: boolean;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: false })
+  lastAssignedAgentId?: Types.ObjectId; // Round-robin position
+
+  @Prop({ type: Types.ObjectId, ref: 'Tenant', required: true })
+  tenantId: Types.ObjectId;
+
+  @Prop({ default: false })
+  isDeleted: boolean;
+}
+
+export const RoutingRuleSchema = SchemaFactory.createForClass(RoutingRule);
+
+RoutingRuleSchema.index({ tenantId: 1, isActive: 1, priority: 1 });
@@ -0,0 +1,41 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type SecurityEventDocument = SecurityEvent & Document;
+
+export type SecurityEventType =
+  'account_locked' | 'ip_blocked' | 'account_unlocked';
+
+/** Audit trail of login lockouts and of admins lifting them. */
+@Schema({ timestamps: true })
+export class SecurityEvent {
+  @Prop({
+    type: String,
+    enum: ['account_locked', 'ip_blocked', 'account_unlocked'],
+    required: true,
+  })
+  type: SecurityEventType;
+
+  @Prop()
+  email?: string; // Also set for addresses without an account
+
+  @Prop()
+  ipAddress?: string; // Of the failed login that caused a lockout
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: false })
+  userId?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Tenant', required: false })
+  tenantId?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: false })
+  actorId?: Types.ObjectId; // Admin who unlocked
+
+  @Prop()
+  lockedUntil?: Date;
+}
+
+export const SecurityEventSchema = SchemaFactory.createForClass(SecurityEvent);
+
+SecurityEventSchema.index({ tenantId: 1, createdAt: -1 });
+SecurityEventSchema.index({ email: 1, createdAt: -1 });
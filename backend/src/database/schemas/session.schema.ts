@@ -0,0 +1,48 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import type { RefreshTokenRevokeReason } from './refresh-token.schema';
+
+export type SessionDocument = Session & Document;
+
+/**
+ * A login of a user on a device. Its refresh tokens share the family ID, and
+ * the access tokens carry it as `sid`.
+ */
+@Schema({ timestamps: true })
+export class Session {
+  @Prop({ required: true, unique: true })
+  familyId: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
+  userId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Tenant', required: true })
+  tenantId: Types.ObjectId;
+
+  @Prop()
+  userAgent?: string;
+
+  @Prop()
+  ipAddress?: string; // Of the latest login or refresh
+
+  @Prop({ required: true })
+  lastUsedAt: Date;
+
+  @Prop({ required: true })
+  expiresAt: Date; // Of the latest refresh token
+
+  @Prop()
+  revokedAt?: Date;
+
+  @Prop({
+    type: String,
+    enum: ['logout', 'logout_all', 'reuse', 'revoked', 'password_reset'],
+  })
+  revokedReason?: RefreshTokenRevokeReason;
+}
+
+export const SessionSchema = SchemaFactory.createForClass(Session);
+
+SessionSchema.index({ userId: 1, lastUsedAt: -1 });
+// Once its refresh token expired a session can't be resumed
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -1,8 +1,70 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
+import type {
+  BusinessHoursInterval,
+  Holiday,
+} from '../../common/utils/business-hours.util';
 
 export type TenantDocument = Tenant & Document;
 
+/** Text sent automatically in reply to a message from a contact. */
+export interface AutomaticMessage {
+  enabled: boolean;
+  text: string;
+  cooldownMinutes?: number; // Away messages only, per contact
+}
+
+/** Opening hours and the messages sent around them. */
+export interface BusinessHoursSettings {
+  timeZone?: string; // IANA, UTC when not set
+  businessHours?: BusinessHoursInterval[]; // None means always open
+  awayMessage?: AutomaticMessage; // Sent outside business hours
+  greetingMessage?: AutomaticMessage; // Sent for the first message of a contact
+}
+
+/** Messages that change the consent of the contact sending them. */
+export interface ConsentKeywords {
+  optOutKeywords: string[];
+  optInKeywords: string[];
+}
+
+export interface TenantSettings extends BusinessHoursSettings {
+  holidays?: Holiday[]; // Closed all day
+  consent?: ConsentKeywords;
+}
+
+// Shared with the device overrides of the business hours settings
+export const BUSINESS_HOURS_SETTINGS_DEFINITION = {
+  _id: false,
+  timeZone: { type: String },
+  businessHours: {
+    type: [
+      {
+        _id: false,
+        day: { type: Number, required: true },
+        open: { type: String, required: true },
+        close: { type: String, required: true },
+      },
+    ],
+    default: undefined,
+  },
+  awayMessage: {
+    type: {
+      _id: false,
+      enabled: { type: Boolean, default: false },
+      text: { type: String },
+      cooldownMinutes: { type: Number },
+    },
+  },
+  greetingMessage: {
+    type: {
+      _id: false,
+      enabled: { type: Boolean, default: false },
+      text: { type: String },
+    },
+  },
+};
+
 @Schema({ timestamps: true })
 export class Tenant {
   @Prop({ required: true, unique: true, index: true })
@@ -14,8 +76,31 @@ export class Tenant {
   @Prop({ default: true })
   isActive: boolean;
 
-  @Prop({ type: Object })
-  settings: Record<string, any>;
+  @Prop({
+    type: {
+      ...BUSINESS_HOURS_SETTINGS_DEFINITION,
+      holidays: {
+        type: [
+          {
+            _id: false,
+            date: { type: String, required: true },
+            name: { type: String },
+            recurring: { type: Boolean, default: false },
+          },
+        ],
+        default: [],
+      },
+      consent: {
+        type: {
+          _id: false,
+          optOutKeywords: { type: [String] },
+          optInKeywords: { type: [String] },
+        },
+      },
+    },
+    default: {},
+  })
+  settings: TenantSettings;
 
   @Prop({ default: false })
   isDeleted: boolean;
@@ -23,6 +23,9 @@ export class UserGroupEntity {
   @Prop({ type: Object })
   customPermissions: Partial<GroupPermissions>;
 
+  @Prop({ default: false })
+  requireTwoFactor: boolean; // Members without 2FA enroll at their next login
+
   @Prop({ type: Types.ObjectId, ref: 'Tenant', required: true, index: true })
   tenantId: Types.ObjectId;
 
@@ -0,0 +1,44 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type UserTokenDocument = UserToken & Document;
+
+export type UserTokenPurpose = 'password_reset' | 'email_verification';
+
+/**
+ * A single-use token sent to the email address of a user, for a password
+ * reset or to verify the address.
+ */
+@Schema({ timestamps: true })
+export class UserToken {
+  @Prop({ required: true, unique: true })
+  tokenHash: string; // SHA-256, the token itself is only in the email
+
+  @Prop({
+    type: String,
+    enum: ['password_reset', 'email_verification'],
+    required: true,
+  })
+  purpose: UserTokenPurpose;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true })
+  email: string; // The address it was sent to, a changed address voids it
+
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  @Prop()
+  usedAt?: Date; // Also set on older tokens when a new one is sent
+}
+
+export const UserTokenSchema = SchemaFactory.createForClass(UserToken);
+
+// Rate limiting counts the tokens sent to an address recently
+UserTokenSchema.index({ email: 1, purpose: 1, createdAt: -1 });
+UserTokenSchema.index({ userId: 1, purpose: 1 });
+// The default expiry times outlast the rate window, so removing expired tokens
+// doesn't lift the limit
+UserTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -3,6 +3,18 @@ import { Document, Types } from 'mongoose';
 
 export type UserDocument = User & Document;
 
+export type AgentAvailability = 'available' | 'away' | 'offline';
+
+/** TOTP second factor, the secret of an unconfirmed enrollment is pending. */
+export interface UserTwoFactor {
+  enabled: boolean;
+  secret?: string;
+  pendingSecret?: string;
+  backupCodes: string[]; // SHA-256 of the unused codes
+  lastUsedStep?: number; // A code is accepted once
+  enabledAt?: Date;
+}
+
 @Schema({ timestamps: true })
 export class User {
   @Prop({ required: true, index: true })
@@ -29,6 +41,26 @@ export class User {
   @Prop()
   lastLoginAt: Date;
 
+  @Prop({
+    type: {
+      enabled: { type: Boolean, default: false },
+      secret: { type: String },
+      pendingSecret: { type: String },
+      backupCodes: { type: [String], default: [] },
+      lastUsedStep: { type: Number },
+      enabledAt: { type: Date },
+    },
+    default: {},
+  })
+  twoFactor: UserTwoFactor;
+
+  @Prop({
+    type: String,
+    enum: ['available', 'away', 'offline'],
+    default: 'available',
+  })
+  availability: AgentAvailability; // Only available agents get routed conversations
+
   @Prop({ type: Types.ObjectId, ref: 'Tenant', required: true, index: true })
   tenantId: Types.ObjectId;
 
@@ -0,0 +1,70 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import type { WebhookEvent } from '../../webhooks/webhook-events';
+
+export type WebhookDeliveryDocument = WebhookDelivery & Document;
+
+export type WebhookDeliveryStatus =
+  'pending' | 'delivering' | 'succeeded' | 'failed';
+
+@Schema({ timestamps: true })
+export class WebhookDelivery {
+  @Prop({
+    type: Types.ObjectId,
+    ref: 'WebhookSubscription',
+    required: true,
+  })
+  subscriptionId: Types.ObjectId;
+
+  @Prop({ type: String, required: true })
+  event: WebhookEvent;
+
+  @Prop({ type: Object, required: true })
+  payload: Record<string, any>; // Request body, identical on every attempt
+
+  @Prop({
+    type: String,
+    enum: ['pending', 'delivering', 'succeeded', 'failed'],
+    default: 'pending',
+  })
+  status: WebhookDeliveryStatus;
+
+  @Prop({ default: 0 })
+  attempts: number;
+
+  @Prop({ type: Date })
+  nextAttemptAt?: Date;
+
+  @Prop({ type: Date })
+  lockedUntil?: Date; // Claim of the dispatcher currently delivering it
+
+  @Prop()
+  lastAttemptAt?: Date;
+
+  @Prop()
+  responseStatus?: number;
+
+  @Prop()
+  responseBody?: string; // Truncated
+
+  @Prop()
+  durationMs?: number;
+
+  @Prop()
+  errorMessage?: string;
+
+  @Prop()
+  deliveredAt?: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'WebhookDelivery', required: false })
+  redeliveryOf?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Tenant', required: true, index: true })
+  tenantId: Types.ObjectId;
+}
+
+export const WebhookDeliverySchema =
+  SchemaFactory.createForClass(WebhookDelivery);
+
+WebhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+WebhookDeliverySchema.index({ subscriptionId: 1, createdAt: -1 });
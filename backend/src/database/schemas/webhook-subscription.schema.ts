@@ -0,0 +1,43 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import type { WebhookEvent } from '../../webhooks/webhook-events';
+
+export type WebhookSubscriptionDocument = WebhookSubscription & Document;
+
+@Schema({ timestamps: true })
+export class WebhookSubscription {
+  @Prop({ required: true })
+  url: string; // HTTPS endpoint deliveries are POSTed to
+
+  @Prop()
+  description?: string;
+
+  @Prop({ type: [String], required: true })
+  events: WebhookEvent[];
+
+  @Prop({ required: true })
+  secret: string; // HMAC key for the X-Webhook-Signature header
+
+  @Prop({ default: true })
+  isActive: boolean;
+
+  @Prop()
+  lastDeliveryAt?: Date;
+
+  @Prop()
+  lastDeliveryStatus?: 'succeeded' | 'failed';
+
+  @Prop({ type: Types.ObjectId, ref: 'Tenant', required: true, index: true })
+  tenantId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  createdBy: Types.ObjectId;
+
+  @Prop({ default: false })
+  isDeleted: boolean;
+}
+
+export const WebhookSubscriptionSchema =
+  SchemaFactory.createForClass(WebhookSubscription);
+
+WebhookSubscriptionSchema.index({ tenantId: 1, isActive: 1, events: 1 });
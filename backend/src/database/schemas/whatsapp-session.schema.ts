@@ -1,5 +1,9 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { WHATSAPP_ENGINES } from '../../whatsapp/engines/whatsapp-engine.interface';
+import type { WhatsAppEngineName } from '../../whatsapp/engines/whatsapp-engine.interface';
+import { BUSINESS_HOURS_SETTINGS_DEFINITION } from './tenant.schema';
+import type { BusinessHoursSettings } from './tenant.schema';
 
 export type WhatsAppSessionDocument = WhatsAppSession & Document;
 
@@ -41,6 +45,12 @@ export class WhatsAppSession {
     @Prop()
     qrCodeExpiresAt: Date;
 
+    @Prop()
+    pairingCode: string; // Temporary code for linking by phone number
+
+    @Prop()
+    pairingCodeExpiresAt: Date;
+
     @Prop({
         type: String,
         enum: ['connected', 'disconnected', 'connecting', 'error'],
@@ -51,6 +61,14 @@ export class WhatsAppSession {
     @Prop()
     errorMessage: string;
 
+    // WhatsApp client the device runs on; devices created before engines were selectable use Baileys
+    @Prop({ type: String, enum: WHATSAPP_ENGINES })
+    engine: WhatsAppEngineName;
+
+    // Overrides the business hours settings of the tenant, fields not set are inherited
+    @Prop({ type: BUSINESS_HOURS_SETTINGS_DEFINITION })
+    settings?: BusinessHoursSettings;
+
     @Prop({ type: Types.ObjectId, ref: 'Tenant', required: true, index: true })
     tenantId: Types.ObjectId;
 
@@ -0,0 +1,42 @@
+import { Logger } from '@nestjs/common';
+import { ConsoleMailer } from './console.mailer';
+
+describe('ConsoleMailer', () => {
+  const message = {
+    to: 'jane@example.com',
+    subject: 'Reset your password',
+    text: 'Open http://localhost:5173/reset-password?token=abc123 to continue',
+  };
+
+  let logSpy: jest.SpyInstance;
+  let warnSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    logSpy = jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    warnSpy = jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should log messages with their links in development', async () => {
+    await new ConsoleMailer().send(message);
+
+    expect(logSpy).toHaveBeenCalledWith(
+      expect.stringContaining('token=abc123'),
+    );
+    expect(warnSpy).not.toHaveBeenCalled();
+  });
+
+  it('should redact link tokens and warn elsewhere', async () => {
+    const mailer = new ConsoleMailer(true);
+    await mailer.send(message);
+
+    expect(warnSpy).toHaveBeenCalledTimes(1);
+    expect(logSpy).toHaveBeenCalledWith(
+      expect.stringContaining('reset-password?token=[redacted] to continue'),
+    );
+    expect(logSpy).not.toHaveBeenCalledWith(expect.stringContaining('abc123'));
+  });
+});
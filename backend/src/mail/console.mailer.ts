@@ -0,0 +1,31 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { MailMessage, Mailer } from './mailer.interface';
+
+// Tokens in account email links, which work like passwords
+const LINK_TOKEN_PATTERN = /([?&]token=)[^&\s]+/g;
+
+/**
+ * Logs messages instead of sending them, the default in development.
+ * Elsewhere the links' tokens are redacted, as logs are read by others.
+ */
+@Injectable()
+export class ConsoleMailer implements Mailer {
+  readonly driver = 'console';
+  private readonly logger = new Logger(ConsoleMailer.name);
+
+  constructor(private readonly redactTokens = false) {
+    if (redactTokens) {
+      this.logger.warn(
+        'MAIL_DRIVER is console, emails are only logged and their links redacted. Set MAIL_DRIVER=smtp to send them',
+      );
+    }
+  }
+
+  send(message: MailMessage): Promise<void> {
+    const text = this.redactTokens
+      ? message.text.replace(LINK_TOKEN_PATTERN, '$1[redacted]')
+      : message.text;
+    this.logger.log(`Mail "${message.subject}" to ${message.to}\n${text}`);
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,52 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FileMailer } from './file.mailer';
+
+describe('FileMailer', () => {
+  let outputDir: string;
+  let mailer: FileMailer;
+
+  beforeEach(async () => {
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mail-'));
+    const config: Record<string, string> = {
+      'mail.from': 'App <no-reply@example.com>',
+      'mail.filePath': outputDir,
+    };
+    mailer = new FileMailer({
+      get: (key: string) => config[key],
+    } as unknown as ConfigService);
+  });
+
+  afterEach(async () => {
+    await fs.rm(outputDir, { recursive: true, force: true });
+  });
+
+  it('should write each message to an .eml file', async () => {
+    await mailer.send({
+      to: 'jane@example.com',
+      subject: 'Verify your email address',
+      text: 'Open this link',
+    });
+    await mailer.send({
+      to: 'john@example.com',
+      subject: 'Reset your password',
+      text: 'Open this link',
+    });
+
+    const files = await fs.readdir(outputDir);
+    expect(files).toHaveLength(2);
+    expect(files.every((file) => file.endsWith('.eml'))).toBe(true);
+
+    const contents = await Promise.all(
+      files.map((file) => fs.readFile(path.join(outputDir, file), 'utf8')),
+    );
+    const first = contents.find((content) =>
+      content.includes('To: jane@example.com'),
+    );
+    expect(first).toContain('From: App <no-reply@example.com>');
+    expect(first).toContain('Subject: Verify your email address');
+    expect(first).toContain('Open this link');
+  });
+});
@@ -0,0 +1,47 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import * as fs from 'fs/promises';
+import * as nodemailer from 'nodemailer';
+import * as path from 'path';
+import { MailMessage, Mailer } from './mailer.interface';
+
+/**
+ * Writes each message to an .eml file instead of sending it, for development
+ * and tests. Mail clients open the files as they would have received them.
+ */
+@Injectable()
+export class FileMailer implements Mailer {
+  readonly driver = 'file';
+  private readonly logger = new Logger(FileMailer.name);
+  private readonly from: string;
+  private readonly outputDir: string;
+  private readonly transporter = nodemailer.createTransport({
+    streamTransport: true,
+    buffer: true,
+  });
+
+  constructor(private configService: ConfigService) {
+    this.from = this.configService.get<string>('mail.from') || '';
+    this.outputDir = path.resolve(
+      this.configService.get<string>('mail.filePath') || './mail',
+    );
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const info = await this.transporter.sendMail({
+      from: this.from,
+      ...message,
+    });
+
+    // Sortable by time, the suffix keeps messages of the same millisecond apart
+    const filePath = path.join(
+      this.outputDir,
+      `${Date.now()}-${randomBytes(4).toString('hex')}.eml`,
+    );
+    await fs.mkdir(this.outputDir, { recursive: true });
+    await fs.writeFile(filePath, info.message);
+
+    this.logger.log(`Mail "${message.subject}" to ${message.to}: ${filePath}`);
+  }
+}
@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ConsoleMailer } from './console.mailer';
+import { FileMailer } from './file.mailer';
+import { MAILER, Mailer } from './mailer.interface';
+import { SmtpMailer } from './smtp.mailer';
+
+@Module({
+  providers: [
+    {
+      provide: MAILER,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): Mailer => {
+        const driver = configService.get<string>('mail.driver');
+        switch (driver || 'console') {
+          case 'smtp':
+            return new SmtpMailer(configService);
+          case 'file':
+            return new FileMailer(configService);
+          case 'console':
+            return new ConsoleMailer(
+              configService.get<string>('app.env') !== 'development',
+            );
+          default:
+            throw new Error(`Unsupported mail driver: ${driver}`);
+        }
+      },
+    },
+  ],
+  exports: [MAILER],
+})
+export class MailModule {}
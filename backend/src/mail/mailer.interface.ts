@@ -0,0 +1,17 @@
+export const MAILER = 'MAILER';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Outgoing email transport. The sender address comes from the configuration,
+ * so callers only describe the message.
+ */
+export interface Mailer {
+  readonly driver: string;
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,30 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as nodemailer from 'nodemailer';
+import { MailMessage, Mailer } from './mailer.interface';
+
+@Injectable()
+export class SmtpMailer implements Mailer {
+  readonly driver = 'smtp';
+  private readonly from: string;
+  private readonly transporter: nodemailer.Transporter;
+
+  constructor(private configService: ConfigService) {
+    this.from = this.configService.get<string>('mail.from') || '';
+
+    const user = this.configService.get<string>('mail.smtp.user');
+    this.transporter = nodemailer.createTransport({
+      host: this.configService.get<string>('mail.smtp.host'),
+      port: this.configService.get<number>('mail.smtp.port'),
+      // Implicit TLS, otherwise STARTTLS is used when the server offers it
+      secure: this.configService.get<boolean>('mail.smtp.secure'),
+      auth: user
+        ? { user, pass: this.configService.get<string>('mail.smtp.password') }
+        : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
@@ -1,13 +1,26 @@
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { AppModule } from './app.module';
+import { getCorsOrigins } from './common/utils/cors-origins.util';
+import { parseTrustProxy } from './common/utils/trust-proxy.util';
 
 async function bootstrap() {
-    const app = await NestFactory.create(AppModule);
+    // Raw bodies are kept for webhook signature checks
+    const app = await NestFactory.create<NestExpressApplication>(AppModule, {
+        rawBody: true,
+    });
     const configService = app.get(ConfigService);
 
+    // Client IPs for sessions, login lockouts and rate limits; behind a proxy
+    // every request would otherwise come from the proxy's address
+    app.set(
+        'trust proxy',
+        parseTrustProxy(configService.get<string>('app.trustProxy')),
+    );
+
     // Global prefix
     app.setGlobalPrefix(configService.get('apiPrefix') || 'api/v1');
 
@@ -22,13 +35,7 @@ async function bootstrap() {
 
     // CORS configuration - Fixed for frontend integration
     app.enableCors({
-        origin: [
-            'http://localhost:5173',
-            'http://localhost:3000',
-            'http://127.0.0.1:5173',
-            'http://127.0.0.1:3000',
-            process.env.FRONTEND_URL,
-        ].filter(Boolean),
+        origin: getCorsOrigins(),
         credentials: true,
         methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
         allowedHeaders: [
@@ -2,11 +2,13 @@ import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { MessagesService } from './messages.service';
 import { MessagesController } from './messages.controller';
+import { ScheduledMessagesController } from './scheduled-messages.controller';
 import { Message, MessageSchema } from '../database/schemas/message.schema';
 import {
   WhatsAppSession,
   WhatsAppSessionSchema,
 } from '../database/schemas/whatsapp-session.schema';
+import { WhatsAppModule } from '../whatsapp/whatsapp.module';
 
 @Module({
   imports: [
@@ -14,8 +16,10 @@ import {
       { name: Message.name, schema: MessageSchema },
       { name: WhatsAppSession.name, schema: WhatsAppSessionSchema },
     ]),
+    WhatsAppModule,
   ],
-  controllers: [MessagesController],
+  // Registered first so `scheduled` isn't matched as a message ID
+  controllers: [ScheduledMessagesController, MessagesController],
   providers: [MessagesService],
   exports: [MessagesService],
 })
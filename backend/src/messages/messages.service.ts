@@ -103,14 +103,32 @@ export class MessagesService {
       sentAt: { $gte: startDate },
     };
 
-    const [totalMessages, sentMessages, deliveredMessages, readMessages, failedMessages] =
-      await Promise.all([
-        this.messageModel.countDocuments(filter),
-        this.messageModel.countDocuments({ ...filter, status: 'sent' }),
-        this.messageModel.countDocuments({ ...filter, status: 'delivered' }),
-        this.messageModel.countDocuments({ ...filter, status: 'read' }),
-        this.messageModel.countDocuments({ ...filter, status: 'failed' }),
-      ]);
+    // Delivery and read rates only make sense for messages we sent
+    const outboundFilter = { ...filter, direction: { $ne: 'inbound' } };
+
+    const [
+      totalMessages,
+      sentMessages,
+      deliveredMessages,
+      readMessages,
+      failedMessages,
+      receivedMessages,
+    ] = await Promise.all([
+      this.messageModel.countDocuments(filter),
+      this.messageModel.countDocuments({ ...outboundFilter, status: 'sent' }),
+      this.messageModel.countDocuments({
+        ...outboundFilter,
+        status: 'delivered',
+      }),
+      this.messageModel.countDocuments({ ...outboundFilter, status: 'read' }),
+      this.messageModel.countDocuments({ ...outboundFilter, status: 'failed' }),
+      this.messageModel.countDocuments({ ...filter, direction: 'inbound' }),
+    ]);
+
+    // Read messages have been delivered as well
+    const acknowledged = sentMessages + deliveredMessages + readMessages;
+    const toRate = (count: number) =>
+      acknowledged ? Math.round((count / acknowledged) * 10000) / 100 : 0;
 
     return {
       total: totalMessages,
@@ -118,6 +136,9 @@ export class MessagesService {
       delivered: deliveredMessages,
       read: readMessages,
       failed: failedMessages,
+      received: receivedMessages,
+      deliveryRate: toRate(deliveredMessages + readMessages),
+      readRate: toRate(readMessages),
       period,
     };
   }
@@ -0,0 +1,109 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { RequirePermission } from '../auth/decorators/permission.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionGuard } from '../auth/guards/permission.guard';
+import { MessageResponseDto } from '../whatsapp/dto/message-response.dto';
+import { QueryScheduledMessagesDto } from '../whatsapp/dto/query-scheduled-messages.dto';
+import { UpdateScheduledMessageDto } from '../whatsapp/dto/update-scheduled-message.dto';
+import { ScheduledMessageService } from '../whatsapp/scheduled-message.service';
+
+@ApiTags('Messages')
+@Controller('messages/scheduled')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+@ApiBearerAuth()
+export class ScheduledMessagesController {
+  constructor(
+    private readonly scheduledMessageService: ScheduledMessageService,
+  ) {}
+
+  @Get()
+  @RequirePermission('canViewLogs')
+  @ApiOperation({
+    summary: 'List scheduled messages',
+    description:
+      'Messages are created with scheduledAt on POST /whatsapp/send and listed by scheduled time',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Scheduled messages retrieved successfully',
+  })
+  async findAll(
+    @Query() query: QueryScheduledMessagesDto,
+    @Request() req: any,
+  ) {
+    return this.scheduledMessageService.findAll(query, req.user.tenantId);
+  }
+
+  @Patch(':id')
+  @RequirePermission('canSendMessages')
+  @ApiOperation({ summary: 'Edit a scheduled message' })
+  @ApiParam({ name: 'id', description: 'Message ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Scheduled message updated successfully',
+    type: MessageResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - message is not scheduled or validation error',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Message not found',
+  })
+  async update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateScheduledMessageDto,
+    @Request() req: any,
+  ): Promise<MessageResponseDto> {
+    return this.scheduledMessageService.update(
+      id,
+      updateDto,
+      req.user.tenantId,
+    );
+  }
+
+  @Post(':id/cancel')
+  @RequirePermission('canSendMessages')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel a scheduled message' })
+  @ApiParam({ name: 'id', description: 'Message ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Scheduled message cancelled successfully',
+    type: MessageResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - message is not scheduled',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Message not found',
+  })
+  async cancel(
+    @Param('id') id: string,
+    @Request() req: any,
+  ): Promise<MessageResponseDto> {
+    return this.scheduledMessageService.cancel(id, req.user.tenantId);
+  }
+}
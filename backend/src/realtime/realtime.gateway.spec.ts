@@ -0,0 +1,252 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import type { Namespace, Socket } from 'socket.io';
+import { AccessTokenService } from '../auth/services/access-token.service';
+import {
+  RefreshTokenService,
+  RevokedSessions,
+} from '../auth/services/refresh-token.service';
+import { RealtimeGateway } from './realtime.gateway';
+
+describe('RealtimeGateway', () => {
+  const tenantId = '507f1f77bcf86cd799439012';
+  const jwtService = new JwtService({ secret: 'test-secret' });
+  const mockAccessTokenService = {
+    validate: jest.fn(),
+  };
+  const mockRefreshTokenService = {
+    onRevoked: jest.fn(),
+  };
+
+  let gateway: RealtimeGateway;
+
+  interface MockClient {
+    id: string;
+    connected: boolean;
+    handshake: {
+      auth: Record<string, string>;
+      headers: Record<string, string>;
+    };
+    data: Record<string, unknown>;
+    join: jest.Mock;
+    emit: jest.Mock;
+    disconnect: jest.Mock;
+  }
+
+  const createClient = (
+    handshake: Partial<MockClient['handshake']>,
+  ): MockClient => ({
+    id: 'socket-1',
+    connected: true,
+    handshake: { auth: {}, headers: {}, ...handshake },
+    data: {},
+    join: jest.fn().mockResolvedValue(undefined),
+    emit: jest.fn(),
+    disconnect: jest.fn(),
+  });
+
+  const connect = (client: MockClient) =>
+    gateway.handleConnection(client as unknown as Socket);
+
+  const signToken = (expiresIn = 3600) =>
+    jwtService.sign(
+      {
+        sub: '507f1f77bcf86cd799439011',
+        email: 'user@example.com',
+        tenantId,
+        userGroupId: '507f1f77bcf86cd799439013',
+      },
+      { expiresIn },
+    );
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockAccessTokenService.validate.mockReset();
+    mockAccessTokenService.validate.mockResolvedValue({
+      id: '507f1f77bcf86cd799439011',
+      tenantId,
+    });
+    gateway = new RealtimeGateway(
+      jwtService,
+      mockAccessTokenService as unknown as AccessTokenService,
+      mockRefreshTokenService as unknown as RefreshTokenService,
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('handleConnection', () => {
+    it('should join the tenant room with a valid token', async () => {
+      const client = createClient({ auth: { token: signToken() } });
+
+      await connect(client);
+
+      expect(client.join).toHaveBeenCalledWith(
+        expect.arrayContaining([`tenant:${tenantId}`]),
+      );
+      expect(client.data).toMatchObject({ tenantId });
+      expect(client.disconnect).not.toHaveBeenCalled();
+      expect(mockAccessTokenService.validate).toHaveBeenCalledWith(
+        expect.objectContaining({ sub: '507f1f77bcf86cd799439011', tenantId }),
+      );
+    });
+
+    it('should refuse 2FA challenge tokens', async () => {
+      const userModel = { findOne: jest.fn() };
+      gateway = new RealtimeGateway(
+        jwtService,
+        new AccessTokenService(
+          ...([
+            userModel,
+            {},
+            {},
+            { isFamilyRevoked: jest.fn().mockResolvedValue(false) },
+          ] as unknown as ConstructorParameters<typeof AccessTokenService>),
+        ),
+        mockRefreshTokenService as unknown as RefreshTokenService,
+      );
+      const client = createClient({
+        auth: {
+          token: jwtService.sign({
+            sub: '507f1f77bcf86cd799439011',
+            purpose: 'two_factor',
+            setup: false,
+          }),
+        },
+      });
+
+      await connect(client);
+
+      // Refused for its purpose, before the user is looked up
+      expect(userModel.findOne).not.toHaveBeenCalled();
+      expect(client.join).not.toHaveBeenCalled();
+      expect(client.disconnect).toHaveBeenCalledWith(true);
+    });
+
+    it('should disconnect tokens the HTTP API would refuse', async () => {
+      mockAccessTokenService.validate.mockRejectedValue(
+        new UnauthorizedException('Session has been logged out'),
+      );
+      const client = createClient({ auth: { token: signToken() } });
+
+      await connect(client);
+
+      expect(client.join).not.toHaveBeenCalled();
+      expect(client.disconnect).toHaveBeenCalledWith(true);
+    });
+
+    it('should accept a bearer authorization header', async () => {
+      const client = createClient({
+        headers: { authorization: `Bearer ${signToken()}` },
+      });
+
+      await connect(client);
+
+      expect(client.join).toHaveBeenCalledWith(
+        expect.arrayContaining([`tenant:${tenantId}`]),
+      );
+    });
+
+    it('should disconnect clients without a valid token', async () => {
+      const client = createClient({ auth: { token: 'not-a-jwt' } });
+
+      await connect(client);
+
+      expect(client.join).not.toHaveBeenCalled();
+      expect(client.disconnect).toHaveBeenCalledWith(true);
+    });
+
+    it('should disconnect the client once its token expires', async () => {
+      const client = createClient({ auth: { token: signToken(60) } });
+
+      await connect(client);
+      jest.advanceTimersByTime(61 * 1000);
+
+      expect(client.disconnect).toHaveBeenCalledWith(true);
+    });
+
+    it('should not keep a timer for clients gone while being checked', async () => {
+      const client = createClient({ auth: { token: signToken(60) } });
+      client.join.mockImplementation(() => {
+        client.connected = false;
+        return Promise.resolve();
+      });
+
+      await connect(client);
+
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it('should join the rooms of the user and the session', async () => {
+      mockAccessTokenService.validate.mockResolvedValue({
+        id: 'user-1',
+        tenantId,
+      });
+      const client = createClient({
+        auth: {
+          token: jwtService.sign({ sub: 'user-1', tenantId, sid: 'family-1' }),
+        },
+      });
+
+      await connect(client);
+
+      expect(client.join).toHaveBeenCalledWith([
+        `tenant:${tenantId}`,
+        'user:user-1',
+        'session:family-1',
+      ]);
+    });
+  });
+
+  describe('when sessions are logged out', () => {
+    const revoke = (revoked: RevokedSessions) => {
+      const [listener] = mockRefreshTokenService.onRevoked.mock.calls.at(
+        -1,
+      ) as [(revoked: RevokedSessions) => void];
+      listener(revoked);
+    };
+
+    let disconnectSockets: jest.Mock;
+    let into: jest.Mock;
+
+    beforeEach(() => {
+      disconnectSockets = jest.fn();
+      into = jest.fn().mockReturnValue({ disconnectSockets });
+      gateway.server = { in: into } as unknown as Namespace;
+      gateway.onModuleInit();
+    });
+
+    it('should disconnect the sockets of a logged out session', () => {
+      revoke({ familyId: 'family-1' });
+
+      expect(into).toHaveBeenCalledWith('session:family-1');
+      expect(disconnectSockets).toHaveBeenCalledWith(true);
+    });
+
+    it('should disconnect every socket of a user logged out everywhere', () => {
+      revoke({ userId: 'user-1' });
+
+      expect(into).toHaveBeenCalledWith('user:user-1');
+      expect(disconnectSockets).toHaveBeenCalledWith(true);
+    });
+  });
+
+  it('should emit events to the tenant room only', () => {
+    const emit = jest.fn();
+    const to = jest.fn().mockReturnValue({ emit });
+    gateway.server = { to } as unknown as Namespace;
+    const payload = {
+      event: 'device.connected' as const,
+      tenantId,
+      occurredAt: new Date().toISOString(),
+      data: { id: 'd1' },
+    };
+
+    gateway.emitToTenant(tenantId, payload);
+
+    expect(to).toHaveBeenCalledWith(`tenant:${tenantId}`);
+    expect(emit).toHaveBeenCalledWith('device.connected', payload);
+  });
+});
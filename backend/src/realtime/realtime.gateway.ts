@@ -0,0 +1,157 @@
+import { Logger, OnModuleInit } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import {
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  WebSocketGateway,
+  WebSocketServer,
+} from '@nestjs/websockets';
+import type { Namespace, Socket } from 'socket.io';
+import { AccessTokenService } from '../auth/services/access-token.service';
+import {
+  RefreshTokenService,
+  RevokedSessions,
+} from '../auth/services/refresh-token.service';
+import type { JwtPayload } from '../auth/strategies/jwt.strategy';
+import { getCorsOrigins } from '../common/utils/cors-origins.util';
+import type { WebhookEvent } from '../webhooks/webhook-events';
+
+/** Envelope pushed to dashboards; the same shape as webhook payloads. */
+export interface RealtimeEventPayload {
+  event: WebhookEvent;
+  tenantId: string;
+  occurredAt: string;
+  data: object;
+}
+
+export const tenantRoom = (tenantId: string) => `tenant:${tenantId}`;
+// Rooms to find the sockets of logged out sessions by
+const userRoom = (userId: string) => `user:${userId}`;
+const sessionRoom = (sessionId: string) => `session:${sessionId}`;
+
+/**
+ * Socket.IO gateway for the dashboard. Clients authenticate with their
+ * access token (`auth.token` or an `Authorization: Bearer` header), checked
+ * like on HTTP requests, and join the room of their tenant, so events never
+ * cross tenants. Sockets are closed when their token expires or their
+ * session is logged out.
+ */
+@WebSocketGateway({
+  namespace: 'realtime',
+  cors: {
+    origin: (
+      origin: string | undefined,
+      callback: (error: Error | null, allow?: boolean) => void,
+    ) => callback(null, !origin || getCorsOrigins().includes(origin)),
+    credentials: true,
+  },
+})
+export class RealtimeGateway
+  implements OnModuleInit, OnGatewayConnection, OnGatewayDisconnect
+{
+  private readonly logger = new Logger(RealtimeGateway.name);
+  private readonly expiryTimers = new Map<string, NodeJS.Timeout>();
+
+  @WebSocketServer()
+  server: Namespace;
+
+  constructor(
+    private jwtService: JwtService,
+    private accessTokenService: AccessTokenService,
+    private refreshTokenService: RefreshTokenService,
+  ) {}
+
+  onModuleInit(): void {
+    this.refreshTokenService.onRevoked((revoked) =>
+      this.disconnectSessions(revoked),
+    );
+  }
+
+  async handleConnection(client: Socket): Promise<void> {
+    let payload: JwtPayload;
+    let user: { id: string; tenantId: string };
+    try {
+      payload = await this.jwtService.verifyAsync<JwtPayload>(
+        this.extractToken(client),
+      );
+      // Logged out sessions, 2FA challenges and deactivated users are refused
+      user = await this.accessTokenService.validate(payload);
+    } catch {
+      client.emit('error', { message: 'Unauthorized' });
+      client.disconnect(true);
+      return;
+    }
+
+    client.data = { userId: user.id, tenantId: user.tenantId };
+    await client.join([
+      tenantRoom(user.tenantId),
+      userRoom(user.id),
+      ...(payload.sid ? [sessionRoom(payload.sid)] : []),
+    ]);
+
+    // Gone while being checked, handleDisconnect has run already
+    if (!client.connected) {
+      return;
+    }
+
+    // The socket must not outlive the token it was opened with; the client
+    // reconnects with a fresh one
+    if (payload.exp) {
+      this.expiryTimers.set(
+        client.id,
+        setTimeout(
+          () => client.disconnect(true),
+          payload.exp * 1000 - Date.now(),
+        ),
+      );
+    }
+  }
+
+  handleDisconnect(client: Socket): void {
+    clearTimeout(this.expiryTimers.get(client.id));
+    this.expiryTimers.delete(client.id);
+  }
+
+  /** Pushes an event to every connected dashboard of the tenant. */
+  emitToTenant(tenantId: string, payload: RealtimeEventPayload): void {
+    if (!this.server) {
+      return;
+    }
+
+    try {
+      this.server.to(tenantRoom(tenantId)).emit(payload.event, payload);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to push ${payload.event} to tenant ${tenantId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private disconnectSessions(revoked: RevokedSessions): void {
+    if (!this.server) {
+      return;
+    }
+
+    this.server
+      .in(
+        'familyId' in revoked
+          ? sessionRoom(revoked.familyId)
+          : userRoom(revoked.userId),
+      )
+      .disconnectSockets(true);
+  }
+
+  private extractToken(client: Socket): string {
+    const auth = client.handshake.auth as { token?: string } | undefined;
+    if (auth?.token) {
+      return auth.token;
+    }
+
+    const header = client.handshake.headers.authorization;
+    if (header?.startsWith('Bearer ')) {
+      return header.slice('Bearer '.length);
+    }
+
+    throw new Error('Missing access token');
+  }
+}
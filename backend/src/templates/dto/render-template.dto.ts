@@ -0,0 +1,67 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsObject, IsOptional, IsString, Min } from 'class-validator';
+import type { TemplateVariables } from '../utils/placeholder.util';
+
+export class RenderTemplateDto {
+  @ApiProperty({
+    description:
+      'Recipient phone number. Variables are filled in from the matching contact',
+    example: '+1234567890',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'Phone number must be a string' })
+  phoneNumber?: string;
+
+  @ApiProperty({
+    description: 'Variables that take precedence over contact fields',
+    example: { orderNumber: 'A-1001' },
+    required: false,
+  })
+  @IsOptional()
+  @IsObject({ message: 'Variables must be an object' })
+  variables?: TemplateVariables;
+
+  @ApiProperty({
+    description: 'Template version to render, defaults to the latest',
+    example: 2,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Template version must be an integer' })
+  @Min(1, { message: 'Template version must be at least 1' })
+  version?: number;
+}
+
+export class RenderedTemplateDto {
+  @ApiProperty({
+    description: 'Template version that was rendered',
+    example: 2,
+  })
+  version: number;
+
+  @ApiProperty({ description: 'Message type', example: 'text' })
+  messageType: string;
+
+  @ApiProperty({
+    description: 'Rendered message text (or media URL)',
+    example: 'Hi John, your order A-1001 is on its way!',
+    required: false,
+  })
+  content?: string;
+
+  @ApiProperty({
+    description: 'Rendered media caption',
+    required: false,
+  })
+  caption?: string;
+
+  @ApiProperty({
+    description:
+      'Placeholders without a value. Sends fail while this is not empty',
+    example: [],
+  })
+  missingVariables: string[];
+}
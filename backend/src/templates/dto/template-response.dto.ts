@@ -0,0 +1,66 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TemplateVersionResponseDto {
+  @ApiProperty({ description: 'Version number', example: 1 })
+  version: number;
+
+  @ApiProperty({ description: 'Message type', example: 'text' })
+  messageType: string;
+
+  @ApiProperty({
+    description: 'Message text (or media URL)',
+    example: 'Hi {{firstName}}, your order is on its way!',
+    required: false,
+  })
+  content?: string;
+
+  @ApiProperty({ description: 'Media caption', required: false })
+  caption?: string;
+
+  @ApiProperty({ description: 'Uploaded media ID', required: false })
+  mediaId?: string;
+
+  @ApiProperty({ description: 'File name', required: false })
+  fileName?: string;
+
+  @ApiProperty({ description: 'Media MIME type', required: false })
+  mimetype?: string;
+
+  @ApiProperty({
+    description: 'Placeholders used by content and caption',
+    example: ['firstName'],
+  })
+  variables: string[];
+
+  @ApiProperty({
+    description: 'User who created this version',
+    required: false,
+  })
+  updatedBy?: string;
+
+  @ApiProperty({ description: 'When this version was created' })
+  createdAt: Date;
+}
+
+export class TemplateResponseDto extends TemplateVersionResponseDto {
+  @ApiProperty({
+    description: 'Template ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  id: string;
+
+  @ApiProperty({ description: 'Template name', example: 'Order shipped' })
+  name: string;
+
+  @ApiProperty({ description: 'Template description', required: false })
+  description?: string;
+
+  @ApiProperty({ description: 'Tenant ID' })
+  tenantId: string;
+
+  @ApiProperty({ description: 'User who created the template' })
+  createdBy: string;
+
+  @ApiProperty({ description: 'Last update timestamp' })
+  updatedAt: Date;
+}
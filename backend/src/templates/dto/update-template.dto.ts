@@ -0,0 +1,92 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsIn,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import type { TemplateMessageType } from '../../database/schemas/message-template.schema';
+import { TEMPLATE_MESSAGE_TYPES } from './create-template.dto';
+
+/**
+ * Changes to the message (type, content, caption or media) create a new
+ * template version. Name and description are updated in place.
+ */
+export class UpdateTemplateDto {
+  @ApiProperty({
+    description: 'Template name, unique within the tenant',
+    example: 'Order shipped',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'Template name must be a string' })
+  @IsNotEmpty({ message: 'Template name cannot be empty' })
+  @MaxLength(100, { message: 'Template name must not exceed 100 characters' })
+  name?: string;
+
+  @ApiProperty({
+    description: 'Template description',
+    example: 'Sent when an order leaves the warehouse',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'Description must be a string' })
+  description?: string;
+
+  @ApiProperty({
+    description: 'Message type',
+    example: 'text',
+    enum: TEMPLATE_MESSAGE_TYPES,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(TEMPLATE_MESSAGE_TYPES, { message: 'Invalid template message type' })
+  messageType?: TemplateMessageType;
+
+  @ApiProperty({
+    description: 'Message text (or media URL), may contain placeholders',
+    example: 'Hi {{firstName}}, your order is on its way!',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'Content must be a string' })
+  content?: string;
+
+  @ApiProperty({
+    description: 'Media caption, may contain placeholders',
+    example: 'Invoice for {{firstName}}',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'Caption must be a string' })
+  caption?: string;
+
+  @ApiProperty({
+    description: 'Uploaded media ID (for media templates)',
+    example: '507f1f77bcf86cd799439015',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId({ message: 'Media ID must be a valid ID' })
+  mediaId?: string;
+
+  @ApiProperty({
+    description: 'File name (for document templates)',
+    example: 'invoice.pdf',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'File name must be a string' })
+  fileName?: string;
+
+  @ApiProperty({
+    description: 'Media MIME type (for media templates)',
+    example: 'application/pdf',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'MIME type must be a string' })
+  mimetype?: string;
+}
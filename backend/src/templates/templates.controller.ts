@@ -0,0 +1,218 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Put,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { RequirePermission } from '../auth/decorators/permission.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionGuard } from '../auth/guards/permission.guard';
+import { CreateTemplateDto } from './dto/create-template.dto';
+import { QueryTemplatesDto } from './dto/query-templates.dto';
+import {
+  RenderedTemplateDto,
+  RenderTemplateDto,
+} from './dto/render-template.dto';
+import {
+  TemplateResponseDto,
+  TemplateVersionResponseDto,
+} from './dto/template-response.dto';
+import { UpdateTemplateDto } from './dto/update-template.dto';
+import { TemplatesService } from './templates.service';
+
+@ApiTags('Templates')
+@Controller('templates')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+@ApiBearerAuth()
+export class TemplatesController {
+  constructor(private readonly templatesService: TemplatesService) {}
+
+  @Post()
+  @RequirePermission('canSendMessages')
+  @ApiOperation({
+    summary: 'Create a message template',
+    description:
+      'Content and caption may use placeholders like {{firstName}}, {{company}} or any contact metadata key',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Template created successfully',
+    type: TemplateResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - name already taken or invalid message',
+  })
+  async create(
+    @Body() createTemplateDto: CreateTemplateDto,
+    @Request() req: any,
+  ): Promise<TemplateResponseDto> {
+    return this.templatesService.createTemplate(
+      createTemplateDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+  }
+
+  @Get()
+  @RequirePermission('canViewLogs')
+  @ApiOperation({ summary: 'List message templates' })
+  @ApiResponse({
+    status: 200,
+    description: 'Templates retrieved successfully',
+  })
+  async findAll(@Query() query: QueryTemplatesDto, @Request() req: any) {
+    return this.templatesService.findAllTemplates(query, req.user.tenantId);
+  }
+
+  @Get(':id')
+  @RequirePermission('canViewLogs')
+  @ApiOperation({ summary: 'Get a message template' })
+  @ApiParam({ name: 'id', description: 'Template ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Template retrieved successfully',
+    type: TemplateResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Template not found',
+  })
+  async findOne(
+    @Param('id') id: string,
+    @Request() req: any,
+  ): Promise<TemplateResponseDto> {
+    return this.templatesService.findTemplateById(id, req.user.tenantId);
+  }
+
+  @Get(':id/versions')
+  @RequirePermission('canViewLogs')
+  @ApiOperation({ summary: 'List the versions of a message template' })
+  @ApiParam({ name: 'id', description: 'Template ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Template versions retrieved successfully, newest first',
+    type: [TemplateVersionResponseDto],
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Template not found',
+  })
+  async findVersions(
+    @Param('id') id: string,
+    @Request() req: any,
+  ): Promise<TemplateVersionResponseDto[]> {
+    return this.templatesService.findTemplateVersions(id, req.user.tenantId);
+  }
+
+  @Put(':id')
+  @RequirePermission('canSendMessages')
+  @ApiOperation({
+    summary: 'Update a message template',
+    description:
+      'Changing the message creates a new version; earlier versions stay available',
+  })
+  @ApiParam({ name: 'id', description: 'Template ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Template updated successfully',
+    type: TemplateResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - name already taken or invalid message',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Template not found',
+  })
+  async update(
+    @Param('id') id: string,
+    @Body() updateTemplateDto: UpdateTemplateDto,
+    @Request() req: any,
+  ): Promise<TemplateResponseDto> {
+    return this.templatesService.updateTemplate(
+      id,
+      updateTemplateDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+  }
+
+  @Delete(':id')
+  @RequirePermission('canSendMessages')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Delete a message template',
+    description: 'Messages and campaigns already using it are not affected',
+  })
+  @ApiParam({ name: 'id', description: 'Template ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Template deleted successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          example: 'Template deleted successfully',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Template not found',
+  })
+  async remove(
+    @Param('id') id: string,
+    @Request() req: any,
+  ): Promise<{ message: string }> {
+    return this.templatesService.deleteTemplate(id, req.user.tenantId);
+  }
+
+  @Post(':id/render')
+  @RequirePermission('canSendMessages')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Preview a message template',
+    description:
+      'Renders the template for a recipient without sending it and lists missing variables',
+  })
+  @ApiParam({ name: 'id', description: 'Template ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Template rendered successfully',
+    type: RenderedTemplateDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Template or template version not found',
+  })
+  async render(
+    @Param('id') id: string,
+    @Body() renderDto: RenderTemplateDto,
+    @Request() req: any,
+  ): Promise<RenderedTemplateDto> {
+    return this.templatesService.previewTemplate(
+      id,
+      renderDto,
+      req.user.tenantId,
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { TemplatesController } from './templates.controller';
+import { TemplatesService } from './templates.service';
+import {
+  MessageTemplate,
+  MessageTemplateSchema,
+} from '../database/schemas/message-template.schema';
+import { Contact, ContactSchema } from '../database/schemas/contact.schema';
+import {
+  MediaFile,
+  MediaFileSchema,
+} from '../database/schemas/media-file.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: MessageTemplate.name, schema: MessageTemplateSchema },
+      { name: Contact.name, schema: ContactSchema },
+      { name: MediaFile.name, schema: MediaFileSchema },
+    ]),
+  ],
+  controllers: [TemplatesController],
+  providers: [TemplatesService],
+  exports: [TemplatesService],
+})
+export class TemplatesModule {}
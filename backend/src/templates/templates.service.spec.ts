@@ -0,0 +1,267 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { TemplatesService } from './templates.service';
+import { MessageTemplate } from '../database/schemas/message-template.schema';
+import { Contact } from '../database/schemas/contact.schema';
+import { MediaFile } from '../database/schemas/media-file.schema';
+
+describe('TemplatesService', () => {
+  let service: TemplatesService;
+
+  const tenantId = '507f1f77bcf86cd799439012';
+  const userId = '507f1f77bcf86cd799439013';
+  const templateId = '507f1f77bcf86cd799439016';
+
+  const template = {
+    _id: new Types.ObjectId(templateId),
+    name: 'Order shipped',
+    messageType: 'text',
+    content: 'Hi {{firstName}}, order {{orderNumber}} is on its way',
+    variables: ['firstName', 'orderNumber'],
+    version: 2,
+    versions: [
+      {
+        version: 1,
+        messageType: 'text',
+        content: 'Hi {{firstName}}, your order is on its way',
+        variables: ['firstName'],
+        createdAt: new Date('2024-01-01T00:00:00Z'),
+      },
+    ],
+    tenantId: new Types.ObjectId(tenantId),
+    createdBy: new Types.ObjectId(userId),
+    updatedAt: new Date('2024-02-01T00:00:00Z'),
+  };
+
+  const contact = {
+    phoneNumber: '+1234567890',
+    firstName: 'John',
+    lastName: 'Doe',
+    company: 'Acme',
+    metadata: { loyalty: { tier: 'gold' }, city: 'Berlin' },
+  };
+
+  const execResult = (value: unknown) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const MockTemplateModel = jest.fn().mockImplementation((data: object) => ({
+    save: jest
+      .fn()
+      .mockResolvedValue({ ...data, _id: new Types.ObjectId(templateId) }),
+  })) as any;
+
+  const mockContactModel = { find: jest.fn() };
+  const mockMediaFileModel = { countDocuments: jest.fn() };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    MockTemplateModel.findOne = jest.fn().mockReturnValue(execResult(null));
+    MockTemplateModel.findOneAndUpdate = jest.fn();
+    mockContactModel.find.mockReturnValue(execResult([contact]));
+    mockMediaFileModel.countDocuments.mockReturnValue(execResult(1));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TemplatesService,
+        {
+          provide: getModelToken(MessageTemplate.name),
+          useValue: MockTemplateModel,
+        },
+        { provide: getModelToken(Contact.name), useValue: mockContactModel },
+        {
+          provide: getModelToken(MediaFile.name),
+          useValue: mockMediaFileModel,
+        },
+      ],
+    }).compile();
+
+    service = module.get<TemplatesService>(TemplatesService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('createTemplate', () => {
+    it('should store the placeholders of content and caption', async () => {
+      const result = await service.createTemplate(
+        {
+          name: 'Invoice',
+          messageType: 'document',
+          mediaId: '507f1f77bcf86cd799439015',
+          caption: 'Invoice for {{firstName}} at {{company}}',
+        },
+        tenantId,
+        userId,
+      );
+
+      expect(result.version).toBe(1);
+      expect(result.variables).toEqual(['firstName', 'company']);
+      expect(mockMediaFileModel.countDocuments).toHaveBeenCalled();
+    });
+
+    it('should reject duplicate names', async () => {
+      MockTemplateModel.findOne.mockReturnValue(execResult(template));
+
+      await expect(
+        service.createTemplate(
+          { name: 'Order shipped', messageType: 'text', content: 'Hi' },
+          tenantId,
+          userId,
+        ),
+      ).rejects.toThrow('Template with this name already exists');
+    });
+
+    it('should reject text templates without content', async () => {
+      await expect(
+        service.createTemplate(
+          { name: 'Empty', messageType: 'text' },
+          tenantId,
+          userId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('updateTemplate', () => {
+    it('should create a new version when the message changes', async () => {
+      MockTemplateModel.findOne
+        .mockReturnValueOnce(execResult(template))
+        .mockReturnValue(execResult(null));
+      MockTemplateModel.findOneAndUpdate.mockReturnValue(
+        execResult({ ...template, version: 3 }),
+      );
+
+      await service.updateTemplate(
+        templateId,
+        { content: 'Hello {{firstName}}' },
+        tenantId,
+        userId,
+      );
+
+      expect(MockTemplateModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: template._id, version: 2 },
+        expect.objectContaining({
+          content: 'Hello {{firstName}}',
+          variables: ['firstName'],
+          version: 3,
+          $push: {
+            versions: expect.objectContaining({
+              version: 2,
+              content: template.content,
+            }),
+          },
+        }),
+        { new: true },
+      );
+    });
+
+    it('should keep the version when only the name changes', async () => {
+      MockTemplateModel.findOne
+        .mockReturnValueOnce(execResult(template))
+        .mockReturnValue(execResult(null));
+      MockTemplateModel.findOneAndUpdate.mockReturnValue(
+        execResult({ ...template, name: 'Shipped' }),
+      );
+
+      await service.updateTemplate(
+        templateId,
+        { name: 'Shipped' },
+        tenantId,
+        userId,
+      );
+
+      const [, update] = MockTemplateModel.findOneAndUpdate.mock.calls[0];
+      expect(update.name).toBe('Shipped');
+      expect(update.version).toBeUndefined();
+      expect(update.$push).toBeUndefined();
+    });
+  });
+
+  describe('renderTemplate', () => {
+    it('should fill in contact fields and given variables', async () => {
+      MockTemplateModel.findOne.mockReturnValue(execResult(template));
+
+      const result = await service.renderTemplate(templateId, tenantId, {
+        phoneNumber: '1234567890',
+        variables: { orderNumber: 'A-1001' },
+      });
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          templateId,
+          version: 2,
+          messageType: 'text',
+          content: 'Hi John, order A-1001 is on its way',
+        }),
+      );
+    });
+
+    it('should render pinned versions', async () => {
+      MockTemplateModel.findOne.mockReturnValue(execResult(template));
+
+      const result = await service.renderTemplate(templateId, tenantId, {
+        phoneNumber: '+1234567890',
+        version: 1,
+      });
+
+      expect(result.content).toBe('Hi John, your order is on its way');
+    });
+
+    it('should fail when a variable is missing', async () => {
+      MockTemplateModel.findOne.mockReturnValue(execResult(template));
+
+      await expect(
+        service.renderTemplate(templateId, tenantId, {
+          phoneNumber: '+1234567890',
+        }),
+      ).rejects.toThrow('Missing template variables: orderNumber');
+    });
+
+    it('should throw NotFoundException for unknown versions', async () => {
+      MockTemplateModel.findOne.mockReturnValue(execResult(template));
+
+      await expect(
+        service.renderTemplate(templateId, tenantId, { version: 7 }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('getContactVariables', () => {
+    it('should expose contact fields and nested metadata', async () => {
+      const variables = await service.getContactVariables(
+        ['+1 234 567 890'],
+        tenantId,
+      );
+
+      expect(variables.get('1234567890')).toEqual(
+        expect.objectContaining({
+          firstName: 'John',
+          fullName: 'John Doe',
+          company: 'Acme',
+          'loyalty.tier': 'gold',
+          city: 'Berlin',
+        }),
+      );
+    });
+  });
+
+  describe('previewTemplate', () => {
+    it('should report missing variables instead of failing', async () => {
+      MockTemplateModel.findOne.mockReturnValue(execResult(template));
+      mockContactModel.find.mockReturnValue(execResult([]));
+
+      const result = await service.previewTemplate(
+        templateId,
+        { phoneNumber: '+1999999999' },
+        tenantId,
+      );
+
+      expect(result.missingVariables).toEqual(['firstName', 'orderNumber']);
+      expect(result.content).toBe(template.content);
+    });
+  });
+});
@@ -0,0 +1,648 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  MessageTemplate,
+  MessageTemplateDocument,
+  MessageTemplateVersion,
+  TemplateMessageType,
+} from '../database/schemas/message-template.schema';
+import { Contact, ContactDocument } from '../database/schemas/contact.schema';
+import { MediaFile } from '../database/schemas/media-file.schema';
+import { CreateTemplateDto } from './dto/create-template.dto';
+import { QueryTemplatesDto } from './dto/query-templates.dto';
+import {
+  RenderedTemplateDto,
+  RenderTemplateDto,
+} from './dto/render-template.dto';
+import {
+  TemplateResponseDto,
+  TemplateVersionResponseDto,
+} from './dto/template-response.dto';
+import { UpdateTemplateDto } from './dto/update-template.dto';
+import {
+  extractPlaceholders,
+  renderPlaceholders,
+  TemplateVariables,
+} from './utils/placeholder.util';
+import { escapeRegExp } from '../common/utils/regexp.util';
+
+/** Message fields of a rendered template, ready to be merged into a send. */
+export interface RenderedTemplate {
+  templateId: string;
+  version: number;
+  messageType: TemplateMessageType;
+  content?: string;
+  caption?: string;
+  mediaId?: string;
+  fileName?: string;
+  mimetype?: string;
+}
+
+export interface TemplateRenderOptions {
+  phoneNumber?: string;
+  variables?: TemplateVariables;
+  version?: number;
+}
+
+// Fields that change what is sent; editing any of them creates a new version
+const VERSIONED_FIELDS = [
+  'messageType',
+  'content',
+  'caption',
+  'mediaId',
+  'fileName',
+  'mimetype',
+] as const;
+
+const MEDIA_TYPES: TemplateMessageType[] = [
+  'image',
+  'video',
+  'audio',
+  'document',
+];
+
+@Injectable()
+export class TemplatesService {
+  private readonly logger = new Logger(TemplatesService.name);
+
+  constructor(
+    @InjectModel(MessageTemplate.name)
+    private templateModel: Model<MessageTemplate>,
+    @InjectModel(Contact.name) private contactModel: Model<Contact>,
+    @InjectModel(MediaFile.name) private mediaFileModel: Model<MediaFile>,
+  ) {}
+
+  async createTemplate(
+    createTemplateDto: CreateTemplateDto,
+    tenantId: string,
+    userId: string,
+  ): Promise<TemplateResponseDto> {
+    await this.ensureUniqueName(createTemplateDto.name, tenantId);
+    await this.validateMessage(createTemplateDto, tenantId);
+
+    const template = await new this.templateModel({
+      ...createTemplateDto,
+      mediaId: createTemplateDto.mediaId
+        ? new Types.ObjectId(createTemplateDto.mediaId)
+        : undefined,
+      variables: extractPlaceholders(
+        createTemplateDto.content,
+        createTemplateDto.caption,
+      ),
+      version: 1,
+      versions: [],
+      tenantId: new Types.ObjectId(tenantId),
+      createdBy: new Types.ObjectId(userId),
+      updatedBy: new Types.ObjectId(userId),
+      isDeleted: false,
+    }).save();
+
+    return this.mapToTemplateResponse(template);
+  }
+
+  async findAllTemplates(
+    query: QueryTemplatesDto,
+    tenantId: string,
+  ): Promise<{
+    templates: TemplateResponseDto[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const { page = 1, limit = 20, search } = query;
+    const filter = {
+      tenantId: new Types.ObjectId(tenantId),
+      isDeleted: false,
+      ...(search && {
+        name: { $regex: escapeRegExp(search), $options: 'i' },
+      }),
+    };
+
+    const [templates, total] = await Promise.all([
+      this.templateModel
+        .find(filter)
+        .select('-versions')
+        .sort({ name: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.templateModel.countDocuments(filter).exec(),
+    ]);
+
+    return {
+      templates: templates.map((template) =>
+        this.mapToTemplateResponse(template),
+      ),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async findTemplateById(
+    id: string,
+    tenantId: string,
+  ): Promise<TemplateResponseDto> {
+    return this.mapToTemplateResponse(await this.findTemplate(id, tenantId));
+  }
+
+  /** All versions of a template, newest first. */
+  async findTemplateVersions(
+    id: string,
+    tenantId: string,
+  ): Promise<TemplateVersionResponseDto[]> {
+    const template = await this.findTemplate(id, tenantId);
+    return [this.toCurrentVersion(template), ...template.versions]
+      .sort((a, b) => b.version - a.version)
+      .map((version) => this.mapToVersionResponse(version));
+  }
+
+  async updateTemplate(
+    id: string,
+    updateTemplateDto: UpdateTemplateDto,
+    tenantId: string,
+    userId: string,
+  ): Promise<TemplateResponseDto> {
+    const template = await this.findTemplate(id, tenantId);
+
+    if (updateTemplateDto.name && updateTemplateDto.name !== template.name) {
+      await this.ensureUniqueName(updateTemplateDto.name, tenantId, id);
+    }
+
+    const current = this.toCurrentVersion(template);
+    const messageType = updateTemplateDto.messageType ?? current.messageType;
+    const isMedia = MEDIA_TYPES.includes(messageType);
+    // Switching to text drops the media fields instead of rejecting the edit
+    const next = {
+      messageType,
+      content: updateTemplateDto.content ?? current.content,
+      caption: isMedia
+        ? (updateTemplateDto.caption ?? current.caption)
+        : undefined,
+      mediaId: isMedia
+        ? (updateTemplateDto.mediaId ?? current.mediaId?.toString())
+        : undefined,
+      fileName: isMedia
+        ? (updateTemplateDto.fileName ?? current.fileName)
+        : undefined,
+      mimetype: isMedia
+        ? (updateTemplateDto.mimetype ?? current.mimetype)
+        : undefined,
+    };
+    const changed = VERSIONED_FIELDS.some(
+      (field) => next[field] !== (current[field]?.toString() || undefined),
+    );
+
+    const update: Record<string, any> = {
+      name: updateTemplateDto.name ?? template.name,
+      description: updateTemplateDto.description ?? template.description,
+      updatedBy: new Types.ObjectId(userId),
+    };
+
+    if (changed) {
+      await this.validateMessage(next, tenantId);
+      const unset = VERSIONED_FIELDS.filter(
+        (field) => next[field] === undefined,
+      );
+      Object.assign(update, {
+        ...next,
+        mediaId: next.mediaId ? new Types.ObjectId(next.mediaId) : undefined,
+        variables: extractPlaceholders(next.content, next.caption),
+        version: template.version + 1,
+        $push: { versions: current },
+        ...(unset.length && {
+          $unset: Object.fromEntries(unset.map((field) => [field, 1])),
+        }),
+      });
+      for (const field of unset) {
+        delete update[field];
+      }
+    }
+
+    // Guard on the version so concurrent edits can't both become version N+1
+    const updated = await this.templateModel
+      .findOneAndUpdate(
+        { _id: template._id, version: template.version },
+        update,
+        {
+          new: true,
+        },
+      )
+      .exec();
+
+    if (!updated) {
+      throw new BadRequestException(
+        'Template was changed by someone else, reload it and try again',
+      );
+    }
+
+    if (changed) {
+      this.logger.log(`Template ${id} updated to version ${updated.version}`);
+    }
+
+    return this.mapToTemplateResponse(updated);
+  }
+
+  async deleteTemplate(
+    id: string,
+    tenantId: string,
+  ): Promise<{ message: string }> {
+    const template = await this.findTemplate(id, tenantId);
+    await this.templateModel
+      .updateOne({ _id: template._id }, { isDeleted: true })
+      .exec();
+
+    return { message: 'Template deleted successfully' };
+  }
+
+  /**
+   * Renders a template without sending it. Missing variables are reported
+   * instead of rejected, so operators can see what a send would need.
+   */
+  async previewTemplate(
+    id: string,
+    renderDto: RenderTemplateDto,
+    tenantId: string,
+  ): Promise<RenderedTemplateDto> {
+    const template = await this.findTemplate(id, tenantId);
+    const version = this.getVersion(template, renderDto.version);
+    const variables = await this.resolveVariables(
+      renderDto.phoneNumber,
+      renderDto.variables,
+      tenantId,
+    );
+    const rendered = this.renderVersion(version, variables);
+
+    return {
+      version: version.version,
+      messageType: version.messageType,
+      content: rendered.content,
+      caption: rendered.caption,
+      missingVariables: rendered.missing,
+    };
+  }
+
+  /**
+   * Renders a template for one recipient. Variables come from the contact
+   * with the recipient's phone number, overridden by the given variables.
+   * Throws when a placeholder has no value.
+   */
+  async renderTemplate(
+    id: string,
+    tenantId: string,
+    options: TemplateRenderOptions = {},
+  ): Promise<RenderedTemplate> {
+    const version = await this.getTemplateVersion(
+      id,
+      tenantId,
+      options.version,
+    );
+    const variables = await this.resolveVariables(
+      options.phoneNumber,
+      options.variables,
+      tenantId,
+    );
+    return this.renderOrThrow(id, version, variables);
+  }
+
+  /**
+   * Loads one version of a template, the latest by default. Pinned versions
+   * still render after the template is deleted, so running campaigns finish.
+   */
+  async getTemplateVersion(
+    id: string,
+    tenantId: string,
+    version?: number,
+  ): Promise<MessageTemplateVersion> {
+    const template = await this.findTemplate(id, tenantId, !!version);
+    return this.getVersion(template, version);
+  }
+
+  /**
+   * Template variables of the tenant's contacts, keyed by the digits of
+   * their phone number. Standard contact fields win over metadata keys.
+   */
+  async getContactVariables(
+    phoneNumbers: string[],
+    tenantId: string,
+  ): Promise<Map<string, TemplateVariables>> {
+    const digits = [
+      ...new Set(phoneNumbers.map(toDigits).filter((value) => !!value)),
+    ];
+    if (!digits.length) {
+      return new Map();
+    }
+
+    const contacts = await this.contactModel
+      .find({
+        tenantId: new Types.ObjectId(tenantId),
+        isDeleted: false,
+        phoneNumber: {
+          $in: [
+            ...phoneNumbers,
+            ...digits,
+            ...digits.map((value) => `+${value}`),
+          ],
+        },
+      })
+      .exec();
+
+    return new Map(
+      contacts.map((contact) => [
+        toDigits(contact.phoneNumber),
+        this.toContactVariables(contact),
+      ]),
+    );
+  }
+
+  /** Renders a template version, failing when a placeholder has no value. */
+  renderOrThrow(
+    templateId: string,
+    version: MessageTemplateVersion,
+    variables: TemplateVariables,
+  ): RenderedTemplate {
+    const rendered = this.renderVersion(version, variables);
+    if (rendered.missing.length) {
+      throw new BadRequestException(
+        `Missing template variables: ${rendered.missing.join(', ')}`,
+      );
+    }
+
+    return {
+      templateId,
+      version: version.version,
+      messageType: version.messageType,
+      content: rendered.content,
+      caption: rendered.caption,
+      mediaId: version.mediaId?.toString(),
+      fileName: version.fileName,
+      mimetype: version.mimetype,
+    };
+  }
+
+  renderVersion(
+    version: MessageTemplateVersion,
+    variables: TemplateVariables,
+  ): { content?: string; caption?: string; missing: string[] } {
+    const content =
+      version.content !== undefined
+        ? renderPlaceholders(version.content, variables)
+        : undefined;
+    const caption =
+      version.caption !== undefined
+        ? renderPlaceholders(version.caption, variables)
+        : undefined;
+
+    return {
+      content: content?.text,
+      caption: caption?.text,
+      missing: [
+        ...new Set([...(content?.missing || []), ...(caption?.missing || [])]),
+      ],
+    };
+  }
+
+  private async resolveVariables(
+    phoneNumber: string | undefined,
+    variables: TemplateVariables | undefined,
+    tenantId: string,
+  ): Promise<TemplateVariables> {
+    const contactVariables = phoneNumber
+      ? (await this.getContactVariables([phoneNumber], tenantId)).get(
+          toDigits(phoneNumber),
+        )
+      : undefined;
+    return { ...contactVariables, ...stringifyValues(variables) };
+  }
+
+  private toContactVariables(contact: ContactDocument): TemplateVariables {
+    const fullName = [contact.firstName, contact.lastName]
+      .filter(Boolean)
+      .join(' ');
+    const fields = {
+      phoneNumber: contact.phoneNumber,
+      firstName: contact.firstName,
+      lastName: contact.lastName,
+      fullName,
+      name: contact.name || fullName,
+      email: contact.email,
+      company: contact.company,
+      jobTitle: contact.jobTitle,
+    };
+
+    return {
+      ...flattenMetadata(contact.metadata),
+      ...stringifyValues(fields),
+    };
+  }
+
+  private getVersion(
+    template: MessageTemplateDocument,
+    version?: number,
+  ): MessageTemplateVersion {
+    if (!version || version === template.version) {
+      return this.toCurrentVersion(template);
+    }
+
+    const snapshot = template.versions.find(
+      (candidate) => candidate.version === version,
+    );
+    if (!snapshot) {
+      throw new NotFoundException(`Template version ${version} not found`);
+    }
+    return snapshot;
+  }
+
+  private toCurrentVersion(
+    template: MessageTemplateDocument,
+  ): MessageTemplateVersion {
+    return {
+      version: template.version,
+      messageType: template.messageType,
+      content: template.content,
+      caption: template.caption,
+      mediaId: template.mediaId,
+      fileName: template.fileName,
+      mimetype: template.mimetype,
+      variables: template.variables,
+      updatedBy: template.updatedBy,
+      createdAt: (template as any).updatedAt || new Date(),
+    };
+  }
+
+  private async findTemplate(
+    id: string,
+    tenantId: string,
+    includeDeleted = false,
+  ): Promise<MessageTemplateDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Template not found');
+    }
+
+    const template = await this.templateModel
+      .findOne({
+        _id: new Types.ObjectId(id),
+        tenantId: new Types.ObjectId(tenantId),
+        ...(!includeDeleted && { isDeleted: false }),
+      })
+      .exec();
+
+    if (!template) {
+      throw new NotFoundException('Template not found');
+    }
+
+    return template;
+  }
+
+  private async ensureUniqueName(
+    name: string,
+    tenantId: string,
+    excludeId?: string,
+  ): Promise<void> {
+    const existing = await this.templateModel
+      .findOne({
+        name,
+        tenantId: new Types.ObjectId(tenantId),
+        isDeleted: false,
+        ...(excludeId && { _id: { $ne: new Types.ObjectId(excludeId) } }),
+      })
+      .exec();
+
+    if (existing) {
+      throw new BadRequestException('Template with this name already exists');
+    }
+  }
+
+  private async validateMessage(
+    message: Pick<
+      CreateTemplateDto,
+      'messageType' | 'content' | 'caption' | 'mediaId'
+    >,
+    tenantId: string,
+  ): Promise<void> {
+    if (message.messageType === 'text' && !message.content) {
+      throw new BadRequestException('Text templates need content');
+    }
+
+    if (MEDIA_TYPES.includes(message.messageType)) {
+      if (!message.mediaId && !message.content) {
+        throw new BadRequestException(
+          'Media templates need a media ID or a media URL as content',
+        );
+      }
+    } else if (message.mediaId || message.caption) {
+      throw new BadRequestException(
+        'Only media templates can have media or a caption',
+      );
+    }
+
+    if (message.mediaId) {
+      const media = await this.mediaFileModel
+        .countDocuments({
+          _id: new Types.ObjectId(message.mediaId),
+          tenantId: new Types.ObjectId(tenantId),
+          isDeleted: false,
+        })
+        .exec();
+      if (!media) {
+        throw new NotFoundException('Media not found');
+      }
+    }
+  }
+
+  private mapToVersionResponse(
+    version: MessageTemplateVersion,
+  ): TemplateVersionResponseDto {
+    return {
+      version: version.version,
+      messageType: version.messageType,
+      content: version.content,
+      caption: version.caption,
+      mediaId: version.mediaId?.toString(),
+      fileName: version.fileName,
+      mimetype: version.mimetype,
+      variables: version.variables,
+      updatedBy: version.updatedBy?.toString(),
+      createdAt: version.createdAt,
+    };
+  }
+
+  private mapToTemplateResponse(
+    template: MessageTemplateDocument,
+  ): TemplateResponseDto {
+    return {
+      id: template._id.toString(),
+      name: template.name,
+      description: template.description,
+      ...this.mapToVersionResponse(this.toCurrentVersion(template)),
+      tenantId: template.tenantId.toString(),
+      createdBy: template.createdBy.toString(),
+      createdAt: (template as any).createdAt,
+      updatedAt: (template as any).updatedAt,
+    };
+  }
+}
+
+function toDigits(phoneNumber: string): string {
+  return (phoneNumber || '').replace(/\D/g, '');
+}
+
+function toVariableValue(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toVariableValue).filter(Boolean).join(', ');
+  }
+  return undefined;
+}
+
+function stringifyValues(values?: Record<string, unknown>): TemplateVariables {
+  const result: TemplateVariables = {};
+  for (const [key, value] of Object.entries(values || {})) {
+    const text = toVariableValue(value);
+    if (text !== undefined) {
+      result[key] = text;
+    }
+  }
+  return result;
+}
+
+// Nested metadata is addressed with dots, e.g. `{{loyalty.tier}}`
+function flattenMetadata(
+  metadata?: Record<string, unknown>,
+  prefix = '',
+): TemplateVariables {
+  const result: TemplateVariables = {};
+  for (const [key, value] of Object.entries(metadata || {})) {
+    if (
+      value &&
+      typeof value === 'object' &&
+      !Array.isArray(value) &&
+      !(value instanceof Date)
+    ) {
+      Object.assign(
+        result,
+        flattenMetadata(value as Record<string, unknown>, `${prefix}${key}.`),
+      );
+    } else {
+      const text = toVariableValue(value);
+      if (text !== undefined) {
+        result[`${prefix}${key}`] = text;
+      }
+    }
+  }
+  return result;
+}
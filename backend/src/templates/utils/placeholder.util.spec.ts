@@ -0,0 +1,47 @@
+import { extractPlaceholders, renderPlaceholders } from './placeholder.util';
+
+describe('placeholder.util', () => {
+  describe('extractPlaceholders', () => {
+    it('should list distinct placeholders across texts', () => {
+      expect(
+        extractPlaceholders(
+          'Hi {{firstName}}, welcome to {{ company }}',
+          'Invoice for {{firstName}} ({{loyalty.tier}})',
+          undefined,
+        ),
+      ).toEqual(['firstName', 'company', 'loyalty.tier']);
+    });
+  });
+
+  describe('renderPlaceholders', () => {
+    it('should replace placeholders with their values', () => {
+      expect(
+        renderPlaceholders('Hi {{firstName}} from {{ company }}', {
+          firstName: 'John',
+          company: 'Acme',
+        }),
+      ).toEqual({ text: 'Hi John from Acme', missing: [] });
+    });
+
+    it('should report placeholders without a value', () => {
+      expect(
+        renderPlaceholders('Hi {{firstName}}, order {{orderNumber}}', {
+          firstName: 'John',
+          orderNumber: '',
+        }),
+      ).toEqual({
+        text: 'Hi John, order {{orderNumber}}',
+        missing: ['orderNumber'],
+      });
+    });
+
+    it('should not render inherited object members', () => {
+      expect(
+        renderPlaceholders('{{constructor}} {{toString}} {{__proto__}}', {}),
+      ).toEqual({
+        text: '{{constructor}} {{toString}} {{__proto__}}',
+        missing: ['constructor', 'toString', '__proto__'],
+      });
+    });
+  });
+});
@@ -0,0 +1,51 @@
+// `{{firstName}}`, `{{ company }}` or metadata keys like `{{loyalty.tier}}`
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+export type TemplateVariables = Record<string, string>;
+
+export interface RenderedText {
+  text: string;
+  missing: string[];
+}
+
+/**
+ * Lists the distinct placeholder names used by the given texts, in order of
+ * first appearance.
+ */
+export function extractPlaceholders(
+  ...texts: (string | undefined)[]
+): string[] {
+  const names = new Set<string>();
+  for (const text of texts) {
+    for (const match of (text || '').matchAll(PLACEHOLDER_PATTERN)) {
+      names.add(match[1]);
+    }
+  }
+  return [...names];
+}
+
+/**
+ * Replaces placeholders with their values. Placeholders without a value are
+ * left in place and reported in `missing`, so callers can refuse to send.
+ */
+export function renderPlaceholders(
+  text: string,
+  variables: TemplateVariables,
+): RenderedText {
+  const missing = new Set<string>();
+  const rendered = text.replace(
+    PLACEHOLDER_PATTERN,
+    (placeholder, name: string) => {
+      // Inherited members like `constructor` are not variables
+      const value = Object.hasOwn(variables, name)
+        ? variables[name]
+        : undefined;
+      if (value === undefined || value === null || value === '') {
+        missing.add(name);
+        return placeholder;
+      }
+      return value;
+    },
+  );
+  return { text: rendered, missing: [...missing] };
+}
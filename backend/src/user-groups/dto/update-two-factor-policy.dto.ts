@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean } from 'class-validator';
+
+export class UpdateTwoFactorPolicyDto {
+  @ApiProperty({
+    description: 'Whether every member of the group has to use 2FA',
+    example: true,
+  })
+  @IsBoolean({ message: 'Required must be a boolean' })
+  required: boolean;
+}
@@ -0,0 +1,35 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { UserGroup } from '../../common/enums/user-group.enum';
+
+export class UserGroupResponseDto {
+  @ApiProperty({
+    description: 'User group ID',
+    example: '507f1f77bcf86cd799439013',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'User group name',
+    example: 'Admin',
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'Group type, which sets the default permissions',
+    enum: UserGroup,
+    example: UserGroup.ADMIN,
+  })
+  groupType: UserGroup;
+
+  @ApiProperty({
+    description: 'Whether members have to use two-factor authentication',
+    example: false,
+  })
+  requireTwoFactor: boolean;
+
+  @ApiProperty({
+    description: 'Whether the group is active',
+    example: true,
+  })
+  isActive: boolean;
+}
@@ -0,0 +1,71 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Put,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { RequirePermission } from '../auth/decorators/permission.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionGuard } from '../auth/guards/permission.guard';
+import { UpdateTwoFactorPolicyDto } from './dto/update-two-factor-policy.dto';
+import { UserGroupResponseDto } from './dto/user-group-response.dto';
+import { UserGroupsService } from './user-groups.service';
+
+@ApiTags('User Groups')
+@Controller('user-groups')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+@ApiBearerAuth()
+export class UserGroupsController {
+  constructor(private readonly userGroupsService: UserGroupsService) {}
+
+  @Get()
+  @RequirePermission('canManageGroups')
+  @ApiOperation({ summary: 'List the user groups of the tenant' })
+  @ApiResponse({
+    status: 200,
+    description: 'User groups retrieved successfully',
+    type: [UserGroupResponseDto],
+  })
+  async findAll(@Request() req: any): Promise<UserGroupResponseDto[]> {
+    return this.userGroupsService.findAll(req.user.tenantId);
+  }
+
+  @Put(':id/two-factor')
+  @RequirePermission('canManageGroups')
+  @ApiOperation({
+    summary: 'Require two-factor authentication for a user group',
+    description:
+      'Members without 2FA are logged out and have to enroll at their next login',
+  })
+  @ApiParam({ name: 'id', description: 'User group ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Policy updated successfully',
+    type: UserGroupResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User group not found',
+  })
+  async updateTwoFactorPolicy(
+    @Param('id') id: string,
+    @Body() updatePolicyDto: UpdateTwoFactorPolicyDto,
+    @Request() req: any,
+  ): Promise<UserGroupResponseDto> {
+    return this.userGroupsService.updateTwoFactorPolicy(
+      id,
+      updatePolicyDto,
+      req.user.tenantId,
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { UserGroupsController } from './user-groups.controller';
+import { UserGroupsService } from './user-groups.service';
+import {
+  UserGroupEntity,
+  UserGroupSchema,
+} from '../database/schemas/user-group.schema';
+import { User, UserSchema } from '../database/schemas/user.schema';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: UserGroupEntity.name, schema: UserGroupSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+    AuthModule,
+  ],
+  controllers: [UserGroupsController],
+  providers: [UserGroupsService],
+})
+export class UserGroupsModule {}
@@ -0,0 +1,146 @@
+import { NotFoundException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { AuthService } from '../auth/auth.service';
+import { UserGroup } from '../common/enums/user-group.enum';
+import { UserGroupEntity } from '../database/schemas/user-group.schema';
+import { User } from '../database/schemas/user.schema';
+import { UserGroupsService } from './user-groups.service';
+
+describe('UserGroupsService', () => {
+  let service: UserGroupsService;
+
+  const tenantId = '507f1f77bcf86cd799439012';
+  const groupId = '507f1f77bcf86cd799439013';
+
+  const group = {
+    _id: new Types.ObjectId(groupId),
+    name: 'Agents',
+    groupType: UserGroup.EDITOR,
+    requireTwoFactor: true,
+    isActive: true,
+  };
+
+  const mockUserGroupModel = {
+    find: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+  };
+  const mockUserModel = {
+    find: jest.fn(),
+  };
+  const mockAuthService = {
+    logoutAll: jest.fn(),
+  };
+
+  const execResult = (value: any) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const givenMembersWithout2fa = (ids: string[]) =>
+    mockUserModel.find.mockReturnValue({
+      select: jest
+        .fn()
+        .mockReturnValue(
+          execResult(ids.map((id) => ({ _id: new Types.ObjectId(id) }))),
+        ),
+    });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UserGroupsService,
+        {
+          provide: getModelToken(UserGroupEntity.name),
+          useValue: mockUserGroupModel,
+        },
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        { provide: AuthService, useValue: mockAuthService },
+      ],
+    }).compile();
+
+    service = module.get<UserGroupsService>(UserGroupsService);
+  });
+
+  it('should list the groups of the tenant', async () => {
+    mockUserGroupModel.find.mockReturnValue({
+      sort: jest.fn().mockReturnValue(execResult([group])),
+    });
+
+    await expect(service.findAll(tenantId)).resolves.toEqual([
+      {
+        id: groupId,
+        name: 'Agents',
+        groupType: UserGroup.EDITOR,
+        requireTwoFactor: true,
+        isActive: true,
+      },
+    ]);
+    expect(mockUserGroupModel.find).toHaveBeenCalledWith({
+      tenantId: new Types.ObjectId(tenantId),
+      isDeleted: false,
+    });
+  });
+
+  describe('updateTwoFactorPolicy', () => {
+    it('should log out the members without 2FA when requiring it', async () => {
+      mockUserGroupModel.findOneAndUpdate.mockReturnValue(execResult(group));
+      givenMembersWithout2fa([
+        '507f1f77bcf86cd799439021',
+        '507f1f77bcf86cd799439022',
+      ]);
+
+      const result = await service.updateTwoFactorPolicy(
+        groupId,
+        { required: true },
+        tenantId,
+      );
+
+      expect(mockUserGroupModel.findOneAndUpdate).toHaveBeenCalledWith(
+        {
+          _id: new Types.ObjectId(groupId),
+          tenantId: new Types.ObjectId(tenantId),
+          isDeleted: false,
+        },
+        { requireTwoFactor: true },
+        { new: true },
+      );
+      expect(mockUserModel.find).toHaveBeenCalledWith({
+        userGroupId: group._id,
+        tenantId: new Types.ObjectId(tenantId),
+        isDeleted: false,
+        'twoFactor.enabled': { $ne: true },
+      });
+      expect(mockAuthService.logoutAll).toHaveBeenCalledTimes(2);
+      expect(mockAuthService.logoutAll).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439021',
+      );
+      expect(result.requireTwoFactor).toBe(true);
+    });
+
+    it('should not log anybody out when lifting the requirement', async () => {
+      mockUserGroupModel.findOneAndUpdate.mockReturnValue(
+        execResult({ ...group, requireTwoFactor: false }),
+      );
+
+      await service.updateTwoFactorPolicy(
+        groupId,
+        { required: false },
+        tenantId,
+      );
+
+      expect(mockUserModel.find).not.toHaveBeenCalled();
+      expect(mockAuthService.logoutAll).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for a group of another tenant', async () => {
+      mockUserGroupModel.findOneAndUpdate.mockReturnValue(execResult(null));
+
+      await expect(
+        service.updateTwoFactorPolicy(groupId, { required: true }, tenantId),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
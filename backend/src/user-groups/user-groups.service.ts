@@ -0,0 +1,90 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { AuthService } from '../auth/auth.service';
+import {
+  UserGroupDocument,
+  UserGroupEntity,
+} from '../database/schemas/user-group.schema';
+import { User } from '../database/schemas/user.schema';
+import { UpdateTwoFactorPolicyDto } from './dto/update-two-factor-policy.dto';
+import { UserGroupResponseDto } from './dto/user-group-response.dto';
+
+@Injectable()
+export class UserGroupsService {
+  private readonly logger = new Logger(UserGroupsService.name);
+
+  constructor(
+    @InjectModel(UserGroupEntity.name)
+    private userGroupModel: Model<UserGroupDocument>,
+    @InjectModel(User.name) private userModel: Model<User>,
+    private authService: AuthService,
+  ) {}
+
+  async findAll(tenantId: string): Promise<UserGroupResponseDto[]> {
+    const groups = await this.userGroupModel
+      .find({ tenantId: new Types.ObjectId(tenantId), isDeleted: false })
+      .sort({ name: 1 })
+      .exec();
+
+    return groups.map((group) => this.mapToResponse(group));
+  }
+
+  /**
+   * Requiring 2FA logs out the members without it, so they enroll at their
+   * next login instead of refreshing their sessions forever.
+   */
+  async updateTwoFactorPolicy(
+    groupId: string,
+    updatePolicyDto: UpdateTwoFactorPolicyDto,
+    tenantId: string,
+  ): Promise<UserGroupResponseDto> {
+    const group = await this.userGroupModel
+      .findOneAndUpdate(
+        {
+          _id: new Types.ObjectId(groupId),
+          tenantId: new Types.ObjectId(tenantId),
+          isDeleted: false,
+        },
+        { requireTwoFactor: updatePolicyDto.required },
+        { new: true },
+      )
+      .exec();
+
+    if (!group) {
+      throw new NotFoundException('User group not found');
+    }
+
+    if (updatePolicyDto.required) {
+      const members = await this.userModel
+        .find({
+          userGroupId: group._id,
+          tenantId: new Types.ObjectId(tenantId),
+          isDeleted: false,
+          'twoFactor.enabled': { $ne: true },
+        })
+        .select('_id')
+        .exec();
+
+      for (const member of members) {
+        await this.authService.logoutAll(member._id.toString());
+      }
+
+      this.logger.log(
+        `Two-factor authentication required for user group ${groupId}, logged out ${members.length} members without it`,
+      );
+    }
+
+    return this.mapToResponse(group);
+  }
+
+  private mapToResponse(group: UserGroupDocument): UserGroupResponseDto {
+    return {
+      id: group._id.toString(),
+      name: group.name,
+      groupType: group.groupType,
+      requireTwoFactor: group.requireTwoFactor ?? false,
+      isActive: group.isActive,
+    };
+  }
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum } from 'class-validator';
+import type { AgentAvailability } from '../../database/schemas/user.schema';
+
+export class UpdateAvailabilityDto {
+  @ApiProperty({
+    description: 'Whether the user takes routed conversations',
+    enum: ['available', 'away', 'offline'],
+    example: 'away',
+  })
+  @IsEnum(['available', 'away', 'offline'], {
+    message: 'Availability must be available, away or offline',
+  })
+  availability: AgentAvailability;
+}
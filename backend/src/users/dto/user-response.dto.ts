@@ -1,4 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
+import type { AgentAvailability } from '../../database/schemas/user.schema';
 
 export class UserResponseDto {
   @ApiProperty({
@@ -44,6 +45,12 @@ export class UserResponseDto {
   })
   isEmailVerified: boolean;
 
+  @ApiProperty({
+    description: 'Whether the user logs in with two-factor authentication',
+    example: false,
+  })
+  isTwoFactorEnabled: boolean;
+
   @ApiProperty({
     description: 'Last login timestamp',
     example: '2024-01-15T10:30:00.000Z',
@@ -51,6 +58,13 @@ export class UserResponseDto {
   })
   lastLoginAt?: Date;
 
+  @ApiProperty({
+    description: 'Whether the user takes routed conversations',
+    enum: ['available', 'away', 'offline'],
+    example: 'available',
+  })
+  availability: AgentAvailability;
+
   @ApiProperty({
     description: 'Tenant ID',
     example: '507f1f77bcf86cd799439012',
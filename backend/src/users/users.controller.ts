@@ -25,6 +25,9 @@ import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { QueryUsersDto } from './dto/query-users.dto';
 import { UserResponseDto } from './dto/user-response.dto';
+import { UpdateAvailabilityDto } from './dto/update-availability.dto';
+import { SessionResponseDto } from '../auth/dto/session-response.dto';
+import { RequirePermission } from '../auth/decorators/permission.decorator';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { PermissionGuard } from '../auth/guards/permission.guard';
 
@@ -101,6 +104,32 @@ export class UsersController {
     return this.usersService.findAllUsers(queryUsersDto, req.user.tenantId);
   }
 
+  @Get('agents')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get users who can be assigned conversations',
+  })
+  @ApiQuery({
+    name: 'available',
+    required: false,
+    type: Boolean,
+    description: 'Only agents currently available for routing',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Agents retrieved successfully',
+    type: [UserResponseDto],
+  })
+  async findAgents(
+    @Query('available') available: string,
+    @Request() req: Request & { user: any },
+  ): Promise<UserResponseDto[]> {
+    return this.usersService.findAgents(
+      req.user.tenantId,
+      available === 'true',
+    );
+  }
+
   @Get(':id')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Get user by ID' })
@@ -233,4 +262,128 @@ export class UsersController {
       req.user.id,
     );
   }
+
+  @Put(':id/availability')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Change whether a user takes routed conversations' })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Availability updated successfully',
+    type: UserResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - insufficient permissions',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User not found',
+  })
+  async updateAvailability(
+    @Param('id') id: string,
+    @Body() updateAvailabilityDto: UpdateAvailabilityDto,
+    @Request() req: Request & { user: any },
+  ): Promise<UserResponseDto> {
+    return this.usersService.updateAvailability(
+      id,
+      updateAvailabilityDto.availability,
+      req.user.tenantId,
+      req.user.userGroup.groupType,
+      req.user.id,
+    );
+  }
+
+  @Get(':id/sessions')
+  @RequirePermission('canDeleteUsers')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'List the sessions of a user (Admin only)' })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Sessions retrieved successfully',
+    type: [SessionResponseDto],
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - insufficient permissions',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User not found',
+  })
+  async findUserSessions(
+    @Param('id') id: string,
+    @Request() req: Request & { user: any },
+  ): Promise<SessionResponseDto[]> {
+    return this.usersService.findUserSessions(id, req.user.tenantId);
+  }
+
+  @Delete(':id/sessions/:sessionId')
+  @RequirePermission('canDeleteUsers')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Log out a session of a user (Admin only)' })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiParam({ name: 'sessionId', description: 'Session ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Session logged out',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - insufficient permissions',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User or session not found',
+  })
+  async revokeUserSession(
+    @Param('id') id: string,
+    @Param('sessionId') sessionId: string,
+    @Request() req: Request & { user: any },
+  ): Promise<{ message: string }> {
+    return this.usersService.revokeUserSession(
+      id,
+      sessionId,
+      req.user.tenantId,
+    );
+  }
+
+  @Post(':id/unlock')
+  @RequirePermission('canDeleteUsers')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Lift a lockout after failed logins (Admin only)',
+  })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'User unlocked',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - insufficient permissions',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User not found',
+  })
+  async unlockUser(
+    @Param('id') id: string,
+    @Request() req: Request & { user: any },
+  ): Promise<{ message: string }> {
+    return this.usersService.unlockUser(id, req.user.tenantId, req.user.id);
+  }
 }
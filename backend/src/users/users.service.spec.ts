@@ -11,6 +11,8 @@ import { User } from '../database/schemas/user.schema';
 import { Tenant } from '../database/schemas/tenant.schema';
 import { UserGroupEntity } from '../database/schemas/user-group.schema';
 import { AuthService } from '../auth/auth.service';
+import { EmailVerificationService } from '../auth/services/email-verification.service';
+import { LoginThrottleService } from '../auth/services/login-throttle.service';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { QueryUsersDto } from './dto/query-users.dto';
@@ -64,6 +66,7 @@ describe('UsersService', () => {
         }),
       }),
       findByIdAndUpdate: createFindByIdAndUpdateMock(),
+      findOneAndUpdate: createFindByIdAndUpdateMock(),
       countDocuments: jest.fn().mockReturnValue({
         exec: mockExec,
       }),
@@ -86,7 +89,8 @@ describe('UsersService', () => {
     };
   };
 
-  const { MockUserModel, mockExec, mockSave } = createMockUserModel();
+  const { MockUserModel, mockExec, mockSave, mockStaticMethods } =
+    createMockUserModel();
 
   const mockTenantModel = {
     findOne: jest.fn().mockReturnThis(),
@@ -100,6 +104,16 @@ describe('UsersService', () => {
 
   const mockAuthService = {
     hashPassword: jest.fn(),
+    findSessions: jest.fn(),
+    revokeSession: jest.fn(),
+  };
+
+  const mockEmailVerificationService = {
+    sendQuietly: jest.fn(),
+  };
+
+  const mockLoginThrottleService = {
+    unlock: jest.fn(),
   };
 
   beforeEach(async () => {
@@ -122,6 +136,14 @@ describe('UsersService', () => {
           provide: AuthService,
           useValue: mockAuthService,
         },
+        {
+          provide: EmailVerificationService,
+          useValue: mockEmailVerificationService,
+        },
+        {
+          provide: LoginThrottleService,
+          useValue: mockLoginThrottleService,
+        },
       ],
     }).compile();
 
@@ -211,6 +233,9 @@ describe('UsersService', () => {
       expect(mockAuthService.hashPassword).toHaveBeenCalledWith(
         createUserDto.password,
       );
+      expect(mockEmailVerificationService.sendQuietly).toHaveBeenCalledWith(
+        mockSavedUser._id.toString(),
+      );
     });
 
     it('should throw ForbiddenException for non-admin users', async () => {
@@ -450,6 +475,42 @@ describe('UsersService', () => {
       expect(result.email).toBe(updateUserDto.email);
     });
 
+    it('should ask to verify a changed email address', async () => {
+      const userId = '507f1f77bcf86cd799439011';
+      const tenantId = '507f1f77bcf86cd799439012';
+
+      mockExec.mockResolvedValueOnce({
+        _id: new Types.ObjectId(userId),
+        email: 'john@example.com',
+        tenantId: new Types.ObjectId(tenantId),
+      }); // Existing user check
+      mockExec.mockResolvedValueOnce(null); // Email uniqueness check
+      mockExec.mockResolvedValueOnce({
+        _id: new Types.ObjectId(userId),
+        email: 'john.doe@example.com',
+        tenantId: new Types.ObjectId(tenantId),
+        userGroupId: new Types.ObjectId('507f1f77bcf86cd799439013'),
+        isEmailVerified: false,
+      }); // Updated user
+
+      await service.updateUser(
+        userId,
+        { email: 'john.doe@example.com' },
+        tenantId,
+        'Admin',
+        '507f1f77bcf86cd799439014',
+      );
+
+      expect(mockStaticMethods.findByIdAndUpdate).toHaveBeenCalledWith(
+        userId,
+        { email: 'john.doe@example.com', isEmailVerified: false },
+        { new: true, runValidators: true },
+      );
+      expect(mockEmailVerificationService.sendQuietly).toHaveBeenCalledWith(
+        userId,
+      );
+    });
+
     it('should allow users to update their own profile', async () => {
       const userId = '507f1f77bcf86cd799439011';
       const updateUserDto: UpdateUserDto = {
@@ -622,6 +683,83 @@ describe('UsersService', () => {
     });
   });
 
+  describe('user sessions', () => {
+    const userId = '507f1f77bcf86cd799439011';
+    const tenantId = '507f1f77bcf86cd799439012';
+    const sessionId = '507f1f77bcf86cd799439015';
+
+    it('should list the sessions of a user of the tenant', async () => {
+      const sessions = [{ id: sessionId, current: false }];
+      mockExec.mockResolvedValue({ _id: new Types.ObjectId(userId) });
+      mockAuthService.findSessions.mockResolvedValue(sessions);
+
+      const result = await service.findUserSessions(userId, tenantId);
+
+      expect(mockStaticMethods.findOne).toHaveBeenCalledWith({
+        _id: new Types.ObjectId(userId),
+        tenantId: new Types.ObjectId(tenantId),
+        isDeleted: false,
+      });
+      expect(mockAuthService.findSessions).toHaveBeenCalledWith(userId);
+      expect(result).toBe(sessions);
+    });
+
+    it('should log out a session of a user of the tenant', async () => {
+      mockExec.mockResolvedValue({ _id: new Types.ObjectId(userId) });
+
+      const result = await service.revokeUserSession(
+        userId,
+        sessionId,
+        tenantId,
+      );
+
+      expect(mockAuthService.revokeSession).toHaveBeenCalledWith(
+        userId,
+        sessionId,
+      );
+      expect(result.message).toBe('Session logged out');
+    });
+
+    it('should throw NotFoundException for a user of another tenant', async () => {
+      mockExec.mockResolvedValue(null);
+
+      await expect(
+        service.revokeUserSession(userId, sessionId, tenantId),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockAuthService.revokeSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unlockUser', () => {
+    const userId = '507f1f77bcf86cd799439011';
+    const tenantId = '507f1f77bcf86cd799439012';
+    const currentUserId = '507f1f77bcf86cd799439014';
+
+    it('should lift the lockout of a user of the tenant', async () => {
+      mockExec.mockResolvedValue({
+        _id: new Types.ObjectId(userId),
+        email: 'jane@example.com',
+      });
+
+      const result = await service.unlockUser(userId, tenantId, currentUserId);
+
+      expect(mockLoginThrottleService.unlock).toHaveBeenCalledWith(
+        { id: userId, email: 'jane@example.com', tenantId },
+        currentUserId,
+      );
+      expect(result.message).toBe('User unlocked');
+    });
+
+    it('should throw NotFoundException for a user of another tenant', async () => {
+      mockExec.mockResolvedValue(null);
+
+      await expect(
+        service.unlockUser(userId, tenantId, currentUserId),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockLoginThrottleService.unlock).not.toHaveBeenCalled();
+    });
+  });
+
   describe('changeUserPassword', () => {
     it('should change password successfully with admin permissions', async () => {
       const userId = '507f1f77bcf86cd799439011';
@@ -721,4 +859,123 @@ describe('UsersService', () => {
       ).rejects.toThrow(NotFoundException);
     });
   });
+
+  describe('updateAvailability', () => {
+    it('should let users change their own availability', async () => {
+      const userId = '507f1f77bcf86cd799439011';
+      const tenantId = '507f1f77bcf86cd799439012';
+
+      mockExec.mockResolvedValue({
+        _id: new Types.ObjectId(userId),
+        email: 'john@example.com',
+        tenantId: new Types.ObjectId(tenantId),
+        userGroupId: {
+          _id: new Types.ObjectId('507f1f77bcf86cd799439013'),
+          name: 'Support',
+          groupType: 'editor',
+        },
+        availability: 'away',
+      });
+
+      const result = await service.updateAvailability(
+        userId,
+        'away',
+        tenantId,
+        'editor',
+        userId,
+      );
+
+      expect(mockStaticMethods.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ _id: new Types.ObjectId(userId) }),
+        { availability: 'away' },
+        { new: true },
+      );
+      expect(result.availability).toBe('away');
+    });
+
+    it('should throw ForbiddenException for non-admin updating other user', async () => {
+      await expect(
+        service.updateAvailability(
+          '507f1f77bcf86cd799439011',
+          'offline',
+          '507f1f77bcf86cd799439012',
+          'editor',
+          '507f1f77bcf86cd799439014',
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should throw NotFoundException for non-existent user', async () => {
+      mockExec.mockResolvedValue(null);
+
+      await expect(
+        service.updateAvailability(
+          '507f1f77bcf86cd799439011',
+          'offline',
+          '507f1f77bcf86cd799439012',
+          'Admin',
+          '507f1f77bcf86cd799439014',
+        ),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('findAgents', () => {
+    const tenantId = '507f1f77bcf86cd799439012';
+
+    const agent = (id: string, userGroup: object) => ({
+      _id: new Types.ObjectId(id),
+      email: `${id}@example.com`,
+      tenantId: new Types.ObjectId(tenantId),
+      userGroupId: {
+        _id: new Types.ObjectId(),
+        name: 'Group',
+        isActive: true,
+        ...userGroup,
+      },
+      isActive: true,
+      availability: 'available',
+    });
+
+    const mockFind = (users: object[]) => {
+      const exec = jest.fn().mockResolvedValue(users);
+      mockStaticMethods.find.mockReturnValueOnce({
+        populate: jest.fn().mockReturnValue({
+          sort: jest.fn().mockReturnValue({ exec }),
+        }),
+      });
+    };
+
+    it('should only return users whose group may claim conversations', async () => {
+      mockFind([
+        agent('507f1f77bcf86cd799439021', { groupType: 'editor' }),
+        agent('507f1f77bcf86cd799439022', { groupType: 'viewer' }),
+        agent('507f1f77bcf86cd799439023', {
+          groupType: 'viewer',
+          customPermissions: { canClaimConversations: true },
+        }),
+        agent('507f1f77bcf86cd799439024', {
+          groupType: 'admin',
+          isActive: false,
+        }),
+      ]);
+
+      const result = await service.findAgents(tenantId);
+
+      expect(result.map((user) => user.id)).toEqual([
+        '507f1f77bcf86cd799439021',
+        '507f1f77bcf86cd799439023',
+      ]);
+    });
+
+    it('should filter by availability when asked', async () => {
+      mockFind([]);
+
+      await service.findAgents(tenantId, true);
+
+      expect(mockStaticMethods.find).toHaveBeenCalledWith(
+        expect.objectContaining({ isActive: true, availability: 'available' }),
+      );
+    });
+  });
 });
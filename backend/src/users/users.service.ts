@@ -6,7 +6,11 @@ import {
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
-import { User } from '../database/schemas/user.schema';
+import {
+  AgentAvailability,
+  User,
+  UserDocument,
+} from '../database/schemas/user.schema';
 import { Tenant } from '../database/schemas/tenant.schema';
 import { UserGroupEntity } from '../database/schemas/user-group.schema';
 import { CreateUserDto } from './dto/create-user.dto';
@@ -14,6 +18,10 @@ import { UpdateUserDto } from './dto/update-user.dto';
 import { QueryUsersDto } from './dto/query-users.dto';
 import { UserResponseDto } from './dto/user-response.dto';
 import { AuthService } from '../auth/auth.service';
+import { SessionResponseDto } from '../auth/dto/session-response.dto';
+import { EmailVerificationService } from '../auth/services/email-verification.service';
+import { LoginThrottleService } from '../auth/services/login-throttle.service';
+import { hasGroupPermission } from '../common/enums/user-group.enum';
 
 @Injectable()
 export class UsersService {
@@ -23,6 +31,8 @@ export class UsersService {
     @InjectModel(UserGroupEntity.name)
     private userGroupModel: Model<UserGroupEntity>,
     private authService: AuthService,
+    private emailVerificationService: EmailVerificationService,
+    private loginThrottleService: LoginThrottleService,
   ) {}
 
   async createUser(
@@ -83,6 +93,9 @@ export class UsersService {
     });
 
     const savedUser = await newUser.save();
+    if (!savedUser.isEmailVerified) {
+      await this.emailVerificationService.sendQuietly(savedUser._id.toString());
+    }
 
     // Populate user group information
     const populatedUser = await this.userModel
@@ -215,7 +228,9 @@ export class UsersService {
     }
 
     // If updating email, check for uniqueness
-    if (updateUserDto.email && updateUserDto.email !== existingUser.email) {
+    const emailChanged =
+      !!updateUserDto.email && updateUserDto.email !== existingUser.email;
+    if (emailChanged) {
       const emailExists = await this.userModel
         .findOne({
           email: updateUserDto.email,
@@ -253,6 +268,8 @@ export class UsersService {
       .findByIdAndUpdate(
         userId,
         {
+          // A new address is unverified unless the admin says otherwise
+          ...(emailChanged && { isEmailVerified: false }),
           ...updateUserDto,
           ...(updateUserDto.userGroupId && {
             userGroupId: new Types.ObjectId(updateUserDto.userGroupId),
@@ -263,6 +280,10 @@ export class UsersService {
       .populate('userGroupId', 'name groupType')
       .exec();
 
+    if (emailChanged && !updatedUser?.isEmailVerified) {
+      await this.emailVerificationService.sendQuietly(userId);
+    }
+
     return this.mapToUserResponse(updatedUser);
   }
 
@@ -301,6 +322,41 @@ export class UsersService {
     return { message: 'User deleted successfully' };
   }
 
+  /** Sessions of a user of the tenant, for admins to spot a compromise. */
+  async findUserSessions(
+    userId: string,
+    tenantId: string,
+  ): Promise<SessionResponseDto[]> {
+    await this.findTenantUser(userId, tenantId);
+    return this.authService.findSessions(userId);
+  }
+
+  async revokeUserSession(
+    userId: string,
+    sessionId: string,
+    tenantId: string,
+  ): Promise<{ message: string }> {
+    await this.findTenantUser(userId, tenantId);
+    await this.authService.revokeSession(userId, sessionId);
+
+    return { message: 'Session logged out' };
+  }
+
+  /** Lifts a lockout after failed logins before it runs out. */
+  async unlockUser(
+    userId: string,
+    tenantId: string,
+    currentUserId: string,
+  ): Promise<{ message: string }> {
+    const user = await this.findTenantUser(userId, tenantId);
+    await this.loginThrottleService.unlock(
+      { id: userId, email: user.email, tenantId },
+      currentUserId,
+    );
+
+    return { message: 'User unlocked' };
+  }
+
   async changeUserPassword(
     userId: string,
     newPassword: string,
@@ -339,6 +395,91 @@ export class UsersService {
     return { message: 'Password changed successfully' };
   }
 
+  async updateAvailability(
+    userId: string,
+    availability: AgentAvailability,
+    tenantId: string,
+    currentUserGroupType: string,
+    currentUserId: string,
+  ): Promise<UserResponseDto> {
+    // Agents set their own availability, admins can set it for anyone
+    if (currentUserGroupType !== 'Admin' && currentUserId !== userId) {
+      throw new ForbiddenException(
+        'You can only change your own availability or need admin permissions',
+      );
+    }
+
+    const user = await this.userModel
+      .findOneAndUpdate(
+        {
+          _id: new Types.ObjectId(userId),
+          tenantId: new Types.ObjectId(tenantId),
+          isDeleted: false,
+        },
+        { availability },
+        { new: true },
+      )
+      .populate('userGroupId', 'name groupType')
+      .exec();
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return this.mapToUserResponse(user);
+  }
+
+  /**
+   * Active users whose group may claim conversations, optionally only those
+   * currently available for routing.
+   */
+  async findAgents(
+    tenantId: string,
+    availableOnly = false,
+  ): Promise<UserResponseDto[]> {
+    const users = await this.userModel
+      .find({
+        tenantId: new Types.ObjectId(tenantId),
+        isActive: true,
+        isDeleted: false,
+        ...(availableOnly && { availability: 'available' }),
+      })
+      .populate('userGroupId', 'name groupType customPermissions isActive')
+      .sort({ firstName: 1, lastName: 1 })
+      .exec();
+
+    return users
+      .filter((user) => this.canClaimConversations(user))
+      .map((user) => this.mapToUserResponse(user));
+  }
+
+  private async findTenantUser(
+    userId: string,
+    tenantId: string,
+  ): Promise<UserDocument> {
+    const user = await this.userModel
+      .findOne({
+        _id: new Types.ObjectId(userId),
+        tenantId: new Types.ObjectId(tenantId),
+        isDeleted: false,
+      })
+      .exec();
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return user;
+  }
+
+  private canClaimConversations(user: UserDocument): boolean {
+    const userGroup = user.userGroupId as unknown as UserGroupEntity;
+    return (
+      !!userGroup?.isActive &&
+      hasGroupPermission(userGroup, 'canClaimConversations')
+    );
+  }
+
   private mapToUserResponse(user: any): UserResponseDto {
     return {
       id: (user._id as Types.ObjectId).toString(),
@@ -348,7 +489,9 @@ export class UsersService {
       phoneNumber: user.phoneNumber as string | undefined,
       isActive: user.isActive as boolean,
       isEmailVerified: user.isEmailVerified as boolean,
+      isTwoFactorEnabled: !!user.twoFactor?.enabled,
       lastLoginAt: user.lastLoginAt as Date | undefined,
+      availability: user.availability as AgentAvailability,
       tenantId: (user.tenantId as Types.ObjectId).toString(),
       userGroupId: (user.userGroupId._id as Types.ObjectId).toString(),
       userGroup: {
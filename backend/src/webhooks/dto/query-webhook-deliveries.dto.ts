@@ -0,0 +1,53 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsIn, IsNumber, IsOptional, Max, Min } from 'class-validator';
+import { WEBHOOK_EVENTS } from '../webhook-events';
+import type { WebhookEvent } from '../webhook-events';
+import type { WebhookDeliveryStatus } from '../../database/schemas/webhook-delivery.schema';
+
+export class QueryWebhookDeliveriesDto {
+  @ApiProperty({
+    description: 'Page number for pagination',
+    example: 1,
+    default: 1,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'Page must be a number' })
+  @Min(1, { message: 'Page must be at least 1' })
+  page?: number = 1;
+
+  @ApiProperty({
+    description: 'Number of items per page',
+    example: 20,
+    default: 20,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'Limit must be a number' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit cannot exceed 100' })
+  limit?: number = 20;
+
+  @ApiProperty({
+    description: 'Filter by delivery status',
+    enum: ['pending', 'delivering', 'succeeded', 'failed'],
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['pending', 'delivering', 'succeeded', 'failed'], {
+    message: 'Invalid delivery status',
+  })
+  status?: WebhookDeliveryStatus;
+
+  @ApiProperty({
+    description: 'Filter by event',
+    enum: WEBHOOK_EVENTS,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(WEBHOOK_EVENTS, { message: 'Invalid webhook event' })
+  event?: WebhookEvent;
+}
@@ -0,0 +1,61 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+import { WEBHOOK_EVENTS } from '../webhook-events';
+import type { WebhookEvent } from '../webhook-events';
+
+export class UpdateWebhookDto {
+  @ApiProperty({
+    description: 'HTTPS endpoint that receives the events',
+    example: 'https://example.com/hooks/whatsapp',
+    required: false,
+  })
+  @IsOptional()
+  @IsUrl(
+    { protocols: ['https'], require_protocol: true },
+    { message: 'Webhook URL must be a valid HTTPS URL' },
+  )
+  url?: string;
+
+  @ApiProperty({
+    description: 'Events delivered to this endpoint',
+    example: ['message.received'],
+    enum: WEBHOOK_EVENTS,
+    isArray: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsArray({ message: 'Events must be an array' })
+  @ArrayNotEmpty({ message: 'At least one event is required' })
+  @ArrayUnique({ message: 'Events must be unique' })
+  @IsIn(WEBHOOK_EVENTS, { each: true, message: 'Invalid webhook event' })
+  events?: WebhookEvent[];
+
+  @ApiProperty({
+    description: 'Webhook description',
+    example: 'CRM sync',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'Description must be a string' })
+  @MaxLength(200, { message: 'Description must not exceed 200 characters' })
+  description?: string;
+
+  @ApiProperty({
+    description: 'Whether events are delivered',
+    example: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'isActive must be a boolean' })
+  isActive?: boolean;
+}
@@ -0,0 +1,121 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class WebhookResponseDto {
+  @ApiProperty({
+    description: 'Webhook ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'HTTPS endpoint',
+    example: 'https://example.com/hooks/whatsapp',
+  })
+  url: string;
+
+  @ApiProperty({ description: 'Webhook description', required: false })
+  description?: string;
+
+  @ApiProperty({
+    description: 'Subscribed events',
+    example: ['message.received'],
+  })
+  events: string[];
+
+  @ApiProperty({ description: 'Whether events are delivered', example: true })
+  isActive: boolean;
+
+  @ApiProperty({
+    description:
+      'Signing secret. Only returned when the webhook is created or its secret is rotated',
+    example: 'whsec_3f9a...',
+    required: false,
+  })
+  secret?: string;
+
+  @ApiProperty({ description: 'Last delivery attempt', required: false })
+  lastDeliveryAt?: Date;
+
+  @ApiProperty({
+    description: 'Outcome of the last finished delivery',
+    example: 'succeeded',
+    required: false,
+  })
+  lastDeliveryStatus?: string;
+
+  @ApiProperty({ description: 'Tenant ID' })
+  tenantId: string;
+
+  @ApiProperty({ description: 'User who created the webhook' })
+  createdBy: string;
+
+  @ApiProperty({ description: 'Creation timestamp' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Last update timestamp' })
+  updatedAt: Date;
+}
+
+export class WebhookDeliveryResponseDto {
+  @ApiProperty({
+    description: 'Delivery ID, sent as X-Webhook-Delivery',
+    example: '507f1f77bcf86cd799439012',
+  })
+  id: string;
+
+  @ApiProperty({ description: 'Webhook ID' })
+  subscriptionId: string;
+
+  @ApiProperty({ description: 'Event', example: 'message.received' })
+  event: string;
+
+  @ApiProperty({ description: 'Request body sent to the endpoint' })
+  payload: Record<string, any>;
+
+  @ApiProperty({
+    description: 'Delivery status',
+    example: 'succeeded',
+    enum: ['pending', 'delivering', 'succeeded', 'failed'],
+  })
+  status: string;
+
+  @ApiProperty({ description: 'Attempts made so far', example: 1 })
+  attempts: number;
+
+  @ApiProperty({ description: 'Next retry time', required: false })
+  nextAttemptAt?: Date;
+
+  @ApiProperty({ description: 'Last attempt time', required: false })
+  lastAttemptAt?: Date;
+
+  @ApiProperty({
+    description: 'HTTP status returned by the endpoint',
+    example: 200,
+    required: false,
+  })
+  responseStatus?: number;
+
+  @ApiProperty({
+    description: 'Response body returned by the endpoint (truncated)',
+    required: false,
+  })
+  responseBody?: string;
+
+  @ApiProperty({ description: 'Last attempt duration', required: false })
+  durationMs?: number;
+
+  @ApiProperty({ description: 'Last error', required: false })
+  errorMessage?: string;
+
+  @ApiProperty({ description: 'Successful delivery time', required: false })
+  deliveredAt?: Date;
+
+  @ApiProperty({
+    description: 'Delivery this one re-sends',
+    required: false,
+  })
+  redeliveryOf?: string;
+
+  @ApiProperty({ description: 'Creation timestamp' })
+  createdAt: Date;
+}
@@ -0,0 +1,34 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Signs `<timestamp>.<body>` with HMAC-SHA256. Including the timestamp lets
+ * receivers reject replayed deliveries.
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `sha256=${digest}`;
+}
+
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string,
+): boolean {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,147 @@
+import { lookup as lookupCallback } from 'dns';
+import { lookup } from 'dns/promises';
+import {
+  findWebhookUrlProblem,
+  isPublicAddress,
+  publicAddressLookup,
+} from './webhook-url.util';
+
+jest.mock('dns', () => ({ lookup: jest.fn() }));
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+
+const mockLookup = lookup as unknown as jest.Mock;
+const mockLookupCallback = lookupCallback as unknown as jest.Mock;
+
+describe('webhook-url.util', () => {
+  describe('isPublicAddress', () => {
+    it.each([
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.16.0.1',
+      '192.168.1.10',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::1',
+      '::',
+      'fd00::1',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+      '::ffff:10.0.0.1',
+    ])('should reject %s', (address) => {
+      expect(isPublicAddress(address)).toBe(false);
+    });
+
+    it.each(['93.184.216.34', '8.8.8.8', '2606:4700::6810:85e5'])(
+      'should accept %s',
+      (address) => {
+        expect(isPublicAddress(address)).toBe(true);
+      },
+    );
+  });
+
+  describe('findWebhookUrlProblem', () => {
+    beforeEach(() => {
+      mockLookup.mockReset();
+    });
+
+    it('should accept a host with only public addresses', async () => {
+      mockLookup.mockResolvedValue([
+        { address: '93.184.216.34', family: 4 },
+        { address: '2606:4700::6810:85e5', family: 6 },
+      ]);
+
+      await expect(
+        findWebhookUrlProblem('https://example.com/hooks'),
+      ).resolves.toBeNull();
+      expect(mockLookup).toHaveBeenCalledWith('example.com', {
+        all: true,
+        verbatim: true,
+      });
+    });
+
+    it('should reject a host with any internal address', async () => {
+      mockLookup.mockResolvedValue([
+        { address: '93.184.216.34', family: 4 },
+        { address: '192.168.0.2', family: 4 },
+      ]);
+
+      await expect(
+        findWebhookUrlProblem('https://example.com/hooks'),
+      ).resolves.toBe(
+        'Webhook host example.com does not resolve to a public address',
+      );
+    });
+
+    it('should look up IPv6 literals without their brackets', async () => {
+      mockLookup.mockResolvedValue([{ address: '::1', family: 6 }]);
+
+      await expect(findWebhookUrlProblem('https://[::1]/hooks')).resolves.toBe(
+        'Webhook host ::1 does not resolve to a public address',
+      );
+      expect(mockLookup).toHaveBeenCalledWith('::1', expect.anything());
+    });
+
+    it('should reject hosts that do not resolve', async () => {
+      mockLookup.mockRejectedValue(new Error('getaddrinfo ENOTFOUND'));
+
+      await expect(
+        findWebhookUrlProblem('https://missing.example.com/'),
+      ).resolves.toBe('Webhook host missing.example.com could not be resolved');
+    });
+  });
+
+  describe('publicAddressLookup', () => {
+    const resolveTo = (...addresses: string[]) =>
+      mockLookupCallback.mockImplementation(
+        (_hostname: string, _options: object, callback: Function) =>
+          callback(
+            null,
+            addresses.map((address) => ({
+              address,
+              family: address.includes(':') ? 6 : 4,
+            })),
+          ),
+      );
+
+    const connectLookup = (options: object) =>
+      new Promise<unknown[]>((resolve) =>
+        publicAddressLookup('example.com', options, (...result) =>
+          resolve(result),
+        ),
+      );
+
+    beforeEach(() => {
+      mockLookupCallback.mockReset();
+    });
+
+    it('should hand public addresses to the socket', async () => {
+      resolveTo('93.184.216.34', '2606:4700::6810:85e5');
+
+      await expect(connectLookup({})).resolves.toEqual([
+        null,
+        '93.184.216.34',
+        4,
+      ]);
+      await expect(connectLookup({ all: true })).resolves.toEqual([
+        null,
+        [
+          { address: '93.184.216.34', family: 4 },
+          { address: '2606:4700::6810:85e5', family: 6 },
+        ],
+      ]);
+    });
+
+    it('should fail the connection when the host now resolves internally', async () => {
+      resolveTo('169.254.169.254');
+
+      const [error] = await connectLookup({});
+
+      expect(error).toEqual(
+        new Error(
+          'Webhook host example.com does not resolve to a public address',
+        ),
+      );
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { lookup as lookupCallback } from 'dns';
+import { lookup } from 'dns/promises';
+import { BlockList, LookupFunction, isIPv4, isIPv6 } from 'net';
+
+// Loopback, private, link-local, shared, multicast and reserved ranges
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPublicAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses reach the IPv4 host
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1];
+  if (mapped || isIPv4(address)) {
+    return !NON_PUBLIC_ADDRESSES.check(mapped ?? address, 'ipv4');
+  }
+  return isIPv6(address) && !NON_PUBLIC_ADDRESSES.check(address, 'ipv6');
+}
+
+/**
+ * Resolves the host of a webhook URL and returns why it can't receive
+ * deliveries, or null if it can. Endpoints are tenant-supplied, so every
+ * address the host resolves to has to be public, or a tenant could reach
+ * the internal network and read the responses in the delivery log.
+ */
+export async function findWebhookUrlProblem(
+  url: string,
+): Promise<string | null> {
+  let hostname: string;
+  try {
+    // IPv6 literals keep their brackets in the hostname
+    hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+  } catch {
+    return 'Webhook URL is invalid';
+  }
+
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(hostname, { all: true, verbatim: true });
+  } catch {
+    return `Webhook host ${hostname} could not be resolved`;
+  }
+
+  if (
+    addresses.length === 0 ||
+    addresses.some(({ address }) => !isPublicAddress(address))
+  ) {
+    return `Webhook host ${hostname} does not resolve to a public address`;
+  }
+
+  return null;
+}
+
+/**
+ * A `dns.lookup` for the sockets that deliver webhooks. It refuses hosts
+ * resolving to a non-public address, so the address connected to is the
+ * one checked: a host can't pass `findWebhookUrlProblem` and then resolve
+ * to an internal address for the request itself.
+ */
+export const publicAddressLookup: LookupFunction = (
+  hostname,
+  options,
+  callback,
+) => {
+  lookupCallback(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+    if (
+      addresses.length === 0 ||
+      addresses.some(({ address }) => !isPublicAddress(address))
+    ) {
+      callback(
+        new Error(
+          `Webhook host ${hostname} does not resolve to a public address`,
+        ),
+        '',
+      );
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
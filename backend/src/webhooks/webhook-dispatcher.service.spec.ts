@@ -0,0 +1,231 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { lookup } from 'dns/promises';
+import { Types } from 'mongoose';
+import { Agent, fetch } from 'undici';
+import { WebhookDispatcher } from './webhook-dispatcher.service';
+import {
+  WebhookDelivery,
+  WebhookDeliveryDocument,
+} from '../database/schemas/webhook-delivery.schema';
+import { WebhookSubscription } from '../database/schemas/webhook-subscription.schema';
+import { verifyWebhookSignature } from './utils/webhook-signature.util';
+
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+jest.mock('undici', () => ({
+  ...jest.requireActual<object>('undici'),
+  fetch: jest.fn(),
+}));
+
+describe('WebhookDispatcher', () => {
+  let dispatcher: WebhookDispatcher;
+  const fetchMock = fetch as unknown as jest.Mock;
+
+  const subscription = {
+    _id: new Types.ObjectId('507f1f77bcf86cd799439020'),
+    url: 'https://example.com/hooks',
+    secret: 'whsec_test',
+    isActive: true,
+  };
+
+  const delivery = {
+    _id: new Types.ObjectId('507f1f77bcf86cd799439021'),
+    subscriptionId: subscription._id,
+    event: 'message.received',
+    payload: { event: 'message.received', data: { id: 'm1' } },
+    status: 'delivering',
+    attempts: 0,
+  };
+
+  const asDocument = (overrides: object = {}) =>
+    ({ ...delivery, ...overrides }) as unknown as WebhookDeliveryDocument;
+
+  const execResult = (value: unknown) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const mockDeliveryModel = {
+    findOneAndUpdate: jest.fn(),
+    findByIdAndUpdate: jest.fn(),
+  };
+
+  const mockSubscriptionModel = {
+    findOne: jest.fn(),
+    updateOne: jest.fn(),
+  };
+
+  const config: Record<string, number> = {
+    'webhooks.maxAttempts': 3,
+    'webhooks.backoffBaseMs': 1000,
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    (lookup as unknown as jest.Mock).mockResolvedValue([
+      { address: '93.184.216.34', family: 4 },
+    ]);
+    mockSubscriptionModel.findOne.mockReturnValue(execResult(subscription));
+    mockSubscriptionModel.updateOne.mockReturnValue(execResult(null));
+    mockDeliveryModel.findByIdAndUpdate.mockReturnValue(execResult(null));
+    fetchMock.mockResolvedValue(new Response('ok', { status: 200 }));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookDispatcher,
+        {
+          provide: getModelToken(WebhookDelivery.name),
+          useValue: mockDeliveryModel,
+        },
+        {
+          provide: getModelToken(WebhookSubscription.name),
+          useValue: mockSubscriptionModel,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    dispatcher = module.get<WebhookDispatcher>(WebhookDispatcher);
+  });
+
+  afterEach(async () => {
+    await dispatcher.onModuleDestroy();
+  });
+
+  it('should be defined', () => {
+    expect(dispatcher).toBeDefined();
+  });
+
+  describe('deliver', () => {
+    it('should POST the signed payload and mark the delivery succeeded', async () => {
+      await dispatcher.deliver(asDocument());
+
+      const [url, init] = fetchMock.mock.calls[0] as [
+        string,
+        RequestInit & { dispatcher: unknown },
+      ];
+      const headers = init.headers as Record<string, string>;
+      expect(url).toBe(subscription.url);
+      // Connections go through the agent that refuses internal addresses
+      expect(init.dispatcher).toBeInstanceOf(Agent);
+      expect(init.body).toBe(JSON.stringify(delivery.payload));
+      expect(headers['X-Webhook-Event']).toBe('message.received');
+      expect(headers['X-Webhook-Delivery']).toBe(delivery._id.toString());
+      expect(
+        verifyWebhookSignature(
+          subscription.secret,
+          Number(headers['X-Webhook-Timestamp']),
+          init.body as string,
+          headers['X-Webhook-Signature'],
+        ),
+      ).toBe(true);
+      expect(mockDeliveryModel.findByIdAndUpdate).toHaveBeenCalledWith(
+        delivery._id,
+        expect.objectContaining({
+          status: 'succeeded',
+          attempts: 1,
+          responseStatus: 200,
+          responseBody: 'ok',
+        }),
+      );
+      expect(mockSubscriptionModel.updateOne).toHaveBeenCalledWith(
+        { _id: subscription._id },
+        expect.objectContaining({ lastDeliveryStatus: 'succeeded' }),
+      );
+    });
+
+    it('should retry non-2xx responses with exponential backoff', async () => {
+      fetchMock.mockResolvedValue(new Response('busy', { status: 503 }));
+      const before = Date.now();
+
+      await dispatcher.deliver(asDocument({ attempts: 1 }));
+
+      const [, update] = mockDeliveryModel.findByIdAndUpdate.mock.calls[0] as [
+        Types.ObjectId,
+        { nextAttemptAt: Date },
+      ];
+      expect(update).toMatchObject({
+        status: 'pending',
+        attempts: 2,
+        responseStatus: 503,
+        errorMessage: 'Endpoint responded with HTTP 503',
+      });
+      expect(update.nextAttemptAt.getTime() - before).toBeGreaterThanOrEqual(
+        2000,
+      );
+      expect(mockSubscriptionModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should mark the delivery failed after the last attempt', async () => {
+      fetchMock.mockRejectedValue(new Error('getaddrinfo ENOTFOUND'));
+
+      await dispatcher.deliver(asDocument({ attempts: 2 }));
+
+      expect(mockDeliveryModel.findByIdAndUpdate).toHaveBeenCalledWith(
+        delivery._id,
+        expect.objectContaining({
+          status: 'failed',
+          attempts: 3,
+          nextAttemptAt: null,
+          errorMessage: 'getaddrinfo ENOTFOUND',
+        }),
+      );
+      expect(mockSubscriptionModel.updateOne).toHaveBeenCalledWith(
+        { _id: subscription._id },
+        expect.objectContaining({ lastDeliveryStatus: 'failed' }),
+      );
+    });
+
+    it('should not send to a host that now resolves to an internal address', async () => {
+      (lookup as unknown as jest.Mock).mockResolvedValue([
+        { address: '127.0.0.1', family: 4 },
+      ]);
+
+      await dispatcher.deliver(asDocument());
+
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(mockDeliveryModel.findByIdAndUpdate).toHaveBeenCalledWith(
+        delivery._id,
+        expect.objectContaining({
+          status: 'pending',
+          attempts: 1,
+          errorMessage:
+            'Webhook host example.com does not resolve to a public address',
+        }),
+      );
+    });
+
+    it('should fail deliveries of disabled webhooks without sending', async () => {
+      mockSubscriptionModel.findOne.mockReturnValue(
+        execResult({ ...subscription, isActive: false }),
+      );
+
+      await dispatcher.deliver(asDocument());
+
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(mockDeliveryModel.findByIdAndUpdate).toHaveBeenCalledWith(
+        delivery._id,
+        expect.objectContaining({
+          status: 'failed',
+          errorMessage: 'Webhook is disabled or deleted',
+        }),
+      );
+    });
+  });
+
+  describe('poll', () => {
+    it('should deliver claimed deliveries until none are due', async () => {
+      mockDeliveryModel.findOneAndUpdate
+        .mockReturnValueOnce(execResult(delivery))
+        .mockReturnValue(execResult(null));
+
+      await dispatcher.poll();
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(mockDeliveryModel.findOneAndUpdate).toHaveBeenCalledTimes(2);
+    });
+  });
+});
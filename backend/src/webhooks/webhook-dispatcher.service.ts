@@ -0,0 +1,300 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Agent, fetch } from 'undici';
+import {
+  WebhookDelivery,
+  WebhookDeliveryDocument,
+} from '../database/schemas/webhook-delivery.schema';
+import { WebhookSubscription } from '../database/schemas/webhook-subscription.schema';
+import {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  signWebhookPayload,
+} from './utils/webhook-signature.util';
+import {
+  findWebhookUrlProblem,
+  publicAddressLookup,
+} from './utils/webhook-url.util';
+
+// Response bodies are kept for debugging only
+const MAX_RESPONSE_BODY_LENGTH = 1024;
+
+interface AttemptResult {
+  ok: boolean;
+  responseStatus?: number;
+  responseBody?: string;
+  errorMessage?: string;
+  durationMs: number;
+}
+
+/**
+ * POSTs queued webhook deliveries to their endpoints. Every request is
+ * signed with the webhook secret; non-2xx responses and network errors are
+ * retried with exponential backoff until `maxAttempts` is reached.
+ */
+@Injectable()
+export class WebhookDispatcher
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(WebhookDispatcher.name);
+  private readonly pollIntervalMs: number;
+  private readonly batchSize: number;
+  private readonly maxAttempts: number;
+  private readonly backoffBaseMs: number;
+  private readonly backoffMaxMs: number;
+  private readonly timeoutMs: number;
+  // Connects only to public addresses, checked when the socket connects
+  private readonly agent = new Agent({
+    connect: { lookup: publicAddressLookup },
+  });
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+
+  constructor(
+    @InjectModel(WebhookDelivery.name)
+    private deliveryModel: Model<WebhookDelivery>,
+    @InjectModel(WebhookSubscription.name)
+    private subscriptionModel: Model<WebhookSubscription>,
+    private configService: ConfigService,
+  ) {
+    const config = (key: string, fallback: number) =>
+      this.configService.get<number>(`webhooks.${key}`) || fallback;
+
+    this.pollIntervalMs = config('pollIntervalMs', 2000);
+    this.batchSize = config('batchSize', 20);
+    this.maxAttempts = config('maxAttempts', 8);
+    this.backoffBaseMs = config('backoffBaseMs', 10000);
+    this.backoffMaxMs = config('backoffMaxMs', 60 * 60 * 1000);
+    this.timeoutMs = config('timeoutMs', 10000);
+  }
+
+  onApplicationBootstrap(): void {
+    this.timer = setInterval(() => void this.poll(), this.pollIntervalMs);
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    clearInterval(this.timer);
+    await this.agent.close();
+  }
+
+  async poll(): Promise<void> {
+    // Skip the tick while the previous batch is still being delivered
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      for (let i = 0; i < this.batchSize; i++) {
+        const delivery = await this.claimNext();
+        if (!delivery) {
+          break;
+        }
+        await this.deliver(delivery);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to process webhook deliveries: ${(error as Error).message}`,
+      );
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Claims the next due delivery. Deliveries whose claim expired (the
+   * instance delivering them stopped) are picked up again.
+   */
+  async claimNext(): Promise<WebhookDeliveryDocument | null> {
+    const now = new Date();
+    return this.deliveryModel
+      .findOneAndUpdate(
+        {
+          $or: [
+            { status: 'pending', nextAttemptAt: { $lte: now } },
+            { status: 'delivering', lockedUntil: { $lte: now } },
+          ],
+        },
+        {
+          status: 'delivering',
+          lockedUntil: new Date(now.getTime() + this.timeoutMs * 2),
+        },
+        { new: true, sort: { nextAttemptAt: 1 } },
+      )
+      .exec();
+  }
+
+  async deliver(delivery: WebhookDeliveryDocument): Promise<void> {
+    const subscription = await this.subscriptionModel
+      .findOne({ _id: delivery.subscriptionId, isDeleted: false })
+      .exec();
+
+    if (!subscription || !subscription.isActive) {
+      await this.deliveryModel
+        .findByIdAndUpdate(delivery._id, {
+          status: 'failed',
+          nextAttemptAt: null,
+          lockedUntil: null,
+          errorMessage: 'Webhook is disabled or deleted',
+        })
+        .exec();
+      return;
+    }
+
+    const attempts = (delivery.attempts || 0) + 1;
+    const result = await this.send(
+      delivery,
+      subscription.secret,
+      subscription.url,
+    );
+    const lastAttemptAt = new Date();
+    const outcome = {
+      attempts,
+      lastAttemptAt,
+      lockedUntil: null,
+      responseStatus: result.responseStatus,
+      responseBody: result.responseBody,
+      durationMs: result.durationMs,
+      errorMessage: result.errorMessage,
+    };
+    const deliveryId = delivery._id.toString();
+
+    if (result.ok) {
+      await this.deliveryModel
+        .findByIdAndUpdate(delivery._id, {
+          ...outcome,
+          status: 'succeeded',
+          nextAttemptAt: null,
+          deliveredAt: lastAttemptAt,
+        })
+        .exec();
+      await this.recordLastDelivery(
+        subscription._id,
+        lastAttemptAt,
+        'succeeded',
+      );
+      return;
+    }
+
+    if (attempts < this.maxAttempts) {
+      const nextAttemptAt = new Date(Date.now() + this.backoff(attempts));
+      await this.deliveryModel
+        .findByIdAndUpdate(delivery._id, {
+          ...outcome,
+          status: 'pending',
+          nextAttemptAt,
+        })
+        .exec();
+
+      this.logger.warn(
+        `Webhook delivery ${deliveryId} failed (attempt ${attempts}/${this.maxAttempts}), retrying at ${nextAttemptAt.toISOString()}: ${result.errorMessage}`,
+      );
+      return;
+    }
+
+    await this.deliveryModel
+      .findByIdAndUpdate(delivery._id, {
+        ...outcome,
+        status: 'failed',
+        nextAttemptAt: null,
+      })
+      .exec();
+    await this.recordLastDelivery(subscription._id, lastAttemptAt, 'failed');
+
+    this.logger.error(
+      `Webhook delivery ${deliveryId} failed after ${attempts} attempt(s): ${result.errorMessage}`,
+    );
+  }
+
+  private async send(
+    delivery: WebhookDeliveryDocument,
+    secret: string,
+    url: string,
+  ): Promise<AttemptResult> {
+    const startedAt = Date.now();
+
+    // Checked again on every attempt, DNS may have changed since registration
+    const problem = await findWebhookUrlProblem(url);
+    if (problem) {
+      return {
+        ok: false,
+        errorMessage: problem,
+        durationMs: Date.now() - startedAt,
+      };
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'WhatsApp-Multi-Tenant-Webhooks',
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Delivery': delivery._id.toString(),
+          [TIMESTAMP_HEADER]: timestamp.toString(),
+          [SIGNATURE_HEADER]: signWebhookPayload(secret, timestamp, body),
+        },
+        body,
+        signal: controller.signal,
+        redirect: 'manual',
+        dispatcher: this.agent,
+      });
+      const responseBody = (await response.text()).slice(
+        0,
+        MAX_RESPONSE_BODY_LENGTH,
+      );
+
+      return {
+        ok: response.ok,
+        responseStatus: response.status,
+        responseBody,
+        errorMessage: response.ok
+          ? undefined
+          : `Endpoint responded with HTTP ${response.status}`,
+        durationMs: Date.now() - startedAt,
+      };
+    } catch (error) {
+      return {
+        ok: false,
+        errorMessage: controller.signal.aborted
+          ? `Endpoint did not respond within ${this.timeoutMs}ms`
+          : (error as Error).message,
+        durationMs: Date.now() - startedAt,
+      };
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private async recordLastDelivery(
+    subscriptionId: Types.ObjectId,
+    lastDeliveryAt: Date,
+    lastDeliveryStatus: 'succeeded' | 'failed',
+  ): Promise<void> {
+    await this.subscriptionModel
+      .updateOne(
+        { _id: subscriptionId },
+        { lastDeliveryAt, lastDeliveryStatus },
+      )
+      .exec();
+  }
+
+  private backoff(attempts: number): number {
+    return Math.min(
+      this.backoffBaseMs * 2 ** (attempts - 1),
+      this.backoffMaxMs,
+    );
+  }
+}
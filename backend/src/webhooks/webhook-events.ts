@@ -0,0 +1,13 @@
+export const WEBHOOK_EVENTS = [
+  'message.received',
+  'message.status',
+  'device.connected',
+  'device.disconnected',
+  'device.qr',
+  'group.participants',
+  'conversation.assigned',
+  'auto_reply.triggered',
+  'contact.consent_changed',
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
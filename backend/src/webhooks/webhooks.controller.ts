@@ -0,0 +1,212 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Put,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { RequirePermission } from '../auth/decorators/permission.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionGuard } from '../auth/guards/permission.guard';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { QueryWebhookDeliveriesDto } from './dto/query-webhook-deliveries.dto';
+import { UpdateWebhookDto } from './dto/update-webhook.dto';
+import {
+  WebhookDeliveryResponseDto,
+  WebhookResponseDto,
+} from './dto/webhook-response.dto';
+import { WebhooksService } from './webhooks.service';
+
+@ApiTags('Webhooks')
+@Controller('webhooks')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+@ApiBearerAuth()
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  @Post()
+  @RequirePermission('canManageWebhooks')
+  @ApiOperation({
+    summary: 'Register a webhook endpoint',
+    description:
+      'The response contains the signing secret, which is not returned again. Each delivery carries an X-Webhook-Signature header: sha256=HMAC-SHA256(secret, "<X-Webhook-Timestamp>.<raw body>") in hex',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Webhook created successfully',
+    type: WebhookResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - invalid URL or events',
+  })
+  async create(
+    @Body() createWebhookDto: CreateWebhookDto,
+    @Request() req: any,
+  ): Promise<WebhookResponseDto> {
+    return this.webhooksService.createWebhook(
+      createWebhookDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+  }
+
+  @Get()
+  @RequirePermission('canManageWebhooks')
+  @ApiOperation({ summary: 'List webhooks' })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhooks retrieved successfully',
+    type: [WebhookResponseDto],
+  })
+  async findAll(@Request() req: any): Promise<WebhookResponseDto[]> {
+    return this.webhooksService.findAllWebhooks(req.user.tenantId);
+  }
+
+  @Get(':id')
+  @RequirePermission('canManageWebhooks')
+  @ApiOperation({ summary: 'Get a webhook' })
+  @ApiParam({ name: 'id', description: 'Webhook ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhook retrieved successfully',
+    type: WebhookResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Webhook not found',
+  })
+  async findOne(
+    @Param('id') id: string,
+    @Request() req: any,
+  ): Promise<WebhookResponseDto> {
+    return this.webhooksService.findWebhookById(id, req.user.tenantId);
+  }
+
+  @Put(':id')
+  @RequirePermission('canManageWebhooks')
+  @ApiOperation({ summary: 'Update a webhook' })
+  @ApiParam({ name: 'id', description: 'Webhook ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhook updated successfully',
+    type: WebhookResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Webhook not found',
+  })
+  async update(
+    @Param('id') id: string,
+    @Body() updateWebhookDto: UpdateWebhookDto,
+    @Request() req: any,
+  ): Promise<WebhookResponseDto> {
+    return this.webhooksService.updateWebhook(
+      id,
+      updateWebhookDto,
+      req.user.tenantId,
+    );
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermission('canManageWebhooks')
+  @ApiOperation({ summary: 'Delete a webhook' })
+  @ApiParam({ name: 'id', description: 'Webhook ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhook deleted successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Webhook not found',
+  })
+  async remove(
+    @Param('id') id: string,
+    @Request() req: any,
+  ): Promise<{ message: string }> {
+    return this.webhooksService.deleteWebhook(id, req.user.tenantId);
+  }
+
+  @Post(':id/rotate-secret')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermission('canManageWebhooks')
+  @ApiOperation({
+    summary: 'Rotate the signing secret of a webhook',
+    description: 'The new secret is only returned in this response',
+  })
+  @ApiParam({ name: 'id', description: 'Webhook ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Secret rotated successfully',
+    type: WebhookResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Webhook not found',
+  })
+  async rotateSecret(
+    @Param('id') id: string,
+    @Request() req: any,
+  ): Promise<WebhookResponseDto> {
+    return this.webhooksService.rotateSecret(id, req.user.tenantId);
+  }
+
+  @Get(':id/deliveries')
+  @RequirePermission('canManageWebhooks')
+  @ApiOperation({ summary: 'List the deliveries of a webhook, newest first' })
+  @ApiParam({ name: 'id', description: 'Webhook ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Deliveries retrieved successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Webhook not found',
+  })
+  async findDeliveries(
+    @Param('id') id: string,
+    @Query() query: QueryWebhookDeliveriesDto,
+    @Request() req: any,
+  ) {
+    return this.webhooksService.findDeliveries(id, query, req.user.tenantId);
+  }
+
+  @Post('deliveries/:deliveryId/redeliver')
+  @RequirePermission('canManageWebhooks')
+  @ApiOperation({
+    summary: 'Send a delivery again',
+    description:
+      'Queues a new delivery with the same payload. The original delivery is left unchanged',
+  })
+  @ApiParam({ name: 'deliveryId', description: 'Webhook delivery ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Redelivery queued successfully',
+    type: WebhookDeliveryResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Webhook or delivery not found',
+  })
+  async redeliver(
+    @Param('deliveryId') deliveryId: string,
+    @Request() req: any,
+  ): Promise<WebhookDeliveryResponseDto> {
+    return this.webhooksService.redeliver(deliveryId, req.user.tenantId);
+  }
+}
@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { WebhooksController } from './webhooks.controller';
+import { WebhooksService } from './webhooks.service';
+import { WebhookDispatcher } from './webhook-dispatcher.service';
+import { RealtimeModule } from '../realtime/realtime.module';
+import {
+  WebhookSubscription,
+  WebhookSubscriptionSchema,
+} from '../database/schemas/webhook-subscription.schema';
+import {
+  WebhookDelivery,
+  WebhookDeliverySchema,
+} from '../database/schemas/webhook-delivery.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: WebhookSubscription.name, schema: WebhookSubscriptionSchema },
+      { name: WebhookDelivery.name, schema: WebhookDeliverySchema },
+    ]),
+    RealtimeModule,
+  ],
+  controllers: [WebhooksController],
+  providers: [WebhooksService, WebhookDispatcher],
+  exports: [WebhooksService],
+})
+export class WebhooksModule {}
@@ -0,0 +1,329 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { lookup } from 'dns/promises';
+import { Types } from 'mongoose';
+import { WebhooksService } from './webhooks.service';
+import { WebhookSubscription } from '../database/schemas/webhook-subscription.schema';
+import { WebhookDelivery } from '../database/schemas/webhook-delivery.schema';
+import { RealtimeGateway } from '../realtime/realtime.gateway';
+
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+
+describe('WebhooksService', () => {
+  let service: WebhooksService;
+
+  const tenantId = '507f1f77bcf86cd799439012';
+  const userId = '507f1f77bcf86cd799439013';
+  const webhookId = '507f1f77bcf86cd799439020';
+  const deliveryId = '507f1f77bcf86cd799439021';
+
+  const subscription = {
+    _id: new Types.ObjectId(webhookId),
+    url: 'https://example.com/hooks',
+    events: ['message.received'],
+    secret: 'whsec_existing',
+    isActive: true,
+    tenantId: new Types.ObjectId(tenantId),
+    createdBy: new Types.ObjectId(userId),
+  };
+
+  const delivery = {
+    _id: new Types.ObjectId(deliveryId),
+    subscriptionId: subscription._id,
+    tenantId: subscription.tenantId,
+    event: 'message.received',
+    payload: { event: 'message.received', data: { id: 'm1' } },
+    status: 'failed',
+    attempts: 8,
+  };
+
+  const execResult = (value: unknown) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const MockSubscriptionModel = jest
+    .fn()
+    .mockImplementation((data: object) => ({
+      save: jest
+        .fn()
+        .mockResolvedValue({ ...data, _id: new Types.ObjectId(webhookId) }),
+    })) as any;
+
+  const mockDeliveryModel = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    countDocuments: jest.fn(),
+    create: jest.fn(),
+    insertMany: jest.fn(),
+  };
+
+  const mockRealtimeGateway = {
+    emitToTenant: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    (lookup as unknown as jest.Mock).mockResolvedValue([
+      { address: '93.184.216.34', family: 4 },
+    ]);
+    MockSubscriptionModel.findOne = jest
+      .fn()
+      .mockReturnValue(execResult(subscription));
+    MockSubscriptionModel.find = jest.fn();
+    MockSubscriptionModel.findByIdAndUpdate = jest.fn();
+    mockDeliveryModel.findOne.mockReturnValue(execResult(delivery));
+    mockDeliveryModel.create.mockImplementation((data: object) =>
+      Promise.resolve({ ...data, _id: new Types.ObjectId() }),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhooksService,
+        {
+          provide: getModelToken(WebhookSubscription.name),
+          useValue: MockSubscriptionModel,
+        },
+        {
+          provide: getModelToken(WebhookDelivery.name),
+          useValue: mockDeliveryModel,
+        },
+        {
+          provide: RealtimeGateway,
+          useValue: mockRealtimeGateway,
+        },
+      ],
+    }).compile();
+
+    service = module.get<WebhooksService>(WebhooksService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('createWebhook', () => {
+    it('should generate a secret and return it once', async () => {
+      const result = await service.createWebhook(
+        { url: 'https://example.com/hooks', events: ['message.received'] },
+        tenantId,
+        userId,
+      );
+
+      expect(result.secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+      expect(result.isActive).toBe(true);
+      expect(MockSubscriptionModel).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: 'https://example.com/hooks',
+          events: ['message.received'],
+          secret: result.secret,
+        }),
+      );
+    });
+
+    it('should reject URLs that resolve to internal addresses', async () => {
+      (lookup as unknown as jest.Mock).mockResolvedValue([
+        { address: '93.184.216.34', family: 4 },
+        { address: '10.0.0.5', family: 4 },
+      ]);
+
+      await expect(
+        service.createWebhook(
+          {
+            url: 'https://internal.example.com/hooks',
+            events: ['message.received'],
+          },
+          tenantId,
+          userId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(MockSubscriptionModel).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateWebhook', () => {
+    it('should check a new URL before saving it', async () => {
+      (lookup as unknown as jest.Mock).mockResolvedValue([
+        { address: '169.254.169.254', family: 4 },
+      ]);
+
+      await expect(
+        service.updateWebhook(
+          webhookId,
+          { url: 'https://metadata.example.com/' },
+          tenantId,
+        ),
+      ).rejects.toThrow(
+        'Webhook host metadata.example.com does not resolve to a public address',
+      );
+      expect(MockSubscriptionModel.findByIdAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findWebhookById', () => {
+    it('should not expose the secret', async () => {
+      const result = await service.findWebhookById(webhookId, tenantId);
+
+      expect(result.id).toBe(webhookId);
+      expect(result.secret).toBeUndefined();
+    });
+
+    it('should throw NotFoundException for invalid IDs', async () => {
+      await expect(
+        service.findWebhookById('invalid-id', tenantId),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('rotateSecret', () => {
+    it('should replace the secret and return the new one', async () => {
+      MockSubscriptionModel.findByIdAndUpdate.mockImplementation(
+        (_id: Types.ObjectId, update: { secret: string }) =>
+          execResult({ ...subscription, ...update }),
+      );
+
+      const result = await service.rotateSecret(webhookId, tenantId);
+
+      expect(result.secret).toMatch(/^whsec_/);
+      expect(result.secret).not.toBe(subscription.secret);
+    });
+  });
+
+  describe('publish', () => {
+    it('should queue a delivery for each subscribed webhook', async () => {
+      const otherId = new Types.ObjectId();
+      MockSubscriptionModel.find.mockReturnValue({
+        select: jest
+          .fn()
+          .mockReturnValue(
+            execResult([{ _id: subscription._id }, { _id: otherId }]),
+          ),
+      });
+
+      const queued = await service.publish(tenantId, 'message.received', {
+        id: 'm1',
+      });
+
+      expect(queued).toBe(2);
+      expect(MockSubscriptionModel.find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          events: 'message.received',
+          isActive: true,
+          isDeleted: false,
+        }),
+      );
+      const [deliveries] = mockDeliveryModel.insertMany.mock.calls[0] as [
+        Record<string, any>[],
+      ];
+      expect(deliveries).toHaveLength(2);
+      expect(deliveries[0]).toMatchObject({
+        subscriptionId: subscription._id,
+        event: 'message.received',
+        status: 'pending',
+        payload: {
+          event: 'message.received',
+          tenantId,
+          data: { id: 'm1' },
+        },
+      });
+    });
+
+    it('should not queue anything without subscribers', async () => {
+      MockSubscriptionModel.find.mockReturnValue({
+        select: jest.fn().mockReturnValue(execResult([])),
+      });
+
+      const queued = await service.publish(tenantId, 'device.qr', {});
+
+      expect(queued).toBe(0);
+      expect(mockDeliveryModel.insertMany).not.toHaveBeenCalled();
+    });
+
+    it('should also queue deliveries for the given webhooks', async () => {
+      MockSubscriptionModel.find.mockReturnValue({
+        select: jest
+          .fn()
+          .mockReturnValue(execResult([{ _id: subscription._id }])),
+      });
+
+      const queued = await service.publish(
+        tenantId,
+        'auto_reply.triggered',
+        { ruleId: 'r1' },
+        [subscription._id],
+      );
+
+      expect(queued).toBe(1);
+      expect(MockSubscriptionModel.find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          $or: [
+            { events: 'auto_reply.triggered' },
+            { _id: { $in: [subscription._id] } },
+          ],
+        }),
+      );
+    });
+
+    it('should push the event to the tenant dashboards', async () => {
+      MockSubscriptionModel.find.mockReturnValue({
+        select: jest.fn().mockReturnValue(execResult([])),
+      });
+
+      await service.publish(tenantId, 'device.connected', { id: 'd1' });
+
+      expect(mockRealtimeGateway.emitToTenant).toHaveBeenCalledWith(tenantId, {
+        event: 'device.connected',
+        tenantId,
+        occurredAt: expect.any(String),
+        data: { id: 'd1' },
+      });
+    });
+
+    it('should swallow storage errors', async () => {
+      MockSubscriptionModel.find.mockReturnValue({
+        select: jest.fn().mockReturnValue({
+          exec: jest.fn().mockRejectedValue(new Error('Mongo down')),
+        }),
+      });
+
+      await expect(
+        service.publish(tenantId, 'message.received', {}),
+      ).resolves.toBe(0);
+    });
+  });
+
+  describe('redeliver', () => {
+    it('should queue a new delivery with the original payload', async () => {
+      const result = await service.redeliver(deliveryId, tenantId);
+
+      expect(mockDeliveryModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          subscriptionId: subscription._id,
+          payload: delivery.payload,
+          status: 'pending',
+          attempts: 0,
+          redeliveryOf: delivery._id,
+        }),
+      );
+      expect(result.redeliveryOf).toBe(deliveryId);
+      expect(result.status).toBe('pending');
+    });
+
+    it('should throw NotFoundException for unknown deliveries', async () => {
+      mockDeliveryModel.findOne.mockReturnValue(execResult(null));
+
+      await expect(service.redeliver(deliveryId, tenantId)).rejects.toThrow(
+        'Webhook delivery not found',
+      );
+    });
+
+    it('should throw NotFoundException when the webhook was deleted', async () => {
+      MockSubscriptionModel.findOne.mockReturnValue(execResult(null));
+
+      await expect(service.redeliver(deliveryId, tenantId)).rejects.toThrow(
+        'Webhook not found',
+      );
+      expect(mockDeliveryModel.create).not.toHaveBeenCalled();
+    });
+  });
+});
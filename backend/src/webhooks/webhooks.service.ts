@@ -0,0 +1,343 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  WebhookDelivery,
+  WebhookDeliveryDocument,
+} from '../database/schemas/webhook-delivery.schema';
+import {
+  WebhookSubscription,
+  WebhookSubscriptionDocument,
+} from '../database/schemas/webhook-subscription.schema';
+import { RealtimeGateway } from '../realtime/realtime.gateway';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { QueryWebhookDeliveriesDto } from './dto/query-webhook-deliveries.dto';
+import { UpdateWebhookDto } from './dto/update-webhook.dto';
+import {
+  WebhookDeliveryResponseDto,
+  WebhookResponseDto,
+} from './dto/webhook-response.dto';
+import { findWebhookUrlProblem } from './utils/webhook-url.util';
+import { generateWebhookSecret } from './utils/webhook-signature.util';
+import { WebhookEvent } from './webhook-events';
+
+@Injectable()
+export class WebhooksService {
+  private readonly logger = new Logger(WebhooksService.name);
+
+  constructor(
+    @InjectModel(WebhookSubscription.name)
+    private subscriptionModel: Model<WebhookSubscription>,
+    @InjectModel(WebhookDelivery.name)
+    private deliveryModel: Model<WebhookDelivery>,
+    private realtimeGateway: RealtimeGateway,
+  ) {}
+
+  async createWebhook(
+    createWebhookDto: CreateWebhookDto,
+    tenantId: string,
+    createdBy: string,
+  ): Promise<WebhookResponseDto> {
+    await this.assertDeliverableUrl(createWebhookDto.url);
+
+    const newSubscription = new this.subscriptionModel({
+      url: createWebhookDto.url,
+      description: createWebhookDto.description,
+      events: createWebhookDto.events,
+      secret: generateWebhookSecret(),
+      isActive: createWebhookDto.isActive ?? true,
+      tenantId: new Types.ObjectId(tenantId),
+      createdBy: new Types.ObjectId(createdBy),
+      isDeleted: false,
+    });
+
+    const savedSubscription = await newSubscription.save();
+    return this.mapToWebhookResponse(savedSubscription, true);
+  }
+
+  async findAllWebhooks(tenantId: string): Promise<WebhookResponseDto[]> {
+    const subscriptions = await this.subscriptionModel
+      .find({ tenantId: new Types.ObjectId(tenantId), isDeleted: false })
+      .sort({ createdAt: -1 })
+      .exec();
+
+    return subscriptions.map((subscription) =>
+      this.mapToWebhookResponse(subscription),
+    );
+  }
+
+  async findWebhookById(
+    id: string,
+    tenantId: string,
+  ): Promise<WebhookResponseDto> {
+    return this.mapToWebhookResponse(await this.findWebhook(id, tenantId));
+  }
+
+  async updateWebhook(
+    id: string,
+    updateWebhookDto: UpdateWebhookDto,
+    tenantId: string,
+  ): Promise<WebhookResponseDto> {
+    const subscription = await this.findWebhook(id, tenantId);
+    if (updateWebhookDto.url) {
+      await this.assertDeliverableUrl(updateWebhookDto.url);
+    }
+
+    const updatedSubscription = await this.subscriptionModel
+      .findByIdAndUpdate(subscription._id, updateWebhookDto, { new: true })
+      .exec();
+
+    return this.mapToWebhookResponse(updatedSubscription);
+  }
+
+  async deleteWebhook(
+    id: string,
+    tenantId: string,
+  ): Promise<{ message: string }> {
+    const subscription = await this.findWebhook(id, tenantId);
+    await this.subscriptionModel
+      .updateOne(
+        { _id: subscription._id },
+        { isDeleted: true, isActive: false },
+      )
+      .exec();
+
+    return { message: 'Webhook deleted successfully' };
+  }
+
+  /**
+   * Replaces the signing secret. Deliveries still waiting for a retry are
+   * signed with the new secret.
+   */
+  async rotateSecret(
+    id: string,
+    tenantId: string,
+  ): Promise<WebhookResponseDto> {
+    const subscription = await this.findWebhook(id, tenantId);
+
+    const updatedSubscription = await this.subscriptionModel
+      .findByIdAndUpdate(
+        subscription._id,
+        { secret: generateWebhookSecret() },
+        { new: true },
+      )
+      .exec();
+
+    return this.mapToWebhookResponse(updatedSubscription, true);
+  }
+
+  async findDeliveries(
+    id: string,
+    query: QueryWebhookDeliveriesDto,
+    tenantId: string,
+  ): Promise<{
+    deliveries: WebhookDeliveryResponseDto[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const subscription = await this.findWebhook(id, tenantId);
+    const { page = 1, limit = 20, status, event } = query;
+    const filter = {
+      subscriptionId: subscription._id,
+      ...(status && { status }),
+      ...(event && { event }),
+    };
+
+    const [deliveries, total] = await Promise.all([
+      this.deliveryModel
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.deliveryModel.countDocuments(filter).exec(),
+    ]);
+
+    return {
+      deliveries: deliveries.map((delivery) =>
+        this.mapToDeliveryResponse(delivery),
+      ),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Queues a fresh delivery with the payload of an earlier one, e.g. after
+   * the receiving endpoint was fixed. The original delivery is kept as is.
+   */
+  async redeliver(
+    deliveryId: string,
+    tenantId: string,
+  ): Promise<WebhookDeliveryResponseDto> {
+    if (!Types.ObjectId.isValid(deliveryId)) {
+      throw new NotFoundException('Webhook delivery not found');
+    }
+
+    const delivery = await this.deliveryModel
+      .findOne({
+        _id: new Types.ObjectId(deliveryId),
+        tenantId: new Types.ObjectId(tenantId),
+      })
+      .exec();
+
+    if (!delivery) {
+      throw new NotFoundException('Webhook delivery not found');
+    }
+
+    // The webhook must still exist, but may be paused
+    await this.findWebhook(delivery.subscriptionId.toString(), tenantId);
+
+    const redelivery = await this.deliveryModel.create({
+      subscriptionId: delivery.subscriptionId,
+      tenantId: delivery.tenantId,
+      event: delivery.event,
+      payload: delivery.payload,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: new Date(),
+      redeliveryOf: delivery._id,
+    });
+
+    return this.mapToDeliveryResponse(redelivery);
+  }
+
+  /**
+   * Pushes the event to the tenant's connected dashboards and queues a
+   * delivery for every active webhook of the tenant subscribed to it, and
+   * for the given webhooks whatever events they subscribe to. Never throws,
+   * so callers on the messaging path are not affected by webhook problems.
+   */
+  async publish(
+    tenantId: Types.ObjectId | string,
+    event: WebhookEvent,
+    data: object,
+    subscriptionIds: Types.ObjectId[] = [],
+  ): Promise<number> {
+    try {
+      const tenantObjectId = new Types.ObjectId(tenantId);
+      const now = new Date();
+      const payload = {
+        event,
+        tenantId: tenantObjectId.toString(),
+        occurredAt: now.toISOString(),
+        data,
+      };
+      this.realtimeGateway.emitToTenant(payload.tenantId, payload);
+
+      const subscriptions = await this.subscriptionModel
+        .find({
+          tenantId: tenantObjectId,
+          ...(subscriptionIds.length
+            ? { $or: [{ events: event }, { _id: { $in: subscriptionIds } }] }
+            : { events: event }),
+          isActive: true,
+          isDeleted: false,
+        })
+        .select('_id')
+        .exec();
+
+      if (!subscriptions.length) {
+        return 0;
+      }
+
+      await this.deliveryModel.insertMany(
+        subscriptions.map((subscription) => ({
+          subscriptionId: subscription._id,
+          tenantId: tenantObjectId,
+          event,
+          payload,
+          status: 'pending',
+          attempts: 0,
+          nextAttemptAt: now,
+        })),
+      );
+
+      return subscriptions.length;
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue ${event} webhooks for tenant ${tenantId.toString()}: ${(error as Error).message}`,
+      );
+      return 0;
+    }
+  }
+
+  private async assertDeliverableUrl(url: string): Promise<void> {
+    const problem = await findWebhookUrlProblem(url);
+    if (problem) {
+      throw new BadRequestException(problem);
+    }
+  }
+
+  private async findWebhook(
+    id: string,
+    tenantId: string,
+  ): Promise<WebhookSubscriptionDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Webhook not found');
+    }
+
+    const subscription = await this.subscriptionModel
+      .findOne({
+        _id: new Types.ObjectId(id),
+        tenantId: new Types.ObjectId(tenantId),
+        isDeleted: false,
+      })
+      .exec();
+
+    if (!subscription) {
+      throw new NotFoundException('Webhook not found');
+    }
+
+    return subscription;
+  }
+
+  private mapToWebhookResponse(
+    subscription: WebhookSubscriptionDocument,
+    includeSecret = false,
+  ): WebhookResponseDto {
+    return {
+      id: subscription._id.toString(),
+      url: subscription.url,
+      description: subscription.description,
+      events: subscription.events,
+      isActive: subscription.isActive,
+      ...(includeSecret && { secret: subscription.secret }),
+      lastDeliveryAt: subscription.lastDeliveryAt,
+      lastDeliveryStatus: subscription.lastDeliveryStatus,
+      tenantId: subscription.tenantId.toString(),
+      createdBy: subscription.createdBy.toString(),
+      createdAt: (subscription as any).createdAt,
+      updatedAt: (subscription as any).updatedAt,
+    };
+  }
+
+  private mapToDeliveryResponse(
+    delivery: WebhookDeliveryDocument,
+  ): WebhookDeliveryResponseDto {
+    return {
+      id: delivery._id.toString(),
+      subscriptionId: delivery.subscriptionId.toString(),
+      event: delivery.event,
+      payload: delivery.payload,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      nextAttemptAt: delivery.nextAttemptAt,
+      lastAttemptAt: delivery.lastAttemptAt,
+      responseStatus: delivery.responseStatus,
+      responseBody: delivery.responseBody,
+      durationMs: delivery.durationMs,
+      errorMessage: delivery.errorMessage,
+      deliveredAt: delivery.deliveredAt,
+      redeliveryOf: delivery.redeliveryOf?.toString(),
+      createdAt: (delivery as any).createdAt,
+    };
+  }
+}
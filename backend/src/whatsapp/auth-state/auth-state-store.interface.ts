@@ -0,0 +1,17 @@
+export const AUTH_STATE_STORE = 'AUTH_STATE_STORE';
+
+/**
+ * Key-value persistence for Baileys auth state, partitioned by session.
+ * Values are opaque (already encrypted) strings.
+ */
+export interface AuthStateStore {
+  readonly driver: string;
+  read(sessionId: string, key: string): Promise<string | null>;
+  readAll(sessionId: string): Promise<Record<string, string>>;
+  /** Writes all entries at once; `null` values remove the key. */
+  write(
+    sessionId: string,
+    entries: Record<string, string | null>,
+  ): Promise<void>;
+  clear(sessionId: string): Promise<void>;
+}
@@ -0,0 +1,59 @@
+import { ConfigService } from '@nestjs/config';
+import { AuthStateCipher } from './auth-state.cipher';
+
+describe('AuthStateCipher', () => {
+  const configService = {
+    get: jest.fn().mockReturnValue('test-encryption-key'),
+  } as unknown as ConfigService;
+
+  const tenantA = '507f1f77bcf86cd799439012';
+  const tenantB = '507f1f77bcf86cd799439099';
+
+  let cipher: AuthStateCipher;
+
+  beforeEach(() => {
+    cipher = new AuthStateCipher(configService);
+  });
+
+  it('should round-trip values for the same tenant', () => {
+    const payload = cipher.encrypt(tenantA, '{"me":{"id":"123"}}');
+
+    expect(payload).toMatch(/^v1:/);
+    expect(payload).not.toContain('123');
+    expect(cipher.decrypt(tenantA, payload)).toBe('{"me":{"id":"123"}}');
+  });
+
+  it('should use a random IV for every value', () => {
+    expect(cipher.encrypt(tenantA, 'same')).not.toBe(
+      cipher.encrypt(tenantA, 'same'),
+    );
+  });
+
+  it('should not decrypt values of another tenant', () => {
+    const payload = cipher.encrypt(tenantA, 'secret');
+
+    expect(() => cipher.decrypt(tenantB, payload)).toThrow();
+  });
+
+  it('should require an encryption key', () => {
+    const emptyConfig = {
+      get: jest.fn().mockReturnValue(''),
+    } as unknown as ConfigService;
+
+    expect(() => new AuthStateCipher(emptyConfig)).toThrow(
+      'WHATSAPP_AUTH_ENCRYPTION_KEY must be configured',
+    );
+  });
+
+  it('should refuse the example key from the docs', () => {
+    const exampleConfig = {
+      get: jest
+        .fn()
+        .mockReturnValue('your-auth-state-encryption-key-change-in-production'),
+    } as unknown as ConfigService;
+
+    expect(() => new AuthStateCipher(exampleConfig)).toThrow(
+      'WHATSAPP_AUTH_ENCRYPTION_KEY must be configured',
+    );
+  });
+});
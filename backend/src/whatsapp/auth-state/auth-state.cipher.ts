@@ -0,0 +1,79 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  createCipheriv,
+  createDecipheriv,
+  hkdfSync,
+  randomBytes,
+} from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const VERSION = 'v1';
+// The example value once shipped in the docs, known to everyone
+const PLACEHOLDER_SECRET =
+  'your-auth-state-encryption-key-change-in-production';
+
+/**
+ * AES-256-GCM encryption for auth-state values. Every tenant gets its own
+ * key, derived from the configured secret with HKDF, so one tenant's
+ * entries cannot be decrypted with another tenant's key.
+ */
+@Injectable()
+export class AuthStateCipher {
+  private readonly secret: string;
+  private readonly keys = new Map<string, Buffer>();
+
+  constructor(private configService: ConfigService) {
+    this.secret =
+      this.configService.get<string>('whatsapp.authState.encryptionKey') || '';
+    if (!this.secret || this.secret === PLACEHOLDER_SECRET) {
+      throw new Error('WHATSAPP_AUTH_ENCRYPTION_KEY must be configured');
+    }
+  }
+
+  encrypt(tenantId: string, plaintext: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(ALGORITHM, this.tenantKey(tenantId), iv);
+    const data = Buffer.concat([
+      cipher.update(plaintext, 'utf8'),
+      cipher.final(),
+    ]);
+
+    return [
+      VERSION,
+      iv.toString('base64'),
+      cipher.getAuthTag().toString('base64'),
+      data.toString('base64'),
+    ].join(':');
+  }
+
+  decrypt(tenantId: string, payload: string): string {
+    const [version, iv, tag, data] = payload.split(':');
+    if (version !== VERSION || !iv || !tag || !data) {
+      throw new Error('Unsupported auth state payload');
+    }
+
+    const decipher = createDecipheriv(
+      ALGORITHM,
+      this.tenantKey(tenantId),
+      Buffer.from(iv, 'base64'),
+    );
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(data, 'base64')),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
+  private tenantKey(tenantId: string): Buffer {
+    let key = this.keys.get(tenantId);
+    if (!key) {
+      key = Buffer.from(
+        hkdfSync('sha256', this.secret, tenantId, 'whatsapp-auth-state', 32),
+      );
+      this.keys.set(tenantId, key);
+    }
+    return key;
+  }
+}
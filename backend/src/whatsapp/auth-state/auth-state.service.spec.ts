@@ -0,0 +1,121 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { AuthStateService } from './auth-state.service';
+import { AuthStateCipher } from './auth-state.cipher';
+import { AUTH_STATE_STORE, AuthStateStore } from './auth-state-store.interface';
+
+class InMemoryAuthStateStore implements AuthStateStore {
+  readonly driver = 'memory';
+  readonly sessions = new Map<string, Map<string, string>>();
+
+  read(sessionId: string, key: string) {
+    return Promise.resolve(this.session(sessionId).get(key) ?? null);
+  }
+
+  readAll(sessionId: string) {
+    return Promise.resolve(Object.fromEntries(this.session(sessionId)));
+  }
+
+  write(sessionId: string, entries: Record<string, string | null>) {
+    for (const [key, value] of Object.entries(entries)) {
+      if (value === null) {
+        this.session(sessionId).delete(key);
+      } else {
+        this.session(sessionId).set(key, value);
+      }
+    }
+    return Promise.resolve();
+  }
+
+  clear(sessionId: string) {
+    this.sessions.delete(sessionId);
+    return Promise.resolve();
+  }
+
+  private session(sessionId: string) {
+    if (!this.sessions.has(sessionId)) {
+      this.sessions.set(sessionId, new Map());
+    }
+    return this.sessions.get(sessionId);
+  }
+}
+
+describe('AuthStateService', () => {
+  let service: AuthStateService;
+  let store: InMemoryAuthStateStore;
+
+  const tenantId = '507f1f77bcf86cd799439012';
+
+  beforeEach(async () => {
+    store = new InMemoryAuthStateStore();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthStateService,
+        AuthStateCipher,
+        { provide: AUTH_STATE_STORE, useValue: store },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue('test-encryption-key') },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AuthStateService>(AuthStateService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('useAuthState', () => {
+    it('should persist encrypted creds on saveCreds', async () => {
+      const { state, saveCreds } = await service.useAuthState(
+        'device_1',
+        tenantId,
+      );
+      expect(await service.hasCredentials('device_1')).toBe(false);
+
+      await saveCreds();
+
+      expect(await service.hasCredentials('device_1')).toBe(true);
+      const stored = await store.read('device_1', 'creds');
+      expect(stored).toMatch(/^v1:/);
+
+      const reloaded = await service.useAuthState('device_1', tenantId);
+      expect(reloaded.state.creds.registrationId).toBe(
+        state.creds.registrationId,
+      );
+    });
+
+    it('should store and remove signal keys', async () => {
+      const { state } = await service.useAuthState('device_1', tenantId);
+
+      await state.keys.set({
+        session: { '123:1.0': Buffer.from('session-data') as any },
+      });
+
+      expect(Object.keys(await store.readAll('device_1'))).toEqual([
+        'session-123-1.0',
+      ]);
+      const keys = await state.keys.get('session', ['123:1.0']);
+      expect(Buffer.from(keys['123:1.0'] as any).toString()).toBe(
+        'session-data',
+      );
+
+      await state.keys.set({ session: { '123:1.0': null } });
+      expect(await store.readAll('device_1')).toEqual({});
+    });
+  });
+
+  describe('copy', () => {
+    it('should copy all entries to the device session', async () => {
+      const { saveCreds } = await service.useAuthState('session_1', tenantId);
+      await saveCreds();
+
+      await service.copy('session_1', 'device_1');
+
+      expect(await service.hasCredentials('device_1')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  AuthenticationCreds,
+  AuthenticationState,
+  BufferJSON,
+  initAuthCreds,
+  proto,
+  SignalDataTypeMap,
+} from '@whiskeysockets/baileys';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { AuthStateCipher } from './auth-state.cipher';
+import { AUTH_STATE_STORE } from './auth-state-store.interface';
+import type { AuthStateStore } from './auth-state-store.interface';
+
+const CREDS_KEY = 'creds';
+
+/**
+ * Same naming as the files written by `useMultiFileAuthState`, so sessions
+ * from the old `sessions/<id>` folders can be imported as they are.
+ */
+function toStoreKey(type: string, id: string): string {
+  return `${type}-${id}`.replace(/\//g, '__').replace(/:/g, '-');
+}
+
+@Injectable()
+export class AuthStateService {
+  private readonly logger = new Logger(AuthStateService.name);
+
+  constructor(
+    @Inject(AUTH_STATE_STORE) private store: AuthStateStore,
+    private cipher: AuthStateCipher,
+  ) {}
+
+  /**
+   * Drop-in replacement for Baileys' `useMultiFileAuthState` backed by the
+   * configured store. Values are encrypted with the tenant key.
+   */
+  async useAuthState(
+    sessionId: string,
+    tenantId: string,
+  ): Promise<{ state: AuthenticationState; saveCreds: () => Promise<void> }> {
+    const read = async (key: string): Promise<any> => {
+      const payload = await this.store.read(sessionId, key);
+      return payload
+        ? JSON.parse(this.cipher.decrypt(tenantId, payload), BufferJSON.reviver)
+        : null;
+    };
+    const serialize = (value: unknown): string =>
+      this.cipher.encrypt(tenantId, JSON.stringify(value, BufferJSON.replacer));
+
+    const creds: AuthenticationCreds =
+      (await read(CREDS_KEY)) || initAuthCreds();
+
+    return {
+      state: {
+        creds,
+        keys: {
+          get: async <T extends keyof SignalDataTypeMap>(
+            type: T,
+            ids: string[],
+          ) => {
+            const data: { [id: string]: SignalDataTypeMap[T] } = {};
+            await Promise.all(
+              ids.map(async (id) => {
+                let value = await read(toStoreKey(String(type), id));
+                if (type === 'app-state-sync-key' && value) {
+                  value = proto.Message.AppStateSyncKeyData.fromObject(value);
+                }
+                data[id] = value;
+              }),
+            );
+            return data;
+          },
+          set: async (data) => {
+            const entries: Record<string, string | null> = {};
+            for (const [type, values] of Object.entries(data)) {
+              for (const [id, value] of Object.entries(values || {})) {
+                entries[toStoreKey(type, id)] = value ? serialize(value) : null;
+              }
+            }
+            await this.store.write(sessionId, entries);
+          },
+        },
+      },
+      saveCreds: () =>
+        this.store.write(sessionId, { [CREDS_KEY]: serialize(creds) }),
+    };
+  }
+
+  async hasCredentials(sessionId: string): Promise<boolean> {
+    return (await this.store.read(sessionId, CREDS_KEY)) !== null;
+  }
+
+  /**
+   * Copies the auth state of a pairing session to the session of the device
+   * created from it. Both belong to the same tenant, so values are copied
+   * without re-encryption.
+   */
+  async copy(fromSessionId: string, toSessionId: string): Promise<void> {
+    const entries = await this.store.readAll(fromSessionId);
+    await this.store.write(toSessionId, entries);
+  }
+
+  async clear(sessionId: string): Promise<void> {
+    await this.store.clear(sessionId);
+  }
+
+  /**
+   * Imports a session from the legacy `sessions/<sessionId>` folder written
+   * by `useMultiFileAuthState`. Returns false when there is nothing to import.
+   */
+  async importLegacySession(
+    sessionId: string,
+    tenantId: string,
+  ): Promise<boolean> {
+    const sessionDir = path.join(process.cwd(), 'sessions', sessionId);
+
+    let files: string[];
+    try {
+      files = await fs.readdir(sessionDir);
+    } catch {
+      return false;
+    }
+    if (!files.includes(`${CREDS_KEY}.json`)) {
+      return false;
+    }
+
+    const entries: Record<string, string> = {};
+    for (const file of files.filter((name) => name.endsWith('.json'))) {
+      const content = await fs.readFile(path.join(sessionDir, file), 'utf8');
+      entries[file.slice(0, -'.json'.length)] = this.cipher.encrypt(
+        tenantId,
+        content,
+      );
+    }
+
+    await this.store.write(sessionId, entries);
+    this.logger.log(
+      `Imported ${Object.keys(entries).length} auth state entries for ${sessionId} into ${this.store.driver} store`,
+    );
+    return true;
+  }
+}
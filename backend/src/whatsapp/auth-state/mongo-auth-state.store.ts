@@ -0,0 +1,56 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { AuthStateEntry } from '../../database/schemas/auth-state-entry.schema';
+import { AuthStateStore } from './auth-state-store.interface';
+
+@Injectable()
+export class MongoAuthStateStore implements AuthStateStore {
+  readonly driver = 'mongo';
+
+  constructor(
+    @InjectModel(AuthStateEntry.name)
+    private authStateEntryModel: Model<AuthStateEntry>,
+  ) {}
+
+  async read(sessionId: string, key: string): Promise<string | null> {
+    const entry = await this.authStateEntryModel
+      .findOne({ sessionId, key })
+      .lean()
+      .exec();
+    return entry?.value ?? null;
+  }
+
+  async readAll(sessionId: string): Promise<Record<string, string>> {
+    const entries = await this.authStateEntryModel
+      .find({ sessionId })
+      .lean()
+      .exec();
+    return Object.fromEntries(entries.map((entry) => [entry.key, entry.value]));
+  }
+
+  async write(
+    sessionId: string,
+    entries: Record<string, string | null>,
+  ): Promise<void> {
+    const operations = Object.entries(entries).map(([key, value]) =>
+      value === null
+        ? { deleteOne: { filter: { sessionId, key } } }
+        : {
+            updateOne: {
+              filter: { sessionId, key },
+              update: { $set: { value } },
+              upsert: true,
+            },
+          },
+    );
+
+    if (operations.length) {
+      await this.authStateEntryModel.bulkWrite(operations, { ordered: false });
+    }
+  }
+
+  async clear(sessionId: string): Promise<void> {
+    await this.authStateEntryModel.deleteMany({ sessionId }).exec();
+  }
+}
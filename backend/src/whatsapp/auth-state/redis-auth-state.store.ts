@@ -0,0 +1,45 @@
+import { Inject, Injectable } from '@nestjs/common';
+import Redis from 'ioredis';
+import { REDIS_CLIENT } from '../../redis/redis.constants';
+import { AuthStateStore } from './auth-state-store.interface';
+
+@Injectable()
+export class RedisAuthStateStore implements AuthStateStore {
+  readonly driver = 'redis';
+
+  constructor(@Inject(REDIS_CLIENT) private readonly redis: Redis) {}
+
+  async read(sessionId: string, key: string): Promise<string | null> {
+    return this.redis.hget(this.hashKey(sessionId), key);
+  }
+
+  async readAll(sessionId: string): Promise<Record<string, string>> {
+    return this.redis.hgetall(this.hashKey(sessionId));
+  }
+
+  async write(
+    sessionId: string,
+    entries: Record<string, string | null>,
+  ): Promise<void> {
+    const hashKey = this.hashKey(sessionId);
+    const pipeline = this.redis.multi();
+
+    for (const [key, value] of Object.entries(entries)) {
+      if (value === null) {
+        pipeline.hdel(hashKey, key);
+      } else {
+        pipeline.hset(hashKey, key, value);
+      }
+    }
+
+    await pipeline.exec();
+  }
+
+  async clear(sessionId: string): Promise<void> {
+    await this.redis.del(this.hashKey(sessionId));
+  }
+
+  private hashKey(sessionId: string): string {
+    return `whatsapp:auth-state:${sessionId}`;
+  }
+}
@@ -1,5 +1,13 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsNotEmpty, IsOptional, IsBoolean } from 'class-validator';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsBoolean,
+  IsIn,
+} from 'class-validator';
+import { WHATSAPP_ENGINES } from '../engines/whatsapp-engine.interface';
+import type { WhatsAppEngineName } from '../engines/whatsapp-engine.interface';
 
 export class CreateDeviceDto {
   @ApiProperty({
@@ -27,4 +35,16 @@ export class CreateDeviceDto {
   @IsOptional()
   @IsBoolean({ message: 'isActive must be a boolean' })
   isActive?: boolean;
+
+  @ApiProperty({
+    description:
+      'WhatsApp engine to run the device on (defaults to the configured engine)',
+    enum: WHATSAPP_ENGINES,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(WHATSAPP_ENGINES, {
+    message: `Engine must be one of: ${WHATSAPP_ENGINES.join(', ')}`,
+  })
+  engine?: WhatsAppEngineName;
 }
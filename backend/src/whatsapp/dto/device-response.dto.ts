@@ -1,4 +1,6 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { WHATSAPP_ENGINES } from '../engines/whatsapp-engine.interface';
+import type { WhatsAppEngineName } from '../engines/whatsapp-engine.interface';
 
 export class DeviceResponseDto {
   @ApiProperty({
@@ -27,6 +29,13 @@ export class DeviceResponseDto {
   })
   status: string;
 
+  @ApiProperty({
+    description: 'WhatsApp engine the device runs on',
+    example: 'waha',
+    enum: WHATSAPP_ENGINES,
+  })
+  engine: WhatsAppEngineName;
+
   @ApiProperty({
     description: 'Whether the device is active',
     example: true,
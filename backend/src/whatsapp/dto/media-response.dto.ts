@@ -0,0 +1,57 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class MediaResponseDto {
+  @ApiProperty({
+    description: 'Media ID (use as mediaId when sending messages)',
+    example: '507f1f77bcf86cd799439011',
+  })
+  id: string;
+
+  @ApiProperty({ description: 'File name', example: 'invoice.pdf' })
+  fileName: string;
+
+  @ApiProperty({ description: 'MIME type', example: 'application/pdf' })
+  mimetype: string;
+
+  @ApiProperty({ description: 'File size in bytes', example: 24576 })
+  size: number;
+
+  @ApiProperty({
+    description: 'SHA-256 checksum (hex)',
+    example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
+  })
+  checksum: string;
+
+  @ApiProperty({
+    description: 'Where the media came from',
+    example: 'upload',
+    enum: ['upload', 'inbound'],
+  })
+  source: string;
+
+  @ApiProperty({
+    description: 'User who uploaded the file',
+    example: '507f1f77bcf86cd799439012',
+    required: false,
+  })
+  uploadedBy?: string;
+
+  @ApiProperty({
+    description: 'Inbound message the media belongs to',
+    example: '507f1f77bcf86cd799439013',
+    required: false,
+  })
+  messageId?: string;
+
+  @ApiProperty({
+    description: 'Tenant ID',
+    example: '507f1f77bcf86cd799439014',
+  })
+  tenantId: string;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2024-01-15T10:30:00.000Z',
+  })
+  createdAt: Date;
+}
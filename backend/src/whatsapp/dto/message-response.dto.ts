@@ -20,6 +20,27 @@ export class MessageResponseDto {
   })
   phoneNumber: string;
 
+  @ApiProperty({
+    description: 'Whether the message was received or sent',
+    example: 'outbound',
+    enum: ['inbound', 'outbound'],
+  })
+  direction: 'inbound' | 'outbound';
+
+  @ApiProperty({
+    description: 'Author JID (group participant for inbound group messages)',
+    example: '1234567890@s.whatsapp.net',
+    required: false,
+  })
+  senderJid?: string;
+
+  @ApiProperty({
+    description: 'Sender display name for inbound messages',
+    example: 'John',
+    required: false,
+  })
+  pushName?: string;
+
   @ApiProperty({
     description: 'Message type',
     example: 'text',
@@ -47,6 +68,13 @@ export class MessageResponseDto {
   })
   groupId?: string;
 
+  @ApiProperty({
+    description: 'Conversation the message belongs to',
+    example: '507f1f77bcf86cd799439017',
+    required: false,
+  })
+  conversationId?: string;
+
   @ApiProperty({
     description: 'Reply to message ID',
     example: '507f1f77bcf86cd799439014',
@@ -70,7 +98,15 @@ export class MessageResponseDto {
   @ApiProperty({
     description: 'Message status',
     example: 'sent',
-    enum: ['pending', 'sent', 'delivered', 'read', 'failed'],
+    enum: [
+      'scheduled',
+      'pending',
+      'sent',
+      'delivered',
+      'read',
+      'failed',
+      'cancelled',
+    ],
   })
   status: string;
 
@@ -119,4 +155,32 @@ export class MessageResponseDto {
     required: false,
   })
   readAt?: Date;
+
+  @ApiProperty({
+    description: 'Time the message is scheduled for',
+    example: '2024-01-20T08:00:00.000Z',
+    required: false,
+  })
+  scheduledAt?: Date;
+
+  @ApiProperty({
+    description: 'Time zone the schedule was entered in',
+    example: 'Europe/Berlin',
+    required: false,
+  })
+  scheduledTimeZone?: string;
+
+  @ApiProperty({
+    description: 'Template the message was rendered from',
+    example: '507f1f77bcf86cd799439016',
+    required: false,
+  })
+  templateId?: string;
+
+  @ApiProperty({
+    description: 'Template version the message was rendered from',
+    example: 2,
+    required: false,
+  })
+  templateVersion?: number;
 }
@@ -0,0 +1,56 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsEnum,
+  IsMongoId,
+  IsNumber,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class QueryScheduledMessagesDto {
+  @ApiProperty({
+    description: 'Page number for pagination',
+    example: 1,
+    default: 1,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'Page must be a number' })
+  @Min(1, { message: 'Page must be at least 1' })
+  page?: number = 1;
+
+  @ApiProperty({
+    description: 'Number of items per page',
+    example: 20,
+    default: 20,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'Limit must be a number' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit cannot exceed 100' })
+  limit?: number = 20;
+
+  @ApiProperty({
+    description: 'Device ID to filter messages',
+    example: '507f1f77bcf86cd799439011',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId({ message: 'Device ID must be a valid ID' })
+  deviceId?: string;
+
+  @ApiProperty({
+    description: 'Show scheduled or cancelled messages',
+    enum: ['scheduled', 'cancelled'],
+    default: 'scheduled',
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(['scheduled', 'cancelled'], { message: 'Invalid status' })
+  status?: 'scheduled' | 'cancelled' = 'scheduled';
+}
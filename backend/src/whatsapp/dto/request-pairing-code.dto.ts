@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, Matches } from 'class-validator';
+
+export class RequestPairingCodeDto {
+  @ApiProperty({
+    description:
+      'Phone number of the WhatsApp account to link (with country code)',
+    example: '+1234567890',
+  })
+  @IsString({ message: 'Phone number must be a string' })
+  @IsNotEmpty({ message: 'Phone number is required' })
+  @Matches(/^\+?[\d\s()-]{7,20}$/, {
+    message: 'Phone number must be in international format, e.g. +1234567890',
+  })
+  phoneNumber: string;
+}
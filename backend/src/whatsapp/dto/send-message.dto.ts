@@ -1,10 +1,21 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
 import {
   IsString,
   IsNotEmpty,
   IsOptional,
   IsArray,
+  IsBoolean,
   IsEnum,
+  IsISO8601,
+  IsInt,
+  IsLatitude,
+  IsLongitude,
+  IsMongoId,
+  IsObject,
+  Min,
+  ValidateIf,
+  ValidateNested,
 } from 'class-validator';
 
 export enum MessageType {
@@ -17,6 +28,58 @@ export enum MessageType {
   CONTACT = 'contact',
 }
 
+export class MessageLocationDto {
+  @ApiProperty({ description: 'Latitude', example: 52.520008 })
+  @IsLatitude({ message: 'Latitude must be a valid latitude' })
+  latitude: number;
+
+  @ApiProperty({ description: 'Longitude', example: 13.404954 })
+  @IsLongitude({ message: 'Longitude must be a valid longitude' })
+  longitude: number;
+
+  @ApiProperty({
+    description: 'Location name',
+    example: 'Head office',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'Location name must be a string' })
+  name?: string;
+
+  @ApiProperty({
+    description: 'Location address',
+    example: 'Alexanderplatz 1, Berlin',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'Location address must be a string' })
+  address?: string;
+}
+
+export class MessageContactDto {
+  @ApiProperty({ description: 'Contact full name', example: 'John Doe' })
+  @IsString({ message: 'Contact name must be a string' })
+  @IsNotEmpty({ message: 'Contact name is required' })
+  fullName: string;
+
+  @ApiProperty({
+    description: 'Contact phone number (with country code)',
+    example: '+1234567890',
+  })
+  @IsString({ message: 'Contact phone number must be a string' })
+  @IsNotEmpty({ message: 'Contact phone number is required' })
+  phoneNumber: string;
+
+  @ApiProperty({
+    description: 'Contact organization',
+    example: 'Acme Inc.',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'Contact organization must be a string' })
+  organization?: string;
+}
+
 export class SendMessageDto {
   @ApiProperty({
     description: 'Device ID to send message from',
@@ -35,17 +98,26 @@ export class SendMessageDto {
   phoneNumber: string;
 
   @ApiProperty({
-    description: 'Message type',
+    description: 'Message type. Taken from the template when templateId is set',
     example: 'text',
     enum: MessageType,
   })
+  @ValidateIf((o: SendMessageDto) => !o.templateId)
   @IsEnum(MessageType, { message: 'Invalid message type' })
   messageType: MessageType;
 
   @ApiProperty({
-    description: 'Message content (text for text messages, URL for media)',
+    description:
+      'Message content (text for text messages, URL for media). Optional for location and contact messages and when mediaId or templateId is set',
     example: 'Hello! This is a test message.',
   })
+  @ValidateIf(
+    (o: SendMessageDto) =>
+      !o.templateId &&
+      !o.mediaId &&
+      o.messageType !== MessageType.LOCATION &&
+      o.messageType !== MessageType.CONTACT,
+  )
   @IsString({ message: 'Message content must be a string' })
   @IsNotEmpty({ message: 'Message content is required' })
   content: string;
@@ -59,6 +131,53 @@ export class SendMessageDto {
   @IsString({ message: 'Caption must be a string' })
   caption?: string;
 
+  @ApiProperty({
+    description: 'Uploaded media ID (for media messages, instead of a URL)',
+    example: '507f1f77bcf86cd799439015',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId({ message: 'Media ID must be a valid ID' })
+  mediaId?: string;
+
+  @ApiProperty({
+    description: 'File name (for document messages)',
+    example: 'invoice.pdf',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'File name must be a string' })
+  fileName?: string;
+
+  @ApiProperty({
+    description: 'Media MIME type (for media messages)',
+    example: 'application/pdf',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'MIME type must be a string' })
+  mimetype?: string;
+
+  @ApiProperty({
+    description: 'Coordinates (for location messages)',
+    type: MessageLocationDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => MessageLocationDto)
+  location?: MessageLocationDto;
+
+  @ApiProperty({
+    description: 'Contact card (for contact messages)',
+    type: MessageContactDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => MessageContactDto)
+  contact?: MessageContactDto;
+
   @ApiProperty({
     description: 'Group ID (if sending to a group)',
     example: '507f1f77bcf86cd799439012',
@@ -87,6 +206,47 @@ export class SendMessageDto {
   @IsString({ each: true, message: 'Each phone number must be a string' })
   mentionedPhoneNumbers?: string[];
 
+  @ApiProperty({
+    description:
+      'Message template to send. Its message replaces messageType, content, caption and media',
+    example: '507f1f77bcf86cd799439016',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId({ message: 'Template ID must be a valid ID' })
+  templateId?: string;
+
+  @ApiProperty({
+    description: 'Template version to send, defaults to the latest',
+    example: 2,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Template version must be an integer' })
+  @Min(1, { message: 'Template version must be at least 1' })
+  templateVersion?: number;
+
+  @ApiProperty({
+    description:
+      'Template variables. Fields of the contact with the recipient phone number are filled in automatically and can be overridden here',
+    example: { orderNumber: 'A-1001' },
+    required: false,
+  })
+  @IsOptional()
+  @IsObject({ message: 'Variables must be an object' })
+  variables?: Record<string, string>;
+
+  @ApiProperty({
+    description:
+      'Transactional messages (order updates, one-to-one replies) are also sent to numbers that opted out. Ignored for campaigns',
+    example: false,
+    default: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'Transactional must be a boolean' })
+  transactional?: boolean;
+
   @ApiProperty({
     description: 'Whether to send as broadcast message',
     example: false,
@@ -94,4 +254,27 @@ export class SendMessageDto {
   })
   @IsOptional()
   broadcast?: boolean;
+
+  @ApiProperty({
+    description:
+      'Schedule the message instead of sending it now. Times without an offset are in the tenant time zone',
+    example: '2024-01-20T09:00:00',
+    required: false,
+  })
+  @IsOptional()
+  @IsISO8601(
+    { strict: true },
+    { message: 'Scheduled time must be a valid ISO 8601 date' },
+  )
+  scheduledAt?: string;
+
+  @ApiProperty({
+    description:
+      'IANA time zone for scheduledAt, overriding the tenant time zone',
+    example: 'Europe/Berlin',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'Time zone must be a string' })
+  timeZone?: string;
 }
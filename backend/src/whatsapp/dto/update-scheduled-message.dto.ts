@@ -0,0 +1,56 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsISO8601,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateIf,
+} from 'class-validator';
+
+export class UpdateScheduledMessageDto {
+  @ApiProperty({
+    description:
+      'New scheduled time. Times without an offset are in the tenant time zone',
+    example: '2024-01-20T09:00:00',
+    required: false,
+  })
+  // Required when the time zone changes
+  @ValidateIf(
+    (dto: UpdateScheduledMessageDto) =>
+      dto.scheduledAt !== undefined || !!dto.timeZone,
+  )
+  @IsISO8601(
+    { strict: true },
+    { message: 'Scheduled time must be a valid ISO 8601 date' },
+  )
+  scheduledAt?: string;
+
+  @ApiProperty({
+    description:
+      'IANA time zone for scheduledAt, overriding the tenant time zone',
+    example: 'Europe/Berlin',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'Time zone must be a string' })
+  timeZone?: string;
+
+  @ApiProperty({
+    description: 'New message content',
+    example: 'Hello! Our sale starts today.',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'Content must be a string' })
+  @IsNotEmpty({ message: 'Content cannot be empty' })
+  content?: string;
+
+  @ApiProperty({
+    description: 'New caption (for media messages)',
+    example: 'Check out this image!',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'Caption must be a string' })
+  caption?: string;
+}
@@ -0,0 +1,306 @@
+import { EventEmitter } from 'events';
+import { Types } from 'mongoose';
+import { makeWASocket } from '@whiskeysockets/baileys';
+import { AuthStateService } from '../../auth-state/auth-state.service';
+import { EngineEventsService } from '../engine-events.service';
+import { BaileysEngine } from './baileys.engine';
+
+jest.mock('@whiskeysockets/baileys', () => ({
+  makeWASocket: jest.fn(),
+  fetchLatestBaileysVersion: jest.fn().mockResolvedValue({
+    version: [2, 3000, 0],
+  }),
+  isJidBroadcast: jest.fn(),
+  downloadMediaMessage: jest.fn(),
+  DisconnectReason: { loggedOut: 401, timedOut: 408, restartRequired: 515 },
+}));
+
+interface MockSocket {
+  ev: EventEmitter;
+  user?: { id: string };
+  sendMessage: jest.Mock;
+  requestPairingCode: jest.Mock;
+  logout: jest.Mock;
+  end: jest.Mock;
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const closedWith = (statusCode: number) => ({
+  connection: 'close',
+  lastDisconnect: { error: { output: { statusCode } } },
+});
+
+describe('BaileysEngine', () => {
+  const device = {
+    _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+    deviceId: 'device_1',
+    tenantId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+  };
+
+  let sockets: MockSocket[];
+  let engine: BaileysEngine;
+
+  const mockAuthStateService = {
+    useAuthState: jest.fn(),
+    hasCredentials: jest.fn(),
+    importLegacySession: jest.fn(),
+    clear: jest.fn(),
+  };
+
+  const mockEngineEvents = {
+    findDevice: jest.fn(),
+    handleQRCode: jest.fn(),
+    handleConnectionUpdate: jest.fn(),
+    handleMessage: jest.fn(),
+    handleStatusUpdate: jest.fn(),
+    handleGroupParticipants: jest.fn(),
+  };
+
+  /** Starts `connect` and waits until its socket exists. */
+  const startConnect = async () => {
+    const result = engine.connect(device);
+    await flush();
+    return { result, sock: sockets[sockets.length - 1] };
+  };
+
+  /** Connects and opens the socket as `1234567890`. */
+  const connectOpen = async () => {
+    const { result, sock } = await startConnect();
+    sock.user = { id: '1234567890:12@s.whatsapp.net' };
+    sock.ev.emit('connection.update', { connection: 'open' });
+    await result;
+    return sock;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    sockets = [];
+    (makeWASocket as jest.Mock).mockImplementation(() => {
+      const sock: MockSocket = {
+        ev: new EventEmitter(),
+        sendMessage: jest.fn(),
+        requestPairingCode: jest.fn().mockResolvedValue('ABCD1234'),
+        logout: jest.fn().mockResolvedValue(undefined),
+        end: jest.fn(),
+      };
+      sockets.push(sock);
+      return sock;
+    });
+    mockAuthStateService.useAuthState.mockResolvedValue({
+      state: {},
+      saveCreds: jest.fn(),
+    });
+    mockEngineEvents.findDevice.mockResolvedValue(device);
+
+    engine = new BaileysEngine(
+      mockAuthStateService as unknown as AuthStateService,
+      mockEngineEvents as unknown as EngineEventsService,
+    );
+  });
+
+  describe('connect', () => {
+    it('should resolve connecting with the QR code waiting for a scan', async () => {
+      const { result, sock } = await startConnect();
+      sock.ev.emit('connection.update', { qr: '2@abc' });
+
+      await expect(result).resolves.toEqual({ status: 'connecting' });
+      await expect(engine.getQRCode(device)).resolves.toBe('2@abc');
+      expect(mockAuthStateService.useAuthState).toHaveBeenCalledWith(
+        'device_1',
+        device.tenantId.toString(),
+      );
+      expect(mockEngineEvents.handleQRCode).toHaveBeenCalledWith(
+        device,
+        '2@abc',
+      );
+    });
+
+    it('should report the phone number once the connection opens', async () => {
+      await connectOpen();
+
+      await expect(engine.getState(device)).resolves.toEqual({
+        status: 'connected',
+        phoneNumber: '+1234567890',
+      });
+      expect(mockEngineEvents.handleConnectionUpdate).toHaveBeenCalledWith(
+        device,
+        { status: 'connected', phoneNumber: '+1234567890' },
+      );
+    });
+
+    it('should reuse an existing session', async () => {
+      await connectOpen();
+
+      await expect(engine.connect(device)).resolves.toMatchObject({
+        status: 'connected',
+      });
+      expect(makeWASocket).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('requestPairingCode', () => {
+    it('should request the code while a QR code is pending', async () => {
+      const { result, sock } = await startConnect();
+      sock.ev.emit('connection.update', { qr: '2@abc' });
+      await result;
+
+      await expect(
+        engine.requestPairingCode(device, '1234567890'),
+      ).resolves.toBe('ABCD1234');
+      expect(sock.requestPairingCode).toHaveBeenCalledWith('1234567890');
+    });
+
+    it('should fail once the device is connected', async () => {
+      await connectOpen();
+
+      await expect(
+        engine.requestPairingCode(device, '1234567890'),
+      ).rejects.toThrow('Device is not waiting for pairing');
+    });
+  });
+
+  describe('connection close', () => {
+    it('should reopen the socket when a restart is required', async () => {
+      const first = await connectOpen();
+
+      first.ev.emit('connection.update', closedWith(515));
+      await flush();
+      await flush();
+
+      expect(makeWASocket).toHaveBeenCalledTimes(2);
+      await expect(engine.getState(device)).resolves.toMatchObject({
+        status: 'connecting',
+      });
+      expect(mockEngineEvents.handleConnectionUpdate).not.toHaveBeenCalledWith(
+        device,
+        { status: 'disconnected' },
+        expect.anything(),
+      );
+    });
+
+    it('should clear the auth state when logged out', async () => {
+      const sock = await connectOpen();
+
+      sock.ev.emit('connection.update', closedWith(401));
+      await flush();
+
+      expect(mockAuthStateService.clear).toHaveBeenCalledWith('device_1');
+      expect(mockEngineEvents.handleConnectionUpdate).toHaveBeenCalledWith(
+        device,
+        { status: 'disconnected' },
+        'Logged out from WhatsApp',
+      );
+      await expect(engine.getState(device)).resolves.toEqual({
+        status: 'disconnected',
+      });
+    });
+
+    it('should give up on a QR code that was not scanned', async () => {
+      const { result, sock } = await startConnect();
+      sock.ev.emit('connection.update', { qr: '2@abc' });
+      await result;
+
+      sock.ev.emit('connection.update', closedWith(408));
+      await flush();
+
+      expect(mockEngineEvents.handleConnectionUpdate).toHaveBeenCalledWith(
+        device,
+        { status: 'disconnected' },
+        'QR code was not scanned in time',
+      );
+      expect(makeWASocket).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('sendMessage', () => {
+    const outbound = {
+      payload: { text: 'Hello' },
+      content: 'Hello',
+      metadata: {},
+    };
+
+    it('should fail while the device is not connected', async () => {
+      await expect(
+        engine.sendMessage(device, '1234567890@s.whatsapp.net', outbound),
+      ).rejects.toThrow('Device session not found');
+    });
+
+    it('should send the payload and return the message ID', async () => {
+      const sock = await connectOpen();
+      sock.sendMessage.mockResolvedValue({ key: { id: 'MSG1' } });
+
+      const result = await engine.sendMessage(
+        device,
+        '1234567890@s.whatsapp.net',
+        outbound,
+      );
+
+      expect(result).toEqual({ whatsappMessageId: 'MSG1' });
+      expect(sock.sendMessage).toHaveBeenCalledWith(
+        '1234567890@s.whatsapp.net',
+        { text: 'Hello' },
+      );
+    });
+  });
+
+  it('should report incoming messages and receipts', async () => {
+    const sock = await connectOpen();
+
+    sock.ev.emit('messages.upsert', {
+      messages: [
+        {
+          key: { remoteJid: '1987654321@s.whatsapp.net', id: 'MSG2' },
+          message: { conversation: 'Hi' },
+        },
+      ],
+    });
+    sock.ev.emit('message-receipt.update', [
+      {
+        key: {
+          remoteJid: '120363025123456789@g.us',
+          id: 'MSG1',
+          fromMe: true,
+        },
+        receipt: {
+          userJid: '1987654321@s.whatsapp.net',
+          readTimestamp: 1705314600,
+        },
+      },
+    ]);
+    await flush();
+
+    expect(mockEngineEvents.handleMessage).toHaveBeenCalledWith(
+      device,
+      expect.objectContaining({ whatsappMessageId: 'MSG2', content: 'Hi' }),
+    );
+    expect(mockEngineEvents.handleStatusUpdate).toHaveBeenCalledWith(
+      device,
+      expect.objectContaining({ whatsappMessageId: 'MSG1', status: 'read' }),
+    );
+  });
+
+  it('should ignore events of a socket that was logged out', async () => {
+    const sock = await connectOpen();
+    jest.clearAllMocks();
+
+    await engine.logout(device);
+    sock.ev.emit('connection.update', closedWith(401));
+    await flush();
+
+    expect(sock.logout).toHaveBeenCalled();
+    expect(mockAuthStateService.clear).toHaveBeenCalledWith('device_1');
+    expect(mockEngineEvents.handleConnectionUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should import legacy credentials when none are stored', async () => {
+    mockAuthStateService.hasCredentials.mockResolvedValue(false);
+    mockAuthStateService.importLegacySession.mockResolvedValue(true);
+
+    await expect(engine.hasSession(device)).resolves.toBe(true);
+    expect(mockAuthStateService.importLegacySession).toHaveBeenCalledWith(
+      'device_1',
+      device.tenantId.toString(),
+    );
+  });
+});
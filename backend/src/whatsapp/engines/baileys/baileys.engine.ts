@@ -0,0 +1,402 @@
+import { Boom } from '@hapi/boom';
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  ConnectionState,
+  DisconnectReason,
+  downloadMediaMessage,
+  fetchLatestBaileysVersion,
+  isJidBroadcast,
+  makeWASocket,
+  WASocket,
+} from '@whiskeysockets/baileys';
+import { WhatsAppSessionDocument } from '../../../database/schemas/whatsapp-session.schema';
+import { AuthStateService } from '../../auth-state/auth-state.service';
+import {
+  mapBaileysMessage,
+  mapBaileysReceipt,
+  mapBaileysStatusUpdate,
+} from '../../mappers/baileys-message.mapper';
+import { OutboundMessage } from '../../mappers/outbound-message.mapper';
+import { jidToPhoneNumber } from '../../utils/jid.util';
+import { EngineEventsService } from '../engine-events.service';
+import {
+  EngineConnectionStatus,
+  EngineDevice,
+  EngineSendResult,
+  EngineSessionState,
+  WhatsAppEngine,
+} from '../whatsapp-engine.interface';
+
+const CONNECT_TIMEOUT_MS = 60_000;
+const MAX_RECONNECT_RETRIES = 5;
+
+interface BaileysSession {
+  sock: WASocket;
+  status: EngineConnectionStatus;
+  qr?: string; // Latest QR while waiting for a scan
+  retries: number;
+  settled: Promise<void>; // Resolves on the first QR, open or close
+  settle: () => void;
+}
+
+/**
+ * Runs devices on Baileys sockets inside this process. Auth state lives in
+ * the configured auth state store; dropped connections are reopened with
+ * exponential backoff.
+ */
+@Injectable()
+export class BaileysEngine implements WhatsAppEngine {
+  readonly name = 'baileys';
+  private readonly logger = new Logger(BaileysEngine.name);
+  private readonly sessions = new Map<string, BaileysSession>();
+
+  constructor(
+    private authStateService: AuthStateService,
+    private engineEvents: EngineEventsService,
+  ) {}
+
+  /**
+   * Opens the socket. Resolves once the connection opened, a QR code is
+   * waiting to be scanned or the connection closed, at the latest after
+   * `CONNECT_TIMEOUT_MS`.
+   */
+  async connect(device: EngineDevice): Promise<EngineSessionState> {
+    const existing = this.sessions.get(device.deviceId);
+    if (existing) {
+      return this.stateOf(existing);
+    }
+
+    const session = await this.openSocket(device, 0);
+
+    let timeout: NodeJS.Timeout;
+    await Promise.race([
+      session.settled,
+      new Promise<void>((resolve) => {
+        timeout = setTimeout(resolve, CONNECT_TIMEOUT_MS);
+      }),
+    ]);
+    clearTimeout(timeout);
+
+    return this.stateOf(session);
+  }
+
+  async hasSession(device: EngineDevice): Promise<boolean> {
+    return (
+      (await this.authStateService.hasCredentials(device.deviceId)) ||
+      // Devices paired before auth state moved to the store
+      (await this.authStateService.importLegacySession(
+        device.deviceId,
+        device.tenantId.toString(),
+      ))
+    );
+  }
+
+  getQRCode(device: EngineDevice): Promise<string | null> {
+    return Promise.resolve(this.sessions.get(device.deviceId)?.qr ?? null);
+  }
+
+  requestPairingCode(
+    device: EngineDevice,
+    phoneNumber: string,
+  ): Promise<string> {
+    // The socket only accepts code requests while it waits for pairing
+    const session = this.sessions.get(device.deviceId);
+    if (!session?.qr) {
+      return Promise.reject(new Error('Device is not waiting for pairing'));
+    }
+
+    return session.sock.requestPairingCode(phoneNumber);
+  }
+
+  getState(device: EngineDevice): Promise<EngineSessionState> {
+    const session = this.sessions.get(device.deviceId);
+    return Promise.resolve(
+      session ? this.stateOf(session) : { status: 'disconnected' },
+    );
+  }
+
+  async sendMessage(
+    device: EngineDevice,
+    jid: string,
+    message: OutboundMessage,
+  ): Promise<EngineSendResult> {
+    // A missing socket is usually a reconnect in progress, so the queue retries
+    const session = this.sessions.get(device.deviceId);
+    if (!session || session.status !== 'connected') {
+      throw new Error('Device session not found');
+    }
+
+    const sent = await session.sock.sendMessage(jid, message.payload);
+    return { whatsappMessageId: sent.key.id };
+  }
+
+  disconnect(device: EngineDevice): Promise<void> {
+    const session = this.sessions.get(device.deviceId);
+    // Dropping the session first turns the close event into a no-op
+    this.sessions.delete(device.deviceId);
+    session?.sock.end(undefined);
+    return Promise.resolve();
+  }
+
+  async logout(device: EngineDevice): Promise<void> {
+    const session = this.sessions.get(device.deviceId);
+    this.sessions.delete(device.deviceId);
+
+    if (session) {
+      try {
+        await session.sock.logout();
+      } catch (error) {
+        this.logger.warn(
+          `Logout of device ${device.deviceId} failed: ${(error as Error).message}`,
+        );
+        session.sock.end(undefined);
+      }
+    }
+
+    await this.authStateService.clear(device.deviceId);
+  }
+
+  private async openSocket(
+    device: EngineDevice,
+    retries: number,
+  ): Promise<BaileysSession> {
+    const { state, saveCreds } = await this.authStateService.useAuthState(
+      device.deviceId,
+      device.tenantId.toString(),
+    );
+    const { version } = await fetchLatestBaileysVersion();
+    const sock = makeWASocket({
+      version,
+      auth: state,
+      printQRInTerminal: false,
+      browser: ['Ubuntu', 'Chrome', '110.0.0.0'],
+      connectTimeoutMs: 60000,
+      keepAliveIntervalMs: 25000,
+      shouldIgnoreJid: isJidBroadcast,
+    });
+
+    let settle: () => void;
+    const settled = new Promise<void>((resolve) => (settle = resolve));
+    const session: BaileysSession = {
+      sock,
+      status: 'connecting',
+      retries,
+      settled,
+      settle,
+    };
+    this.sessions.set(device.deviceId, session);
+
+    sock.ev.on('creds.update', saveCreds);
+    sock.ev.on('connection.update', (update) => {
+      void this.handleConnectionUpdate(device, session, update).finally(
+        session.settle,
+      );
+    });
+    this.registerMessageHandlers(device, session);
+
+    return session;
+  }
+
+  private async handleConnectionUpdate(
+    device: EngineDevice,
+    session: BaileysSession,
+    update: Partial<ConnectionState>,
+  ): Promise<void> {
+    // Events of a socket that was closed or replaced on purpose
+    if (this.sessions.get(device.deviceId) !== session) {
+      return;
+    }
+
+    const { connection, lastDisconnect, qr } = update;
+    try {
+      if (qr) {
+        session.qr = qr;
+        await this.report(device, (stored) =>
+          this.engineEvents.handleQRCode(stored, qr),
+        );
+      }
+
+      if (connection === 'open') {
+        this.logger.log(`Device ${device.deviceId} connected`);
+        session.status = 'connected';
+        session.qr = undefined;
+        session.retries = 0;
+        await this.report(device, (stored) =>
+          this.engineEvents.handleConnectionUpdate(
+            stored,
+            this.stateOf(session),
+          ),
+        );
+      }
+
+      if (connection === 'close') {
+        const code = (lastDisconnect?.error as Boom)?.output?.statusCode;
+        await this.handleClose(device, session, code);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to process connection update of ${device.deviceId}: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+    }
+  }
+
+  private async handleClose(
+    device: EngineDevice,
+    session: BaileysSession,
+    code: number | undefined,
+  ): Promise<void> {
+    const stop = async (reason: string) => {
+      this.sessions.delete(device.deviceId);
+      await this.report(device, (stored) =>
+        this.engineEvents.handleConnectionUpdate(
+          stored,
+          { status: 'disconnected' },
+          reason,
+        ),
+      );
+    };
+
+    if (code === DisconnectReason.loggedOut) {
+      this.logger.warn(`Device ${device.deviceId} was logged out`);
+      await this.authStateService.clear(device.deviceId);
+      await stop('Logged out from WhatsApp');
+      return;
+    }
+
+    // Baileys gives up on a QR code nobody scanned
+    if (session.qr && code === DisconnectReason.timedOut) {
+      await stop('QR code was not scanned in time');
+      return;
+    }
+
+    const retries = session.retries + 1;
+    if (retries > MAX_RECONNECT_RETRIES) {
+      await stop(`Connection closed (code: ${code})`);
+      return;
+    }
+
+    // Transient close (e.g. restart required after pairing): reopen with a
+    // fresh socket. The session stays registered as connecting meanwhile.
+    session.status = 'connecting';
+    const delay =
+      code === DisconnectReason.restartRequired
+        ? 0
+        : Math.min(2 ** session.retries * 1000, 30000);
+    this.logger.warn(
+      `Connection closed (code: ${code}) for ${device.deviceId}, reconnecting in ${delay}ms`,
+    );
+
+    setTimeout(() => {
+      // Disconnected, logged out or reconnected in the meantime
+      if (this.sessions.get(device.deviceId) !== session) {
+        return;
+      }
+      this.openSocket(device, retries).catch((error: Error) =>
+        stop(`Failed to reconnect: ${error.message}`),
+      );
+    }, delay);
+  }
+
+  private registerMessageHandlers(
+    device: EngineDevice,
+    session: BaileysSession,
+  ): void {
+    const { sock } = session;
+
+    sock.ev.on('messages.upsert', ({ messages }) => {
+      void this.report(device, async (stored) => {
+        for (const msg of messages) {
+          const inbound = mapBaileysMessage(msg);
+          if (!inbound) {
+            continue;
+          }
+          if (inbound.media) {
+            inbound.downloadMedia = () =>
+              downloadMediaMessage(
+                msg,
+                'buffer',
+                {},
+                {
+                  logger: sock.logger,
+                  reuploadRequest: sock.updateMediaMessage,
+                },
+              );
+          }
+          await this.engineEvents.handleMessage(stored, inbound);
+        }
+      });
+    });
+
+    sock.ev.on('messages.update', (updates) => {
+      const statusUpdates = updates
+        .map(mapBaileysStatusUpdate)
+        .filter((update) => update !== null);
+      if (!statusUpdates.length) {
+        return;
+      }
+
+      void this.report(device, async (stored) => {
+        for (const update of statusUpdates) {
+          await this.engineEvents.handleStatusUpdate(stored, update);
+        }
+      });
+    });
+
+    sock.ev.on('message-receipt.update', (receipts) => {
+      const receiptUpdates = receipts.flatMap(mapBaileysReceipt);
+      if (!receiptUpdates.length) {
+        return;
+      }
+
+      void this.report(device, async (stored) => {
+        for (const update of receiptUpdates) {
+          await this.engineEvents.handleStatusUpdate(stored, update);
+        }
+      });
+    });
+
+    sock.ev.on(
+      'group-participants.update',
+      ({ id, participants, action, author }) => {
+        void this.report(device, (stored) =>
+          this.engineEvents.handleGroupParticipants(stored, {
+            groupJid: id,
+            action,
+            participantJids: participants,
+            ...(author && { authorJid: author }),
+          }),
+        );
+      },
+    );
+  }
+
+  /**
+   * Runs `handler` with the stored device. Devices deleted meanwhile are
+   * skipped, and errors are logged so they never reach the socket.
+   */
+  private async report(
+    device: EngineDevice,
+    handler: (stored: WhatsAppSessionDocument) => Promise<unknown>,
+  ): Promise<void> {
+    try {
+      const stored = await this.engineEvents.findDevice(device.deviceId);
+      if (stored) {
+        await handler(stored);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to process events of device ${device.deviceId}: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+    }
+  }
+
+  private stateOf(session: BaileysSession): EngineSessionState {
+    const userJid = session.sock.user?.id;
+    return {
+      status: session.status,
+      ...(userJid && { phoneNumber: jidToPhoneNumber(userJid) }),
+    };
+  }
+}
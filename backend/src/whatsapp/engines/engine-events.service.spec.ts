@@ -0,0 +1,192 @@
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import {
+  WhatsAppSession,
+  WhatsAppSessionDocument,
+} from '../../database/schemas/whatsapp-session.schema';
+import { WebhooksService } from '../../webhooks/webhooks.service';
+import { InboundMessageService } from '../inbound-message.service';
+import { MessageReceiptService } from '../message-receipt.service';
+import { EngineEventsService } from './engine-events.service';
+
+describe('EngineEventsService', () => {
+  let service: EngineEventsService;
+
+  const tenantId = new Types.ObjectId('507f1f77bcf86cd799439012');
+  const device = {
+    _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+    deviceId: 'device_1',
+    deviceName: 'Office Phone',
+    tenantId,
+    status: 'connecting',
+  } as unknown as WhatsAppSessionDocument;
+
+  const mockWhatsAppSessionModel = {
+    findOne: jest.fn(),
+    findByIdAndUpdate: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+  };
+
+  const mockWebhooksService = {
+    publish: jest.fn(),
+  };
+
+  const resolvePrevious = (previous: unknown) =>
+    mockWhatsAppSessionModel.findByIdAndUpdate.mockReturnValue({
+      exec: jest.fn().mockResolvedValue(previous),
+    });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    resolvePrevious(device);
+    mockWhatsAppSessionModel.findOneAndUpdate.mockReturnValue({
+      exec: jest.fn().mockResolvedValue(device),
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EngineEventsService,
+        {
+          provide: getModelToken(WhatsAppSession.name),
+          useValue: mockWhatsAppSessionModel,
+        },
+        {
+          provide: InboundMessageService,
+          useValue: { handleInboundMessage: jest.fn() },
+        },
+        {
+          provide: MessageReceiptService,
+          useValue: { applyStatusUpdate: jest.fn() },
+        },
+        { provide: WebhooksService, useValue: mockWebhooksService },
+      ],
+    }).compile();
+
+    service = module.get<EngineEventsService>(EngineEventsService);
+  });
+
+  describe('handleQRCode', () => {
+    it('should store the QR code as data URL and publish device.qr', async () => {
+      const { qrCode, expiresAt } = await service.handleQRCode(device, '2@abc');
+
+      expect(qrCode).toMatch(/^data:image\/png;base64,/);
+      expect(mockWhatsAppSessionModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: device._id, qrCode: { $ne: qrCode } },
+        expect.objectContaining({ qrCode, qrCodeExpiresAt: expiresAt }),
+      );
+      expect(mockWebhooksService.publish).toHaveBeenCalledWith(
+        tenantId,
+        'device.qr',
+        expect.objectContaining({ deviceId: device._id.toString(), qrCode }),
+      );
+    });
+
+    it('should not publish a QR code that is already stored', async () => {
+      mockWhatsAppSessionModel.findOneAndUpdate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(null),
+      });
+
+      const { qrCode } = await service.handleQRCode(device, '2@abc');
+
+      expect(qrCode).toMatch(/^data:image\/png;base64,/);
+      expect(mockWebhooksService.publish).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should store a pairing code until it expires', async () => {
+    const { pairingCode, expiresAt } = await service.handlePairingCode(
+      device,
+      'ABCD1234',
+    );
+
+    expect(pairingCode).toBe('ABCD1234');
+    expect(expiresAt.getTime()).toBeGreaterThan(Date.now());
+    expect(mockWhatsAppSessionModel.findByIdAndUpdate).toHaveBeenCalledWith(
+      device._id,
+      expect.objectContaining({
+        pairingCode: 'ABCD1234',
+        pairingCodeExpiresAt: expiresAt,
+      }),
+    );
+  });
+
+  describe('handleConnectionUpdate', () => {
+    it('should mark the device connected and publish the change', async () => {
+      await service.handleConnectionUpdate(device, {
+        status: 'connected',
+        phoneNumber: '+1234567890',
+      });
+
+      expect(mockWhatsAppSessionModel.findByIdAndUpdate).toHaveBeenCalledWith(
+        device._id,
+        expect.objectContaining({
+          status: 'connected',
+          phoneNumber: '+1234567890',
+          qrCode: null,
+          pairingCode: null,
+          errorMessage: null,
+        }),
+      );
+      expect(mockWebhooksService.publish).toHaveBeenCalledWith(
+        tenantId,
+        'device.connected',
+        expect.objectContaining({
+          status: 'connected',
+          phoneNumber: '+1234567890',
+        }),
+      );
+    });
+
+    it('should keep the reason of a disconnect', async () => {
+      resolvePrevious({ ...device, status: 'connected' });
+
+      await service.handleConnectionUpdate(
+        device,
+        { status: 'disconnected' },
+        'WAHA session failed',
+      );
+
+      expect(mockWhatsAppSessionModel.findByIdAndUpdate).toHaveBeenCalledWith(
+        device._id,
+        expect.objectContaining({
+          status: 'disconnected',
+          errorMessage: 'WAHA session failed',
+        }),
+      );
+      expect(mockWebhooksService.publish).toHaveBeenCalledWith(
+        tenantId,
+        'device.disconnected',
+        expect.objectContaining({ reason: 'WAHA session failed' }),
+      );
+    });
+
+    it('should not publish when the status did not change', async () => {
+      resolvePrevious({ ...device, status: 'connected' });
+
+      await service.handleConnectionUpdate(device, { status: 'connected' });
+
+      expect(mockWebhooksService.publish).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should publish group participant changes as phone numbers', async () => {
+    await service.handleGroupParticipants(device, {
+      groupJid: '120363025123456789@g.us',
+      action: 'add',
+      participantJids: ['1987654321@s.whatsapp.net'],
+      authorJid: '1234567890@s.whatsapp.net',
+    });
+
+    expect(mockWebhooksService.publish).toHaveBeenCalledWith(
+      tenantId,
+      'group.participants',
+      expect.objectContaining({
+        groupJid: '120363025123456789@g.us',
+        action: 'add',
+        participants: ['+1987654321'],
+        author: '+1234567890',
+      }),
+    );
+  });
+});
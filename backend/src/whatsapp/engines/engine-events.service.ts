@@ -0,0 +1,177 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import * as QRCode from 'qrcode';
+import {
+  WhatsAppSession,
+  WhatsAppSessionDocument,
+} from '../../database/schemas/whatsapp-session.schema';
+import { WebhookEvent } from '../../webhooks/webhook-events';
+import { WebhooksService } from '../../webhooks/webhooks.service';
+import { InboundMessageService } from '../inbound-message.service';
+import { InboundMessage } from '../interfaces/inbound-message.interface';
+import { MessageStatusUpdate } from '../interfaces/message-status-update.interface';
+import { MessageReceiptService } from '../message-receipt.service';
+import { jidToPhoneNumber } from '../utils/jid.util';
+import { EngineSessionState } from './whatsapp-engine.interface';
+
+// Also the lifetime of pairing codes
+const QR_CODE_TTL_MS = 5 * 60 * 1000;
+
+export interface GroupParticipantsUpdate {
+  groupJid: string;
+  action: string;
+  participantJids: string[];
+  authorJid?: string;
+}
+
+/**
+ * Applies what engines report about a device (QR codes, connection changes,
+ * messages and receipts) to the stored device and messages, and publishes
+ * the matching tenant webhooks.
+ */
+@Injectable()
+export class EngineEventsService {
+  constructor(
+    @InjectModel(WhatsAppSession.name)
+    private whatsappSessionModel: Model<WhatsAppSession>,
+    private inboundMessageService: InboundMessageService,
+    private messageReceiptService: MessageReceiptService,
+    private webhooksService: WebhooksService,
+  ) {}
+
+  /** Finds the device an engine session key belongs to. */
+  findDevice(sessionKey: string): Promise<WhatsAppSessionDocument | null> {
+    return this.whatsappSessionModel
+      .findOne({ deviceId: sessionKey, isDeleted: false })
+      .exec();
+  }
+
+  /**
+   * Stores the QR code for `qr` as a data URL until it expires. device.qr is
+   * only published for a new code, so engines and callers waiting on the QR
+   * can both report it.
+   */
+  async handleQRCode(
+    device: WhatsAppSessionDocument,
+    qr: string,
+  ): Promise<{ qrCode: string; expiresAt: Date }> {
+    const qrCode = await QRCode.toDataURL(qr);
+    const expiresAt = new Date(Date.now() + QR_CODE_TTL_MS);
+
+    const updated = await this.whatsappSessionModel
+      .findOneAndUpdate(
+        { _id: device._id, qrCode: { $ne: qrCode } },
+        { qrCode, qrCodeExpiresAt: expiresAt, updatedAt: new Date() },
+      )
+      .exec();
+    if (updated) {
+      await this.publishDeviceEvent(device, 'device.qr', {
+        qrCode,
+        expiresAt,
+      });
+    }
+
+    return { qrCode, expiresAt };
+  }
+
+  /** Stores a pairing code until it expires, like a QR code. */
+  async handlePairingCode(
+    device: WhatsAppSessionDocument,
+    pairingCode: string,
+  ): Promise<{ pairingCode: string; expiresAt: Date }> {
+    const expiresAt = new Date(Date.now() + QR_CODE_TTL_MS);
+
+    await this.whatsappSessionModel
+      .findByIdAndUpdate(device._id, {
+        pairingCode,
+        pairingCodeExpiresAt: expiresAt,
+        updatedAt: new Date(),
+      })
+      .exec();
+
+    return { pairingCode, expiresAt };
+  }
+
+  /**
+   * Updates the device status. device.connected / device.disconnected are
+   * only published when the status really changed.
+   */
+  async handleConnectionUpdate(
+    device: WhatsAppSessionDocument,
+    state: EngineSessionState,
+    reason?: string,
+  ): Promise<void> {
+    const { status, phoneNumber } = state;
+    const update =
+      status === 'connecting'
+        ? { status }
+        : {
+            status,
+            qrCode: null,
+            qrCodeExpiresAt: null,
+            pairingCode: null,
+            pairingCodeExpiresAt: null,
+            ...(status === 'connected'
+              ? { errorMessage: null, lastSeen: new Date() }
+              : reason && { errorMessage: reason }),
+          };
+
+    const previous = await this.whatsappSessionModel
+      .findByIdAndUpdate(device._id, {
+        ...update,
+        ...(phoneNumber && { phoneNumber }),
+        updatedAt: new Date(),
+      })
+      .exec();
+
+    if (!previous || previous.status === status || status === 'connecting') {
+      return;
+    }
+
+    await this.publishDeviceEvent(previous, `device.${status}`, {
+      status,
+      ...(phoneNumber && { phoneNumber }),
+      ...(reason && { reason }),
+    });
+  }
+
+  async handleMessage(
+    device: WhatsAppSessionDocument,
+    inbound: InboundMessage,
+  ): Promise<void> {
+    await this.inboundMessageService.handleInboundMessage(device, inbound);
+  }
+
+  async handleStatusUpdate(
+    device: WhatsAppSessionDocument,
+    update: MessageStatusUpdate,
+  ): Promise<void> {
+    await this.messageReceiptService.applyStatusUpdate(device._id, update);
+  }
+
+  async handleGroupParticipants(
+    device: WhatsAppSessionDocument,
+    update: GroupParticipantsUpdate,
+  ): Promise<void> {
+    await this.publishDeviceEvent(device, 'group.participants', {
+      groupJid: update.groupJid,
+      action: update.action,
+      participants: update.participantJids.map((jid) => jidToPhoneNumber(jid)),
+      ...(update.authorJid && { author: jidToPhoneNumber(update.authorJid) }),
+    });
+  }
+
+  private async publishDeviceEvent(
+    device: WhatsAppSessionDocument,
+    event: WebhookEvent,
+    data: Record<string, unknown>,
+  ): Promise<void> {
+    await this.webhooksService.publish(device.tenantId, event, {
+      deviceId: device._id.toString(),
+      deviceName: device.deviceName,
+      phoneNumber: device.phoneNumber,
+      ...data,
+    });
+  }
+}
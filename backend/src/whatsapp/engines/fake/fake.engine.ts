@@ -0,0 +1,174 @@
+import { InboundMessage } from '../../interfaces/inbound-message.interface';
+import { MessageStatusUpdate } from '../../interfaces/message-status-update.interface';
+import { OutboundMessage } from '../../mappers/outbound-message.mapper';
+import { EngineEventsService } from '../engine-events.service';
+import {
+  EngineDevice,
+  EngineSendResult,
+  EngineSessionState,
+  WhatsAppEngine,
+  WhatsAppEngineName,
+} from '../whatsapp-engine.interface';
+
+interface FakeSession {
+  state: EngineSessionState;
+  paired: boolean;
+  qr?: string;
+}
+
+export interface FakeSentMessage {
+  deviceId: string;
+  jid: string;
+  message: OutboundMessage;
+  whatsappMessageId: string;
+}
+
+/**
+ * In-memory engine without any network access, for tests. Devices pair and
+ * receive messages when a test calls the matching `simulate*` method, which
+ * reports to `EngineEventsService` like a real engine would.
+ */
+export class FakeEngine implements WhatsAppEngine {
+  readonly sentMessages: FakeSentMessage[] = [];
+  private readonly sessions = new Map<string, FakeSession>();
+
+  constructor(
+    private engineEvents: EngineEventsService,
+    readonly name: WhatsAppEngineName = 'baileys',
+  ) {}
+
+  connect(device: EngineDevice): Promise<EngineSessionState> {
+    const session = this.sessionOf(device);
+    if (session.paired) {
+      session.state = { ...session.state, status: 'connected' };
+    } else {
+      session.state = { status: 'connecting' };
+      session.qr = `fake-qr-${device.deviceId}`;
+    }
+    return Promise.resolve(session.state);
+  }
+
+  hasSession(device: EngineDevice): Promise<boolean> {
+    return Promise.resolve(!!this.sessions.get(device.deviceId)?.paired);
+  }
+
+  getQRCode(device: EngineDevice): Promise<string | null> {
+    return Promise.resolve(this.sessions.get(device.deviceId)?.qr ?? null);
+  }
+
+  requestPairingCode(
+    device: EngineDevice,
+    phoneNumber: string,
+  ): Promise<string> {
+    if (!this.sessions.get(device.deviceId)?.qr) {
+      return Promise.reject(new Error('Device is not waiting for pairing'));
+    }
+    return Promise.resolve(`FAKE${phoneNumber.slice(-4).padStart(4, '0')}`);
+  }
+
+  getState(device: EngineDevice): Promise<EngineSessionState> {
+    return Promise.resolve(
+      this.sessions.get(device.deviceId)?.state ?? { status: 'disconnected' },
+    );
+  }
+
+  sendMessage(
+    device: EngineDevice,
+    jid: string,
+    message: OutboundMessage,
+  ): Promise<EngineSendResult> {
+    if (this.sessions.get(device.deviceId)?.state.status !== 'connected') {
+      return Promise.reject(new Error('Device session not found'));
+    }
+
+    const whatsappMessageId = `FAKE${this.sentMessages.length + 1}`;
+    this.sentMessages.push({
+      deviceId: device.deviceId,
+      jid,
+      message,
+      whatsappMessageId,
+    });
+    return Promise.resolve({ whatsappMessageId });
+  }
+
+  disconnect(device: EngineDevice): Promise<void> {
+    const session = this.sessions.get(device.deviceId);
+    if (session) {
+      session.state = { status: 'disconnected' };
+      session.qr = undefined;
+    }
+    return Promise.resolve();
+  }
+
+  logout(device: EngineDevice): Promise<void> {
+    this.sessions.delete(device.deviceId);
+    return Promise.resolve();
+  }
+
+  /** Completes pairing as if the QR code was scanned by `phoneNumber`. */
+  async simulatePairing(
+    device: EngineDevice,
+    phoneNumber: string,
+  ): Promise<void> {
+    const session = this.sessionOf(device);
+    session.paired = true;
+    session.qr = undefined;
+    session.state = { status: 'connected', phoneNumber };
+
+    await this.engineEvents.handleConnectionUpdate(
+      await this.findDevice(device),
+      session.state,
+    );
+  }
+
+  /** Drops the connection; the device stays paired. */
+  async simulateDisconnect(
+    device: EngineDevice,
+    reason: string,
+  ): Promise<void> {
+    this.sessionOf(device).state = { status: 'disconnected' };
+
+    await this.engineEvents.handleConnectionUpdate(
+      await this.findDevice(device),
+      { status: 'disconnected' },
+      reason,
+    );
+  }
+
+  async simulateIncomingMessage(
+    device: EngineDevice,
+    inbound: InboundMessage,
+  ): Promise<void> {
+    await this.engineEvents.handleMessage(
+      await this.findDevice(device),
+      inbound,
+    );
+  }
+
+  async simulateStatusUpdate(
+    device: EngineDevice,
+    update: MessageStatusUpdate,
+  ): Promise<void> {
+    await this.engineEvents.handleStatusUpdate(
+      await this.findDevice(device),
+      update,
+    );
+  }
+
+  private sessionOf(device: EngineDevice): FakeSession {
+    let session = this.sessions.get(device.deviceId);
+    if (!session) {
+      session = { state: { status: 'disconnected' }, paired: false };
+      this.sessions.set(device.deviceId, session);
+    }
+    return session;
+  }
+
+  private async findDevice(device: EngineDevice) {
+    const stored = await this.engineEvents.findDevice(device.deviceId);
+    if (!stored) {
+      throw new Error(`Device ${device.deviceId} not found`);
+    }
+    return stored;
+  }
+}
@@ -0,0 +1,73 @@
+// Payload shapes of the WAHA (WhatsApp HTTP API) webhooks and REST responses.
+// Only the fields we read are listed.
+
+export type WahaSessionStatus =
+  'STOPPED' | 'STARTING' | 'SCAN_QR_CODE' | 'WORKING' | 'FAILED';
+
+export interface WahaMe {
+  id: string; // e.g. 1234567890@c.us
+  pushName?: string;
+}
+
+export interface WahaSession {
+  name: string;
+  status: WahaSessionStatus;
+  me?: WahaMe | null;
+}
+
+export interface WahaMedia {
+  url?: string;
+  mimetype?: string;
+  filename?: string | null;
+  error?: unknown;
+}
+
+export interface WahaMessage {
+  id: string;
+  timestamp: number; // Seconds
+  from: string;
+  to?: string;
+  fromMe: boolean;
+  participant?: string | null; // Author of group messages
+  body?: string | null;
+  hasMedia?: boolean;
+  media?: WahaMedia | null;
+  location?: {
+    latitude: string | number;
+    longitude: string | number;
+    description?: string;
+  } | null;
+  vCards?: string[] | null;
+  replyTo?: { id: string } | null;
+  _data?: { notifyName?: string; pushName?: string };
+}
+
+export interface WahaMessageAck {
+  id: string;
+  from: string;
+  to: string;
+  participant?: string | null;
+  fromMe: boolean;
+  ack: number; // -1 error, 0 pending, 1 server, 2 device, 3 read, 4 played
+  ackName?: string;
+}
+
+export interface WahaGroupParticipants {
+  group: { id: string };
+  participants: { id: string }[];
+  type: 'join' | 'leave' | 'promote' | 'demote';
+  by?: { id: string } | null;
+}
+
+export interface WahaWebhookEvent {
+  id?: string;
+  event: string;
+  session: string;
+  me?: WahaMe | null;
+  payload: unknown;
+}
+
+export interface WahaSendResponse {
+  id?: string | { _serialized?: string };
+  key?: { id: string; remoteJid: string; fromMe: boolean };
+}
@@ -0,0 +1,43 @@
+import {
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Req,
+} from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
+import {
+  ApiExcludeController,
+  ApiOperation,
+  ApiResponse,
+} from '@nestjs/swagger';
+import { SkipThrottle } from '@nestjs/throttler';
+import type { Request } from 'express';
+import type { WahaWebhookEvent } from './waha-event.interface';
+import { WAHA_HMAC_HEADER, WahaWebhookService } from './waha-webhook.service';
+
+// Called by the WAHA server, not by users, so there is no JWT here, and its
+// event bursts must not be rate limited like users
+@ApiExcludeController()
+@SkipThrottle()
+@Controller('whatsapp/webhook')
+export class WahaWebhookController {
+  constructor(private readonly wahaWebhookService: WahaWebhookService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Receive WAHA webhook events' })
+  @ApiResponse({ status: 200, description: 'Event processed' })
+  @ApiResponse({ status: 401, description: 'Invalid webhook signature' })
+  async receive(
+    @Req() req: RawBodyRequest<Request>,
+    @Headers(WAHA_HMAC_HEADER) signature: string,
+    @Body() event: WahaWebhookEvent,
+  ): Promise<{ received: boolean }> {
+    this.wahaWebhookService.verifySignature(req.rawBody, signature);
+    await this.wahaWebhookService.handleEvent(event);
+    return { received: true };
+  }
+}
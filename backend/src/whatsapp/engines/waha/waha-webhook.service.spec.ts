@@ -0,0 +1,233 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { createHmac } from 'crypto';
+import { Types } from 'mongoose';
+import { EngineEventsService } from '../engine-events.service';
+import { WahaWebhookService } from './waha-webhook.service';
+import { WahaEngine } from './waha.engine';
+
+describe('WahaWebhookService', () => {
+  let service: WahaWebhookService;
+
+  const device = {
+    _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+    deviceId: 'device_1',
+    tenantId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+    engine: 'waha',
+  };
+
+  const config: Record<string, unknown> = {};
+
+  const mockEngineEvents = {
+    findDevice: jest.fn(),
+    handleQRCode: jest.fn(),
+    handleConnectionUpdate: jest.fn(),
+    handleMessage: jest.fn(),
+    handleStatusUpdate: jest.fn(),
+    handleGroupParticipants: jest.fn(),
+  };
+
+  const mockWahaEngine = {
+    getQRCode: jest.fn(),
+    downloadMedia: jest.fn(),
+  };
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WahaWebhookService,
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+        { provide: WahaEngine, useValue: mockWahaEngine },
+        { provide: EngineEventsService, useValue: mockEngineEvents },
+      ],
+    }).compile();
+
+    return module.get<WahaWebhookService>(WahaWebhookService);
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    delete config['whatsapp.webhookHmacKey'];
+    mockEngineEvents.findDevice.mockResolvedValue(device);
+    service = await createService();
+  });
+
+  describe('verifySignature', () => {
+    const body = Buffer.from('{"event":"message"}');
+
+    it('should refuse every request without a configured key', () => {
+      const signature = createHmac('sha512', '').update(body).digest('hex');
+
+      expect(() => service.verifySignature(body, undefined)).toThrow(
+        UnauthorizedException,
+      );
+      expect(() => service.verifySignature(body, signature)).toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should check the HMAC-SHA512 of the raw body', async () => {
+      config['whatsapp.webhookHmacKey'] = 'hmac-secret';
+      service = await createService();
+      const signature = createHmac('sha512', 'hmac-secret')
+        .update(body)
+        .digest('hex');
+
+      expect(() => service.verifySignature(body, signature)).not.toThrow();
+      expect(() => service.verifySignature(body, 'deadbeef')).toThrow(
+        UnauthorizedException,
+      );
+      expect(() => service.verifySignature(body, undefined)).toThrow(
+        UnauthorizedException,
+      );
+    });
+  });
+
+  describe('handleEvent', () => {
+    it('should ignore sessions that are not WAHA devices', async () => {
+      mockEngineEvents.findDevice.mockResolvedValueOnce({
+        ...device,
+        engine: 'baileys',
+      });
+
+      await service.handleEvent({
+        event: 'session.status',
+        session: 'device_1',
+        payload: { status: 'WORKING' },
+      });
+
+      expect(mockEngineEvents.handleConnectionUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should store incoming messages with a media download', async () => {
+      mockWahaEngine.downloadMedia.mockResolvedValue(Buffer.from('img'));
+
+      await service.handleEvent({
+        event: 'message',
+        session: 'device_1',
+        payload: {
+          id: 'false_1234567890@c.us_MSG1',
+          timestamp: 1705314600,
+          from: '1234567890@c.us',
+          fromMe: false,
+          body: '',
+          hasMedia: true,
+          media: {
+            url: 'http://waha:3000/api/files/MSG1.jpeg',
+            mimetype: 'image/jpeg',
+          },
+        },
+      });
+
+      const [, inbound] = mockEngineEvents.handleMessage.mock.calls[0];
+      expect(inbound).toMatchObject({
+        whatsappMessageId: 'false_1234567890@c.us_MSG1',
+        messageType: 'image',
+      });
+      await expect(inbound.downloadMedia()).resolves.toEqual(
+        Buffer.from('img'),
+      );
+      expect(mockWahaEngine.downloadMedia).toHaveBeenCalledWith(
+        'http://waha:3000/api/files/MSG1.jpeg',
+      );
+    });
+
+    it('should apply acks as status updates', async () => {
+      await service.handleEvent({
+        event: 'message.ack',
+        session: 'device_1',
+        payload: {
+          id: 'true_1234567890@c.us_MSG1',
+          from: '1987654321@c.us',
+          to: '1234567890@c.us',
+          fromMe: true,
+          ack: 3,
+        },
+      });
+
+      expect(mockEngineEvents.handleStatusUpdate).toHaveBeenCalledWith(
+        device,
+        expect.objectContaining({
+          whatsappMessageId: 'true_1234567890@c.us_MSG1',
+          status: 'read',
+        }),
+      );
+    });
+
+    it('should mark the device connected with its phone number', async () => {
+      await service.handleEvent({
+        event: 'session.status',
+        session: 'device_1',
+        me: { id: '1234567890@c.us' },
+        payload: { status: 'WORKING' },
+      });
+
+      expect(mockEngineEvents.handleConnectionUpdate).toHaveBeenCalledWith(
+        device,
+        { status: 'connected', phoneNumber: '+1234567890' },
+        undefined,
+      );
+    });
+
+    it('should store a fresh QR code when a scan is needed', async () => {
+      mockWahaEngine.getQRCode.mockResolvedValue('2@abc');
+
+      await service.handleEvent({
+        event: 'session.status',
+        session: 'device_1',
+        payload: { status: 'SCAN_QR_CODE' },
+      });
+
+      expect(mockEngineEvents.handleQRCode).toHaveBeenCalledWith(
+        device,
+        '2@abc',
+      );
+      expect(mockEngineEvents.handleConnectionUpdate).toHaveBeenCalledWith(
+        device,
+        { status: 'connecting' },
+        undefined,
+      );
+    });
+
+    it('should mark failed sessions disconnected', async () => {
+      await service.handleEvent({
+        event: 'session.status',
+        session: 'device_1',
+        payload: { status: 'FAILED' },
+      });
+
+      expect(mockEngineEvents.handleConnectionUpdate).toHaveBeenCalledWith(
+        device,
+        { status: 'disconnected' },
+        'WAHA session failed',
+      );
+    });
+
+    it('should report group participant changes', async () => {
+      await service.handleEvent({
+        event: 'group.v2.participants',
+        session: 'device_1',
+        payload: {
+          group: { id: '120363025123456789@g.us' },
+          participants: [{ id: '1987654321@c.us' }],
+          type: 'join',
+          by: { id: '1234567890@c.us' },
+        },
+      });
+
+      expect(mockEngineEvents.handleGroupParticipants).toHaveBeenCalledWith(
+        device,
+        {
+          groupJid: '120363025123456789@g.us',
+          action: 'add',
+          participantJids: ['1987654321@s.whatsapp.net'],
+          authorJid: '1234567890@s.whatsapp.net',
+        },
+      );
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { WhatsAppSessionDocument } from '../../../database/schemas/whatsapp-session.schema';
+import {
+  fromWahaChatId,
+  mapWahaAck,
+  mapWahaMessage,
+  mapWahaSessionStatus,
+} from '../../mappers/waha-message.mapper';
+import { jidToPhoneNumber } from '../../utils/jid.util';
+import { EngineEventsService } from '../engine-events.service';
+import {
+  WahaGroupParticipants,
+  WahaMessage,
+  WahaMessageAck,
+  WahaSessionStatus,
+  WahaWebhookEvent,
+} from './waha-event.interface';
+import { WahaEngine } from './waha.engine';
+
+export const WAHA_HMAC_HEADER = 'x-webhook-hmac';
+
+// WAHA group participant event types and our group.participants actions
+const PARTICIPANT_ACTIONS: Record<WahaGroupParticipants['type'], string> = {
+  join: 'add',
+  leave: 'remove',
+  promote: 'promote',
+  demote: 'demote',
+};
+
+/**
+ * Turns events WAHA posts to `/whatsapp/webhook` into device and message
+ * updates. Events for sessions that don't belong to a WAHA device are
+ * ignored.
+ */
+@Injectable()
+export class WahaWebhookService {
+  private readonly logger = new Logger(WahaWebhookService.name);
+  private readonly hmacKey: string;
+
+  constructor(
+    private configService: ConfigService,
+    private wahaEngine: WahaEngine,
+    private engineEvents: EngineEventsService,
+  ) {
+    this.hmacKey = this.configService.get<string>('whatsapp.webhookHmacKey');
+    if (!this.hmacKey) {
+      this.logger.warn(
+        'WAHA_WEBHOOK_HMAC_KEY is not set, WAHA webhook events will be refused',
+      );
+    }
+  }
+
+  /**
+   * Checks the HMAC-SHA512 signature WAHA sends when `WHATSAPP_HOOK_HMAC_KEY`
+   * is set. The webhook has no other authentication, so without a configured
+   * key every request is refused.
+   */
+  verifySignature(rawBody: Buffer | undefined, signature?: string): void {
+    if (!this.hmacKey) {
+      throw new UnauthorizedException('Webhook signing key is not configured');
+    }
+
+    const expected = createHmac('sha512', this.hmacKey)
+      .update(rawBody ?? '')
+      .digest();
+    const received = Buffer.from(signature ?? '', 'hex');
+
+    if (
+      received.length !== expected.length ||
+      !timingSafeEqual(received, expected)
+    ) {
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+  }
+
+  async handleEvent(event: WahaWebhookEvent): Promise<void> {
+    if (!event?.session || !event.event) {
+      return;
+    }
+
+    const device = await this.engineEvents.findDevice(event.session);
+    if (!device || device.engine !== 'waha') {
+      this.logger.debug(
+        `Ignoring ${event.event} for unknown WAHA session ${event.session}`,
+      );
+      return;
+    }
+
+    switch (event.event) {
+      case 'message':
+      case 'message.any':
+        await this.handleMessage(device, event.payload as WahaMessage);
+        break;
+      case 'message.ack': {
+        const update = mapWahaAck(event.payload as WahaMessageAck);
+        if (update) {
+          await this.engineEvents.handleStatusUpdate(device, update);
+        }
+        break;
+      }
+      case 'session.status':
+        await this.handleSessionStatus(
+          device,
+          (event.payload as { status: WahaSessionStatus })?.status,
+          event.me?.id,
+        );
+        break;
+      case 'group.v2.participants':
+        await this.handleGroupParticipants(
+          device,
+          event.payload as WahaGroupParticipants,
+        );
+        break;
+      default:
+        this.logger.debug(`Ignoring unsupported WAHA event ${event.event}`);
+    }
+  }
+
+  private async handleMessage(
+    device: WhatsAppSessionDocument,
+    message: WahaMessage,
+  ): Promise<void> {
+    const inbound = mapWahaMessage(message);
+    if (!inbound) {
+      return;
+    }
+
+    const mediaUrl = message.media?.url;
+    if (inbound.media && mediaUrl) {
+      inbound.downloadMedia = () => this.wahaEngine.downloadMedia(mediaUrl);
+    }
+    await this.engineEvents.handleMessage(device, inbound);
+  }
+
+  private async handleSessionStatus(
+    device: WhatsAppSessionDocument,
+    status: WahaSessionStatus,
+    meId?: string,
+  ): Promise<void> {
+    if (status === 'SCAN_QR_CODE') {
+      const qr = await this.wahaEngine.getQRCode(device);
+      if (qr) {
+        await this.engineEvents.handleQRCode(device, qr);
+      }
+    }
+
+    await this.engineEvents.handleConnectionUpdate(
+      device,
+      {
+        status: mapWahaSessionStatus(status),
+        ...(status === 'WORKING' &&
+          meId && { phoneNumber: jidToPhoneNumber(meId) }),
+      },
+      status === 'FAILED' || status === 'STOPPED'
+        ? `WAHA session ${status.toLowerCase()}`
+        : undefined,
+    );
+  }
+
+  private async handleGroupParticipants(
+    device: WhatsAppSessionDocument,
+    update: WahaGroupParticipants,
+  ): Promise<void> {
+    const action = PARTICIPANT_ACTIONS[update?.type];
+    if (!action || !update.group?.id) {
+      return;
+    }
+
+    await this.engineEvents.handleGroupParticipants(device, {
+      groupJid: update.group.id,
+      action,
+      participantJids: (update.participants ?? []).map(({ id }) =>
+        fromWahaChatId(id),
+      ),
+      ...(update.by?.id && { authorJid: fromWahaChatId(update.by.id) }),
+    });
+  }
+}
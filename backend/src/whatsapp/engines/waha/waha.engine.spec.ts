@@ -0,0 +1,288 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { WahaEngine } from './waha.engine';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  apiKey?: string;
+  body?: any;
+}
+
+type Route = (request: RecordedRequest) => { status?: number; body?: unknown };
+
+/**
+ * Minimal stand-in for a WAHA server: routes are matched by
+ * `<METHOD> <path>` and every request is recorded.
+ */
+function startMockWaha(routes: Record<string, Route>) {
+  const requests: RecordedRequest[] = [];
+
+  const readBody = (req: IncomingMessage) =>
+    new Promise<string>((resolve) => {
+      let data = '';
+      req.on('data', (chunk: Buffer) => (data += chunk.toString()));
+      req.on('end', () => resolve(data));
+    });
+
+  const server: Server = createServer((req, res) => {
+    void readBody(req).then((raw) => {
+      const request: RecordedRequest = {
+        method: req.method,
+        url: req.url,
+        apiKey: req.headers['x-api-key'] as string,
+        body: raw ? JSON.parse(raw) : undefined,
+      };
+      requests.push(request);
+
+      const route = routes[`${req.method} ${req.url}`];
+      const { status = 200, body } = route
+        ? route(request)
+        : { status: 404, body: { message: 'Not found' } };
+
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(
+        Buffer.isBuffer(body)
+          ? body
+          : body === undefined
+            ? ''
+            : JSON.stringify(body),
+      );
+    });
+  });
+
+  return new Promise<{
+    server: Server;
+    url: string;
+    requests: RecordedRequest[];
+  }>((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}`, requests });
+    });
+  });
+}
+
+describe('WahaEngine', () => {
+  const device = {
+    _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+    deviceId: 'device_1',
+    tenantId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+  };
+
+  let server: Server;
+  let requests: RecordedRequest[];
+  let routes: Record<string, Route>;
+  let engine: WahaEngine;
+
+  beforeEach(async () => {
+    routes = {};
+    const mock = await startMockWaha(routes);
+    server = mock.server;
+    requests = mock.requests;
+
+    const config: Record<string, unknown> = {
+      'whatsapp.apiUrl': `${mock.url}/`,
+      'whatsapp.apiKey': 'test-api-key',
+      'whatsapp.requestTimeoutMs': 2000,
+    };
+    engine = new WahaEngine({
+      get: (key: string) => config[key],
+    } as unknown as ConfigService);
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  describe('connect', () => {
+    it('should create and start a missing session', async () => {
+      routes['POST /api/sessions'] = () => ({
+        status: 201,
+        body: { name: 'device_1', status: 'STARTING' },
+      });
+
+      const state = await engine.connect(device);
+
+      expect(state).toEqual({ status: 'connecting' });
+      expect(requests.map((r) => `${r.method} ${r.url}`)).toEqual([
+        'GET /api/sessions/device_1',
+        'POST /api/sessions',
+      ]);
+      expect(requests[1].body).toEqual({ name: 'device_1', start: true });
+      expect(requests.every((r) => r.apiKey === 'test-api-key')).toBe(true);
+    });
+
+    it('should restart a stopped session', async () => {
+      routes['GET /api/sessions/device_1'] = () => ({
+        body: { name: 'device_1', status: 'STOPPED' },
+      });
+      routes['POST /api/sessions/device_1/start'] = () => ({
+        body: {
+          name: 'device_1',
+          status: 'WORKING',
+          me: { id: '1234567890@c.us' },
+        },
+      });
+
+      const state = await engine.connect(device);
+
+      expect(state).toEqual({
+        status: 'connected',
+        phoneNumber: '+1234567890',
+      });
+    });
+
+    it('should leave a working session alone', async () => {
+      routes['GET /api/sessions/device_1'] = () => ({
+        body: { name: 'device_1', status: 'WORKING' },
+      });
+
+      await expect(engine.connect(device)).resolves.toEqual({
+        status: 'connected',
+      });
+      expect(requests).toHaveLength(1);
+    });
+  });
+
+  describe('getQRCode', () => {
+    it('should return the raw QR value while waiting for a scan', async () => {
+      routes['GET /api/sessions/device_1'] = () => ({
+        body: { name: 'device_1', status: 'SCAN_QR_CODE' },
+      });
+      routes['GET /api/device_1/auth/qr?format=raw'] = () => ({
+        body: { value: '2@abc' },
+      });
+
+      await expect(engine.getQRCode(device)).resolves.toBe('2@abc');
+    });
+
+    it('should return null when no scan is pending', async () => {
+      routes['GET /api/sessions/device_1'] = () => ({
+        body: { name: 'device_1', status: 'WORKING' },
+      });
+
+      await expect(engine.getQRCode(device)).resolves.toBeNull();
+    });
+  });
+
+  it('should request a pairing code for the phone number', async () => {
+    routes['POST /api/device_1/auth/request-code'] = () => ({
+      body: { code: 'ABCD1234' },
+    });
+
+    await expect(engine.requestPairingCode(device, '1234567890')).resolves.toBe(
+      'ABCD1234',
+    );
+    expect(requests[0].body).toEqual({ phoneNumber: '1234567890' });
+  });
+
+  it('should report missing sessions as disconnected', async () => {
+    await expect(engine.getState(device)).resolves.toEqual({
+      status: 'disconnected',
+    });
+  });
+
+  describe('sendMessage', () => {
+    it('should send text and return the serialized message ID', async () => {
+      routes['POST /api/sendText'] = () => ({
+        status: 201,
+        body: { id: { _serialized: 'true_1234567890@c.us_MSG1' } },
+      });
+
+      const result = await engine.sendMessage(
+        device,
+        '1234567890@s.whatsapp.net',
+        { payload: { text: 'Hello' }, content: 'Hello', metadata: {} },
+      );
+
+      expect(result).toEqual({
+        whatsappMessageId: 'true_1234567890@c.us_MSG1',
+      });
+      expect(requests[0].body).toEqual({
+        session: 'device_1',
+        chatId: '1234567890@c.us',
+        text: 'Hello',
+      });
+    });
+
+    it('should build the message ID from a message key', async () => {
+      routes['POST /api/sendText'] = () => ({
+        status: 201,
+        body: {
+          key: {
+            id: 'MSG1',
+            remoteJid: '1234567890@s.whatsapp.net',
+            fromMe: true,
+          },
+        },
+      });
+
+      const result = await engine.sendMessage(
+        device,
+        '1234567890@s.whatsapp.net',
+        { payload: { text: 'Hello' }, content: 'Hello', metadata: {} },
+      );
+
+      expect(result.whatsappMessageId).toBe('true_1234567890@c.us_MSG1');
+    });
+
+    it('should fail when WAHA rejects the message', async () => {
+      routes['POST /api/sendText'] = () => ({
+        status: 422,
+        body: { message: 'Session is not working' },
+      });
+
+      await expect(
+        engine.sendMessage(device, '1234567890@s.whatsapp.net', {
+          payload: { text: 'Hello' },
+          content: 'Hello',
+          metadata: {},
+        }),
+      ).rejects.toThrow('HTTP 422');
+    });
+  });
+
+  it('should log out and delete the session, ignoring missing sessions', async () => {
+    routes['POST /api/sessions/device_1/logout'] = () => ({ status: 201 });
+
+    await engine.logout(device);
+
+    expect(requests.map((r) => `${r.method} ${r.url}`)).toEqual([
+      'POST /api/sessions/device_1/logout',
+      'DELETE /api/sessions/device_1',
+    ]);
+  });
+
+  it('should stop the session on disconnect and keep it paired', async () => {
+    routes['POST /api/sessions/device_1/stop'] = () => ({
+      body: { name: 'device_1', status: 'STOPPED' },
+    });
+    routes['GET /api/sessions/device_1'] = () => ({
+      body: { name: 'device_1', status: 'STOPPED' },
+    });
+
+    await engine.disconnect(device);
+
+    await expect(engine.hasSession(device)).resolves.toBe(true);
+    expect(requests.map((r) => `${r.method} ${r.url}`)).toEqual([
+      'POST /api/sessions/device_1/stop',
+      'GET /api/sessions/device_1',
+    ]);
+  });
+
+  it('should download media from the configured server only', async () => {
+    routes['GET /api/files/MSG1.jpeg'] = () => ({
+      body: Buffer.from('image-bytes'),
+    });
+
+    const data = await engine.downloadMedia(
+      'http://localhost:3000/api/files/MSG1.jpeg',
+    );
+
+    expect(data.toString()).toBe('image-bytes');
+    expect(requests[0].apiKey).toBe('test-api-key');
+  });
+});
@@ -0,0 +1,229 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  buildWahaSendRequest,
+  mapWahaSessionStatus,
+  toWahaChatId,
+} from '../../mappers/waha-message.mapper';
+import { OutboundMessage } from '../../mappers/outbound-message.mapper';
+import { jidToPhoneNumber } from '../../utils/jid.util';
+import {
+  EngineDevice,
+  EngineSendResult,
+  EngineSessionState,
+  WhatsAppEngine,
+} from '../whatsapp-engine.interface';
+import { WahaSendResponse, WahaSession } from './waha-event.interface';
+
+type HttpMethod = 'GET' | 'POST' | 'DELETE';
+
+/**
+ * Runs devices on a WAHA (WhatsApp HTTP API) server. Every device is a WAHA
+ * session named after its `deviceId`; WAHA reports QR codes, messages and
+ * receipts through the `/whatsapp/webhook` endpoint.
+ */
+@Injectable()
+export class WahaEngine implements WhatsAppEngine {
+  readonly name = 'waha';
+  private readonly apiUrl: string;
+  private readonly apiKey: string;
+  private readonly requestTimeoutMs: number;
+
+  constructor(private configService: ConfigService) {
+    this.apiUrl = (
+      this.configService.get<string>('whatsapp.apiUrl') ||
+      'http://localhost:3001'
+    ).replace(/\/+$/, '');
+    this.apiKey = this.configService.get<string>('whatsapp.apiKey');
+    this.requestTimeoutMs =
+      this.configService.get<number>('whatsapp.requestTimeoutMs') || 30000;
+  }
+
+  async connect(device: EngineDevice): Promise<EngineSessionState> {
+    const name = device.deviceId;
+    let session = await this.findSession(name);
+
+    if (!session) {
+      session = await this.request<WahaSession>('POST', '/api/sessions', {
+        name,
+        start: true,
+      });
+    } else if (session.status === 'STOPPED' || session.status === 'FAILED') {
+      session = await this.request<WahaSession>(
+        'POST',
+        `/api/sessions/${encodeURIComponent(name)}/start`,
+      );
+    }
+
+    return this.toState(session);
+  }
+
+  async hasSession(device: EngineDevice): Promise<boolean> {
+    return !!(await this.findSession(device.deviceId));
+  }
+
+  async getQRCode(device: EngineDevice): Promise<string | null> {
+    const session = await this.findSession(device.deviceId);
+    if (session?.status !== 'SCAN_QR_CODE') {
+      return null;
+    }
+
+    const qr = await this.request<{ value: string }>(
+      'GET',
+      `/api/${encodeURIComponent(device.deviceId)}/auth/qr?format=raw`,
+    );
+    return qr?.value || null;
+  }
+
+  async requestPairingCode(
+    device: EngineDevice,
+    phoneNumber: string,
+  ): Promise<string> {
+    const response = await this.request<{ code: string }>(
+      'POST',
+      `/api/${encodeURIComponent(device.deviceId)}/auth/request-code`,
+      { phoneNumber },
+    );
+    if (!response?.code) {
+      throw new Error('WAHA did not return a pairing code');
+    }
+    return response.code;
+  }
+
+  async getState(device: EngineDevice): Promise<EngineSessionState> {
+    const session = await this.findSession(device.deviceId);
+    return session ? this.toState(session) : { status: 'disconnected' };
+  }
+
+  async sendMessage(
+    device: EngineDevice,
+    jid: string,
+    message: OutboundMessage,
+  ): Promise<EngineSendResult> {
+    const { path, body } = buildWahaSendRequest(device.deviceId, jid, message);
+    const response = await this.request<WahaSendResponse>(
+      'POST',
+      `/api/${path}`,
+      body,
+    );
+
+    const whatsappMessageId = this.messageIdOf(response);
+    if (!whatsappMessageId) {
+      throw new Error('WAHA did not return a message ID');
+    }
+    return { whatsappMessageId };
+  }
+
+  async disconnect(device: EngineDevice): Promise<void> {
+    await this.request(
+      'POST',
+      `/api/sessions/${encodeURIComponent(device.deviceId)}/stop`,
+      undefined,
+      true,
+    );
+  }
+
+  async logout(device: EngineDevice): Promise<void> {
+    const name = encodeURIComponent(device.deviceId);
+    // Sessions that never got paired (or are gone already) return 404
+    await this.request('POST', `/api/sessions/${name}/logout`, undefined, true);
+    await this.request('DELETE', `/api/sessions/${name}`, undefined, true);
+  }
+
+  /**
+   * Downloads media referenced by a webhook event. Only the path of the URL
+   * is used so the API key never leaves the configured WAHA server.
+   */
+  async downloadMedia(url: string): Promise<Buffer> {
+    const { pathname, search } = new URL(url, this.apiUrl);
+    const response = await this.fetch('GET', `${pathname}${search}`);
+    if (!response.ok) {
+      throw new Error(
+        `WAHA media download failed with HTTP ${response.status}`,
+      );
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  private findSession(name: string): Promise<WahaSession | null> {
+    return this.request<WahaSession>(
+      'GET',
+      `/api/sessions/${encodeURIComponent(name)}`,
+      undefined,
+      true,
+    );
+  }
+
+  private toState(session: WahaSession | null): EngineSessionState {
+    return {
+      status: mapWahaSessionStatus(session?.status),
+      ...(session?.me?.id && { phoneNumber: jidToPhoneNumber(session.me.id) }),
+    };
+  }
+
+  // WEBJS answers with the serialized message ID, NOWEB with the message key
+  private messageIdOf(response: WahaSendResponse | null): string | undefined {
+    if (typeof response?.id === 'string') {
+      return response.id;
+    }
+    if (response?.id?._serialized) {
+      return response.id._serialized;
+    }
+    if (response?.key?.id) {
+      const { fromMe, remoteJid, id } = response.key;
+      return `${fromMe}_${toWahaChatId(remoteJid)}_${id}`;
+    }
+    return undefined;
+  }
+
+  private async request<T>(
+    method: HttpMethod,
+    path: string,
+    body?: Record<string, unknown>,
+    allowNotFound = false,
+  ): Promise<T | null> {
+    const response = await this.fetch(method, path, body);
+
+    if (response.status === 404 && allowNotFound) {
+      return null;
+    }
+
+    const text = await response.text();
+    if (!response.ok) {
+      throw new Error(
+        `WAHA ${method} ${path} failed with HTTP ${response.status}: ${text.slice(0, 200)}`,
+      );
+    }
+    return text ? (JSON.parse(text) as T) : null;
+  }
+
+  private async fetch(
+    method: HttpMethod,
+    path: string,
+    body?: Record<string, unknown>,
+  ): Promise<Response> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.requestTimeoutMs);
+
+    try {
+      return await fetch(`${this.apiUrl}${path}`, {
+        method,
+        headers: {
+          Accept: 'application/json',
+          ...(body && { 'Content-Type': 'application/json' }),
+          ...(this.apiKey && { 'X-Api-Key': this.apiKey }),
+        },
+        body: body && JSON.stringify(body),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      throw new Error(
+        controller.signal.aborted
+          ? `WAHA ${method} ${path} did not respond within ${this.requestTimeoutMs}ms`
+          : `WAHA ${method} ${path} failed: ${(error as Error).message}`,
+      );
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
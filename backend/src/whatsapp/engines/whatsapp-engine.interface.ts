@@ -0,0 +1,70 @@
+import { Types } from 'mongoose';
+import { OutboundMessage } from '../mappers/outbound-message.mapper';
+
+export type WhatsAppEngineName = 'baileys' | 'waha';
+
+export const WHATSAPP_ENGINES: WhatsAppEngineName[] = ['baileys', 'waha'];
+
+export type EngineConnectionStatus =
+  'connected' | 'connecting' | 'disconnected';
+
+/**
+ * The parts of a device an engine needs. `deviceId` is the session key the
+ * engine knows the device by.
+ */
+export interface EngineDevice {
+  _id: Types.ObjectId;
+  deviceId: string;
+  tenantId: Types.ObjectId;
+}
+
+export interface EngineSessionState {
+  status: EngineConnectionStatus;
+  phoneNumber?: string; // Known once the device is paired
+}
+
+export interface EngineSendResult {
+  whatsappMessageId: string;
+}
+
+/**
+ * A WhatsApp client implementation devices can run on. Engines report QR
+ * codes, connection changes, incoming messages and receipts through
+ * `EngineEventsService` as they happen.
+ */
+export interface WhatsAppEngine {
+  readonly name: WhatsAppEngineName;
+
+  /** Starts (or resumes) the device session. */
+  connect(device: EngineDevice): Promise<EngineSessionState>;
+
+  /** Whether the device is paired, so `connect` resumes without a QR scan. */
+  hasSession(device: EngineDevice): Promise<boolean>;
+
+  /** Raw QR value to pair the device, or null when none is pending. */
+  getQRCode(device: EngineDevice): Promise<string | null>;
+
+  /**
+   * Requests a code to link the device by phone number instead of scanning
+   * the QR code. Only possible while a QR code is pending; `phoneNumber` is
+   * digits only, with country code.
+   */
+  requestPairingCode(
+    device: EngineDevice,
+    phoneNumber: string,
+  ): Promise<string>;
+
+  getState(device: EngineDevice): Promise<EngineSessionState>;
+
+  sendMessage(
+    device: EngineDevice,
+    jid: string,
+    message: OutboundMessage,
+  ): Promise<EngineSendResult>;
+
+  /** Closes the connection but keeps the device paired. */
+  disconnect(device: EngineDevice): Promise<void>;
+
+  /** Unpairs the device and removes its session. */
+  logout(device: EngineDevice): Promise<void>;
+}
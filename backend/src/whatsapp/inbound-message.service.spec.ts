@@ -0,0 +1,371 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { InboundMessageService } from './inbound-message.service';
+import { Message } from '../database/schemas/message.schema';
+import { WhatsAppSession } from '../database/schemas/whatsapp-session.schema';
+import { Contact } from '../database/schemas/contact.schema';
+import { ChatGroup } from '../database/schemas/chat-group.schema';
+import { InboundMessage } from './interfaces/inbound-message.interface';
+import { MediaService } from './media.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { ConversationsService } from '../conversations/conversations.service';
+import { ConsentService } from '../consent/consent.service';
+
+describe('InboundMessageService', () => {
+  let service: InboundMessageService;
+
+  const device = {
+    _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+    tenantId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+  };
+
+  const savedDocs: any[] = [];
+  const MockMessageModel = jest.fn().mockImplementation((doc) => ({
+    ...doc,
+    save: jest.fn().mockImplementation(() => {
+      savedDocs.push(doc);
+      return Promise.resolve({ _id: new Types.ObjectId(), ...doc });
+    }),
+  })) as any;
+
+  const mockWhatsAppSessionModel = {
+    findByIdAndUpdate: jest.fn(),
+  };
+  const mockContactModel = {
+    updateOne: jest.fn(),
+  };
+  const mockChatGroupModel = {
+    findOne: jest.fn(),
+    findByIdAndUpdate: jest.fn(),
+  };
+
+  const mockMediaService = {
+    storeInboundMedia: jest.fn(),
+  };
+
+  const mockWebhooksService = {
+    publish: jest.fn(),
+  };
+
+  const mockConversationsService = {
+    recordMessage: jest.fn(),
+  };
+
+  const mockConsentService = {
+    applyKeyword: jest.fn(),
+  };
+
+  const execResult = (value: any) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const baseInbound: InboundMessage = {
+    whatsappMessageId: 'ABC123',
+    remoteJid: '1234567890@s.whatsapp.net',
+    senderJid: '1234567890@s.whatsapp.net',
+    fromMe: false,
+    isGroup: false,
+    timestamp: new Date('2024-01-15T10:30:00.000Z'),
+    pushName: 'John',
+    messageType: 'text',
+    content: 'Hello there',
+  };
+
+  beforeEach(async () => {
+    savedDocs.length = 0;
+    MockMessageModel.findOne = jest.fn().mockReturnValue(execResult(null));
+    MockMessageModel.updateOne = jest.fn().mockReturnValue(execResult(null));
+    mockMediaService.storeInboundMedia.mockReset();
+    mockWebhooksService.publish.mockReset();
+    mockConversationsService.recordMessage.mockReset();
+    mockConsentService.applyKeyword.mockReset().mockResolvedValue(false);
+    mockWhatsAppSessionModel.findByIdAndUpdate.mockReturnValue(
+      execResult(null),
+    );
+    mockContactModel.updateOne.mockReturnValue(execResult(null));
+    mockChatGroupModel.findOne.mockReturnValue(execResult(null));
+    mockChatGroupModel.findByIdAndUpdate.mockReturnValue(execResult(null));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InboundMessageService,
+        { provide: getModelToken(Message.name), useValue: MockMessageModel },
+        {
+          provide: getModelToken(WhatsAppSession.name),
+          useValue: mockWhatsAppSessionModel,
+        },
+        { provide: getModelToken(Contact.name), useValue: mockContactModel },
+        {
+          provide: getModelToken(ChatGroup.name),
+          useValue: mockChatGroupModel,
+        },
+        { provide: MediaService, useValue: mockMediaService },
+        { provide: WebhooksService, useValue: mockWebhooksService },
+        {
+          provide: ConversationsService,
+          useValue: mockConversationsService,
+        },
+        { provide: ConsentService, useValue: mockConsentService },
+      ],
+    }).compile();
+
+    service = module.get<InboundMessageService>(InboundMessageService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('handleInboundMessage', () => {
+    it('should store an inbound text message and update counters', async () => {
+      const result = await service.handleInboundMessage(device, baseInbound);
+
+      expect(result).not.toBeNull();
+      expect(savedDocs[0]).toMatchObject({
+        direction: 'inbound',
+        phoneNumber: '+1234567890',
+        senderJid: '1234567890@s.whatsapp.net',
+        messageType: 'text',
+        content: 'Hello there',
+        whatsappMessageId: 'ABC123',
+        tenantId: device.tenantId,
+      });
+      expect(mockWhatsAppSessionModel.findByIdAndUpdate).toHaveBeenCalledWith(
+        device._id,
+        expect.objectContaining({ $inc: { messagesReceived: 1 } }),
+      );
+      expect(mockContactModel.updateOne).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tenantId: device.tenantId,
+          phoneNumber: { $in: ['1234567890', '+1234567890'] },
+        }),
+        expect.objectContaining({ $inc: { messagesReceived: 1 } }),
+      );
+      expect(mockWebhooksService.publish).toHaveBeenCalledWith(
+        device.tenantId,
+        'message.received',
+        expect.objectContaining({
+          phoneNumber: '+1234567890',
+          content: 'Hello there',
+          status: 'delivered',
+        }),
+      );
+    });
+
+    it('should skip messages that are already stored', async () => {
+      MockMessageModel.findOne.mockReturnValue(
+        execResult({ _id: new Types.ObjectId() }),
+      );
+
+      const result = await service.handleInboundMessage(device, baseInbound);
+
+      expect(result).toBeNull();
+      expect(savedDocs).toHaveLength(0);
+      expect(mockWhatsAppSessionModel.findByIdAndUpdate).not.toHaveBeenCalled();
+      expect(mockConversationsService.recordMessage).not.toHaveBeenCalled();
+    });
+
+    it('should skip messages a concurrent event stored first', async () => {
+      MockMessageModel.mockImplementationOnce((doc) => ({
+        ...doc,
+        save: jest
+          .fn()
+          .mockRejectedValue(
+            Object.assign(new Error('E11000 duplicate key'), { code: 11000 }),
+          ),
+      }));
+
+      const result = await service.handleInboundMessage(device, baseInbound);
+
+      expect(result).toBeNull();
+      expect(mockWhatsAppSessionModel.findByIdAndUpdate).not.toHaveBeenCalled();
+      expect(mockConversationsService.recordMessage).not.toHaveBeenCalled();
+    });
+
+    it('should file the stored message under its conversation', async () => {
+      const result = await service.handleInboundMessage(device, baseInbound);
+
+      expect(mockConversationsService.recordMessage).toHaveBeenCalledWith(
+        result,
+      );
+    });
+
+    it('should run the registered handlers with the conversation', async () => {
+      const conversation = { _id: new Types.ObjectId() };
+      mockConversationsService.recordMessage.mockResolvedValue(conversation);
+      const failing = {
+        handleInboundMessage: jest.fn().mockRejectedValue(new Error('boom')),
+      };
+      const handler = { handleInboundMessage: jest.fn() };
+      service.addHandler(failing);
+      service.addHandler(handler);
+
+      const result = await service.handleInboundMessage(device, baseInbound);
+
+      expect(result).not.toBeNull();
+      expect(handler.handleInboundMessage).toHaveBeenCalledWith(
+        result,
+        conversation,
+      );
+    });
+
+    it('should not run handlers for consent keywords', async () => {
+      mockConsentService.applyKeyword.mockResolvedValue(true);
+      const handler = { handleInboundMessage: jest.fn() };
+      service.addHandler(handler);
+
+      const result = await service.handleInboundMessage(device, {
+        ...baseInbound,
+        content: 'STOP',
+      });
+
+      expect(mockConsentService.applyKeyword).toHaveBeenCalledWith(result);
+      expect(handler.handleInboundMessage).not.toHaveBeenCalled();
+    });
+
+    it('should run handlers when the consent keyword check fails', async () => {
+      mockConsentService.applyKeyword.mockRejectedValue(new Error('boom'));
+      const handler = { handleInboundMessage: jest.fn() };
+      service.addHandler(handler);
+
+      await service.handleInboundMessage(device, baseInbound);
+
+      expect(handler.handleInboundMessage).toHaveBeenCalled();
+    });
+
+    it('should not check group messages for consent keywords', async () => {
+      await service.handleInboundMessage(device, {
+        ...baseInbound,
+        remoteJid: '120363025123456789@g.us',
+        isGroup: true,
+        content: 'STOP',
+      });
+
+      expect(mockConsentService.applyKeyword).not.toHaveBeenCalled();
+    });
+
+    it('should not run handlers for messages sent from the phone', async () => {
+      const handler = { handleInboundMessage: jest.fn() };
+      service.addHandler(handler);
+
+      await service.handleInboundMessage(device, {
+        ...baseInbound,
+        fromMe: true,
+      });
+
+      expect(handler.handleInboundMessage).not.toHaveBeenCalled();
+    });
+
+    it('should link group messages to the matching chat group', async () => {
+      const groupId = new Types.ObjectId();
+      mockChatGroupModel.findOne.mockReturnValue(execResult({ _id: groupId }));
+
+      await service.handleInboundMessage(device, {
+        ...baseInbound,
+        remoteJid: '120363025123456789@g.us',
+        senderJid: '1987654321@s.whatsapp.net',
+        isGroup: true,
+      });
+
+      expect(mockChatGroupModel.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({
+          groupId: {
+            $in: ['120363025123456789@g.us', '120363025123456789'],
+          },
+        }),
+      );
+      expect(savedDocs[0]).toMatchObject({
+        groupId,
+        phoneNumber: '+1987654321',
+        remoteJid: '120363025123456789@g.us',
+      });
+      expect(mockChatGroupModel.findByIdAndUpdate).toHaveBeenCalledWith(
+        groupId,
+        expect.objectContaining({ $inc: { messagesReceived: 1 } }),
+      );
+    });
+
+    it('should resolve replies to the quoted stored message', async () => {
+      const quotedId = new Types.ObjectId();
+      MockMessageModel.findOne
+        .mockReturnValueOnce(execResult(null))
+        .mockReturnValueOnce(execResult({ _id: quotedId }));
+
+      await service.handleInboundMessage(device, {
+        ...baseInbound,
+        quotedMessageId: 'QUOTED1',
+      });
+
+      expect(savedDocs[0]).toMatchObject({
+        replyToMessageId: quotedId,
+        quotedWhatsappMessageId: 'QUOTED1',
+      });
+    });
+
+    it('should store messages sent from the phone as outbound without counters', async () => {
+      await service.handleInboundMessage(device, {
+        ...baseInbound,
+        fromMe: true,
+      });
+
+      expect(savedDocs[0]).toMatchObject({
+        direction: 'outbound',
+        status: 'sent',
+      });
+      expect(mockContactModel.updateOne).not.toHaveBeenCalled();
+      expect(mockWebhooksService.publish).not.toHaveBeenCalled();
+    });
+
+    it('should keep location details in metadata', async () => {
+      await service.handleInboundMessage(device, {
+        ...baseInbound,
+        messageType: 'location',
+        content: '52.52,13.405',
+        location: { latitude: 52.52, longitude: 13.405 },
+      });
+
+      expect(savedDocs[0].metadata).toEqual({
+        location: { latitude: 52.52, longitude: 13.405 },
+      });
+    });
+
+    it('should download media into the media library', async () => {
+      const mediaId = new Types.ObjectId();
+      const data = Buffer.from('image-bytes');
+      mockMediaService.storeInboundMedia.mockResolvedValue({ _id: mediaId });
+
+      await service.handleInboundMessage(device, {
+        ...baseInbound,
+        messageType: 'image',
+        content: '[image]',
+        media: { mimetype: 'image/jpeg' },
+        downloadMedia: jest.fn().mockResolvedValue(data),
+      });
+
+      expect(mockMediaService.storeInboundMedia).toHaveBeenCalledWith(
+        device,
+        expect.any(Types.ObjectId),
+        data,
+        { mimetype: 'image/jpeg' },
+      );
+      expect(MockMessageModel.updateOne).toHaveBeenCalledWith(
+        expect.any(Object),
+        { 'metadata.media.mediaId': mediaId },
+      );
+    });
+
+    it('should keep the message when the media download fails', async () => {
+      const result = await service.handleInboundMessage(device, {
+        ...baseInbound,
+        messageType: 'image',
+        content: '[image]',
+        media: { mimetype: 'image/jpeg' },
+        downloadMedia: jest.fn().mockRejectedValue(new Error('expired')),
+      });
+
+      expect(result).not.toBeNull();
+      expect(mockMediaService.storeInboundMedia).not.toHaveBeenCalled();
+    });
+  });
+});
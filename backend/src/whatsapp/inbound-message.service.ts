@@ -0,0 +1,270 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { ChatGroup } from '../database/schemas/chat-group.schema';
+import { Contact } from '../database/schemas/contact.schema';
+import { ConversationDocument } from '../database/schemas/conversation.schema';
+import { Message, MessageDocument } from '../database/schemas/message.schema';
+import { WhatsAppSession } from '../database/schemas/whatsapp-session.schema';
+import { InboundMessageHandler } from './interfaces/inbound-message-handler.interface';
+import {
+  InboundDevice,
+  InboundMessage,
+} from './interfaces/inbound-message.interface';
+import { MediaService } from './media.service';
+import { mapMessageResponse } from './mappers/message-response.mapper';
+import { ConsentService } from '../consent/consent.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { ConversationsService } from '../conversations/conversations.service';
+import {
+  jidToPhoneNumber,
+  jidToUser,
+  phoneNumberVariants,
+} from './utils/jid.util';
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+@Injectable()
+export class InboundMessageService {
+  private readonly logger = new Logger(InboundMessageService.name);
+  private readonly handlers: InboundMessageHandler[] = [];
+
+  constructor(
+    @InjectModel(Message.name) private messageModel: Model<Message>,
+    @InjectModel(WhatsAppSession.name)
+    private whatsappSessionModel: Model<WhatsAppSession>,
+    @InjectModel(Contact.name) private contactModel: Model<Contact>,
+    @InjectModel(ChatGroup.name) private chatGroupModel: Model<ChatGroup>,
+    private mediaService: MediaService,
+    private webhooksService: WebhooksService,
+    private conversationsService: ConversationsService,
+    private consentService: ConsentService,
+  ) {}
+
+  /** Adds a handler run for each message received from a counterpart. */
+  addHandler(handler: InboundMessageHandler): void {
+    this.handlers.push(handler);
+  }
+
+  /**
+   * Persists a message received on a device socket and updates the
+   * device, contact and group counters. Messages already stored for the
+   * device (e.g. our own sends echoed back by WhatsApp) are ignored.
+   */
+  async handleInboundMessage(
+    device: InboundDevice,
+    inbound: InboundMessage,
+  ): Promise<MessageDocument | null> {
+    const existing = await this.messageModel
+      .findOne({
+        deviceId: device._id,
+        whatsappMessageId: inbound.whatsappMessageId,
+      })
+      .exec();
+
+    if (existing) {
+      return null;
+    }
+
+    const direction = inbound.fromMe ? 'outbound' : 'inbound';
+    const counterpartJid = inbound.isGroup
+      ? inbound.senderJid
+      : inbound.remoteJid;
+
+    const [group, quoted] = await Promise.all([
+      inbound.isGroup
+        ? this.chatGroupModel
+            .findOne({
+              tenantId: device.tenantId,
+              groupId: {
+                $in: [inbound.remoteJid, jidToUser(inbound.remoteJid)],
+              },
+              isDeleted: false,
+            })
+            .exec()
+        : Promise.resolve(null),
+      inbound.quotedMessageId
+        ? this.messageModel
+            .findOne({
+              deviceId: device._id,
+              whatsappMessageId: inbound.quotedMessageId,
+            })
+            .exec()
+        : Promise.resolve(null),
+    ]);
+
+    const newMessage = new this.messageModel({
+      deviceId: device._id,
+      tenantId: device.tenantId,
+      direction,
+      phoneNumber: jidToPhoneNumber(counterpartJid),
+      remoteJid: inbound.remoteJid,
+      senderJid: inbound.senderJid,
+      pushName: inbound.pushName,
+      messageType: inbound.messageType,
+      content: inbound.content,
+      caption: inbound.caption,
+      groupId: group?._id,
+      replyToMessageId: quoted?._id,
+      quotedWhatsappMessageId: inbound.quotedMessageId,
+      mentionedPhoneNumbers: (inbound.mentionedJids || []).map((jid) =>
+        jidToPhoneNumber(jid),
+      ),
+      status: direction === 'inbound' ? 'delivered' : 'sent',
+      whatsappMessageId: inbound.whatsappMessageId,
+      sentAt: inbound.timestamp,
+      ...(direction === 'inbound' && { deliveredAt: inbound.timestamp }),
+      metadata: {
+        ...(inbound.location && { location: inbound.location }),
+        ...(inbound.media && { media: inbound.media }),
+        ...(inbound.vcard && { vcard: inbound.vcard }),
+      },
+      isDeleted: false,
+    });
+
+    let savedMessage: MessageDocument;
+    try {
+      savedMessage = await newMessage.save();
+    } catch (error) {
+      // A concurrent event stored the same message first
+      if (error.code !== DUPLICATE_KEY_ERROR) {
+        throw error;
+      }
+      return null;
+    }
+    const conversation =
+      await this.conversationsService.recordMessage(savedMessage);
+
+    if (inbound.downloadMedia) {
+      await this.storeMedia(device, savedMessage, inbound);
+    }
+
+    if (direction === 'inbound') {
+      await this.updateCounters(
+        device,
+        inbound,
+        counterpartJid,
+        group?._id as Types.ObjectId,
+      );
+      await this.webhooksService.publish(
+        device.tenantId,
+        'message.received',
+        mapMessageResponse(savedMessage),
+      );
+      // Nothing should answer a STOP, so keywords skip the handlers
+      const isConsentKeyword =
+        !inbound.isGroup && (await this.applyConsentKeyword(savedMessage));
+      if (!isConsentKeyword) {
+        await this.runHandlers(savedMessage, conversation);
+      }
+    }
+
+    this.logger.log(
+      `Stored ${direction} ${inbound.messageType} message ${inbound.whatsappMessageId} for device ${device._id.toString()}`,
+    );
+
+    return savedMessage;
+  }
+
+  /**
+   * Updates the consent of the sender when the message is an opt-out or
+   * opt-in keyword. Failures are logged only, the message is then handled
+   * like any other.
+   */
+  private async applyConsentKeyword(
+    message: MessageDocument,
+  ): Promise<boolean> {
+    try {
+      return await this.consentService.applyKeyword(message);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to apply consent keyword of message ${message.whatsappMessageId}: ${error.message}`,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Runs the registered handlers in order. Failures are logged only, the
+   * message itself is already stored.
+   */
+  private async runHandlers(
+    message: MessageDocument,
+    conversation: ConversationDocument | null,
+  ): Promise<void> {
+    for (const handler of this.handlers) {
+      try {
+        await handler.handleInboundMessage(message, conversation);
+      } catch (error) {
+        this.logger.warn(
+          `Inbound message handler failed for message ${message.whatsappMessageId}: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Downloads the message media into the tenant media library. Failures are
+   * logged only, the message itself is already stored.
+   */
+  private async storeMedia(
+    device: InboundDevice,
+    message: MessageDocument,
+    inbound: InboundMessage,
+  ): Promise<void> {
+    try {
+      const data = await inbound.downloadMedia();
+      const mediaFile = await this.mediaService.storeInboundMedia(
+        device,
+        message._id,
+        data,
+        inbound.media || {},
+      );
+      if (!mediaFile) {
+        return;
+      }
+
+      await this.messageModel
+        .updateOne(
+          { _id: message._id },
+          { 'metadata.media.mediaId': mediaFile._id },
+        )
+        .exec();
+    } catch (error) {
+      this.logger.warn(
+        `Failed to store media of message ${inbound.whatsappMessageId}: ${error.message}`,
+      );
+    }
+  }
+
+  private async updateCounters(
+    device: InboundDevice,
+    inbound: InboundMessage,
+    counterpartJid: string,
+    groupId?: Types.ObjectId,
+  ): Promise<void> {
+    const counterUpdate = {
+      $inc: { messagesReceived: 1 },
+      lastMessageAt: inbound.timestamp,
+    };
+
+    await Promise.all([
+      this.whatsappSessionModel
+        .findByIdAndUpdate(device._id, counterUpdate)
+        .exec(),
+      this.contactModel
+        .updateOne(
+          {
+            tenantId: device.tenantId,
+            phoneNumber: { $in: phoneNumberVariants(counterpartJid) },
+            isDeleted: false,
+          },
+          counterUpdate,
+        )
+        .exec(),
+      groupId
+        ? this.chatGroupModel.findByIdAndUpdate(groupId, counterUpdate).exec()
+        : Promise.resolve(null),
+    ]);
+  }
+}
@@ -0,0 +1,14 @@
+import { ConversationDocument } from '../../database/schemas/conversation.schema';
+import { MessageDocument } from '../../database/schemas/message.schema';
+
+/**
+ * Reacts to messages received from a counterpart once they are stored and
+ * filed under their conversation. Registered by feature modules that
+ * depend on the WhatsApp module, e.g. auto-replies.
+ */
+export interface InboundMessageHandler {
+  handleInboundMessage(
+    message: MessageDocument,
+    conversation: ConversationDocument | null,
+  ): Promise<void>;
+}
@@ -0,0 +1,44 @@
+import { Types } from 'mongoose';
+import { Message } from '../../database/schemas/message.schema';
+
+export type InboundMessageType = Message['messageType'];
+
+export interface InboundLocation {
+  latitude: number;
+  longitude: number;
+  name?: string;
+  address?: string;
+}
+
+export interface InboundMedia {
+  mimetype?: string;
+  fileName?: string;
+  fileLength?: number;
+}
+
+/**
+ * Engine-agnostic representation of a message received on a device socket.
+ */
+export interface InboundMessage {
+  whatsappMessageId: string;
+  remoteJid: string; // Chat the message belongs to (contact or group)
+  senderJid: string; // Author of the message (participant for groups)
+  fromMe: boolean;
+  isGroup: boolean;
+  timestamp: Date;
+  pushName?: string;
+  messageType: InboundMessageType;
+  content: string;
+  caption?: string;
+  quotedMessageId?: string;
+  mentionedJids?: string[];
+  location?: InboundLocation;
+  media?: InboundMedia;
+  vcard?: string;
+  downloadMedia?: () => Promise<Buffer>; // Set by the engine for media messages
+}
+
+export interface InboundDevice {
+  _id: Types.ObjectId;
+  tenantId: Types.ObjectId;
+}
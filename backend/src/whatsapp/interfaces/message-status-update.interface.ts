@@ -0,0 +1,13 @@
+export type ReceiptStatus = 'sent' | 'delivered' | 'read' | 'failed';
+
+/**
+ * Engine-agnostic acknowledgement for an outbound message. `participantJid`
+ * is set for per-participant receipts on group messages.
+ */
+export interface MessageStatusUpdate {
+  whatsappMessageId: string;
+  remoteJid: string;
+  status: ReceiptStatus;
+  timestamp: Date;
+  participantJid?: string;
+}
@@ -0,0 +1,168 @@
+import {
+  mapBaileysMessage,
+  mapBaileysReceipt,
+  mapBaileysStatusUpdate,
+} from './baileys-message.mapper';
+
+describe('mapBaileysMessage', () => {
+  const key = {
+    remoteJid: '1234567890@s.whatsapp.net',
+    id: 'MSG1',
+    fromMe: false,
+  };
+
+  it('should map plain text messages', () => {
+    const result = mapBaileysMessage({
+      key,
+      messageTimestamp: 1705314600,
+      pushName: 'John',
+      message: { conversation: 'Hello' },
+    } as any);
+
+    expect(result).toMatchObject({
+      whatsappMessageId: 'MSG1',
+      senderJid: '1234567890@s.whatsapp.net',
+      isGroup: false,
+      messageType: 'text',
+      content: 'Hello',
+      pushName: 'John',
+    });
+    expect(result.timestamp).toEqual(new Date(1705314600 * 1000));
+  });
+
+  it('should map replies with quoted message and mentions', () => {
+    const result = mapBaileysMessage({
+      key,
+      message: {
+        extendedTextMessage: {
+          text: 'Sure',
+          contextInfo: {
+            stanzaId: 'QUOTED1',
+            mentionedJid: ['1987654321@s.whatsapp.net'],
+          },
+        },
+      },
+    } as any);
+
+    expect(result.quotedMessageId).toBe('QUOTED1');
+    expect(result.mentionedJids).toEqual(['1987654321@s.whatsapp.net']);
+  });
+
+  it('should use the participant as sender for group messages', () => {
+    const result = mapBaileysMessage({
+      key: {
+        remoteJid: '120363025123456789@g.us',
+        participant: '1987654321@s.whatsapp.net',
+        id: 'MSG2',
+      },
+      message: { conversation: 'Hi group' },
+    } as any);
+
+    expect(result.isGroup).toBe(true);
+    expect(result.senderJid).toBe('1987654321@s.whatsapp.net');
+  });
+
+  it('should unwrap ephemeral media messages', () => {
+    const result = mapBaileysMessage({
+      key,
+      message: {
+        ephemeralMessage: {
+          message: {
+            imageMessage: { caption: 'Look', mimetype: 'image/jpeg' },
+          },
+        },
+      },
+    } as any);
+
+    expect(result).toMatchObject({
+      messageType: 'image',
+      content: 'Look',
+      caption: 'Look',
+      media: { mimetype: 'image/jpeg' },
+    });
+  });
+
+  it('should map location messages', () => {
+    const result = mapBaileysMessage({
+      key,
+      message: {
+        locationMessage: { degreesLatitude: 52.52, degreesLongitude: 13.405 },
+      },
+    } as any);
+
+    expect(result.messageType).toBe('location');
+    expect(result.location).toMatchObject({
+      latitude: 52.52,
+      longitude: 13.405,
+    });
+  });
+
+  it('should ignore protocol messages and status broadcasts', () => {
+    expect(
+      mapBaileysMessage({
+        key,
+        message: { protocolMessage: { type: 0 } },
+      } as any),
+    ).toBeNull();
+    expect(
+      mapBaileysMessage({
+        key: { ...key, remoteJid: 'status@broadcast' },
+        message: { conversation: 'status' },
+      } as any),
+    ).toBeNull();
+  });
+});
+
+describe('mapBaileysStatusUpdate', () => {
+  const key = {
+    remoteJid: '1234567890@s.whatsapp.net',
+    id: 'MSG1',
+    fromMe: true,
+  };
+
+  it('should map delivery and read acks of our own messages', () => {
+    expect(
+      mapBaileysStatusUpdate({ key, update: { status: 3 } } as any),
+    ).toMatchObject({ whatsappMessageId: 'MSG1', status: 'delivered' });
+    expect(
+      mapBaileysStatusUpdate({ key, update: { status: 5 } } as any)?.status,
+    ).toBe('read');
+  });
+
+  it('should ignore updates without status and messages from others', () => {
+    expect(
+      mapBaileysStatusUpdate({ key, update: { starred: true } } as any),
+    ).toBeNull();
+    expect(
+      mapBaileysStatusUpdate({
+        key: { ...key, fromMe: false },
+        update: { status: 4 },
+      } as any),
+    ).toBeNull();
+  });
+});
+
+describe('mapBaileysReceipt', () => {
+  it('should map participant delivery and read receipts', () => {
+    const result = mapBaileysReceipt({
+      key: { remoteJid: '120363025123456789@g.us', id: 'MSG2', fromMe: true },
+      receipt: {
+        userJid: '1987654321@s.whatsapp.net',
+        receiptTimestamp: 1705314600,
+        readTimestamp: 1705314700,
+      },
+    } as any);
+
+    expect(result).toEqual([
+      expect.objectContaining({
+        status: 'delivered',
+        participantJid: '1987654321@s.whatsapp.net',
+        timestamp: new Date(1705314600 * 1000),
+      }),
+      expect.objectContaining({
+        status: 'read',
+        timestamp: new Date(1705314700 * 1000),
+      }),
+    ]);
+  });
+});
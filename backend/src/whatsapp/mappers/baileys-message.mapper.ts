@@ -0,0 +1,276 @@
+import type {
+  MessageUserReceiptUpdate,
+  proto,
+  WAMessage,
+  WAMessageUpdate,
+} from '@whiskeysockets/baileys';
+import { InboundMessage } from '../interfaces/inbound-message.interface';
+import {
+  MessageStatusUpdate,
+  ReceiptStatus,
+} from '../interfaces/message-status-update.interface';
+import { isGroupJid } from '../utils/jid.util';
+
+/**
+ * Unwraps container messages (ephemeral, view once, edits...) so the
+ * actual payload can be inspected.
+ */
+function unwrapMessage(
+  message: proto.IMessage | null | undefined,
+): proto.IMessage | null {
+  let current = message;
+  for (let depth = 0; current && depth < 5; depth++) {
+    const inner =
+      current.ephemeralMessage?.message ||
+      current.viewOnceMessage?.message ||
+      current.viewOnceMessageV2?.message ||
+      current.viewOnceMessageV2Extension?.message ||
+      current.documentWithCaptionMessage?.message ||
+      current.editedMessage?.message;
+    if (!inner) {
+      return current;
+    }
+    current = inner;
+  }
+  return current ?? null;
+}
+
+// Values of proto.WebMessageInfo.Status
+const WA_STATUS: Record<number, ReceiptStatus> = {
+  0: 'failed', // ERROR
+  2: 'sent', // SERVER_ACK
+  3: 'delivered', // DELIVERY_ACK
+  4: 'read', // READ
+  5: 'read', // PLAYED
+};
+
+function toDate(timestamp: WAMessage['messageTimestamp']): Date {
+  if (!timestamp) {
+    return new Date();
+  }
+  const seconds =
+    typeof timestamp === 'number' ? timestamp : Number(timestamp.toString());
+  return new Date(seconds * 1000);
+}
+
+function toNumber(value: number | { toString(): string } | null | undefined) {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  return typeof value === 'number' ? value : Number(value.toString());
+}
+
+/**
+ * Maps a Baileys `messages.upsert` entry to an {@link InboundMessage}.
+ * Returns `null` for protocol, reaction and other non-content messages.
+ */
+export function mapBaileysMessage(msg: WAMessage): InboundMessage | null {
+  const remoteJid = msg.key?.remoteJid;
+  const whatsappMessageId = msg.key?.id;
+  if (!remoteJid || !whatsappMessageId || remoteJid === 'status@broadcast') {
+    return null;
+  }
+
+  const content = unwrapMessage(msg.message);
+  if (!content) {
+    return null;
+  }
+
+  const isGroup = isGroupJid(remoteJid);
+  const base = {
+    whatsappMessageId,
+    remoteJid,
+    senderJid: (isGroup ? msg.key.participant : remoteJid) || remoteJid,
+    fromMe: !!msg.key.fromMe,
+    isGroup,
+    timestamp: toDate(msg.messageTimestamp),
+    pushName: msg.pushName || undefined,
+  };
+
+  const withContext = (
+    contextInfo: proto.IContextInfo | null | undefined,
+  ): Pick<InboundMessage, 'quotedMessageId' | 'mentionedJids'> => ({
+    quotedMessageId: contextInfo?.stanzaId || undefined,
+    mentionedJids: contextInfo?.mentionedJid?.length
+      ? contextInfo.mentionedJid
+      : undefined,
+  });
+
+  if (content.conversation) {
+    return { ...base, messageType: 'text', content: content.conversation };
+  }
+
+  if (content.extendedTextMessage?.text) {
+    const { text, contextInfo } = content.extendedTextMessage;
+    return {
+      ...base,
+      ...withContext(contextInfo),
+      messageType: 'text',
+      content: text,
+    };
+  }
+
+  const image = content.imageMessage || content.stickerMessage;
+  if (image) {
+    const caption = content.imageMessage?.caption || undefined;
+    return {
+      ...base,
+      ...withContext(image.contextInfo),
+      messageType: 'image',
+      content: caption || '[image]',
+      caption,
+      media: {
+        mimetype: image.mimetype || undefined,
+        fileLength: toNumber(image.fileLength),
+      },
+    };
+  }
+
+  if (content.videoMessage) {
+    const video = content.videoMessage;
+    return {
+      ...base,
+      ...withContext(video.contextInfo),
+      messageType: 'video',
+      content: video.caption || '[video]',
+      caption: video.caption || undefined,
+      media: {
+        mimetype: video.mimetype || undefined,
+        fileLength: toNumber(video.fileLength),
+      },
+    };
+  }
+
+  if (content.audioMessage) {
+    const audio = content.audioMessage;
+    return {
+      ...base,
+      ...withContext(audio.contextInfo),
+      messageType: 'audio',
+      content: audio.ptt ? '[voice note]' : '[audio]',
+      media: {
+        mimetype: audio.mimetype || undefined,
+        fileLength: toNumber(audio.fileLength),
+      },
+    };
+  }
+
+  if (content.documentMessage) {
+    const document = content.documentMessage;
+    return {
+      ...base,
+      ...withContext(document.contextInfo),
+      messageType: 'document',
+      content: document.caption || document.fileName || '[document]',
+      caption: document.caption || undefined,
+      media: {
+        mimetype: document.mimetype || undefined,
+        fileName: document.fileName || undefined,
+        fileLength: toNumber(document.fileLength),
+      },
+    };
+  }
+
+  const location = content.locationMessage || content.liveLocationMessage;
+  if (location) {
+    const latitude = location.degreesLatitude ?? 0;
+    const longitude = location.degreesLongitude ?? 0;
+    const name = content.locationMessage?.name || undefined;
+    const address = content.locationMessage?.address || undefined;
+    return {
+      ...base,
+      ...withContext(location.contextInfo),
+      messageType: 'location',
+      content: name || `${latitude},${longitude}`,
+      location: { latitude, longitude, name, address },
+    };
+  }
+
+  if (content.contactMessage) {
+    const contact = content.contactMessage;
+    return {
+      ...base,
+      ...withContext(contact.contextInfo),
+      messageType: 'contact',
+      content: contact.displayName || '[contact]',
+      vcard: contact.vcard || undefined,
+    };
+  }
+
+  if (content.contactsArrayMessage?.contacts?.length) {
+    const contacts = content.contactsArrayMessage.contacts;
+    return {
+      ...base,
+      ...withContext(content.contactsArrayMessage.contextInfo),
+      messageType: 'contact',
+      content:
+        contacts.map((contact) => contact.displayName).join(', ') ||
+        '[contacts]',
+      vcard: contacts.map((contact) => contact.vcard).join('\n'),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Maps a Baileys `messages.update` entry carrying an ack status.
+ * Only our own messages are relevant; other updates return `null`.
+ */
+export function mapBaileysStatusUpdate(
+  update: WAMessageUpdate,
+): MessageStatusUpdate | null {
+  const status = WA_STATUS[update.update?.status ?? -1];
+  if (!status || !update.key?.fromMe || !update.key.id) {
+    return null;
+  }
+  if (!update.key.remoteJid) {
+    return null;
+  }
+
+  return {
+    whatsappMessageId: update.key.id,
+    remoteJid: update.key.remoteJid,
+    status,
+    timestamp: new Date(),
+  };
+}
+
+/**
+ * Maps a Baileys `message-receipt.update` entry (per-participant receipts,
+ * mostly for group messages). A single receipt may report both the
+ * delivery and the read time.
+ */
+export function mapBaileysReceipt(
+  receiptUpdate: MessageUserReceiptUpdate,
+): MessageStatusUpdate[] {
+  const { key, receipt } = receiptUpdate;
+  if (!key?.id || !key.remoteJid || !receipt?.userJid) {
+    return [];
+  }
+
+  const base = {
+    whatsappMessageId: key.id,
+    remoteJid: key.remoteJid,
+    participantJid: receipt.userJid,
+  };
+  const updates: MessageStatusUpdate[] = [];
+
+  if (receipt.receiptTimestamp) {
+    updates.push({
+      ...base,
+      status: 'delivered',
+      timestamp: toDate(receipt.receiptTimestamp),
+    });
+  }
+  const readTimestamp = receipt.readTimestamp || receipt.playedTimestamp;
+  if (readTimestamp) {
+    updates.push({
+      ...base,
+      status: 'read',
+      timestamp: toDate(readTimestamp),
+    });
+  }
+
+  return updates;
+}
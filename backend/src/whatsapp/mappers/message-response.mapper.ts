@@ -0,0 +1,36 @@
+import { MessageDocument } from '../../database/schemas/message.schema';
+import { MessageResponseDto } from '../dto/message-response.dto';
+import { MessageType } from '../dto/send-message.dto';
+
+export function mapMessageResponse(
+  message: MessageDocument,
+): MessageResponseDto {
+  return {
+    id: message._id.toString(),
+    deviceId: message.deviceId.toString(),
+    phoneNumber: message.phoneNumber,
+    direction: message.direction,
+    senderJid: message.senderJid,
+    pushName: message.pushName,
+    messageType: message.messageType as MessageType,
+    content: message.content,
+    caption: message.caption,
+    groupId: message.groupId?.toString(),
+    conversationId: message.conversationId?.toString(),
+    replyToMessageId: message.replyToMessageId?.toString(),
+    mentionedPhoneNumbers: message.mentionedPhoneNumbers,
+    broadcast: message.broadcast,
+    status: message.status,
+    whatsappMessageId: message.whatsappMessageId,
+    errorMessage: message.errorMessage,
+    tenantId: message.tenantId.toString(),
+    sentBy: message.sentBy?.toString() || '',
+    sentAt: message.sentAt,
+    deliveredAt: message.deliveredAt,
+    readAt: message.readAt,
+    scheduledAt: message.scheduledAt,
+    scheduledTimeZone: message.scheduledTimeZone,
+    templateId: message.templateId?.toString(),
+    templateVersion: message.templateVersion,
+  };
+}
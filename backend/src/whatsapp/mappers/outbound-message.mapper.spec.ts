@@ -0,0 +1,162 @@
+import { BadRequestException } from '@nestjs/common';
+import { MessageType, SendMessageDto } from '../dto/send-message.dto';
+import { buildOutboundMessage } from './outbound-message.mapper';
+
+describe('buildOutboundMessage', () => {
+  const base: SendMessageDto = {
+    deviceId: '507f1f77bcf86cd799439011',
+    phoneNumber: '+1234567890',
+    messageType: MessageType.TEXT,
+    content: 'Hello',
+  };
+
+  it('should build text messages', () => {
+    expect(buildOutboundMessage(base)).toEqual({
+      payload: { text: 'Hello' },
+      content: 'Hello',
+      metadata: {},
+    });
+  });
+
+  it('should build image messages with caption', () => {
+    const result = buildOutboundMessage({
+      ...base,
+      messageType: MessageType.IMAGE,
+      content: 'https://example.com/image.jpg',
+      caption: 'Check out this image!',
+    });
+
+    expect(result.payload).toEqual({
+      image: { url: 'https://example.com/image.jpg' },
+      caption: 'Check out this image!',
+    });
+  });
+
+  it('should build documents with mimetype and file name from the URL', () => {
+    const result = buildOutboundMessage({
+      ...base,
+      messageType: MessageType.DOCUMENT,
+      content: 'https://example.com/files/invoice%201.pdf',
+      mimetype: 'application/pdf',
+    });
+
+    expect(result.payload).toMatchObject({
+      document: { url: 'https://example.com/files/invoice%201.pdf' },
+      mimetype: 'application/pdf',
+      fileName: 'invoice 1.pdf',
+    });
+  });
+
+  it('should build location messages from coordinates', () => {
+    const result = buildOutboundMessage({
+      ...base,
+      messageType: MessageType.LOCATION,
+      content: undefined,
+      location: { latitude: 52.52, longitude: 13.405, name: 'Office' },
+    });
+
+    expect(result.payload).toEqual({
+      location: {
+        degreesLatitude: 52.52,
+        degreesLongitude: 13.405,
+        name: 'Office',
+        address: undefined,
+      },
+    });
+    expect(result.content).toBe('Office');
+  });
+
+  it('should build contact messages with a vCard', () => {
+    const result = buildOutboundMessage({
+      ...base,
+      messageType: MessageType.CONTACT,
+      content: undefined,
+      contact: { fullName: 'Jane Doe', phoneNumber: '+1 987 654 321' },
+    });
+
+    expect(result.payload).toEqual({
+      contacts: {
+        displayName: 'Jane Doe',
+        contacts: [
+          {
+            vcard:
+              'BEGIN:VCARD\nVERSION:3.0\nFN:Jane Doe\nTEL;type=CELL;type=VOICE;waid=1987654321:+1987654321\nEND:VCARD',
+          },
+        ],
+      },
+    });
+  });
+
+  it('should send uploaded media from the library', () => {
+    const data = Buffer.from('pdf-bytes');
+    const result = buildOutboundMessage(
+      {
+        ...base,
+        messageType: MessageType.DOCUMENT,
+        content: undefined,
+        mediaId: '507f1f77bcf86cd799439015',
+      },
+      {
+        id: '507f1f77bcf86cd799439015',
+        data,
+        mimetype: 'application/pdf',
+        fileName: 'invoice.pdf',
+      },
+    );
+
+    expect(result.payload).toMatchObject({
+      document: data,
+      mimetype: 'application/pdf',
+      fileName: 'invoice.pdf',
+    });
+    expect(result.content).toBe('invoice.pdf');
+    expect(result.metadata.media.mediaId).toBe('507f1f77bcf86cd799439015');
+  });
+
+  it('should reject uploaded media that does not match the message type', () => {
+    expect(() =>
+      buildOutboundMessage(
+        {
+          ...base,
+          messageType: MessageType.IMAGE,
+          content: undefined,
+          mediaId: '507f1f77bcf86cd799439015',
+        },
+        {
+          id: '507f1f77bcf86cd799439015',
+          data: Buffer.from('pdf-bytes'),
+          mimetype: 'application/pdf',
+          fileName: 'invoice.pdf',
+        },
+      ),
+    ).toThrow(BadRequestException);
+  });
+
+  it('should reject invalid combinations', () => {
+    expect(() =>
+      buildOutboundMessage({ ...base, caption: 'Not allowed' }),
+    ).toThrow(BadRequestException);
+    expect(() =>
+      buildOutboundMessage({
+        ...base,
+        messageType: MessageType.IMAGE,
+        content: 'not a url',
+      }),
+    ).toThrow(BadRequestException);
+    expect(() =>
+      buildOutboundMessage({
+        ...base,
+        messageType: MessageType.LOCATION,
+        content: undefined,
+      }),
+    ).toThrow(BadRequestException);
+    expect(() =>
+      buildOutboundMessage({
+        ...base,
+        messageType: MessageType.VIDEO,
+        content: 'https://example.com/video.mp4',
+        fileName: 'video.mp4',
+      }),
+    ).toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,261 @@
+import { BadRequestException } from '@nestjs/common';
+import type { AnyMessageContent, WAMediaUpload } from '@whiskeysockets/baileys';
+import {
+  MessageContactDto,
+  MessageType,
+  SendMessageDto,
+} from '../dto/send-message.dto';
+
+export interface OutboundMedia {
+  id: string;
+  data: Buffer;
+  mimetype: string;
+  fileName: string;
+}
+
+export interface OutboundMessage {
+  payload: AnyMessageContent;
+  content: string; // Stored as the message content
+  metadata: Record<string, any>;
+}
+
+const MEDIA_TYPES: MessageType[] = [
+  MessageType.IMAGE,
+  MessageType.VIDEO,
+  MessageType.AUDIO,
+  MessageType.DOCUMENT,
+];
+
+// Required MIME type prefix of uploaded media per message type
+const MEDIA_FAMILIES: Partial<Record<MessageType, string>> = {
+  [MessageType.IMAGE]: 'image',
+  [MessageType.VIDEO]: 'video',
+  [MessageType.AUDIO]: 'audio',
+};
+
+const CAPTION_TYPES: MessageType[] = [
+  MessageType.IMAGE,
+  MessageType.VIDEO,
+  MessageType.DOCUMENT,
+];
+
+function toMediaUrl(content: string): string {
+  let url: URL;
+  try {
+    url = new URL(content);
+  } catch {
+    throw new BadRequestException(
+      'Media messages require a valid media URL as content',
+    );
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new BadRequestException('Media URL must use http or https');
+  }
+  return url.toString();
+}
+
+function fileNameFromUrl(url: string): string {
+  const segments = new URL(url).pathname.split('/').filter(Boolean);
+  return decodeURIComponent(segments[segments.length - 1] || 'document');
+}
+
+/**
+ * Resolves the media source from either an uploaded file or the URL in
+ * `content`, making sure uploads match the requested message type.
+ */
+function resolveMedia(
+  dto: SendMessageDto,
+  media?: OutboundMedia,
+): {
+  source: WAMediaUpload;
+  content: string;
+  metadata: Record<string, any>;
+  mimetype?: string;
+  fileName: string;
+} {
+  if (!media) {
+    const url = toMediaUrl(dto.content);
+    return {
+      source: { url },
+      content: url,
+      metadata: { url },
+      fileName: fileNameFromUrl(url),
+    };
+  }
+
+  const family = MEDIA_FAMILIES[dto.messageType];
+  if (family && !media.mimetype.startsWith(`${family}/`)) {
+    throw new BadRequestException(
+      `Media of type ${media.mimetype} cannot be sent as ${dto.messageType}`,
+    );
+  }
+
+  return {
+    source: media.data,
+    content: dto.content || media.fileName,
+    metadata: { mediaId: media.id },
+    mimetype: media.mimetype,
+    fileName: media.fileName,
+  };
+}
+
+function escapeVCard(value: string): string {
+  return value.replace(/([,;\\])/g, '\\$1').replace(/\n/g, '\\n');
+}
+
+function buildVCard(contact: MessageContactDto): string {
+  const digits = contact.phoneNumber.replace(/\D/g, '');
+  return [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    `FN:${escapeVCard(contact.fullName)}`,
+    ...(contact.organization
+      ? [`ORG:${escapeVCard(contact.organization)};`]
+      : []),
+    `TEL;type=CELL;type=VOICE;waid=${digits}:+${digits}`,
+    'END:VCARD',
+  ].join('\n');
+}
+
+function assertAllowedFields(dto: SendMessageDto): void {
+  const type = dto.messageType;
+
+  if (dto.caption && !CAPTION_TYPES.includes(type)) {
+    throw new BadRequestException(
+      `Caption is not supported for ${type} messages`,
+    );
+  }
+  if (dto.fileName && type !== MessageType.DOCUMENT) {
+    throw new BadRequestException(
+      'File name is only supported for document messages',
+    );
+  }
+  if (dto.mimetype && !MEDIA_TYPES.includes(type)) {
+    throw new BadRequestException(
+      'MIME type is only supported for media messages',
+    );
+  }
+  if (dto.mediaId && !MEDIA_TYPES.includes(type)) {
+    throw new BadRequestException(
+      'Media ID is only supported for media messages',
+    );
+  }
+  if (dto.location && type !== MessageType.LOCATION) {
+    throw new BadRequestException(
+      'Location is only supported for location messages',
+    );
+  }
+  if (dto.contact && type !== MessageType.CONTACT) {
+    throw new BadRequestException(
+      'Contact is only supported for contact messages',
+    );
+  }
+}
+
+/**
+ * Builds the Baileys payload for a send request. `media` is the uploaded
+ * file referenced by `dto.mediaId`, if any. Throws a `BadRequestException`
+ * for fields that do not fit the message type.
+ */
+export function buildOutboundMessage(
+  dto: SendMessageDto,
+  media?: OutboundMedia,
+): OutboundMessage {
+  assertAllowedFields(dto);
+
+  switch (dto.messageType) {
+    case MessageType.TEXT:
+      return {
+        payload: { text: dto.content },
+        content: dto.content,
+        metadata: {},
+      };
+
+    case MessageType.IMAGE:
+    case MessageType.VIDEO: {
+      const resolved = resolveMedia(dto, media);
+      const mimetype = dto.mimetype || resolved.mimetype;
+      return {
+        payload: {
+          ...(dto.messageType === MessageType.IMAGE
+            ? { image: resolved.source }
+            : { video: resolved.source }),
+          caption: dto.caption,
+          ...(mimetype && { mimetype }),
+        },
+        content: resolved.content,
+        metadata: { media: { ...resolved.metadata, mimetype } },
+      };
+    }
+
+    case MessageType.AUDIO: {
+      const resolved = resolveMedia(dto, media);
+      const mimetype = dto.mimetype || resolved.mimetype || 'audio/mp4';
+      return {
+        payload: { audio: resolved.source, mimetype },
+        content: resolved.content,
+        metadata: { media: { ...resolved.metadata, mimetype } },
+      };
+    }
+
+    case MessageType.DOCUMENT: {
+      const resolved = resolveMedia(dto, media);
+      const mimetype =
+        dto.mimetype || resolved.mimetype || 'application/octet-stream';
+      const fileName = dto.fileName || resolved.fileName;
+      return {
+        payload: {
+          document: resolved.source,
+          mimetype,
+          fileName,
+          caption: dto.caption,
+        },
+        content: resolved.content,
+        metadata: { media: { ...resolved.metadata, mimetype, fileName } },
+      };
+    }
+
+    case MessageType.LOCATION: {
+      if (!dto.location) {
+        throw new BadRequestException(
+          'Location messages require latitude and longitude',
+        );
+      }
+      const { latitude, longitude, name, address } = dto.location;
+      return {
+        payload: {
+          location: {
+            degreesLatitude: latitude,
+            degreesLongitude: longitude,
+            name,
+            address,
+          },
+        },
+        content: dto.content || name || `${latitude},${longitude}`,
+        metadata: { location: { latitude, longitude, name, address } },
+      };
+    }
+
+    case MessageType.CONTACT: {
+      if (!dto.contact) {
+        throw new BadRequestException(
+          'Contact messages require a contact card',
+        );
+      }
+      const vcard = buildVCard(dto.contact);
+      return {
+        payload: {
+          contacts: {
+            displayName: dto.contact.fullName,
+            contacts: [{ vcard }],
+          },
+        },
+        content: dto.content || dto.contact.fullName,
+        metadata: { vcard },
+      };
+    }
+
+    default:
+      throw new BadRequestException('Invalid message type');
+  }
+}
@@ -0,0 +1,290 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  buildWahaSendRequest,
+  fromWahaChatId,
+  mapWahaAck,
+  mapWahaMessage,
+  toWahaChatId,
+} from './waha-message.mapper';
+
+describe('WAHA chat IDs', () => {
+  it('should convert contact JIDs between Baileys and WAHA', () => {
+    expect(toWahaChatId('1234567890@s.whatsapp.net')).toBe('1234567890@c.us');
+    expect(fromWahaChatId('1234567890@c.us')).toBe('1234567890@s.whatsapp.net');
+  });
+
+  it('should leave group JIDs untouched', () => {
+    expect(toWahaChatId('120363025123456789@g.us')).toBe(
+      '120363025123456789@g.us',
+    );
+    expect(fromWahaChatId('120363025123456789@g.us')).toBe(
+      '120363025123456789@g.us',
+    );
+  });
+});
+
+describe('mapWahaMessage', () => {
+  const message = {
+    id: 'false_1234567890@c.us_MSG1',
+    timestamp: 1705314600,
+    from: '1234567890@c.us',
+    to: '1987654321@c.us',
+    fromMe: false,
+    body: 'Hello',
+    _data: { notifyName: 'John' },
+  };
+
+  it('should map text messages', () => {
+    const result = mapWahaMessage(message);
+
+    expect(result).toMatchObject({
+      whatsappMessageId: 'false_1234567890@c.us_MSG1',
+      remoteJid: '1234567890@s.whatsapp.net',
+      senderJid: '1234567890@s.whatsapp.net',
+      fromMe: false,
+      isGroup: false,
+      messageType: 'text',
+      content: 'Hello',
+      pushName: 'John',
+    });
+    expect(result.timestamp).toEqual(new Date(1705314600 * 1000));
+  });
+
+  it('should use the recipient as chat for own messages', () => {
+    const result = mapWahaMessage({ ...message, fromMe: true });
+
+    expect(result.remoteJid).toBe('1987654321@s.whatsapp.net');
+    expect(result.fromMe).toBe(true);
+  });
+
+  it('should use the participant as sender for group messages', () => {
+    const result = mapWahaMessage({
+      ...message,
+      from: '120363025123456789@g.us',
+      participant: '1987654321@c.us',
+    });
+
+    expect(result).toMatchObject({
+      remoteJid: '120363025123456789@g.us',
+      senderJid: '1987654321@s.whatsapp.net',
+      isGroup: true,
+    });
+  });
+
+  it('should map media messages by MIME type', () => {
+    const result = mapWahaMessage({
+      ...message,
+      body: 'Look',
+      hasMedia: true,
+      media: {
+        url: 'http://waha:3000/api/files/MSG1.jpeg',
+        mimetype: 'image/jpeg',
+      },
+    });
+
+    expect(result).toMatchObject({
+      messageType: 'image',
+      content: 'Look',
+      caption: 'Look',
+      media: { mimetype: 'image/jpeg' },
+    });
+  });
+
+  it('should use the file name as content of documents', () => {
+    const result = mapWahaMessage({
+      ...message,
+      body: '',
+      hasMedia: true,
+      media: { mimetype: 'application/pdf', filename: 'invoice.pdf' },
+    });
+
+    expect(result).toMatchObject({
+      messageType: 'document',
+      content: 'invoice.pdf',
+      media: { mimetype: 'application/pdf', fileName: 'invoice.pdf' },
+    });
+  });
+
+  it('should map locations and contact cards', () => {
+    expect(
+      mapWahaMessage({
+        ...message,
+        body: '',
+        location: { latitude: '40.7', longitude: '-74', description: 'NYC' },
+      }),
+    ).toMatchObject({
+      messageType: 'location',
+      content: 'NYC',
+      location: { latitude: 40.7, longitude: -74, name: 'NYC' },
+    });
+
+    expect(
+      mapWahaMessage({
+        ...message,
+        body: '',
+        vCards: ['BEGIN:VCARD\nFN:Jane\nEND:VCARD'],
+      }),
+    ).toMatchObject({
+      messageType: 'contact',
+      vcard: 'BEGIN:VCARD\nFN:Jane\nEND:VCARD',
+    });
+  });
+
+  it('should skip status broadcasts and empty messages', () => {
+    expect(mapWahaMessage({ ...message, from: 'status@broadcast' })).toBeNull();
+    expect(mapWahaMessage({ ...message, body: '' })).toBeNull();
+  });
+});
+
+describe('mapWahaAck', () => {
+  const ack = {
+    id: 'true_1234567890@c.us_MSG1',
+    from: '1987654321@c.us',
+    to: '1234567890@c.us',
+    fromMe: true,
+    ack: 2,
+  };
+
+  it('should map acks of own messages to receipt statuses', () => {
+    expect(mapWahaAck(ack)).toMatchObject({
+      whatsappMessageId: 'true_1234567890@c.us_MSG1',
+      remoteJid: '1234567890@s.whatsapp.net',
+      status: 'delivered',
+    });
+    expect(mapWahaAck({ ...ack, ack: 4 }).status).toBe('read');
+    expect(mapWahaAck({ ...ack, ack: -1 }).status).toBe('failed');
+  });
+
+  it('should keep the participant of group receipts', () => {
+    const result = mapWahaAck({
+      ...ack,
+      to: '120363025123456789@g.us',
+      participant: '1987654321@c.us',
+      ack: 3,
+    });
+
+    expect(result.participantJid).toBe('1987654321@s.whatsapp.net');
+  });
+
+  it('should skip pending acks and acks of received messages', () => {
+    expect(mapWahaAck({ ...ack, ack: 0 })).toBeNull();
+    expect(mapWahaAck({ ...ack, fromMe: false })).toBeNull();
+  });
+});
+
+describe('buildWahaSendRequest', () => {
+  const jid = '1234567890@s.whatsapp.net';
+
+  it('should send text with sendText', () => {
+    expect(
+      buildWahaSendRequest('device_1', jid, {
+        payload: { text: 'Hello' },
+        content: 'Hello',
+        metadata: {},
+      }),
+    ).toEqual({
+      path: 'sendText',
+      body: { session: 'device_1', chatId: '1234567890@c.us', text: 'Hello' },
+    });
+  });
+
+  it('should send uploaded media as base64 and URLs as url', () => {
+    const uploaded = buildWahaSendRequest('device_1', jid, {
+      payload: {
+        image: Buffer.from('image'),
+        mimetype: 'image/png',
+        caption: 'Hi',
+      },
+      content: 'photo.png',
+      metadata: {},
+    });
+    expect(uploaded).toEqual({
+      path: 'sendImage',
+      body: expect.objectContaining({
+        file: {
+          mimetype: 'image/png',
+          filename: undefined,
+          data: Buffer.from('image').toString('base64'),
+        },
+        caption: 'Hi',
+      }),
+    });
+
+    const linked = buildWahaSendRequest('device_1', jid, {
+      payload: {
+        document: { url: 'https://example.com/invoice.pdf' },
+        mimetype: 'application/pdf',
+        fileName: 'invoice.pdf',
+      },
+      content: 'https://example.com/invoice.pdf',
+      metadata: {},
+    });
+    expect(linked.path).toBe('sendFile');
+    expect(linked.body.file).toEqual({
+      mimetype: 'application/pdf',
+      filename: 'invoice.pdf',
+      url: 'https://example.com/invoice.pdf',
+    });
+  });
+
+  it('should send OGG audio as voice note', () => {
+    const voice = buildWahaSendRequest('device_1', jid, {
+      payload: {
+        audio: { url: 'https://example.com/a.ogg' },
+        mimetype: 'audio/ogg; codecs=opus',
+      },
+      content: 'https://example.com/a.ogg',
+      metadata: {},
+    });
+    const file = buildWahaSendRequest('device_1', jid, {
+      payload: {
+        audio: { url: 'https://example.com/a.mp3' },
+        mimetype: 'audio/mpeg',
+      },
+      content: 'https://example.com/a.mp3',
+      metadata: {},
+    });
+
+    expect(voice.path).toBe('sendVoice');
+    expect(file.path).toBe('sendFile');
+  });
+
+  it('should send locations and contact cards', () => {
+    expect(
+      buildWahaSendRequest('device_1', jid, {
+        payload: {
+          location: {
+            degreesLatitude: 40.7,
+            degreesLongitude: -74,
+            name: 'NYC',
+          },
+        },
+        content: 'NYC',
+        metadata: {},
+      }).body,
+    ).toMatchObject({ latitude: 40.7, longitude: -74, title: 'NYC' });
+
+    expect(
+      buildWahaSendRequest('device_1', jid, {
+        payload: {
+          contacts: { displayName: 'Jane', contacts: [{ vcard: 'VCARD' }] },
+        },
+        content: 'Jane',
+        metadata: {},
+      }),
+    ).toMatchObject({
+      path: 'sendContactVcard',
+      body: { contacts: [{ vcard: 'VCARD' }] },
+    });
+  });
+
+  it('should reject payloads WAHA cannot send', () => {
+    expect(() =>
+      buildWahaSendRequest('device_1', jid, {
+        payload: { react: { text: '👍', key: {} } } as any,
+        content: '',
+        metadata: {},
+      }),
+    ).toThrow(BadRequestException);
+  });
+});
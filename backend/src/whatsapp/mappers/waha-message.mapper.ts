@@ -0,0 +1,257 @@
+import { BadRequestException } from '@nestjs/common';
+import type { WAMediaUpload } from '@whiskeysockets/baileys';
+import type {
+  WahaMessage,
+  WahaMessageAck,
+  WahaSessionStatus,
+} from '../engines/waha/waha-event.interface';
+import type { EngineConnectionStatus } from '../engines/whatsapp-engine.interface';
+import { InboundMessage } from '../interfaces/inbound-message.interface';
+import {
+  MessageStatusUpdate,
+  ReceiptStatus,
+} from '../interfaces/message-status-update.interface';
+import { OutboundMessage } from './outbound-message.mapper';
+import { isGroupJid, jidToUser } from '../utils/jid.util';
+
+// WAHA addresses contacts as `<number>@c.us` where Baileys uses s.whatsapp.net
+const WAHA_USER_SERVER = 'c.us';
+const USER_SERVER = 's.whatsapp.net';
+
+// Values of WAHA's message.ack `ack` field
+const WAHA_ACK: Record<number, ReceiptStatus> = {
+  [-1]: 'failed', // ERROR
+  1: 'sent', // SERVER
+  2: 'delivered', // DEVICE
+  3: 'read', // READ
+  4: 'read', // PLAYED
+};
+
+const WAHA_STATUS: Record<WahaSessionStatus, EngineConnectionStatus> = {
+  STARTING: 'connecting',
+  SCAN_QR_CODE: 'connecting',
+  WORKING: 'connected',
+  STOPPED: 'disconnected',
+  FAILED: 'disconnected',
+};
+
+export interface WahaSendRequest {
+  path: string;
+  body: Record<string, unknown>;
+}
+
+export function toWahaChatId(jid: string): string {
+  return isGroupJid(jid) ? jid : `${jidToUser(jid)}@${WAHA_USER_SERVER}`;
+}
+
+export function fromWahaChatId(chatId: string): string {
+  return chatId?.endsWith(`@${WAHA_USER_SERVER}`)
+    ? `${jidToUser(chatId)}@${USER_SERVER}`
+    : chatId;
+}
+
+export function mapWahaSessionStatus(
+  status: WahaSessionStatus,
+): EngineConnectionStatus {
+  return WAHA_STATUS[status] ?? 'disconnected';
+}
+
+function mediaType(
+  mimetype: string | undefined,
+): 'image' | 'video' | 'audio' | 'document' {
+  const family = mimetype?.split('/')[0];
+  return family === 'image' || family === 'video' || family === 'audio'
+    ? family
+    : 'document';
+}
+
+/**
+ * Maps a WAHA `message` webhook payload to an inbound message. Media is
+ * described only; the engine attaches the download.
+ */
+export function mapWahaMessage(message: WahaMessage): InboundMessage | null {
+  if (!message?.id || !message.from || message.from === 'status@broadcast') {
+    return null;
+  }
+
+  const remoteJid = fromWahaChatId(message.fromMe ? message.to : message.from);
+  const isGroup = isGroupJid(remoteJid);
+  const body = message.body || undefined;
+  const base = {
+    whatsappMessageId: message.id,
+    remoteJid,
+    senderJid:
+      (isGroup && message.participant
+        ? fromWahaChatId(message.participant)
+        : remoteJid) || remoteJid,
+    fromMe: !!message.fromMe,
+    isGroup,
+    timestamp: message.timestamp
+      ? new Date(message.timestamp * 1000)
+      : new Date(),
+    pushName: message._data?.notifyName || message._data?.pushName,
+    quotedMessageId: message.replyTo?.id,
+  };
+
+  if (message.location) {
+    const latitude = Number(message.location.latitude);
+    const longitude = Number(message.location.longitude);
+    const name = message.location.description || undefined;
+    return {
+      ...base,
+      messageType: 'location',
+      content: name || `${latitude},${longitude}`,
+      location: { latitude, longitude, name },
+    };
+  }
+
+  if (message.vCards?.length) {
+    return {
+      ...base,
+      messageType: 'contact',
+      content: body || '[contact]',
+      vcard: message.vCards.join('\n'),
+    };
+  }
+
+  if (message.hasMedia && message.media) {
+    const type = mediaType(message.media.mimetype);
+    const fileName = message.media.filename || undefined;
+    return {
+      ...base,
+      messageType: type,
+      content: body || (type === 'document' && fileName) || `[${type}]`,
+      caption: type === 'audio' ? undefined : body,
+      media: {
+        mimetype: message.media.mimetype,
+        ...(fileName && { fileName }),
+      },
+    };
+  }
+
+  if (!body) {
+    return null;
+  }
+
+  return { ...base, messageType: 'text', content: body };
+}
+
+/**
+ * Maps a WAHA `message.ack` webhook payload. Only acks for our own messages
+ * are relevant; pending acks and incoming messages return `null`.
+ */
+export function mapWahaAck(ack: WahaMessageAck): MessageStatusUpdate | null {
+  const status = WAHA_ACK[ack?.ack];
+  if (!status || !ack.fromMe || !ack.id) {
+    return null;
+  }
+
+  return {
+    whatsappMessageId: ack.id,
+    remoteJid: fromWahaChatId(ack.to),
+    status,
+    timestamp: new Date(),
+    ...(ack.participant && {
+      participantJid: fromWahaChatId(ack.participant),
+    }),
+  };
+}
+
+function toWahaFile(
+  source: WAMediaUpload,
+  mimetype: string | undefined,
+  filename?: string,
+): Record<string, unknown> {
+  if (Buffer.isBuffer(source)) {
+    return { mimetype, filename, data: source.toString('base64') };
+  }
+  if ('url' in source) {
+    return { mimetype, filename, url: source.url.toString() };
+  }
+  throw new BadRequestException('Streamed media is not supported by WAHA');
+}
+
+/**
+ * Translates an outbound message (built by `buildOutboundMessage`) into the
+ * matching WAHA send endpoint and request body.
+ */
+export function buildWahaSendRequest(
+  session: string,
+  jid: string,
+  outbound: OutboundMessage,
+): WahaSendRequest {
+  const chatId = toWahaChatId(jid);
+  const payload = outbound.payload;
+  const base = { session, chatId };
+
+  if ('text' in payload) {
+    return { path: 'sendText', body: { ...base, text: payload.text } };
+  }
+
+  if ('image' in payload) {
+    return {
+      path: 'sendImage',
+      body: {
+        ...base,
+        file: toWahaFile(payload.image, payload.mimetype),
+        caption: payload.caption,
+      },
+    };
+  }
+
+  if ('video' in payload) {
+    return {
+      path: 'sendVideo',
+      body: {
+        ...base,
+        file: toWahaFile(payload.video, payload.mimetype),
+        caption: payload.caption,
+      },
+    };
+  }
+
+  if ('audio' in payload) {
+    // Only Opus/OGG audio can be sent as a voice note
+    const isVoice = payload.mimetype?.includes('ogg');
+    return {
+      path: isVoice ? 'sendVoice' : 'sendFile',
+      body: { ...base, file: toWahaFile(payload.audio, payload.mimetype) },
+    };
+  }
+
+  if ('document' in payload) {
+    return {
+      path: 'sendFile',
+      body: {
+        ...base,
+        file: toWahaFile(payload.document, payload.mimetype, payload.fileName),
+        caption: payload.caption,
+      },
+    };
+  }
+
+  if ('location' in payload) {
+    const { degreesLatitude, degreesLongitude, name } = payload.location;
+    return {
+      path: 'sendLocation',
+      body: {
+        ...base,
+        latitude: degreesLatitude,
+        longitude: degreesLongitude,
+        title: name,
+      },
+    };
+  }
+
+  if ('contacts' in payload) {
+    return {
+      path: 'sendContactVcard',
+      body: {
+        ...base,
+        contacts: payload.contacts.contacts.map(({ vcard }) => ({ vcard })),
+      },
+    };
+  }
+
+  throw new BadRequestException('Message type is not supported by WAHA');
+}
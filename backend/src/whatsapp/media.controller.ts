@@ -0,0 +1,152 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  Request,
+  StreamableFile,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { RequirePermission } from '../auth/decorators/permission.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionGuard } from '../auth/guards/permission.guard';
+import { MediaResponseDto } from './dto/media-response.dto';
+import { QueryMediaDto } from './dto/query-media.dto';
+import { MediaService } from './media.service';
+
+@ApiTags('WhatsApp Media')
+@Controller('whatsapp/media')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+@ApiBearerAuth()
+export class MediaController {
+  constructor(private readonly mediaService: MediaService) {}
+
+  @Post()
+  @RequirePermission('canSendMessages')
+  @HttpCode(HttpStatus.CREATED)
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({
+    summary: 'Upload media',
+    description:
+      'Upload a file to the tenant media library. The returned ID can be used as mediaId when sending messages',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: { file: { type: 'string', format: 'binary' } },
+      required: ['file'],
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Media uploaded successfully',
+    type: MediaResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - missing file or file type not allowed',
+  })
+  @ApiResponse({
+    status: 413,
+    description: 'File too large',
+  })
+  async uploadMedia(
+    @UploadedFile() file: Express.Multer.File,
+    @Request() req: any,
+  ): Promise<MediaResponseDto> {
+    return this.mediaService.uploadMedia(file, req.user.tenantId, req.user.id);
+  }
+
+  @Get()
+  @RequirePermission('canViewLogs')
+  @ApiOperation({ summary: 'List media in the tenant library' })
+  @ApiResponse({
+    status: 200,
+    description: 'Media retrieved successfully',
+  })
+  async findAll(@Query() query: QueryMediaDto, @Request() req: any) {
+    return this.mediaService.findAll(query, req.user.tenantId);
+  }
+
+  @Get(':id')
+  @RequirePermission('canViewLogs')
+  @ApiOperation({ summary: 'Get media details' })
+  @ApiParam({ name: 'id', description: 'Media ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Media retrieved successfully',
+    type: MediaResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Media not found',
+  })
+  async findById(
+    @Param('id') id: string,
+    @Request() req: any,
+  ): Promise<MediaResponseDto> {
+    return this.mediaService.findById(id, req.user.tenantId);
+  }
+
+  @Get(':id/download')
+  @RequirePermission('canViewLogs')
+  @ApiOperation({ summary: 'Download media content' })
+  @ApiParam({ name: 'id', description: 'Media ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Media content',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Media not found',
+  })
+  async download(
+    @Param('id') id: string,
+    @Request() req: any,
+  ): Promise<StreamableFile> {
+    const { file, data } = await this.mediaService.getMediaContent(
+      id,
+      req.user.tenantId,
+    );
+
+    return new StreamableFile(data, {
+      type: file.mimetype,
+      length: file.size,
+      disposition: `attachment; filename="${encodeURIComponent(file.fileName)}"`,
+    });
+  }
+
+  @Delete(':id')
+  @RequirePermission('canSendMessages')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delete media from the library' })
+  @ApiParam({ name: 'id', description: 'Media ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Media deleted successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Media not found',
+  })
+  async deleteMedia(@Param('id') id: string, @Request() req: any) {
+    return this.mediaService.deleteMedia(id, req.user.tenantId);
+  }
+}
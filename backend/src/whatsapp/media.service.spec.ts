@@ -0,0 +1,155 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  NotFoundException,
+  PayloadTooLargeException,
+} from '@nestjs/common';
+import { Types } from 'mongoose';
+import { MediaService } from './media.service';
+import { MediaFile } from '../database/schemas/media-file.schema';
+import { MEDIA_STORAGE } from './storage/media-storage.interface';
+
+describe('MediaService', () => {
+  let service: MediaService;
+
+  const tenantId = '507f1f77bcf86cd799439012';
+  const userId = '507f1f77bcf86cd799439013';
+
+  const savedDocs: any[] = [];
+  const MockMediaFileModel = jest.fn().mockImplementation((doc) => ({
+    ...doc,
+    save: jest.fn().mockImplementation(() => {
+      savedDocs.push(doc);
+      return Promise.resolve({
+        _id: new Types.ObjectId(),
+        createdAt: new Date(),
+        ...doc,
+      });
+    }),
+  })) as any;
+
+  const mockStorage = {
+    driver: 'local',
+    save: jest.fn(),
+    read: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string) => {
+      if (key === 'media.maxFileSize') return 1024;
+      if (key === 'media.allowedMimeTypes') return ['image/png'];
+      return undefined;
+    }),
+  };
+
+  const file = (overrides: Partial<Express.Multer.File> = {}) =>
+    ({
+      originalname: 'Logo.PNG',
+      mimetype: 'image/png',
+      size: 3,
+      buffer: Buffer.from('abc'),
+      ...overrides,
+    }) as Express.Multer.File;
+
+  beforeEach(async () => {
+    savedDocs.length = 0;
+    jest.clearAllMocks();
+    MockMediaFileModel.findOne = jest.fn();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MediaService,
+        {
+          provide: getModelToken(MediaFile.name),
+          useValue: MockMediaFileModel,
+        },
+        { provide: MEDIA_STORAGE, useValue: mockStorage },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<MediaService>(MediaService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('uploadMedia', () => {
+    it('should store the file with size and checksum', async () => {
+      const result = await service.uploadMedia(file(), tenantId, userId);
+
+      expect(mockStorage.save).toHaveBeenCalledWith(
+        expect.stringMatching(
+          new RegExp(`^${tenantId}/\\d{4}-\\d{2}/[0-9a-f-]+\\.png$`),
+        ),
+        Buffer.from('abc'),
+      );
+      expect(savedDocs[0]).toMatchObject({
+        source: 'upload',
+        fileName: 'Logo.PNG',
+        mimetype: 'image/png',
+        size: 3,
+        checksum:
+          'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+        storageDriver: 'local',
+      });
+      expect(result.tenantId).toBe(tenantId);
+      expect(result.uploadedBy).toBe(userId);
+    });
+
+    it('should reject missing files', async () => {
+      await expect(
+        service.uploadMedia(undefined, tenantId, userId),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject files above the size limit', async () => {
+      await expect(
+        service.uploadMedia(file({ size: 2048 }), tenantId, userId),
+      ).rejects.toThrow(PayloadTooLargeException);
+    });
+
+    it('should reject file types that are not allowed', async () => {
+      await expect(
+        service.uploadMedia(
+          file({ mimetype: 'application/x-msdownload' }),
+          tenantId,
+          userId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockStorage.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getMediaContent', () => {
+    it('should read the file from storage', async () => {
+      const mediaFile = { _id: new Types.ObjectId(), storageKey: 'a/b.png' };
+      MockMediaFileModel.findOne.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(mediaFile),
+      });
+      mockStorage.read.mockResolvedValue(Buffer.from('abc'));
+
+      const result = await service.getMediaContent(
+        mediaFile._id.toString(),
+        tenantId,
+      );
+
+      expect(mockStorage.read).toHaveBeenCalledWith('a/b.png');
+      expect(result.data).toEqual(Buffer.from('abc'));
+    });
+
+    it('should throw NotFoundException for unknown media', async () => {
+      MockMediaFileModel.findOne.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(null),
+      });
+
+      await expect(
+        service.getMediaContent('507f1f77bcf86cd799439011', tenantId),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
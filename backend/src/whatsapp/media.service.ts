@@ -0,0 +1,258 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  PayloadTooLargeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { createHash, randomUUID } from 'crypto';
+import { Model, Types } from 'mongoose';
+import * as path from 'path';
+import {
+  MediaFile,
+  MediaFileDocument,
+} from '../database/schemas/media-file.schema';
+import { MediaResponseDto } from './dto/media-response.dto';
+import { QueryMediaDto } from './dto/query-media.dto';
+import { InboundDevice } from './interfaces/inbound-message.interface';
+import { OutboundMedia } from './mappers/outbound-message.mapper';
+import { MEDIA_STORAGE } from './storage/media-storage.interface';
+import type { MediaStorage } from './storage/media-storage.interface';
+
+export interface MediaContent {
+  file: MediaFileDocument;
+  data: Buffer;
+}
+
+@Injectable()
+export class MediaService {
+  private readonly logger = new Logger(MediaService.name);
+  private readonly maxFileSize: number;
+  private readonly allowedMimeTypes: string[];
+
+  constructor(
+    @InjectModel(MediaFile.name) private mediaFileModel: Model<MediaFile>,
+    @Inject(MEDIA_STORAGE) private storage: MediaStorage,
+    private configService: ConfigService,
+  ) {
+    this.maxFileSize =
+      this.configService.get<number>('media.maxFileSize') || 16 * 1024 * 1024;
+    this.allowedMimeTypes =
+      this.configService.get<string[]>('media.allowedMimeTypes') || [];
+  }
+
+  async uploadMedia(
+    file: Express.Multer.File | undefined,
+    tenantId: string,
+    userId: string,
+  ): Promise<MediaResponseDto> {
+    if (!file?.buffer?.length) {
+      throw new BadRequestException('File is required');
+    }
+    if (file.size > this.maxFileSize) {
+      throw new PayloadTooLargeException(
+        `File exceeds the maximum size of ${this.maxFileSize} bytes`,
+      );
+    }
+    if (!this.isAllowedMimeType(file.mimetype)) {
+      throw new BadRequestException(
+        `File type ${file.mimetype} is not allowed`,
+      );
+    }
+
+    const mediaFile = await this.store(file.buffer, {
+      tenantId: new Types.ObjectId(tenantId),
+      source: 'upload',
+      fileName: file.originalname,
+      mimetype: file.mimetype,
+      uploadedBy: new Types.ObjectId(userId),
+    });
+
+    return this.mapToMediaResponse(mediaFile);
+  }
+
+  /**
+   * Adds media downloaded from an inbound message to the tenant library.
+   * Files above the size limit are skipped and `null` is returned.
+   */
+  async storeInboundMedia(
+    device: InboundDevice,
+    messageId: Types.ObjectId,
+    data: Buffer,
+    details: { mimetype?: string; fileName?: string },
+  ): Promise<MediaFileDocument | null> {
+    if (data.length > this.maxFileSize) {
+      this.logger.warn(
+        `Skipping inbound media for message ${messageId.toString()}: ${data.length} bytes exceeds limit`,
+      );
+      return null;
+    }
+
+    return this.store(data, {
+      tenantId: device.tenantId,
+      source: 'inbound',
+      fileName: details.fileName || messageId.toString(),
+      mimetype: details.mimetype || 'application/octet-stream',
+      deviceId: device._id,
+      messageId,
+    });
+  }
+
+  async findAll(
+    query: QueryMediaDto,
+    tenantId: string,
+  ): Promise<{
+    media: MediaResponseDto[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const { page = 1, limit = 20, source } = query;
+    const filter: Record<string, any> = {
+      tenantId: new Types.ObjectId(tenantId),
+      isDeleted: false,
+      ...(source && { source }),
+    };
+
+    const [media, total] = await Promise.all([
+      this.mediaFileModel
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.mediaFileModel.countDocuments(filter).exec(),
+    ]);
+
+    return {
+      media: media.map((file) => this.mapToMediaResponse(file)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async findById(id: string, tenantId: string): Promise<MediaResponseDto> {
+    return this.mapToMediaResponse(await this.findMediaFile(id, tenantId));
+  }
+
+  async getMediaContent(id: string, tenantId: string): Promise<MediaContent> {
+    const file = await this.findMediaFile(id, tenantId);
+    const data = await this.storage.read(file.storageKey);
+    return { file, data };
+  }
+
+  /**
+   * Loads a library file for sending. Returns `undefined` when no media
+   * is referenced.
+   */
+  async getOutboundMedia(
+    mediaId: string | undefined,
+    tenantId: string,
+  ): Promise<OutboundMedia | undefined> {
+    if (!mediaId) {
+      return undefined;
+    }
+    const { file, data } = await this.getMediaContent(mediaId, tenantId);
+    return {
+      id: file._id.toString(),
+      data,
+      mimetype: file.mimetype,
+      fileName: file.fileName,
+    };
+  }
+
+  async deleteMedia(
+    id: string,
+    tenantId: string,
+  ): Promise<{ message: string }> {
+    const file = await this.findMediaFile(id, tenantId);
+
+    await this.mediaFileModel
+      .findByIdAndUpdate(file._id, { isDeleted: true })
+      .exec();
+
+    return { message: 'Media deleted successfully' };
+  }
+
+  private async findMediaFile(
+    id: string,
+    tenantId: string,
+  ): Promise<MediaFileDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Media not found');
+    }
+
+    const file = await this.mediaFileModel
+      .findOne({
+        _id: new Types.ObjectId(id),
+        tenantId: new Types.ObjectId(tenantId),
+        isDeleted: false,
+      })
+      .exec();
+
+    if (!file) {
+      throw new NotFoundException('Media not found');
+    }
+
+    return file;
+  }
+
+  private async store(
+    data: Buffer,
+    details: Pick<
+      MediaFile,
+      | 'tenantId'
+      | 'source'
+      | 'fileName'
+      | 'mimetype'
+      | 'uploadedBy'
+      | 'deviceId'
+      | 'messageId'
+    >,
+  ): Promise<MediaFileDocument> {
+    const storageKey = path.posix.join(
+      details.tenantId.toString(),
+      new Date().toISOString().slice(0, 7),
+      `${randomUUID()}${path.extname(details.fileName).toLowerCase()}`,
+    );
+
+    await this.storage.save(storageKey, data);
+
+    const mediaFile = new this.mediaFileModel({
+      ...details,
+      size: data.length,
+      checksum: createHash('sha256').update(data).digest('hex'),
+      storageDriver: this.storage.driver,
+      storageKey,
+      isDeleted: false,
+    });
+
+    return mediaFile.save();
+  }
+
+  private isAllowedMimeType(mimetype: string): boolean {
+    return (
+      this.allowedMimeTypes.length === 0 ||
+      this.allowedMimeTypes.includes(mimetype)
+    );
+  }
+
+  private mapToMediaResponse(file: MediaFileDocument): MediaResponseDto {
+    return {
+      id: file._id.toString(),
+      fileName: file.fileName,
+      mimetype: file.mimetype,
+      size: file.size,
+      checksum: file.checksum,
+      source: file.source,
+      uploadedBy: file.uploadedBy?.toString(),
+      messageId: file.messageId?.toString(),
+      tenantId: file.tenantId.toString(),
+      createdAt: (file as any).createdAt,
+    };
+  }
+}
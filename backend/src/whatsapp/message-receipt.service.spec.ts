@@ -0,0 +1,183 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { MessageReceiptService } from './message-receipt.service';
+import { Message } from '../database/schemas/message.schema';
+import { WebhooksService } from '../webhooks/webhooks.service';
+
+describe('MessageReceiptService', () => {
+  let service: MessageReceiptService;
+
+  const deviceId = new Types.ObjectId('507f1f77bcf86cd799439011');
+  const timestamp = new Date('2024-01-15T10:30:00.000Z');
+
+  const mockMessageModel = {
+    updateOne: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  const mockWebhooksService = {
+    publish: jest.fn(),
+  };
+
+  const updateResult = (
+    matchedCount: number,
+    modifiedCount = matchedCount,
+  ) => ({
+    exec: jest.fn().mockResolvedValue({ matchedCount, modifiedCount }),
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockMessageModel.updateOne.mockReturnValue(updateResult(1));
+    mockMessageModel.findOne.mockReturnValue({
+      exec: jest.fn().mockResolvedValue(null),
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MessageReceiptService,
+        { provide: getModelToken(Message.name), useValue: mockMessageModel },
+        { provide: WebhooksService, useValue: mockWebhooksService },
+      ],
+    }).compile();
+
+    service = module.get<MessageReceiptService>(MessageReceiptService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('applyStatusUpdate', () => {
+    it('should advance the status without downgrading it', async () => {
+      const result = await service.applyStatusUpdate(deviceId, {
+        whatsappMessageId: 'MSG1',
+        remoteJid: '1234567890@s.whatsapp.net',
+        status: 'delivered',
+        timestamp,
+      });
+
+      expect(result).toBe(true);
+      expect(mockMessageModel.updateOne).toHaveBeenCalledWith(
+        expect.objectContaining({
+          deviceId,
+          whatsappMessageId: 'MSG1',
+          direction: { $ne: 'inbound' },
+          status: { $in: ['pending', 'sent'] },
+        }),
+        {
+          $set: { status: 'delivered' },
+          $min: { deliveredAt: timestamp },
+        },
+      );
+    });
+
+    it('should set both delivered and read times on read', async () => {
+      await service.applyStatusUpdate(deviceId, {
+        whatsappMessageId: 'MSG1',
+        remoteJid: '1234567890@s.whatsapp.net',
+        status: 'read',
+        timestamp,
+      });
+
+      expect(mockMessageModel.updateOne).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: { $in: ['pending', 'sent', 'delivered'] },
+        }),
+        expect.objectContaining({
+          $min: { deliveredAt: timestamp, readAt: timestamp },
+        }),
+      );
+    });
+
+    it('should return false when the message is already further along', async () => {
+      mockMessageModel.updateOne.mockReturnValue(updateResult(0));
+
+      const result = await service.applyStatusUpdate(deviceId, {
+        whatsappMessageId: 'MSG1',
+        remoteJid: '1234567890@s.whatsapp.net',
+        status: 'sent',
+        timestamp,
+      });
+
+      expect(result).toBe(false);
+      expect(mockWebhooksService.publish).not.toHaveBeenCalled();
+    });
+
+    it('should publish a message.status webhook when the status changes', async () => {
+      const tenantId = new Types.ObjectId('507f1f77bcf86cd799439012');
+      mockMessageModel.findOne.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({
+          _id: new Types.ObjectId('507f1f77bcf86cd799439015'),
+          deviceId,
+          tenantId,
+          phoneNumber: '+1234567890',
+          messageType: 'text',
+          status: 'read',
+          whatsappMessageId: 'MSG1',
+        }),
+      });
+
+      await service.applyStatusUpdate(deviceId, {
+        whatsappMessageId: 'MSG1',
+        remoteJid: '1234567890@s.whatsapp.net',
+        status: 'read',
+        timestamp,
+      });
+
+      expect(mockWebhooksService.publish).toHaveBeenCalledWith(
+        tenantId,
+        'message.status',
+        expect.objectContaining({
+          id: '507f1f77bcf86cd799439015',
+          status: 'read',
+          whatsappMessageId: 'MSG1',
+        }),
+      );
+    });
+
+    it('should add a receipt for a new group participant', async () => {
+      mockMessageModel.updateOne
+        .mockReturnValueOnce(updateResult(0))
+        .mockReturnValue(updateResult(1));
+
+      await service.applyStatusUpdate(deviceId, {
+        whatsappMessageId: 'MSG2',
+        remoteJid: '120363025123456789@g.us',
+        participantJid: '1987654321@s.whatsapp.net',
+        status: 'read',
+        timestamp,
+      });
+
+      expect(mockMessageModel.updateOne).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({
+          'receipts.participantJid': '1987654321@s.whatsapp.net',
+        }),
+        {
+          $min: {
+            'receipts.$.deliveredAt': timestamp,
+            'receipts.$.readAt': timestamp,
+          },
+        },
+      );
+      expect(mockMessageModel.updateOne).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          'receipts.participantJid': { $ne: '1987654321@s.whatsapp.net' },
+        }),
+        {
+          $push: {
+            receipts: {
+              participantJid: '1987654321@s.whatsapp.net',
+              deliveredAt: timestamp,
+              readAt: timestamp,
+            },
+          },
+        },
+      );
+      expect(mockMessageModel.updateOne).toHaveBeenCalledTimes(3);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Message } from '../database/schemas/message.schema';
+import {
+  MessageStatusUpdate,
+  ReceiptStatus,
+} from './interfaces/message-status-update.interface';
+import { mapMessageResponse } from './mappers/message-response.mapper';
+import { WebhooksService } from '../webhooks/webhooks.service';
+
+// Statuses a message may move out of for each incoming ack. Acks can arrive
+// out of order, so a message never moves back (e.g. from read to delivered).
+const ADVANCES_FROM: Record<ReceiptStatus, string[]> = {
+  sent: ['pending'],
+  delivered: ['pending', 'sent'],
+  read: ['pending', 'sent', 'delivered'],
+  failed: ['pending', 'sent'],
+};
+
+@Injectable()
+export class MessageReceiptService {
+  private readonly logger = new Logger(MessageReceiptService.name);
+
+  constructor(
+    @InjectModel(Message.name) private messageModel: Model<Message>,
+    private webhooksService: WebhooksService,
+  ) {}
+
+  /**
+   * Applies a delivery/read acknowledgement to the outbound message sent
+   * from the device. Participant receipts are recorded per group member;
+   * the first delivery/read by any participant also advances the overall
+   * message status.
+   */
+  async applyStatusUpdate(
+    deviceId: Types.ObjectId,
+    update: MessageStatusUpdate,
+  ): Promise<boolean> {
+    const filter = {
+      deviceId,
+      whatsappMessageId: update.whatsappMessageId,
+      direction: { $ne: 'inbound' },
+      isDeleted: false,
+    };
+
+    if (update.participantJid && update.status !== 'failed') {
+      await this.recordParticipantReceipt(filter, update);
+    }
+
+    const timestamps = {
+      ...(update.status !== 'failed' &&
+        update.status !== 'sent' && { deliveredAt: update.timestamp }),
+      ...(update.status === 'read' && { readAt: update.timestamp }),
+    };
+
+    const result = await this.messageModel
+      .updateOne(
+        { ...filter, status: { $in: ADVANCES_FROM[update.status] } },
+        {
+          $set: {
+            status: update.status,
+            ...(update.status === 'failed' && {
+              errorMessage: 'Message rejected by WhatsApp',
+            }),
+          },
+          ...(Object.keys(timestamps).length && { $min: timestamps }),
+        },
+      )
+      .exec();
+
+    if (result.modifiedCount) {
+      this.logger.log(
+        `Message ${update.whatsappMessageId} marked as ${update.status}`,
+      );
+      await this.publishStatus(filter);
+    }
+
+    return result.modifiedCount > 0;
+  }
+
+  private async publishStatus(filter: Record<string, unknown>): Promise<void> {
+    const message = await this.messageModel.findOne(filter).exec();
+    if (message) {
+      await this.webhooksService.publish(
+        message.tenantId,
+        'message.status',
+        mapMessageResponse(message),
+      );
+    }
+  }
+
+  private async recordParticipantReceipt(
+    filter: Record<string, unknown>,
+    update: MessageStatusUpdate,
+  ): Promise<void> {
+    const { participantJid } = update;
+    const receiptTimes = {
+      deliveredAt: update.timestamp,
+      ...(update.status === 'read' && { readAt: update.timestamp }),
+    };
+
+    const existing = await this.messageModel
+      .updateOne(
+        { ...filter, 'receipts.participantJid': participantJid },
+        {
+          $min: Object.fromEntries(
+            Object.entries(receiptTimes).map(([field, value]) => [
+              `receipts.$.${field}`,
+              value,
+            ]),
+          ),
+        },
+      )
+      .exec();
+
+    if (existing.matchedCount) {
+      return;
+    }
+
+    await this.messageModel
+      .updateOne(
+        { ...filter, 'receipts.participantJid': { $ne: participantJid } },
+        { $push: { receipts: { participantJid, ...receiptTimes } } },
+      )
+      .exec();
+  }
+}
@@ -0,0 +1,234 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { OutboundMessageProcessor } from './outbound-message.processor';
+import { OutboundQueueService } from './outbound-queue.service';
+import { WhatsAppService } from '../whatsapp.service';
+import { Message } from '../../database/schemas/message.schema';
+import { WebhooksService } from '../../webhooks/webhooks.service';
+
+describe('OutboundMessageProcessor', () => {
+  let processor: OutboundMessageProcessor;
+
+  const messageId = '507f1f77bcf86cd799439015';
+  const message = {
+    _id: new Types.ObjectId(messageId),
+    deviceId: new Types.ObjectId('507f1f77bcf86cd799439011'),
+    tenantId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+    phoneNumber: '+1234567890',
+    status: 'pending',
+    attempts: 0,
+  };
+
+  const mockMessageModel = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    findByIdAndUpdate: jest.fn(),
+  };
+
+  const mockOutboundQueue = {
+    claimDue: jest.fn(),
+    restore: jest.fn(),
+    reserveSlot: jest.fn(),
+    release: jest.fn(),
+    ack: jest.fn(),
+  };
+
+  const mockWhatsAppService = {
+    deliverQueuedMessage: jest.fn(),
+  };
+
+  const mockWebhooksService = {
+    publish: jest.fn(),
+  };
+
+  const config: Record<string, number> = {
+    'whatsapp.outboundQueue.maxAttempts': 3,
+    'whatsapp.outboundQueue.backoffBaseMs': 1000,
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockMessageModel.findOne.mockReturnValue({
+      exec: jest.fn().mockResolvedValue(message),
+    });
+    mockMessageModel.findByIdAndUpdate.mockReturnValue({
+      exec: jest.fn().mockResolvedValue(message),
+    });
+    mockOutboundQueue.reserveSlot.mockResolvedValue(0);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OutboundMessageProcessor,
+        { provide: getModelToken(Message.name), useValue: mockMessageModel },
+        { provide: OutboundQueueService, useValue: mockOutboundQueue },
+        { provide: WhatsAppService, useValue: mockWhatsAppService },
+        { provide: WebhooksService, useValue: mockWebhooksService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    processor = module.get<OutboundMessageProcessor>(OutboundMessageProcessor);
+  });
+
+  it('should be defined', () => {
+    expect(processor).toBeDefined();
+  });
+
+  describe('process', () => {
+    it('should deliver the message and ack it', async () => {
+      await processor.process(messageId);
+
+      expect(mockWhatsAppService.deliverQueuedMessage).toHaveBeenCalledWith(
+        message,
+      );
+      expect(mockOutboundQueue.ack).toHaveBeenCalledWith(messageId);
+    });
+
+    it('should ack messages that are no longer pending', async () => {
+      mockMessageModel.findOne.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(null),
+      });
+
+      await processor.process(messageId);
+
+      expect(mockWhatsAppService.deliverQueuedMessage).not.toHaveBeenCalled();
+      expect(mockOutboundQueue.ack).toHaveBeenCalledWith(messageId);
+    });
+
+    it('should postpone the message when the device is rate limited', async () => {
+      mockOutboundQueue.reserveSlot.mockResolvedValue(30_000);
+
+      await processor.process(messageId);
+
+      expect(mockWhatsAppService.deliverQueuedMessage).not.toHaveBeenCalled();
+      expect(mockOutboundQueue.release).toHaveBeenCalledWith(
+        messageId,
+        expect.any(Number),
+      );
+      expect(mockMessageModel.findByIdAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should retry failed sends with exponential backoff', async () => {
+      mockWhatsAppService.deliverQueuedMessage.mockRejectedValue(
+        new Error('Connection Closed'),
+      );
+      const before = Date.now();
+
+      await processor.process(messageId);
+      mockMessageModel.findOne.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({ ...message, attempts: 1 }),
+      });
+      await processor.process(messageId);
+
+      const [first, second] = mockOutboundQueue.release.mock.calls.map(
+        ([, runAt]: [string, number]) => runAt - before,
+      );
+      expect(first).toBeGreaterThanOrEqual(1000);
+      expect(first).toBeLessThan(2000);
+      expect(second).toBeGreaterThanOrEqual(2000);
+      expect(mockMessageModel.findByIdAndUpdate).toHaveBeenLastCalledWith(
+        message._id,
+        expect.objectContaining({
+          attempts: 2,
+          errorMessage: 'Connection Closed',
+        }),
+      );
+      expect(mockOutboundQueue.ack).not.toHaveBeenCalled();
+    });
+
+    it('should mark the message as failed after the last attempt', async () => {
+      mockMessageModel.findOne.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({ ...message, attempts: 2 }),
+      });
+      mockWhatsAppService.deliverQueuedMessage.mockRejectedValue(
+        new Error('Connection Closed'),
+      );
+
+      await processor.process(messageId);
+
+      expect(mockMessageModel.findByIdAndUpdate).toHaveBeenCalledWith(
+        message._id,
+        expect.objectContaining({
+          status: 'failed',
+          attempts: 3,
+          errorMessage: 'Connection Closed',
+        }),
+        { new: true },
+      );
+      expect(mockOutboundQueue.ack).toHaveBeenCalledWith(messageId);
+      expect(mockOutboundQueue.release).not.toHaveBeenCalled();
+      expect(mockWebhooksService.publish).toHaveBeenCalledWith(
+        message.tenantId,
+        'message.status',
+        expect.objectContaining({ id: messageId }),
+      );
+    });
+
+    it('should not retry validation errors', async () => {
+      mockWhatsAppService.deliverQueuedMessage.mockRejectedValue(
+        new BadRequestException('Device is not active'),
+      );
+
+      await processor.process(messageId);
+
+      expect(mockMessageModel.findByIdAndUpdate).toHaveBeenCalledWith(
+        message._id,
+        expect.objectContaining({
+          status: 'failed',
+          errorMessage: 'Device is not active',
+        }),
+        { new: true },
+      );
+      expect(mockOutboundQueue.release).not.toHaveBeenCalled();
+    });
+
+    it('should not retry sends to numbers that opted out', async () => {
+      mockWhatsAppService.deliverQueuedMessage.mockRejectedValue(
+        new ForbiddenException({
+          code: 'CONTACT_OPTED_OUT',
+          message: '+1234567890 opted out of non-transactional messages',
+        }),
+      );
+
+      await processor.process(messageId);
+
+      expect(mockMessageModel.findByIdAndUpdate).toHaveBeenCalledWith(
+        message._id,
+        expect.objectContaining({
+          status: 'failed',
+          errorMessage: '+1234567890 opted out of non-transactional messages',
+        }),
+        { new: true },
+      );
+      expect(mockOutboundQueue.release).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requeuePendingMessages', () => {
+    it('should restore pending messages at their next attempt time', async () => {
+      const nextAttemptAt = new Date('2024-01-15T10:30:00.000Z');
+      mockMessageModel.find.mockReturnValue({
+        select: jest.fn().mockReturnValue({
+          exec: jest
+            .fn()
+            .mockResolvedValue([{ _id: message._id, nextAttemptAt }]),
+        }),
+      });
+      mockOutboundQueue.restore.mockResolvedValue(true);
+
+      const result = await processor.requeuePendingMessages();
+
+      expect(result).toBe(1);
+      expect(mockOutboundQueue.restore).toHaveBeenCalledWith(
+        messageId,
+        nextAttemptAt.getTime(),
+      );
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  Message,
+  MessageDocument,
+} from '../../database/schemas/message.schema';
+import { WebhooksService } from '../../webhooks/webhooks.service';
+import { mapMessageResponse } from '../mappers/message-response.mapper';
+import { WhatsAppService } from '../whatsapp.service';
+import { OutboundQueueService } from './outbound-queue.service';
+
+/**
+ * Works through the outbound queue: sends due messages with the device
+ * socket, respecting the per-device rate limit, and retries failed sends
+ * with exponential backoff until `maxAttempts` is reached.
+ */
+@Injectable()
+export class OutboundMessageProcessor
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(OutboundMessageProcessor.name);
+  private readonly pollIntervalMs: number;
+  private readonly batchSize: number;
+  private readonly maxAttempts: number;
+  private readonly backoffBaseMs: number;
+  private readonly backoffMaxMs: number;
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+
+  constructor(
+    @InjectModel(Message.name) private messageModel: Model<Message>,
+    private outboundQueue: OutboundQueueService,
+    private whatsAppService: WhatsAppService,
+    private webhooksService: WebhooksService,
+    private configService: ConfigService,
+  ) {
+    const config = (key: string, fallback: number) =>
+      this.configService.get<number>(`whatsapp.outboundQueue.${key}`) ||
+      fallback;
+
+    this.pollIntervalMs = config('pollIntervalMs', 1000);
+    this.batchSize = config('batchSize', 20);
+    this.maxAttempts = config('maxAttempts', 5);
+    this.backoffBaseMs = config('backoffBaseMs', 5000);
+    this.backoffMaxMs = config('backoffMaxMs', 15 * 60 * 1000);
+  }
+
+  onApplicationBootstrap(): void {
+    this.requeuePendingMessages().catch((error: Error) => {
+      this.logger.error(
+        `Failed to requeue pending messages: ${error.message}`,
+        error.stack,
+      );
+    });
+    this.timer = setInterval(() => void this.poll(), this.pollIntervalMs);
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * Puts pending messages back on the queue in case Redis lost them. Messages
+   * already queued or being processed are left untouched.
+   */
+  async requeuePendingMessages(): Promise<number> {
+    const messages = await this.messageModel
+      .find({ direction: 'outbound', status: 'pending', isDeleted: false })
+      .select('_id nextAttemptAt')
+      .exec();
+
+    let requeued = 0;
+    for (const message of messages) {
+      const runAt = message.nextAttemptAt?.getTime() ?? Date.now();
+      if (await this.outboundQueue.restore(message._id.toString(), runAt)) {
+        requeued++;
+      }
+    }
+
+    if (requeued) {
+      this.logger.log(`Requeued ${requeued} pending outbound message(s)`);
+    }
+    return requeued;
+  }
+
+  async poll(): Promise<void> {
+    // Skip the tick while the previous batch is still being sent
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      const messageIds = await this.outboundQueue.claimDue(this.batchSize);
+      for (const messageId of messageIds) {
+        await this.process(messageId);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to process outbound queue: ${(error as Error).message}`,
+      );
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  async process(messageId: string): Promise<void> {
+    const message = Types.ObjectId.isValid(messageId)
+      ? await this.messageModel
+          .findOne({
+            _id: new Types.ObjectId(messageId),
+            direction: 'outbound',
+            status: 'pending',
+            isDeleted: false,
+          })
+          .exec()
+      : null;
+
+    // Already sent, failed or deleted
+    if (!message) {
+      await this.outboundQueue.ack(messageId);
+      return;
+    }
+
+    const delay = await this.outboundQueue.reserveSlot(
+      message.deviceId.toString(),
+    );
+    if (delay > 0) {
+      await this.outboundQueue.release(messageId, Date.now() + delay);
+      return;
+    }
+
+    try {
+      await this.whatsAppService.deliverQueuedMessage(message);
+      await this.outboundQueue.ack(messageId);
+    } catch (error) {
+      await this.handleFailure(message, error as Error);
+    }
+  }
+
+  private async handleFailure(
+    message: MessageDocument,
+    error: Error,
+  ): Promise<void> {
+    const messageId = message._id.toString();
+    const attempts = (message.attempts || 0) + 1;
+    // Validation errors will fail the same way on every attempt
+    const retryable =
+      !(error instanceof NotFoundException) &&
+      !(error instanceof BadRequestException) &&
+      !(error instanceof ForbiddenException);
+
+    if (retryable && attempts < this.maxAttempts) {
+      const nextAttemptAt = new Date(Date.now() + this.backoff(attempts));
+      await this.messageModel
+        .findByIdAndUpdate(message._id, {
+          attempts,
+          nextAttemptAt,
+          errorMessage: error.message,
+        })
+        .exec();
+      await this.outboundQueue.release(messageId, nextAttemptAt.getTime());
+
+      this.logger.warn(
+        `Send of message ${messageId} failed (attempt ${attempts}/${this.maxAttempts}), retrying at ${nextAttemptAt.toISOString()}: ${error.message}`,
+      );
+      return;
+    }
+
+    const failedMessage = await this.messageModel
+      .findByIdAndUpdate(
+        message._id,
+        {
+          status: 'failed',
+          attempts,
+          nextAttemptAt: null,
+          errorMessage: error.message,
+        },
+        { new: true },
+      )
+      .exec();
+    await this.outboundQueue.ack(messageId);
+
+    if (failedMessage) {
+      await this.webhooksService.publish(
+        failedMessage.tenantId,
+        'message.status',
+        mapMessageResponse(failedMessage),
+      );
+    }
+
+    this.logger.error(
+      `Message ${messageId} failed after ${attempts} attempt(s): ${error.message}`,
+    );
+  }
+
+  private backoff(attempts: number): number {
+    return Math.min(
+      this.backoffBaseMs * 2 ** (attempts - 1),
+      this.backoffMaxMs,
+    );
+  }
+}
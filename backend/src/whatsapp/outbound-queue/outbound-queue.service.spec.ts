@@ -0,0 +1,93 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { OutboundQueueService } from './outbound-queue.service';
+import { REDIS_CLIENT } from '../../redis/redis.constants';
+
+describe('OutboundQueueService', () => {
+  let service: OutboundQueueService;
+
+  const mockPipeline = {
+    incr: jest.fn().mockReturnThis(),
+    pexpire: jest.fn().mockReturnThis(),
+    zrem: jest.fn().mockReturnThis(),
+    zadd: jest.fn().mockReturnThis(),
+    exec: jest.fn(),
+  };
+
+  const mockRedis = {
+    zadd: jest.fn(),
+    eval: jest.fn(),
+    multi: jest.fn(() => mockPipeline),
+  };
+
+  const config: Record<string, number> = {
+    'whatsapp.outboundQueue.rateLimit': 2,
+    'whatsapp.outboundQueue.rateWindowMs': 60_000,
+    'whatsapp.outboundQueue.visibilityTimeoutMs': 30_000,
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OutboundQueueService,
+        { provide: REDIS_CLIENT, useValue: mockRedis },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OutboundQueueService>(OutboundQueueService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('claimDue', () => {
+    it('should claim due messages with the visibility timeout', async () => {
+      mockRedis.eval.mockResolvedValue(['message_1']);
+      const before = Date.now();
+
+      const result = await service.claimDue(10);
+
+      expect(result).toEqual(['message_1']);
+      const [, , queueKey, processingKey, now, limit, deadline] =
+        mockRedis.eval.mock.calls[0];
+      expect(queueKey).toBe('whatsapp:outbound:queue');
+      expect(processingKey).toBe('whatsapp:outbound:processing');
+      expect(now).toBeGreaterThanOrEqual(before);
+      expect(limit).toBe(10);
+      expect(deadline).toBe(now + 30_000);
+    });
+  });
+
+  describe('reserveSlot', () => {
+    it('should allow sends within the device limit', async () => {
+      mockPipeline.exec.mockResolvedValue([
+        [null, 2],
+        [null, 1],
+      ]);
+
+      await expect(service.reserveSlot('device_1')).resolves.toBe(0);
+      expect(mockPipeline.incr).toHaveBeenCalledWith(
+        expect.stringMatching(/^whatsapp:outbound:rate:device_1:\d+$/),
+      );
+    });
+
+    it('should return the wait until the next window when over the limit', async () => {
+      mockPipeline.exec.mockResolvedValue([
+        [null, 3],
+        [null, 1],
+      ]);
+
+      const delay = await service.reserveSlot('device_1');
+
+      expect(delay).toBeGreaterThan(0);
+      expect(delay).toBeLessThanOrEqual(60_000);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import { REDIS_CLIENT } from '../../redis/redis.constants';
+
+const QUEUE_KEY = 'whatsapp:outbound:queue';
+const PROCESSING_KEY = 'whatsapp:outbound:processing';
+
+// Moves claims whose worker died back to the queue, then claims due messages.
+// Claimed messages stay in the processing set until acked or released.
+const CLAIM_SCRIPT = `
+local expired = redis.call('ZRANGEBYSCORE', KEYS[2], '-inf', ARGV[1])
+for _, id in ipairs(expired) do
+  redis.call('ZREM', KEYS[2], id)
+  redis.call('ZADD', KEYS[1], ARGV[1], id)
+end
+local ids = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, ARGV[2])
+for _, id in ipairs(ids) do
+  redis.call('ZREM', KEYS[1], id)
+  redis.call('ZADD', KEYS[2], ARGV[3], id)
+end
+return ids
+`;
+
+// Queues a message unless it is already queued or being processed
+const RESTORE_SCRIPT = `
+if redis.call('ZSCORE', KEYS[2], ARGV[1]) then
+  return 0
+end
+return redis.call('ZADD', KEYS[1], 'NX', ARGV[2], ARGV[1])
+`;
+
+/**
+ * Redis-backed queue of outbound message IDs, ordered by the time they are
+ * due. The message rows in MongoDB stay the source of truth; the queue only
+ * decides when each one is attempted.
+ */
+@Injectable()
+export class OutboundQueueService {
+  private readonly visibilityTimeoutMs: number;
+  private readonly rateLimit: number;
+  private readonly rateWindowMs: number;
+
+  constructor(
+    @Inject(REDIS_CLIENT) private readonly redis: Redis,
+    private configService: ConfigService,
+  ) {
+    this.visibilityTimeoutMs =
+      this.configService.get<number>(
+        'whatsapp.outboundQueue.visibilityTimeoutMs',
+      ) || 120_000;
+    this.rateLimit =
+      this.configService.get<number>('whatsapp.outboundQueue.rateLimit') || 20;
+    this.rateWindowMs =
+      this.configService.get<number>('whatsapp.outboundQueue.rateWindowMs') ||
+      60_000;
+  }
+
+  async enqueue(messageId: string, runAt = Date.now()): Promise<void> {
+    await this.redis.zadd(QUEUE_KEY, runAt, messageId);
+  }
+
+  /**
+   * Re-queues a message found pending in the database, e.g. after Redis
+   * lost its data. Returns false if the queue already knows the message.
+   */
+  async restore(messageId: string, runAt = Date.now()): Promise<boolean> {
+    const added = await this.redis.eval(
+      RESTORE_SCRIPT,
+      2,
+      QUEUE_KEY,
+      PROCESSING_KEY,
+      messageId,
+      runAt,
+    );
+    return added === 1;
+  }
+
+  /**
+   * Claims up to `limit` due messages. A claim expires after the visibility
+   * timeout, so messages of a crashed worker are picked up again.
+   */
+  async claimDue(limit: number): Promise<string[]> {
+    const now = Date.now();
+    const ids = await this.redis.eval(
+      CLAIM_SCRIPT,
+      2,
+      QUEUE_KEY,
+      PROCESSING_KEY,
+      now,
+      limit,
+      now + this.visibilityTimeoutMs,
+    );
+    return ids as string[];
+  }
+
+  /** Puts a claimed message back to be attempted at `runAt`. */
+  async release(messageId: string, runAt: number): Promise<void> {
+    await this.redis
+      .multi()
+      .zrem(PROCESSING_KEY, messageId)
+      .zadd(QUEUE_KEY, runAt, messageId)
+      .exec();
+  }
+
+  /** Removes a message from the queue once it is sent or given up on. */
+  async ack(messageId: string): Promise<void> {
+    await this.redis
+      .multi()
+      .zrem(PROCESSING_KEY, messageId)
+      .zrem(QUEUE_KEY, messageId)
+      .exec();
+  }
+
+  /**
+   * Takes a send slot of the device in the current rate limit window.
+   * Returns 0 when the message may be sent now, otherwise the number of
+   * milliseconds until the next window opens.
+   */
+  async reserveSlot(deviceId: string): Promise<number> {
+    const now = Date.now();
+    const windowStart = now - (now % this.rateWindowMs);
+    const key = `whatsapp:outbound:rate:${deviceId}:${windowStart}`;
+
+    const [[, count]] = (await this.redis
+      .multi()
+      .incr(key)
+      .pexpire(key, this.rateWindowMs)
+      .exec()) as [[Error | null, number]];
+
+    return count > this.rateLimit ? windowStart + this.rateWindowMs - now : 0;
+  }
+}
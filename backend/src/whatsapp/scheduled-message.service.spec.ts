@@ -0,0 +1,267 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { ScheduledMessageService } from './scheduled-message.service';
+import { MediaService } from './media.service';
+import { OutboundQueueService } from './outbound-queue/outbound-queue.service';
+import { Message } from '../database/schemas/message.schema';
+import { Tenant } from '../database/schemas/tenant.schema';
+
+describe('ScheduledMessageService', () => {
+  let service: ScheduledMessageService;
+
+  const tenantId = '507f1f77bcf86cd799439012';
+  const messageId = '507f1f77bcf86cd799439015';
+
+  const scheduledMessage = {
+    _id: new Types.ObjectId(messageId),
+    deviceId: new Types.ObjectId('507f1f77bcf86cd799439011'),
+    tenantId: new Types.ObjectId(tenantId),
+    phoneNumber: '+1234567890',
+    messageType: 'text',
+    content: 'Hello',
+    status: 'scheduled',
+    request: { messageType: 'text', content: 'Hello' },
+    mentionedPhoneNumbers: [],
+  };
+
+  const mockMessageModel = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+    countDocuments: jest.fn(),
+  };
+
+  const mockTenantModel = {
+    findById: jest.fn(),
+  };
+
+  const mockOutboundQueue = {
+    enqueue: jest.fn(),
+  };
+
+  const execResult = (value: unknown) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const mockTenantTimeZone = (timeZone?: string) =>
+    mockTenantModel.findById.mockReturnValue({
+      select: jest
+        .fn()
+        .mockReturnValue(execResult({ settings: timeZone && { timeZone } })),
+    });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockTenantTimeZone();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScheduledMessageService,
+        { provide: getModelToken(Message.name), useValue: mockMessageModel },
+        { provide: getModelToken(Tenant.name), useValue: mockTenantModel },
+        { provide: OutboundQueueService, useValue: mockOutboundQueue },
+        {
+          provide: MediaService,
+          useValue: {
+            getOutboundMedia: jest.fn().mockResolvedValue(undefined),
+          },
+        },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<ScheduledMessageService>(ScheduledMessageService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('resolveSchedule', () => {
+    it('should read local times in the tenant time zone', async () => {
+      mockTenantTimeZone('Asia/Kolkata');
+
+      const schedule = await service.resolveSchedule(
+        '2099-01-20T09:00:00',
+        undefined,
+        tenantId,
+      );
+
+      expect(schedule).toEqual({
+        scheduledAt: new Date('2099-01-20T03:30:00.000Z'),
+        timeZone: 'Asia/Kolkata',
+      });
+    });
+
+    it('should prefer the requested time zone', async () => {
+      mockTenantTimeZone('Asia/Kolkata');
+
+      const schedule = await service.resolveSchedule(
+        '2099-01-20T09:00:00',
+        'Europe/Berlin',
+        tenantId,
+      );
+
+      expect(schedule.scheduledAt).toEqual(
+        new Date('2099-01-20T08:00:00.000Z'),
+      );
+      expect(mockTenantModel.findById).not.toHaveBeenCalled();
+    });
+
+    it('should reject times in the past', async () => {
+      await expect(
+        service.resolveSchedule('2020-01-20T09:00:00Z', undefined, tenantId),
+      ).rejects.toThrow('Scheduled time must be in the future');
+    });
+
+    it('should reject unknown time zones', async () => {
+      await expect(
+        service.resolveSchedule(
+          '2099-01-20T09:00:00',
+          'Nowhere/City',
+          tenantId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('update', () => {
+    it('should update content and reschedule', async () => {
+      mockMessageModel.findOne.mockReturnValue(execResult(scheduledMessage));
+      mockMessageModel.findOneAndUpdate.mockReturnValue(
+        execResult({ ...scheduledMessage, content: 'Hello again' }),
+      );
+
+      const result = await service.update(
+        messageId,
+        { content: 'Hello again', scheduledAt: '2099-01-20T09:00:00Z' },
+        tenantId,
+      );
+
+      expect(result.content).toBe('Hello again');
+      expect(mockMessageModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: scheduledMessage._id, status: 'scheduled' },
+        expect.objectContaining({
+          content: 'Hello again',
+          request: { messageType: 'text', content: 'Hello again' },
+          scheduledAt: new Date('2099-01-20T09:00:00.000Z'),
+          scheduledTimeZone: 'UTC',
+        }),
+        { new: true },
+      );
+    });
+
+    it('should reject a new time zone without a new time', async () => {
+      await expect(
+        service.update(messageId, { timeZone: 'Europe/Berlin' }, tenantId),
+      ).rejects.toThrow(
+        'Scheduled time is required when changing the time zone',
+      );
+      expect(mockMessageModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should reject messages that are no longer scheduled', async () => {
+      mockMessageModel.findOne.mockReturnValue(
+        execResult({ ...scheduledMessage, status: 'sent' }),
+      );
+
+      await expect(
+        service.update(messageId, { content: 'Too late' }, tenantId),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockMessageModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancel', () => {
+    it('should mark the message as cancelled', async () => {
+      mockMessageModel.findOne.mockReturnValue(execResult(scheduledMessage));
+      mockMessageModel.findOneAndUpdate.mockReturnValue(
+        execResult({ ...scheduledMessage, status: 'cancelled' }),
+      );
+
+      const result = await service.cancel(messageId, tenantId);
+
+      expect(result.status).toBe('cancelled');
+      expect(mockMessageModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: scheduledMessage._id, status: 'scheduled' },
+        { status: 'cancelled' },
+        { new: true },
+      );
+    });
+
+    it('should throw NotFoundException for messages of other tenants', async () => {
+      mockMessageModel.findOne.mockReturnValue(execResult(null));
+
+      await expect(service.cancel(messageId, tenantId)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('dispatchDueMessages', () => {
+    it('should move due messages to pending and queue them', async () => {
+      mockMessageModel.find.mockReturnValue({
+        sort: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        select: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue([{ _id: scheduledMessage._id }]),
+      });
+      mockMessageModel.findOneAndUpdate.mockReturnValue(
+        execResult(scheduledMessage),
+      );
+
+      const dispatched = await service.dispatchDueMessages();
+
+      expect(dispatched).toBe(1);
+      expect(mockMessageModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: scheduledMessage._id, status: 'scheduled' },
+        expect.objectContaining({ status: 'pending' }),
+      );
+      expect(mockOutboundQueue.enqueue).toHaveBeenCalledWith(messageId);
+    });
+
+    it('should put the message back to scheduled when queueing fails', async () => {
+      mockMessageModel.find.mockReturnValue({
+        sort: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        select: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue([{ _id: scheduledMessage._id }]),
+      });
+      const sentAt = new Date('2026-01-20T09:00:00Z');
+      mockMessageModel.findOneAndUpdate.mockReturnValue(
+        execResult({ ...scheduledMessage, sentAt }),
+      );
+      mockMessageModel.updateOne.mockReturnValue(execResult({}));
+      mockOutboundQueue.enqueue.mockRejectedValueOnce(
+        new Error('Redis unavailable'),
+      );
+
+      const dispatched = await service.dispatchDueMessages();
+
+      expect(dispatched).toBe(0);
+      expect(mockMessageModel.updateOne).toHaveBeenCalledWith(
+        { _id: scheduledMessage._id, status: 'pending' },
+        { status: 'scheduled', sentAt },
+      );
+    });
+
+    it('should skip messages claimed by another instance', async () => {
+      mockMessageModel.find.mockReturnValue({
+        sort: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        select: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue([{ _id: scheduledMessage._id }]),
+      });
+      mockMessageModel.findOneAndUpdate.mockReturnValue(execResult(null));
+
+      const dispatched = await service.dispatchDueMessages();
+
+      expect(dispatched).toBe(0);
+      expect(mockOutboundQueue.enqueue).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,322 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Message, MessageDocument } from '../database/schemas/message.schema';
+import { Tenant } from '../database/schemas/tenant.schema';
+import {
+  DEFAULT_TIME_ZONE,
+  isValidTimeZone,
+  parseDateTimeInZone,
+} from '../common/utils/time-zone.util';
+import { MessageResponseDto } from './dto/message-response.dto';
+import { QueryScheduledMessagesDto } from './dto/query-scheduled-messages.dto';
+import { SendMessageDto } from './dto/send-message.dto';
+import { UpdateScheduledMessageDto } from './dto/update-scheduled-message.dto';
+import { mapMessageResponse } from './mappers/message-response.mapper';
+import { buildOutboundMessage } from './mappers/outbound-message.mapper';
+import { MediaService } from './media.service';
+import { OutboundQueueService } from './outbound-queue/outbound-queue.service';
+
+export interface MessageSchedule {
+  scheduledAt: Date;
+  timeZone: string;
+}
+
+const DISPATCH_BATCH_SIZE = 100;
+
+/**
+ * Keeps messages with a future `scheduledAt` in the `scheduled` status and
+ * hands them to the outbound queue once due. Until then they can be edited
+ * or cancelled.
+ */
+@Injectable()
+export class ScheduledMessageService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(ScheduledMessageService.name);
+  private readonly pollIntervalMs: number;
+  private timer?: NodeJS.Timeout;
+  private dispatching = false;
+
+  constructor(
+    @InjectModel(Message.name) private messageModel: Model<Message>,
+    @InjectModel(Tenant.name) private tenantModel: Model<Tenant>,
+    private outboundQueue: OutboundQueueService,
+    private mediaService: MediaService,
+    private configService: ConfigService,
+  ) {
+    this.pollIntervalMs =
+      this.configService.get<number>('whatsapp.scheduler.pollIntervalMs') ||
+      15_000;
+  }
+
+  onApplicationBootstrap(): void {
+    this.timer = setInterval(
+      () => void this.dispatchDueMessages(),
+      this.pollIntervalMs,
+    );
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * Resolves a requested send time. Times without an offset are read in the
+   * given time zone, falling back to the tenant time zone.
+   */
+  async resolveSchedule(
+    value: string,
+    timeZone: string | undefined,
+    tenantId: string,
+  ): Promise<MessageSchedule> {
+    const zone = timeZone || (await this.getTenantTimeZone(tenantId));
+    if (!isValidTimeZone(zone)) {
+      throw new BadRequestException(`Invalid time zone: ${zone}`);
+    }
+
+    const scheduledAt = parseDateTimeInZone(value, zone);
+    if (!scheduledAt) {
+      throw new BadRequestException(
+        'Scheduled time must be a valid ISO 8601 date',
+      );
+    }
+    if (scheduledAt.getTime() <= Date.now()) {
+      throw new BadRequestException('Scheduled time must be in the future');
+    }
+
+    return { scheduledAt, timeZone: zone };
+  }
+
+  async findAll(
+    query: QueryScheduledMessagesDto,
+    tenantId: string,
+  ): Promise<{
+    messages: MessageResponseDto[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const { page = 1, limit = 20, deviceId, status = 'scheduled' } = query;
+    const filter = {
+      tenantId: new Types.ObjectId(tenantId),
+      status,
+      isDeleted: false,
+      ...(deviceId && { deviceId: new Types.ObjectId(deviceId) }),
+    };
+
+    const [messages, total] = await Promise.all([
+      this.messageModel
+        .find(filter)
+        .sort({ scheduledAt: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.messageModel.countDocuments(filter).exec(),
+    ]);
+
+    return {
+      messages: messages.map((message) => mapMessageResponse(message)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async update(
+    id: string,
+    updateDto: UpdateScheduledMessageDto,
+    tenantId: string,
+  ): Promise<MessageResponseDto> {
+    // The stored time was resolved in the old zone, so it has to be restated
+    if (updateDto.timeZone && !updateDto.scheduledAt) {
+      throw new BadRequestException(
+        'Scheduled time is required when changing the time zone',
+      );
+    }
+
+    const message = await this.findScheduledMessage(id, tenantId);
+
+    // Rebuild the payload so edits are validated like a new send
+    const request = {
+      ...message.request,
+      ...(updateDto.content !== undefined && { content: updateDto.content }),
+      ...(updateDto.caption !== undefined && { caption: updateDto.caption }),
+      deviceId: message.deviceId.toString(),
+      phoneNumber: message.phoneNumber,
+    } as SendMessageDto;
+    const media = await this.mediaService.getOutboundMedia(
+      request.mediaId,
+      tenantId,
+    );
+    const outbound = buildOutboundMessage(request, media);
+
+    const schedule = updateDto.scheduledAt
+      ? await this.resolveSchedule(
+          updateDto.scheduledAt,
+          updateDto.timeZone,
+          tenantId,
+        )
+      : undefined;
+
+    const updated = await this.messageModel
+      .findOneAndUpdate(
+        { _id: message._id, status: 'scheduled' },
+        {
+          content: outbound.content,
+          caption: request.caption,
+          metadata: outbound.metadata,
+          request: {
+            ...message.request,
+            content: request.content,
+            caption: request.caption,
+          },
+          ...(schedule && {
+            scheduledAt: schedule.scheduledAt,
+            scheduledTimeZone: schedule.timeZone,
+            sentAt: schedule.scheduledAt,
+          }),
+        },
+        { new: true },
+      )
+      .exec();
+
+    // Dispatched while the edit was in progress
+    if (!updated) {
+      throw new BadRequestException('Message is no longer scheduled');
+    }
+
+    return mapMessageResponse(updated);
+  }
+
+  async cancel(id: string, tenantId: string): Promise<MessageResponseDto> {
+    const message = await this.findScheduledMessage(id, tenantId);
+
+    const cancelled = await this.messageModel
+      .findOneAndUpdate(
+        { _id: message._id, status: 'scheduled' },
+        { status: 'cancelled' },
+        { new: true },
+      )
+      .exec();
+
+    if (!cancelled) {
+      throw new BadRequestException('Message is no longer scheduled');
+    }
+
+    this.logger.log(`Scheduled message ${id} cancelled`);
+    return mapMessageResponse(cancelled);
+  }
+
+  /**
+   * Moves due scheduled messages to `pending` and queues them, the same way
+   * as messages sent right away. Returns the number of dispatched messages.
+   */
+  async dispatchDueMessages(): Promise<number> {
+    // Skip the tick while the previous run is still dispatching
+    if (this.dispatching) {
+      return 0;
+    }
+    this.dispatching = true;
+
+    let dispatched = 0;
+    try {
+      const due = await this.messageModel
+        .find({
+          status: 'scheduled',
+          scheduledAt: { $lte: new Date() },
+          isDeleted: false,
+        })
+        .sort({ scheduledAt: 1 })
+        .limit(DISPATCH_BATCH_SIZE)
+        .select('_id')
+        .exec();
+
+      for (const { _id } of due) {
+        // Claim the message so it is dispatched once, even with several instances
+        const message = await this.messageModel
+          .findOneAndUpdate(
+            { _id, status: 'scheduled' },
+            { status: 'pending', sentAt: new Date() },
+          )
+          .exec();
+        if (!message) {
+          continue;
+        }
+
+        try {
+          await this.outboundQueue.enqueue(_id.toString());
+        } catch (error) {
+          // Hand the message back so a later tick dispatches it again
+          await this.messageModel
+            .updateOne(
+              { _id, status: 'pending' },
+              { status: 'scheduled', sentAt: message.sentAt },
+            )
+            .exec();
+          throw error;
+        }
+        dispatched++;
+      }
+
+      if (dispatched) {
+        this.logger.log(`Dispatched ${dispatched} scheduled message(s)`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to dispatch scheduled messages: ${(error as Error).message}`,
+      );
+    } finally {
+      this.dispatching = false;
+    }
+
+    return dispatched;
+  }
+
+  private async findScheduledMessage(
+    id: string,
+    tenantId: string,
+  ): Promise<MessageDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Message not found');
+    }
+
+    const message = await this.messageModel
+      .findOne({
+        _id: new Types.ObjectId(id),
+        tenantId: new Types.ObjectId(tenantId),
+        isDeleted: false,
+      })
+      .exec();
+
+    if (!message) {
+      throw new NotFoundException('Message not found');
+    }
+    if (message.status !== 'scheduled') {
+      throw new BadRequestException(
+        `Only scheduled messages can be changed, this message is ${message.status}`,
+      );
+    }
+
+    return message;
+  }
+
+  private async getTenantTimeZone(tenantId: string): Promise<string> {
+    const tenant = await this.tenantModel
+      .findById(tenantId)
+      .select('settings')
+      .exec();
+    const timeZone: unknown = tenant?.settings?.timeZone;
+    return typeof timeZone === 'string' && timeZone
+      ? timeZone
+      : DEFAULT_TIME_ZONE;
+  }
+}
@@ -0,0 +1,39 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { MediaStorage } from './media-storage.interface';
+
+@Injectable()
+export class LocalMediaStorage implements MediaStorage {
+  readonly driver = 'local';
+  private readonly rootDir: string;
+
+  constructor(private configService: ConfigService) {
+    this.rootDir = path.resolve(
+      this.configService.get<string>('media.storagePath') || './media',
+    );
+  }
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolve(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid media storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
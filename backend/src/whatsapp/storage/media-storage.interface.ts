@@ -0,0 +1,12 @@
+export const MEDIA_STORAGE = 'MEDIA_STORAGE';
+
+/**
+ * Binary store for media files. Keys are opaque, tenant-prefixed paths
+ * generated by the media service; implementations only persist bytes.
+ */
+export interface MediaStorage {
+  readonly driver: string;
+  save(key: string, data: Buffer): Promise<void>;
+  read(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,44 @@
+const USER_SERVER = 's.whatsapp.net';
+const GROUP_SERVER = 'g.us';
+
+export function isGroupJid(jid: string): boolean {
+  return jid?.endsWith(`@${GROUP_SERVER}`) ?? false;
+}
+
+/**
+ * Strips the server and any device suffix from a JID,
+ * e.g. `1234567890:12@s.whatsapp.net` -> `1234567890`.
+ */
+export function jidToUser(jid: string): string {
+  if (!jid) {
+    return '';
+  }
+  const [user] = jid.split('@');
+  return user.split(':')[0];
+}
+
+export function jidToPhoneNumber(jid: string): string {
+  const user = jidToUser(jid);
+  return user ? `+${user}` : '';
+}
+
+/**
+ * Converts a phone number or group ID into a WhatsApp JID. Values that
+ * already contain a server part are returned untouched.
+ */
+export function toJid(value: string, isGroup = false): string {
+  if (value.includes('@')) {
+    return value;
+  }
+  const user = isGroup ? value.trim() : value.replace(/\D/g, '');
+  return `${user}@${isGroup ? GROUP_SERVER : USER_SERVER}`;
+}
+
+/**
+ * Every representation a phone number may have been stored with
+ * (`+1234567890` and `1234567890`).
+ */
+export function phoneNumberVariants(jid: string): string[] {
+  const user = jidToUser(jid);
+  return [user, `+${user}`];
+}
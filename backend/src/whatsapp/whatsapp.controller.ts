@@ -23,6 +23,7 @@ import { PermissionGuard } from '../auth/guards/permission.guard';
 import { CreateDeviceDto } from './dto/create-device.dto';
 import { DeviceResponseDto } from './dto/device-response.dto';
 import { MessageResponseDto } from './dto/message-response.dto';
+import { RequestPairingCodeDto } from './dto/request-pairing-code.dto';
 import { SendMessageDto } from './dto/send-message.dto';
 import { UpdateDeviceDto } from './dto/update-device.dto';
 import { WhatsAppService } from './whatsapp.service';
@@ -74,6 +75,7 @@ export class WhatsAppController {
                 qrCode: { type: 'string' },
                 expiresAt: { type: 'string', format: 'date-time' },
                 sessionId: { type: 'string' },
+                deviceId: { type: 'string' },
             },
         },
     })
@@ -84,7 +86,7 @@ export class WhatsAppController {
     async generateQRForNewDevice(
         @Body() body: { deviceName: string; description?: string },
         @Request() req: Request & { user: any },
-    ): Promise<{ qrCode: string; expiresAt: Date; sessionId: string }> {
+    ): Promise<{ qrCode: string; expiresAt: Date; sessionId: string; deviceId: string }> {
         return this.whatsappService.generateQRCodeForNewDevice(
             body.deviceName,
             body.description || '',
@@ -236,6 +238,41 @@ export class WhatsAppController {
         return this.whatsappService.generateQRCode(id, req.user.tenantId);
     }
 
+    @Post('devices/:id/pairing-code')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Generate a code to link the device by phone number instead of a QR scan' })
+    @ApiParam({ name: 'id', description: 'Device ID' })
+    @ApiResponse({
+        status: 200,
+        description: 'Pairing code generated successfully',
+        schema: {
+            type: 'object',
+            properties: {
+                pairingCode: { type: 'string', example: 'ABCD1234' },
+                expiresAt: { type: 'string', format: 'date-time' },
+            },
+        },
+    })
+    @ApiResponse({
+        status: 400,
+        description: 'Bad request - invalid phone number or device already connected',
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'Device not found',
+    })
+    async requestPairingCode(
+        @Param('id') id: string,
+        @Body() requestPairingCodeDto: RequestPairingCodeDto,
+        @Request() req: Request & { user: any },
+    ): Promise<{ pairingCode: string; expiresAt: Date }> {
+        return this.whatsappService.requestPairingCode(
+            id,
+            requestPairingCodeDto.phoneNumber,
+            req.user.tenantId,
+        );
+    }
+
     @Post('devices/:id/reconnect')
     @HttpCode(HttpStatus.OK)
     @ApiOperation({ summary: 'Reconnect WhatsApp device by ID' })
@@ -305,11 +342,14 @@ export class WhatsAppController {
     }
 
     @Post('send')
-    @HttpCode(HttpStatus.OK)
-    @ApiOperation({ summary: 'Send WhatsApp message' })
+    @HttpCode(HttpStatus.ACCEPTED)
+    @ApiOperation({
+        summary: 'Send WhatsApp message',
+        description: 'Queues the message and returns it with status pending. Track delivery through the message status.',
+    })
     @ApiResponse({
-        status: 200,
-        description: 'Message sent successfully',
+        status: 202,
+        description: 'Message queued for delivery',
         type: MessageResponseDto,
     })
     @ApiResponse({
@@ -1,5 +1,7 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { MongooseModule } from '@nestjs/mongoose';
+import { MulterModule } from '@nestjs/platform-express';
 import { WhatsAppService } from './whatsapp.service';
 import { WhatsAppController } from './whatsapp.controller';
 import {
@@ -7,16 +9,126 @@ import {
   WhatsAppSessionSchema,
 } from '../database/schemas/whatsapp-session.schema';
 import { Message, MessageSchema } from '../database/schemas/message.schema';
+import { Contact, ContactSchema } from '../database/schemas/contact.schema';
+import { Tenant, TenantSchema } from '../database/schemas/tenant.schema';
+import {
+  ChatGroup,
+  ChatGroupSchema,
+} from '../database/schemas/chat-group.schema';
+import {
+  MediaFile,
+  MediaFileSchema,
+} from '../database/schemas/media-file.schema';
+import {
+  AuthStateEntry,
+  AuthStateEntrySchema,
+} from '../database/schemas/auth-state-entry.schema';
+import { AuthStateCipher } from './auth-state/auth-state.cipher';
+import { AuthStateService } from './auth-state/auth-state.service';
+import {
+  AUTH_STATE_STORE,
+  AuthStateStore,
+} from './auth-state/auth-state-store.interface';
+import { MongoAuthStateStore } from './auth-state/mongo-auth-state.store';
+import { RedisAuthStateStore } from './auth-state/redis-auth-state.store';
+import { BaileysEngine } from './engines/baileys/baileys.engine';
+import { EngineEventsService } from './engines/engine-events.service';
+import { WahaWebhookController } from './engines/waha/waha-webhook.controller';
+import { WahaWebhookService } from './engines/waha/waha-webhook.service';
+import { WahaEngine } from './engines/waha/waha.engine';
+import { InboundMessageService } from './inbound-message.service';
+import { MessageReceiptService } from './message-receipt.service';
+import { MediaController } from './media.controller';
+import { MediaService } from './media.service';
+import { OutboundMessageProcessor } from './outbound-queue/outbound-message.processor';
+import { OutboundQueueService } from './outbound-queue/outbound-queue.service';
+import { ScheduledMessageService } from './scheduled-message.service';
+import { LocalMediaStorage } from './storage/local-media.storage';
+import { MEDIA_STORAGE, MediaStorage } from './storage/media-storage.interface';
+import { ConsentModule } from '../consent/consent.module';
+import { ConversationsModule } from '../conversations/conversations.module';
+import { TemplatesModule } from '../templates/templates.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: WhatsAppSession.name, schema: WhatsAppSessionSchema },
       { name: Message.name, schema: MessageSchema },
+      { name: Contact.name, schema: ContactSchema },
+      { name: Tenant.name, schema: TenantSchema },
+      { name: ChatGroup.name, schema: ChatGroupSchema },
+      { name: MediaFile.name, schema: MediaFileSchema },
+      { name: AuthStateEntry.name, schema: AuthStateEntrySchema },
     ]),
+    ConsentModule,
+    ConversationsModule,
+    TemplatesModule,
+    WebhooksModule,
+    MulterModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        limits: {
+          fileSize: configService.get<number>('media.maxFileSize'),
+          files: 1,
+        },
+      }),
+    }),
+  ],
+  controllers: [WhatsAppController, MediaController, WahaWebhookController],
+  providers: [
+    WhatsAppService,
+    InboundMessageService,
+    MessageReceiptService,
+    MediaService,
+    OutboundQueueService,
+    OutboundMessageProcessor,
+    ScheduledMessageService,
+    EngineEventsService,
+    BaileysEngine,
+    WahaEngine,
+    WahaWebhookService,
+    {
+      provide: MEDIA_STORAGE,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): MediaStorage => {
+        const driver = configService.get<string>('media.storageDriver');
+        // Only local disk for now; S3-compatible drivers plug in here
+        if (driver && driver !== 'local') {
+          throw new Error(`Unsupported media storage driver: ${driver}`);
+        }
+        return new LocalMediaStorage(configService);
+      },
+    },
+    AuthStateService,
+    AuthStateCipher,
+    MongoAuthStateStore,
+    RedisAuthStateStore,
+    {
+      provide: AUTH_STATE_STORE,
+      inject: [ConfigService, MongoAuthStateStore, RedisAuthStateStore],
+      useFactory: (
+        configService: ConfigService,
+        mongoStore: MongoAuthStateStore,
+        redisStore: RedisAuthStateStore,
+      ): AuthStateStore => {
+        const driver = configService.get<string>('whatsapp.authState.driver');
+        switch (driver || 'mongo') {
+          case 'mongo':
+            return mongoStore;
+          case 'redis':
+            return redisStore;
+          default:
+            throw new Error(`Unsupported WhatsApp auth state store: ${driver}`);
+        }
+      },
+    },
+  ],
+  exports: [
+    WhatsAppService,
+    InboundMessageService,
+    ScheduledMessageService,
+    MediaService,
   ],
-  controllers: [WhatsAppController],
-  providers: [WhatsAppService],
-  exports: [WhatsAppService],
 })
 export class WhatsAppModule {}
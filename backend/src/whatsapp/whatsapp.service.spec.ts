@@ -4,15 +4,27 @@ import { ConfigService } from '@nestjs/config';
 import {
   NotFoundException,
   BadRequestException,
+  ForbiddenException,
   HttpException,
 } from '@nestjs/common';
 import { Types } from 'mongoose';
 import { WhatsAppService } from './whatsapp.service';
 import { WhatsAppSession } from '../database/schemas/whatsapp-session.schema';
-import { Message } from '../database/schemas/message.schema';
+import { Message, MessageDocument } from '../database/schemas/message.schema';
 import { CreateDeviceDto } from './dto/create-device.dto';
 import { UpdateDeviceDto } from './dto/update-device.dto';
 import { SendMessageDto, MessageType } from './dto/send-message.dto';
+import { MediaService } from './media.service';
+import { AuthStateService } from './auth-state/auth-state.service';
+import { OutboundQueueService } from './outbound-queue/outbound-queue.service';
+import { ScheduledMessageService } from './scheduled-message.service';
+import { TemplatesService } from '../templates/templates.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { ConversationsService } from '../conversations/conversations.service';
+import { ConsentService } from '../consent/consent.service';
+import { BaileysEngine } from './engines/baileys/baileys.engine';
+import { EngineEventsService } from './engines/engine-events.service';
+import { WahaEngine } from './engines/waha/waha.engine';
 
 describe('WhatsAppService', () => {
   let service: WhatsAppService;
@@ -60,6 +72,48 @@ describe('WhatsAppService', () => {
     get: jest.fn(),
   };
 
+  const mockAuthStateService = {
+    useAuthState: jest.fn(),
+    hasCredentials: jest.fn().mockResolvedValue(false),
+    importLegacySession: jest.fn().mockResolvedValue(false),
+    copy: jest.fn(),
+    clear: jest.fn(),
+  };
+
+  const mockTemplatesService = {
+    renderTemplate: jest.fn(),
+  };
+
+  const mockWebhooksService = {
+    publish: jest.fn(),
+  };
+
+  const mockConversationsService = {
+    recordMessage: jest.fn(),
+  };
+
+  const mockConsentService = {
+    assertCanMessage: jest.fn(),
+  };
+
+  const mockEngineEvents = {
+    handleQRCode: jest.fn(),
+    handlePairingCode: jest.fn(),
+    handleConnectionUpdate: jest.fn(),
+  };
+
+  const mockWahaEngine = {
+    name: 'waha',
+    connect: jest.fn(),
+    getQRCode: jest.fn(),
+    requestPairingCode: jest.fn(),
+    getState: jest.fn(),
+    hasSession: jest.fn(),
+    sendMessage: jest.fn(),
+    disconnect: jest.fn(),
+    logout: jest.fn(),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -76,6 +130,47 @@ describe('WhatsAppService', () => {
           provide: ConfigService,
           useValue: mockConfigService,
         },
+        {
+          provide: MediaService,
+          useValue: { getMediaContent: jest.fn(), getOutboundMedia: jest.fn() },
+        },
+        {
+          provide: AuthStateService,
+          useValue: mockAuthStateService,
+        },
+        {
+          provide: OutboundQueueService,
+          useValue: { enqueue: jest.fn() },
+        },
+        {
+          provide: ScheduledMessageService,
+          useValue: { resolveSchedule: jest.fn() },
+        },
+        {
+          provide: TemplatesService,
+          useValue: mockTemplatesService,
+        },
+        {
+          provide: WebhooksService,
+          useValue: mockWebhooksService,
+        },
+        {
+          provide: ConversationsService,
+          useValue: mockConversationsService,
+        },
+        {
+          provide: ConsentService,
+          useValue: mockConsentService,
+        },
+        {
+          provide: EngineEventsService,
+          useValue: mockEngineEvents,
+        },
+        BaileysEngine,
+        {
+          provide: WahaEngine,
+          useValue: mockWahaEngine,
+        },
       ],
     }).compile();
 
@@ -549,6 +644,215 @@ describe('WhatsAppService', () => {
     });
   });
 
+  describe('restoreSessions', () => {
+    it('should mark devices without stored credentials as disconnected', async () => {
+      const device = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+        deviceId: 'device_without_creds',
+        tenantId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+        isActive: true,
+        status: 'connected',
+        isDeleted: false,
+      };
+
+      MockWhatsAppSessionModel.find.mockReturnValueOnce({
+        exec: jest.fn().mockResolvedValue([device]),
+      });
+      // findByIdAndUpdate resolves the device as it was before the update
+      MockWhatsAppSessionModel.findByIdAndUpdate.mockReturnValueOnce({
+        exec: jest.fn().mockResolvedValue(device),
+      });
+
+      const result = await service.restoreSessions();
+
+      expect(result).toEqual({ restored: 0, failed: 1 });
+      expect(mockAuthStateService.hasCredentials).toHaveBeenCalledWith(
+        'device_without_creds',
+      );
+      expect(MockWhatsAppSessionModel.find).toHaveBeenCalledWith({
+        isActive: true,
+        isDeleted: false,
+      });
+      expect(MockWhatsAppSessionModel.findByIdAndUpdate).toHaveBeenCalledWith(
+        device._id.toString(),
+        expect.objectContaining({ status: 'disconnected' }),
+      );
+      expect(mockWebhooksService.publish).toHaveBeenCalledWith(
+        device.tenantId,
+        'device.disconnected',
+        expect.objectContaining({
+          deviceId: device._id.toString(),
+          status: 'disconnected',
+          reason: 'No stored credentials to restore the session',
+        }),
+      );
+    });
+  });
+
+  describe('WAHA devices', () => {
+    const device = {
+      _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+      deviceId: 'session_123',
+      tenantId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+      engine: 'waha',
+      isActive: true,
+      status: 'connecting',
+      isDeleted: false,
+    };
+
+    it('should restore the session on the engine', async () => {
+      const state = { status: 'connected', phoneNumber: '+1234567890' };
+      MockWhatsAppSessionModel.find.mockReturnValueOnce({
+        exec: jest.fn().mockResolvedValue([device]),
+      });
+      mockWahaEngine.hasSession.mockResolvedValueOnce(true);
+      mockWahaEngine.connect.mockResolvedValueOnce(state);
+
+      const result = await service.restoreSessions();
+
+      expect(result).toEqual({ restored: 1, failed: 0 });
+      expect(mockWahaEngine.connect).toHaveBeenCalledWith(device);
+      expect(mockEngineEvents.handleConnectionUpdate).toHaveBeenCalledWith(
+        device,
+        state,
+      );
+      expect(mockAuthStateService.hasCredentials).not.toHaveBeenCalled();
+    });
+
+    it('should request a pairing code once the session waits for pairing', async () => {
+      const expiresAt = new Date();
+      MockWhatsAppSessionModel.findOne.mockReturnValueOnce({
+        exec: jest.fn().mockResolvedValue(device),
+      });
+      mockWahaEngine.connect.mockResolvedValueOnce({ status: 'connecting' });
+      mockWahaEngine.getQRCode.mockResolvedValueOnce('2@abc');
+      mockWahaEngine.requestPairingCode.mockResolvedValueOnce('ABCD1234');
+      mockEngineEvents.handlePairingCode.mockResolvedValueOnce({
+        pairingCode: 'ABCD1234',
+        expiresAt,
+      });
+
+      const result = await service.requestPairingCode(
+        device._id.toString(),
+        '+1 (234) 567-890',
+        device.tenantId.toString(),
+      );
+
+      expect(result).toEqual({ pairingCode: 'ABCD1234', expiresAt });
+      expect(mockWahaEngine.requestPairingCode).toHaveBeenCalledWith(
+        device,
+        '1234567890',
+      );
+      expect(mockEngineEvents.handlePairingCode).toHaveBeenCalledWith(
+        device,
+        'ABCD1234',
+      );
+      expect(MockWhatsAppSessionModel.findByIdAndUpdate).toHaveBeenCalledWith(
+        device._id.toString(),
+        expect.objectContaining({ status: 'connecting' }),
+      );
+    });
+
+    it('should not request a pairing code for a connected device', async () => {
+      MockWhatsAppSessionModel.findOne.mockReturnValueOnce({
+        exec: jest.fn().mockResolvedValue({ ...device, status: 'connected' }),
+      });
+
+      await expect(
+        service.requestPairingCode(
+          device._id.toString(),
+          '+1234567890',
+          device.tenantId.toString(),
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockWahaEngine.requestPairingCode).not.toHaveBeenCalled();
+    });
+
+    it('should send queued messages through the engine', async () => {
+      const message = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439014'),
+        deviceId: device._id,
+        tenantId: device.tenantId,
+        phoneNumber: '+1234567890',
+        request: { messageType: MessageType.TEXT, content: 'Hello' },
+        attempts: 0,
+      };
+      const messageUpdate = jest.fn().mockReturnValue({
+        exec: jest.fn().mockResolvedValue(null),
+      });
+      (MockMessageModel as any).findByIdAndUpdate = messageUpdate;
+      MockWhatsAppSessionModel.findOne.mockReturnValueOnce({
+        exec: jest.fn().mockResolvedValue(device),
+      });
+      mockWahaEngine.sendMessage.mockResolvedValueOnce({
+        whatsappMessageId: 'true_1234567890@c.us_MSG1',
+      });
+
+      await service.deliverQueuedMessage(message as unknown as MessageDocument);
+
+      expect(mockWahaEngine.sendMessage).toHaveBeenCalledWith(
+        device,
+        '1234567890@s.whatsapp.net',
+        expect.objectContaining({ payload: { text: 'Hello' } }),
+      );
+      expect(messageUpdate).toHaveBeenCalledWith(
+        message._id,
+        expect.objectContaining({
+          status: 'sent',
+          whatsappMessageId: 'true_1234567890@c.us_MSG1',
+        }),
+        { new: true },
+      );
+    });
+
+    it('should replace an echo of the send stored before it was marked sent', async () => {
+      const message = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439014'),
+        deviceId: device._id,
+        tenantId: device.tenantId,
+        phoneNumber: '+1234567890',
+        request: { messageType: MessageType.TEXT, content: 'Hello' },
+        attempts: 0,
+      };
+      const sentMessage = { ...message, status: 'sent' };
+      const messageUpdate = jest
+        .fn()
+        .mockReturnValueOnce({
+          exec: jest.fn().mockRejectedValue(
+            Object.assign(new Error('E11000 duplicate key'), {
+              code: 11000,
+            }),
+          ),
+        })
+        .mockReturnValueOnce({
+          exec: jest.fn().mockResolvedValue(sentMessage),
+        });
+      const messageDelete = jest.fn().mockReturnValue({
+        exec: jest.fn().mockResolvedValue({ deletedCount: 1 }),
+      });
+      (MockMessageModel as any).findByIdAndUpdate = messageUpdate;
+      (MockMessageModel as any).deleteOne = messageDelete;
+      MockWhatsAppSessionModel.findOne.mockReturnValueOnce({
+        exec: jest.fn().mockResolvedValue(device),
+      });
+      mockWahaEngine.sendMessage.mockResolvedValueOnce({
+        whatsappMessageId: 'true_1234567890@c.us_MSG1',
+      });
+
+      await service.deliverQueuedMessage(message as unknown as MessageDocument);
+
+      expect(messageDelete).toHaveBeenCalledWith({
+        deviceId: device._id,
+        whatsappMessageId: 'true_1234567890@c.us_MSG1',
+        _id: { $ne: message._id },
+      });
+      expect(messageUpdate).toHaveBeenCalledTimes(2);
+      expect(mockConversationsService.recordMessage).toHaveBeenCalledWith(
+        sentMessage,
+      );
+    });
+  });
+
   describe('sendMessage', () => {
     it('should send text message successfully', async () => {
       const sendMessageDto: SendMessageDto = {
@@ -685,6 +989,79 @@ describe('WhatsAppService', () => {
       expect(result.caption).toBe(sendMessageDto.caption);
     });
 
+    it('should send the rendered template', async () => {
+      const tenantId = '507f1f77bcf86cd799439012';
+      const templateId = '507f1f77bcf86cd799439016';
+
+      mockTemplatesService.renderTemplate.mockResolvedValue({
+        templateId,
+        version: 2,
+        messageType: 'text',
+        content: 'Hi John, order A-1001 is on its way',
+      });
+      MockWhatsAppSessionModel.findOne.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({
+          _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+          isActive: true,
+          status: 'connected',
+        }),
+      });
+      mockMessageModel.save.mockResolvedValue({
+        _id: new Types.ObjectId('507f1f77bcf86cd799439014'),
+        deviceId: new Types.ObjectId('507f1f77bcf86cd799439011'),
+        tenantId: new Types.ObjectId(tenantId),
+      });
+
+      await service.sendMessage(
+        {
+          deviceId: '507f1f77bcf86cd799439011',
+          phoneNumber: '+1234567890',
+          templateId,
+          variables: { orderNumber: 'A-1001' },
+        } as unknown as SendMessageDto,
+        tenantId,
+        '507f1f77bcf86cd799439013',
+      );
+
+      expect(mockTemplatesService.renderTemplate).toHaveBeenCalledWith(
+        templateId,
+        tenantId,
+        {
+          phoneNumber: '+1234567890',
+          variables: { orderNumber: 'A-1001' },
+          version: undefined,
+        },
+      );
+      expect(MockMessageModel).toHaveBeenCalledWith(
+        expect.objectContaining({
+          messageType: 'text',
+          content: 'Hi John, order A-1001 is on its way',
+          templateId: new Types.ObjectId(templateId),
+          templateVersion: 2,
+        }),
+      );
+    });
+
+    it('should not store a message when template variables are missing', async () => {
+      mockTemplatesService.renderTemplate.mockRejectedValue(
+        new BadRequestException('Missing template variables: orderNumber'),
+      );
+      MockMessageModel.mockClear();
+
+      await expect(
+        service.sendMessage(
+          {
+            deviceId: '507f1f77bcf86cd799439011',
+            phoneNumber: '+1234567890',
+            templateId: '507f1f77bcf86cd799439016',
+          } as SendMessageDto,
+          '507f1f77bcf86cd799439012',
+          '507f1f77bcf86cd799439013',
+        ),
+      ).rejects.toThrow('Missing template variables: orderNumber');
+      expect(MockMessageModel).not.toHaveBeenCalled();
+    });
+
     it('should throw NotFoundException for non-existent device', async () => {
       const sendMessageDto: SendMessageDto = {
         deviceId: '507f1f77bcf86cd799439011',
@@ -773,5 +1150,96 @@ describe('WhatsAppService', () => {
         service.sendMessage(sendMessageDto, tenantId, userId),
       ).rejects.toThrow(HttpException);
     });
+
+    describe('consent', () => {
+      const connectedDevice = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+        tenantId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+        isActive: true,
+        status: 'connected',
+        isDeleted: false,
+      };
+      const sendMessageDto: SendMessageDto = {
+        deviceId: '507f1f77bcf86cd799439011',
+        phoneNumber: '+1234567890',
+        messageType: MessageType.TEXT,
+        content: 'Spring sale!',
+      };
+
+      beforeEach(() => {
+        MockWhatsAppSessionModel.findOne.mockReturnValue({
+          exec: jest.fn().mockResolvedValue(connectedDevice),
+        });
+        mockMessageModel.save.mockResolvedValue({
+          ...sendMessageDto,
+          _id: new Types.ObjectId('507f1f77bcf86cd799439014'),
+          deviceId: connectedDevice._id,
+          tenantId: connectedDevice.tenantId,
+          status: 'pending',
+        });
+      });
+
+      it('should refuse to message a number that opted out', async () => {
+        mockConsentService.assertCanMessage.mockRejectedValueOnce(
+          new ForbiddenException({ code: 'CONTACT_OPTED_OUT' }),
+        );
+
+        await expect(
+          service.sendMessage(
+            sendMessageDto,
+            '507f1f77bcf86cd799439012',
+            '507f1f77bcf86cd799439013',
+          ),
+        ).rejects.toThrow(ForbiddenException);
+        expect(mockConsentService.assertCanMessage).toHaveBeenCalledWith(
+          '507f1f77bcf86cd799439012',
+          '+1234567890',
+        );
+        expect(MockMessageModel).not.toHaveBeenCalled();
+      });
+
+      it('should skip the consent check for transactional messages', async () => {
+        await service.sendMessage(
+          { ...sendMessageDto, transactional: true },
+          '507f1f77bcf86cd799439012',
+          '507f1f77bcf86cd799439013',
+        );
+
+        expect(mockConsentService.assertCanMessage).not.toHaveBeenCalled();
+        expect(MockMessageModel).toHaveBeenCalledWith(
+          expect.objectContaining({
+            request: expect.objectContaining({ transactional: true }),
+          }),
+        );
+      });
+
+      it('should check consent for campaign messages marked transactional', async () => {
+        await service.sendMessage(
+          { ...sendMessageDto, transactional: true },
+          '507f1f77bcf86cd799439012',
+          '507f1f77bcf86cd799439013',
+          '507f1f77bcf86cd799439015',
+        );
+
+        expect(mockConsentService.assertCanMessage).toHaveBeenCalled();
+      });
+
+      it('should recheck consent before sending a queued message', async () => {
+        mockConsentService.assertCanMessage.mockRejectedValueOnce(
+          new ForbiddenException({ code: 'CONTACT_OPTED_OUT' }),
+        );
+
+        await expect(
+          service.deliverQueuedMessage({
+            _id: new Types.ObjectId('507f1f77bcf86cd799439014'),
+            deviceId: connectedDevice._id,
+            tenantId: connectedDevice.tenantId,
+            phoneNumber: '+1234567890',
+            request: { messageType: MessageType.TEXT, content: 'Spring sale!' },
+          } as unknown as MessageDocument),
+        ).rejects.toThrow(ForbiddenException);
+        expect(mockWahaEngine.sendMessage).not.toHaveBeenCalled();
+      });
+    });
   });
 });
@@ -1,43 +1,101 @@
-import { Boom } from '@hapi/boom';
 import {
     BadRequestException,
+    ForbiddenException,
     HttpException,
     HttpStatus,
     Injectable,
     Logger,
     NotFoundException,
+    OnApplicationBootstrap,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { InjectModel } from '@nestjs/mongoose';
-import { DisconnectReason, fetchLatestBaileysVersion, isJidBroadcast, makeWASocket, useMultiFileAuthState, WASocket } from '@whiskeysockets/baileys';
-import * as fs from 'fs';
 import { Model, Types } from 'mongoose';
-import * as path from 'path';
-import * as QRCode from 'qrcode';
-import { Message } from '../database/schemas/message.schema';
-import { WhatsAppSession } from '../database/schemas/whatsapp-session.schema';
+import { ConsentService } from '../consent/consent.service';
+import { ConversationsService } from '../conversations/conversations.service';
+import { AutomaticMessageType, Message, MessageDocument } from '../database/schemas/message.schema';
+import { WhatsAppSession, WhatsAppSessionDocument } from '../database/schemas/whatsapp-session.schema';
+import { TemplatesService } from '../templates/templates.service';
+import { WebhookEvent } from '../webhooks/webhook-events';
+import { WebhooksService } from '../webhooks/webhooks.service';
 import { CreateDeviceDto } from './dto/create-device.dto';
 import { DeviceResponseDto } from './dto/device-response.dto';
 import { MessageResponseDto } from './dto/message-response.dto';
-import { SendMessageDto } from './dto/send-message.dto';
+import { MessageType, SendMessageDto } from './dto/send-message.dto';
 import { UpdateDeviceDto } from './dto/update-device.dto';
+import { BaileysEngine } from './engines/baileys/baileys.engine';
+import { EngineEventsService } from './engines/engine-events.service';
+import { WahaEngine } from './engines/waha/waha.engine';
+import { EngineDevice, WhatsAppEngine, WhatsAppEngineName } from './engines/whatsapp-engine.interface';
+import { mapMessageResponse } from './mappers/message-response.mapper';
+import { buildOutboundMessage } from './mappers/outbound-message.mapper';
+import { MediaService } from './media.service';
+import { OutboundQueueService } from './outbound-queue/outbound-queue.service';
+import { ScheduledMessageService } from './scheduled-message.service';
+import { toJid } from './utils/jid.util';
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+/** What sent a message on its own, without a user asking for it. */
+export interface MessageAutomation {
+    autoReplyRuleId?: string;
+    automaticMessage?: AutomaticMessageType;
+}
 
 @Injectable()
-export class WhatsAppService {
+export class WhatsAppService implements OnApplicationBootstrap {
     private readonly logger = new Logger(WhatsAppService.name);
-    private readonly useBaileys: boolean;
-    private readonly sessions: Map<string, any> = new Map();
-    private readonly qrCodes: Map<string, string> = new Map();
-    private readonly deviceCreationInProgress: Set<string> = new Set(); // Track device creation to prevent duplicates
-    private readonly createdDevices: Set<string> = new Set(); // Track created devices to prevent duplicates
+    private readonly defaultEngine: WhatsAppEngineName;
 
     constructor(
         @InjectModel(WhatsAppSession.name)
         private whatsappSessionModel: Model<WhatsAppSession>,
         @InjectModel(Message.name) private messageModel: Model<Message>,
         private configService: ConfigService,
+        private mediaService: MediaService,
+        private outboundQueue: OutboundQueueService,
+        private scheduledMessageService: ScheduledMessageService,
+        private templatesService: TemplatesService,
+        private webhooksService: WebhooksService,
+        private conversationsService: ConversationsService,
+        private consentService: ConsentService,
+        private engineEvents: EngineEventsService,
+        private baileysEngine: BaileysEngine,
+        private wahaEngine: WahaEngine,
     ) {
-        this.useBaileys = this.configService.get<boolean>('whatsapp.useBaileys') || true;
+        // Engine for new devices; existing devices keep the engine they were paired with
+        const useBaileys = this.configService.get<boolean>('whatsapp.useBaileys');
+        this.defaultEngine = useBaileys ? 'baileys' : 'waha';
+    }
+
+    onApplicationBootstrap(): void {
+        // Restore in the background so a slow WhatsApp handshake doesn't block startup
+        this.restoreSessions().catch((error) => {
+            this.logger.error(`Failed to restore sessions: ${error.message}`, error.stack);
+        });
+    }
+
+    /**
+     * Reconnects all active devices on their engine and reconciles each
+     * device status with the actual connection result.
+     */
+    async restoreSessions(): Promise<{ restored: number; failed: number }> {
+        const devices = await this.whatsappSessionModel
+            .find({ isActive: true, isDeleted: false })
+            .exec();
+
+        this.logger.log(`Restoring ${devices.length} WhatsApp session(s)`);
+
+        let restored = 0;
+        for (const device of devices) {
+            if (await this.restoreSession(device)) {
+                restored++;
+            }
+        }
+
+        const failed = devices.length - restored;
+        this.logger.log(`Session restore finished: ${restored} restored, ${failed} failed`);
+        return { restored, failed };
     }
 
     async createDevice(
@@ -62,12 +120,6 @@ export class WhatsAppService {
             // Generate unique device ID
             const deviceId = `device_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
-            // Create session directory
-            const sessionDir = path.join(process.cwd(), 'sessions', deviceId);
-            if (!fs.existsSync(sessionDir)) {
-                fs.mkdirSync(sessionDir, { recursive: true });
-            }
-
             // Save device to database
             const newDevice = new this.whatsappSessionModel({
                 deviceId,
@@ -75,6 +127,7 @@ export class WhatsAppService {
                 description: createDeviceDto.description,
                 tenantId: new Types.ObjectId(tenantId),
                 createdBy: new Types.ObjectId(userId),
+                engine: createDeviceDto.engine ?? this.defaultEngine,
                 status: 'disconnected',
                 isActive: createDeviceDto.isActive ?? true,
                 isDeleted: false,
@@ -213,18 +266,8 @@ export class WhatsAppService {
                 throw new NotFoundException('Device not found');
             }
 
-            // Disconnect session if active
-            if (this.sessions.has(device.deviceId)) {
-                const session = this.sessions.get(device.deviceId);
-                await session.logout();
-                this.sessions.delete(device.deviceId);
-            }
-
-            // Clean up session directory
-            const sessionDir = path.join(process.cwd(), 'sessions', device.deviceId);
-            if (fs.existsSync(sessionDir)) {
-                fs.rmSync(sessionDir, { recursive: true, force: true });
-            }
+            // Log out so the engine drops the session and its credentials
+            await this.engineFor(device).logout(device);
 
             // Soft delete device
             await this.whatsappSessionModel
@@ -252,135 +295,40 @@ export class WhatsAppService {
         description: string,
         tenantId: string,
         userId: string,
-    ): Promise<{ qrCode: string; expiresAt: Date; sessionId: string }> {
+    ): Promise<{ qrCode: string; expiresAt: Date; sessionId: string; deviceId: string }> {
         try {
             this.logger.log(`🔄 Starting QR generation for device: ${deviceName}`);
 
             // Generate a unique session ID
             const sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-            const sessionDir = path.join(process.cwd(), 'sessions', sessionId);
-
-            // Ensure session directory exists
-            if (!fs.existsSync(sessionDir)) {
-                fs.mkdirSync(sessionDir, { recursive: true });
-            }
-
-            // Initialize Baileys auth state
-            const { state, saveCreds } = await useMultiFileAuthState(sessionDir);
-            const { version } = await fetchLatestBaileysVersion();
-
-            this.logger.log(`📦 Baileys version: ${version}`);
-
-            const sock: WASocket = makeWASocket({
-                version,
-                auth: state,
-                printQRInTerminal: false,
-                browser: ['Ubuntu', 'Chrome', '110.0.0.0'],
-                connectTimeoutMs: 60000,
-                keepAliveIntervalMs: 25000,
-                retryRequestDelayMs: 2000,
-                shouldIgnoreJid: isJidBroadcast,
-            });
-
-            this.sessions.set(sessionId, sock);
-
-            let qrResolved = false;
-            let credsSaved = false;
-
-            // Set up QR timeout
-            const qrTimeout = setTimeout(() => {
-                if (!qrResolved) {
-                    this.logger.warn(`⏰ QR not scanned in time. Cleaning session: ${sessionId}`);
-                    this.sessions.delete(sessionId);
-                    this.qrCodes.delete(sessionId);
-                }
-            }, 5 * 60 * 1000); // 5 minutes
-
-            // Connection updates
-            sock.ev.on('connection.update', async (update) => {
-                const { connection, lastDisconnect, qr } = update;
-
-                if (qr && !qrResolved) {
-                    try {
-                        const qrCode = await QRCode.toDataURL(qr);
-                        this.qrCodes.set(sessionId, qrCode);
-                        qrResolved = true;
-                        this.logger.log(`✅ QR generated for session: ${sessionId}`);
-                    } catch (err) {
-                        this.logger.error(`❌ Failed to generate QR: ${err.message}`);
-                    }
-                }
-
-                if (connection === 'open') {
-                    this.logger.log(`🟢 WhatsApp connected: ${sessionId}`);
-                    // Don’t call createDeviceFromSession() here
-                }
-
-                if (connection === 'close') {
-                    const code = (lastDisconnect?.error as Boom)?.output?.statusCode;
-                    const shouldReconnect = code !== DisconnectReason.loggedOut;
-
-                    this.logger.warn(`🔌 Connection closed (code: ${code}) for ${sessionId} | Reconnect: ${shouldReconnect}`);
-
-                    const credsPath = path.join(sessionDir, 'creds.json');
-                    const hasCreds = fs.existsSync(credsPath);
-
-                    if (hasCreds && !credsSaved) {
-                        // Slight delay to ensure connection is finalized
-                        setTimeout(async () => {
-                            if (!this.createdDevices.has(sessionId)) {
-                                this.createdDevices.add(sessionId);
-                                await this.createDeviceFromSession(sessionId, deviceName, description, tenantId, userId);
-                            }
-                        }, 3000);
-                    }
-
-                    if (!shouldReconnect) {
-                        this.sessions.delete(sessionId);
-                        this.qrCodes.delete(sessionId);
-                        this.logger.log(`🧹 Session cleaned up: ${sessionId}`);
-                    }
-                }
-            });
-
-            // Credential update
-            sock.ev.on('creds.update', async () => {
-                this.logger.log(`🔐 Credentials updated for session: ${sessionId}`);
-                await saveCreds();
-                credsSaved = true;
-
-                setTimeout(async () => {
-                    if (!this.createdDevices.has(sessionId)) {
-                        this.createdDevices.add(sessionId);
-                        await this.createDeviceFromSession(sessionId, deviceName, description, tenantId, userId);
-                    }
-                }, 3000);
-            });
 
-            // Wait for QR code
-            let attempts = 0;
-            const maxAttempts = 30;
-            while (!this.qrCodes.has(sessionId) && attempts < maxAttempts) {
-                await new Promise(resolve => setTimeout(resolve, 1000));
-                attempts++;
-                if (attempts % 5 === 0) {
-                    this.logger.log(`⌛ Waiting for QR code... (${attempts}/${maxAttempts})`);
-                }
-            }
-
-            clearTimeout(qrTimeout); // clear timeout if resolved early
+            // The device is stored up front, the engine keeps the session under its deviceId
+            const device = await new this.whatsappSessionModel({
+                deviceId: sessionId,
+                deviceName,
+                description,
+                tenantId: new Types.ObjectId(tenantId),
+                createdBy: new Types.ObjectId(userId),
+                engine: this.defaultEngine,
+                status: 'connecting',
+                isActive: true,
+                isDeleted: false,
+            }).save();
 
-            const qrCode = this.qrCodes.get(sessionId);
-            if (!qrCode) {
-                this.sessions.delete(sessionId);
-                throw new Error(`Failed to generate QR code within timeout`);
+            const engine = this.engineFor(device);
+            try {
+                const qr = await this.waitForPairingPending(engine, device);
+                const { qrCode, expiresAt } = await this.engineEvents.handleQRCode(device, qr);
+                this.logger.log(`✅ QR generated for session: ${sessionId}`);
+                return { qrCode, expiresAt, sessionId, deviceId: device._id.toString() };
+            } catch (error) {
+                // Don't leave a device behind that can never be paired
+                await engine.logout(device).catch(() => undefined);
+                await this.whatsappSessionModel
+                    .findByIdAndUpdate(device._id, { isDeleted: true, updatedAt: new Date() })
+                    .exec();
+                throw error;
             }
-
-            return {
-                qrCode,
-                expiresAt: new Date(Date.now() + 5 * 60 * 1000),
-                sessionId,
-            };
         } catch (error) {
             this.logger.error(`❌ generateQRCodeForNewDevice error: ${error.message}`, error.stack);
             throw new HttpException('Failed to generate QR code', HttpStatus.INTERNAL_SERVER_ERROR);
@@ -392,48 +340,15 @@ export class WhatsAppService {
         try {
             this.logger.log(`Checking connection status for session: ${sessionId}`);
 
-            // First, check if we have credentials (meaning pairing was successful)
-            const sessionDir = path.join(process.cwd(), 'sessions', sessionId);
-            const credsPath = path.join(sessionDir, 'creds.json');
-
-            if (fs.existsSync(credsPath)) {
-                this.logger.log(`Credentials found for session ${sessionId}, checking for created device`);
-
-                // Look for any device that was created recently (within last 5 minutes) for this session
-                const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
-
-                const device = await this.whatsappSessionModel
-                    .findOne({
-                        createdAt: { $gte: fiveMinutesAgo },
-                        status: { $in: ['connected', 'connecting'] }, // Check both connected and connecting
-                        isDeleted: false,
-                    })
-                    .sort({ createdAt: -1 }) // Get the most recent device
-                    .exec();
-
-                if (device) {
-                    this.logger.log(`Device found: ${device._id} (${device.deviceId}) with status: ${device.status}`);
-
-                    // Only return connected if the device status is actually 'connected'
-                    if (device.status === 'connected') {
-                        return { connected: true, deviceId: device._id.toString() };
-                    } else {
-                        // Device is still connecting
-                        return { connected: false };
-                    }
-                } else {
-                    this.logger.log(`Credentials found but no device created yet for session: ${sessionId}`);
-                    return { connected: false };
-                }
-            }
+            // New devices are stored under their session ID while pairing
+            const device = await this.whatsappSessionModel
+                .findOne({ deviceId: sessionId, isDeleted: false })
+                .exec();
 
-            // If session exists but no credentials, it means QR is still waiting to be scanned
-            if (this.sessions.has(sessionId)) {
-                this.logger.log(`Session exists but no credentials yet: ${sessionId}`);
-                return { connected: false };
+            if (device?.status === 'connected') {
+                return { connected: true, deviceId: device._id.toString() };
             }
 
-            this.logger.log(`No session found: ${sessionId}`);
             return { connected: false };
         } catch (error) {
             this.logger.error(`Failed to check connection status: ${error.message}`);
@@ -446,146 +361,96 @@ export class WhatsAppService {
         tenantId: string,
     ): Promise<{ qrCode: string; expiresAt: Date }> {
         try {
-            const device = await this.whatsappSessionModel
-                .findOne({
-                    _id: new Types.ObjectId(deviceId),
-                    tenantId: new Types.ObjectId(tenantId),
-                    isDeleted: false,
-                })
-                .exec();
-
-            if (!device) {
-                throw new NotFoundException('Device not found');
-            }
-
-            if (device.status === 'connected') {
-                throw new BadRequestException('Device is already connected');
-            }
-
-            // Update device status to connecting
-            await this.whatsappSessionModel
-                .findByIdAndUpdate(deviceId, {
-                    status: 'connecting',
-                    updatedAt: new Date()
-                })
-                .exec();
-
-            // Initialize Baileys session
-            const sessionDir = path.join(process.cwd(), 'sessions', device.deviceId);
-            const { state, saveCreds } = await useMultiFileAuthState(sessionDir);
-
-            const { version } = await fetchLatestBaileysVersion();
-            const sock = makeWASocket({
-                version,
-                auth: state,
-                printQRInTerminal: true,
-                browser: ['Chrome (Linux)', '', ''],
-                connectTimeoutMs: 60_000,
-                defaultQueryTimeoutMs: 60_000,
-                emitOwnEvents: false,
-                markOnlineOnConnect: false,
-
-            });
-
-            // Store session
-            this.sessions.set(device.deviceId, sock);
-
-            // Handle connection updates
-            sock.ev.on('connection.update', async (update) => {
-                const { connection, lastDisconnect, qr } = update;
-
-                if (qr) {
-                    try {
-                        // Generate QR code
-                        const qrCode = await QRCode.toDataURL(qr);
-                        this.qrCodes.set(device.deviceId, qrCode);
-
-                        // Update device with QR code
-                        await this.whatsappSessionModel
-                            .findByIdAndUpdate(deviceId, {
-                                qrCode,
-                                qrCodeExpiresAt: new Date(Date.now() + 5 * 60 * 1000), // 5 minutes
-                                updatedAt: new Date()
-                            })
-                            .exec();
-                    } catch (error) {
-                        this.logger.error(`Failed to generate QR code: ${error.message}`);
-                    }
-                }
-
-                if (connection === 'close') {
-                    const shouldReconnect = (lastDisconnect?.error as Boom)?.output?.statusCode !== DisconnectReason.loggedOut;
-                    this.logger.log(`Connection closed for ${device.deviceId}, should reconnect: ${shouldReconnect}`);
-
-                    if (!shouldReconnect) {
-                        // Update device status to disconnected
-                        await this.whatsappSessionModel
-                            .findByIdAndUpdate(deviceId, {
-                                status: 'disconnected',
-                                qrCode: null,
-                                qrCodeExpiresAt: null,
-                                updatedAt: new Date()
-                            })
-                            .exec();
-                    }
-                }
-
-                if (connection === 'open') {
-                    this.logger.log(`Device ${device.deviceId} connected successfully`);
-
-                    // Clear QR code
-                    this.qrCodes.delete(device.deviceId);
-
-                    // Update device status
-                    await this.whatsappSessionModel
-                        .findByIdAndUpdate(deviceId, {
-                            status: 'connected',
-                            qrCode: null,
-                            qrCodeExpiresAt: null,
-                            lastSeen: new Date(),
-                            updatedAt: new Date()
-                        })
-                        .exec();
-                }
-            });
-
-            // Handle credentials update
-            sock.ev.on('creds.update', saveCreds);
-
-            // Wait for QR code to be generated
-            let attempts = 0;
-            while (!this.qrCodes.has(device.deviceId) && attempts < 30) {
-                await new Promise(resolve => setTimeout(resolve, 1000));
-                attempts++;
+            const device = await this.startPairing(deviceId, tenantId);
+            const qr = await this.waitForPairingPending(this.engineFor(device), device);
+            return await this.engineEvents.handleQRCode(device, qr);
+        } catch (error) {
+            if (error instanceof NotFoundException || error instanceof BadRequestException) {
+                throw error;
             }
+            this.logger.error(`Failed to generate QR code: ${error.message}`, error.stack);
+            throw new HttpException(
+                'Failed to generate QR code',
+                HttpStatus.INTERNAL_SERVER_ERROR,
+            );
+        }
+    }
 
-            const qrCode = this.qrCodes.get(device.deviceId);
-            if (!qrCode) {
-                throw new Error('Failed to generate QR code');
-            }
+    /**
+     * Links the device by phone number instead of a QR scan. The code is
+     * entered on the phone under Linked Devices → Link with phone number,
+     * after which the device connects as if the QR code was scanned.
+     */
+    async requestPairingCode(
+        deviceId: string,
+        phoneNumber: string,
+        tenantId: string,
+    ): Promise<{ pairingCode: string; expiresAt: Date }> {
+        try {
+            const device = await this.startPairing(deviceId, tenantId);
+            const engine = this.engineFor(device);
+            await this.waitForPairingPending(engine, device);
 
-            return {
-                qrCode,
-                expiresAt: new Date(Date.now() + 5 * 60 * 1000), // 5 minutes
-            };
+            const pairingCode = await engine.requestPairingCode(device, phoneNumber.replace(/\D/g, ''));
+            return await this.engineEvents.handlePairingCode(device, pairingCode);
         } catch (error) {
             if (error instanceof NotFoundException || error instanceof BadRequestException) {
                 throw error;
             }
-            this.logger.error(`Failed to generate QR code: ${error.message}`, error.stack);
+            this.logger.error(`Failed to generate pairing code: ${error.message}`, error.stack);
             throw new HttpException(
-                'Failed to generate QR code',
+                'Failed to generate pairing code',
                 HttpStatus.INTERNAL_SERVER_ERROR,
             );
         }
     }
 
+    /**
+     * Validates the request and queues the message for delivery. The message
+     * is returned as `pending`; the outbound queue moves it to `sent` or
+     * `failed`. With `scheduledAt` it is returned as `scheduled` and queued
+     * once due.
+     */
     async sendMessage(
         sendMessageDto: SendMessageDto,
         tenantId: string,
         userId: string,
+        campaignId?: string,
+        automation?: MessageAutomation,
     ): Promise<MessageResponseDto> {
         try {
+            // Render templates before anything is stored so missing variables fail the request
+            const template = sendMessageDto.templateId
+                ? await this.templatesService.renderTemplate(sendMessageDto.templateId, tenantId, {
+                    phoneNumber: sendMessageDto.groupId ? undefined : sendMessageDto.phoneNumber,
+                    variables: sendMessageDto.variables,
+                    version: sendMessageDto.templateVersion,
+                })
+                : undefined;
+            if (template) {
+                sendMessageDto = {
+                    ...sendMessageDto,
+                    messageType: template.messageType as MessageType,
+                    content: template.content,
+                    caption: template.caption,
+                    mediaId: template.mediaId,
+                    fileName: template.fileName,
+                    mimetype: template.mimetype,
+                } as SendMessageDto;
+            }
+
+            // Build the payload up front so invalid combinations are rejected with a 400
+            const media = await this.mediaService.getOutboundMedia(sendMessageDto.mediaId, tenantId);
+            const outbound = buildOutboundMessage(sendMessageDto, media);
+
+            const schedule = sendMessageDto.scheduledAt
+                ? await this.scheduledMessageService.resolveSchedule(
+                    sendMessageDto.scheduledAt,
+                    sendMessageDto.timeZone,
+                    tenantId,
+                )
+                : undefined;
+
             // Validate device exists and belongs to tenant
             const device = await this.whatsappSessionModel
                 .findOne({
@@ -599,7 +464,8 @@ export class WhatsAppService {
                 throw new NotFoundException('Device not found');
             }
 
-            if (device.status !== 'connected') {
+            // Scheduled messages only need the device to be connected once due
+            if (!schedule && device.status !== 'connected') {
                 throw new BadRequestException('Device is not connected');
             }
 
@@ -607,24 +473,19 @@ export class WhatsAppService {
                 throw new BadRequestException('Device is not active');
             }
 
-            // Get session
-            const session = this.sessions.get(device.deviceId);
-            if (!session) {
-                throw new BadRequestException('Device session not found');
+            if (this.requiresConsent(sendMessageDto.transactional, sendMessageDto.groupId, campaignId)) {
+                await this.consentService.assertCanMessage(tenantId, sendMessageDto.phoneNumber);
             }
 
-            // Send message via Baileys
-            const messageData = await session.sendMessage(sendMessageDto.phoneNumber, {
-                text: sendMessageDto.content,
-            });
-
-            // Save message to database
+            // Save message to database, the queue sends it
             const newMessage = new this.messageModel({
                 deviceId: new Types.ObjectId(sendMessageDto.deviceId),
                 phoneNumber: sendMessageDto.phoneNumber,
                 messageType: sendMessageDto.messageType,
-                content: sendMessageDto.content,
+                content: outbound.content,
                 caption: sendMessageDto.caption,
+                metadata: outbound.metadata,
+                request: this.toQueuedRequest(sendMessageDto),
                 groupId: sendMessageDto.groupId
                     ? new Types.ObjectId(sendMessageDto.groupId)
                     : undefined,
@@ -633,28 +494,47 @@ export class WhatsAppService {
                     : undefined,
                 mentionedPhoneNumbers: sendMessageDto.mentionedPhoneNumbers,
                 broadcast: sendMessageDto.broadcast ?? false,
-                status: 'sent',
-                whatsappMessageId: messageData.key.id,
+                campaignId: campaignId ? new Types.ObjectId(campaignId) : undefined,
+                autoReplyRuleId: automation?.autoReplyRuleId
+                    ? new Types.ObjectId(automation.autoReplyRuleId)
+                    : undefined,
+                automaticMessage: automation?.automaticMessage,
+                templateId: template ? new Types.ObjectId(template.templateId) : undefined,
+                templateVersion: template?.version,
+                status: schedule ? 'scheduled' : 'pending',
+                scheduledAt: schedule?.scheduledAt,
+                scheduledTimeZone: schedule?.timeZone,
                 tenantId: new Types.ObjectId(tenantId),
                 sentBy: new Types.ObjectId(userId),
-                sentAt: new Date(),
+                sentAt: schedule?.scheduledAt ?? new Date(),
                 isDeleted: false,
             });
 
             const savedMessage = await newMessage.save();
+            await this.conversationsService.recordMessage(savedMessage);
+            if (schedule) {
+                return mapMessageResponse(savedMessage);
+            }
 
-            // Update device message count
-            await this.whatsappSessionModel
-                .findByIdAndUpdate(sendMessageDto.deviceId, {
-                    $inc: { messagesSent: 1 },
-                    lastMessageAt: new Date(),
-                    updatedAt: new Date(),
-                })
-                .exec();
+            try {
+                await this.outboundQueue.enqueue(savedMessage._id.toString());
+            } catch (error) {
+                await this.messageModel
+                    .findByIdAndUpdate(savedMessage._id, {
+                        status: 'failed',
+                        errorMessage: 'Failed to queue message',
+                    })
+                    .exec();
+                throw error;
+            }
 
-            return this.mapToMessageResponse(savedMessage);
+            return mapMessageResponse(savedMessage);
         } catch (error) {
-            if (error instanceof NotFoundException || error instanceof BadRequestException) {
+            if (
+                error instanceof NotFoundException ||
+                error instanceof BadRequestException ||
+                error instanceof ForbiddenException
+            ) {
                 throw error;
             }
             this.logger.error(`Failed to send message: ${error.message}`, error.stack);
@@ -665,11 +545,95 @@ export class WhatsAppService {
         }
     }
 
+    /**
+     * Sends a message taken from the outbound queue. Throws when the message
+     * can't be sent; the queue decides whether to retry.
+     */
+    async deliverQueuedMessage(message: MessageDocument): Promise<void> {
+        if (!message.request) {
+            throw new BadRequestException('Message has no queued send request');
+        }
+
+        const device = await this.whatsappSessionModel
+            .findOne({ _id: message.deviceId, isDeleted: false })
+            .exec();
+
+        if (!device) {
+            throw new NotFoundException('Device not found');
+        }
+
+        if (!device.isActive) {
+            throw new BadRequestException('Device is not active');
+        }
+
+        const request = {
+            ...message.request,
+            deviceId: message.deviceId.toString(),
+            phoneNumber: message.phoneNumber,
+        } as SendMessageDto;
+
+        // Scheduled sends may have been queued before the contact opted out
+        if (this.requiresConsent(request.transactional, message.groupId, message.campaignId)) {
+            await this.consentService.assertCanMessage(message.tenantId, message.phoneNumber);
+        }
+        const media = await this.mediaService.getOutboundMedia(request.mediaId, message.tenantId.toString());
+        const outbound = buildOutboundMessage(request, media);
+
+        const jid = toJid(message.phoneNumber);
+        // Engines throw while the device is (re)connecting, so the queue retries
+        const { whatsappMessageId } = await this.engineFor(device).sendMessage(device, jid, outbound);
+
+        const markSent = () => this.messageModel
+            .findByIdAndUpdate(message._id, {
+                status: 'sent',
+                whatsappMessageId,
+                sentAt: new Date(),
+                attempts: (message.attempts || 0) + 1,
+                nextAttemptAt: null,
+                errorMessage: null,
+            }, { new: true })
+            .exec();
+
+        let sentMessage: MessageDocument | null;
+        try {
+            sentMessage = await markSent();
+        } catch (error) {
+            if (error.code !== DUPLICATE_KEY_ERROR) {
+                throw error;
+            }
+            // WhatsApp echoed the send back and it was stored before we knew its ID
+            await this.messageModel
+                .deleteOne({ deviceId: message.deviceId, whatsappMessageId, _id: { $ne: message._id } })
+                .exec();
+            sentMessage = await markSent();
+            if (sentMessage) {
+                await this.conversationsService.recordMessage(sentMessage);
+            }
+        }
+
+        if (sentMessage) {
+            await this.webhooksService.publish(message.tenantId, 'message.status', mapMessageResponse(sentMessage));
+        }
+
+        // Update device message count
+        await this.whatsappSessionModel
+            .findByIdAndUpdate(device._id, {
+                $inc: { messagesSent: 1 },
+                lastMessageAt: new Date(),
+                updatedAt: new Date(),
+            })
+            .exec();
+    }
+
     async clearAllSessions(): Promise<{ message: string }> {
         try {
-            // Clear all sessions
-            this.sessions.clear();
-            this.qrCodes.clear();
+            // Close all connections; devices stay paired and can be reconnected
+            const devices = await this.whatsappSessionModel.find({ isDeleted: false }).exec();
+            for (const device of devices) {
+                await this.engineFor(device)
+                    .disconnect(device)
+                    .catch((error) => this.logger.warn(`Failed to disconnect ${device.deviceId}: ${error.message}`));
+            }
 
             // Update all devices to disconnected
             await this.whatsappSessionModel
@@ -679,6 +643,8 @@ export class WhatsAppService {
                         status: 'disconnected',
                         qrCode: null,
                         qrCodeExpiresAt: null,
+                        pairingCode: null,
+                        pairingCodeExpiresAt: null,
                         updatedAt: new Date()
                     }
                 )
@@ -714,49 +680,20 @@ export class WhatsAppService {
                 throw new NotFoundException('Device not found');
             }
 
-            // Check if session exists
-            const session = this.sessions.get(device.deviceId);
-            if (!session) {
-                this.logger.log(`No active session found for device: ${device.deviceId}`);
-
-                // Try to reconnect using saved session files
-                const sessionDir = path.join(process.cwd(), 'sessions', device.deviceId);
-                if (fs.existsSync(sessionDir)) {
-                    this.logger.log(`Session directory exists, attempting to reconnect: ${device.deviceId}`);
-
-                    // Update device status to connecting
-                    await this.whatsappSessionModel
-                        .findByIdAndUpdate(deviceId, {
-                            status: 'connecting',
-                            updatedAt: new Date()
-                        })
-                        .exec();
-
-                    // Try to reconnect
-                    setTimeout(async () => {
-                        await this.validateAndUpdateDeviceStatus(deviceId, device.deviceId);
-                    }, 5000);
-
-                    return { message: 'Reconnection attempt started' };
-                } else {
-                    throw new Error('No session files found for device');
-                }
+            if (!(await this.engineFor(device).hasSession(device))) {
+                throw new Error('No stored credentials found for device');
             }
 
-            // Update device status
+            // The device status is updated once the connection outcome is known
             await this.whatsappSessionModel
                 .findByIdAndUpdate(deviceId, {
                     status: 'connecting',
                     updatedAt: new Date()
                 })
                 .exec();
+            void this.restoreSession(device);
 
-            // Validate connection after a delay
-            setTimeout(async () => {
-                await this.validateAndUpdateDeviceStatus(deviceId, device.deviceId);
-            }, 5000);
-
-            return { message: 'Device reconnection initiated' };
+            return { message: 'Reconnection attempt started' };
         } catch (error) {
             this.logger.error(`Failed to reconnect device: ${error.message}`, error.stack);
             throw new HttpException(
@@ -785,51 +722,28 @@ export class WhatsAppService {
                 throw new NotFoundException('Device not found');
             }
 
-            // Check if session is active
-            const session = this.sessions.get(device.deviceId);
-            const sessionDir = path.join(process.cwd(), 'sessions', device.deviceId);
-            const credsPath = path.join(sessionDir, 'creds.json');
-
-            let actualStatus = device.status;
-            let info = {
-                deviceName: device.deviceName,
-                lastSeen: device.lastSeen,
-                sessionActive: !!session,
-                credentialsExist: fs.existsSync(credsPath),
-            };
+            const engine = this.engineFor(device);
+            const state = await engine.getState(device);
+            const credentialsExist = await engine.hasSession(device);
 
-            // If device shows as connected but no session, validate the status
-            if (device.status === 'connected' && !session) {
-                this.logger.log(`Device ${deviceId} shows connected but no active session, validating...`);
-
-                if (fs.existsSync(credsPath)) {
-                    // Try to reconnect
-                    actualStatus = 'connecting';
-                    await this.whatsappSessionModel
-                        .findByIdAndUpdate(deviceId, {
-                            status: 'connecting',
-                            updatedAt: new Date()
-                        })
-                        .exec();
-
-                    // Validate after delay
-                    setTimeout(async () => {
-                        await this.validateAndUpdateDeviceStatus(deviceId, device.deviceId);
-                    }, 5000);
-                } else {
-                    actualStatus = 'disconnected';
-                    await this.whatsappSessionModel
-                        .findByIdAndUpdate(deviceId, {
-                            status: 'disconnected',
-                            updatedAt: new Date()
-                        })
-                        .exec();
-                }
+            // Stored as connected without a live connection, e.g. after a restart
+            if (device.status === 'connected' && state.status === 'disconnected' && credentialsExist) {
+                this.logger.log(`Device ${deviceId} shows connected but no active session, reconnecting...`);
+                state.status = 'connecting';
+                void this.restoreSession(device);
             }
 
+            await this.engineEvents.handleConnectionUpdate(device, state);
+
             return {
-                status: actualStatus,
-                info,
+                status: state.status,
+                info: {
+                    deviceName: device.deviceName,
+                    lastSeen: device.lastSeen,
+                    engine: engine.name,
+                    sessionActive: state.status === 'connected',
+                    credentialsExist,
+                },
             };
         } catch (error) {
             this.logger.error(`Failed to get device status: ${error.message}`, error.stack);
@@ -884,14 +798,10 @@ export class WhatsAppService {
                             })
                             .exec();
 
-                        // Also delete the session directory
-                        const sessionDir = path.join(process.cwd(), 'sessions', deviceToDelete.deviceId);
-                        if (fs.existsSync(sessionDir)) {
-                            fs.rmSync(sessionDir, { recursive: true, force: true });
-                        }
-
-                        // Remove from sessions map
-                        this.sessions.delete(deviceToDelete.deviceId);
+                        // Also drop the session and its stored credentials
+                        await this.engineFor(deviceToDelete)
+                            .logout(deviceToDelete)
+                            .catch((error) => this.logger.warn(`Error during logout: ${error.message}`));
 
                         cleanedCount++;
                         this.logger.log(`Deleted duplicate device: ${deviceToDelete._id}`);
@@ -928,26 +838,12 @@ export class WhatsAppService {
                 throw new NotFoundException('Device not found');
             }
 
-            // Disconnect session if active
-            const session = this.sessions.get(device.deviceId);
-            if (session) {
-                try {
-                    await session.logout();
-                    this.logger.log(`Session logged out for device: ${device.deviceId}`);
-                } catch (error) {
-                    this.logger.warn(`Error during logout: ${error.message}`);
-                }
-                this.sessions.delete(device.deviceId);
-            }
-
-            // Clear QR codes
-            this.qrCodes.delete(device.deviceId);
-
-            // Clean up session directory
-            const sessionDir = path.join(process.cwd(), 'sessions', device.deviceId);
-            if (fs.existsSync(sessionDir)) {
-                fs.rmSync(sessionDir, { recursive: true, force: true });
-                this.logger.log(`Session directory removed for device: ${device.deviceId}`);
+            // Log out, which also removes the stored credentials
+            try {
+                await this.engineFor(device).logout(device);
+                this.logger.log(`Session logged out for device: ${device.deviceId}`);
+            } catch (error) {
+                this.logger.warn(`Error during logout: ${error.message}`);
             }
 
             // Update device status to disconnected
@@ -971,176 +867,144 @@ export class WhatsAppService {
         }
     }
 
-    private async createDeviceFromSession(
-        sessionId: string,
-        deviceName: string,
-        description: string,
-        tenantId: string,
-        userId: string,
-    ): Promise<void> {
-        try {
-            this.logger.log(`Creating device from session: ${sessionId}`);
-
-            // Check if device was already created for this session in the last 5 minutes
-            const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
-            const existingDevice = await this.whatsappSessionModel
-                .findOne({
-                    createdAt: { $gte: fiveMinutesAgo },
-                    status: { $in: ['connected', 'connecting'] },
-                    isDeleted: false,
-                })
-                .exec();
+    /**
+     * Reconnects a paired device on its engine. Resolves once the connection
+     * opens (true) or turns out to be unusable (false), in which case the
+     * device is marked disconnected. Connections that are still opening are
+     * reported by the engine as they settle.
+     */
+    private async restoreSession(device: WhatsAppSessionDocument): Promise<boolean> {
+        const deviceId = device._id.toString();
+        const engine = this.engineFor(device);
 
-            if (existingDevice) {
-                this.logger.log(`Device already created for session ${sessionId}: ${existingDevice._id}`);
-                return;
+        try {
+            if (!(await engine.hasSession(device))) {
+                await this.markDeviceDisconnected(deviceId, 'No stored credentials to restore the session');
+                return false;
             }
 
-            // Generate unique device ID
-            const deviceId = `device_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-            // Create new session directory for the device
-            const newSessionDir = path.join(process.cwd(), 'sessions', deviceId);
-            if (!fs.existsSync(newSessionDir)) {
-                fs.mkdirSync(newSessionDir, { recursive: true });
-            }
+            await this.whatsappSessionModel
+                .findByIdAndUpdate(deviceId, { status: 'connecting', updatedAt: new Date() })
+                .exec();
 
-            // Copy session files from temporary session to device session
-            const tempSessionDir = path.join(process.cwd(), 'sessions', sessionId);
-            if (fs.existsSync(tempSessionDir)) {
-                const files = fs.readdirSync(tempSessionDir);
-                for (const file of files) {
-                    const sourcePath = path.join(tempSessionDir, file);
-                    const destPath = path.join(newSessionDir, file);
-                    if (fs.statSync(sourcePath).isFile()) {
-                        fs.copyFileSync(sourcePath, destPath);
-                    }
-                }
-                this.logger.log(`Session files copied from ${sessionId} to ${deviceId}`);
+            const state = await engine.connect(device);
+            if (state.status === 'connecting' && (await engine.getQRCode(device))) {
+                // Stored credentials are no longer accepted, the device must be paired again
+                this.logger.warn(`Device ${device.deviceId} requires a new QR scan`);
+                await engine.disconnect(device);
+                await this.markDeviceDisconnected(deviceId, 'Session expired, scan a new QR code');
+                return false;
             }
 
-            // Validate that credentials exist before creating device
-            const credsPath = path.join(newSessionDir, 'creds.json');
-            if (!fs.existsSync(credsPath)) {
-                this.logger.error(`No credentials found for device ${deviceId}, cannot create device`);
-                return;
-            }
+            await this.engineEvents.handleConnectionUpdate(device, state);
+            return state.status === 'connected';
+        } catch (error) {
+            this.logger.error(`Failed to restore device ${device.deviceId}: ${error.message}`, error.stack);
+            await this.markDeviceDisconnected(deviceId, `Failed to restore session: ${error.message}`);
+            return false;
+        }
+    }
 
-            // Save device to database with initial status as 'connecting'
-            const newDevice = new this.whatsappSessionModel({
-                deviceId,
-                deviceName,
-                description,
+    /** Finds a device that is not connected yet and marks it as connecting. */
+    private async startPairing(deviceId: string, tenantId: string): Promise<WhatsAppSessionDocument> {
+        const device = await this.whatsappSessionModel
+            .findOne({
+                _id: new Types.ObjectId(deviceId),
                 tenantId: new Types.ObjectId(tenantId),
-                createdBy: new Types.ObjectId(userId),
-                status: 'connecting', // Start as connecting, will update to connected after validation
-                isActive: true,
                 isDeleted: false,
-                lastSeen: new Date(),
-                createdAt: new Date(),
-                updatedAt: new Date(),
-            });
+            })
+            .exec();
 
-            const savedDevice = await newDevice.save();
-            this.logger.log(`Device created with connecting status: ${savedDevice._id}`);
-
-            // Update session mapping to use device ID
-            const session = this.sessions.get(sessionId);
-            if (session) {
-                this.sessions.delete(sessionId);
-                this.sessions.set(deviceId, session);
-                this.logger.log(`Session mapping updated from ${sessionId} to ${deviceId}`);
-            }
+        if (!device) {
+            throw new NotFoundException('Device not found');
+        }
 
-            // Clear QR code
-            this.qrCodes.delete(sessionId);
+        if (device.status === 'connected') {
+            throw new BadRequestException('Device is already connected');
+        }
 
-            // Validate connection and update status after a longer delay
-            setTimeout(async () => {
-                await this.validateAndUpdateDeviceStatus(savedDevice._id.toString(), deviceId);
-            }, 15000); // Wait 15 seconds to ensure connection is stable
+        // Update device status to connecting
+        await this.whatsappSessionModel
+            .findByIdAndUpdate(deviceId, {
+                status: 'connecting',
+                updatedAt: new Date()
+            })
+            .exec();
 
-        } catch (error) {
-            this.logger.error(`Failed to create device from session: ${error.message}`, error.stack);
-            throw new HttpException(
-                'Failed to create device from session',
-                HttpStatus.INTERNAL_SERVER_ERROR,
-            );
-        }
+        return device;
     }
 
-    private async validateAndUpdateDeviceStatus(deviceId: string, sessionId: string): Promise<void> {
-        try {
-            this.logger.log(`Validating device connection: ${deviceId}`);
+    /**
+     * Starts the engine session and waits until it can be paired, returning
+     * the raw QR value.
+     */
+    private async waitForPairingPending(
+        engine: WhatsAppEngine,
+        device: WhatsAppSessionDocument,
+    ): Promise<string> {
+        const state = await engine.connect(device);
+        if (state.status === 'connected') {
+            await this.engineEvents.handleConnectionUpdate(device, state);
+            throw new BadRequestException('Device is already connected');
+        }
 
-            // Check if session is still active
-            const session = this.sessions.get(sessionId);
-            if (!session) {
-                this.logger.log(`Session not found for device ${deviceId}, marking as disconnected`);
-                await this.whatsappSessionModel
-                    .findByIdAndUpdate(deviceId, {
-                        status: 'disconnected',
-                        updatedAt: new Date()
-                    })
-                    .exec();
-                return;
+        for (let attempts = 0; attempts < 30; attempts++) {
+            const qr = await engine.getQRCode(device);
+            if (qr) {
+                return qr;
             }
+            await new Promise(resolve => setTimeout(resolve, 1000));
+        }
 
-            // Check if credentials exist
-            const sessionDir = path.join(process.cwd(), 'sessions', sessionId);
-            const credsPath = path.join(sessionDir, 'creds.json');
-
-            if (!fs.existsSync(credsPath)) {
-                this.logger.log(`No credentials found for device ${deviceId}, marking as disconnected`);
-                await this.whatsappSessionModel
-                    .findByIdAndUpdate(deviceId, {
-                        status: 'disconnected',
-                        updatedAt: new Date()
-                    })
-                    .exec();
-                return;
-            }
+        throw new Error('Device session did not become ready for pairing');
+    }
 
-            // Try to validate the connection by checking if we can get user info
-            try {
-                // Simplified validation - if session exists and credentials exist, consider it connected
-                // This is more reliable than trying to access session.user which may not be available
-                this.logger.log(`Connection validated for device ${deviceId} - session exists and credentials present`);
+    // Devices created before engines were selectable run on Baileys
+    private engineFor(device: EngineDevice & { engine?: WhatsAppEngineName }): WhatsAppEngine {
+        return device.engine === 'waha' ? this.wahaEngine : this.baileysEngine;
+    }
 
-                // Update device status to connected
-                await this.whatsappSessionModel
-                    .findByIdAndUpdate(deviceId, {
-                        status: 'connected',
-                        lastSeen: new Date(),
-                        updatedAt: new Date()
-                    })
-                    .exec();
+    private async markDeviceDisconnected(deviceId: string, reason: string): Promise<void> {
+        const previous = await this.whatsappSessionModel
+            .findByIdAndUpdate(deviceId, {
+                status: 'disconnected',
+                qrCode: null,
+                qrCodeExpiresAt: null,
+                pairingCode: null,
+                pairingCodeExpiresAt: null,
+                errorMessage: reason,
+                updatedAt: new Date(),
+            })
+            .exec();
+        await this.publishStatusChange(previous, 'disconnected', reason);
+    }
 
-                this.logger.log(`Device ${deviceId} status updated to connected`);
-            } catch (error) {
-                this.logger.error(`Connection validation failed for device ${deviceId}: ${error.message}`);
-                // Mark as disconnected if validation fails
-                await this.whatsappSessionModel
-                    .findByIdAndUpdate(deviceId, {
-                        status: 'disconnected',
-                        updatedAt: new Date()
-                    })
-                    .exec();
-            }
-        } catch (error) {
-            this.logger.error(`Error in validateAndUpdateDeviceStatus: ${error.message}`);
-            // Mark as disconnected on any error
-            try {
-                await this.whatsappSessionModel
-                    .findByIdAndUpdate(deviceId, {
-                        status: 'disconnected',
-                        updatedAt: new Date()
-                    })
-                    .exec();
-            } catch (updateError) {
-                this.logger.error(`Failed to update device status: ${updateError.message}`);
-            }
+    /**
+     * Publishes device.connected / device.disconnected when the status really
+     * changed. `previous` is the device as it was before the update.
+     */
+    private async publishStatusChange(
+        previous: WhatsAppSessionDocument | null,
+        status: 'connected' | 'disconnected',
+        reason?: string,
+    ): Promise<void> {
+        if (!previous || previous.status === status) {
+            return;
         }
+        await this.publishDeviceEvent(previous, `device.${status}`, { status, ...(reason && { reason }) });
+    }
+
+    private async publishDeviceEvent(
+        device: WhatsAppSessionDocument,
+        event: WebhookEvent,
+        data: Record<string, unknown> = {},
+    ): Promise<void> {
+        await this.webhooksService.publish(device.tenantId, event, {
+            deviceId: device._id.toString(),
+            deviceName: device.deviceName,
+            phoneNumber: device.phoneNumber,
+            ...data,
+        });
     }
 
     private mapToDeviceResponse(device: any): DeviceResponseDto {
@@ -1149,6 +1013,7 @@ export class WhatsAppService {
             name: device.deviceName,
             description: device.description,
             status: device.status,
+            engine: device.engine || 'baileys',
             isActive: device.isActive,
             lastConnectedAt: device.lastSeen,
             lastMessageAt: device.lastMessageAt,
@@ -1161,26 +1026,19 @@ export class WhatsAppService {
         };
     }
 
-    private mapToMessageResponse(message: any): MessageResponseDto {
-        return {
-            id: message._id.toString(),
-            deviceId: message.deviceId.toString(),
-            phoneNumber: message.phoneNumber,
-            messageType: message.messageType,
-            content: message.content,
-            caption: message.caption,
-            groupId: message.groupId?.toString(),
-            replyToMessageId: message.replyToMessageId?.toString(),
-            mentionedPhoneNumbers: message.mentionedPhoneNumbers,
-            broadcast: message.broadcast,
-            status: message.status,
-            whatsappMessageId: message.whatsappMessageId,
-            errorMessage: message.errorMessage,
-            tenantId: message.tenantId.toString(),
-            sentBy: message.sentBy.toString(),
-            sentAt: message.sentAt,
-            deliveredAt: message.deliveredAt,
-            readAt: message.readAt,
-        };
+    // Fields needed to rebuild the WhatsApp payload and recheck consent when the queue sends the message
+    private toQueuedRequest(sendMessageDto: SendMessageDto): Record<string, any> {
+        const { messageType, content, caption, mediaId, fileName, mimetype, location, contact, transactional } =
+            sendMessageDto;
+        return { messageType, content, caption, mediaId, fileName, mimetype, location, contact, transactional };
+    }
+
+    // Campaign sends are never transactional; group chats have no per-contact consent
+    private requiresConsent(
+        transactional: boolean | undefined,
+        groupId?: string | Types.ObjectId,
+        campaignId?: string | Types.ObjectId,
+    ): boolean {
+        return !groupId && (!!campaignId || !transactional);
     }
 }
\ No newline at end of file
@@ -0,0 +1,230 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ConfigModule } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { getModelToken } from '@nestjs/mongoose';
+import { RedisModule } from '../../src/redis/redis.module';
+import { WhatsAppModule } from '../../src/whatsapp/whatsapp.module';
+import { WhatsAppService } from '../../src/whatsapp/whatsapp.service';
+import { BaileysEngine } from '../../src/whatsapp/engines/baileys/baileys.engine';
+import { EngineEventsService } from '../../src/whatsapp/engines/engine-events.service';
+import { FakeEngine } from '../../src/whatsapp/engines/fake/fake.engine';
+import { MessageType } from '../../src/whatsapp/dto/send-message.dto';
+import {
+  WhatsAppSession,
+  WhatsAppSessionDocument,
+} from '../../src/database/schemas/whatsapp-session.schema';
+import {
+  Message,
+  MessageDocument,
+} from '../../src/database/schemas/message.schema';
+
+describe('WhatsApp Device Lifecycle Integration Tests', () => {
+  let moduleFixture: TestingModule;
+  let whatsappService: WhatsAppService;
+  let engine: FakeEngine;
+  let whatsappSessionModel: Model<WhatsAppSessionDocument>;
+  let messageModel: Model<MessageDocument>;
+
+  const tenantId = '507f1f77bcf86cd799439012';
+  const userId = '507f1f77bcf86cd799439011';
+
+  beforeAll(async () => {
+    moduleFixture = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          load: [
+            () => ({
+              whatsapp: {
+                authState: { encryptionKey: 'test-auth-state-key' },
+              },
+            }),
+          ],
+        }),
+        MongooseModule.forRoot(
+          process.env.MONGODB_URI || 'mongodb://localhost:27017/test',
+        ),
+        RedisModule,
+        WhatsAppModule,
+      ],
+    })
+      .overrideProvider(BaileysEngine)
+      .useFactory({
+        inject: [EngineEventsService],
+        factory: (engineEvents: EngineEventsService) =>
+          new FakeEngine(engineEvents),
+      })
+      .compile();
+
+    // Not initialized as an app: the session restore and the queue workers
+    // would start on bootstrap, the tests drive them explicitly instead
+    whatsappService = moduleFixture.get<WhatsAppService>(WhatsAppService);
+    engine = moduleFixture.get<FakeEngine>(BaileysEngine);
+    whatsappSessionModel = moduleFixture.get(
+      getModelToken(WhatsAppSession.name),
+    );
+    messageModel = moduleFixture.get(getModelToken(Message.name));
+  });
+
+  afterAll(async () => {
+    await moduleFixture.close();
+  });
+
+  beforeEach(async () => {
+    await whatsappSessionModel.deleteMany({});
+    await messageModel.deleteMany({});
+  });
+
+  const pairNewDevice = async () => {
+    const { sessionId } = await whatsappService.generateQRCodeForNewDevice(
+      'Office Phone',
+      'Front desk',
+      tenantId,
+      userId,
+    );
+    const device = await whatsappSessionModel
+      .findOne({ deviceId: sessionId })
+      .exec();
+    await engine.simulatePairing(device, '+1234567890');
+    return { sessionId, device };
+  };
+
+  it('should pair a new device by QR code', async () => {
+    const { qrCode, sessionId, deviceId } =
+      await whatsappService.generateQRCodeForNewDevice(
+        'Office Phone',
+        'Front desk',
+        tenantId,
+        userId,
+      );
+
+    expect(qrCode).toMatch(/^data:image\/png;base64,/);
+    await expect(
+      whatsappService.checkConnectionStatus(sessionId),
+    ).resolves.toEqual({ connected: false });
+
+    const device = await whatsappSessionModel
+      .findOne({ deviceId: sessionId })
+      .exec();
+    expect(device._id.toString()).toBe(deviceId);
+    expect(device.status).toBe('connecting');
+    expect(device.qrCode).toBe(qrCode);
+
+    await engine.simulatePairing(device, '+1234567890');
+
+    await expect(
+      whatsappService.checkConnectionStatus(sessionId),
+    ).resolves.toEqual({ connected: true, deviceId: device._id.toString() });
+    const paired = await whatsappSessionModel.findById(device._id).exec();
+    expect(paired.status).toBe('connected');
+    expect(paired.phoneNumber).toBe('+1234567890');
+    expect(paired.qrCode).toBeNull();
+  });
+
+  it('should pair an existing device by pairing code', async () => {
+    const { deviceId } = await whatsappService.generateQRCodeForNewDevice(
+      'Office Phone',
+      'Front desk',
+      tenantId,
+      userId,
+    );
+
+    const { pairingCode, expiresAt } = await whatsappService.requestPairingCode(
+      deviceId,
+      '+1 234 567 890',
+      tenantId,
+    );
+
+    expect(pairingCode).toBe('FAKE7890');
+    expect(expiresAt.getTime()).toBeGreaterThan(Date.now());
+    const device = await whatsappSessionModel.findById(deviceId).exec();
+    expect(device.pairingCode).toBe(pairingCode);
+
+    await engine.simulatePairing(device, '+1234567890');
+
+    const paired = await whatsappSessionModel.findById(deviceId).exec();
+    expect(paired.status).toBe('connected');
+    expect(paired.pairingCode).toBeNull();
+  });
+
+  it('should send queued messages and apply their receipts', async () => {
+    const { device } = await pairNewDevice();
+    const message = await messageModel.create({
+      deviceId: device._id,
+      tenantId: new Types.ObjectId(tenantId),
+      phoneNumber: '+1987654321',
+      content: 'Hello',
+      status: 'pending',
+      request: { messageType: MessageType.TEXT, content: 'Hello' },
+    });
+
+    await whatsappService.deliverQueuedMessage(message);
+
+    expect(engine.sentMessages).toEqual([
+      expect.objectContaining({
+        jid: '1987654321@s.whatsapp.net',
+        whatsappMessageId: 'FAKE1',
+      }),
+    ]);
+    const sent = await messageModel.findById(message._id).exec();
+    expect(sent.status).toBe('sent');
+    expect(sent.whatsappMessageId).toBe('FAKE1');
+
+    await engine.simulateStatusUpdate(device, {
+      whatsappMessageId: 'FAKE1',
+      remoteJid: '1987654321@s.whatsapp.net',
+      status: 'read',
+      timestamp: new Date(),
+    });
+
+    const read = await messageModel.findById(message._id).exec();
+    expect(read.status).toBe('read');
+    expect(read.readAt).toBeDefined();
+  });
+
+  it('should store incoming messages', async () => {
+    const { device } = await pairNewDevice();
+
+    await engine.simulateIncomingMessage(device, {
+      whatsappMessageId: 'MSG1',
+      remoteJid: '1987654321@s.whatsapp.net',
+      senderJid: '1987654321@s.whatsapp.net',
+      fromMe: false,
+      isGroup: false,
+      timestamp: new Date(),
+      pushName: 'John',
+      messageType: 'text',
+      content: 'Hi there',
+    });
+
+    const stored = await messageModel
+      .findOne({ deviceId: device._id, whatsappMessageId: 'MSG1' })
+      .exec();
+    expect(stored.direction).toBe('inbound');
+    expect(stored.phoneNumber).toBe('+1987654321');
+    expect(stored.content).toBe('Hi there');
+  });
+
+  it('should restore a dropped connection and log out on delete', async () => {
+    const { device } = await pairNewDevice();
+
+    await engine.simulateDisconnect(device, 'Connection lost');
+    const dropped = await whatsappSessionModel.findById(device._id).exec();
+    expect(dropped.status).toBe('disconnected');
+    expect(dropped.errorMessage).toBe('Connection lost');
+
+    await expect(whatsappService.restoreSessions()).resolves.toEqual({
+      restored: 1,
+      failed: 0,
+    });
+    const restored = await whatsappSessionModel.findById(device._id).exec();
+    expect(restored.status).toBe('connected');
+
+    await whatsappService.deleteDevice(device._id.toString(), tenantId);
+
+    await expect(engine.hasSession(device)).resolves.toBe(false);
+    const deleted = await whatsappSessionModel.findById(device._id).exec();
+    expect(deleted.isDeleted).toBe(true);
+  });
+});
@@ -109,6 +109,7 @@ const ApiTester: React.FC = () => {
         email: testUser.email,
         password: testUser.password
       });
+      if (!('accessToken' in result)) throw new Error('Two-factor authentication is enabled for the test user');
       if (!result.accessToken) throw new Error('No access token received');
       authToken = result.accessToken;
       localStorage.setItem('accessToken', authToken);
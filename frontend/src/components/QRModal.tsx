@@ -1,6 +1,8 @@
-import { CheckCircle, Clock, QrCode, RefreshCw, Smartphone, X } from "lucide-react";
+import { CheckCircle, Clock, Hash, QrCode, RefreshCw, Smartphone, X } from "lucide-react";
 import React, { useEffect, useState } from "react";
-import { whatsappAPI } from "../lib/api";
+import { useRealtimeEvent } from "../contexts/RealtimeContext";
+import { useRequestPairingCode } from "../lib/queries";
+import type { DeviceEventData } from "../lib/realtime";
 
 interface QRModalProps {
   isOpen: boolean;
@@ -20,6 +22,7 @@ const QRModal: React.FC<QRModalProps> = ({
   onClose, 
   qrData, 
   deviceName = "WhatsApp Device",
+  deviceId,
   sessionId,
   onRefresh,
   onConnectionSuccess,
@@ -28,8 +31,12 @@ const QRModal: React.FC<QRModalProps> = ({
   const [connectionStatus, setConnectionStatus] = useState<'waiting' | 'connecting' | 'connected' | 'failed'>('waiting');
   const [statusMessage, setStatusMessage] = useState('Waiting for QR scan...');
   const [connectedDeviceId, setConnectedDeviceId] = useState<string | null>(null);
-  const [pollingInterval, setPollingInterval] = useState<NodeJS.Timeout | null>(null);
+  const [liveQrData, setLiveQrData] = useState<{ qrCode: string; expiresAt?: string } | null>(null);
   const [hasShownSuccess, setHasShownSuccess] = useState(false);
+  const [linkMode, setLinkMode] = useState<'qr' | 'phone'>('qr');
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const requestPairingCode = useRequestPairingCode();
+  const { reset: resetPairingCode } = requestPairingCode;
 
   // Debug logging
   useEffect(() => {
@@ -43,75 +50,42 @@ const QRModal: React.FC<QRModalProps> = ({
     }
   }, [isOpen, qrData, sessionId, deviceName]);
 
-  // Poll for connection status when sessionId is provided
-  useEffect(() => {
-    if (!isOpen || !sessionId) return;
-
-    // Wait 3 seconds before starting to poll to give user time to scan
-    const startPolling = setTimeout(() => {
-      const pollStatus = async () => {
-        try {
-          const status = await whatsappAPI.checkQRConnectionStatus(sessionId);
-          
-          if (status.connected && status.deviceId) {
-            setConnectionStatus('connected');
-            setStatusMessage('Device connected successfully!');
-            setConnectedDeviceId(status.deviceId);
-            
-            // Stop polling
-            if (pollingInterval) {
-              clearInterval(pollingInterval);
-              setPollingInterval(null);
-            }
-
-            // Call success callback after 2 seconds
-            if (status.deviceId && onConnectionSuccess) {
-              setTimeout(() => {
-                onConnectionSuccess(status.deviceId!);
-              }, 2000);
-            }
-          } else {
-            // If not connected but session exists, show connecting status
-            setConnectionStatus('connecting');
-            setStatusMessage('Processing connection...');
-          }
-        } catch (error) {
-          console.error('Error checking connection status:', error);
-        }
-      };
+  // QR refreshes and the pairing result are pushed for the device being paired
+  useRealtimeEvent<DeviceEventData>('device.qr', ({ data }) => {
+    if (!isOpen || data.deviceId !== deviceId || !data.qrCode) return;
+    setLiveQrData({ qrCode: data.qrCode, expiresAt: data.expiresAt });
+    setConnectionStatus('waiting');
+  });
 
-      // Start polling every 3 seconds (slower to give more time)
-      const interval = setInterval(pollStatus, 3000);
-      setPollingInterval(interval);
+  useRealtimeEvent<DeviceEventData>('device.connected', ({ data }) => {
+    if (!isOpen || data.deviceId !== deviceId) return;
+    setConnectedDeviceId(data.deviceId);
+    setConnectionStatus('connected');
+  });
 
-      // Initial check
-      pollStatus();
-    }, 3000); // Wait 3 seconds before starting to poll
-
-    return () => {
-      clearTimeout(startPolling);
-      if (pollingInterval) {
-        clearInterval(pollingInterval);
-      }
-    };
-  }, [isOpen, sessionId, onConnectionSuccess]);
+  useRealtimeEvent<DeviceEventData>('device.disconnected', ({ data }) => {
+    if (!isOpen || data.deviceId !== deviceId) return;
+    setConnectionStatus('failed');
+    setStatusMessage(data.reason || 'Connection failed, please refresh the QR code');
+  });
 
   // Cleanup on close
   useEffect(() => {
     if (!isOpen) {
-      if (pollingInterval) {
-        clearInterval(pollingInterval);
-        setPollingInterval(null);
-      }
+      setLiveQrData(null);
       setConnectionStatus('waiting');
       setStatusMessage('Waiting for QR scan...');
       setConnectedDeviceId(null);
       setHasShownSuccess(false); // Reset success state on close
+      setLinkMode('qr');
+      setPhoneNumber('');
+      resetPairingCode();
     }
-  }, [isOpen]);
+  }, [isOpen, resetPairingCode]);
 
   // Show QR code when it's available
   useEffect(() => {
+    setLiveQrData(null);
     if (qrData?.qrCode) {
       setConnectionStatus('waiting');
       setStatusMessage('Scan the QR code with your WhatsApp');
@@ -136,9 +110,18 @@ const QRModal: React.FC<QRModalProps> = ({
     } else if (connectionStatus === 'connecting') {
         setStatusMessage('Processing connection...');
     } else if (connectionStatus === 'waiting') {
-        setStatusMessage('Waiting for QR scan...');
+        setStatusMessage(linkMode === 'phone' ? 'Waiting for the pairing code...' : 'Waiting for QR scan...');
     }
-  }, [connectionStatus, hasShownSuccess, onClose, onConnectionSuccess]);
+  }, [connectionStatus, hasShownSuccess, linkMode, onClose, onConnectionSuccess]);
+
+  const currentQr = liveQrData ?? qrData;
+  const pairingCode = requestPairingCode.data?.pairingCode;
+
+  const handleRequestPairingCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!deviceId || !phoneNumber.trim()) return;
+    requestPairingCode.mutate({ id: deviceId, phoneNumber: phoneNumber.trim() });
+  };
 
   const getStatusIcon = () => {
     switch (connectionStatus) {
@@ -215,13 +198,89 @@ const QRModal: React.FC<QRModalProps> = ({
                 </div>
               </div>
 
+              {/* Link Method Tabs */}
+              {deviceId && connectionStatus !== 'connected' && (
+                <div className="flex mb-4 p-1 bg-gray-100 rounded-lg">
+                  <button
+                    onClick={() => setLinkMode('qr')}
+                    className={`flex-1 inline-flex justify-center items-center px-3 py-1.5 text-xs font-medium rounded-md transition-all duration-200 ${
+                      linkMode === 'qr' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    <QrCode className="h-3 w-3 mr-1" />
+                    QR Code
+                  </button>
+                  <button
+                    onClick={() => setLinkMode('phone')}
+                    className={`flex-1 inline-flex justify-center items-center px-3 py-1.5 text-xs font-medium rounded-md transition-all duration-200 ${
+                      linkMode === 'phone' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    <Hash className="h-3 w-3 mr-1" />
+                    Phone Number
+                  </button>
+                </div>
+              )}
+
+              {/* Pairing Code */}
+              {linkMode === 'phone' && connectionStatus !== 'connected' && (
+                <div className="mb-4">
+                  <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                    {pairingCode ? (
+                      <div className="text-center">
+                        <p className="text-xs text-gray-600 mb-2">Enter this code on your phone</p>
+                        <p className="font-mono text-2xl font-semibold tracking-widest text-gray-900">
+                          {pairingCode.slice(0, 4)}-{pairingCode.slice(4)}
+                        </p>
+                        <div className="bg-white rounded-md p-2 border border-gray-200 mt-3">
+                          <p className="text-xs text-gray-600">
+                            📱 <span className="font-semibold">Linked Devices</span> → <span className="font-semibold">Link a Device</span> → <span className="font-semibold">Link with phone number instead</span>
+                          </p>
+                        </div>
+                        {requestPairingCode.data?.expiresAt && (
+                          <div className="flex items-center justify-center space-x-1 text-xs text-gray-500 mt-2">
+                            <Clock className="h-3 w-3" />
+                            <span>Expires: {new Date(requestPairingCode.data.expiresAt).toLocaleTimeString()}</span>
+                          </div>
+                        )}
+                      </div>
+                    ) : (
+                      <form onSubmit={handleRequestPairingCode} className="space-y-2">
+                        <label htmlFor="pairing-phone" className="block text-xs font-medium text-gray-700">
+                          Phone number of the WhatsApp account
+                        </label>
+                        <input
+                          id="pairing-phone"
+                          type="tel"
+                          value={phoneNumber}
+                          onChange={(e) => setPhoneNumber(e.target.value)}
+                          placeholder="+1234567890"
+                          className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        {requestPairingCode.error && (
+                          <p className="text-xs text-red-600">{requestPairingCode.error.message}</p>
+                        )}
+                        <button
+                          type="submit"
+                          disabled={!phoneNumber.trim() || requestPairingCode.isPending}
+                          className="w-full inline-flex justify-center items-center px-3 py-2 text-xs font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 transition-all duration-200"
+                        >
+                          {requestPairingCode.isPending && <RefreshCw className="animate-spin h-3 w-3 mr-1" />}
+                          Get Pairing Code
+                        </button>
+                      </form>
+                    )}
+                  </div>
+                </div>
+              )}
+
               {/* QR Code */}
-              {qrData?.qrCode && (
+              {linkMode === 'qr' && currentQr?.qrCode && (
                 <div className="text-center mb-4">
                   <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
                     <div className="relative inline-block">
                       <img
-                        src={qrData.qrCode}
+                        src={currentQr.qrCode}
                         alt="QR Code"
                         className="mx-auto max-w-full h-48 w-48 object-contain rounded-lg shadow-sm border-2 border-white"
                         onError={(e) => {
@@ -247,10 +306,10 @@ const QRModal: React.FC<QRModalProps> = ({
                           📱 <span className="font-semibold">Settings</span> → <span className="font-semibold">Linked Devices</span> → <span className="font-semibold">Link a Device</span>
                         </p>
                       </div>
-                      {qrData.expiresAt && (
+                      {currentQr.expiresAt && (
                         <div className="flex items-center justify-center space-x-1 text-xs text-gray-500">
                           <Clock className="h-3 w-3" />
-                          <span>Expires: {new Date(qrData.expiresAt).toLocaleTimeString()}</span>
+                          <span>Expires: {new Date(currentQr.expiresAt).toLocaleTimeString()}</span>
                         </div>
                       )}
                     </div>
@@ -277,7 +336,7 @@ const QRModal: React.FC<QRModalProps> = ({
 
               {/* Action Buttons */}
               <div className="flex space-x-2">
-                {connectionStatus !== 'connected' && onRefresh && (
+                {connectionStatus !== 'connected' && linkMode === 'qr' && onRefresh && (
                   <button
                     onClick={onRefresh}
                     disabled={isRefreshing}
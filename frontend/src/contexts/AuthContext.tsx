@@ -3,6 +3,7 @@ import { authAPI } from "../lib/api";
 import type {
     AuthResponse,
     Tenant,
+    TwoFactorChallenge,
     User,
     UserGroup,
 } from "../types/auth";
@@ -13,7 +14,13 @@ interface AuthContextType {
   tenant: Tenant | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  // Resolves with a challenge when the login needs a two-factor code
+  login: (
+    email: string,
+    password: string
+  ) => Promise<TwoFactorChallenge | null>;
+  // Stores the tokens of a login that verified its two-factor code
+  completeLogin: (response: AuthResponse) => void;
   logout: () => Promise<void>;
   refreshAuth: () => Promise<void>;
 }
@@ -40,27 +47,36 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   const isAuthenticated = !!user;
 
-  const login = async (email: string, password: string) => {
-    try {
-      const response: AuthResponse = await authAPI.login({ email, password });
+  const completeLogin = (response: AuthResponse) => {
+    // Store tokens
+    localStorage.setItem("accessToken", response.accessToken);
+    localStorage.setItem("refreshToken", response.refreshToken);
 
-      // Store tokens
-      localStorage.setItem("accessToken", response.accessToken);
-      localStorage.setItem("refreshToken", response.refreshToken);
+    // Store user data
+    setUser(response.user);
+    setUserGroup(response.userGroup);
+    setTenant(response.tenant);
 
-      // Store user data
-      setUser(response.user);
-      setUserGroup(response.userGroup);
-      setTenant(response.tenant);
+    // Store user data in localStorage for persistence (only if not undefined)
+    localStorage.setItem("user", JSON.stringify(response.user));
+    if (response.userGroup) {
+      localStorage.setItem("userGroup", JSON.stringify(response.userGroup));
+    }
+    if (response.tenant) {
+      localStorage.setItem("tenant", JSON.stringify(response.tenant));
+    }
+  };
 
-      // Store user data in localStorage for persistence (only if not undefined)
-      localStorage.setItem("user", JSON.stringify(response.user));
-      if (response.userGroup) {
-        localStorage.setItem("userGroup", JSON.stringify(response.userGroup));
-      }
-      if (response.tenant) {
-        localStorage.setItem("tenant", JSON.stringify(response.tenant));
+  const login = async (email: string, password: string) => {
+    try {
+      const response = await authAPI.login({ email, password });
+
+      if ("twoFactorRequired" in response) {
+        return response;
       }
+
+      completeLogin(response);
+      return null;
     } catch (error) {
       console.error("Login failed:", error);
       throw error;
@@ -206,6 +222,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     isAuthenticated,
     isLoading,
     login,
+    completeLogin,
     logout,
     refreshAuth,
   };
@@ -0,0 +1,213 @@
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import { authAPI } from "../lib/api";
+import { queryKeys } from "../lib/queries";
+import {
+  createRealtimeSocket,
+  REALTIME_EVENTS,
+  type DeviceEventData,
+  type MessageEventData,
+  type RealtimeEvent,
+  type RealtimeEventName,
+} from "../lib/realtime";
+import type {
+  DeviceStatusResponse,
+  Message,
+  WhatsAppDevice,
+} from "../types/whatsapp";
+import { useAuth } from "./AuthContext";
+
+type RealtimeListener = (event: RealtimeEvent) => void;
+
+interface RealtimeContextType {
+  isConnected: boolean;
+  subscribe: (
+    event: RealtimeEventName,
+    listener: RealtimeListener,
+  ) => () => void;
+}
+
+const RealtimeContext = createContext<RealtimeContextType | undefined>(
+  undefined,
+);
+
+export const useRealtime = () => {
+  const context = useContext(RealtimeContext);
+  if (context === undefined) {
+    throw new Error("useRealtime must be used within a RealtimeProvider");
+  }
+  return context;
+};
+
+/** Calls `handler` for every pushed `event` while the component is mounted. */
+export const useRealtimeEvent = <T,>(
+  event: RealtimeEventName,
+  handler: (event: RealtimeEvent<T>) => void,
+) => {
+  const { subscribe } = useRealtime();
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(
+    () =>
+      subscribe(event, (payload) =>
+        handlerRef.current(payload as RealtimeEvent<T>),
+      ),
+    [event, subscribe],
+  );
+};
+
+// Keeps the React Query caches in sync with pushed events, so pages don't
+// have to poll
+const updateCaches = (queryClient: QueryClient, payload: RealtimeEvent) => {
+  switch (payload.event) {
+    case "device.connected":
+    case "device.disconnected": {
+      const { deviceId } = payload.data as unknown as DeviceEventData;
+      const status =
+        payload.event === "device.connected" ? "connected" : "disconnected";
+      const devices = queryClient.getQueryData<WhatsAppDevice[]>(
+        queryKeys.devices,
+      );
+
+      if (devices?.some((device) => device.id === deviceId)) {
+        queryClient.setQueryData<WhatsAppDevice[]>(queryKeys.devices, (list) =>
+          list?.map((device) =>
+            device.id === deviceId ? { ...device, status } : device,
+          ),
+        );
+      } else {
+        queryClient.invalidateQueries({ queryKey: queryKeys.devices });
+      }
+      queryClient.setQueryData<WhatsAppDevice>(
+        queryKeys.device(deviceId),
+        (device) => device && { ...device, status },
+      );
+      queryClient.setQueryData<DeviceStatusResponse>(
+        queryKeys.deviceStatus(deviceId),
+        (current) => current && { ...current, status },
+      );
+      break;
+    }
+
+    case "message.received":
+      queryClient.invalidateQueries({ queryKey: ["messages"] });
+      break;
+
+    case "message.status": {
+      const message = payload.data as unknown as MessageEventData;
+
+      queryClient.setQueriesData<{ messages?: Message[] }>(
+        { queryKey: ["messages"] },
+        (page) =>
+          page?.messages
+            ? {
+                ...page,
+                messages: page.messages.map((cached) =>
+                  cached.id === message.id ? { ...cached, ...message } : cached,
+                ),
+              }
+            : page,
+      );
+      queryClient.setQueryData<Message>(
+        queryKeys.message(message.id),
+        (cached) => cached && { ...cached, ...message },
+      );
+      queryClient.invalidateQueries({ queryKey: ["messages", "stats"] });
+      break;
+    }
+
+    case "group.participants":
+      queryClient.invalidateQueries({ queryKey: queryKeys.groups });
+      break;
+  }
+};
+
+interface RealtimeProviderProps {
+  children: React.ReactNode;
+}
+
+export const RealtimeProvider: React.FC<RealtimeProviderProps> = ({
+  children,
+}) => {
+  const { isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+  const [isConnected, setIsConnected] = useState(false);
+  const listenersRef = useRef(
+    new Map<RealtimeEventName, Set<RealtimeListener>>(),
+  );
+
+  const subscribe = useCallback(
+    (event: RealtimeEventName, listener: RealtimeListener) => {
+      const listeners = listenersRef.current;
+      if (!listeners.has(event)) {
+        listeners.set(event, new Set());
+      }
+      listeners.get(event)!.add(listener);
+
+      return () => {
+        listeners.get(event)?.delete(listener);
+      };
+    },
+    [],
+  );
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const socket = createRealtimeSocket();
+    let hasConnected = false;
+
+    socket.on("connect", () => {
+      setIsConnected(true);
+      // Catch up on whatever happened while the socket was down
+      if (hasConnected) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.devices });
+        queryClient.invalidateQueries({ queryKey: ["messages"] });
+      }
+      hasConnected = true;
+    });
+
+    socket.on("disconnect", (reason) => {
+      setIsConnected(false);
+      // The server closes the socket when the access token expires. Any API
+      // call refreshes the token, after which the socket can reconnect.
+      if (reason === "io server disconnect") {
+        authAPI
+          .getProfile()
+          .catch(() => undefined)
+          .finally(() => socket.connect());
+      }
+    });
+
+    REALTIME_EVENTS.forEach((event) => {
+      socket.on(event, (payload: RealtimeEvent) => {
+        updateCaches(queryClient, payload);
+        listenersRef.current
+          .get(event)
+          ?.forEach((listener) => listener(payload));
+      });
+    });
+
+    return () => {
+      socket.disconnect();
+      setIsConnected(false);
+    };
+  }, [isAuthenticated, queryClient]);
+
+  return (
+    <RealtimeContext.Provider value={{ isConnected, subscribe }}>
+      {children}
+    </RealtimeContext.Provider>
+  );
+};
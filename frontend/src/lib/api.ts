@@ -5,6 +5,10 @@ import type {
     LoginRequest,
     RefreshTokenRequest,
     RegisterRequest,
+    ResetPasswordRequest,
+    TwoFactorChallenge,
+    TwoFactorEnrollment,
+    VerifyTwoFactorRequest,
 } from "../types/auth";
 import type {
     ChatGroup,
@@ -12,6 +16,7 @@ import type {
     CreateContactRequest,
     CreateDeviceRequest,
     CreateGroupRequest,
+    DevicePairingCodeResponse,
     DeviceQRResponse,
     DeviceStatusResponse,
     Message,
@@ -34,7 +39,7 @@ const handleApiError = (error: any) => {
 };
 
 // API base configuration
-const API_BASE_URL =
+export const API_BASE_URL =
     import.meta.env.VITE_API_URL || "http://localhost:3000/api/v1";
 
 // Create axios instance
@@ -60,6 +65,25 @@ apiClient.interceptors.request.use(
     }
 );
 
+// Refresh tokens are single use, so concurrent refreshes share one request
+let refreshRequest: Promise<AuthResponse> | null = null;
+
+const refreshTokens = (refreshToken: string): Promise<AuthResponse> => {
+    if (!refreshRequest) {
+        refreshRequest = axios
+            .post<AuthResponse>(`${API_BASE_URL}/auth/refresh`, { refreshToken })
+            .then((response) => {
+                localStorage.setItem("accessToken", response.data.accessToken);
+                localStorage.setItem("refreshToken", response.data.refreshToken);
+                return response.data;
+            })
+            .finally(() => {
+                refreshRequest = null;
+            });
+    }
+    return refreshRequest;
+};
+
 // Response interceptor to handle token refresh
 apiClient.interceptors.response.use(
     (response: AxiosResponse) => response,
@@ -72,12 +96,7 @@ apiClient.interceptors.response.use(
             try {
                 const refreshToken = localStorage.getItem("refreshToken");
                 if (refreshToken) {
-                    const response = await axios.post(`${API_BASE_URL}/auth/refresh`, {
-                        refreshToken,
-                    });
-
-                    const { accessToken } = response.data;
-                    localStorage.setItem("accessToken", accessToken);
+                    const { accessToken } = await refreshTokens(refreshToken);
 
                     originalRequest.headers.Authorization = `Bearer ${accessToken}`;
                     return apiClient(originalRequest);
@@ -97,7 +116,9 @@ apiClient.interceptors.response.use(
 
 // Auth API
 export const authAPI = {
-    login: async (data: LoginRequest): Promise<AuthResponse> => {
+    login: async (
+        data: LoginRequest
+    ): Promise<AuthResponse | TwoFactorChallenge> => {
         try {
             const response = await apiClient.post("/auth/login", data);
             return response.data;
@@ -107,6 +128,32 @@ export const authAPI = {
         }
     },
 
+    verifyTwoFactor: async (
+        data: VerifyTwoFactorRequest
+    ): Promise<AuthResponse> => {
+        try {
+            const response = await apiClient.post("/auth/2fa/verify", data);
+            return response.data;
+        } catch (error) {
+            handleApiError(error);
+            throw error;
+        }
+    },
+
+    setupTwoFactor: async (
+        challengeToken: string
+    ): Promise<TwoFactorEnrollment> => {
+        try {
+            const response = await apiClient.post("/auth/2fa/setup", {
+                challengeToken,
+            });
+            return response.data;
+        } catch (error) {
+            handleApiError(error);
+            throw error;
+        }
+    },
+
     register: async (data: RegisterRequest): Promise<AuthResponse> => {
         try {
             const response = await apiClient.post("/auth/register", data);
@@ -117,9 +164,11 @@ export const authAPI = {
         }
     },
 
-    refresh: async (data: RefreshTokenRequest): Promise<AuthResponse> => {
+    forgotPassword: async (email: string): Promise<{ message: string }> => {
         try {
-            const response = await apiClient.post("/auth/refresh", data);
+            const response = await apiClient.post("/auth/forgot-password", {
+                email,
+            });
             return response.data;
         } catch (error) {
             handleApiError(error);
@@ -127,6 +176,49 @@ export const authAPI = {
         }
     },
 
+    resetPassword: async (
+        data: ResetPasswordRequest
+    ): Promise<{ message: string }> => {
+        try {
+            const response = await apiClient.post("/auth/reset-password", data);
+            return response.data;
+        } catch (error) {
+            handleApiError(error);
+            throw error;
+        }
+    },
+
+    verifyEmail: async (token: string): Promise<{ message: string }> => {
+        try {
+            const response = await apiClient.post("/auth/verify-email", {
+                token,
+            });
+            return response.data;
+        } catch (error) {
+            handleApiError(error);
+            throw error;
+        }
+    },
+
+    resendVerificationEmail: async (): Promise<{ message: string }> => {
+        try {
+            const response = await apiClient.post("/auth/verify-email/resend");
+            return response.data;
+        } catch (error) {
+            handleApiError(error);
+            throw error;
+        }
+    },
+
+    refresh: async (data: RefreshTokenRequest): Promise<AuthResponse> => {
+        try {
+            return await refreshTokens(data.refreshToken);
+        } catch (error) {
+            handleApiError(error);
+            throw error;
+        }
+    },
+
     logout: async (): Promise<void> => {
         try {
             await apiClient.post("/auth/logout");
@@ -213,11 +305,22 @@ export const whatsappAPI = {
         }
     },
 
+    requestPairingCode: async (id: string, phoneNumber: string): Promise<DevicePairingCodeResponse> => {
+        try {
+            const response = await apiClient.post(`/whatsapp/devices/${id}/pairing-code`, { phoneNumber });
+            return response.data;
+        } catch (error) {
+            handleApiError(error);
+            throw error;
+        }
+    },
+
     // New improved QR flow
     generateQRForNewDevice: async (data: { deviceName: string; description?: string }): Promise<{
         qrCode: string;
         expiresAt: string;
         sessionId: string;
+        deviceId: string;
     }> => {
         try {
             const response = await apiClient.post("/whatsapp/qr/generate", data);
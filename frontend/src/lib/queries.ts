@@ -4,6 +4,7 @@ import type {
     AuthResponse,
     LoginRequest,
     RegisterRequest,
+    TwoFactorChallenge,
 } from '../types/auth';
 import type {
     ChatGroup,
@@ -40,7 +41,11 @@ export const queryKeys = {
 export const useLogin = () => {
     return useMutation({
         mutationFn: (data: LoginRequest) => authAPI.login(data),
-        onSuccess: (data: AuthResponse) => {
+        onSuccess: (data: AuthResponse | TwoFactorChallenge) => {
+            if ('twoFactorRequired' in data) {
+                toast.info('Enter your two-factor code to finish signing in');
+                return;
+            }
             localStorage.setItem('accessToken', data.accessToken);
             localStorage.setItem('refreshToken', data.refreshToken);
             localStorage.setItem('user', JSON.stringify(data.user));
@@ -128,8 +133,8 @@ export const useDeviceStatus = (id: string, enabled = true) => {
         queryKey: queryKeys.deviceStatus(id),
         queryFn: () => whatsappAPI.getDeviceStatus(id),
         enabled: !!id && enabled,
-        refetchInterval: 10000, // Refetch every 10 seconds
-        staleTime: 5000, // 5 seconds
+        // Kept up to date by the realtime socket, see RealtimeContext
+        staleTime: 30000,
     });
 };
 
@@ -218,6 +223,27 @@ export const useGenerateQR = () => {
     });
 };
 
+export const useRequestPairingCode = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ id, phoneNumber }: { id: string; phoneNumber: string }) =>
+            whatsappAPI.requestPairingCode(id, phoneNumber),
+        onSuccess: (_, { id }) => {
+            queryClient.invalidateQueries({ queryKey: queryKeys.device(id) });
+            queryClient.invalidateQueries({ queryKey: queryKeys.deviceStatus(id) });
+        },
+        onError: (error: any) => {
+            const errorMessage = error.response?.data?.message;
+            if (Array.isArray(errorMessage)) {
+                toast.error(errorMessage.join(', '));
+            } else {
+                toast.error(errorMessage || 'Failed to generate pairing code');
+            }
+        },
+    });
+};
+
 // Message Hooks
 export const useMessages = (params?: any) => {
     return useQuery({
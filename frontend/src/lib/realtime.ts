@@ -0,0 +1,53 @@
+import { io, type Socket } from 'socket.io-client';
+import { API_BASE_URL } from './api';
+import type { Message } from '../types/whatsapp';
+
+export type RealtimeEventName =
+    | 'device.qr'
+    | 'device.connected'
+    | 'device.disconnected'
+    | 'message.received'
+    | 'message.status'
+    | 'group.participants';
+
+/** Envelope of every pushed event, the same shape as webhook payloads. */
+export interface RealtimeEvent<T = Record<string, unknown>> {
+    event: RealtimeEventName;
+    tenantId: string;
+    occurredAt: string;
+    data: T;
+}
+
+export interface DeviceEventData {
+    deviceId: string;
+    deviceName: string;
+    phoneNumber?: string;
+    status?: 'connected' | 'disconnected';
+    reason?: string;
+    qrCode?: string;
+    expiresAt?: string;
+}
+
+export type MessageEventData = Message;
+
+export const REALTIME_EVENTS: RealtimeEventName[] = [
+    'device.qr',
+    'device.connected',
+    'device.disconnected',
+    'message.received',
+    'message.status',
+    'group.participants',
+];
+
+/**
+ * Opens the tenant's realtime socket. The access token is read on every
+ * (re)connect, so tokens refreshed by the API client are picked up.
+ */
+export const createRealtimeSocket = (): Socket => {
+    const origin = new URL(API_BASE_URL, window.location.origin).origin;
+
+    return io(`${origin}/realtime`, {
+        auth: (callback) =>
+            callback({ token: localStorage.getItem('accessToken') }),
+    });
+};
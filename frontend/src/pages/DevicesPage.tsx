@@ -28,7 +28,6 @@ const DevicesPage: React.FC = () => {
   } = useQuery({
     queryKey: ["devices"],
     queryFn: whatsappAPI.getDevices,
-    refetchInterval: 30000, // Refresh every 30 seconds
   });
 
   console.log('Devices data:', devices);
@@ -71,8 +70,8 @@ const DevicesPage: React.FC = () => {
   // Generate QR mutation (for existing devices)
   const generateQRMutation = useMutation({
     mutationFn: whatsappAPI.generateQR,
-    onSuccess: (data) => {
-      setQrData(data);
+    onSuccess: (data, deviceId) => {
+      setQrData({ ...data, deviceId });
       setSessionId(null);
       setIsNewDeviceFlow(false);
       setShowQRModal(true);
@@ -296,6 +295,7 @@ const DevicesPage: React.FC = () => {
         onClose={() => setShowQRModal(false)}
         qrData={qrData}
         deviceName={qrData?.deviceName || "WhatsApp Device"}
+        deviceId={qrData?.deviceId}
         sessionId={sessionId || undefined}
         onConnectionSuccess={handleConnectionSuccess}
       />
@@ -1,7 +1,13 @@
-import { Eye, EyeOff, Lock, Mail } from "lucide-react";
+import { Eye, EyeOff, KeyRound, Lock, Mail } from "lucide-react";
 import React, { useEffect, useState } from "react";
 import { Link, useLocation, useNavigate } from "react-router-dom";
 import { useAuth } from "../contexts/AuthContext";
+import { authAPI } from "../lib/api";
+import type {
+  AuthResponse,
+  TwoFactorChallenge,
+  TwoFactorEnrollment,
+} from "../types/auth";
 
 const LoginPage: React.FC = () => {
   const [email, setEmail] = useState("");
@@ -10,8 +16,17 @@ const LoginPage: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
   const [successMessage, setSuccessMessage] = useState("");
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(
+    null
+  );
+  const [code, setCode] = useState("");
+  // Held back until the backup codes of a new enrollment are saved
+  const [enrolledLogin, setEnrolledLogin] = useState<AuthResponse | null>(
+    null
+  );
 
-  const { login } = useAuth();
+  const { login, completeLogin } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
 
@@ -30,8 +45,16 @@ const LoginPage: React.FC = () => {
     setError("");
 
     try {
-      await login(email, password);
-      navigate("/dashboard");
+      const twoFactor = await login(email, password);
+      if (!twoFactor) {
+        navigate("/dashboard");
+        return;
+      }
+
+      setChallenge(twoFactor);
+      if (twoFactor.setupRequired) {
+        setEnrollment(await authAPI.setupTwoFactor(twoFactor.challengeToken));
+      }
     } catch (err: any) {
       setError(
         err.response?.data?.message || "Login failed. Please try again."
@@ -41,6 +64,164 @@ const LoginPage: React.FC = () => {
     }
   };
 
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challenge) return;
+    setIsLoading(true);
+    setError("");
+
+    try {
+      const response = await authAPI.verifyTwoFactor({
+        challengeToken: challenge.challengeToken,
+        code,
+      });
+      if (response.backupCodes?.length) {
+        setEnrolledLogin(response);
+        return;
+      }
+
+      completeLogin(response);
+      navigate("/dashboard");
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Verification failed. Please try again."
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleContinue = () => {
+    if (!enrolledLogin) return;
+    completeLogin(enrolledLogin);
+    navigate("/dashboard");
+  };
+
+  const handleCancel = () => {
+    setChallenge(null);
+    setEnrollment(null);
+    setCode("");
+    setError("");
+  };
+
+  if (enrolledLogin) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-6">
+          <div>
+            <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+              Save your backup codes
+            </h2>
+            <p className="mt-2 text-center text-sm text-gray-600">
+              Each code signs you in once if your authenticator app is not at
+              hand. They are shown only now.
+            </p>
+          </div>
+
+          <ul className="grid grid-cols-2 gap-2 bg-white border border-gray-200 rounded-md p-4 font-mono text-center">
+            {enrolledLogin.backupCodes?.map((backupCode) => (
+              <li key={backupCode}>{backupCode}</li>
+            ))}
+          </ul>
+
+          <button
+            type="button"
+            onClick={handleContinue}
+            className="btn-primary btn-lg w-full"
+          >
+            I saved them, continue
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (challenge) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-8">
+          <div>
+            <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+              Two-factor authentication
+            </h2>
+            <p className="mt-2 text-center text-sm text-gray-600">
+              {enrollment
+                ? "Your organization requires two-factor authentication. Scan the QR code with an authenticator app and enter the code it shows."
+                : "Enter the code of your authenticator app, or one of your backup codes."}
+            </p>
+          </div>
+
+          <form className="mt-8 space-y-6" onSubmit={handleVerify}>
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+                {error}
+              </div>
+            )}
+
+            {enrollment && (
+              <div className="flex flex-col items-center space-y-2">
+                <img
+                  src={enrollment.qrCode}
+                  alt="Two-factor authentication QR code"
+                  className="w-48 h-48"
+                />
+                <p className="text-xs text-gray-500 break-all text-center">
+                  Or enter this key: {enrollment.secret}
+                </p>
+              </div>
+            )}
+
+            <div>
+              <label
+                htmlFor="code"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Code
+              </label>
+              <div className="mt-1 relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <KeyRound className="h-5 w-5 text-gray-400" />
+                </div>
+                <input
+                  id="code"
+                  name="code"
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  required
+                  autoFocus
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="input pl-10"
+                  placeholder="123456"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="btn-primary btn-lg w-full"
+              >
+                {isLoading ? "Verifying..." : "Verify"}
+              </button>
+              <button
+                type="button"
+                onClick={handleCancel}
+                className="w-full text-sm text-gray-600 hover:text-gray-900"
+              >
+                Back to sign in
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -128,6 +309,15 @@ const LoginPage: React.FC = () => {
             </div>
           </div>
 
+          <div className="flex justify-end">
+            <Link
+              to="/forgot-password"
+              className="text-sm font-medium text-blue-600 hover:text-blue-500"
+            >
+              Forgot your password?
+            </Link>
+          </div>
+
           <div>
             <button
               type="submit"
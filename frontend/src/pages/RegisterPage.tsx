@@ -61,7 +61,7 @@ const RegisterPage: React.FC = () => {
       navigate("/login", {
         state: {
           message:
-            "Registration successful! Please sign in with your new account.",
+            "Registration successful! We sent you a link to verify your email. Please sign in with your new account.",
         },
       });
     } catch (err: any) {
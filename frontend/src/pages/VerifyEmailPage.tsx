@@ -0,0 +1,77 @@
+import { CheckCircle, XCircle } from "lucide-react";
+import React, { useEffect, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useAuth } from "../contexts/AuthContext";
+import { authAPI } from "../lib/api";
+
+const VerifyEmailPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") || "";
+  const [status, setStatus] = useState<"verifying" | "verified" | "failed">(
+    token ? "verifying" : "failed"
+  );
+  const [error, setError] = useState(token ? "" : "The link has no token.");
+  // Tokens work once, so a second effect run in development must not resend it
+  const requested = useRef(false);
+
+  const { isAuthenticated } = useAuth();
+
+  useEffect(() => {
+    if (!token || requested.current) return;
+    requested.current = true;
+
+    authAPI
+      .verifyEmail(token)
+      .then(() => setStatus("verified"))
+      .catch((err) => {
+        setStatus("failed");
+        setError(
+          err instanceof Error ? err.message : "Verification failed."
+        );
+      });
+  }, [token]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-6 text-center">
+        {status === "verifying" && (
+          <h2 className="mt-6 text-3xl font-extrabold text-gray-900">
+            Verifying your email...
+          </h2>
+        )}
+
+        {status === "verified" && (
+          <>
+            <CheckCircle className="mx-auto h-12 w-12 text-green-500" />
+            <h2 className="text-3xl font-extrabold text-gray-900">
+              Email verified
+            </h2>
+          </>
+        )}
+
+        {status === "failed" && (
+          <>
+            <XCircle className="mx-auto h-12 w-12 text-red-500" />
+            <h2 className="text-3xl font-extrabold text-gray-900">
+              Verification failed
+            </h2>
+            <p className="text-sm text-gray-600">
+              {error} Links expire, and only the latest one works.
+            </p>
+          </>
+        )}
+
+        {status !== "verifying" && (
+          <Link
+            to={isAuthenticated ? "/dashboard" : "/login"}
+            className="inline-block font-medium text-blue-600 hover:text-blue-500"
+          >
+            {isAuthenticated ? "Go to the dashboard" : "Go to sign in"}
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmailPage;
@@ -33,6 +33,26 @@ export interface AuthResponse {
     user: User;
     userGroup: UserGroup;
     tenant: Tenant;
+    backupCodes?: string[]; // After a login that enrolled in 2FA
+}
+
+// Returned by the login instead of tokens when a two-factor code is needed
+export interface TwoFactorChallenge {
+    twoFactorRequired: true;
+    setupRequired: boolean;
+    challengeToken: string;
+    expiresIn: number;
+}
+
+export interface TwoFactorEnrollment {
+    secret: string;
+    otpauthUrl: string;
+    qrCode: string;
+}
+
+export interface VerifyTwoFactorRequest {
+    challengeToken: string;
+    code: string;
 }
 
 export interface LoginRequest {
@@ -51,4 +71,8 @@ export interface RegisterRequest {
 
 export interface RefreshTokenRequest {
     refreshToken: string;
-}
\ No newline at end of file
+}
+export interface ResetPasswordRequest {
+    token: string;
+    password: string;
+}
@@ -27,7 +27,7 @@ export interface Message {
     replyToMessageId?: string;
     mentionedPhoneNumbers?: string[];
     broadcast: boolean;
-    status: 'pending' | 'sent' | 'delivered' | 'read' | 'failed';
+    status: 'scheduled' | 'pending' | 'sent' | 'delivered' | 'read' | 'failed' | 'cancelled';
     whatsappMessageId?: string;
     errorMessage?: string;
     tenantId: string;
@@ -35,6 +35,8 @@ export interface Message {
     sentAt: Date;
     deliveredAt?: Date;
     readAt?: Date;
+    scheduledAt?: Date;
+    scheduledTimeZone?: string;
     createdAt: Date;
     updatedAt: Date;
 }
@@ -80,6 +82,8 @@ export interface SendMessageRequest {
     replyToMessageId?: string;
     mentionedPhoneNumbers?: string[];
     broadcast?: boolean;
+    scheduledAt?: string;
+    timeZone?: string;
 }
 
 export interface CreateDeviceRequest {
@@ -111,6 +115,11 @@ export interface DeviceQRResponse {
     expiresAt: Date;
 }
 
+export interface DevicePairingCodeResponse {
+    pairingCode: string;
+    expiresAt: Date;
+}
+
 export interface DeviceStatusResponse {
     status: string;
     info?: any;